@@ -1,6 +1,6 @@
 -- ============================================================
 -- SQL-on-FHIR Condition View over HAPI FHIR JPA
--- Version: 1
+-- Version: 2
 -- Resource: Condition (FHIR R4)
 -- ============================================================
 
@@ -54,7 +54,11 @@ SELECT
   -- Encounter reference
   SPLIT_PART(rv.res_json->'encounter'->>'reference', '/', 2)      AS encounter_id,
 
-  r.RES_UPDATED                                                   AS last_updated
+  r.RES_UPDATED                                                   AS last_updated,
+
+  -- Every coding, for code filters that match any of them (added in version 2)
+  jsonb_path_query_array(rv.res_json, '$.code.coding[*]')         AS code_coding,
+  jsonb_path_query_array(rv.res_json, '$.category[*].coding[*]')  AS category_coding
 
 FROM HFJ_RESOURCE r
 CROSS JOIN LATERAL (
@@ -69,4 +73,4 @@ CROSS JOIN LATERAL (
 WHERE r.RES_DELETED_AT IS NULL
   AND r.RES_TYPE = 'Condition';
 
-SELECT cql_studio_set_view_version('condition_view', 1, 'Initial SQL-on-FHIR condition view');
+SELECT cql_studio_set_view_version('condition_view', 2, 'SQL-on-FHIR condition view with every coding');
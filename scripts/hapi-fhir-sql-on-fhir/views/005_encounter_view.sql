@@ -1,6 +1,6 @@
 -- ============================================================
 -- SQL-on-FHIR Encounter View over HAPI FHIR JPA
--- Version: 1
+-- Version: 2
 -- Resource: Encounter (FHIR R4)
 -- ============================================================
 
@@ -30,7 +30,10 @@ SELECT
   -- Service provider (Organization ref)
   SPLIT_PART(rv.res_json->'serviceProvider'->>'reference', '/', 2) AS service_provider_id,
 
-  r.RES_UPDATED                                                   AS last_updated
+  r.RES_UPDATED                                                   AS last_updated,
+
+  -- Every coding, for code filters that match any of them (added in version 2)
+  jsonb_path_query_array(rv.res_json, '$.type[*].coding[*]')      AS type_coding
 
 FROM HFJ_RESOURCE r
 CROSS JOIN LATERAL (
@@ -45,4 +48,4 @@ CROSS JOIN LATERAL (
 WHERE r.RES_DELETED_AT IS NULL
   AND r.RES_TYPE = 'Encounter';
 
-SELECT cql_studio_set_view_version('encounter_view', 1, 'Initial SQL-on-FHIR encounter view');
+SELECT cql_studio_set_view_version('encounter_view', 2, 'SQL-on-FHIR encounter view with every coding');
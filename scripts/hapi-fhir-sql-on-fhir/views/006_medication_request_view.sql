@@ -1,6 +1,6 @@
 -- ============================================================
 -- SQL-on-FHIR MedicationRequest View over HAPI FHIR JPA
--- Version: 1
+-- Version: 2
 -- Resource: MedicationRequest (FHIR R4)
 -- ============================================================
 
@@ -49,7 +49,10 @@ SELECT
   -- Requester reference
   SPLIT_PART(rv.res_json->'requester'->>'reference', '/', 2)            AS requester_id,
 
-  r.RES_UPDATED                                                         AS last_updated
+  r.RES_UPDATED                                                         AS last_updated,
+
+  -- Every coding, for code filters that match any of them (added in version 2)
+  jsonb_path_query_array(rv.res_json, '$.medicationCodeableConcept.coding[*]') AS medication_coding
 
 FROM HFJ_RESOURCE r
 CROSS JOIN LATERAL (
@@ -64,4 +67,4 @@ CROSS JOIN LATERAL (
 WHERE r.RES_DELETED_AT IS NULL
   AND r.RES_TYPE = 'MedicationRequest';
 
-SELECT cql_studio_set_view_version('medication_request_view', 1, 'Initial SQL-on-FHIR medication_request view');
+SELECT cql_studio_set_view_version('medication_request_view', 2, 'SQL-on-FHIR medication_request view with every coding');
@@ -1,6 +1,6 @@
 -- ============================================================
 -- SQL-on-FHIR Coverage View over HAPI FHIR JPA
--- Version: 1
+-- Version: 2
 -- Resource: Coverage (FHIR R4 / US Core 6.1)
 --
 -- US Core 6.1 MustSupport elements included:
@@ -55,7 +55,10 @@ SELECT
   -- Order/priority (lower = higher priority when multiple coverages exist)
   (rv.res_json->>'order')::integer                                      AS priority_order,
 
-  r.RES_UPDATED                                                         AS last_updated
+  r.RES_UPDATED                                                         AS last_updated,
+
+  -- Every coding, for code filters that match any of them (added in version 2)
+  jsonb_path_query_array(rv.res_json, '$.type.coding[*]')               AS type_coding
 
 FROM HFJ_RESOURCE r
 CROSS JOIN LATERAL (
@@ -70,5 +73,5 @@ CROSS JOIN LATERAL (
 WHERE r.RES_DELETED_AT IS NULL
   AND r.RES_TYPE = 'Coverage';
 
-SELECT cql_studio_set_view_version('coverage_view', 1,
+SELECT cql_studio_set_view_version('coverage_view', 2,
   'US Core 6.1 Coverage view — payer, type, period, class (plan)');
@@ -1,6 +1,6 @@
 -- ============================================================
 -- SQL-on-FHIR AllergyIntolerance View over HAPI FHIR JPA
--- Version: 1
+-- Version: 2
 -- Resource: AllergyIntolerance (FHIR R4 / US Core 6.1)
 --
 -- US Core 6.1 MustSupport elements included:
@@ -48,7 +48,10 @@ SELECT
 
   (rv.res_json->>'recordedDate')::date                                  AS recorded_date,
 
-  r.RES_UPDATED                                                         AS last_updated
+  r.RES_UPDATED                                                         AS last_updated,
+
+  -- Every coding, for code filters that match any of them (added in version 2)
+  jsonb_path_query_array(rv.res_json, '$.code.coding[*]')               AS code_coding
 
 FROM HFJ_RESOURCE r
 CROSS JOIN LATERAL (
@@ -63,5 +66,5 @@ CROSS JOIN LATERAL (
 WHERE r.RES_DELETED_AT IS NULL
   AND r.RES_TYPE = 'AllergyIntolerance';
 
-SELECT cql_studio_set_view_version('allergy_intolerance_view', 1,
+SELECT cql_studio_set_view_version('allergy_intolerance_view', 2,
   'US Core 6.1 AllergyIntolerance view — substance, clinical status, reaction');
@@ -1,6 +1,6 @@
 -- ============================================================
 -- SQL-on-FHIR Immunization View over HAPI FHIR JPA
--- Version: 1
+-- Version: 2
 -- Resource: Immunization (FHIR R4 / US Core 6.1)
 --
 -- US Core 6.1 MustSupport elements included:
@@ -61,7 +61,10 @@ SELECT
   -- Encounter reference
   SPLIT_PART(rv.res_json->'encounter'->>'reference', '/', 2)            AS encounter_id,
 
-  r.RES_UPDATED                                                         AS last_updated
+  r.RES_UPDATED                                                         AS last_updated,
+
+  -- Every coding, for code filters that match any of them (added in version 2)
+  jsonb_path_query_array(rv.res_json, '$.vaccineCode.coding[*]')        AS vaccine_coding
 
 FROM HFJ_RESOURCE r
 CROSS JOIN LATERAL (
@@ -76,5 +79,5 @@ CROSS JOIN LATERAL (
 WHERE r.RES_DELETED_AT IS NULL
   AND r.RES_TYPE = 'Immunization';
 
-SELECT cql_studio_set_view_version('immunization_view', 1,
+SELECT cql_studio_set_view_version('immunization_view', 2,
   'US Core 6.1 Immunization view — CVX vaccine codes, occurrence, status/reason');
@@ -1,6 +1,6 @@
 -- ============================================================
 -- SQL-on-FHIR ServiceRequest View over HAPI FHIR JPA
--- Version: 1
+-- Version: 2
 -- Resource: ServiceRequest (FHIR R4 / US Core 6.1)
 --
 -- US Core 6.1 introduced explicit MustSupport for ServiceRequest,
@@ -74,7 +74,11 @@ SELECT
   -- Insurance reference (first Coverage)
   SPLIT_PART(rv.res_json->'insurance'->0->>'reference', '/', 2)         AS insurance_id,
 
-  r.RES_UPDATED                                                         AS last_updated
+  r.RES_UPDATED                                                         AS last_updated,
+
+  -- Every coding, for code filters that match any of them (added in version 2)
+  jsonb_path_query_array(rv.res_json, '$.code.coding[*]')               AS code_coding,
+  jsonb_path_query_array(rv.res_json, '$.category[*].coding[*]')        AS category_coding
 
 FROM HFJ_RESOURCE r
 CROSS JOIN LATERAL (
@@ -89,5 +93,5 @@ CROSS JOIN LATERAL (
 WHERE r.RES_DELETED_AT IS NULL
   AND r.RES_TYPE = 'ServiceRequest';
 
-SELECT cql_studio_set_view_version('service_request_view', 1,
+SELECT cql_studio_set_view_version('service_request_view', 2,
   'US Core 6.1 ServiceRequest view — referrals, orders, diagnostic requests');
@@ -36,6 +36,42 @@ declare module '@cqframework/cql/cql-to-elm' {
     messages?: any;
   }
   
+  export class CqlCompilerOptions {
+    constructor();
+    static defaultOptions(): CqlCompilerOptions;
+    /** Adds the given options to this instance and returns it. */
+    withOptions(options: CqlCompilerOptions.Options[]): CqlCompilerOptions;
+    withSignatureLevel(signatureLevel: LibraryBuilder.SignatureLevel): CqlCompilerOptions;
+    withCompatibilityLevel(compatibilityLevel: string): CqlCompilerOptions;
+    toString(): string;
+  }
+
+  export namespace LibraryBuilder {
+    abstract class SignatureLevel {
+      readonly name: string;
+      static valueOf(value: string): SignatureLevel;
+    }
+  }
+
+  export namespace CqlCompilerOptions {
+    abstract class Options {
+      readonly name: string;
+      static readonly EnableDateRangeOptimization: Options;
+      static readonly EnableAnnotations: Options;
+      static readonly EnableLocators: Options;
+      static readonly EnableResultTypes: Options;
+      static readonly EnableDetailedErrors: Options;
+      static readonly DisableListTraversal: Options;
+      static readonly DisableListDemotion: Options;
+      static readonly DisableListPromotion: Options;
+      static readonly EnableIntervalDemotion: Options;
+      static readonly EnableIntervalPromotion: Options;
+      static readonly DisableMethodInvocation: Options;
+      static readonly RequireFromKeyword: Options;
+      static readonly DisableDefaultModelInfoLoad: Options;
+    }
+  }
+
   export class CqlCompilerException {
     message?: string;
     locator?: {
@@ -16,6 +16,8 @@ import { ToastService } from '../../services/toast.service';
 import { Library } from 'fhir/r4';
 import { IdeExecutionSubject } from '../../models/ide-context.model';
 import { encodeUtf8Base64 } from '../../services/utf8-encoding.lib';
+import { withCqlOptions } from '../../services/translator-options.lib';
+import type { TranslatorOptions } from '../../models/translator-options.model';
 import {
   buildSeparateExecutionOutputSections,
   normalizeExecutionResults,
@@ -356,7 +358,11 @@ export class CqlIdeComponent implements OnInit, OnDestroy {
     this.ideStateService.setTranslating(false);
 
     // Set ELM results in state (for display in ELM tab)
-    this.ideStateService.setElmTranslationResults(translationResult.elmXml);
+    this.ideStateService.setElmTranslationResults(
+      translationResult.elmXml,
+      translationResult.translatorProfile,
+      translationResult.elmJson
+    );
 
     // Check if we have ELM XML to save (even if there are errors, we may have partial results)
     if (!translationResult.elmXml) {
@@ -413,13 +419,15 @@ export class CqlIdeComponent implements OnInit, OnDestroy {
     const idHasChanged = hasExistingLibrary && activeLibrary.library && activeLibrary.library.id !== activeLibrary.id;
     
     // Always include ELM XML in the Library content per FHIR Library resource specifications
-    // The ELM XML is base64 encoded and included with contentType 'application/elm+xml'
+    // The ELM XML is base64 encoded and included with contentType 'application/elm+xml',
+    // and the translator options that produced it are recorded as cqlOptions
+    const translatorOptions = translationResult.translatorProfile;
     if (hasExistingLibrary && !idHasChanged) {
       // Update existing library (ID hasn't changed)
-      this.updateExistingLibrary(activeLibrary.library, currentContent, translationResult.elmXml);
+      this.updateExistingLibrary(activeLibrary.library, currentContent, translationResult.elmXml, translatorOptions);
     } else {
       // Create new library (either no existing library or ID has changed)
-      this.createNewLibrary(activeLibrary, currentContent, translationResult.elmXml);
+      this.createNewLibrary(activeLibrary, currentContent, translationResult.elmXml, translatorOptions);
     }
   }
 
@@ -584,7 +592,8 @@ export class CqlIdeComponent implements OnInit, OnDestroy {
     if (!activeLibrary) {
       return;
     }
-    if (activeLibrary.isDirty) {
+    const engine = this.ideStateService.executionEngine();
+    if (activeLibrary.isDirty && engine === 'server') {
       this.ideStateService.addTextOutput(
         'Execute Skipped',
         'Save the library before executing. Execution uses the saved version on the server.',
@@ -613,7 +622,11 @@ export class CqlIdeComponent implements OnInit, OnDestroy {
     this.ideStateService.setTranslationMessages(translationResult.messages);
     
     // Set ELM results in state (for display in ELM tab)
-    this.ideStateService.setElmTranslationResults(translationResult.elmXml);
+    this.ideStateService.setElmTranslationResults(
+      translationResult.elmXml,
+      translationResult.translatorProfile,
+      translationResult.elmJson
+    );
     
     // Check if we have ELM XML (even if there are errors, we may have partial results)
     if (!translationResult.elmXml) {
@@ -629,8 +642,12 @@ export class CqlIdeComponent implements OnInit, OnDestroy {
       activeLibrary.id, 
       subjects,
       {
+        engine,
         cqlContent: currentCqlContent,
         elmXml: translationResult.elmXml || undefined,
+        elmJson: translationResult.elmJson || undefined,
+        translatorProfile: translationResult.translatorProfile,
+        bundle: this.ideContextService.localBundle() ?? undefined,
         libraryResource: activeLibrary
       }
     ).subscribe({
@@ -789,7 +806,7 @@ export class CqlIdeComponent implements OnInit, OnDestroy {
   }
 
   // Library save helper methods
-  private updateExistingLibrary(library: any, cqlContent: string, elmXml: string): void {
+  private updateExistingLibrary(library: any, cqlContent: string, elmXml: string, translatorOptions: TranslatorOptions): void {
     // Get the current library resource to get the latest metadata
     const activeLibrary = this.ideStateService.getActiveLibraryResource();
     
@@ -814,7 +831,7 @@ export class CqlIdeComponent implements OnInit, OnDestroy {
       ]
     };
 
-    this.libraryService.put(updatedLibrary).subscribe({
+    this.libraryService.put(withCqlOptions(updatedLibrary, translatorOptions)).subscribe({
       next: (savedLibrary) => {
         this.ideStateService.setExecutionStatus('Library saved successfully');
         
@@ -866,7 +883,7 @@ export class CqlIdeComponent implements OnInit, OnDestroy {
     });
   }
 
-  private createNewLibrary(libraryResource: any, cqlContent: string, elmXml: string): void {
+  private createNewLibrary(libraryResource: any, cqlContent: string, elmXml: string, translatorOptions: TranslatorOptions): void {
     // Create a new FHIR Library resource with our id so PUT creates it with that id
     const newLibrary: Library = {
       resourceType: 'Library' as const,
@@ -898,7 +915,7 @@ export class CqlIdeComponent implements OnInit, OnDestroy {
       description: libraryResource.description || `Library ${libraryResource.name || libraryResource.id}`
     };
 
-    this.libraryService.put(newLibrary).subscribe({
+    this.libraryService.put(withCqlOptions(newLibrary, translatorOptions)).subscribe({
       next: (savedLibrary) => {
         this.ideStateService.setExecutionStatus('Library saved successfully');
 
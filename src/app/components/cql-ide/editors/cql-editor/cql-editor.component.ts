@@ -1,11 +1,12 @@
 // Author: Preston Lee
 
-import { Component, input, output, viewChild, ElementRef, AfterViewInit, OnDestroy, signal, computed, effect, inject } from '@angular/core';
+import { Component, input, output, viewChild, ElementRef, AfterViewInit, OnDestroy, signal, computed, effect, inject, afterNextRender, Injector } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { EditorView } from '@codemirror/view';
 import { EditorState } from '@codemirror/state';
 import { keymap } from '@codemirror/view';
-import { linter, lintGutter, Diagnostic } from '@codemirror/lint';
+import { syntaxTree } from '@codemirror/language';
+import { linter, lintGutter, forceLinting, Diagnostic } from '@codemirror/lint';
 import { CqlGrammarManager } from '../../../../services/cql-grammar-manager.service';
 import { createCqlEditorBaseExtensions } from '../../../../services/cql-codemirror-extensions.lib';
 import { scanInvalidCqlCharacters } from '../../../../services/cql-character-lint.lib';
@@ -13,14 +14,44 @@ import { IdeEditor, EditorState as IdeEditorState } from '../base-editor.interfa
 import { IdeStateService } from '../../../../services/ide-state.service';
 import { CqlFormatterService } from '../../../../services/cql-formatter.service';
 import { CqlValidationService, FullValidationResult, ValidationResult } from '../../../../services/cql-validation.service';
+import { TranslationCancelledError, TranslationRequestOptions } from '../../../../services/translation.service';
 import { LibraryTranslationContextBuilder } from '../../../../services/library-translation-context.lib';
 import { CqlDefinitionIndexService, elmColumnToCodeMirror } from '../../../../services/cql-definition-index.service';
-import { CqlDefinitionIndex, CqlReferenceMatch, isReferenceResolvableSync } from '../../../../services/elm-locator.lib';
+import { CqlCompletionService } from '../../../../services/cql-completion.service';
+import {
+  CqlDefinitionIndex,
+  CqlReferenceMatch,
+  CqlSourceSpan,
+  findDefinition,
+  findExpressionAt,
+  CqlSymbol,
+  findSymbolAt,
+  isReferenceResolvableSync
+} from '../../../../services/elm-locator.lib';
 import { CqlIdeLibraryOpenerService } from '../../../../services/cql-ide-library-opener.service';
 import {
   createGoToDefinitionExtension,
+  EditorContextMenuItem,
   reconfigureDefinitionIndex
 } from '../../../../services/cql-codemirror-go-to-definition.lib';
+import {
+  CqlHoverInfo,
+  CqlReferencesHandlers,
+  createReferencesExtension
+} from '../../../../services/cql-codemirror-references.lib';
+import {
+  applyTextEdits,
+  formatCqlIdentifier,
+  includedReferenceLocations,
+  renameEdits,
+  symbolLocations
+} from '../../../../services/cql-references.lib';
+import { ToastService } from '../../../../services/toast.service';
+import { ModelInfoRegistryService } from '../../../../services/model-info-registry.service';
+import { SettingsService } from '../../../../services/settings.service';
+import { modelInfoSelectionKey } from '../../../../services/model-info-registry.lib';
+import type { CqlExecutionEngine } from '../../../../services/cql-execution.service';
+import { ReferenceLocation } from '../../shared/ide-types';
 
 @Component({
   selector: 'app-cql-editor',
@@ -31,6 +62,7 @@ import {
 })
 export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
   editorContainer = viewChild<ElementRef<HTMLDivElement>>('editorContainer');
+  renameInput = viewChild<ElementRef<HTMLInputElement>>('renameInput');
   
   libraryId = input<string>('');
   editorState = input<any>();
@@ -67,6 +99,8 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
   
   // Computed signal for canExecute
   canExecute = computed(() => this._canExecuteSignal());
+
+  executionEngine = computed(() => this.ideStateService.executionEngine());
   
   // Signal for form validity state
   private _isFormValidSignal = signal(false);
@@ -79,13 +113,37 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
   private cqlValidationService = inject(CqlValidationService);
   private libraryTranslationContextBuilder = inject(LibraryTranslationContextBuilder);
   private definitionIndexService = inject(CqlDefinitionIndexService);
+  private completionService = inject(CqlCompletionService);
   private libraryOpenerService = inject(CqlIdeLibraryOpenerService);
+  private toastService = inject(ToastService);
+  private modelInfoRegistry = inject(ModelInfoRegistryService);
+  private settingsService = inject(SettingsService);
+  private injector = inject(Injector);
+
+  /** The symbol the Rename Symbol dialog is open for, with the index it was found in. */
+  protected readonly pendingRename = signal<{ index: CqlDefinitionIndex; symbol: CqlSymbol } | null>(null);
+  protected readonly renameValue = signal('');
+  protected readonly renameError = computed(() => {
+    const pending = this.pendingRename();
+    const name = this.renameValue().trim();
+    if (pending && name !== pending.symbol.name && pending.index.definitions.has(name)) {
+      return `"${name}" is already defined in this library.`;
+    }
+    return null;
+  });
+
+  /** Changes when this library picks other model infos, so diagnostics can be refreshed. */
+  private readonly modelInfoSelection = computed(() =>
+    modelInfoSelectionKey(this.ideStateService.libraryResources().find(lib => lib.id === this.libraryId())?.modelInfo)
+  );
 
   private definitionIndex: CqlDefinitionIndex | null = null;
+  /** The CQL the definition index was built from; references and rename rebuild it when the editor has moved on. */
+  private definitionIndexSource: string | null = null;
 
-  // Debouncing for validation
-  private validationDebounceFrame?: number;
+  // Validation runs in the translation worker, which debounces lint passes and drops superseded ones
   private readonly VALIDATION_DEBOUNCE_MS = 250;
+  private readonly validationAbort = new AbortController();
   private validationGeneration = 0;
   private currentValidationErrors: string[] = [];
   private pendingLintResolvers: Array<(diagnostics: Diagnostic[]) => void> = [];
@@ -162,6 +220,16 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
       }
     });
 
+    // Re-lint when the library's model info selection, the registry or the translator profile changes
+    effect(() => {
+      this.modelInfoSelection();
+      this.modelInfoRegistry.revision();
+      this.settingsService.activeTranslatorProfile();
+      if (this.editor) {
+        forceLinting(this.editor);
+      }
+    });
+
     // Re-run canExecute when library resource is updated (e.g. after save)
     effect(() => {
       const libraryId = this.libraryId();
@@ -193,11 +261,22 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
   }
 
   ngOnDestroy(): void {
-    this.cancelValidationDebounce();
+    this.validationAbort.abort();
+    if (this.editor) {
+      this.ideStateService.updateEditorSyntax(this.libraryId(), null);
+    }
     this.editor?.destroy();
     this.resizeObserver?.disconnect();
   }
 
+  /** Share the editor's syntax tree so other views (e.g. the outline) reuse its incremental parse. */
+  private publishSyntaxTree(state: EditorState): void {
+    const libraryId = this.libraryId();
+    if (libraryId) {
+      this.ideStateService.updateEditorSyntax(libraryId, { text: state.doc.toString(), tree: syntaxTree(state) });
+    }
+  }
+
   private initializeEditor(): void {
     if (this.isInitializing) {
       return;
@@ -239,8 +318,11 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
         doc: initialContent,
         extensions: [
           ...createCqlEditorBaseExtensions(),
-          ...this.grammarManager.createExtensions(),
+          ...this.grammarManager.createExtensions((text, pos) =>
+            this.completionService.complete(text, pos, this.definitionIndex)
+          ),
           ...createGoToDefinitionExtension(this.createGoToDefinitionHandlers()),
+          ...createReferencesExtension(this.createReferencesHandlers()),
           lintGutter(),
           linter(this.createLintSource()),
           keymap.of([
@@ -333,6 +415,11 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
             }
           }, { dark: true }),
           EditorView.updateListener.of((update) => {
+            // The language parses incrementally and in the background, so the tree can change without an edit.
+            if (update.docChanged || syntaxTree(update.state) !== syntaxTree(update.startState)) {
+              this.publishSyntaxTree(update.state);
+            }
+
             if (update.docChanged) {
               const newValue = update.state.doc.toString();
               this._value = newValue;
@@ -390,6 +477,7 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
         state: startState,
         parent: this.editorContainer()!.nativeElement
       });
+      this.publishSyntaxTree(this.editor.state);
       
       this.isInitializing = false;
       this.initializationRetries = 0; // Reset retry counter on success
@@ -587,7 +675,7 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
 
   /**
    * Create lint source function for CodeMirror
-   * Uses debouncing to avoid validating on every keystroke
+   * The translation worker debounces requests to avoid validating on every keystroke
    */
   private createLintSource() {
     return (view: EditorView): Promise<Diagnostic[]> => {
@@ -600,7 +688,7 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
 
       return new Promise((resolve) => {
         this.pendingLintResolvers.push(resolve);
-        this.scheduleValidationDebounce(code);
+        void this.runDebouncedValidationAsync(code);
       });
     };
   }
@@ -614,7 +702,6 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
       return;
     }
 
-    this.cancelValidationDebounce();
     void this.runImmediateValidation(code);
   }
 
@@ -624,18 +711,29 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
     }
 
     const generation = ++this.validationGeneration;
-    const diagnostics = await this.collectLintDiagnosticsAsync(code, this.editor.state.doc);
-    if (generation !== this.validationGeneration) {
-      return;
-    }
+    try {
+      const diagnostics = await this.collectLintDiagnosticsAsync(code, this.editor.state.doc, this.validationRequestOptions(0));
+      if (generation !== this.validationGeneration || !this.editor) {
+        return;
+      }
 
-    this.emitValidationUi(diagnostics.compilerResult);
-    this.updateDefinitionIndex(diagnostics.compilerResult);
-    this.editor.dispatch({ effects: [] });
+      this.emitValidationUi(diagnostics.compilerResult);
+      this.updateDefinitionIndex(diagnostics.compilerResult, code);
+      // This run cancelled any lint pass in flight, so answer its pending lint requests
+      const resolvers = this.pendingLintResolvers;
+      this.pendingLintResolvers = [];
+      resolvers.forEach(r => r(diagnostics.all));
+      this.editor.dispatch({ effects: [] });
+    } catch (error) {
+      if (!(error instanceof TranslationCancelledError)) {
+        console.error('Validation error:', error);
+      }
+    }
   }
 
-  private updateDefinitionIndex(full: FullValidationResult): void {
+  private updateDefinitionIndex(full: FullValidationResult, source: string): void {
     this.definitionIndex = this.definitionIndexService.buildIndex(full.raw.elmXml);
+    this.definitionIndexSource = source;
     if (this.editor) {
       reconfigureDefinitionIndex(this.editor, this.definitionIndex);
     }
@@ -657,10 +755,241 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
       },
       goToDefinitionAt: async (line: number, column: number): Promise<void> => {
         await this.handleGoToDefinition(line, column);
+      },
+      contextMenuItemsAt: (line: number, column: number): EditorContextMenuItem[] =>
+        this.symbolMenuItems(line, column)
+    };
+  }
+
+  private createReferencesHandlers(): CqlReferencesHandlers {
+    return {
+      hoverAt: (line: number, column: number): CqlHoverInfo | null => this.hoverInfoAt(line, column),
+      findReferencesAt: (line: number, column: number): boolean => {
+        void this.findReferences(line, column);
+        return !!this.definitionIndex;
+      },
+      renameAt: (line: number, column: number): boolean => {
+        void this.renameSymbol(line, column);
+        return !!this.definitionIndex && !this.readonly();
       }
     };
   }
 
+  private symbolMenuItems(line: number, column: number): EditorContextMenuItem[] {
+    const symbol = this.definitionIndex ? findSymbolAt(this.definitionIndex, line, column) : null;
+    if (!symbol) {
+      return [];
+    }
+    const items: EditorContextMenuItem[] = [
+      {
+        id: 'cql-find-references-menu-item',
+        label: 'Find All References',
+        run: () => void this.findReferences(line, column)
+      }
+    ];
+    if (!symbol.libraryName && !this.readonly()) {
+      items.push({
+        id: 'cql-rename-symbol-menu-item',
+        label: 'Rename Symbol',
+        run: () => void this.renameSymbol(line, column)
+      });
+    }
+    return items;
+  }
+
+  private hoverInfoAt(line: number, column: number): CqlHoverInfo | null {
+    const index = this.definitionIndex;
+    if (!index || !this.editor) {
+      return null;
+    }
+
+    const expression = findExpressionAt(index, line, column);
+    const symbol = findSymbolAt(index, line, column);
+    let title: string | null = null;
+    let definition: string | null = null;
+    let resultType = expression?.resultType ?? null;
+
+    if (symbol) {
+      const qualifier = symbol.libraryName ? `${symbol.libraryName}.` : '';
+      const keyword = symbol.kind === 'function' ? 'define function' : 'define';
+      title = `${keyword} ${qualifier}${formatCqlIdentifier(symbol.name, false)}`;
+      if (symbol.libraryName) {
+        const include = index.includes.get(symbol.libraryName);
+        const version = include?.version ? ` version '${include.version}'` : '';
+        definition = `Defined in ${include?.path ?? symbol.libraryName}${version}`;
+      } else {
+        const def = findDefinition(index, symbol.name, symbol.kind);
+        if (def) {
+          definition = this.sourceText(def.span);
+          resultType ??= def.resultType ?? null;
+        }
+      }
+    }
+
+    if (!title && !resultType) {
+      return null;
+    }
+    return { title, resultType, elmType: expression?.elmType ?? null, definition };
+  }
+
+  private sourceText(span: CqlSourceSpan): string | null {
+    if (!this.editor) {
+      return null;
+    }
+    try {
+      const doc = this.editor.state.doc;
+      const from = doc.line(span.startLine).from + Math.max(0, span.startColumn - 1);
+      const to = Math.min(doc.line(span.endLine).from + span.endColumn, doc.length);
+      return doc.sliceString(from, to).trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /** Rebuild the definition index first when the editor content changed since it was built. */
+  private async currentDefinitionIndex(): Promise<CqlDefinitionIndex | null> {
+    if (!this.editor) {
+      return null;
+    }
+    const code = this.editor.state.doc.toString();
+    if (code !== this.definitionIndexSource) {
+      await this.runImmediateValidation(code);
+    }
+    return this.definitionIndex;
+  }
+
+  /** Show every reference to the define or function at a position, in this and other open libraries. */
+  private async findReferences(line: number, column: number): Promise<void> {
+    const index = await this.currentDefinitionIndex();
+    const symbol = index ? findSymbolAt(index, line, column) : null;
+    if (!index || !symbol || !this.editor) {
+      return;
+    }
+
+    const current = this.ideStateService.libraryResources().find(lib => lib.id === this.libraryId());
+    const text = this.editor.state.doc.toString();
+    const locations: ReferenceLocation[] = symbolLocations(text, index, symbol).map(l => ({
+      libraryId: this.libraryId(),
+      libraryName: index.libraryName ?? current?.name ?? '',
+      line: l.line,
+      column: l.column,
+      preview: l.preview,
+      isDefinition: l.isDefinition
+    }));
+
+    const definingLibrary = symbol.libraryName ? index.includes.get(symbol.libraryName)?.path : index.libraryName;
+    if (definingLibrary) {
+      for (const library of this.otherOpenLibraries()) {
+        for (const l of includedReferenceLocations(library.cqlContent, definingLibrary, symbol.name)) {
+          locations.push({
+            libraryId: library.id,
+            libraryName: library.name,
+            line: l.line,
+            column: l.column,
+            preview: l.preview,
+            isDefinition: false
+          });
+        }
+      }
+    }
+
+    this.ideStateService.showReferenceResults({
+      symbol: symbol.libraryName ? `${symbol.libraryName}.${symbol.name}` : symbol.name,
+      kind: symbol.kind,
+      locations
+    });
+  }
+
+  /** Open the Rename Symbol dialog for the local define or function at a position. */
+  private async renameSymbol(line: number, column: number): Promise<void> {
+    if (this.readonly()) {
+      return;
+    }
+    const index = await this.currentDefinitionIndex();
+    const symbol = index ? findSymbolAt(index, line, column) : null;
+    if (!index || !symbol || !this.editor) {
+      return;
+    }
+    if (symbol.libraryName) {
+      this.toastService.showWarning(
+        `"${symbol.name}" is defined in ${symbol.libraryName}. Rename it in that library.`,
+        'Rename Symbol'
+      );
+      return;
+    }
+
+    this.renameValue.set(symbol.name);
+    this.pendingRename.set({ index, symbol });
+    afterNextRender(() => this.renameInput()?.nativeElement.select(), { injector: this.injector });
+  }
+
+  protected cancelRename(): void {
+    this.pendingRename.set(null);
+    this.editor?.focus();
+  }
+
+  protected confirmRename(): void {
+    const pending = this.pendingRename();
+    const newName = this.renameValue().trim();
+    if (!pending || !newName || this.renameError()) {
+      return;
+    }
+    this.cancelRename();
+    if (newName !== pending.symbol.name) {
+      this.applyRename(pending.index, pending.symbol, newName);
+    }
+  }
+
+  /**
+   * Rename a local define or function: its definitions and references here,
+   * and qualified references in other open libraries that include this one.
+   */
+  private applyRename(index: CqlDefinitionIndex, symbol: CqlSymbol, newName: string): void {
+    if (!this.editor) {
+      return;
+    }
+    const locations = symbolLocations(this.editor.state.doc.toString(), index, symbol);
+    this.editor.dispatch({ changes: renameEdits(locations, newName) });
+
+    let otherLibraries = 0;
+    const skipped: string[] = [];
+    if (index.libraryName) {
+      for (const library of this.otherOpenLibraries()) {
+        const references = includedReferenceLocations(library.cqlContent, index.libraryName, symbol.name);
+        if (references.length === 0) {
+          continue;
+        }
+        if (library.isReadOnly) {
+          skipped.push(library.name);
+          continue;
+        }
+        const cqlContent = applyTextEdits(library.cqlContent, renameEdits(references, newName));
+        this.ideStateService.updateLibraryResource(library.id, {
+          cqlContent,
+          isDirty: cqlContent !== library.originalContent
+        });
+        this.ideStateService.triggerReload(library.id);
+        otherLibraries++;
+      }
+    }
+
+    const libraries = otherLibraries === 1 ? 'library' : 'libraries';
+    const elsewhere = otherLibraries ? ` and ${otherLibraries} other open ${libraries}` : '';
+    this.toastService.showSuccess(`Renamed "${symbol.name}" to "${newName}" here${elsewhere}.`, 'Rename Symbol');
+    if (skipped.length) {
+      this.toastService.showWarning(
+        `Read-only libraries still reference "${symbol.name}": ${skipped.join(', ')}`,
+        'Rename Symbol'
+      );
+    }
+  }
+
+  private otherOpenLibraries() {
+    return this.ideStateService
+      .libraryResources()
+      .filter(lib => lib.id !== this.libraryId() && !lib.contentLoading && !lib.contentLoadError);
+  }
+
   private async handleGoToDefinition(line: number, column: number): Promise<void> {
     if (!this.definitionIndex || !this.editor) {
       return;
@@ -717,12 +1046,23 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
     return this.libraryTranslationContextBuilder.fromLibraryResource(library);
   }
 
+  /** Lint passes and manual validation share a key, so whichever comes last cancels the other. */
+  private validationRequestOptions(debounceMs: number): TranslationRequestOptions {
+    return { key: `lint:${this.libraryId()}`, debounceMs, signal: this.validationAbort.signal };
+  }
+
   private async collectLintDiagnosticsAsync(
     code: string,
-    doc: { line: (lineNumber: number) => { from: number; to: number }; lineAt: (pos: number) => { number: number } }
+    doc: { line: (lineNumber: number) => { from: number; to: number }; lineAt: (pos: number) => { number: number } },
+    options: TranslationRequestOptions
   ): Promise<{ all: Diagnostic[]; compilerResult: FullValidationResult }> {
     const charDiagnostics = scanInvalidCqlCharacters(code, doc);
-    const full = await this.cqlValidationService.runFullValidationAsync(code, doc, this.getLibraryTranslationContext());
+    const full = await this.cqlValidationService.runFullValidationAsync(
+      code,
+      doc,
+      this.getLibraryTranslationContext(),
+      options
+    );
     const compilerDiagnostics = this.compilerValidationToDiagnostics(full.validation);
     return {
       all: [...charDiagnostics, ...compilerDiagnostics],
@@ -747,31 +1087,6 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
     ];
   }
 
-  private cancelValidationDebounce(): void {
-    if (this.validationDebounceFrame !== undefined) {
-      cancelAnimationFrame(this.validationDebounceFrame);
-      this.validationDebounceFrame = undefined;
-    }
-  }
-
-  private scheduleValidationDebounce(fallbackCode: string): void {
-    this.cancelValidationDebounce();
-    const deadline = performance.now() + this.VALIDATION_DEBOUNCE_MS;
-    const tick = (): void => {
-      if (performance.now() >= deadline) {
-        this.validationDebounceFrame = undefined;
-        this.runDebouncedValidation(fallbackCode);
-      } else {
-        this.validationDebounceFrame = requestAnimationFrame(tick);
-      }
-    };
-    this.validationDebounceFrame = requestAnimationFrame(tick);
-  }
-
-  private runDebouncedValidation(fallbackCode: string): void {
-    void this.runDebouncedValidationAsync(fallbackCode);
-  }
-
   private async runDebouncedValidationAsync(fallbackCode: string): Promise<void> {
     const generation = ++this.validationGeneration;
     try {
@@ -785,7 +1100,11 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
         return;
       }
 
-      const diagnostics = await this.collectLintDiagnosticsAsync(latestCode, latestDoc);
+      const diagnostics = await this.collectLintDiagnosticsAsync(
+        latestCode,
+        latestDoc,
+        this.validationRequestOptions(this.VALIDATION_DEBOUNCE_MS)
+      );
       if (generation !== this.validationGeneration) {
         const resolvers = this.pendingLintResolvers;
         this.pendingLintResolvers = [];
@@ -794,13 +1113,19 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
       }
 
       this.emitValidationUi(diagnostics.compilerResult);
-      this.updateDefinitionIndex(diagnostics.compilerResult);
+      this.updateDefinitionIndex(diagnostics.compilerResult, latestCode);
 
       const resolvers = this.pendingLintResolvers;
       this.pendingLintResolvers = [];
       resolvers.forEach(r => r(diagnostics.all));
     } catch (error) {
-      console.error('Validation error:', error);
+      if (error instanceof TranslationCancelledError && !this.validationAbort.signal.aborted) {
+        // A newer lint pass replaced this one and will resolve the pending lint requests
+        return;
+      }
+      if (!(error instanceof TranslationCancelledError)) {
+        console.error('Validation error:', error);
+      }
       const resolvers = this.pendingLintResolvers;
       this.pendingLintResolvers = [];
       resolvers.forEach(r => r([]));
@@ -992,13 +1317,19 @@ export class CqlEditorComponent implements AfterViewInit, OnDestroy, IdeEditor {
     const normalizedCurrent = this.normalizeContent(currentContent);
     const normalizedOriginal = this.normalizeContent(library.originalContent);
     const isDirty = normalizedCurrent !== normalizedOriginal;
-    const canExecute = !isDirty;
+    // The in-browser engine runs the editor's content, so it need not be saved first.
+    const canExecute = !isDirty || this.ideStateService.executionEngine() === 'local';
     
     this._canExecuteSignal.set(canExecute);
   }
 
 
 
+  onExecutionEngineChange(engine: CqlExecutionEngine): void {
+    this.ideStateService.setExecutionEngine(engine);
+    this.updateCanExecute();
+  }
+
   onExecuteLibrary(): void {
     this.executeLibrary.emit();
   }
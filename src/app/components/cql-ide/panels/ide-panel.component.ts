@@ -21,6 +21,7 @@ import { OutlineTabComponent } from '../tabs/outline-tab/outline-tab.component';
 import { FhirTabComponent } from '../tabs/fhir-tab/fhir-tab.component';
 import { ElmTabComponent } from '../tabs/elm-tab/elm-tab.component';
 import { ProblemsTabComponent } from '../tabs/problems-tab/problems-tab.component';
+import { ReferencesTabComponent } from '../tabs/references-tab/references-tab.component';
 import { ConsoleTabComponent } from '../tabs/console-tab/console-tab.component';
 import { AiTabComponent } from '../tabs/ai-tab/ai-tab.component';
 import { ClipboardTabComponent } from '../tabs/clipboard-tab/clipboard-tab.component';
@@ -35,6 +36,7 @@ import { ClipboardTabComponent } from '../tabs/clipboard-tab/clipboard-tab.compo
     FhirTabComponent,
     ElmTabComponent,
     ProblemsTabComponent,
+    ReferencesTabComponent,
     ConsoleTabComponent,
     AiTabComponent,
     ClipboardTabComponent
@@ -321,7 +323,11 @@ export class IdePanelComponent {
       this.ideStateService.setTranslationErrors(translationResult.errors);
       this.ideStateService.setTranslationWarnings(translationResult.warnings);
       this.ideStateService.setTranslationMessages(translationResult.messages);
-      this.ideStateService.setElmTranslationResults(translationResult.elmXml);
+      this.ideStateService.setElmTranslationResults(
+        translationResult.elmXml,
+        translationResult.translatorProfile,
+        translationResult.elmJson
+      );
       this.ideStateService.setTranslating(false);
       
       if (translationResult.hasErrors) {
@@ -1,6 +1,7 @@
 // Author: Preston Lee
 
 import { Library, Patient, Parameters } from 'fhir/r4';
+import type { ModelInfoSelection } from '../../../services/model-info-registry.lib';
 
 export interface EditorFile {
   id: string;
@@ -25,6 +26,25 @@ export interface LibraryResource {
   contentLoading?: boolean;
   isReadOnly?: boolean;
   contentLoadError?: string;
+  /** Model info registry entry chosen per model name, e.g. `{ QICore: '...' }`. */
+  modelInfo?: ModelInfoSelection;
+}
+
+/** One place a define or function is written, in any open library. */
+export interface ReferenceLocation {
+  libraryId: string;
+  libraryName: string;
+  line: number;
+  column: number;
+  preview: string;
+  isDefinition: boolean;
+}
+
+/** Result of a find-all-references search, shown in the References tab. */
+export interface ReferenceSearchResult {
+  symbol: string;
+  kind: 'expression' | 'function';
+  locations: ReferenceLocation[];
 }
 
 export interface OutlineItem {
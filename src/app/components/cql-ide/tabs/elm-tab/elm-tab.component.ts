@@ -1,15 +1,28 @@
 // Author: Preston Lee
 
-import { Component, input, output, effect, computed, inject } from '@angular/core';
+import { Component, input, output, effect, computed, inject, signal } from '@angular/core';
+import { NgTemplateOutlet } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { firstValueFrom } from 'rxjs';
+import { Library } from 'fhir/r4';
 import { SettingsService } from '../../../../services/settings.service';
 import { TranslationService } from '../../../../services/translation.service';
 import { IdeStateService } from '../../../../services/ide-state.service';
+import { LibraryService } from '../../../../services/library.service';
+import { describeTranslatorOptions } from '../../../../services/translator-options.lib';
+import { elmColumnToCodeMirror } from '../../../../services/elm-locator.lib';
+import { buildElmTree, ElmTreeNode, elmTreeIdsToDepth } from '../../../../services/elm-tree.lib';
+import { diffElm } from '../../../../services/elm-diff.lib';
 import { SyntaxHighlighterComponent } from '../../../shared/syntax-highlighter/syntax-highlighter.component';
 
+export type ElmViewMode = 'xml' | 'json' | 'tree' | 'diff';
+
+/** Tree levels expanded when a new translation arrives: library, sections and definitions. */
+const INITIAL_TREE_DEPTH = 3;
+
 @Component({
   selector: 'app-elm-tab',
-  imports: [FormsModule, SyntaxHighlighterComponent],
+  imports: [FormsModule, NgTemplateOutlet, SyntaxHighlighterComponent],
   templateUrl: './elm-tab.component.html',
 
   styleUrls: ['./elm-tab.component.scss']
@@ -19,6 +32,7 @@ export class ElmTabComponent {
   cqlContent = input<string>('');
   isTranslating = input<boolean>(false);
   elmTranslationResults = input<string | null>(null);
+  elmTranslationJson = input<string | null>(null);
   
   // Use signal-based outputs (preferred in Angular 21)
   translateCqlToElm = output<void>();
@@ -38,9 +52,47 @@ export class ElmTabComponent {
     return this.formatXml(xml);
   });
 
+  formattedElmJson = computed(() => {
+    const json = this.elmTranslationJson() || '';
+    if (!json) {
+      return '';
+    }
+    try {
+      return JSON.stringify(JSON.parse(json), null, 2);
+    } catch {
+      return json;
+    }
+  });
+
   readonly settingsService = inject(SettingsService);
   readonly translationService = inject(TranslationService);
   readonly ideStateService = inject(IdeStateService);
+  private readonly libraryService = inject(LibraryService);
+
+  readonly describeTranslatorOptions = describeTranslatorOptions;
+
+  readonly viewModes: ReadonlyArray<{ id: ElmViewMode; label: string }> = [
+    { id: 'xml', label: 'XML' },
+    { id: 'json', label: 'JSON' },
+    { id: 'tree', label: 'Tree' },
+    { id: 'diff', label: 'Diff' }
+  ];
+  readonly viewMode = signal<ElmViewMode>('xml');
+
+  readonly elmTree = computed(() => buildElmTree(this.elmTranslationResults() || ''));
+  readonly expandedTreeNodeIds = signal<ReadonlySet<string>>(new Set());
+
+  /** ELM attached to the active library as last saved, for diffing against the current translation. */
+  private readonly savedLibrary = computed(() => this.ideStateService.getActiveLibraryResource()?.library ?? null);
+  readonly savedElmXml = signal<string | null>(null);
+  readonly savedElmLoading = signal(false);
+  private savedElmRequest = 0;
+
+  readonly elmDiff = computed(() => {
+    const saved = this.savedElmXml();
+    const current = this.formattedElmXml();
+    return saved && current ? diffElm(this.formatXml(saved), current) : null;
+  });
 
   constructor() {
     // Watch for active editor/library changes and reset translation data
@@ -56,6 +108,17 @@ export class ElmTabComponent {
       // Update previous library ID
       this.previousLibraryId = currentLibraryId;
     });
+
+    effect(() => {
+      const tree = this.elmTree();
+      this.expandedTreeNodeIds.set(new Set(tree ? elmTreeIdsToDepth(tree, INITIAL_TREE_DEPTH) : []));
+    });
+
+    // Load the saved ELM when the diff view opens, and again whenever the saved library changes
+    effect(() => {
+      const library = this.viewMode() === 'diff' ? this.savedLibrary() : null;
+      void this.loadSavedElm(library);
+    });
   }
 
   get translationErrors(): string[] {
@@ -86,22 +149,92 @@ export class ElmTabComponent {
     this.clearElmTranslation.emit();
   }
 
+  setViewMode(mode: ElmViewMode): void {
+    this.viewMode.set(mode);
+  }
+
   onDownloadElmXml(): void {
     const xml = this.elmTranslationResults();
     if (!xml) {
       return;
     }
-    
-    // Get the formatted XML
-    const formattedXml = this.formattedElmXml();
-    
+    this.downloadElm(this.formattedElmXml(), 'xml', 'application/xml');
+  }
+
+  onDownloadElmJson(): void {
+    const json = this.formattedElmJson();
+    if (!json) {
+      return;
+    }
+    this.downloadElm(json, 'json', 'application/json');
+  }
+
+  async onCopyElmXml(): Promise<void> {
+    await this.copyElm(this.formattedElmXml(), 'ELM XML');
+  }
+
+  async onCopyElmJson(): Promise<void> {
+    await this.copyElm(this.formattedElmJson(), 'ELM JSON');
+  }
+
+  isTreeNodeExpanded(node: ElmTreeNode): boolean {
+    return this.expandedTreeNodeIds().has(node.id);
+  }
+
+  toggleTreeNode(node: ElmTreeNode): void {
+    const expanded = new Set(this.expandedTreeNodeIds());
+    if (!expanded.delete(node.id)) {
+      expanded.add(node.id);
+    }
+    this.expandedTreeNodeIds.set(expanded);
+  }
+
+  expandAllTreeNodes(): void {
+    const tree = this.elmTree();
+    this.expandedTreeNodeIds.set(new Set(tree ? elmTreeIdsToDepth(tree, Number.POSITIVE_INFINITY) : []));
+  }
+
+  collapseAllTreeNodes(): void {
+    const tree = this.elmTree();
+    this.expandedTreeNodeIds.set(new Set(tree ? [tree.id] : []));
+  }
+
+  /** Jumps the editor to the CQL an ELM node was translated from. */
+  onSelectTreeNode(node: ElmTreeNode): void {
+    const libraryId = this.ideStateService.activeLibraryId();
+    if (!node.span || !libraryId) {
+      return;
+    }
+    this.ideStateService.requestNavigateToDefinition({
+      libraryId,
+      line: node.span.startLine,
+      column: elmColumnToCodeMirror(node.span.startColumn)
+    });
+  }
+
+  private async loadSavedElm(library: Library | null): Promise<void> {
+    const request = ++this.savedElmRequest;
+    if (!library) {
+      this.savedElmXml.set(null);
+      this.savedElmLoading.set(false);
+      return;
+    }
+    this.savedElmLoading.set(true);
+    const xml = await firstValueFrom(this.libraryService.getElmXml(library));
+    if (request === this.savedElmRequest) {
+      this.savedElmXml.set(xml || null);
+      this.savedElmLoading.set(false);
+    }
+  }
+
+  private downloadElm(content: string, extension: 'xml' | 'json', type: string): void {
     // Generate filename from library name if available, otherwise use timestamp
     const activeLibrary = this.ideStateService.getActiveLibraryResource();
     const libraryName = activeLibrary?.name || activeLibrary?.id || 'library';
-    const filename = `${libraryName}-elm.xml`;
+    const filename = `${libraryName}-elm.${extension}`;
     
     // Create blob and download
-    const blob = new Blob([formattedXml], { type: 'application/xml' });
+    const blob = new Blob([content], { type });
     const url = window.URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -112,9 +245,8 @@ export class ElmTabComponent {
     window.URL.revokeObjectURL(url);
   }
 
-  async onCopyElmXml(): Promise<void> {
-    const xml = this.formattedElmXml();
-    if (!xml) {
+  private async copyElm(text: string, format: string): Promise<void> {
+    if (!text) {
       return;
     }
 
@@ -125,17 +257,17 @@ export class ElmTabComponent {
       if (!navigator.clipboard?.writeText) {
         throw new Error('Clipboard API is not available');
       }
-      await navigator.clipboard.writeText(xml);
+      await navigator.clipboard.writeText(text);
       this.ideStateService.addTextOutput(
-        `ELM XML Copied: ${libraryName}`,
-        `Copied ELM XML to clipboard.\n\nCharacters: ${xml.length}`,
+        `${format} Copied: ${libraryName}`,
+        `Copied ${format} to clipboard.\n\nCharacters: ${text.length}`,
         'success'
       );
     } catch (e) {
       const errorMessage = e instanceof Error ? e.message : String(e);
       this.ideStateService.addTextOutput(
-        `ELM XML Copy Failed: ${libraryName}`,
-        `Failed to copy ELM XML to clipboard.\n\nError: ${errorMessage}`,
+        `${format} Copy Failed: ${libraryName}`,
+        `Failed to copy ${format} to clipboard.\n\nError: ${errorMessage}`,
         'error'
       );
     }
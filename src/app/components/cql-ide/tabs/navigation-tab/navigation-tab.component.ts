@@ -1,6 +1,6 @@
 // Author: Preston Lee
 
-import { Component, OnInit, inject, signal, effect } from '@angular/core';
+import { Component, OnInit, inject, signal, effect, computed } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { Library, Patient, Group, Bundle } from 'fhir/r4';
 import { LibraryService } from '../../../../services/library.service';
@@ -12,6 +12,9 @@ import { IdeStateService, TabDataScope } from '../../../../services/ide-state.se
 import { CqlIdeLibraryOpenerService } from '../../../../services/cql-ide-library-opener.service';
 import { SettingsService } from '../../../../services/settings.service';
 import { isResourceType } from '../../../../services/fhir-resource-type.lib';
+import { summarizeBundleResources } from '../../../../services/sql-on-fhir/sql-on-fhir-execution-data.lib';
+import { ModelInfoRegistryService } from '../../../../services/model-info-registry.service';
+import { ModelInfoEntry, cqlUsings, resolveModelInfo } from '../../../../services/model-info-registry.lib';
 
 @Component({
   selector: 'app-navigation-tab',
@@ -28,6 +31,7 @@ export class NavigationTabComponent implements OnInit {
   private readonly ideStateService = inject(IdeStateService);
   private readonly libraryOpenerService = inject(CqlIdeLibraryOpenerService);
   private readonly settingsService = inject(SettingsService);
+  private readonly modelInfoRegistry = inject(ModelInfoRegistryService);
 
   protected readonly paginatedLibraries = signal<Library[]>([]);
   protected readonly currentPage = signal(1);
@@ -50,6 +54,35 @@ export class NavigationTabComponent implements OnInit {
   protected readonly showGroupSearchResults = signal(false);
 
   protected readonly contextType = this.ideContextService.contextType;
+  protected readonly executionEngine = this.ideStateService.executionEngine;
+  protected readonly localBundleSummary = computed(() => {
+    const bundle = this.ideContextService.localBundle();
+    return bundle ? summarizeBundleResources(bundle) : null;
+  });
+  protected readonly localBundleName = signal<string | null>(null);
+  protected readonly localBundleError = signal<string | null>(null);
+
+  protected readonly modelInfoEntries = this.modelInfoRegistry.entries;
+  protected readonly modelInfoError = signal<string | null>(null);
+  private readonly activeLibrary = computed(() =>
+    this.ideStateService.libraryResources().find(lib => lib.id === this.ideStateService.activeLibraryId()) ?? null
+  );
+  /** Each model the active library uses, with the registered entries it can select and the one that loads. */
+  protected readonly activeLibraryModels = computed(() => {
+    const library = this.activeLibrary();
+    if (!library) {
+      return [];
+    }
+    const entries = this.modelInfoRegistry.entries();
+    return cqlUsings(library.cqlContent)
+      .filter(using => using.name !== 'System')
+      .map(using => ({
+        using,
+        entries: entries.filter(entry => entry.name === using.name),
+        selectedId: library.modelInfo?.[using.name] ?? '',
+        resolved: resolveModelInfo(entries, using.name, using.version, library.modelInfo)
+      }));
+  });
 
   public Math = Math;
 
@@ -294,6 +327,73 @@ export class NavigationTabComponent implements OnInit {
     }
   }
 
+  async onLocalBundleSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      const parsed = JSON.parse(await file.text()) as unknown;
+      if (!isResourceType(parsed as Bundle, 'Bundle')) {
+        throw new Error('The file is not a FHIR Bundle.');
+      }
+      this.ideContextService.setLocalBundle(parsed as Bundle);
+      this.localBundleName.set(file.name);
+      this.localBundleError.set(null);
+    } catch (error) {
+      this.localBundleError.set(error instanceof Error ? error.message : String(error));
+    } finally {
+      // Reset file input so the same file can be selected again
+      input.value = '';
+    }
+  }
+
+  clearLocalBundle(): void {
+    this.ideContextService.setLocalBundle(null);
+    this.localBundleName.set(null);
+    this.localBundleError.set(null);
+  }
+
+  onModelInfoSelectionChange(modelName: string, entryId: string): void {
+    const library = this.activeLibrary();
+    if (!library) {
+      return;
+    }
+    const modelInfo = { ...library.modelInfo };
+    if (entryId) {
+      modelInfo[modelName] = entryId;
+    } else {
+      delete modelInfo[modelName];
+    }
+    this.ideStateService.updateLibraryResource(library.id, { modelInfo });
+  }
+
+  async onModelInfoFilesSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    if (files.length === 0) {
+      return;
+    }
+    try {
+      await this.modelInfoRegistry.registerUpload(files);
+      this.modelInfoError.set(null);
+    } catch (error) {
+      this.modelInfoError.set(error instanceof Error ? error.message : String(error));
+    } finally {
+      // Reset file input so the same file can be selected again
+      input.value = '';
+    }
+  }
+
+  removeModelInfo(entry: ModelInfoEntry): void {
+    this.modelInfoRegistry.remove(entry.id);
+  }
+
+  modelInfoLabel(entry: ModelInfoEntry): string {
+    return `${entry.name} ${entry.version} (${entry.source}: ${entry.origin})`;
+  }
+
   setContextType(type: IdeContextType): void {
     this.ideContextService.setContextType(type);
     this.clearPatientSearch();
@@ -3,6 +3,7 @@
 import { Component, output, computed, signal, inject } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { IdeStateService } from '../../../../services/ide-state.service';
+import { cqlOutline } from '../../../../services/cql-language.lib';
 import { OutlineItem } from '../../shared/ide-types';
 
 @Component({
@@ -26,34 +27,9 @@ export class OutlineTabComponent {
     const activeLibrary = this.ideStateService.getActiveLibraryResource();
     if (!activeLibrary) return [];
 
-    const items: OutlineItem[] = [];
-    const lines = activeLibrary.cqlContent.split('\n');
-    
-    lines.forEach((line: string, index: number) => {
-      const trimmed = line.trim();
-      const lineNumber = index + 1;
-      
-      if (trimmed.startsWith('library ')) {
-        items.push({ name: trimmed, type: 'library', line: lineNumber });
-      } else if (trimmed.startsWith('define ')) {
-        const name = trimmed.replace('define ', '').split(':')[0].trim();
-        items.push({ name, type: 'define', line: lineNumber });
-      } else if (trimmed.startsWith('function ')) {
-        const name = trimmed.replace('function ', '').split('(')[0].trim();
-        items.push({ name, type: 'function', line: lineNumber });
-      } else if (trimmed.startsWith('parameter ')) {
-        const name = trimmed.replace('parameter ', '').split(':')[0].trim();
-        items.push({ name, type: 'parameter', line: lineNumber });
-      } else if (trimmed.startsWith('valueset ')) {
-        const name = trimmed.replace('valueset ', '').split(':')[0].trim();
-        items.push({ name, type: 'valueset', line: lineNumber });
-      } else if (trimmed.startsWith('codesystem ')) {
-        const name = trimmed.replace('codesystem ', '').split(':')[0].trim();
-        items.push({ name, type: 'codesystem', line: lineNumber });
-      }
-    });
-    
-    return items;
+    // Prefer the open editor's incremental tree; parse only libraries without an editor.
+    const syntax = this.ideStateService.editorSyntax()[activeLibrary.id];
+    return syntax ? cqlOutline(syntax.text, syntax.tree) : cqlOutline(activeLibrary.cqlContent);
   });
 
   public filteredOutlineItems = computed(() => {
@@ -149,6 +125,12 @@ export class OutlineTabComponent {
         return 'collection';
       case 'codesystem':
         return 'database';
+      case 'include':
+        return 'box-arrow-in-down-right';
+      case 'code':
+        return 'upc';
+      case 'concept':
+        return 'tags';
       default:
         return 'file-text';
     }
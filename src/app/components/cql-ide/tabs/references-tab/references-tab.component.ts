@@ -0,0 +1,40 @@
+// Author: Preston Lee
+
+import { Component, computed, inject } from '@angular/core';
+import { IdeStateService } from '../../../../services/ide-state.service';
+import { ReferenceLocation } from '../../shared/ide-types';
+
+/** Find-all-references results for the last searched define or function, grouped by library. */
+@Component({
+  selector: 'app-references-tab',
+  imports: [],
+  templateUrl: './references-tab.component.html',
+
+  styleUrls: ['./references-tab.component.scss']
+})
+export class ReferencesTabComponent {
+  protected readonly ideStateService = inject(IdeStateService);
+
+  protected readonly result = computed(() => this.ideStateService.referenceResults());
+
+  protected readonly groups = computed(() => {
+    const groups: { libraryId: string; libraryName: string; locations: ReferenceLocation[] }[] = [];
+    for (const location of this.result()?.locations ?? []) {
+      let group = groups.find(g => g.libraryId === location.libraryId);
+      if (!group) {
+        group = { libraryId: location.libraryId, libraryName: location.libraryName, locations: [] };
+        groups.push(group);
+      }
+      group.locations.push(location);
+    }
+    return groups;
+  });
+
+  onLocationClick(location: ReferenceLocation): void {
+    this.ideStateService.requestNavigateToDefinition({
+      libraryId: location.libraryId,
+      line: location.line,
+      column: location.column
+    });
+  }
+}
@@ -3,6 +3,7 @@
 import { afterNextRender, Component, computed, inject, Injector, signal } from '@angular/core';
 import { NgTemplateOutlet } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import type { Library } from 'fhir/r4';
 import { SettingsService } from '../../services/settings.service';
 import { FhirPackageRegistryService } from '../../services/fhir-package-registry.service';
 import { FhirPackageMetadataService } from '../../services/fhir-package-metadata.service';
@@ -12,6 +13,7 @@ import {
 } from '../../services/fhir-package-load.service';
 import { FhirPackageDependencyResolverService } from '../../services/fhir-package-dependency-resolver.service';
 import { FhirPackageImportService } from '../../services/fhir-package-import.service';
+import { ModelInfoRegistryService } from '../../services/model-info-registry.service';
 import {
   FhirNpmPackageManifest,
   FhirPackageCatalogEntry,
@@ -61,6 +63,7 @@ export class FhirRegistryImporterComponent {
   private readonly packageLoadService = inject(FhirPackageLoadService);
   private readonly dependencyResolver = inject(FhirPackageDependencyResolverService);
   private readonly packageImportService = inject(FhirPackageImportService);
+  private readonly modelInfoRegistry = inject(ModelInfoRegistryService);
   private readonly injector = inject(Injector);
 
   protected readonly searchQuery = signal('');
@@ -389,6 +392,28 @@ export class FhirRegistryImporterComponent {
     }
   }
 
+  /**
+   * Registers model info XML and helper CQL carried by the package's Library resources
+   * (e.g. QI-Core) with the CQL translator, whichever rows are selected for import.
+   */
+  private registerPackageModelInfo(st: PackageImportState): RegistryImportResultRow[] {
+    const libraryRows = st.rows.filter((r) => r.resourceType === 'Library');
+    if (libraryRows.length === 0) {
+      return [];
+    }
+    const { resources } = this.packageImportService.collectResourcesFromFiles(libraryRows, st.files);
+    const entries = this.modelInfoRegistry.registerFromLibraries(resources as Library[], st.packageKey);
+    return entries.map((entry) => ({
+      packageName: st.name,
+      channel: 'Model info',
+      resourceType: 'Library',
+      resourceId: `${entry.name} ${entry.version}`,
+      filename: '—',
+      ok: true,
+      message: `Registered with the CQL translator (${entry.helpers.length} helper libraries).`
+    }));
+  }
+
   private setRootPackageFromParsed(parsed: ParsedFhirPackageTarball, version: string): void {
     const name = parsed.packageName;
     const next = new Map<string, PackageImportState>();
@@ -816,6 +841,7 @@ export class FhirRegistryImporterComponent {
           continue;
         }
         pkgIndex++;
+        accumulated.push(...this.registerPackageModelInfo(st));
         const { resources, errors: loadErrors } = this.packageImportService.collectResourcesFromFiles(
           selectedRows,
           st.files
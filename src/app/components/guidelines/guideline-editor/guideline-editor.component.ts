@@ -21,6 +21,8 @@ import { CqlGenerationService } from '../../../services/cql-generation.service';
 import { CqlParsingService } from '../../../services/cql-parsing.service';
 import { Library } from 'fhir/r4';
 import { decodeUtf8Base64, encodeUtf8Base64 } from '../../../services/utf8-encoding.lib';
+import { withCqlOptions } from '../../../services/translator-options.lib';
+import type { TranslatorOptions } from '../../../models/translator-options.model';
 
 @Component({
   selector: 'app-guideline-editor',
@@ -208,10 +210,16 @@ export class GuidelineEditorComponent implements OnInit, OnDestroy {
     }
     
     // Update existing library
-    this.updateLibrary(this.library(), cqlContent, translationResult.elmXml || '', artifact);
+    this.updateLibrary(this.library(), cqlContent, translationResult.elmXml || '', translationResult.translatorProfile, artifact);
   }
 
-  private updateLibrary(library: Library, cqlContent: string, elmXml: string, artifact: any): void {
+  private updateLibrary(
+    library: Library,
+    cqlContent: string,
+    elmXml: string,
+    translatorOptions: TranslatorOptions,
+    artifact: any
+  ): void {
     const metadata = artifact.metadata || {};
     
     // Use metadata.url if provided (user-edited), otherwise fall back to library.url or generate
@@ -251,7 +259,7 @@ export class GuidelineEditorComponent implements OnInit, OnDestroy {
       updatedLibrary.description = metadata.description;
     }
 
-    this.libraryService.put(updatedLibrary).subscribe({
+    this.libraryService.put(withCqlOptions(updatedLibrary, translatorOptions)).subscribe({
       next: (library: Library) => {
         if (library.name) {
           this.translationService.invalidateIncludedLibraryCache(
@@ -17,6 +17,7 @@ import { TranslationService } from '../../services/translation.service';
 import { CqlGenerationService } from '../../services/cql-generation.service';
 import { Library } from 'fhir/r4';
 import { encodeUtf8Base64 } from '../../services/utf8-encoding.lib';
+import { withCqlOptions } from '../../services/translator-options.lib';
 
 @Component({
   selector: 'app-guidelines',
@@ -226,7 +227,7 @@ export class GuidelinesComponent implements OnInit {
       ]
     };
 
-    this.libraryService.post(newLibrary).subscribe({
+    this.libraryService.post(withCqlOptions(newLibrary, translationResult.translatorProfile)).subscribe({
       next: (library: Library) => {
         this.openLibrary(library);
       },
@@ -5,6 +5,7 @@ import { Component, input, output } from '@angular/core';
 export type SettingsSectionId =
   | 'environments'
   | 'advanced'
+  | 'translator'
   | 'runner'
   | 'registry'
   | 'vsac'
@@ -27,6 +28,7 @@ export class SettingsSectionNavComponent {
   readonly sections: SettingsSection[] = [
     { id: 'environments', label: 'Environments', icon: 'bi-globe2' },
     { id: 'advanced', label: 'Advanced', icon: 'bi-sliders' },
+    { id: 'translator', label: 'Translator', icon: 'bi-gear-wide-connected' },
     { id: 'runner', label: 'Runner', icon: 'bi-play-circle' },
     { id: 'registry', label: 'Registry', icon: 'bi-box-seam' },
     { id: 'vsac', label: 'VSAC', icon: 'bi-cloud-download' },
@@ -0,0 +1,117 @@
+// Author: Preston Lee
+
+import { Component, computed, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { SettingsService } from '../../../services/settings.service';
+import {
+  TranslatorOption,
+  TranslatorOptionsProfile,
+  TranslatorSignatureLevel
+} from '../../../models/translator-options.model';
+import {
+  TRANSLATOR_COMPATIBILITY_LEVELS,
+  TRANSLATOR_OPTION_DETAILS,
+  TRANSLATOR_SIGNATURE_LEVELS
+} from '../../../services/translator-options.lib';
+
+@Component({
+  selector: 'app-settings-translator-profiles',
+  imports: [FormsModule],
+  templateUrl: './settings-translator-profiles.component.html'
+})
+export class SettingsTranslatorProfilesComponent {
+  protected readonly settingsService = inject(SettingsService);
+
+  readonly optionDetails = TRANSLATOR_OPTION_DETAILS;
+  readonly signatureLevels = TRANSLATOR_SIGNATURE_LEVELS;
+  readonly compatibilityLevels = TRANSLATOR_COMPATIBILITY_LEVELS;
+
+  readonly profiles = this.settingsService.translatorProfiles;
+  readonly activeProfileId = computed(() => this.settingsService.activeTranslatorProfile().id);
+  readonly sqlOnFhirProfileId = computed(() => this.settingsService.sqlOnFhirTranslatorProfile().id);
+
+  readonly selectedProfileId = signal<string | null>(null);
+
+  readonly selectedProfile = computed(() => {
+    const id = this.selectedProfileId() ?? this.activeProfileId();
+    return this.profiles().find(profile => profile.id === id) ?? this.profiles()[0] ?? null;
+  });
+
+  selectProfile(id: string): void {
+    this.selectedProfileId.set(id);
+  }
+
+  hasOption(profile: TranslatorOptionsProfile, option: TranslatorOption): boolean {
+    return profile.options.includes(option);
+  }
+
+  toggleOption(option: TranslatorOption, enabled: boolean): void {
+    const profile = this.selectedProfile();
+    if (!profile) {
+      return;
+    }
+    const options = profile.options.filter(o => o !== option);
+    this.persist({ ...profile, options: enabled ? [...options, option] : options });
+  }
+
+  updateName(name: string): void {
+    const profile = this.selectedProfile();
+    if (profile) {
+      this.persist({ ...profile, name });
+    }
+  }
+
+  updateSignatureLevel(signatureLevel: TranslatorSignatureLevel): void {
+    const profile = this.selectedProfile();
+    if (profile) {
+      this.persist({ ...profile, signatureLevel });
+    }
+  }
+
+  updateCompatibilityLevel(compatibilityLevel: string): void {
+    const profile = this.selectedProfile();
+    if (profile) {
+      this.persist({ ...profile, compatibilityLevel });
+    }
+  }
+
+  setAsActive(): void {
+    const profile = this.selectedProfile();
+    if (profile) {
+      this.settingsService.updateSettings({ activeTranslatorProfileId: profile.id });
+    }
+  }
+
+  setForSqlOnFhir(): void {
+    const profile = this.selectedProfile();
+    if (profile) {
+      this.settingsService.updateSettings({ sqlOnFhirTranslatorProfileId: profile.id });
+    }
+  }
+
+  duplicateSelected(): void {
+    const profile = this.selectedProfile();
+    if (!profile) {
+      return;
+    }
+    const copy = this.settingsService.duplicateTranslatorProfile(profile.id);
+    if (copy) {
+      this.selectedProfileId.set(copy.id);
+    }
+  }
+
+  deleteSelected(): void {
+    const profile = this.selectedProfile();
+    if (!profile || profile.builtIn) {
+      return;
+    }
+    this.settingsService.deleteTranslatorProfile(profile.id);
+    this.selectedProfileId.set(this.activeProfileId());
+  }
+
+  private persist(profile: TranslatorOptionsProfile): void {
+    if (!profile.builtIn) {
+      this.settingsService.saveTranslatorProfile(profile);
+    }
+  }
+}
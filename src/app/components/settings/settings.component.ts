@@ -10,10 +10,17 @@ import { ClipboardService } from '../../services/clipboard.service';
 import { SettingsActionsComponent } from './settings-actions/settings-actions.component';
 import { SettingsSectionNavComponent, SettingsSectionId } from './settings-section-nav/settings-section-nav.component';
 import { SettingsEnvironmentsComponent } from './settings-environments/settings-environments.component';
+import { SettingsTranslatorProfilesComponent } from './settings-translator-profiles/settings-translator-profiles.component';
 
 @Component({
   selector: 'app-settings',
-  imports: [FormsModule, SettingsActionsComponent, SettingsSectionNavComponent, SettingsEnvironmentsComponent],
+  imports: [
+    FormsModule,
+    SettingsActionsComponent,
+    SettingsSectionNavComponent,
+    SettingsEnvironmentsComponent,
+    SettingsTranslatorProfilesComponent
+  ],
   templateUrl: './settings.component.html',
   styleUrl: './settings.component.scss'
 })
@@ -115,6 +122,7 @@ export class SettingsComponent implements OnInit {
   private isValidSection(section: string | null): section is SettingsSectionId {
     return section === 'environments'
       || section === 'advanced'
+      || section === 'translator'
       || section === 'runner'
       || section === 'registry'
       || section === 'vsac'
@@ -16,6 +16,8 @@ export class SyntaxHighlighterComponent implements AfterViewInit {
   code = input<string>('');
   language = input<string>('json');
   showLineNumbers = input<boolean>(true);
+  /** Lines to highlight via the Prism line-highlight plugin, e.g. "12" or "12-14". */
+  highlightLines = input<string>('');
   codeElement = viewChild<ElementRef>('codeElement');
   preElement = viewChild<ElementRef>('preElement');
 
@@ -28,6 +30,7 @@ export class SyntaxHighlighterComponent implements AfterViewInit {
     effect(() => {
       const code = this.code();
       const language = this.language();
+      this.highlightLines();
       if (code || language) {
         this.highlightCode();
       }
@@ -56,6 +59,7 @@ export class SyntaxHighlighterComponent implements AfterViewInit {
         // Set language on both elements so Prism theme and line-number gutter padding apply to <pre>
         codeElement.className = languageClass;
         this.preElement()!.nativeElement.className = `syntax-highlighter ${languageClass}${this.showLineNumbers() ? ' line-numbers' : ''}`;
+        this.setHighlightedLines();
 
         // Defer heavy work (pretty JSON + Prism highlighting) until the browser is idle,
         // so the UI can remain responsive while the console card is being added.
@@ -80,6 +84,11 @@ export class SyntaxHighlighterComponent implements AfterViewInit {
           // Highlight only this element (avoid highlightAllUnder scanning).
           Prism.highlightElement(codeElement);
 
+          // Bring the first highlighted line into view (the plugin draws it synchronously).
+          if (this.highlightLines()) {
+            this.preElement()!.nativeElement.querySelector('.line-highlight')?.scrollIntoView({ block: 'center' });
+          }
+
           // Open the first few folded nodes to keep the UX usable without massive DOM expansion.
           let opened = 0;
           codeElement.querySelectorAll('details').forEach((el: Element) => {
@@ -112,6 +121,17 @@ export class SyntaxHighlighterComponent implements AfterViewInit {
     }
   }
 
+  private setHighlightedLines(): void {
+    const pre: HTMLElement = this.preElement()!.nativeElement;
+    const lines = this.highlightLines();
+    if (lines) {
+      pre.setAttribute('data-line', lines);
+    } else {
+      pre.removeAttribute('data-line');
+      pre.querySelectorAll('.line-highlight').forEach(el => el.remove());
+    }
+  }
+
   private detectLanguage(): string {
     const lang = this.language();
     if (lang && lang !== 'auto') {
@@ -0,0 +1,163 @@
+// Author: Preston Lee
+
+import { ChangeDetectionStrategy, Component, OnInit, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import {
+  SqlOnFhirDataExplorerService,
+  type QueryHistoryEntry,
+  type TablePage,
+  type TableSummary,
+} from '../../../services/sql-on-fhir/sql-on-fhir-data-explorer.service';
+import { SqlOnFhirPgliteService } from '../../../services/sql-on-fhir/sql-on-fhir-pglite.service';
+import {
+  QUERY_HISTORY_LIMIT,
+  QUERY_RESULT_ROW_LIMIT,
+} from '../../../services/sql-on-fhir/sql-on-fhir-datasets.lib';
+
+const PAGE_SIZE = 50;
+
+/**
+ * Schema and data explorer for the SQL-on-FHIR PGlite database: picks the
+ * dataset it is stored in, lists tables with row counts, pages through rows
+ * and runs ad-hoc SQL.
+ */
+@Component({
+  selector: 'app-sql-data-explorer',
+  imports: [FormsModule],
+  templateUrl: './sql-data-explorer.component.html',
+  styleUrl: './sql-data-explorer.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SqlDataExplorerComponent implements OnInit {
+  protected readonly pglite = inject(SqlOnFhirPgliteService);
+  private readonly explorer = inject(SqlOnFhirDataExplorerService);
+
+  protected readonly pageSize = PAGE_SIZE;
+  protected readonly historyLimit = QUERY_HISTORY_LIMIT;
+  protected readonly resultRowLimit = QUERY_RESULT_ROW_LIMIT;
+  protected readonly history = this.explorer.history;
+
+  protected readonly newDatasetName = signal('');
+  protected readonly isSwitchingDataset = signal(false);
+  protected readonly datasetError = signal<string | null>(null);
+
+  protected readonly tables = signal<TableSummary[]>([]);
+  protected readonly isLoadingTables = signal(false);
+  protected readonly tablesError = signal<string | null>(null);
+
+  protected readonly page = signal<TablePage | null>(null);
+  protected readonly isBrowsing = signal(false);
+  private browseRunId = 0;
+
+  protected readonly querySql = signal('SELECT * FROM patient_view LIMIT 20');
+  protected readonly isRunningQuery = signal(false);
+  protected readonly shownResult = signal<QueryHistoryEntry | null>(null);
+
+  ngOnInit(): void {
+    void this.refreshTables();
+  }
+
+  protected async refreshTables(): Promise<void> {
+    this.isLoadingTables.set(true);
+    this.tablesError.set(null);
+    try {
+      this.tables.set(await this.explorer.listTables());
+    } catch (err) {
+      this.tables.set([]);
+      this.tablesError.set(err instanceof Error ? err.message : String(err));
+    } finally {
+      this.isLoadingTables.set(false);
+    }
+  }
+
+  protected async browse(table: string, offset = 0): Promise<void> {
+    const runId = ++this.browseRunId;
+    this.isBrowsing.set(true);
+    this.tablesError.set(null);
+    try {
+      const page = await this.explorer.browseTable(table, offset, PAGE_SIZE);
+      if (runId === this.browseRunId) {
+        this.page.set(page);
+      }
+    } catch (err) {
+      if (runId === this.browseRunId) {
+        this.page.set(null);
+        this.tablesError.set(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      if (runId === this.browseRunId) {
+        this.isBrowsing.set(false);
+      }
+    }
+  }
+
+  protected async runQuery(): Promise<void> {
+    const sql = this.querySql().trim();
+    if (!sql) {
+      return;
+    }
+    this.isRunningQuery.set(true);
+    const entry = await this.explorer.runQuery(sql);
+    this.isRunningQuery.set(false);
+    this.shownResult.set(entry);
+    // Ad-hoc SQL may have created, dropped or filled tables.
+    if (!entry.error) {
+      void this.refreshTables();
+    }
+  }
+
+  protected showHistoryEntry(entry: QueryHistoryEntry): void {
+    this.shownResult.set(entry);
+    this.querySql.set(entry.sql);
+  }
+
+  protected clearHistory(): void {
+    this.explorer.clearHistory();
+    this.shownResult.set(null);
+  }
+
+  protected async selectDataset(value: string): Promise<void> {
+    await this.switchDataset(() => this.pglite.useDataset(value || null));
+  }
+
+  protected async createDataset(): Promise<void> {
+    const name = this.newDatasetName();
+    await this.switchDataset(() => this.pglite.createDataset(name));
+    if (!this.datasetError()) {
+      this.newDatasetName.set('');
+    }
+  }
+
+  protected async deleteActiveDataset(): Promise<void> {
+    const name = this.pglite.activeDataset();
+    if (!name) {
+      return;
+    }
+    if (!confirm(`Delete the dataset "${name}" and all data stored in it?`)) {
+      return;
+    }
+    await this.switchDataset(() => this.pglite.deleteDataset(name));
+  }
+
+  protected cell(value: unknown): string {
+    if (value == null) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private async switchDataset(change: () => Promise<void>): Promise<void> {
+    this.isSwitchingDataset.set(true);
+    this.datasetError.set(null);
+    try {
+      await change();
+      this.page.set(null);
+      this.shownResult.set(null);
+      await this.refreshTables();
+    } catch (err) {
+      this.datasetError.set(err instanceof Error ? err.message : String(err));
+    } finally {
+      this.isSwitchingDataset.set(false);
+    }
+  }
+}
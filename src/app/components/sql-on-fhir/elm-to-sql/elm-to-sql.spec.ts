@@ -7,24 +7,45 @@
  *   ParameterRef (Measurement Period), ValueSetRef, And/Or, During, Equal
  */
 
-import { ElmToSqlTranspiler } from './transpiler/elm-to-sql';
-import { generateMeasureReport, sqlRowToPopulationCounts } from './measure/measure-report';
+import { ElmToSqlTranspiler, type TranspileWarning } from './transpiler/elm-to-sql';
+import { DUCKDB_DIALECT, POSTGRESQL_DIALECT, sqlDialect } from './transpiler/sql-dialect';
+import {
+  generateIndividualMeasureReports,
+  generateMeasureReport,
+  generateSubjectListMeasureReport,
+  sqlRowToGroupCounts,
+  sqlRowToPopulationCounts,
+  sqlRowsToStrata,
+  sqlRowsToSubjects,
+} from './measure/measure-report';
+import { measureGroups, measureStratifiers, measureSupplementalData } from './measure/measure-definition';
 import {
   inferMeasureUrlFromLibrary,
   normalizeMeasureReportForServer,
 } from './measure/measure-report-normalize.lib';
-import { STANDARD_VIEW_DEFINITIONS, viewDefinitionToSql, generateAllViewsSql } from './views/view-definitions';
+import {
+  STANDARD_VIEW_DEFINITIONS,
+  viewDefinitionToSql,
+  viewDefinitionToTableDdl,
+  generateAllViewsSql,
+} from './views/view-definitions';
+import type { ViewDefinition } from './views/view-definitions';
+import { runViewDefinition, type ViewResourceError } from './views/view-runner';
+import { evaluateFhirPath } from './views/fhirpath';
 import { extractValueSets, extractUsedValueSets } from './valueset/value-set-extractor';
 import { loadValueSetExpansions } from './valueset/value-set-loader';
 import { generateValueSetTableDdl, generateValueSetInsertSql, generateValueSetUpsertSql, generateValueSetSeedScript } from './valueset/value-set-sql';
 import type { ElmLibraryWrapper } from './types/elm';
+import type { List, Measure, Observation } from 'fhir/r4';
 import type { ValueSetExpansionRow } from './valueset/value-set-loader';
 import cms125Fixture from './fixtures/cms125-breast-cancer-screening.elm.json';
 import cms130Fixture from './fixtures/cms130-colorectal-cancer-screening.elm.json';
+import lengthOfStayFixture from './fixtures/encounter-length-of-stay.elm.json';
 
 const FIXTURES: Record<string, ElmLibraryWrapper> = {
   'cms125-breast-cancer-screening.elm.json': cms125Fixture as unknown as ElmLibraryWrapper,
   'cms130-colorectal-cancer-screening.elm.json': cms130Fixture as unknown as ElmLibraryWrapper,
+  'encounter-length-of-stay.elm.json': lengthOfStayFixture as unknown as ElmLibraryWrapper,
 };
 
 function loadFixture(name: string): ElmLibraryWrapper {
@@ -67,6 +88,17 @@ describe('ElmToSqlTranspiler', () => {
     expect(sql).toContain('Numerator');
   });
 
+  test('traces every CTE to the define it was generated from', () => {
+    const t = new ElmToSqlTranspiler();
+    const { sql, ctes } = t.transpile(fixture);
+    expect(ctes.length).toBeGreaterThan(0);
+    for (const cte of ctes) {
+      expect(sql).toContain(cte.sql);
+    }
+    const ip = ctes.find(c => c.define === 'Initial Population');
+    expect(ip).toMatchObject({ kind: 'define', patientColumn: 'id' });
+  });
+
   test('SQL contains final SELECT with _count columns', () => {
     const t = new ElmToSqlTranspiler();
     const { sql } = t.transpile(fixture);
@@ -149,6 +181,17 @@ describe('ElmToSqlTranspiler', () => {
     expect(() => t.transpile(fixture.library)).not.toThrow();
   });
 
+  test('resourceViews redirects retrieves and code filters to a custom view', () => {
+    const t = new ElmToSqlTranspiler({
+      resourceViews: { Observation: { view: 'site_bp_view', codeColumn: 'panel_code' } },
+    });
+    const { sql } = t.transpile(fixture);
+    expect(sql).toContain('FROM site_bp_view');
+    expect(sql).not.toContain('FROM observation_view');
+    expect(sql).toContain('panel_code IN (SELECT code FROM value_set_expansion');
+    expect(sql).toContain('FROM procedure_view');
+  });
+
   test('handles ExpressionRef (Denominator = Initial Population)', () => {
     const t = new ElmToSqlTranspiler();
     const { sql } = t.transpile(fixture);
@@ -185,6 +228,388 @@ describe('ElmToSqlTranspiler', () => {
   });
 });
 
+// ─── Stratifiers / supplemental data ──────────────────────────────────────────
+
+describe('stratifiers and supplemental data', () => {
+  const base = loadFixture('cms125-breast-cancer-screening.elm.json');
+  const patientGender = {
+    type: 'Property',
+    path: 'gender',
+    source: { type: 'ExpressionRef', name: 'Patient' },
+  };
+  const fixture = {
+    library: {
+      ...base.library,
+      statements: {
+        def: [
+          ...(base.library.statements?.def ?? []),
+          { name: 'SDE Sex', context: 'Patient', accessLevel: 'Public', expression: patientGender },
+        ],
+      },
+    },
+  } as unknown as ElmLibraryWrapper;
+
+  test('stratifier value CTEs and GROUP BY queries count populations per stratum', () => {
+    const t = new ElmToSqlTranspiler({
+      stratifiers: [{ id: 'by-exclusion', expressions: ['Denominator Exclusion'] }],
+      supplementalData: [{ id: 'sde-sex', expression: 'SDE Sex' }],
+    });
+    const { sql, stratifiers, supplementalData } = t.transpile(fixture);
+    // The bare value define is not wrapped as a boolean filter over Patient.
+    expect(sql).not.toContain('SDE_Sex AS (');
+    expect(sql).toContain('SDE_Sex_value AS (');
+    expect(sql).toContain('Denominator_Exclusion_value AS (');
+
+    expect(stratifiers).toHaveLength(1);
+    const [byExclusion] = stratifiers;
+    expect(byExclusion.kind).toBe('stratifier');
+    expect(byExclusion.sql).toContain('EXISTS (SELECT 1 FROM Denominator_Exclusion _m WHERE _m.subject_id = Patient.id)');
+    expect(byExclusion.sql).toContain('AS stratum_0');
+    expect(byExclusion.sql).toContain('GROUP BY s.stratum_0');
+    expect(byExclusion.sql).toContain(
+      'COUNT(DISTINCT s.patient_id) FILTER (WHERE EXISTS ' +
+        '(SELECT 1 FROM Numerator _p WHERE _p.subject_id = s.patient_id)) AS Numerator_count',
+    );
+    expect(byExclusion.sql).toContain('AS Initial_Population_count');
+
+    expect(supplementalData.map(q => q.id)).toEqual(['sde-sex']);
+    expect(supplementalData[0].sql).toContain('Patient.gender');
+  });
+
+  test('unknown stratifier expressions are skipped with a warning', () => {
+    const t = new ElmToSqlTranspiler({ stratifiers: [{ id: 's1', expressions: ['Age Band'] }] });
+    const { stratifiers, warnings } = t.transpile(fixture);
+    expect(stratifiers).toEqual([]);
+    expect(warnings.some(w => w.message.includes('Age Band'))).toBe(true);
+  });
+
+  test('reads stratifiers and supplemental data from a Measure', () => {
+    const measure: Measure = {
+      resourceType: 'Measure',
+      status: 'active',
+      group: [
+        {
+          stratifier: [
+            { id: 'strat-sex', criteria: { language: 'text/cql-identifier', expression: 'SDE Sex' } },
+            {
+              code: { text: 'sex and exclusion' },
+              component: [
+                { criteria: { language: 'text/cql', expression: '"SDE Sex"' } },
+                { criteria: { language: 'text/cql', expression: 'Denominator Exclusion' } },
+              ],
+            },
+            { criteria: { language: 'text/fhirpath', expression: 'Patient.gender' } },
+          ],
+        },
+      ],
+      supplementalData: [
+        {
+          code: { coding: [{ code: 'sde-sex' }] },
+          usage: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/measure-data-usage', code: 'supplemental-data' }] }],
+          criteria: { language: 'text/cql', expression: 'SDE Sex' },
+        },
+      ],
+    };
+    expect(measureStratifiers(measure)).toEqual([
+      { id: 'strat-sex', groupId: 'group-1', expressions: ['SDE Sex'] },
+      {
+        id: 'stratifier-2',
+        groupId: 'group-1',
+        expressions: ['SDE Sex', 'Denominator Exclusion'],
+        code: 'sex and exclusion',
+      },
+    ]);
+    expect(measureSupplementalData(measure)).toEqual([
+      { id: 'sde-1', expression: 'SDE Sex', code: 'sde-sex', usage: ['supplemental-data'] },
+    ]);
+  });
+
+  test('coded supplemental data values are reported as system|code', () => {
+    const genderSystem = 'http://hl7.org/fhir/v3/AdministrativeGender';
+    const coded = {
+      library: {
+        ...fixture.library,
+        codeSystems: { def: [...(base.library.codeSystems?.def ?? []), { name: 'AdministrativeGender', id: genderSystem }] },
+        statements: {
+          def: [
+            ...(base.library.statements?.def ?? []),
+            {
+              name: 'SDE Sex',
+              context: 'Patient',
+              accessLevel: 'Public',
+              expression: {
+                type: 'Case',
+                caseItem: [
+                  {
+                    when: { type: 'Equal', operand: [patientGender, { type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}String', value: 'female' }] },
+                    then: { type: 'Code', code: 'F', system: { type: 'CodeSystemRef', name: 'AdministrativeGender' } },
+                  },
+                ],
+                else: { type: 'Null' },
+              },
+            },
+          ],
+        },
+      },
+    } as unknown as ElmLibraryWrapper;
+    const t = new ElmToSqlTranspiler({ supplementalData: [{ id: 'sde-sex', expression: 'SDE Sex', usage: ['supplemental-data'] }] });
+    const { supplementalData, warnings } = t.transpile(coded);
+    expect(warnings.filter(w => w.code === 'unsupported')).toEqual([]);
+    expect(supplementalData[0].sql).toContain(`THEN '${genderSystem}|F'`);
+    expect(supplementalData[0].usage).toEqual(['supplemental-data']);
+  });
+});
+
+describe('measure groups and scoring', () => {
+  const fixture = loadFixture('encounter-length-of-stay.elm.json');
+  const cql = (expression: string) => ({ language: 'text/cql-identifier', expression });
+  const population = (code: string, expression: string, extra: object = {}) => ({
+    code: { coding: [{ code }] },
+    criteria: cql(expression),
+    ...extra,
+  });
+  const CQFM = 'http://hl7.org/fhir/us/cqfmeasures/StructureDefinition';
+  const measure: Measure = {
+    resourceType: 'Measure',
+    status: 'active',
+    scoring: { coding: [{ code: 'continuous-variable' }] },
+    extension: [{ url: `${CQFM}/cqfm-populationBasis`, valueCode: 'Encounter' }],
+    group: [
+      {
+        id: 'los',
+        population: [
+          population('initial-population', 'Initial Population'),
+          population('measure-population', 'Measure Population', { id: 'mp' }),
+          population('measure-population-exclusion', 'Measure Population Exclusion'),
+          population('measure-observation', 'Length of Stay', {
+            extension: [
+              { url: `${CQFM}/cqfm-aggregateMethod`, valueCode: 'median' },
+              { url: `${CQFM}/cqfm-criteriaReference`, valueString: 'mp' },
+            ],
+          }),
+        ],
+      },
+      {
+        extension: [{ url: `${CQFM}/cqfm-scoring`, valueCodeableConcept: { coding: [{ code: 'ratio' }] } }],
+        population: [
+          population('initial-population', 'Initial Population'),
+          population('denominator', 'Measure Population'),
+          population('numerator', 'Measure Population Exclusion'),
+        ],
+      },
+    ],
+  };
+
+  test('reads groups, scoring and observation settings from a Measure', () => {
+    const groups = measureGroups(measure);
+    expect(groups.map(g => [g.id, g.scoring, g.populationBasis])).toEqual([
+      ['los', 'continuous-variable', 'Encounter'],
+      ['group-2', 'ratio', 'Encounter'],
+    ]);
+    expect(groups[0].populations[3]).toEqual({
+      code: 'measure-observation',
+      expression: 'Length of Stay',
+      aggregateMethod: 'median',
+      criteriaReference: 'mp',
+    });
+  });
+
+  test('group columns count episodes and aggregate observations per group', () => {
+    const t = new ElmToSqlTranspiler({ groups: measureGroups(measure) });
+    const { sql, groups, warnings } = t.transpile(fixture);
+    expect(warnings).toEqual([]);
+    // Function definitions are inlined into observation CTEs, never emitted as CTEs of their own.
+    expect(sql).not.toContain('Length_of_Stay AS (');
+    expect(sql).toContain('g1_observation_1 AS (');
+    expect(sql).toContain('FROM Measure_Population AS _obs');
+    expect(sql).toContain('NOT EXISTS');
+    expect(sql).toContain('PERCENTILE_CONT(0.5)');
+    expect(sql).toContain('(SELECT COUNT(DISTINCT id) FROM Initial_Population) AS g1_initial_population_count');
+    expect(sql).toContain('AS g2_numerator_count');
+
+    expect(groups.map(g => g.populations.map(p => p.column))).toEqual([
+      ['g1_initial_population_count', 'g1_measure_population_count', 'g1_measure_population_exclusion_count'],
+      ['g2_initial_population_count', 'g2_denominator_count', 'g2_numerator_count'],
+    ]);
+    expect(groups[0].observations).toEqual([
+      {
+        criteriaReference: 'measure-population',
+        aggregateMethod: 'median',
+        column: 'g1_observation_1_median',
+        countColumn: 'g1_observation_1_count',
+      },
+    ]);
+  });
+
+  test('sqlRowToGroupCounts reads each group from the single result row', () => {
+    const t = new ElmToSqlTranspiler({ groups: measureGroups(measure) });
+    const { groups } = t.transpile(fixture);
+    const counts = sqlRowToGroupCounts(groups, {
+      g1_initial_population_count: 3,
+      g1_measure_population_count: 3,
+      g1_measure_population_exclusion_count: 1,
+      g1_observation_1_median: '3',
+      g1_observation_1_count: 2,
+      g2_initial_population_count: 3,
+      g2_denominator_count: 3,
+      g2_numerator_count: 1,
+    });
+    expect(counts[0].populations.map(p => p.count)).toEqual([3, 3, 1]);
+    expect(counts[0].observations[0]).toMatchObject({ value: 3, count: 2 });
+    expect(counts[1].scoring).toBe('ratio');
+  });
+
+  test('MeasureReport renders every group with a score for its scoring type', () => {
+    const report = generateMeasureReport(
+      {},
+      {
+        measureUrl: 'http://example.org/Measure/LengthOfStay',
+        periodStart: '2024-01-01',
+        periodEnd: '2024-12-31',
+        groups: [
+          {
+            id: 'los',
+            scoring: 'continuous-variable',
+            populations: [
+              { code: 'initial-population', count: 3 },
+              { code: 'measure-population', count: 3 },
+              { code: 'measure-population-exclusion', count: 1 },
+            ],
+            observations: [
+              { criteriaReference: 'measure-population', aggregateMethod: 'median', value: 3, count: 2 },
+            ],
+          },
+          {
+            id: 'group-2',
+            scoring: 'ratio',
+            populations: [
+              { code: 'initial-population', count: 3 },
+              { code: 'denominator', count: 3 },
+              { code: 'numerator', count: 1 },
+            ],
+            observations: [],
+          },
+        ],
+      },
+    );
+    const [los, ratio] = report.group ?? [];
+    expect(los.id).toBe('los');
+    expect(los.measureScore).toEqual({ value: 3 });
+    const observation = los.population?.find(p => p.code?.coding?.[0]?.code === 'measure-observation');
+    expect(observation?.count).toBe(2);
+    expect(ratio.id).toBe('group-2');
+    expect(ratio.measureScore?.value).toBeCloseTo(0.3333, 4);
+  });
+});
+
+describe('per-patient results', () => {
+  const opts = {
+    measureUrl: 'http://ecqi.healthit.gov/ecqms/Measure/BreastCancerScreening',
+    periodStart: '2024-01-01',
+    periodEnd: '2024-12-31',
+  };
+  const rows = [
+    { patient_id: 'p1', Initial_Population_count: 1, Denominator_count: 1, Numerator_count: 1 },
+    { patient_id: 'p2', Initial_Population_count: 1, Denominator_count: 1, Numerator_count: 0 },
+    { patient_id: 'p3', Initial_Population_count: 0, Denominator_count: 0, Numerator_count: 0 },
+  ];
+
+  test('subjectSql evaluates the final SELECT once per patient', () => {
+    const fixture = loadFixture('cms125-breast-cancer-screening.elm.json');
+    expect(new ElmToSqlTranspiler().transpile(fixture).subjectSql).toBeNull();
+
+    const { sql, subjectSql } = new ElmToSqlTranspiler({ subjectResults: true }).transpile(fixture);
+    const withClause = sql.slice(sql.indexOf('WITH'), sql.lastIndexOf('\n\nSELECT'));
+    expect(subjectSql).toContain(withClause);
+    expect(subjectSql).toContain('Patient.id AS patient_id');
+    expect(subjectSql).toContain(
+      '(SELECT COUNT(DISTINCT _p.subject_id) FROM Numerator _p ' +
+        'WHERE _p.subject_id = Patient.id) AS Numerator_count',
+    );
+    expect(subjectSql).toMatch(/FROM Patient\nORDER BY Patient\.id$/);
+  });
+
+  test('episode groups count each patient\'s episodes and observations', () => {
+    const groups = [
+      {
+        id: 'los',
+        scoring: 'continuous-variable' as const,
+        populationBasis: 'Encounter',
+        populations: [
+          { code: 'measure-population', expression: 'Measure Population' },
+          { code: 'measure-observation', expression: 'Length of Stay', aggregateMethod: 'sum' as const },
+        ],
+      },
+    ];
+    const t = new ElmToSqlTranspiler({ groups, subjectResults: true });
+    const { subjectSql } = t.transpile(loadFixture('encounter-length-of-stay.elm.json'));
+    expect(subjectSql).toContain(
+      '(SELECT COUNT(DISTINCT _p.id) FROM Measure_Population _p WHERE _p.subject_id = Patient.id)',
+    );
+    expect(subjectSql).toContain(
+      'FROM g1_observation_1 _o WHERE _o.patient_id = Patient.id) AS g1_observation_1_sum',
+    );
+  });
+
+  test('individual reports carry one patient each as subject', () => {
+    const reports = generateIndividualMeasureReports(sqlRowsToSubjects(rows), opts);
+    expect(reports.map(r => [r.type, r.subject?.reference])).toEqual([
+      ['individual', 'Patient/p1'],
+      ['individual', 'Patient/p2'],
+      ['individual', 'Patient/p3'],
+    ]);
+    expect(reports[0].meta?.profile?.[0]).toContain('indv-measurereport-cqfm');
+    expect(reports[0].group?.[0]?.measureScore?.value).toBe(1);
+    expect(reports[1].group?.[0]?.population?.find(p => p.code?.text === 'Numerator')?.count).toBe(0);
+  });
+
+  test('subject-list report references a contained List per population', () => {
+    const counts = { 'Initial Population': 2, 'Denominator': 2, 'Numerator': 1 };
+    const report = generateSubjectListMeasureReport(counts, sqlRowsToSubjects(rows), opts);
+    expect(report.type).toBe('subject-list');
+    const numerator = report.group?.[0]?.population?.find(p => p.code?.text === 'Numerator');
+    expect(numerator?.count).toBe(1);
+    expect(numerator?.subjectResults?.reference).toBe('#group-1-numerator');
+    const lists = (report.contained ?? []) as List[];
+    const list = lists.find(l => `#${l.id}` === numerator?.subjectResults?.reference);
+    expect(list?.entry?.map(e => e.item.reference)).toEqual(['Patient/p1']);
+    const ip = lists.find(l => l.title === 'Initial Population');
+    expect(ip?.entry?.map(e => e.item.reference)).toEqual(['Patient/p1', 'Patient/p2']);
+  });
+
+  test('subject lists follow Measure group population order', () => {
+    const groupRows = [
+      { patient_id: 'p1', g1_denominator_count: 1, g1_numerator_count: 1, g1_numerator_count_2: 0 },
+      { patient_id: 'p2', g1_denominator_count: 1, g1_numerator_count: 0, g1_numerator_count_2: 1 },
+    ];
+    const query = {
+      id: 'ratio',
+      scoring: 'ratio' as const,
+      populations: [
+        { code: 'denominator', expression: 'Denominator', column: 'g1_denominator_count' },
+        { code: 'numerator', expression: 'Numerator', column: 'g1_numerator_count' },
+        { code: 'numerator', expression: 'Numerator 2', column: 'g1_numerator_count_2' },
+      ],
+      observations: [],
+    };
+    const subjects = sqlRowsToSubjects(groupRows, [query]);
+    expect(subjects[0].counts).toEqual({});
+    const summary = sqlRowToGroupCounts([query], {
+      g1_denominator_count: 2,
+      g1_numerator_count: 1,
+      g1_numerator_count_2: 1,
+    });
+    const report = generateSubjectListMeasureReport({}, subjects, { ...opts, groups: summary });
+    expect(report.contained?.map(r => r.id)).toEqual([
+      'ratio-denominator',
+      'ratio-numerator',
+      'ratio-numerator-3',
+    ]);
+    const entries = (report.contained as List[]).map(l => l.entry?.map(e => e.item.reference));
+    expect(entries).toEqual([['Patient/p1', 'Patient/p2'], ['Patient/p1'], ['Patient/p2']]);
+  });
+});
+
 // ─── MeasureReport generator ──────────────────────────────────────────────────
 
 describe('generateMeasureReport', () => {
@@ -247,6 +672,65 @@ describe('generateMeasureReport', () => {
     expect(report.group?.[0]?.population?.[1]?.count).toBe(120);
   });
 
+  test('renders strata into group.stratifier with per-stratum scores', () => {
+    const stratifier = sqlRowsToStrata({ id: 'strat-sex', expressions: ['SDE Sex'] }, [
+      { stratum_0: 'female', Denominator_count: 4, Numerator_count: 3 },
+      { stratum_0: null, Denominator_count: 1, Numerator_count: 0 },
+    ]);
+    const report = generateMeasureReport(counts, { ...opts, stratifiers: [stratifier] });
+    const [rendered] = report.group?.[0]?.stratifier ?? [];
+    expect(rendered.id).toBe('strat-sex');
+    expect(rendered.code).toEqual([{ text: 'SDE Sex' }]);
+    expect(rendered.stratum?.map(s => s.value?.text)).toEqual(['female', 'null']);
+    expect(rendered.stratum?.[0].population?.find(p => p.code?.text === 'Numerator')?.count).toBe(3);
+    expect(rendered.stratum?.[0].measureScore?.value).toBeCloseTo(0.75, 4);
+    expect(rendered.stratum?.[1].measureScore?.value).toBe(0);
+  });
+
+  test('multi-component strata render one component per expression', () => {
+    const stratifier = sqlRowsToStrata({ id: 's2', expressions: ['SDE Sex', 'Age Band'] }, [
+      { stratum_0: 'male', stratum_1: '50-59', Initial_Population_count: 2 },
+    ]);
+    const report = generateMeasureReport(counts, { ...opts, stratifiers: [stratifier] });
+    const stratum = report.group?.[0]?.stratifier?.[0]?.stratum?.[0];
+    expect(stratum?.value).toBeUndefined();
+    expect(stratum?.component?.map(c => [c.code.text, c.value.text])).toEqual([
+      ['SDE Sex', 'male'],
+      ['Age Band', '50-59'],
+    ]);
+  });
+
+  test('supplemental data become contained Observations referenced by extension', () => {
+    const sde = sqlRowsToStrata({ id: 'sde-sex', expressions: ['SDE Sex'] }, [
+      { stratum_0: 'female', Initial_Population_count: 7 },
+      { stratum_0: 'male', Initial_Population_count: 5 },
+    ]);
+    const report = generateMeasureReport(counts, { ...opts, supplementalData: [sde] });
+    expect(report.contained?.map(r => r.id)).toEqual(['sde-sex-1', 'sde-sex-2']);
+    const [female] = report.contained as Observation[];
+    expect(female.code.text).toBe('female');
+    expect(female.valueInteger).toBe(7);
+    expect(female.category?.[0].coding?.[0].code).toBe('supplemental-data');
+    expect(report.extension?.map(e => e.valueReference?.reference)).toEqual(['#sde-sex-1', '#sde-sex-2']);
+  });
+
+  test('supplemental data report coded values and skip patients without a value', () => {
+    const sde = sqlRowsToStrata(
+      { id: 'sde-payer', expressions: ['SDE Payer'], usage: ['risk-adjustment-factor'] },
+      [
+        { stratum_0: 'urn:oid:2.16.840.1.113883.3.221.5|1', Initial_Population_count: 4 },
+        { stratum_0: 'urn:oid:2.16.840.1.113883.3.221.5|2', Initial_Population_count: 0, Numerator_count: 2 },
+        { stratum_0: null, Initial_Population_count: 3 },
+      ],
+    );
+    const report = generateMeasureReport(counts, { ...opts, supplementalData: [sde] });
+    const observations = report.contained as Observation[];
+    expect(observations).toHaveLength(1);
+    expect(observations[0].code).toEqual({ coding: [{ system: 'urn:oid:2.16.840.1.113883.3.221.5', code: '1' }] });
+    expect(observations[0].valueInteger).toBe(4);
+    expect(observations[0].category?.[0].coding?.[0].code).toBe('risk-adjustment-factor');
+  });
+
   test('create normalization strips client id', () => {
     const report = generateMeasureReport(counts, opts);
     const normalized = normalizeMeasureReportForServer(report, 'create');
@@ -300,7 +784,7 @@ describe('CMS130 ColorectalCancerScreening', () => {
   const fixture = loadFixture('cms130-colorectal-cancer-screening.elm.json');
   let sql: string;
   let populations: string[];
-  let warnings: string[];
+  let warnings: TranspileWarning[];
 
   beforeAll(() => {
     const t = new ElmToSqlTranspiler({
@@ -742,8 +1226,8 @@ describe('US Core 6.1 ViewDefinition column contracts', () => {
 
   // ── Inventory ──────────────────────────────────────────────────────────────
 
-  test('STANDARD_VIEW_DEFINITIONS has exactly 11 views (US Core 6.1 + base set)', () => {
-    expect(STANDARD_VIEW_DEFINITIONS).toHaveLength(11);
+  test('STANDARD_VIEW_DEFINITIONS has exactly 14 views (one per transpiler target)', () => {
+    expect(STANDARD_VIEW_DEFINITIONS).toHaveLength(14);
   });
 
   test('all expected view names are present', () => {
@@ -760,12 +1244,21 @@ describe('US Core 6.1 ViewDefinition column contracts', () => {
       'allergy_intolerance_view',
       'immunization_view',
       'service_request_view',
+      'device_request_view',
+      'communication_request_view',
+      'claim_view',
     ];
     for (const name of expected) {
       expect(names).toContain(name);
     }
   });
 
+  test('every resource-shaped view exposes subject_id for patient correlation', () => {
+    for (const vd of STANDARD_VIEW_DEFINITIONS.filter(v => v.resource !== 'Patient')) {
+      expect(cols(vd.name)).toContain('subject_id');
+    }
+  });
+
   test('no duplicate view names', () => {
     const names = STANDARD_VIEW_DEFINITIONS.map(v => v.name);
     expect(new Set(names).size).toBe(names.length);
@@ -961,19 +1454,20 @@ describe('US Core 6.1 ViewDefinition column contracts', () => {
     expect(c).toContain('insurance_id');
   });
 
-  test('service_request_view: has 21 columns', () => {
-    expect(cols('service_request_view')).toHaveLength(21);
+  test('service_request_view: has 23 columns', () => {
+    expect(cols('service_request_view')).toHaveLength(23);
   });
 
   // ── generateAllViewsSql coverage ──────────────────────────────────────────
 
-  test('generateAllViewsSql includes all 11 view names', () => {
+  test('generateAllViewsSql includes all 14 view names', () => {
     const sql = generateAllViewsSql();
     const expected = [
       'patient_view', 'observation_view', 'condition_view', 'procedure_view',
       'encounter_view', 'medication_request_view', 'diagnostic_report_view',
       'coverage_view', 'allergy_intolerance_view', 'immunization_view',
-      'service_request_view',
+      'service_request_view', 'device_request_view', 'communication_request_view',
+      'claim_view',
     ];
     for (const name of expected) {
       expect(sql).toContain(name);
@@ -1098,3 +1592,1012 @@ describe('authoring operators', () => {
     expect(sql).toContain('GREATEST(1, 2)');
   });
 });
+
+describe('list, interval and string operators', () => {
+  const int = (value: number) => ({
+    type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}Integer', value: String(value),
+  });
+  const str = (value: string) => ({ type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}String', value });
+  const interval = (low: string, high: string) => ({ type: 'Interval', low: str(low), high: str(high) });
+  const list = (...element: unknown[]) => ({ type: 'List', element });
+  const encounters = { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Encounter' };
+
+  const transpile = (expression: unknown) =>
+    new ElmToSqlTranspiler({
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+    }).transpile({
+      library: {
+        identifier: { id: 'OperatorTest', version: '0.0.1' },
+        schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+        statements: { def: [{ name: 'Initial Population', context: 'Patient', expression }] },
+      },
+    } as unknown as ElmLibraryWrapper);
+
+  /** SQL for a supported operator: no warnings, no NULL placeholder. */
+  const sqlFor = (expression: unknown): string => {
+    const { sql, warnings } = transpile(expression);
+    expect(warnings).toEqual([]);
+    expect(sql).not.toContain('unsupported');
+    return sql;
+  };
+
+  test('Width subtracts the range bounds', () => {
+    const sql = sqlFor({
+      type: 'Greater',
+      operand: [
+        { type: 'Width', operand: interval('2024-01-01', '2024-01-05') },
+        { type: 'Quantity', value: 2, unit: 'days' },
+      ],
+    });
+    expect(sql).toContain("(upper(tstzrange('2024-01-01', '2024-01-05', '[]')) - lower(tstzrange(");
+  });
+
+  test('Meets uses range adjacency; MeetsBefore also orders the ranges', () => {
+    const operand = [interval('2024-01-01', '2024-01-02'), interval('2024-01-02', '2024-01-03')];
+    expect(sqlFor({ type: 'Meets', operand })).toContain("'[]') -|- tstzrange('2024-01-02'");
+    const before = sqlFor({ type: 'MeetsBefore', operand });
+    expect(before).toContain('-|-');
+    expect(before).toContain("'[]') << tstzrange('2024-01-02'");
+    expect(sqlFor({ type: 'MeetsAfter', operand })).toContain("'[]') >> tstzrange('2024-01-02'");
+  });
+
+  test('Starts and Ends compare matching bounds and their closedness', () => {
+    const operand = [interval('2024-01-01', '2024-01-02'), { type: 'ParameterRef', name: 'Measurement Period' }];
+    const starts = sqlFor({ type: 'Starts', operand });
+    expect(starts).toMatch(/lower\(tstzrange\('2024-01-01'.*\) = lower\(tstzrange\('2024-01-01T00:00:00Z'/);
+    expect(starts).toMatch(/lower_inc\(tstzrange\('2024-01-01'.*\) = lower_inc\(tstzrange\('2024-01-01T00:00:00Z'/);
+    expect(starts).toMatch(/upper\(tstzrange\('2024-01-01'.*\) < upper\(/);
+    expect(starts).toMatch(/AND \(upper_inc\(tstzrange\('2024-01-01T00:00:00Z'.*\) OR NOT upper_inc\(tstzrange\('2024-01-01'/);
+    const ends = sqlFor({ type: 'Ends', operand });
+    expect(ends).toMatch(/upper\(tstzrange\('2024-01-01'.*\) = upper\(/);
+    expect(ends).toMatch(/upper_inc\(tstzrange\('2024-01-01'.*\) = upper_inc\(/);
+    expect(ends).toMatch(/lower\(tstzrange\('2024-01-01'.*\) > lower\(/);
+    expect(ends).toMatch(/OR NOT lower_inc\(tstzrange\('2024-01-01'/);
+  });
+
+  test('ProperIncludes excludes equal intervals and compares lists as row sets', () => {
+    const ranges = sqlFor({
+      type: 'ProperIncludes',
+      operand: [{ type: 'ParameterRef', name: 'Measurement Period' }, interval('2024-03-01', '2024-03-02')],
+    });
+    expect(ranges).toContain(") @> tstzrange('2024-03-01'");
+    expect(ranges).toContain(") <> tstzrange('2024-03-01'");
+
+    const lists = sqlFor({ type: 'ProperIncludes', operand: [list(int(1), int(2), int(3)), list(int(1), int(2))] });
+    expect(lists).toContain('NOT EXISTS (SELECT * FROM (VALUES (1), (2)) _pa EXCEPT SELECT * FROM (VALUES (1), (2), (3)) _pb)');
+    expect(lists).toContain('AND EXISTS (SELECT * FROM (VALUES (1), (2), (3)) _pa EXCEPT');
+
+    const includedIn = sqlFor({ type: 'ProperIncludedIn', operand: [list(int(1)), list(int(1), int(2))] });
+    expect(includedIn).toContain('NOT EXISTS (SELECT * FROM (VALUES (1)) _pa EXCEPT SELECT * FROM (VALUES (1), (2)) _pb)');
+  });
+
+  test('Collapse merges intervals with range_agg and warns about a per quantity', () => {
+    const collapse = {
+      type: 'Collapse',
+      operand: [list(interval('2024-01-01', '2024-01-05'), interval('2024-01-03', '2024-01-10')), { type: 'Null' }],
+    };
+    expect(sqlFor({ type: 'Exists', operand: collapse })).toContain('SELECT unnest(range_agg(_c.v)) AS v FROM (VALUES');
+
+    const { warnings } = transpile({
+      type: 'Exists',
+      operand: { ...collapse, operand: [collapse.operand[0], { type: 'Quantity', value: 1, unit: 'day' }] },
+    });
+    expect(warnings.some(w => w.message.includes('Collapse'))).toBe(true);
+  });
+
+  test('Expand splits intervals per unit and a single interval into points', () => {
+    const perDay = { type: 'Quantity', value: 1, unit: 'day' };
+    const intervals = sqlFor({
+      type: 'Exists',
+      operand: { type: 'Expand', operand: [list(interval('2024-01-01', '2024-01-03')), perDay] },
+    });
+    expect(intervals).toContain("SELECT tstzrange(_g, _g + INTERVAL '1 days', '[)') AS v");
+    expect(intervals).toContain("CROSS JOIN LATERAL generate_series(lower(_x.v), upper(_x.v), INTERVAL '1 days') _g");
+
+    const points = sqlFor({
+      type: 'Exists',
+      operand: { type: 'Expand', operand: [interval('2024-01-01', '2024-01-03'), { type: 'Null' }] },
+    });
+    expect(points).toContain("SELECT _g AS v FROM generate_series(lower(tstzrange('2024-01-01'");
+    expect(points).toContain("INTERVAL '1 day') _g");
+  });
+
+  test('IndexOf numbers the list rows and defaults to -1', () => {
+    const sql = sqlFor({
+      type: 'Equal',
+      operand: [{ type: 'IndexOf', source: list(str('a'), str('b')), element: str('b') }, int(1)],
+    });
+    expect(sql).toContain('COALESCE((SELECT _ix.n - 1 FROM unnest(ARRAY(SELECT _iv.v FROM (VALUES');
+    expect(sql).toContain("WITH ORDINALITY AS _ix(v, n) WHERE _ix.v = 'b' ORDER BY _ix.n LIMIT 1), -1)");
+    expect(sql).not.toContain('OVER ()');
+  });
+
+  test('Slice renders LIMIT/OFFSET and drops LIMIT for a null end', () => {
+    const take = sqlFor({
+      type: 'Exists',
+      operand: { type: 'Slice', source: encounters, startIndex: int(0), endIndex: int(2) },
+    });
+    expect(take).toContain('_sl LIMIT GREATEST((2) - (0), 0) OFFSET 0');
+
+    const skip = sqlFor({
+      type: 'Exists',
+      operand: { type: 'Slice', source: encounters, startIndex: int(1), endIndex: { type: 'Null' } },
+    });
+    expect(skip).toContain('_sl OFFSET 1');
+    expect(skip).not.toContain('LIMIT GREATEST');
+  });
+
+  test('Exists over an interval checks for a non-empty range', () => {
+    const sql = sqlFor({ type: 'Exists', operand: interval('2024-01-01', '2024-01-02') });
+    expect(sql).toContain("(tstzrange('2024-01-01', '2024-01-02', '[]') IS NOT NULL AND NOT isempty(tstzrange(");
+    expect(sql).not.toContain('EXISTS (SELECT 1 FROM (tstzrange');
+  });
+
+  test('Sort orders the list by direction or column', () => {
+    const byDirection = sqlFor({
+      type: 'Exists',
+      operand: { type: 'Sort', source: list(int(3), int(1)), by: [{ type: 'ByDirection', direction: 'desc' }] },
+    });
+    expect(byDirection).toContain('SELECT * FROM (VALUES (3), (1)) _so ORDER BY 1 DESC');
+
+    const byColumn = sqlFor({
+      type: 'Exists',
+      operand: { type: 'Sort', source: encounters, by: [{ type: 'ByColumn', path: 'period_start', direction: 'asc' }] },
+    });
+    expect(byColumn).toContain('_so ORDER BY period_start ASC');
+  });
+
+  test('Query aggregate clauses fold rows with a recursive CTE', () => {
+    const sql = sqlFor({
+      type: 'Greater',
+      operand: [
+        {
+          type: 'Query',
+          source: [{ alias: 'E', expression: encounters }],
+          aggregate: {
+            identifier: 'Total',
+            starting: int(0),
+            expression: {
+              type: 'Add',
+              resultTypeName: '{urn:hl7-org:elm-types:r1}Decimal',
+              operand: [{ type: 'QueryLetRef', name: 'Total' }, { type: 'Property', path: 'length', scope: 'E' }],
+            },
+          },
+        },
+        int(10),
+      ],
+    });
+    expect(sql).toContain('(WITH RECURSIVE _src AS (');
+    expect(sql).toContain('SELECT row_number() OVER (ORDER BY _q.id) AS _n, _q.* FROM (SELECT *');
+    expect(sql).toContain('SELECT 0::bigint, (0)::numeric');
+    expect(sql).toContain('SELECT E._n, ((_acc.acc + E.length))::numeric FROM _acc JOIN _src AS E ON E._n = _acc._n + 1');
+    expect(sql).toContain('SELECT acc FROM _acc ORDER BY _n DESC LIMIT 1)');
+  });
+
+  test('Query aggregate clauses number the rows in the query sort order', () => {
+    const sql = sqlFor({
+      type: 'Greater',
+      operand: [
+        {
+          type: 'Query',
+          source: [{ alias: 'E', expression: encounters }],
+          sort: { by: [{ type: 'ByColumn', path: 'period_start', direction: 'desc' }] },
+          aggregate: {
+            identifier: 'Total',
+            starting: int(0),
+            expression: {
+              type: 'Add',
+              resultTypeName: '{urn:hl7-org:elm-types:r1}Decimal',
+              operand: [{ type: 'QueryLetRef', name: 'Total' }, { type: 'Property', path: 'length', scope: 'E' }],
+            },
+          },
+        },
+        int(10),
+      ],
+    });
+    expect(sql).toContain('SELECT row_number() OVER (ORDER BY period_start DESC) AS _n, _q.*');
+  });
+
+  test('Median, Mode and StdDev render ordered-set and statistical aggregates', () => {
+    const values = list(int(1), int(2), int(10));
+    const aggregate = (type: string) => sqlFor({ type: 'Greater', operand: [{ type, source: values }, int(0)] });
+    expect(aggregate('Median')).toContain('PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY _agg.v) FROM (VALUES (1), (2), (10)) _agg(v)');
+    expect(aggregate('Mode')).toContain('MODE() WITHIN GROUP (ORDER BY _agg.v)');
+    expect(aggregate('StdDev')).toContain('STDDEV_SAMP(_agg.v)');
+    expect(aggregate('PopulationVariance')).toContain('VAR_POP(_agg.v)');
+    expect(aggregate('Sum')).toContain('(SELECT SUM(_agg.v) FROM (VALUES');
+  });
+
+  test('Message passes its source through', () => {
+    const sql = sqlFor({
+      type: 'Message',
+      source: { type: 'Equal', operand: [int(1), int(1)] },
+      condition: { type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}Boolean', value: 'false' },
+      code: str('W1'),
+      severity: str('Warning'),
+      message: str('check'),
+    });
+    expect(sql).toContain('WHERE (1 = 1)');
+    expect(sql).not.toContain('W1');
+  });
+
+  test('Message with Error severity is a warning and nulls the value when raised', () => {
+    const { sql, warnings } = transpile({
+      type: 'Message',
+      source: { type: 'Equal', operand: [int(1), int(1)] },
+      condition: { type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}Boolean', value: 'true' },
+      code: str('E1'),
+      severity: str('Error'),
+      message: str('bad input'),
+    });
+    expect(warnings.map(w => w.message)).toEqual(['Error messages cannot be raised in SQL: bad input']);
+    expect(sql).toContain('WHERE (CASE WHEN COALESCE(TRUE, FALSE) THEN NULL ELSE 1 = 1 END)');
+  });
+
+  test('Coalesce over a list takes its first non-null element', () => {
+    const fromList = sqlFor({
+      type: 'Equal',
+      operand: [{ type: 'Coalesce', operand: [list({ type: 'Null' }, int(2))] }, int(2)],
+    });
+    expect(fromList).toContain('(SELECT _co.v FROM (VALUES (NULL), (2)) _co(v) WHERE _co.v IS NOT NULL LIMIT 1)');
+
+    const args = sqlFor({
+      type: 'Equal',
+      operand: [{ type: 'Coalesce', operand: [{ type: 'Null' }, int(2)] }, int(2)],
+    });
+    expect(args).toContain('COALESCE(NULL, 2) = 2');
+  });
+
+  test('Matches anchors the pattern; Split and Combine use arrays and string_agg', () => {
+    const matches = sqlFor({
+      type: 'Matches',
+      operand: [{ type: 'Property', path: 'gender', scope: 'Patient' }, str('fem.*')],
+    });
+    expect(matches).toContain("(Patient.gender ~ ('^(?:' || 'fem.*' || ')$'))");
+
+    const split = { type: 'Split', stringToSplit: str('a,b'), separator: str(',') };
+    expect(sqlFor({ type: 'Exists', operand: split })).toContain("SELECT unnest(string_to_array('a,b', ',')) AS v");
+
+    const combined = sqlFor({
+      type: 'Equal',
+      operand: [{ type: 'Combine', source: split, separator: str('-') }, str('a-b')],
+    });
+    expect(combined).toContain("(SELECT string_agg(_cb.v, '-') FROM ((SELECT unnest(string_to_array('a,b', ',')) AS v)) _cb(v))");
+  });
+});
+
+describe('direct-reference codes', () => {
+  const wrap = (expression: unknown): ElmLibraryWrapper => ({
+    library: {
+      identifier: { id: 'CodesTest', version: '0.0.1' },
+      schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+      codeSystems: { def: [{ name: 'LOINC', id: 'http://loinc.org' }] },
+      valueSets: { def: [{ name: 'HbA1c Tests', id: 'http://example.org/ValueSet/hba1c' }] },
+      codes: {
+        def: [
+          { name: 'HbA1c', id: '4548-4', codeSystem: { name: 'LOINC' } },
+          { name: 'HbA1c IFCC', id: '59261-8', codeSystem: { name: 'LOINC' } },
+        ],
+      },
+      concepts: {
+        def: [{ name: 'Any HbA1c', code: [{ name: 'HbA1c' }, { name: 'HbA1c IFCC' }] }],
+      },
+      statements: {
+        def: [{ name: 'Initial Population', context: 'Patient', expression }],
+      },
+    },
+  } as unknown as ElmLibraryWrapper);
+
+  const transpile = (expression: unknown, dialect = POSTGRESQL_DIALECT) =>
+    new ElmToSqlTranspiler({
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+      dialect,
+    }).transpile(wrap(expression));
+
+  const observations = (codes: unknown) => ({
+    type: 'Exists',
+    operand: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Observation', codeProperty: 'code', codes },
+  });
+
+  test('a CodeRef retrieve matches system and code on any coding', () => {
+    const { sql, warnings } = transpile(observations({ type: 'ToList', operand: { type: 'CodeRef', name: 'HbA1c' } }));
+    expect(warnings).toEqual([]);
+    expect(sql).toContain(
+      "EXISTS (SELECT 1 FROM jsonb_to_recordset(code_coding) AS _cd(system TEXT, code TEXT) " +
+        "WHERE (_cd.system = 'http://loinc.org' AND _cd.code = '4548-4'))",
+    );
+  });
+
+  test('a ConceptRef retrieve matches every code of the concept', () => {
+    const { sql } = transpile(observations({ type: 'ConceptRef', name: 'Any HbA1c' }));
+    expect(sql).toContain(
+      "(_cd.system = 'http://loinc.org' AND _cd.code = '4548-4') OR " +
+        "(_cd.system = 'http://loinc.org' AND _cd.code = '59261-8')",
+    );
+  });
+
+  test('a value-set retrieve looks up every coding in the expansion', () => {
+    const { sql } = transpile(observations({ type: 'ValueSetRef', name: 'HbA1c Tests' }));
+    expect(sql).toContain('jsonb_to_recordset(code_coding) AS _cd(system TEXT, code TEXT)');
+    expect(sql).toContain(
+      "WHERE EXISTS (SELECT 1 FROM value_set_expansion _vs WHERE _vs.value_set_id = 'http://example.org/ValueSet/hba1c' " +
+        'AND _vs.system = _cd.system AND _vs.code = _cd.code)',
+    );
+  });
+
+  test('an unresolved value set matches nothing and warns', () => {
+    const { sql, warnings } = transpile({
+      type: 'Exists',
+      operand: {
+        type: 'Query',
+        source: [{ alias: 'O', expression: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Observation' } }],
+        where: {
+          type: 'InValueSet',
+          code: { type: 'Property', path: 'code', scope: 'O' },
+          valueset: { type: 'ValueSetRef', name: 'Missing' },
+        },
+      },
+    });
+    expect(sql).toContain('WHERE FALSE /* value set: Missing */');
+    expect(sql).not.toContain('TRUE');
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'unresolved', message: 'Unresolved ValueSetRef: Missing' }),
+    ]);
+  });
+
+  test('coded properties read the coding columns of their own view', () => {
+    const meds = (path: string) =>
+      transpile({
+        type: 'Exists',
+        operand: {
+          type: 'Query',
+          source: [{ alias: 'M', expression: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}MedicationRequest' } }],
+          where: {
+            type: 'InValueSet',
+            code: { type: 'Property', path, scope: 'M' },
+            valueset: { type: 'ValueSetRef', name: 'HbA1c Tests' },
+          },
+        },
+      });
+    const medication = meds('medication');
+    expect(medication.warnings).toEqual([]);
+    expect(medication.sql).toContain('jsonb_to_recordset(M.medication_coding)');
+
+    const category = meds('category');
+    expect(category.sql).not.toContain('category_coding');
+    expect(category.warnings).toEqual([
+      expect.objectContaining({
+        code: 'unsupported',
+        message: 'MedicationRequest has no coding column for category; comparing its value as a code',
+      }),
+    ]);
+  });
+
+  test('~ against a CodeRef compares the property codings', () => {
+    const { sql, warnings } = transpile({
+      type: 'Exists',
+      operand: {
+        type: 'Query',
+        source: [{ alias: 'O', expression: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Observation' } }],
+        where: {
+          type: 'Equivalent',
+          operand: [
+            {
+              type: 'FunctionRef',
+              name: 'ToConcept',
+              libraryName: 'FHIRHelpers',
+              operand: [{ type: 'Property', path: 'code', scope: 'O' }],
+            },
+            { type: 'ToConcept', operand: { type: 'CodeRef', name: 'HbA1c IFCC' } },
+          ],
+        },
+      },
+    });
+    expect(warnings).toEqual([]);
+    expect(sql).toContain(
+      "EXISTS (SELECT 1 FROM jsonb_to_recordset(O.code_coding) AS _cd(system TEXT, code TEXT) " +
+        "WHERE (_cd.system = 'http://loinc.org' AND _cd.code = '59261-8'))",
+    );
+  });
+
+  test('DuckDB unnests the coding array with from_json', () => {
+    const { sql } = transpile(observations({ type: 'CodeRef', name: 'HbA1c' }), DUCKDB_DIALECT);
+    expect(sql).toContain(
+      `(SELECT unnest(from_json(code_coding, '[{"system":"VARCHAR","code":"VARCHAR"}]'), recursive := true)) AS _cd`,
+    );
+  });
+});
+
+describe('included libraries', () => {
+  const int = (value: number) => ({
+    type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}Integer', value: String(value),
+  });
+  const common = {
+    library: {
+      identifier: { id: 'CommonLib', version: '1.0.0' },
+      schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+      valueSets: { def: [{ name: 'Hospice Care', id: 'urn:oid:2.16.840.1.113883.3.526.3.1584' }] },
+      statements: {
+        def: [
+          {
+            name: 'Hospice Encounters',
+            context: 'Patient',
+            expression: {
+              type: 'Retrieve',
+              dataType: '{http://hl7.org/fhir}Encounter',
+              codeProperty: 'type',
+              codes: { type: 'ValueSetRef', name: 'Hospice Care' },
+            },
+          },
+          {
+            name: 'Has Hospice',
+            context: 'Patient',
+            expression: { type: 'Exists', operand: { type: 'ExpressionRef', name: 'Hospice Encounters' } },
+          },
+          {
+            name: 'Twice',
+            type: 'FunctionDef',
+            context: 'Patient',
+            operand: [{ name: 'x' }],
+            expression: { type: 'Multiply', operand: [{ type: 'OperandRef', name: 'x' }, int(2)] },
+          },
+        ],
+      },
+    },
+  } as unknown as ElmLibraryWrapper;
+
+  const main = {
+    library: {
+      identifier: { id: 'IncludeTest', version: '0.0.1' },
+      schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+      includes: {
+        def: [
+          { localIdentifier: 'FHIRHelpers', path: 'FHIRHelpers', version: '4.0.1' },
+          { localIdentifier: 'Common', path: 'CommonLib', version: '1.0.0' },
+        ],
+      },
+      statements: {
+        def: [
+          {
+            name: 'Initial Population',
+            context: 'Patient',
+            expression: {
+              type: 'And',
+              operand: [
+                { type: 'Exists', operand: { type: 'ExpressionRef', libraryName: 'Common', name: 'Hospice Encounters' } },
+                {
+                  type: 'Greater',
+                  operand: [
+                    { type: 'FunctionRef', libraryName: 'Common', name: 'Twice', operand: [int(2)] },
+                    {
+                      type: 'FunctionRef',
+                      libraryName: 'FHIRHelpers',
+                      name: 'ToInteger',
+                      operand: [{ type: 'Property', path: 'multiple_birth_integer', scope: 'Patient' }],
+                    },
+                  ],
+                },
+              ],
+            },
+          },
+          {
+            name: 'Denominator',
+            context: 'Patient',
+            expression: { type: 'ExpressionRef', libraryName: 'Common', name: 'Has Hospice' },
+          },
+        ],
+      },
+    },
+  } as unknown as ElmLibraryWrapper;
+
+  const transpile = (resolve?: (path: string) => ElmLibraryWrapper | null) =>
+    new ElmToSqlTranspiler({
+      ...(resolve ? { libraryResolver: include => resolve(include.path) } : {}),
+    }).transpile(main);
+
+  test('included defines become prefixed CTEs ahead of the CTE that first uses them', () => {
+    const { sql, warnings } = transpile(path => (path === 'CommonLib' ? common : null));
+    expect(warnings).toEqual([]);
+    const order = [
+      'CommonLib__Hospice_Encounters AS (',
+      'Initial_Population AS (',
+      'CommonLib__Has_Hospice AS (',
+      'Denominator AS (',
+    ].map(cte => sql.indexOf(cte));
+    expect(order[0]).toBeGreaterThan(-1);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+    expect(sql).toContain('FROM CommonLib__Hospice_Encounters _e WHERE _e.subject_id = Patient.id');
+    expect(sql).toContain("value_set_id = 'urn:oid:2.16.840.1.113883.3.526.3.1584'");
+    expect(sql.match(/CommonLib__Hospice_Encounters AS \(/g)).toHaveLength(1);
+  });
+
+  test('included functions are inlined; built-in conversions are reported as native', () => {
+    const { sql, includedLibraries, includedValueSets } = transpile(path => (path === 'CommonLib' ? common : null));
+    expect(sql).toContain('(((2) * 2)) > (Patient.multiple_birth_integer)::integer');
+    expect(includedLibraries).toEqual([
+      {
+        library: 'CommonLib',
+        version: '1.0.0',
+        resolved: true,
+        defines: ['Hospice Encounters', 'Has Hospice'],
+        functions: ['Twice'],
+        nativeFunctions: [],
+      },
+      {
+        library: 'FHIRHelpers',
+        version: '4.0.1',
+        resolved: false,
+        defines: [],
+        functions: [],
+        nativeFunctions: ['ToInteger'],
+      },
+    ]);
+    expect(includedValueSets).toEqual([
+      { name: 'Hospice Care', url: 'urn:oid:2.16.840.1.113883.3.526.3.1584' },
+    ]);
+  });
+
+  test('each included library is resolved once', () => {
+    const resolve = vi.fn((path: string) => (path === 'CommonLib' ? common : null));
+    transpile(resolve);
+    expect(resolve.mock.calls.map(([path]) => path).sort()).toEqual(['CommonLib', 'FHIRHelpers']);
+  });
+
+  test('references into an unresolved library are warnings', () => {
+    const { warnings, includedLibraries } = transpile();
+    const messages = warnings.map(w => w.message);
+    expect(messages).toContain('Cross-library ExpressionRef "Common.Hospice Encounters" is unresolved — treating as local');
+    expect(messages).toContain('Unsupported FunctionRef: Common.Twice');
+    expect(messages.filter(m => m.includes('Hospice Encounters'))).toHaveLength(1);
+    expect(includedLibraries.find(l => l.library === 'CommonLib')?.resolved).toBe(false);
+  });
+});
+
+// ─── Diagnostics and strict mode ─────────────────────────────────────────────
+
+describe('diagnostics', () => {
+  const library = (def: unknown[]) =>
+    ({
+      library: {
+        identifier: { id: 'DiagnosticTest', version: '0.0.1' },
+        schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+        statements: { def },
+      },
+    }) as unknown as ElmLibraryWrapper;
+
+  const initialPopulation = (expression: unknown) => ({
+    name: 'Initial Population',
+    context: 'Patient',
+    localId: '10',
+    locator: '5:1-7:20',
+    expression,
+  });
+
+  const unsupported = {
+    type: 'Exists',
+    localId: '11',
+    locator: '6:3-6:40',
+    operand: { type: 'Descendents', localId: '12', locator: '6:10-6:40', source: { type: 'Null' } },
+  };
+
+  test('warnings carry the define and the innermost located ELM node', () => {
+    const { warnings } = new ElmToSqlTranspiler().transpile(library([initialPopulation(unsupported)]));
+    expect(warnings).toEqual([
+      {
+        message: 'Unsupported ELM expression type: Descendents',
+        code: 'unsupported',
+        define: 'Initial Population',
+        localId: '12',
+        locator: '6:10-6:40',
+      },
+    ]);
+  });
+
+  test('nodes without a locator inherit the nearest enclosing one', () => {
+    const exists = { type: 'Exists', localId: '11', locator: '6:3-6:40', operand: { type: 'Descendents' } };
+    const { warnings } = new ElmToSqlTranspiler().transpile(library([initialPopulation(exists)]));
+    expect(warnings[0]).toMatchObject({ localId: '11', locator: '6:3-6:40' });
+  });
+
+  test('strict mode throws on an unsupported node with the diagnostic as cause', () => {
+    const t = new ElmToSqlTranspiler({ strict: true });
+    let error: unknown;
+    try {
+      t.transpile(library([initialPopulation(unsupported)]));
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe(
+      'Unsupported ELM expression type: Descendents (define "Initial Population" at 6:10-6:40)',
+    );
+    expect((error as Error).cause).toMatchObject({ code: 'unsupported', localId: '12' });
+  });
+
+  test('strict mode throws on unresolved parameters', () => {
+    const parameter = { type: 'ParameterRef', name: 'Site', localId: '20', locator: '8:5-8:10' };
+    const lib = library([initialPopulation({ type: 'Equal', operand: [parameter, { type: 'Null' }] })]);
+    expect(new ElmToSqlTranspiler().transpile(lib).warnings[0]).toMatchObject({
+      code: 'unresolved',
+      locator: '8:5-8:10',
+    });
+    expect(() => new ElmToSqlTranspiler({ strict: true }).transpile(lib)).toThrow(/Unresolved ParameterRef: Site/);
+  });
+
+  test('strict mode throws on a value set of an unresolved library', () => {
+    const retrieve = {
+      type: 'Retrieve',
+      dataType: '{http://hl7.org/fhir}Condition',
+      codeProperty: 'code',
+      codes: { type: 'ValueSetRef', libraryName: 'Common', name: 'Diabetes' },
+    };
+    const lib = library([initialPopulation({ type: 'Exists', operand: retrieve })]);
+    (lib.library as { includes?: unknown }).includes = {
+      def: [{ localIdentifier: 'Common', path: 'CommonLib', version: '1.0.0' }],
+    };
+    const { sql, warnings } = new ElmToSqlTranspiler().transpile(lib);
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        code: 'unresolved',
+        message: 'Unresolved ValueSetRef: Common.Diabetes',
+        define: 'Initial Population',
+      }),
+    ]);
+    expect(sql).toContain('WHERE FALSE /* value set: Diabetes */');
+    expect(() => new ElmToSqlTranspiler({ strict: true }).transpile(lib)).toThrow(/Unresolved ValueSetRef: Common.Diabetes/);
+  });
+
+  test('strict mode still reports Measure configuration problems as warnings', () => {
+    const always = { type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}Boolean', value: 'true' };
+    const { warnings } = new ElmToSqlTranspiler({
+      strict: true,
+      stratifiers: [{ id: 'age', expressions: ['Age Band'] }],
+    }).transpile(library([initialPopulation(always)]));
+    expect(warnings.length).toBeGreaterThan(0);
+    expect(warnings.every(w => w.code === 'measure')).toBe(true);
+  });
+
+  test('warnings raised inside an included library name that library', () => {
+    const common = library([{ name: 'Odd', context: 'Patient', locator: '3:1-3:20', expression: unsupported }]);
+    const main = library([initialPopulation({ type: 'ExpressionRef', libraryName: 'Common', name: 'Odd' })]);
+    (main.library as { includes?: unknown }).includes = {
+      def: [{ localIdentifier: 'Common', path: 'CommonLib', version: '1.0.0' }],
+    };
+    (common.library as { identifier: unknown }).identifier = { id: 'CommonLib', version: '1.0.0' };
+    const { warnings } = new ElmToSqlTranspiler({ libraryResolver: () => common }).transpile(main);
+    expect(warnings).toEqual([
+      expect.objectContaining({ define: 'Odd', library: 'CommonLib', locator: '6:10-6:40' }),
+    ]);
+  });
+});
+
+// ─── SQL dialects ────────────────────────────────────────────────────────────
+
+describe('SQL dialects', () => {
+  const str = (value: string) => ({ type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}String', value });
+  const interval = (low: string, high: string) => ({ type: 'Interval', low: str(low), high: str(high) });
+  const list = (...element: unknown[]) => ({ type: 'List', element });
+
+  const duckdb = (expression: unknown) =>
+    new ElmToSqlTranspiler({
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+      dialect: DUCKDB_DIALECT,
+    }).transpile({
+      library: {
+        identifier: { id: 'DialectTest', version: '0.0.1' },
+        schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+        statements: { def: [{ name: 'Initial Population', context: 'Patient', expression }] },
+      },
+    } as unknown as ElmLibraryWrapper);
+
+  test('PostgreSQL is the default dialect', () => {
+    const fixture = loadFixture('cms125-breast-cancer-screening.elm.json');
+    const defaultSql = new ElmToSqlTranspiler().transpile(fixture).sql;
+    expect(new ElmToSqlTranspiler({ dialect: POSTGRESQL_DIALECT }).transpile(fixture).sql).toBe(defaultSql);
+    expect(sqlDialect('duckdb')).toBe(DUCKDB_DIALECT);
+  });
+
+  test('DuckDB holds CMS125 intervals as structs instead of ranges', () => {
+    const { sql, warnings } = new ElmToSqlTranspiler({
+      measurementPeriodStart: '2024-01-01',
+      measurementPeriodEnd: '2024-12-31',
+      dialect: DUCKDB_DIALECT,
+    }).transpile(loadFixture('cms125-breast-cancer-screening.elm.json'));
+    expect(warnings).toEqual([]);
+    expect(sql).toContain(
+      "struct_pack(low := ('2024-01-01')::timestamptz, high := ('2024-12-31')::timestamptz, low_closed := true, high_closed := false)",
+    );
+    expect(sql).not.toMatch(/tstzrange|@>|<@|isempty|lower\(|upper\(/);
+  });
+
+  test('DuckDB compares interval bounds, reading NULL as unbounded', () => {
+    const operand = [interval('2024-01-01', '2024-01-02'), interval('2024-01-02', '2024-01-03')];
+    const { sql, warnings } = duckdb({ type: 'Overlaps', operand });
+    expect(warnings).toEqual([]);
+    expect(sql).toContain("COALESCE(struct_extract(struct_pack(low := ('2024-01-01')::timestamptz");
+    expect(sql).toContain("'infinity'::timestamptz");
+    expect(sql).not.toContain('&&');
+    expect(duckdb({ type: 'MeetsBefore', operand }).sql).not.toMatch(/-\|-|<</);
+  });
+
+  test('DuckDB Expand names the generate_series column', () => {
+    const { sql } = duckdb({
+      type: 'Exists',
+      operand: {
+        type: 'Expand',
+        operand: [list(interval('2024-01-01', '2024-01-03')), { type: 'Quantity', value: 1, unit: 'day' }],
+      },
+    });
+    expect(sql).toContain("generate_series(struct_extract(_x.v, 'low'), struct_extract(_x.v, 'high'), INTERVAL '1 days') _series(_g)");
+    expect(sql).toContain("SELECT struct_pack(low := (_g)::timestamptz, high := (_g + INTERVAL '1 days')::timestamptz");
+  });
+
+  test('DuckDB reports Collapse as unsupported', () => {
+    const { sql, warnings } = duckdb({
+      type: 'Exists',
+      operand: { type: 'Collapse', operand: [list(interval('2024-01-01', '2024-01-05')), { type: 'Null' }] },
+    });
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'unsupported', message: 'Collapse is not supported in DuckDB' }),
+    ]);
+    expect(sql).not.toContain('range_agg');
+  });
+});
+
+// ─── FHIRPath evaluator ──────────────────────────────────────────────────────
+
+describe('evaluateFhirPath', () => {
+  const patient = {
+    resourceType: 'Patient',
+    id: 'p1',
+    active: true,
+    deceasedDateTime: '2020-02-01',
+    name: [
+      { use: 'usual', family: 'Smith', given: ['Bob'] },
+      { use: 'official', family: 'Smith', given: ['Robert', 'James'] },
+    ],
+    managingOrganization: { reference: 'Organization/org-1/_history/2' },
+  };
+
+  test('navigates members and flattens collections', () => {
+    expect(evaluateFhirPath('name.given', patient)).toEqual(['Bob', 'Robert', 'James']);
+    expect(evaluateFhirPath('Patient.name.family', patient)).toEqual(['Smith', 'Smith']);
+  });
+
+  test('where, first, and union with fallback', () => {
+    expect(evaluateFhirPath("name.where(use = 'official').given.first()", patient)).toEqual(['Robert']);
+    expect(evaluateFhirPath("(name.where(use = 'nickname') | name).first().given.first()", patient)).toEqual(['Bob']);
+  });
+
+  test('resolves choice types through ofType', () => {
+    expect(evaluateFhirPath('deceased.ofType(dateTime)', patient)).toEqual(['2020-02-01']);
+    expect(evaluateFhirPath('deceased.ofType(boolean)', patient)).toEqual([]);
+  });
+
+  test('getReferenceKey strips type and version', () => {
+    expect(evaluateFhirPath('managingOrganization.getReferenceKey()', patient)).toEqual(['org-1']);
+    expect(evaluateFhirPath('managingOrganization.getReferenceKey(Patient)', patient)).toEqual([]);
+    expect(evaluateFhirPath('getResourceKey()', patient)).toEqual(['p1']);
+  });
+
+  test('boolean logic, comparison, and constants', () => {
+    expect(evaluateFhirPath('active and name.count() > 1', patient)).toEqual([true]);
+    expect(evaluateFhirPath('name.exists(use = %u)', patient, { constants: { u: 'temp' } })).toEqual([false]);
+    expect(evaluateFhirPath("iif(active, 'yes', 'no')", patient)).toEqual(['yes']);
+  });
+
+  test('rejects unsupported functions', () => {
+    expect(() => evaluateFhirPath('name.aggregate($this)', patient)).toThrow(/Unsupported FHIRPath function/);
+  });
+});
+
+// ─── ViewDefinition runner ───────────────────────────────────────────────────
+
+describe('runViewDefinition', () => {
+  const patients = [
+    {
+      resourceType: 'Patient',
+      id: 'p1',
+      telecom: [
+        { system: 'phone', value: '555-0001' },
+        { system: 'email', value: 'a@example.org' },
+      ],
+      contact: [{ name: { family: 'Doe' } }],
+    },
+    { resourceType: 'Patient', id: 'p2', active: false },
+    { resourceType: 'Observation', id: 'o1' },
+  ];
+
+  const view = (select: ViewDefinition['select'], extra: Partial<ViewDefinition> = {}): ViewDefinition => ({
+    resourceType: 'ViewDefinition',
+    name: 'test_view',
+    status: 'active',
+    resource: 'Patient',
+    select,
+    ...extra,
+  });
+
+  test('emits one row per resource of the view type', () => {
+    const rows = runViewDefinition(view([{ column: [{ name: 'id', path: 'getResourceKey()' }] }]), patients);
+    expect(rows).toEqual([{ id: 'p1' }, { id: 'p2' }]);
+  });
+
+  test('forEach unnests and drops resources with no elements', () => {
+    const rows = runViewDefinition(
+      view([
+        { column: [{ name: 'id', path: 'id' }] },
+        { forEach: 'telecom', column: [{ name: 'system', path: 'system' }, { name: 'value', path: 'value' }] },
+      ]),
+      patients,
+    );
+    expect(rows).toEqual([
+      { id: 'p1', system: 'phone', value: '555-0001' },
+      { id: 'p1', system: 'email', value: 'a@example.org' },
+    ]);
+  });
+
+  test('forEachOrNull keeps resources with no elements as null columns', () => {
+    const rows = runViewDefinition(
+      view([
+        { column: [{ name: 'id', path: 'id' }] },
+        { forEachOrNull: 'contact', column: [{ name: 'contact_family', path: 'name.family' }] },
+      ]),
+      patients,
+    );
+    expect(rows).toEqual([
+      { id: 'p1', contact_family: 'Doe' },
+      { id: 'p2', contact_family: null },
+    ]);
+  });
+
+  test('unionAll concatenates branch rows', () => {
+    const rows = runViewDefinition(
+      view([
+        {
+          column: [{ name: 'id', path: 'id' }],
+          unionAll: [
+            { forEach: 'telecom', column: [{ name: 'text', path: 'value' }] },
+            { forEach: 'contact', column: [{ name: 'text', path: 'name.family' }] },
+          ],
+        },
+      ]),
+      patients,
+    );
+    expect(rows).toEqual([
+      { id: 'p1', text: '555-0001' },
+      { id: 'p1', text: 'a@example.org' },
+      { id: 'p1', text: 'Doe' },
+    ]);
+  });
+
+  test('where filters resources and constants are substituted', () => {
+    const rows = runViewDefinition(
+      view([{ column: [{ name: 'id', path: 'id' }] }], {
+        constant: [{ name: 'sys', valueCode: 'email' }],
+        where: [{ path: 'telecom.where(system = %sys).exists()' }],
+      }),
+      patients,
+    );
+    expect(rows).toEqual([{ id: 'p1' }]);
+  });
+
+  test('collection columns return arrays', () => {
+    const rows = runViewDefinition(
+      view([{ column: [{ name: 'values', path: 'telecom.value', collection: true }] }]),
+      patients.slice(0, 1),
+    );
+    expect(rows[0]['values']).toEqual(['555-0001', 'a@example.org']);
+  });
+
+  test('skips and reports resources the view cannot evaluate', () => {
+    const resources = [
+      { resourceType: 'Patient', id: 'one', telecom: [{ system: 'phone' }] },
+      { resourceType: 'Patient', id: 'two', telecom: [{ system: 'phone' }, { system: 'email' }] },
+      { resourceType: 'Patient', id: 'three', telecom: [{ system: 'phone' }] },
+    ];
+    const errors: ViewResourceError[] = [];
+    const rows = runViewDefinition(
+      view([{ column: [{ name: 'id', path: 'id' }] }], { where: [{ path: 'telecom.system' }] }),
+      resources,
+      error => errors.push(error),
+    );
+    expect(rows).toEqual([{ id: 'one' }, { id: 'three' }]);
+    expect(errors).toEqual([{ resource: resources[1], message: expect.stringMatching(/collection/) }]);
+
+    const unsupported = runViewDefinition(
+      view([{ column: [{ name: 'id', path: 'id' }, { name: 'x', path: "iif(telecom.exists(), telecom.noSuchFunction(), 'none')" }] }]),
+      [...resources, { resourceType: 'Patient', id: 'four' }],
+      error => errors.push(error),
+    );
+    expect(unsupported).toEqual([{ id: 'four', x: 'none' }]);
+    expect(errors.at(-1)?.message).toMatch(/Unsupported FHIRPath function: noSuchFunction/);
+  });
+
+  test('rejects duplicate column names', () => {
+    expect(() =>
+      runViewDefinition(
+        view([{ column: [{ name: 'id', path: 'id' }] }, { column: [{ name: 'id', path: 'id' }] }]),
+        patients,
+      ),
+    ).toThrow(/duplicate column/);
+  });
+
+  test('standard observation_view reads choice types and references', () => {
+    const vd = STANDARD_VIEW_DEFINITIONS.find(v => v.name === 'observation_view')!;
+    const [row] = runViewDefinition(vd, [
+      {
+        resourceType: 'Observation',
+        id: 'o1',
+        status: 'final',
+        subject: { reference: 'Patient/p1' },
+        code: { coding: [{ system: 'http://loinc.org', code: '4548-4' }] },
+        valueQuantity: { value: 7.2, unit: '%' },
+        effectivePeriod: { start: '2024-01-01', end: '2024-01-02' },
+      },
+    ]);
+    expect(row).toMatchObject({
+      subject_id: 'p1',
+      code: '4548-4',
+      value_quantity: 7.2,
+      value_unit: '%',
+      effective_datetime: null,
+      effective_start: '2024-01-01',
+      effective_end: '2024-01-02',
+    });
+  });
+});
+
+// ─── ViewDefinition SQL generation ───────────────────────────────────────────
+
+describe('viewDefinitionToSql / viewDefinitionToTableDdl', () => {
+  const patientView = STANDARD_VIEW_DEFINITIONS.find(v => v.name === 'patient_view')!;
+
+  test('compiles FHIRPath to SQL/JSON path queries over fhir_<resource>', () => {
+    const { sql } = viewDefinitionToSql(STANDARD_VIEW_DEFINITIONS.find(v => v.name === 'observation_view')!);
+    expect(sql).toContain('FROM fhir_observation AS r');
+    expect(sql).toContain("jsonb_path_query_first(r.resource, '$.code.coding[0].code')");
+    expect(sql).toContain("jsonb_path_query_first(r.resource, '$.valueQuantity.value')");
+    expect(sql).toContain("regexp_replace((jsonb_path_query_first(r.resource, '$.subject.reference') #>> '{}'), '^.*/', '')");
+    expect(sql).not.toContain('fhir_extract');
+    expect(sql).not.toContain('unsupported');
+  });
+
+  test('unions coalesce in order and casts follow the column type', () => {
+    const { sql } = viewDefinitionToSql(patientView);
+    expect(sql).toContain(
+      `COALESCE(jsonb_path_query_first(r.resource, '$.name ? (@.use == "official")[0].family'), jsonb_path_query_first(r.resource, '$.name[0].family'))`,
+    );
+    expect(sql).toContain("((jsonb_path_query_first(r.resource, '$.birthDate') #>> '{}'))::DATE AS birthdate");
+  });
+
+  test('forEach, forEachOrNull and where compile to lateral joins and predicates', () => {
+    const { sql } = viewDefinitionToSql({
+      resourceType: 'ViewDefinition',
+      name: 'patient_telecom',
+      status: 'active',
+      resource: 'Patient',
+      where: [{ path: 'active = true' }],
+      select: [
+        { column: [{ name: 'id', path: 'id' }] },
+        { forEach: "telecom.where(system = 'phone')", column: [{ name: 'phone', path: 'value' }] },
+        { forEachOrNull: 'contact', column: [{ name: 'contact_family', path: 'name.family' }] },
+      ],
+    });
+    expect(sql).toContain(`CROSS JOIN LATERAL jsonb_path_query(r.resource, '$.telecom ? (@.system == "phone")[*]') AS fe1(value)`);
+    expect(sql).toContain("LEFT JOIN LATERAL jsonb_path_query(r.resource, '$.contact[*]') AS fe2(value) ON TRUE");
+    expect(sql).toContain("(jsonb_path_query_first(fe1.value, '$.value') #>> '{}') AS phone");
+    expect(sql).toContain("WHERE jsonb_path_exists(r.resource, '$ ? (@.active == true)')");
+  });
+
+  test('table DDL derives column types from the ViewDefinition', () => {
+    const ddl = viewDefinitionToTableDdl(patientView);
+    expect(ddl).toContain('CREATE TABLE IF NOT EXISTS patient_view (');
+    expect(ddl).toContain('id TEXT PRIMARY KEY');
+    expect(ddl).toContain('birthdate DATE');
+    expect(ddl).toContain('deceased_datetime TIMESTAMPTZ');
+    expect(ddl).toContain('active BOOLEAN');
+  });
+});
@@ -16,13 +16,34 @@
 
 // Core transpiler
 export { ElmToSqlTranspiler } from './transpiler/elm-to-sql';
-export type { TranspilerOptions, TranspileResult } from './transpiler/elm-to-sql';
+export type {
+  TranspilerOptions,
+  TranspileResult,
+  ResourceViewMapping,
+  StratifierDefinition,
+  SupplementalDataDefinition,
+  StratifiedQuery,
+  TranspiledCte,
+  MeasureScoring,
+  ObservationAggregateMethod,
+  MeasurePopulationDefinition,
+  MeasureGroupDefinition,
+  GroupQuery,
+  LibraryResolver,
+  IncludedLibraryUsage,
+  TranspileWarning,
+  TranspileWarningCode,
+} from './transpiler/elm-to-sql';
+export { POSTGRESQL_DIALECT, DUCKDB_DIALECT, SQL_DIALECTS, sqlDialect } from './transpiler/sql-dialect';
+export type { SqlDialect, SqlDialectName, IntervalBounds } from './transpiler/sql-dialect';
 
 // ELM types — re-exported for consumers building ELM inputs
 export type {
   ElmLibraryWrapper,
   ElmLibrary,
   ElmVersionedIdentifier,
+  ElmIncludeDef,
+  ElmElement,
   ElmExpressionDef,
   ElmExpression,
   ElmRetrieve,
@@ -30,6 +51,8 @@ export type {
   ElmBinaryOp,
   ElmUnaryOp,
   ElmFunctionRef,
+  ElmOperandDef,
+  ElmOperandRef,
   ElmExpressionRef,
   ElmLiteral,
   ElmProperty,
@@ -42,8 +65,24 @@ export type {
 export { stripFhirNamespace, toSqlIdentifier } from './types/elm';
 
 // MeasureReport generator
-export { generateMeasureReport, sqlRowToPopulationCounts } from './measure/measure-report';
-export type { PopulationCounts, MeasureReportOptions } from './measure/measure-report';
+export {
+  generateMeasureReport,
+  generateIndividualMeasureReports,
+  generateSubjectListMeasureReport,
+  sqlRowToPopulationCounts,
+  sqlRowsToStrata,
+  sqlRowToGroupCounts,
+  sqlRowsToSubjects,
+} from './measure/measure-report';
+export type {
+  PopulationCounts,
+  MeasureReportOptions,
+  StratumCounts,
+  StratifierCounts,
+  GroupCounts,
+  SubjectCounts,
+} from './measure/measure-report';
+export { measureGroups, measureStratifiers, measureSupplementalData } from './measure/measure-definition';
 export { MEASURE_POPULATION_NAMES, isStandardPopulationName } from '../measure-population.lib';
 export {
   inferMeasureUrlFromLibrary,
@@ -56,14 +95,29 @@ export type { MeasureReportServerMode } from './measure/measure-report-normalize
 export {
   STANDARD_VIEW_DEFINITIONS,
   viewDefinitionToSql,
+  viewDefinitionToTableDdl,
+  viewColumnSqlType,
   generateAllViewsSql,
 } from './views/view-definitions';
 export type {
   ViewDefinition,
   ViewDefinitionSelect,
   ViewDefinitionColumn,
+  ViewDefinitionConstant,
+  ViewDefinitionWhere,
   SqlViewDefinition,
 } from './views/view-definitions';
+export {
+  runViewDefinition,
+  viewDefinitionColumns,
+  viewDefinitionConstants,
+  viewSelectColumns,
+} from './views/view-runner';
+export type { ViewResourceError, ViewRow } from './views/view-runner';
+export { evaluateFhirPath, parseFhirPath, fhirPathTruthy } from './views/fhirpath';
+export type { FhirPathNode, FhirPathContext } from './views/fhirpath';
+export { fhirPathToSql, fhirPathToJsonPath, fhirPathToSqlPredicate } from './views/fhirpath-sql';
+export type { FhirPathSqlOptions } from './views/fhirpath-sql';
 
 // Value set utilities
 export { extractValueSets, extractUsedValueSets } from './valueset/value-set-extractor';
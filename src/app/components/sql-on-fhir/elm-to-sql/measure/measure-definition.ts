@@ -0,0 +1,155 @@
+/**
+ * FHIR Measure reader.
+ *
+ * Extracts the parts of a Measure resource the transpiler needs — groups with
+ * their scoring and populations, stratifiers, and supplemental data elements —
+ * as define and function names in the primary library.
+ *
+ * Spec: https://www.hl7.org/fhir/measure.html
+ */
+
+import type { Expression, Extension, Measure } from 'fhir/r4';
+import type {
+  MeasureGroupDefinition,
+  MeasurePopulationDefinition,
+  MeasureScoring,
+  ObservationAggregateMethod,
+  StratifierDefinition,
+  SupplementalDataDefinition,
+} from '../transpiler/elm-to-sql';
+
+const CQFM = 'http://hl7.org/fhir/us/cqfmeasures/StructureDefinition';
+const SCORING_EXTENSION = `${CQFM}/cqfm-scoring`;
+const POPULATION_BASIS_EXTENSION = `${CQFM}/cqfm-populationBasis`;
+const AGGREGATE_METHOD_EXTENSION = `${CQFM}/cqfm-aggregateMethod`;
+const CRITERIA_REFERENCE_EXTENSION = `${CQFM}/cqfm-criteriaReference`;
+
+const SCORINGS: readonly MeasureScoring[] = ['proportion', 'ratio', 'continuous-variable', 'cohort'];
+const AGGREGATE_METHODS: readonly ObservationAggregateMethod[] = [
+  'sum',
+  'average',
+  'median',
+  'minimum',
+  'maximum',
+  'count',
+];
+
+/**
+ * Measure groups with their scoring and populations. Group-level cqfm
+ * extensions (scoring, population basis) override the Measure-level values;
+ * populations whose criteria are not CQL define references are dropped.
+ */
+export function measureGroups(measure: Measure): MeasureGroupDefinition[] {
+  const measureScoring = asScoring(measure.scoring?.coding?.[0]?.code);
+  const measureBasis = extensionValue(measure.extension, POPULATION_BASIS_EXTENSION);
+  return (measure.group ?? []).flatMap((group, i) => {
+    const populations = (group.population ?? []).flatMap(pop => {
+      const code = pop.code?.coding?.[0]?.code;
+      const expression = defineNameOf(pop.criteria);
+      if (!code || !expression) {
+        return [];
+      }
+      const definition: MeasurePopulationDefinition = { code, expression };
+      if (pop.id) definition.id = pop.id;
+      if (code === 'measure-observation') {
+        const aggregate = extensionValue(pop.extension, AGGREGATE_METHOD_EXTENSION);
+        const reference = extensionValue(pop.extension, CRITERIA_REFERENCE_EXTENSION);
+        if (aggregate && (AGGREGATE_METHODS as readonly string[]).includes(aggregate)) {
+          definition.aggregateMethod = aggregate as ObservationAggregateMethod;
+        }
+        if (reference) definition.criteriaReference = reference;
+      }
+      return [definition];
+    });
+    if (populations.length === 0) {
+      return [];
+    }
+    const groupScoring = group.extension?.find(e => e.url === SCORING_EXTENSION)?.valueCodeableConcept;
+    const basis = extensionValue(group.extension, POPULATION_BASIS_EXTENSION) ?? measureBasis;
+    return [
+      {
+        id: group.id ?? `group-${i + 1}`,
+        scoring: asScoring(groupScoring?.coding?.[0]?.code) ?? measureScoring ?? 'proportion',
+        ...(basis ? { populationBasis: basis } : {}),
+        populations,
+      },
+    ];
+  });
+}
+
+/**
+ * Stratifiers across every Measure group. A stratifier with components yields
+ * one expression per component; criteria that are not CQL define references
+ * are skipped.
+ */
+export function measureStratifiers(measure: Measure): StratifierDefinition[] {
+  const result: StratifierDefinition[] = [];
+  let n = 0;
+  for (const [i, group] of (measure.group ?? []).entries()) {
+    for (const stratifier of group.stratifier ?? []) {
+      n++;
+      const criteria = stratifier.component?.length
+        ? stratifier.component.map(c => c.criteria)
+        : [stratifier.criteria];
+      const expressions = criteria.map(defineNameOf);
+      if (expressions.length === 0 || expressions.some(e => e === null)) {
+        continue;
+      }
+      const code = conceptText(stratifier.code);
+      result.push({
+        id: stratifier.id ?? `stratifier-${n}`,
+        groupId: group.id ?? `group-${i + 1}`,
+        expressions: expressions as string[],
+        ...(code ? { code } : {}),
+      });
+    }
+  }
+  return result;
+}
+
+/** Supplemental data elements whose criteria reference a CQL define. */
+export function measureSupplementalData(measure: Measure): SupplementalDataDefinition[] {
+  const result: SupplementalDataDefinition[] = [];
+  (measure.supplementalData ?? []).forEach((sde, i) => {
+    const expression = defineNameOf(sde.criteria);
+    if (!expression) {
+      return;
+    }
+    const code = conceptText(sde.code);
+    const usage = (sde.usage ?? []).flatMap(u => (u.coding ?? []).map(c => c.code)).filter((c): c is string => !!c);
+    result.push({
+      id: sde.id ?? `sde-${i + 1}`,
+      expression,
+      ...(code ? { code } : {}),
+      ...(usage.length ? { usage } : {}),
+    });
+  });
+  return result;
+}
+
+/** `"Initial Population"` → `Initial Population`; FHIRPath and other languages → null. */
+function defineNameOf(criteria: Expression | undefined): string | null {
+  if (!criteria?.expression) {
+    return null;
+  }
+  const language = criteria.language ?? 'text/cql-identifier';
+  if (!language.startsWith('text/cql')) {
+    return null;
+  }
+  const name = criteria.expression.trim().replace(/^"(.*)"$/, '$1');
+  return name || null;
+}
+
+function asScoring(code: string | undefined): MeasureScoring | undefined {
+  return SCORINGS.find(s => s === code);
+}
+
+/** valueCode / valueString of the first extension with `url`. */
+function extensionValue(extensions: Extension[] | undefined, url: string): string | undefined {
+  const ext = extensions?.find(e => e.url === url);
+  return ext?.valueCode ?? ext?.valueString;
+}
+
+function conceptText(code: { text?: string; coding?: { code?: string }[] } | undefined): string | undefined {
+  return code?.text ?? code?.coding?.[0]?.code;
+}
@@ -7,13 +7,65 @@
  * Spec: https://www.hl7.org/fhir/measurereport.html
  */
 
-import type { MeasureReport } from 'fhir/r4';
+import type { List, MeasureReport, Observation } from 'fhir/r4';
+import type {
+  GroupQuery,
+  MeasureScoring,
+  ObservationAggregateMethod,
+  StratifiedQuery,
+} from '../transpiler/elm-to-sql';
 
 export interface PopulationCounts {
   /** key: define name (e.g. "Initial Population"), value: patient count */
   [defineName: string]: number;
 }
 
+/** Population counts for one stratum; `values` align with the stratifier expressions. */
+export interface StratumCounts {
+  values: (string | null)[];
+  counts: PopulationCounts;
+}
+
+/** Strata produced by one stratifier or supplemental data query. */
+export interface StratifierCounts {
+  id: string;
+  /** Measure group the strata belong to. Default: the first group. */
+  groupId?: string;
+  expressions: string[];
+  code?: string;
+  /** Supplemental data usage codes (`measure-data-usage`). */
+  usage?: string[];
+  strata: StratumCounts[];
+}
+
+/** One Measure group's results, read from the main query row by `sqlRowToGroupCounts`. */
+export interface GroupCounts {
+  id: string;
+  scoring: MeasureScoring;
+  /** Counts keyed by measure-population code; ratio groups may repeat a code. */
+  populations: Array<{ id?: string; code: string; count: number }>;
+  /** Aggregated measure observations. */
+  observations: Array<{
+    id?: string;
+    /** Code of the population the observation was applied to. */
+    criteriaReference: string;
+    aggregateMethod: ObservationAggregateMethod;
+    value: number | null;
+    /** Number of observations aggregated. */
+    count: number;
+  }>;
+}
+
+/** One patient's results, read from a row of the per-patient query by `sqlRowsToSubjects`. */
+export interface SubjectCounts {
+  /** Patient id. */
+  subject: string;
+  /** Population counts (0 or 1 per population) when the SQL has no Measure groups. */
+  counts: PopulationCounts;
+  /** The patient's results per Measure group. */
+  groups: GroupCounts[];
+}
+
 export interface MeasureReportOptions {
   /** FHIR canonical URL of the Measure resource. Required. */
   measureUrl: string;
@@ -31,6 +83,15 @@ export interface MeasureReportOptions {
   date?: string;
   /** Optional: group identifier for the main population group. */
   groupId?: string;
+  /**
+   * Measure groups. When given, the report has one group per entry, scored by
+   * its scoring; `counts` and `groupId` are then ignored.
+   */
+  groups?: GroupCounts[];
+  /** Strata rendered into `group.stratifier`. */
+  stratifiers?: StratifierCounts[];
+  /** Supplemental data rendered as contained Observations referenced by extension. */
+  supplementalData?: StratifierCounts[];
 }
 
 const POPULATION_CODES: Record<string, { code: string; display: string }> = {
@@ -42,11 +103,20 @@ const POPULATION_CODES: Record<string, { code: string; display: string }> = {
   'Numerator Exclusion': { code: 'numerator-exclusion', display: 'Numerator Exclusion' },
   'Measure Population': { code: 'measure-population', display: 'Measure Population' },
   'Measure Population Exclusion': { code: 'measure-population-exclusion', display: 'Measure Population Exclusion' },
+  'Measure Observation': { code: 'measure-observation', display: 'Measure Observation' },
 };
 
 const MEASURE_POPULATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/measure-population';
 const SUMMARY_MEASURE_REPORT_PROFILE =
   'http://hl7.org/fhir/us/cqfmeasures/StructureDefinition/summary-measure-report-cqfm';
+const MEASURE_REPORT_PROFILES: Partial<Record<NonNullable<MeasureReportOptions['type']>, string>> = {
+  individual: 'http://hl7.org/fhir/us/cqfmeasures/StructureDefinition/indv-measurereport-cqfm',
+  'subject-list': 'http://hl7.org/fhir/us/cqfmeasures/StructureDefinition/subjectlist-measurereport-cqfm',
+};
+const SUPPLEMENTAL_DATA_EXTENSION =
+  'http://hl7.org/fhir/us/davinci-deqm/StructureDefinition/extension-supplementalData';
+const MEASURE_INFO_EXTENSION = 'http://hl7.org/fhir/StructureDefinition/cqf-measureInfo';
+const MEASURE_DATA_USAGE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/measure-data-usage';
 
 /**
  * Generate a FHIR R4 MeasureReport from SQL population counts.
@@ -58,36 +128,31 @@ export function generateMeasureReport(
   const date = options.date ?? new Date().toISOString();
   const type = options.type ?? 'summary';
 
-  const populations: NonNullable<MeasureReport['group']>[number]['population'] = [];
-  for (const [name, count] of Object.entries(counts)) {
-    const popCode = POPULATION_CODES[name];
-    if (!popCode) {
-      continue;
+  let groups: ReportGroup[];
+  if (options.groups?.length) {
+    groups = options.groups.map(g => measureGroupComponent(g));
+    for (const stratifier of options.stratifiers ?? []) {
+      const i = Math.max(0, options.groups.findIndex(g => g.id === stratifier.groupId));
+      (groups[i].stratifier ??= []).push(stratifierComponent(stratifier, options.groups[i].scoring));
     }
-
-    populations.push({
-      code: {
-        coding: [{ system: MEASURE_POPULATION_SYSTEM, code: popCode.code, display: popCode.display }],
-        text: name,
-      },
-      count: Math.trunc(count),
-    });
+  } else {
+    const populations = populationComponents(counts);
+    const measureScore = calculateMeasureScore(counts);
+    const group: ReportGroup = {
+      ...(options.groupId ? { id: options.groupId } : { id: 'group-1' }),
+      population: populations.length > 0 ? populations : undefined,
+      ...(measureScore !== null ? { measureScore: ratioQuantity(measureScore) } : {}),
+    };
+    if (options.stratifiers?.length) {
+      group.stratifier = options.stratifiers.map(s => stratifierComponent(s, 'proportion'));
+    }
+    groups = [group];
   }
 
-  const measureScore = calculateMeasureScore(counts);
-
-  const group: NonNullable<MeasureReport['group']>[number] = {
-    ...(options.groupId ? { id: options.groupId } : { id: 'group-1' }),
-    population: populations.length > 0 ? populations : undefined,
-    ...(measureScore !== null
-      ? { measureScore: { value: measureScore, unit: '{ratio}', system: 'http://unitsofmeasure.org', code: '{ratio}' } }
-      : {}),
-  };
-
   const report: MeasureReport = {
     resourceType: 'MeasureReport',
     meta: {
-      profile: [SUMMARY_MEASURE_REPORT_PROFILE],
+      profile: [MEASURE_REPORT_PROFILES[type] ?? SUMMARY_MEASURE_REPORT_PROFILE],
     },
     status: 'complete',
     type,
@@ -97,7 +162,7 @@ export function generateMeasureReport(
       start: options.periodStart,
       end: options.periodEnd,
     },
-    group: [group],
+    group: groups,
   };
 
   if (options.subject) {
@@ -106,22 +171,278 @@ export function generateMeasureReport(
   if (options.reporter) {
     report.reporter = options.reporter;
   }
+  if (options.supplementalData?.length) {
+    const observations = options.supplementalData.flatMap(sde =>
+      supplementalDataObservations(sde, options.measureUrl),
+    );
+    report.contained = observations;
+    report.extension = observations.map(o => ({
+      url: SUPPLEMENTAL_DATA_EXTENSION,
+      valueReference: { reference: `#${o.id}` },
+    }));
+  }
 
   return report;
 }
 
-function calculateMeasureScore(counts: PopulationCounts): number | null {
+/**
+ * One `individual` MeasureReport per patient, with the patient as subject.
+ * Stratifiers and supplemental data describe populations, so they are left out.
+ */
+export function generateIndividualMeasureReports(
+  subjects: SubjectCounts[],
+  options: MeasureReportOptions,
+): MeasureReport[] {
+  return subjects.map(s =>
+    generateMeasureReport(s.counts, {
+      ...options,
+      type: 'individual',
+      subject: { reference: `Patient/${s.subject}` },
+      groups: s.groups,
+      stratifiers: undefined,
+      supplementalData: undefined,
+    }),
+  );
+}
+
+/**
+ * A `subject-list` MeasureReport: the summary report whose populations each
+ * reference (`subjectResults`) a contained List of the patients counted in them.
+ */
+export function generateSubjectListMeasureReport(
+  counts: PopulationCounts,
+  subjects: SubjectCounts[],
+  options: MeasureReportOptions,
+): MeasureReport {
+  const report = generateMeasureReport(counts, { ...options, type: 'subject-list' });
+  const grouped = !!options.groups?.length;
+  const lists: List[] = [];
+  report.group?.forEach((group, gi) => {
+    group.population?.forEach((population, pi) => {
+      const code = population.code?.coding?.[0]?.code;
+      if (!code || code === 'measure-observation') {
+        return;
+      }
+      const name = population.code?.text ?? code;
+      const members = subjects.filter(s => {
+        const count = grouped ? s.groups[gi]?.populations[pi]?.count : s.counts[name];
+        return (count ?? 0) > 0;
+      });
+      // Ratio groups may repeat a population code; keep List ids unique.
+      const baseId = `${group.id ?? `group-${gi + 1}`}-${code}`;
+      const list: List = {
+        resourceType: 'List',
+        id: lists.some(l => l.id === baseId) ? `${baseId}-${pi + 1}` : baseId,
+        status: 'current',
+        mode: 'snapshot',
+        title: name,
+        ...(members.length
+          ? { entry: members.map(s => ({ item: { reference: `Patient/${s.subject}` } })) }
+          : {}),
+      };
+      lists.push(list);
+      population.subjectResults = { reference: `#${list.id}` };
+    });
+  });
+  if (lists.length) {
+    report.contained = [...(report.contained ?? []), ...lists];
+  }
+  return report;
+}
+
+type ReportGroup = NonNullable<MeasureReport['group']>[number];
+type ReportStratifier = NonNullable<ReportGroup['stratifier']>[number];
+
+function populationComponents(counts: PopulationCounts): NonNullable<ReportGroup['population']> {
+  const populations: NonNullable<ReportGroup['population']> = [];
+  for (const [name, count] of Object.entries(counts)) {
+    const popCode = POPULATION_CODES[name];
+    if (!popCode) {
+      continue;
+    }
+
+    populations.push({
+      code: {
+        coding: [{ system: MEASURE_POPULATION_SYSTEM, code: popCode.code, display: popCode.display }],
+        text: name,
+      },
+      count: Math.trunc(count),
+    });
+  }
+  return populations;
+}
+
+/** Display name for a measure-population code (`numerator` → "Numerator"). */
+function populationDisplay(code: string): string {
+  return Object.values(POPULATION_CODES).find(p => p.code === code)?.display ?? code;
+}
+
+/** Counts keyed by population display name, the shape `calculateMeasureScore` reads. */
+function countsByName(group: GroupCounts): PopulationCounts {
+  const counts: PopulationCounts = {};
+  for (const pop of group.populations) {
+    counts[populationDisplay(pop.code)] ??= pop.count;
+  }
+  return counts;
+}
+
+function measureGroupComponent(group: GroupCounts): ReportGroup {
+  const coding = (code: string) => ({
+    coding: [{ system: MEASURE_POPULATION_SYSTEM, code, display: populationDisplay(code) }],
+    text: populationDisplay(code),
+  });
+  const population: NonNullable<ReportGroup['population']> = [
+    ...group.populations.map(p => ({
+      ...(p.id ? { id: p.id } : {}),
+      code: coding(p.code),
+      count: Math.trunc(p.count),
+    })),
+    ...group.observations.map(o => ({
+      ...(o.id ? { id: o.id } : {}),
+      code: coding('measure-observation'),
+      count: Math.trunc(o.count),
+    })),
+  ];
+  const score = groupMeasureScore(group);
+  return {
+    id: group.id,
+    ...(population.length > 0 ? { population } : {}),
+    ...(score !== null
+      ? { measureScore: group.scoring === 'continuous-variable' ? { value: score } : ratioQuantity(score) }
+      : {}),
+  };
+}
+
+/**
+ * Proportion: Numerator / (Denominator − exclusions − exceptions).
+ * Ratio: aggregated numerator observation / aggregated denominator observation
+ * when both exist, else (Numerator − exclusions) / (Denominator − exclusions).
+ * Continuous variable: the aggregated measure-population observation.
+ * Cohort: none.
+ */
+function groupMeasureScore(group: GroupCounts): number | null {
+  const observation = (code: string) => group.observations.find(o => o.criteriaReference === code);
+  switch (group.scoring) {
+    case 'proportion':
+      return calculateMeasureScore(countsByName(group));
+    case 'ratio': {
+      const numerator = observation('numerator')?.value;
+      const denominator = observation('denominator')?.value;
+      if (numerator != null && denominator != null) {
+        return denominator === 0 ? null : roundScore(numerator / denominator);
+      }
+      return calculateMeasureScore(countsByName(group), 'ratio');
+    }
+    case 'continuous-variable': {
+      const value = observation('measure-population')?.value;
+      return value == null ? null : roundScore(value);
+    }
+    case 'cohort':
+      return null;
+  }
+}
+
+function roundScore(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function ratioQuantity(value: number) {
+  return { value, unit: '{ratio}', system: 'http://unitsofmeasure.org', code: '{ratio}' };
+}
+
+/** Stratum values are rendered as text; a patient with no value falls in the `null` stratum. */
+function stratumText(value: string | null): string {
+  return value ?? 'null';
+}
+
+/** Stratum scores are count-based: proportion and ratio groups only. */
+function stratifierComponent(stratifier: StratifierCounts, scoring: MeasureScoring): ReportStratifier {
+  const multi = stratifier.expressions.length > 1;
+  return {
+    id: stratifier.id,
+    code: multi
+      ? stratifier.expressions.map(text => ({ text }))
+      : [{ text: stratifier.code ?? stratifier.expressions[0] }],
+    stratum: stratifier.strata.map(stratum => {
+      const score = calculateMeasureScore(stratum.counts, scoring);
+      const population = populationComponents(stratum.counts);
+      return {
+        ...(multi
+          ? {
+              component: stratifier.expressions.map((text, i) => ({
+                code: { text },
+                value: { text: stratumText(stratum.values[i] ?? null) },
+              })),
+            }
+          : { value: { text: stratumText(stratum.values[0] ?? null) } }),
+        ...(population.length > 0 ? { population } : {}),
+        ...(score !== null ? { measureScore: ratioQuantity(score) } : {}),
+      };
+    }),
+  };
+}
+
+/**
+ * One Observation per supplemental data value, counting the Initial Population
+ * patients the SDE criteria returned that value for — the shape
+ * `$evaluate-measure` uses for SDEs. Patients the criteria returned nothing for
+ * report no value. Coded values (`system|code`) become the Observation code;
+ * the SDE usage becomes its category.
+ */
+function supplementalDataObservations(sde: StratifierCounts, measureUrl: string): Observation[] {
+  const usage = sde.usage ?? ['supplemental-data'];
+  const strata = sde.strata.filter(
+    stratum => stratum.values[0] != null && (stratum.counts['Initial Population'] ?? 0) > 0,
+  );
+  return strata.map((stratum, i) => ({
+    resourceType: 'Observation',
+    id: `${sde.id}-${i + 1}`,
+    extension: [
+      {
+        url: MEASURE_INFO_EXTENSION,
+        extension: [
+          { url: 'measure', valueCanonical: measureUrl },
+          { url: 'populationId', valueString: sde.code ?? sde.expressions[0] },
+        ],
+      },
+    ],
+    status: 'final',
+    category: usage.map(code => ({ coding: [{ system: MEASURE_DATA_USAGE_SYSTEM, code }] })),
+    code: supplementalDataCode(stratum.values[0] as string),
+    valueInteger: Math.trunc(stratum.counts['Initial Population'] ?? 0),
+  }));
+}
+
+/** `system|code` → a coding; other values (e.g. a bare gender string) → text. */
+function supplementalDataCode(value: string): Observation['code'] {
+  const separator = value.lastIndexOf('|');
+  if (separator > 0 && /^[a-z][a-z0-9+.-]*:/i.test(value)) {
+    return { coding: [{ system: value.slice(0, separator), code: value.slice(separator + 1) }] };
+  }
+  return { text: value };
+}
+
+function calculateMeasureScore(counts: PopulationCounts, scoring: MeasureScoring = 'proportion'): number | null {
   const numerator = counts['Numerator'] ?? 0;
   const denominator = counts['Denominator'] ?? 0;
   const denomExclusion = counts['Denominator Exclusion'] ?? 0;
   const denomException = counts['Denominator Exception'] ?? 0;
 
+  if (scoring === 'ratio') {
+    const adjustedNumerator = numerator - (counts['Numerator Exclusion'] ?? 0);
+    const ratioDenominator = denominator - denomExclusion;
+    return ratioDenominator <= 0 ? null : roundScore(adjustedNumerator / ratioDenominator);
+  }
+  if (scoring !== 'proportion') {
+    return null;
+  }
+
   const adjustedDenominator = denominator - denomExclusion - denomException;
   if (adjustedDenominator <= 0) {
     return null;
   }
 
-  return Math.round((numerator / adjustedDenominator) * 10000) / 10000;
+  return roundScore(numerator / adjustedDenominator);
 }
 
 /**
@@ -141,3 +462,71 @@ export function sqlRowToPopulationCounts(row: Record<string, unknown>): Populati
   }
   return counts;
 }
+
+/**
+ * Convert the rows of a stratifier or supplemental data query (see
+ * `TranspileResult.stratifiers`) into per-stratum population counts.
+ */
+export function sqlRowsToStrata(
+  query: Pick<StratifiedQuery, 'id' | 'groupId' | 'expressions' | 'code' | 'usage'>,
+  rows: Record<string, unknown>[],
+): StratifierCounts {
+  return {
+    id: query.id,
+    ...(query.groupId ? { groupId: query.groupId } : {}),
+    expressions: query.expressions,
+    ...(query.code ? { code: query.code } : {}),
+    ...(query.usage?.length ? { usage: query.usage } : {}),
+    strata: rows.map(row => ({
+      values: query.expressions.map((_, i) => {
+        const value = row[`stratum_${i}`];
+        return value == null ? null : String(value);
+      }),
+      counts: sqlRowToPopulationCounts(row),
+    })),
+  };
+}
+
+/**
+ * Read each Measure group's population counts and aggregated observations
+ * from the main query row, using the column layout in `TranspileResult.groups`.
+ */
+export function sqlRowToGroupCounts(groups: GroupQuery[], row: Record<string, unknown>): GroupCounts[] {
+  const num = (col: string): number | null => {
+    const val = row[col];
+    if (val == null) return null;
+    const n = typeof val === 'number' ? val : Number(val);
+    return Number.isFinite(n) ? n : null;
+  };
+  return groups.map(g => ({
+    id: g.id,
+    scoring: g.scoring,
+    populations: g.populations.map(p => ({
+      ...(p.id ? { id: p.id } : {}),
+      code: p.code,
+      count: num(p.column) ?? 0,
+    })),
+    observations: g.observations.map(o => ({
+      ...(o.id ? { id: o.id } : {}),
+      criteriaReference: o.criteriaReference,
+      aggregateMethod: o.aggregateMethod,
+      value: num(o.column),
+      count: num(o.countColumn) ?? 0,
+    })),
+  }));
+}
+
+/**
+ * Convert the rows of the per-patient query (`TranspileResult.subjectSql`)
+ * into one SubjectCounts per patient.
+ */
+export function sqlRowsToSubjects(
+  rows: Record<string, unknown>[],
+  groups: GroupQuery[] = [],
+): SubjectCounts[] {
+  return rows.map(row => ({
+    subject: String(row['patient_id'] ?? ''),
+    counts: groups.length ? {} : sqlRowToPopulationCounts(row),
+    groups: sqlRowToGroupCounts(groups, row),
+  }));
+}
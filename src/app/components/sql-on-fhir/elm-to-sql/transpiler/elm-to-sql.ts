@@ -19,6 +19,7 @@ import type {
   ElmUnaryOp,
   ElmFunctionRef,
   ElmExpressionRef,
+  ElmOperandRef,
   ElmLiteral,
   ElmProperty,
   ElmRetrieve,
@@ -27,6 +28,11 @@ import type {
   ElmInterval,
   ElmParameterRef,
   ElmValueSetRef,
+  ElmCodeRef,
+  ElmConceptRef,
+  ElmCode,
+  ElmConcept,
+  ElmInValueSet,
   ElmIf,
   ElmCase,
   ElmAggregate,
@@ -37,6 +43,23 @@ import type {
   ElmAs,
   ElmQuantity,
   ElmTypeSpecifier,
+  ElmQueryLetRef,
+  ElmNaryOp,
+  ElmCollapse,
+  ElmExpand,
+  ElmSort,
+  ElmSortByItem,
+  ElmIndexOf,
+  ElmSlice,
+  ElmMessage,
+  ElmSplit,
+  ElmCombine,
+  ElmAggregateClause,
+  ElmIncludeDef,
+  ElmValueSetDef,
+  ElmCodeDef,
+  ElmConceptDef,
+  ElmElement,
 } from '../types/elm';
 import { stripFhirNamespace, toSqlIdentifier } from '../types/elm';
 import { MEASURE_POPULATION_NAMES } from '../../measure-population.lib';
@@ -45,6 +68,7 @@ import {
   parameterValueToSqlLiteral,
   type LibraryParameterValues,
 } from '../../library-parameters.lib';
+import { POSTGRESQL_DIALECT, type IntervalBounds, type SqlDialect } from './sql-dialect';
 
 // ─── Public types ────────────────────────────────────────────────────────────
 
@@ -62,6 +86,205 @@ export interface TranspilerOptions {
   populationDefines?: string[];
   /** User-supplied measure parameter values keyed by CQL parameter name. */
   parameterValues?: LibraryParameterValues;
+  /**
+   * Retrieve targets that replace the standard view for a FHIR resource type,
+   * keyed by resource type (e.g. user-defined ViewDefinitions over a local
+   * Observation profile). Unlisted resources keep RESOURCE_VIEW_MAP.
+   */
+  resourceViews?: Record<string, ResourceViewMapping>;
+  /** Measure stratifiers; each yields a GROUP BY query in `TranspileResult.stratifiers`. */
+  stratifiers?: StratifierDefinition[];
+  /** Measure supplemental data elements; each yields a GROUP BY query in `TranspileResult.supplementalData`. */
+  supplementalData?: SupplementalDataDefinition[];
+  /**
+   * Measure groups. When given, population columns and measure observations
+   * follow these definitions (see `TranspileResult.groups`) instead of
+   * `populationDefines` or define-name detection.
+   */
+  groups?: MeasureGroupDefinition[];
+  /** Also emit the per-patient query in `TranspileResult.subjectSql`. Default: false. */
+  subjectResults?: boolean;
+  /**
+   * Supplies the ELM of included libraries (`include X called Y`). Defines they
+   * contribute become CTEs and their functions are inlined where called. Without
+   * a resolver, or when it returns nothing, references into the library are
+   * unresolved and reported as warnings.
+   */
+  libraryResolver?: LibraryResolver;
+  /**
+   * Throw on the first `unsupported` or `unresolved` construct instead of
+   * emitting a NULL placeholder, which yields plausible-looking but wrong
+   * counts. The error's `cause` is the TranspileWarning. Default: false.
+   */
+  strict?: boolean;
+  /** SQL dialect to emit (see sql-dialect.ts). Default: PostgreSQL. */
+  dialect?: SqlDialect;
+}
+
+/**
+ * `unsupported`: an ELM construct with no SQL translation (emitted as NULL).
+ * `unresolved`: a reference the transpiler could not bind (parameter, operand,
+ * included library). `measure`: a Measure option the library does not satisfy.
+ */
+export type TranspileWarningCode = 'unsupported' | 'unresolved' | 'measure';
+
+/** A transpiler diagnostic, located at the innermost ELM element being translated. */
+export interface TranspileWarning {
+  message: string;
+  code: TranspileWarningCode;
+  /** Define (or function) being translated. */
+  define?: string;
+  /** Included library the element belongs to; absent for the primary library. */
+  library?: string;
+  /** ELM `localId` of the element. */
+  localId?: string;
+  /** CQL source span of the element, `startLine:startColumn-endLine:endColumn`. */
+  locator?: string;
+}
+
+/** ELM for an included library, or null/undefined when it is not available. */
+export type LibraryResolver = (
+  include: ElmIncludeDef,
+) => ElmLibraryWrapper | ElmLibrary | null | undefined;
+
+/** What the transpiler used from one included library. */
+export interface IncludedLibraryUsage {
+  /** Library identifier (the include path, e.g. `QICoreCommon`). */
+  library: string;
+  version?: string;
+  /** False when the resolver did not supply the library. */
+  resolved: boolean;
+  /** Defines emitted as CTEs. */
+  defines: string[];
+  /** Functions inlined from the library's CQL. */
+  functions: string[];
+  /** Functions replaced by built-in SQL instead of the library's CQL. */
+  nativeFunctions: string[];
+}
+
+/** Measure scoring (`Measure.scoring` or the group-level cqfm-scoring extension). */
+export type MeasureScoring = 'proportion' | 'ratio' | 'continuous-variable' | 'cohort';
+
+/** cqfm-aggregateMethod codes for measure observations. */
+export type ObservationAggregateMethod = 'sum' | 'average' | 'median' | 'minimum' | 'maximum' | 'count';
+
+/** A Measure `group.population`. */
+export interface MeasurePopulationDefinition {
+  /** Population id; measure observations reference populations by it. */
+  id?: string;
+  /** measure-population code, e.g. `initial-population` or `measure-observation`. */
+  code: string;
+  /** Define name — or, for `measure-observation`, the CQL function name. */
+  expression: string;
+  /** measure-observation only: id (or code) of the population the function is applied to. */
+  criteriaReference?: string;
+  /** measure-observation only. Default: `sum`. */
+  aggregateMethod?: ObservationAggregateMethod;
+}
+
+/** A Measure `group`. */
+export interface MeasureGroupDefinition {
+  id: string;
+  scoring: MeasureScoring;
+  /**
+   * `boolean` counts patients; a resource type (e.g. `Encounter`) counts the
+   * population rows themselves (episode-of-care measures). Default: `boolean`.
+   */
+  populationBasis?: string;
+  populations: MeasurePopulationDefinition[];
+}
+
+/** Where a group's results appear in the main query's single result row. */
+export interface GroupQuery {
+  id: string;
+  scoring: MeasureScoring;
+  populations: Array<{ id?: string; code: string; expression: string; column: string }>;
+  observations: Array<{
+    id?: string;
+    /** Code of the population the observation was applied to. */
+    criteriaReference: string;
+    aggregateMethod: ObservationAggregateMethod;
+    /** Aggregated observation value. */
+    column: string;
+    /** Number of observations aggregated. */
+    countColumn: string;
+  }>;
+}
+
+/** A Measure `group.stratifier`, evaluated per patient. */
+export interface StratifierDefinition {
+  /** Stratifier id echoed into the MeasureReport. */
+  id: string;
+  /** Measure group the stratifier belongs to; its populations are counted per stratum. */
+  groupId?: string;
+  /** Define names evaluated per patient — one, or one per stratifier component. */
+  expressions: string[];
+  /** Display text for the MeasureReport stratifier code. Default: the expression names. */
+  code?: string;
+}
+
+/** A Measure `supplementalData` element, evaluated per patient. */
+export interface SupplementalDataDefinition {
+  /** Supplemental data id echoed into the MeasureReport. */
+  id: string;
+  /** Define name evaluated per patient. */
+  expression: string;
+  /** Display text for the supplemental data code. Default: the expression name. */
+  code?: string;
+  /** `measure-data-usage` codes, e.g. `supplemental-data` or `risk-adjustment-factor`. */
+  usage?: string[];
+}
+
+/**
+ * One GROUP BY query per stratifier or supplemental data element. Each row is
+ * a stratum: `stratum_0`…`stratum_n` (text, one per expression) followed by the
+ * same `<population>_count` columns as the main query.
+ */
+export interface StratifiedQuery {
+  kind: 'stratifier' | 'supplementalData';
+  id: string;
+  groupId?: string;
+  expressions: string[];
+  code?: string;
+  /** Supplemental data usage codes, echoed from the definition. */
+  usage?: string[];
+  sql: string;
+}
+
+/**
+ * One CTE of the generated `WITH` clause, traced back to the CQL it came from.
+ * `define` CTEs evaluate a define, `value` CTEs a stratifier or supplemental
+ * data expression per patient, `observation` CTEs a measure observation.
+ */
+export interface TranspiledCte {
+  /** SQL identifier of the CTE. */
+  name: string;
+  kind: 'define' | 'value' | 'observation';
+  /** The define, or observation function, the CTE evaluates. */
+  define: string;
+  /** Included library the define belongs to; absent for the primary library. */
+  library?: string;
+  /** ELM `localId` of the define. */
+  localId?: string;
+  /** CQL source span of the define, `startLine:startColumn-endLine:endColumn`. */
+  locator?: string;
+  /** Column holding the patient id of each row; null when rows are not per patient. */
+  patientColumn: string | null;
+  /** The `name AS (…)` element of the `WITH` clause. */
+  sql: string;
+}
+
+/** Table a retrieve of one resource type reads from. */
+export interface ResourceViewMapping {
+  /** SQL table/view name. Must expose `subject_id` (or `id` for Patient). */
+  view: string;
+  /** Column filtered by value-set / code retrieves. Default: the standard column for the resource. */
+  codeColumn?: string;
+  /**
+   * JSON array of every Coding of the filtered element. When set, code filters
+   * match any coding (direct codes on system and code) instead of `codeColumn`.
+   */
+  codingColumn?: string;
 }
 
 export interface TranspileResult {
@@ -70,7 +293,25 @@ export interface TranspileResult {
   /** Names of the population CTEs found (Initial Population, Numerator, etc.). */
   populations: string[];
   /** Warnings generated during transpilation. */
-  warnings: string[];
+  warnings: TranspileWarning[];
+  /** GROUP BY queries for the requested stratifiers, in option order. */
+  stratifiers: StratifiedQuery[];
+  /** GROUP BY queries for the requested supplemental data elements, in option order. */
+  supplementalData: StratifiedQuery[];
+  /** Result-column layout per requested Measure group (empty without `groups`). */
+  groups: GroupQuery[];
+  /**
+   * One row per patient: `patient_id` followed by the main query's columns,
+   * each counted (or aggregated) for that patient alone. Null unless
+   * `subjectResults` is set.
+   */
+  subjectSql: string | null;
+  /** Included libraries referenced by the transpiled defines, in first-use order. */
+  includedLibraries: IncludedLibraryUsage[];
+  /** Value sets of included libraries used by the SQL (`value_set_expansion` ids). */
+  includedValueSets: Array<{ name: string; url: string; version?: string }>;
+  /** The `WITH` clause's CTEs in order, each traced to its define. */
+  ctes: TranspiledCte[];
 }
 
 // Re-export for consumers
@@ -80,8 +321,8 @@ export { MEASURE_POPULATION_NAMES } from '../../measure-population.lib';
 
 /**
  * Column inside each `_view` table that holds the FHIR code used for value-set
- * filtering. Most resources expose this as `code`; Encounter uses `type_code`
- * (per STANDARD_VIEW_DEFINITIONS in views/view-definitions.ts).
+ * filtering. Most resources expose this as `code`; the others follow the QI-Core
+ * primary code path (per STANDARD_VIEW_DEFINITIONS in views/view-definitions.ts).
  */
 const RESOURCE_CODE_COLUMN: Record<string, string> = {
   Patient: 'gender',
@@ -89,6 +330,10 @@ const RESOURCE_CODE_COLUMN: Record<string, string> = {
   AllergyIntolerance: 'code',
   Immunization: 'vaccine_code',
   ServiceRequest: 'code',
+  MedicationRequest: 'medication_code',
+  Coverage: 'type_code',
+  CommunicationRequest: 'category_code',
+  Claim: 'type_code',
 };
 
 function codeColumnFor(resource: string): string {
@@ -96,11 +341,64 @@ function codeColumnFor(resource: string): string {
 }
 
 /**
- * Convert an expression that may be an interval (`tstzrange(...)`) into a single
- * point-in-time suitable for `AGE()`, `DATE_PART()`, etc. CQL's `AgeInYearsAt(MP)`
- * means "age at the start of MP" — extracting `lower()` of the interval matches.
- * Other expressions pass through untouched.
+ * Column holding every Coding of the element `RESOURCE_CODE_COLUMN` reads the
+ * first code of, so multi-coded resources match on any coding. Patient has none.
  */
+const RESOURCE_CODING_COLUMN: Record<string, string | null> = {
+  Patient: null,
+  Encounter: 'type_coding',
+  Immunization: 'vaccine_coding',
+  MedicationRequest: 'medication_coding',
+  Coverage: 'type_coding',
+  CommunicationRequest: 'category_coding',
+  Claim: 'type_coding',
+};
+
+function codingColumnFor(resource: string): string | null {
+  return resource in RESOURCE_CODING_COLUMN ? RESOURCE_CODING_COLUMN[resource] : 'code_coding';
+}
+
+/**
+ * CodeableConcept properties compared with `~` / `=` / `in` → their Coding
+ * array column, per resource; only the columns its standard view exposes.
+ */
+const CODING_COLUMNS_BY_RESOURCE: Record<string, Record<string, string>> = {
+  Patient: {},
+  Observation: { code: 'code_coding', value: 'value_coding', category: 'category_coding' },
+  Condition: { code: 'code_coding', category: 'category_coding' },
+  Procedure: { code: 'code_coding', category: 'category_coding' },
+  MedicationRequest: { medication: 'medication_coding' },
+  Encounter: { type: 'type_coding' },
+  DiagnosticReport: { code: 'code_coding', category: 'category_coding' },
+  Coverage: { type: 'type_coding' },
+  AllergyIntolerance: { code: 'code_coding' },
+  Immunization: { vaccineCode: 'vaccine_coding' },
+  DeviceRequest: { code: 'code_coding' },
+  CommunicationRequest: { category: 'category_coding' },
+  ServiceRequest: { code: 'code_coding', category: 'category_coding' },
+  Claim: { type: 'type_coding' },
+};
+
+/** Coding array column of each CodeableConcept property when its resource is not known. */
+const CODING_COLUMN_BY_PATH: Record<string, string> = {
+  code: 'code_coding',
+  type: 'type_coding',
+  category: 'category_coding',
+  medication: 'medication_coding',
+  vaccineCode: 'vaccine_coding',
+  value: 'value_coding',
+};
+
+/** A direct-reference code resolved to its code system URI. */
+interface CodeLiteral {
+  system: string;
+  code: string;
+}
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
 /**
  * Returns the leaf type-name from an ELM type reference, e.g.
  * `{urn:hl7-org:elm-types:r1}DateTime` → `DateTime`, or `Period` from a
@@ -131,12 +429,33 @@ function stripDateSuffix(path: string): string {
   return path.replace(/_(start|end|datetime)$/, '');
 }
 
-function asPointInTime(sql: string): string {
+/**
+ * Convert an expression that may be an interval into a single point-in-time
+ * suitable for `AGE()`, `DATE_PART()`, etc. CQL's `AgeInYearsAt(MP)` means "age
+ * at the start of MP" — taking the interval's low bound matches. Other
+ * expressions pass through untouched.
+ */
+function asPointInTime(sql: string, dialect: SqlDialect): string {
   const s = sql.trim();
-  if (/^ts(tz)?range\b/i.test(s)) {
-    return `lower(${s})`;
+  return dialect.isInterval(s) ? dialect.intervalStart(s) : s;
+}
+
+/** SQL type of an ELM System type (result type or Literal value type); null when unknown. */
+function elmSqlType(expr: ElmExpression | undefined): string | null {
+  if (!expr) return null;
+  const typeName =
+    (expr as { resultTypeName?: string }).resultTypeName ??
+    (expr.type === 'Literal' ? (expr as ElmLiteral).valueType : undefined);
+  switch (typeName && stripFhirNamespace(typeName)) {
+    case 'Integer':  return 'integer';
+    case 'Long':     return 'bigint';
+    case 'Decimal':  return 'numeric';
+    case 'String':   return 'text';
+    case 'Boolean':  return 'boolean';
+    case 'Date':     return 'date';
+    case 'DateTime': return 'timestamptz';
+    default:         return null;
   }
-  return s;
 }
 
 /**
@@ -149,6 +468,7 @@ function isStatementShapedExpr(expr: ElmExpression): boolean {
     'Retrieve', 'Query', 'ExpressionRef',
     'Union', 'Intersect', 'Except', 'Distinct', 'Flatten',
     'SingletonFrom', 'First', 'Last', 'List', 'ToList',
+    'Sort', 'Slice', 'Collapse', 'Expand', 'Split',
   ].includes((expr as { type: string }).type);
 }
 
@@ -157,13 +477,20 @@ function isStatementShapedExpr(expr: ElmExpression): boolean {
  * (e.g. 'Patient', 'Procedure'). Returns null when no Retrieve is at the root —
  * callers then skip resource-specific behavior rather than guessing.
  */
-function rootRetrieveResource(expr: ElmExpression): string | null {
+function rootRetrieveResource(
+  expr: ElmExpression,
+  resolve?: (ref: ElmExpressionRef) => ElmExpression | undefined,
+): string | null {
   let e: ElmExpression | undefined = expr;
   for (let depth = 0; e && depth < 10; depth++) {
     const t = (e as { type: string }).type;
     if (t === 'Retrieve') {
       return stripFhirNamespace((e as ElmRetrieve).dataType);
     }
+    if (t === 'ExpressionRef' && resolve) {
+      e = resolve(e as ElmExpressionRef);
+      continue;
+    }
     if (t === 'Query') {
       e = (e as ElmQuery).source[0]?.expression;
       continue;
@@ -172,7 +499,7 @@ function rootRetrieveResource(expr: ElmExpression): string | null {
       e = (e as ElmUnaryOp).operand;
       continue;
     }
-    if (t === 'First' || t === 'Last') {
+    if (t === 'First' || t === 'Last' || t === 'Sort' || t === 'Slice') {
       e = (e as unknown as { source: ElmExpression }).source;
       continue;
     }
@@ -207,14 +534,14 @@ function normalizeTemporalUnit(unit: string | undefined): string | null {
 
 /**
  * Render a CQL `start of <interval>` / `end of <interval>` expression in SQL.
- * If the inner is a `tstzrange(...)` (or `tsrange(...)`) call we use PostgreSQL's
- * `lower()` / `upper()`; otherwise we fall back to the schema's `<col>_start` /
- * `<col>_end` naming convention for already-flattened period columns.
+ * If the inner is an interval value we take the dialect's bound (`lower()` /
+ * `upper()` in PostgreSQL); otherwise we fall back to the schema's `<col>_start`
+ * / `<col>_end` naming convention for already-flattened period columns.
  */
-function startEndToSql(sql: string, which: 'start' | 'end'): string {
+function startEndToSql(sql: string, which: 'start' | 'end', dialect: SqlDialect): string {
   const s = sql.trim();
-  if (/^ts(tz)?range\b/i.test(s)) {
-    return `${which === 'start' ? 'lower' : 'upper'}(${s})`;
+  if (dialect.isInterval(s)) {
+    return which === 'start' ? dialect.intervalStart(s) : dialect.intervalEnd(s);
   }
   if (new RegExp(`_${which}\\b`).test(s)) return s;
   return `${s}_${which}`;
@@ -254,16 +581,131 @@ const RESOURCE_VIEW_MAP: Record<string, string> = {
   Claim: 'claim_view',
 };
 
+/** The exclusion population whose rows a measure observation skips. */
+const OBSERVATION_EXCLUSION_CODES: Record<string, string> = {
+  'measure-population': 'measure-population-exclusion',
+  numerator: 'numerator-exclusion',
+  denominator: 'denominator-exclusion',
+};
+
+function isEpisodeBasis(group: MeasureGroupDefinition | undefined): boolean {
+  return (group?.populationBasis ?? 'boolean') !== 'boolean';
+}
+
+/** `denominator-exclusion` → `denominator_exclusion` */
+function codeIdentifier(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+}
+
+/** Column namer that suffixes repeats (`g1_initial_population_count_2`). */
+function uniqueColumns(): (base: string) => string {
+  const used = new Set<string>();
+  return base => {
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+    used.add(name);
+    return name;
+  };
+}
+
+function observationAggregateSql(method: ObservationAggregateMethod): string {
+  const value = 'value::double precision';
+  switch (method) {
+    case 'sum':     return `SUM(${value})`;
+    case 'average': return `AVG(${value})`;
+    case 'median':  return `PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${value})`;
+    case 'minimum': return `MIN(${value})`;
+    case 'maximum': return `MAX(${value})`;
+    case 'count':   return 'COUNT(value)';
+  }
+}
+
+/** Aggregate call for a CQL list aggregate over `value`. */
+function elmAggregateSql(type: ElmAggregate['type'], value: string): string {
+  switch (type) {
+    case 'Count':              return `COUNT(${value})`;
+    case 'Sum':                return `SUM(${value})`;
+    case 'Min':                return `MIN(${value})`;
+    case 'Max':                return `MAX(${value})`;
+    case 'Avg':                return `AVG(${value})`;
+    case 'Median':             return `PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${value})`;
+    case 'Mode':               return `MODE() WITHIN GROUP (ORDER BY ${value})`;
+    case 'StdDev':             return `STDDEV_SAMP(${value})`;
+    case 'Variance':           return `VAR_SAMP(${value})`;
+    case 'PopulationStdDev':   return `STDDEV_POP(${value})`;
+    case 'PopulationVariance': return `VAR_POP(${value})`;
+  }
+}
+
 // ─── Transpiler ──────────────────────────────────────────────────────────────
 
+/** Statements and terminology of one library, by CQL name. */
+interface LibraryScope {
+  /** Include path of an included library; null for the primary library. */
+  library: string | null;
+  /** Prefix of the CTE names of an included library's defines; null for the primary library. */
+  ctePrefix: string | null;
+  defines: Map<string, ElmExpressionDef>;
+  /** CQL functions by name (FunctionDef statements). */
+  functions: Map<string, ElmExpressionDef>;
+  valueSets: Map<string, ElmValueSetDef>;
+  codeSystems: Map<string, string>; // name → URI
+  codes: Map<string, ElmCodeDef>;
+  concepts: Map<string, ElmConceptDef>;
+  /** Include local identifier (`called X`) → include. */
+  includes: Map<string, ElmIncludeDef>;
+}
+
+/** An included library as first resolved: its scope (null when unavailable) and what was used from it. */
+interface IncludedLibrary {
+  scope: LibraryScope | null;
+  usage: IncludedLibraryUsage;
+}
+
+/** Index a library's statements, terminology and includes. */
+function indexLibrary(lib: ElmLibrary | null, library: string | null): LibraryScope {
+  const scope: LibraryScope = {
+    library,
+    ctePrefix: library === null ? null : toSqlIdentifier(library),
+    defines: new Map(),
+    functions: new Map(),
+    valueSets: new Map(),
+    codeSystems: new Map(),
+    codes: new Map(),
+    concepts: new Map(),
+    includes: new Map(),
+  };
+  for (const def of lib?.statements?.def ?? []) {
+    (def.type === 'FunctionDef' ? scope.functions : scope.defines).set(def.name, def);
+  }
+  for (const vs of lib?.valueSets?.def ?? []) scope.valueSets.set(vs.name, vs);
+  for (const cs of lib?.codeSystems?.def ?? []) scope.codeSystems.set(cs.name, cs.id);
+  for (const code of lib?.codes?.def ?? []) scope.codes.set(code.name, code);
+  for (const concept of lib?.concepts?.def ?? []) scope.concepts.set(concept.name, concept);
+  for (const inc of lib?.includes?.def ?? []) scope.includes.set(inc.localIdentifier, inc);
+  return scope;
+}
+
 export class ElmToSqlTranspiler {
-  private opts: Required<Omit<TranspilerOptions, 'parameterValues'>> & {
+  private opts: Required<
+    Omit<TranspilerOptions, 'parameterValues' | 'resourceViews' | 'libraryResolver' | 'dialect'>
+  > & {
     parameterValues: LibraryParameterValues;
+    resourceViews: Record<string, ResourceViewMapping>;
+    libraryResolver: LibraryResolver | null;
+    dialect: SqlDialect;
   };
-  private warnings: string[] = [];
-  private defines = new Map<string, ElmExpressionDef>();
-  private valueSets = new Map<string, string>(); // name → OID/URL
-  private codeSystems = new Map<string, string>(); // name → URI
+  private warnings: TranspileWarning[] = [];
+  /** Define and innermost located ELM element being translated; warnings point at it. */
+  private location: Pick<TranspileWarning, 'define' | 'localId' | 'locator'> = {};
+  /** Library whose statements are being transpiled — the primary one, or an included one. */
+  private scope: LibraryScope = indexLibrary(null, null);
+  /** Included libraries by `path|version`, resolved on first reference. */
+  private includedLibraries = new Map<string, IncludedLibrary>();
+  /** CTEs of included defines generated since the last `addCte`, in dependency order. */
+  private includedCtes: string[] = [];
+  private includedCteNames = new Set<string>();
+  private includedValueSets: TranspileResult['includedValueSets'] = [];
   /**
    * Row-key column per generated CTE (SQL identifier → column). Patient-shaped
    * CTEs key on `id`; resource-shaped CTEs key on `subject_id`. Used to
@@ -277,6 +719,20 @@ export class ElmToSqlTranspiler {
    * Null when no patient row is in scope — EXISTS then stays uncorrelated.
    */
   private currentPatientAlias: string | null = null;
+  /** Function operand name → SQL alias of the row bound to it. */
+  private operandBindings = new Map<string, string>();
+  /** Query source alias in scope → resource type of its rows, when known. */
+  private aliasResources = new Map<string, string | null>();
+  /** Query let / aggregate identifier → SQL expression bound to it. */
+  private queryLetBindings = new Map<string, string>();
+  /** Defines counted as measure populations. */
+  private populationNames = new Set<string>();
+  /** Populations of episode-based groups: their rows are resources, not patients. */
+  private episodePopulations = new Set<string>();
+  /** Observation result column → observation CTE name. */
+  private observationCtes = new Map<string, string>();
+  /** CTE name → where it came from, for `TranspileResult.ctes`. */
+  private cteTrace = new Map<string, Omit<TranspiledCte, 'sql'>>();
 
   constructor(options: TranspilerOptions = {}) {
     const now = new Date();
@@ -289,6 +745,14 @@ export class ElmToSqlTranspiler {
       includeComments: options.includeComments ?? true,
       populationDefines: options.populationDefines ?? [],
       parameterValues,
+      resourceViews: options.resourceViews ?? {},
+      stratifiers: options.stratifiers ?? [],
+      supplementalData: options.supplementalData ?? [],
+      groups: options.groups ?? [],
+      subjectResults: options.subjectResults ?? false,
+      libraryResolver: options.libraryResolver ?? null,
+      strict: options.strict ?? false,
+      dialect: options.dialect ?? POSTGRESQL_DIALECT,
     };
   }
 
@@ -296,37 +760,39 @@ export class ElmToSqlTranspiler {
 
   transpile(input: ElmLibraryWrapper | ElmLibrary): TranspileResult {
     this.warnings = [];
-    this.defines.clear();
-    this.valueSets.clear();
-    this.codeSystems.clear();
+    this.location = {};
+    this.includedLibraries.clear();
+    this.includedCtes = [];
+    this.includedCteNames.clear();
+    this.includedValueSets = [];
     this.defineKeyColumn.clear();
+    this.operandBindings.clear();
+    this.aliasResources.clear();
+    this.queryLetBindings.clear();
+    this.observationCtes.clear();
+    this.cteTrace.clear();
     this.currentPatientAlias = null;
 
     const lib: ElmLibrary = 'library' in input ? input.library : input;
 
-    // Index value sets and code systems for IN-clause generation
-    for (const vs of lib.valueSets?.def ?? []) {
-      this.valueSets.set(vs.name, vs.id);
-    }
-    for (const cs of lib.codeSystems?.def ?? []) {
-      this.codeSystems.set(cs.name, cs.id);
-    }
-
-    // Index all defines
-    for (const def of lib.statements?.def ?? []) {
-      this.defines.set(def.name, def);
-    }
+    // Index defines, value sets and code systems; functions are inlined where
+    // called, never CTEs
+    this.scope = indexLibrary(lib, null);
+    const statements = lib.statements?.def ?? [];
+    this.indexPopulations();
 
     // Topological sort so CTEs reference only already-defined CTEs
-    const sorted = this.topologicalSort(lib.statements?.def ?? []);
+    const sorted = this.topologicalSort(statements.filter(d => d.type !== 'FunctionDef'));
 
     const ctes: string[] = [];
     const populations: string[] = [];
+    const valueOnly = this.valueOnlyDefines(sorted);
 
     for (const def of sorted) {
       if (def.accessLevel === 'Private') continue;
+      if (valueOnly.has(def.name)) continue;
       const cteSql = this.generateCte(def);
-      if (cteSql) ctes.push(cteSql);
+      if (cteSql) this.addCte(ctes, cteSql);
 
       if (this.isPopulation(def.name)) {
         populations.push(def.name);
@@ -335,13 +801,29 @@ export class ElmToSqlTranspiler {
 
     // Detect populations to expose in the final SELECT
     const outputPops =
-      this.opts.populationDefines.length > 0
+      this.opts.groups.length > 0
+        ? [...new Set(this.opts.groups.flatMap(g => this.countedPopulations(g).map(p => p.expression)))]
+        : this.opts.populationDefines.length > 0
         ? this.opts.populationDefines
         : populations.length > 0
         ? populations
         : this.inferPopulations(sorted);
 
-    const finalSelect = this.generateFinalSelect(outputPops);
+    // Per-patient value CTEs for stratifier / supplemental data expressions
+    const valueCtes = new Map<string, string>();
+    for (const name of this.stratifiedExpressionNames()) {
+      const def = this.scope.defines.get(name);
+      if (!def) {
+        this.warn(`Stratifier expression "${name}" is not defined in this library`, 'measure');
+        continue;
+      }
+      valueCtes.set(name, this.valueCteName(name));
+      this.addCte(ctes, this.generateValueCte(def, valueOnly.has(name)));
+    }
+
+    const groups = this.opts.groups.map((g, i) => this.groupQuery(g, i, ctes));
+    const finalSelect =
+      groups.length > 0 ? this.generateGroupSelect(groups) : this.generateFinalSelect(outputPops);
 
     const libId = `${lib.identifier.id}${lib.identifier.version ? ` v${lib.identifier.version}` : ''}`;
     const header = this.opts.includeComments
@@ -350,15 +832,76 @@ export class ElmToSqlTranspiler {
         `-- Generated by @cqframework/elm-to-sql\n\n`
       : '';
 
-    const sql = `${header}WITH\n${ctes.join(',\n\n')}\n\n${finalSelect}`;
-
-    return { sql, populations: outputPops, warnings: [...this.warnings] };
+    const withClause = `WITH\n${ctes.join(',\n\n')}`;
+    const sql = `${header}${withClause}\n\n${finalSelect}`;
+
+    const stratified = (
+      kind: StratifiedQuery['kind'],
+      id: string,
+      expressions: string[],
+      code: string | undefined,
+      groupId?: string,
+      usage?: string[],
+    ): StratifiedQuery[] => {
+      if (expressions.length === 0 || !expressions.every(e => valueCtes.has(e))) {
+        const what = kind === 'stratifier' ? 'stratifier' : 'supplemental data';
+        this.warn(`Skipping ${what} "${id}": expression not available`, 'measure');
+        return [];
+      }
+      const group = this.opts.groups.find(g => g.id === groupId) ?? this.opts.groups[0];
+      const select = this.generateStratifiedSelect(id, expressions, outputPops, group);
+      const label = this.opts.includeComments ? `-- ${kind} "${id}": ${expressions.join(', ')}\n` : '';
+      return [
+        {
+          kind,
+          id,
+          ...(group ? { groupId: group.id } : {}),
+          expressions,
+          ...(code ? { code } : {}),
+          ...(usage?.length ? { usage } : {}),
+          sql: `${header}${label}${withClause}\n\n${select}`,
+        },
+      ];
+    };
+    const stratifiers = this.opts.stratifiers.flatMap(s =>
+      stratified('stratifier', s.id, s.expressions, s.code, s.groupId),
+    );
+    const supplementalData = this.opts.supplementalData.flatMap(s =>
+      stratified('supplementalData', s.id, [s.expression], s.code, undefined, s.usage),
+    );
+    const subjectSql = this.opts.subjectResults
+      ? `${header}${this.opts.includeComments ? '-- per-patient results\n' : ''}${withClause}\n\n` +
+        this.generateSubjectSelect(outputPops, groups)
+      : null;
+
+    return {
+      sql,
+      populations: outputPops,
+      warnings: [...this.warnings],
+      stratifiers,
+      supplementalData,
+      groups,
+      subjectSql,
+      includedLibraries: [...this.includedLibraries.values()].map(l => l.usage),
+      includedValueSets: [...this.includedValueSets],
+      ctes: ctes.map(sql => {
+        const name = sql.slice(0, sql.indexOf(' AS ('));
+        const trace = this.cteTrace.get(name);
+        return trace
+          ? { ...trace, sql }
+          : { name, kind: 'define', define: name, patientColumn: null, sql };
+      }),
+    };
   }
 
   // ─── CTE generation ────────────────────────────────────────────────────────
 
-  private generateCte(def: ElmExpressionDef): string {
-    const cteName = toSqlIdentifier(def.name);
+  /** Append a CTE, preceded by the included-library CTEs its body referenced first. */
+  private addCte(ctes: string[], cte: string): void {
+    ctes.push(...this.includedCtes.splice(0), cte);
+  }
+
+  private generateCte(def: ElmExpressionDef, cteName = toSqlIdentifier(def.name)): string {
     const isPatientContext = (def.context ?? 'Patient') === 'Patient';
     const statementShaped = isStatementShapedExpr(def.expression);
     let body: string;
@@ -371,14 +914,15 @@ export class ElmToSqlTranspiler {
     this.currentPatientAlias = isPatientContext && !statementShaped ? 'Patient' : null;
 
     try {
-      if (this.isPatientResourcePopulationQuery(def)) {
-        body = this.patientPopulationQueryToSql(def.expression as ElmQuery, def.context ?? 'Patient');
-      } else {
-        body = this.exprToSql(def.expression, def.context ?? 'Patient');
-      }
+      body = this.atDefinition(def, () =>
+        this.isPatientResourcePopulationQuery(def)
+          ? this.patientPopulationQueryToSql(def.expression as ElmQuery, def.context ?? 'Patient')
+          : this.exprToSql(def.expression, def.context ?? 'Patient'),
+      );
     } catch (e) {
+      if (this.opts.strict) throw e;
       const msg = e instanceof Error ? e.message : String(e);
-      this.warn(`Could not transpile define "${def.name}": ${msg}`);
+      this.atDefinition(def, () => this.warn(`Could not transpile define "${def.name}": ${msg}`, 'unsupported'));
       body = `SELECT NULL AS _unsupported -- ${msg}`;
     } finally {
       this.currentPatientAlias = prevAlias;
@@ -407,7 +951,9 @@ export class ElmToSqlTranspiler {
 
     // Record this CTE's row-key column so later defines can correlate EXISTS
     // subqueries against it (patient-shaped → id, resource-shaped → subject_id).
-    this.defineKeyColumn.set(cteName, this.rowKeyColumnFor(def.expression, isPatientContext, statementShaped));
+    const keyColumn = this.rowKeyColumnFor(def.expression, isPatientContext, statementShaped);
+    this.defineKeyColumn.set(cteName, keyColumn);
+    this.traceCte(cteName, 'define', def, isPatientContext || statementShaped ? keyColumn : null);
 
     const comment = this.opts.includeComments ? `  -- define "${def.name}"\n` : '';
     return `${cteName} AS (\n${comment}${this.indent(body)}\n)`;
@@ -420,7 +966,7 @@ export class ElmToSqlTranspiler {
       return isPatientContext ? 'id' : 'subject_id';
     }
     if (expr.type === 'ExpressionRef') {
-      const ref = toSqlIdentifier((expr as ElmExpressionRef).name);
+      const ref = this.cteFor(expr as ElmExpressionRef);
       return this.defineKeyColumn.get(ref) ?? 'subject_id';
     }
     const resource = rootRetrieveResource(expr);
@@ -430,21 +976,38 @@ export class ElmToSqlTranspiler {
   // ─── Expression dispatch ───────────────────────────────────────────────────
 
   private exprToSql(expr: ElmExpression, context: string): string {
+    const { localId, locator } = expr as ElmElement;
+    if (!localId && !locator) {
+      return this.dispatchExpr(expr, context);
+    }
+    const prev = this.location;
+    this.location = { define: prev.define, localId: localId ?? prev.localId, locator: locator ?? prev.locator };
+    try {
+      return this.dispatchExpr(expr, context);
+    } finally {
+      this.location = prev;
+    }
+  }
+
+  private dispatchExpr(expr: ElmExpression, context: string): string {
     switch (expr.type) {
       case 'Retrieve':        return this.retrieveToSql(expr as ElmRetrieve, context);
       case 'Query':           return this.queryToSql(expr as ElmQuery, context);
       case 'ExpressionRef':   return this.expressionRefToSql(expr as ElmExpressionRef);
       case 'FunctionRef':     return this.functionRefToSql(expr as ElmFunctionRef, context);
+      case 'OperandRef':      return this.operandRefToSql(expr as ElmOperandRef);
+      case 'QueryLetRef':     return this.queryLetRefToSql(expr as ElmQueryLetRef);
       case 'ParameterRef':    return this.parameterRefToSql(expr as ElmParameterRef);
       case 'ValueSetRef':     return this.valueSetRefToSql(expr as ElmValueSetRef);
       case 'Property':        return this.propertyToSql(expr as ElmProperty);
       case 'Literal':         return this.literalToSql(expr as ElmLiteral);
+      case 'Code':            return this.codeValueToSql(expr as ElmCode);
       case 'Null':            return 'NULL';
       case 'Interval':        return this.intervalToSql(expr as ElmInterval);
       case 'If':              return this.ifToSql(expr as ElmIf, context);
       case 'Case':            return this.caseToSql(expr as ElmCase, context);
-      case 'Start':           return startEndToSql(this.exprToSql((expr as ElmStart).operand, context), 'start');
-      case 'End':             return startEndToSql(this.exprToSql((expr as ElmEnd).operand, context), 'end');
+      case 'Start':           return startEndToSql(this.exprToSql((expr as ElmStart).operand, context), 'start', this.opts.dialect);
+      case 'End':             return startEndToSql(this.exprToSql((expr as ElmEnd).operand, context), 'end', this.opts.dialect);
       case 'Today':           return 'CURRENT_DATE';
       case 'Now':             return 'CURRENT_TIMESTAMP';
       case 'Exists':          return this.existsToSql((expr as ElmUnaryOp).operand, context);
@@ -454,17 +1017,24 @@ export class ElmToSqlTranspiler {
       case 'IsFalse':         return `(${this.exprToSqlInline((expr as ElmUnaryOp).operand, context)}) IS FALSE`;
       case 'Is':              return this.isTypeToSql(expr as ElmIs, context);
       case 'As':              return this.asTypeToSql(expr as ElmAs, context);
-      case 'Count':           return this.aggregateToSql(expr as ElmAggregate, 'COUNT', context);
-      case 'Sum':             return this.aggregateToSql(expr as ElmAggregate, 'SUM', context);
-      case 'Min':             return this.aggregateToSql(expr as ElmAggregate, 'MIN', context);
-      case 'Max':             return this.aggregateToSql(expr as ElmAggregate, 'MAX', context);
-      case 'Avg':             return this.aggregateToSql(expr as ElmAggregate, 'AVG', context);
+      case 'Count':
+      case 'Sum':
+      case 'Min':
+      case 'Max':
+      case 'Avg':
+      case 'Median':
+      case 'Mode':
+      case 'StdDev':
+      case 'Variance':
+      case 'PopulationStdDev':
+      case 'PopulationVariance': return this.aggregateToSql(expr as ElmAggregate, context);
       case 'DurationBetween': return this.durationBetweenToSql(expr as ElmDurationBetween, context);
       case 'And':
       case 'Or':
       case 'Xor':
         return this.booleanOpToSql(expr as ElmBinaryOp, context);
-      case 'Equal':           return this.comparisonToSql(expr as ElmBinaryOp, '=', context);
+      case 'Equal':
+      case 'Equivalent':      return this.equalToSql(expr as ElmBinaryOp, context);
       case 'NotEqual':        return this.comparisonToSql(expr as ElmBinaryOp, '<>', context);
       case 'Less':            return this.comparisonToSql(expr as ElmBinaryOp, '<', context);
       case 'Greater':         return this.comparisonToSql(expr as ElmBinaryOp, '>', context);
@@ -474,11 +1044,26 @@ export class ElmToSqlTranspiler {
       case 'IncludedIn':
       case 'During':          return this.inToSql(expr as ElmBinaryOp, context);
       case 'Contains':        return this.containsToSql(expr as ElmBinaryOp, context);
+      case 'InValueSet':
+      case 'AnyInValueSet':   return this.inValueSetToSql(expr as ElmInValueSet, context);
       case 'Before':
       case 'SameOrBefore':
       case 'After':
       case 'SameOrAfter':     return this.temporalCompareToSql(expr as ElmBinaryOp, (expr as { type: string }).type, context);
       case 'Overlaps':        return this.overlapsToSql(expr as ElmBinaryOp, context);
+      case 'Width':           return this.widthToSql(expr as ElmUnaryOp, context);
+      case 'Meets':
+      case 'MeetsBefore':
+      case 'MeetsAfter':      return this.meetsToSql(expr as ElmBinaryOp, context);
+      case 'Starts':
+      case 'Ends':            return this.startsEndsToSql(expr as ElmBinaryOp, context);
+      case 'ProperIncludes':  return this.properIncludesToSql(expr as ElmBinaryOp, context);
+      case 'ProperIncludedIn': {
+        const [left, right] = (expr as ElmBinaryOp).operand;
+        return this.properIncludesToSql({ ...(expr as ElmBinaryOp), operand: [right, left] }, context);
+      }
+      case 'Collapse':        return this.collapseToSql(expr as ElmCollapse, context);
+      case 'Expand':          return this.expandToSql(expr as ElmExpand, context);
       case 'Quantity':        return this.quantityToSql(expr as ElmQuantity);
       case 'Add':             return this.arithmeticToSql(expr as ElmBinaryOp, '+', context);
       case 'Subtract':        return this.arithmeticToSql(expr as ElmBinaryOp, '-', context);
@@ -500,6 +1085,14 @@ export class ElmToSqlTranspiler {
       case 'First':           return `SELECT * FROM (${this.exprToSqlInline((expr as { source: ElmExpression }).source, context)}) _f LIMIT 1`;
       case 'Last':            return `SELECT * FROM (${this.exprToSqlInline((expr as { source: ElmExpression }).source, context)}) _l ORDER BY 1 DESC LIMIT 1`;
       case 'List':            return this.listToSql((expr as { element?: ElmExpression[] }).element ?? [], context);
+      case 'Sort':            return this.sortToSql(expr as ElmSort, context);
+      case 'IndexOf':         return this.indexOfToSql(expr as ElmIndexOf, context);
+      case 'Slice':           return this.sliceToSql(expr as ElmSlice, context);
+      case 'Coalesce':        return this.coalesceToSql((expr as ElmNaryOp).operand, context);
+      case 'Message':         return this.messageToSql(expr as ElmMessage, context);
+      case 'Matches':         return this.matchesToSql(expr as ElmBinaryOp, context);
+      case 'Split':           return this.splitToSql(expr as ElmSplit, context);
+      case 'Combine':         return this.combineToSql(expr as ElmCombine, context);
       case 'AnyTrue':         return `(SELECT bool_or(val) FROM (${this.exprToSqlInline((expr as ElmUnaryOp).operand, context)}) _a(val))`;
       case 'AllTrue':         return `(SELECT bool_and(val) FROM (${this.exprToSqlInline((expr as ElmUnaryOp).operand, context)}) _a(val))`;
       default: {
@@ -529,7 +1122,7 @@ export class ElmToSqlTranspiler {
           const synth: ElmFunctionRef = { type: 'FunctionRef', name: typeName, operand: ops };
           return this.functionRefToSql(synth, context);
         }
-        this.warn(`Unsupported ELM expression type: ${typeName}`);
+        this.warn(`Unsupported ELM expression type: ${typeName}`, 'unsupported');
         return `NULL /* unsupported: ${typeName} */`;
       }
     }
@@ -547,7 +1140,10 @@ export class ElmToSqlTranspiler {
 
   private retrieveToSql(expr: ElmRetrieve, _context: string): string {
     const resource = stripFhirNamespace(expr.dataType);
-    const view = RESOURCE_VIEW_MAP[resource] ?? `${resource.toLowerCase()}_view`;
+    const view =
+      this.opts.resourceViews[resource]?.view ??
+      RESOURCE_VIEW_MAP[resource] ??
+      `${resource.toLowerCase()}_view`;
 
     const lines: string[] = [`SELECT * FROM ${view}`];
 
@@ -560,31 +1156,240 @@ export class ElmToSqlTranspiler {
   }
 
   private codeFilterToSql(codesExpr: ElmExpression, resource: string): string {
-    const codeColumn = codeColumnFor(resource);
+    const mapping = this.opts.resourceViews[resource];
+    const codeColumn = mapping?.codeColumn ?? codeColumnFor(resource);
+    const codingColumn = mapping ? (mapping.codingColumn ?? null) : codingColumnFor(resource);
     if (codesExpr.type === 'ValueSetRef') {
       const ref = codesExpr as ElmValueSetRef;
-      const oid = this.valueSets.get(ref.name);
-      return oid
-        ? `${codeColumn} IN (SELECT code FROM value_set_expansion WHERE value_set_id = '${oid}')`
-        : `${codeColumn} IS NOT NULL -- value set: ${ref.name}`;
+      const oid = this.valueSetId(ref);
+      if (!oid) return `FALSE /* value set: ${ref.name} */`;
+      return codingColumn
+        ? this.codingsInValueSetSql(codingColumn, oid)
+        : `${codeColumn} IN (SELECT code FROM value_set_expansion WHERE value_set_id = '${oid}')`;
+    }
+    const codes = this.codeLiterals(codesExpr);
+    if (codes) {
+      if (codingColumn) return this.codingsMatchSql(codingColumn, codes);
+      return codes.length ? `${codeColumn} IN (${codes.map(c => sqlString(c.code)).join(', ')})` : 'FALSE';
     }
     if (codesExpr.type === 'List') {
       const list = codesExpr as { element?: ElmExpression[] };
-      const codes = (list.element ?? [])
+      const literals = (list.element ?? [])
         .filter(e => e.type === 'Literal' || (e as unknown as { id?: string }).id !== undefined)
         .map(e => {
           if (e.type === 'Literal') return `'${(e as ElmLiteral).value}'`;
           return `'${(e as unknown as { id?: string }).id ?? ''}'`;
         });
-      return codes.length > 0 ? `${codeColumn} IN (${codes.join(', ')})` : '';
+      return literals.length > 0 ? `${codeColumn} IN (${literals.join(', ')})` : '';
     }
     return '';
   }
 
+  // ─── Direct-reference codes ───────────────────────────────────────────────
+  //
+  // `code` / `concept` declarations, Code and Concept selectors and their
+  // FHIRHelpers conversions resolve to system + code pairs. Coded elements are
+  // matched through their Coding array column, so a resource matches when any
+  // of its codings does — CQL `~` on concepts.
+
+  /** Codes an expression denotes, or null when it is not a direct-reference code, concept or list of them. */
+  private codeLiterals(expr: ElmExpression): CodeLiteral[] | null {
+    switch (expr.type) {
+      case 'CodeRef': {
+        const ref = expr as ElmCodeRef;
+        const scope = ref.libraryName ? this.includedLibrary(ref.libraryName).scope : this.scope;
+        const def = scope?.codes.get(ref.name);
+        const system = def ? scope?.codeSystems.get(def.codeSystem.name) : undefined;
+        if (!def || system === undefined) {
+          this.warn(`Unresolved CodeRef: ${ref.name}`, 'unresolved');
+          return null;
+        }
+        return [{ system, code: def.id }];
+      }
+      case 'ConceptRef': {
+        const ref = expr as ElmConceptRef;
+        const scope = ref.libraryName ? this.includedLibrary(ref.libraryName).scope : this.scope;
+        const def = scope?.concepts.get(ref.name);
+        if (!def) {
+          this.warn(`Unresolved ConceptRef: ${ref.name}`, 'unresolved');
+          return null;
+        }
+        const refs = (def.code ?? []).map(
+          (c): ElmCodeRef => ({ type: 'CodeRef', name: c.name, libraryName: ref.libraryName }),
+        );
+        return this.codeLiteralList(refs);
+      }
+      case 'Code': {
+        const code = expr as ElmCode;
+        const scope = code.system.libraryName ? this.includedLibrary(code.system.libraryName).scope : this.scope;
+        const system = scope?.codeSystems.get(code.system.name);
+        if (system === undefined) {
+          this.warn(`Unresolved CodeSystemRef: ${code.system.name}`, 'unresolved');
+          return null;
+        }
+        return [{ system, code: code.code }];
+      }
+      case 'Concept':
+        return this.codeLiteralList((expr as ElmConcept).code ?? []);
+      case 'List':
+        return this.codeLiteralList((expr as { element?: ElmExpression[] }).element ?? []);
+      case 'ToConcept':
+      case 'ToList':
+        return this.codeLiterals((expr as ElmUnaryOp).operand);
+      case 'FunctionRef': {
+        const fn = expr as ElmFunctionRef;
+        const operand = fn.operand ?? [];
+        return (fn.name === 'ToConcept' || fn.name === 'ToCode') && operand.length === 1
+          ? this.codeLiterals(operand[0])
+          : null;
+      }
+      case 'Property': {
+        // `"Concept".codes` — the translator's list form of a concept
+        const prop = expr as ElmProperty;
+        return prop.path === 'codes' && prop.source?.type === 'ConceptRef'
+          ? this.codeLiterals(prop.source)
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * A Code selector used as a value, e.g. the `then` of an SDE `case`, as
+   * `'system|code'` text — the form supplemental data report coded values in.
+   */
+  private codeValueToSql(expr: ElmCode): string {
+    const [code] = this.codeLiterals(expr) ?? [];
+    return code ? sqlString(`${code.system}|${code.code}`) : 'NULL';
+  }
+
+  private codeLiteralList(exprs: ElmExpression[]): CodeLiteral[] | null {
+    const out: CodeLiteral[] = [];
+    for (const e of exprs) {
+      const codes = this.codeLiterals(e);
+      if (!codes) return null;
+      out.push(...codes);
+    }
+    return out;
+  }
+
+  /**
+   * Coding array column of a coded element read from a query row, e.g.
+   * `O.code_coding` for `O.code` or `FHIRHelpers.ToConcept(O.code)`; null for
+   * anything else.
+   */
+  private codingColumnOf(expr: ElmExpression): string | null {
+    if (expr.type === 'ToConcept' || expr.type === 'ToList') {
+      return this.codingColumnOf((expr as ElmUnaryOp).operand);
+    }
+    if (expr.type === 'FunctionRef') {
+      const fn = expr as ElmFunctionRef;
+      const operand = fn.operand ?? [];
+      return (fn.name === 'ToConcept' || fn.name === 'ToCode') && operand.length === 1
+        ? this.codingColumnOf(operand[0])
+        : null;
+    }
+    if (expr.type !== 'Property') return null;
+    const prop = expr as ElmProperty;
+    const element = prop.path.replace(/\.coding$/, '');
+    if (!CODING_COLUMN_BY_PATH[element]) return null;
+    const alias = prop.scope ?? this.boundOperandAlias(prop.source);
+    let resource: string | null;
+    if (alias) resource = this.aliasResources.get(alias) ?? null;
+    else if (prop.source?.type === 'ExpressionRef') resource = this.sourceResource(prop.source);
+    else return null;
+    const column = this.elementCodingColumn(resource, element);
+    return column ? this.propertyToSql({ ...prop, path: column }) : null;
+  }
+
+  /**
+   * Coding array column of `element` in the view `resource` is read from. A
+   * view mapped by `resourceViews` exposes only its filtered element's column;
+   * an unknown resource is assumed to follow the standard column names. A
+   * standard view without the column warns and falls back to the plain code.
+   */
+  private elementCodingColumn(resource: string | null, element: string): string | null {
+    if (resource === null) return CODING_COLUMN_BY_PATH[element];
+    const mapping = this.opts.resourceViews[resource];
+    if (mapping) {
+      const filtered = CODING_COLUMNS_BY_RESOURCE[resource]?.[element] === codingColumnFor(resource);
+      return filtered ? (mapping.codingColumn ?? null) : null;
+    }
+    const columns = CODING_COLUMNS_BY_RESOURCE[resource];
+    if (!columns) return CODING_COLUMN_BY_PATH[element];
+    const column = columns[element];
+    if (!column) {
+      this.warnOnce(
+        `${resource} has no coding column for ${element}; comparing its value as a code`,
+        'unsupported',
+      );
+      return null;
+    }
+    return column;
+  }
+
+  /** Resource type whose rows `expr` yields, following references to defines. */
+  private sourceResource(expr: ElmExpression): string | null {
+    return rootRetrieveResource(expr, ref => {
+      const scope = ref.libraryName ? this.includedLibrary(ref.libraryName).scope : this.scope;
+      return scope?.defines.get(ref.name)?.expression;
+    });
+  }
+
+  /** `=` / `~`: any coding of a coded element against direct-reference codes, else a plain `=`. */
+  private equalToSql(expr: ElmBinaryOp, context: string): string {
+    const [left, right] = expr.operand;
+    return this.codeMatchToSql(left, right) ?? this.codeMatchToSql(right, left) ??
+      this.comparisonToSql(expr, '=', context);
+  }
+
+  /** `element` is a coded element and `codes` direct-reference codes → match any coding; else null. */
+  private codeMatchToSql(element?: ElmExpression, codes?: ElmExpression): string | null {
+    if (!element || !codes) return null;
+    const column = this.codingColumnOf(element);
+    const literals = column ? this.codeLiterals(codes) : null;
+    return column && literals ? this.codingsMatchSql(column, literals) : null;
+  }
+
+  private inValueSetToSql(expr: ElmInValueSet, context: string): string {
+    const operand = expr.code ?? expr.codes;
+    const vs = expr.valueset;
+    if (!operand || !vs) {
+      this.warn(`Unsupported ${expr.type} without a value set reference`, 'unsupported');
+      return `NULL /* unsupported: ${expr.type} */`;
+    }
+    const oid = this.valueSetId(vs);
+    if (!oid) return `FALSE /* value set: ${vs.name} */`;
+    const column = this.codingColumnOf(operand);
+    if (column) return this.codingsInValueSetSql(column, oid);
+    const l = this.exprToSqlInline(operand, context);
+    return `${l} IN (SELECT code FROM value_set_expansion WHERE value_set_id = '${oid}')`;
+  }
+
+  /** Some coding of the JSON Coding array `column` is one of `codes` (system and code). */
+  private codingsMatchSql(column: string, codes: CodeLiteral[]): string {
+    if (!codes.length) return 'FALSE';
+    const match = codes
+      .map(c => `(_cd.system = ${sqlString(c.system)} AND _cd.code = ${sqlString(c.code)})`)
+      .join(' OR ');
+    return `EXISTS (SELECT 1 FROM ${this.opts.dialect.codings(column, '_cd')} WHERE ${match})`;
+  }
+
+  /** Some coding of the JSON Coding array `column` is in the expanded value set (system and code). */
+  private codingsInValueSetSql(column: string, valueSetId: string): string {
+    return (
+      `EXISTS (SELECT 1 FROM ${this.opts.dialect.codings(column, '_cd')} ` +
+      `WHERE EXISTS (SELECT 1 FROM value_set_expansion _vs WHERE _vs.value_set_id = '${valueSetId}' ` +
+      `AND _vs.system = _cd.system AND _vs.code = _cd.code))`
+    );
+  }
+
   // ─── Query → SELECT/WHERE/JOIN ────────────────────────────────────────────
 
   private queryToSql(expr: ElmQuery, context: string): string {
     if (expr.source.length === 0) return 'SELECT NULL';
+    if (expr.aggregate) return this.queryAggregateToSql(expr, expr.aggregate, context);
 
     const [primarySource, ...additionalSources] = expr.source;
     const alias = primarySource.alias;
@@ -594,6 +1399,10 @@ export class ElmToSqlTranspiler {
     if (rootRetrieveResource(primarySource.expression) === 'Patient') {
       this.currentPatientAlias = alias;
     }
+    const prevResources = new Map(this.aliasResources);
+    for (const src of expr.source) {
+      this.aliasResources.set(src.alias, this.sourceResource(src.expression));
+    }
     try {
     const parts: string[] = [];
 
@@ -629,26 +1438,70 @@ export class ElmToSqlTranspiler {
     }
 
     // Sort
-    if (expr.sort) {
-      const orderParts = expr.sort.by.map(b => {
-        const dir = b.direction === 'desc' ? 'DESC' : 'ASC';
-        if (b.type === 'ByColumn' && b.path) return `${b.path} ${dir}`;
-        if (b.type === 'ByExpression' && b.expression) {
-          return `${this.exprToSqlInline(b.expression, context)} ${dir}`;
-        }
-        return `1 ${dir}`;
-      });
-      if (orderParts.length > 0) parts.push(`ORDER BY ${orderParts.join(', ')}`);
+    if (expr.sort && expr.sort.by.length > 0) {
+      parts.push(this.orderByToSql(expr.sort.by, context));
     }
 
     return parts.join('\n');
     } finally {
       this.currentPatientAlias = prevAlias;
+      this.aliasResources = prevResources;
     }
   }
 
+  private orderByToSql(by: ElmSortByItem[], context: string): string {
+    const orderParts = by.map(b => {
+      const dir = b.direction === 'desc' ? 'DESC' : 'ASC';
+      if (b.type === 'ByColumn' && b.path) return `${b.path} ${dir}`;
+      if (b.type === 'ByExpression' && b.expression) {
+        return `${this.exprToSqlInline(b.expression, context)} ${dir}`;
+      }
+      return `1 ${dir}`;
+    });
+    return `ORDER BY ${orderParts.join(', ')}`;
+  }
+
+  /**
+   * `from X A aggregate R starting s: f(R, A)` folds the query rows in order
+   * with a recursive CTE: row n+1 combines the accumulator of row n with its
+   * own columns (the source alias stays `A`). Rows are numbered in the
+   * query's sort order, or by resource `id` when the query is unsorted, so the
+   * fold visits them in the same order on every run. The fold's type comes
+   * from the ELM result type when present, so the recursive term matches the seed.
+   */
+  private queryAggregateToSql(expr: ElmQuery, clause: ElmAggregateClause, context: string): string {
+    const alias = expr.source[0].alias;
+    const rows = this.queryToSql({ ...expr, aggregate: undefined, return: undefined }, context);
+    const sqlType = elmSqlType(clause.expression) ?? elmSqlType(clause.starting);
+    const cast = sqlType ? `::${sqlType}` : '';
+    const starting = clause.starting ? this.exprToSqlInline(clause.starting, context) : 'NULL';
+
+    const prev = new Map(this.queryLetBindings);
+    this.queryLetBindings.set(clause.identifier, '_acc.acc');
+    let step: string;
+    try {
+      step = this.exprToSqlInline(clause.expression, context);
+    } finally {
+      this.queryLetBindings = prev;
+    }
+    const source = clause.distinct === true ? `SELECT DISTINCT * FROM (${rows}) _r` : rows;
+    const sortBy = (expr.sort?.by ?? []).filter(b => b.type !== 'ByDirection');
+    const order = sortBy.length > 0 ? this.orderByToSql(sortBy, context) : 'ORDER BY _q.id';
+    return [
+      '(WITH RECURSIVE _src AS (',
+      `  SELECT row_number() OVER (${order}) AS _n, _q.* FROM (${source}) _q`,
+      '), _acc(_n, acc) AS (',
+      `  SELECT 0::bigint, (${starting})${cast}`,
+      '  UNION ALL',
+      `  SELECT ${alias}._n, (${step})${cast} FROM _acc JOIN _src AS ${alias} ON ${alias}._n = _acc._n + 1`,
+      ')',
+      'SELECT acc FROM _acc ORDER BY _n DESC LIMIT 1)',
+    ].join('\n');
+  }
+
   private relationshipToSql(rel: ElmRelationshipClause, parentAlias: string, context: string): string {
     const relView = this.exprToSqlInline(rel.expression, context);
+    this.aliasResources.set(rel.alias, this.sourceResource(rel.expression));
     const suchThat = rel.suchThat
       ? `AND ${this.exprToSqlInline(rel.suchThat, context)}`
       : '';
@@ -659,75 +1512,174 @@ export class ElmToSqlTranspiler {
   // ─── Expression references ─────────────────────────────────────────────────
 
   private expressionRefToSql(expr: ElmExpressionRef): string {
-    if (expr.libraryName) {
-      this.warn(`Cross-library ExpressionRef "${expr.libraryName}.${expr.name}" — treating as local`);
+    return `SELECT * FROM ${this.cteFor(expr)}`;
+  }
+
+  /**
+   * CTE holding a referenced define's rows. Defines of included libraries are
+   * named `<library>__<define>` and generated on first reference, in the
+   * included library's scope; `addCte` places them ahead of the referencing CTE.
+   */
+  private cteFor(ref: ElmExpressionRef): string {
+    const scope = ref.libraryName ? this.includedLibrary(ref.libraryName).scope : this.scope;
+    const def = scope?.defines.get(ref.name);
+    if (ref.libraryName && (!scope || !def)) {
+      this.warnOnce(
+        `Cross-library ExpressionRef "${ref.libraryName}.${ref.name}" is unresolved — treating as local`,
+        'unresolved',
+      );
+      return toSqlIdentifier(ref.name);
+    }
+    if (!scope || scope.ctePrefix === null || !def) {
+      return toSqlIdentifier(ref.name);
+    }
+    const cteName = `${scope.ctePrefix}__${toSqlIdentifier(ref.name)}`;
+    if (!this.includedCteNames.has(cteName)) {
+      this.includedCteNames.add(cteName);
+      this.usageOf(scope)?.defines.push(ref.name);
+      const prevOperands = this.operandBindings;
+      const prevLets = this.queryLetBindings;
+      this.operandBindings = new Map();
+      this.queryLetBindings = new Map();
+      try {
+        this.includedCtes.push(this.withScope(scope, () => this.generateCte(def, cteName)));
+      } finally {
+        this.operandBindings = prevOperands;
+        this.queryLetBindings = prevLets;
+      }
+    }
+    return cteName;
+  }
+
+  /**
+   * The library included as `libraryName` by the current scope, resolved
+   * through `libraryResolver` on first use. Libraries included under several
+   * names, or by several libraries, resolve once.
+   */
+  private includedLibrary(libraryName: string): IncludedLibrary {
+    const include = this.scope.includes.get(libraryName) ?? { localIdentifier: libraryName, path: libraryName };
+    const key = `${include.path}|${include.version ?? ''}`;
+    let included = this.includedLibraries.get(key);
+    if (!included) {
+      const resolved = this.opts.libraryResolver?.(include) ?? null;
+      const lib = resolved && 'library' in resolved ? resolved.library : resolved;
+      included = {
+        scope: lib ? indexLibrary(lib, include.path) : null,
+        usage: {
+          library: include.path,
+          ...(include.version ? { version: include.version } : {}),
+          resolved: lib != null,
+          defines: [],
+          functions: [],
+          nativeFunctions: [],
+        },
+      };
+      this.includedLibraries.set(key, included);
+    }
+    return included;
+  }
+
+  private usageOf(scope: LibraryScope): IncludedLibraryUsage | undefined {
+    return [...this.includedLibraries.values()].find(l => l.scope === scope)?.usage;
+  }
+
+  /** Run `fn` with `scope` as the current library, so its unqualified references resolve there. */
+  private withScope<T>(scope: LibraryScope, fn: () => T): T {
+    const prev = this.scope;
+    this.scope = scope;
+    try {
+      return fn();
+    } finally {
+      this.scope = prev;
     }
-    return `SELECT * FROM ${toSqlIdentifier(expr.name)}`;
   }
 
   // ─── Function references (AgeInYearsAt, CalculateAgeInYearsAt, etc.) ──────
 
+  /**
+   * Built-in SQL replaces the CQL of well-known functions (FHIRHelpers
+   * conversions, age calculations, string functions) wherever they are
+   * declared; other functions are inlined from the declaring library.
+   */
   private functionRefToSql(expr: ElmFunctionRef, context: string): string {
     const fn = expr.name;
     const ops = expr.operand ?? [];
 
+    const native = this.nativeFunctionToSql(fn, ops, context);
+    if (native !== null) {
+      const usage = expr.libraryName ? this.includedLibrary(expr.libraryName).usage : null;
+      if (usage && !usage.nativeFunctions.includes(fn)) usage.nativeFunctions.push(fn);
+      return native;
+    }
+    const included = expr.libraryName ? this.includedLibrary(expr.libraryName) : null;
+    const scope = included ? included.scope : this.scope;
+    const def = scope?.functions.get(fn);
+    if (scope && def) {
+      if (included && !included.usage.functions.includes(fn)) included.usage.functions.push(fn);
+      return this.userFunctionToSql(def, ops, context, scope);
+    }
+    const qualified = expr.libraryName ? `${expr.libraryName}.${fn}` : fn;
+    this.warn(`Unsupported FunctionRef: ${qualified}`, 'unsupported');
+    return `NULL /* FunctionRef:${fn} */`;
+  }
+
+  /** SQL for a function with a built-in translation, or null. */
+  private nativeFunctionToSql(fn: string, ops: ElmExpression[], context: string): string | null {
     switch (fn) {
       case 'AgeInYearsAt':
       case 'CalculateAgeInYearsAt':
       case 'CalculateAgeAt': {
-        const dateArg = asPointInTime(ops[0] ? this.exprToSqlInline(ops[0], context) : 'CURRENT_DATE');
+        const dateArg = asPointInTime(ops[0] ? this.exprToSqlInline(ops[0], context) : 'CURRENT_DATE', this.opts.dialect);
         const birthdate = `${this.patientBirthdateRef()}.birthdate`;
         return `DATE_PART('year', AGE(${dateArg}::date, ${birthdate}))::int`;
       }
       case 'AgeInMonthsAt': {
-        const dateArg = asPointInTime(ops[0] ? this.exprToSqlInline(ops[0], context) : 'CURRENT_DATE');
+        const dateArg = asPointInTime(ops[0] ? this.exprToSqlInline(ops[0], context) : 'CURRENT_DATE', this.opts.dialect);
         const birthdate = `${this.patientBirthdateRef()}.birthdate`;
         return `(DATE_PART('year', AGE(${dateArg}::date, ${birthdate})) * 12 + DATE_PART('month', AGE(${dateArg}::date, ${birthdate})))::int`;
       }
       case 'AgeInDaysAt': {
-        const dateArg = asPointInTime(ops[0] ? this.exprToSqlInline(ops[0], context) : 'CURRENT_DATE');
+        const dateArg = asPointInTime(ops[0] ? this.exprToSqlInline(ops[0], context) : 'CURRENT_DATE', this.opts.dialect);
         const birthdate = `${this.patientBirthdateRef()}.birthdate`;
         return `((${dateArg})::date - ${birthdate}::date)::int`;
       }
       case 'ToDate':
       case 'date': {
         if (!ops[0]) return 'CURRENT_DATE';
-        return `(${asPointInTime(this.exprToSqlInline(ops[0], context))})::date`;
+        return `(${asPointInTime(this.exprToSqlInline(ops[0], context), this.opts.dialect)})::date`;
       }
       case 'ToDateTime':
       case 'datetime': {
         if (!ops[0]) return 'CURRENT_TIMESTAMP';
-        return `(${asPointInTime(this.exprToSqlInline(ops[0], context))})::timestamptz`;
+        return `(${asPointInTime(this.exprToSqlInline(ops[0], context), this.opts.dialect)})::timestamptz`;
       }
       case 'start of':
       case 'Start':
-        return ops[0] ? startEndToSql(this.exprToSqlInline(ops[0], context), 'start') : 'NULL';
+        return ops[0] ? startEndToSql(this.exprToSqlInline(ops[0], context), 'start', this.opts.dialect) : 'NULL';
       case 'end of':
       case 'End':
-        return ops[0] ? startEndToSql(this.exprToSqlInline(ops[0], context), 'end') : 'NULL';
+        return ops[0] ? startEndToSql(this.exprToSqlInline(ops[0], context), 'end', this.opts.dialect) : 'NULL';
       case 'ToString':
         return ops[0] ? `(${this.exprToSqlInline(ops[0], context)})::text` : 'NULL';
       case 'ToInteger':
         return ops[0] ? `(${this.exprToSqlInline(ops[0], context)})::integer` : 'NULL';
       case 'ToDecimal':
         return ops[0] ? `(${this.exprToSqlInline(ops[0], context)})::decimal` : 'NULL';
-      case 'Coalesce': {
-        const args = ops.map(o => this.exprToSqlInline(o, context)).join(', ');
-        return `COALESCE(${args})`;
-      }
+      case 'Coalesce':
+        return this.coalesceToSql(ops, context);
       case 'ToInterval': {
         // ELM coerces a FHIR `Period` (or similar choice-typed datetime element)
         // into an `Interval<DateTime>`. Our flat-table schema stores periods as
-        // two columns (e.g. `period_start` / `period_end`), so we synthesize a
-        // `tstzrange` if the operand is a Property reference to a period-typed
+        // two columns (e.g. `period_start` / `period_end`), so we synthesize an
+        // interval if the operand is a Property reference to a period-typed
         // FHIR element. Otherwise pass through.
         const operand = ops[0];
         if (operand && operand.type === 'Property') {
           const prop = operand as ElmProperty;
-          const scope = prop.scope ?? '';
+          const scope = prop.scope ?? this.boundOperandAlias(prop.source) ?? '';
           const prefix = stripDateSuffix(prop.path);
           const alias = scope ? `${scope}.` : '';
-          return `tstzrange(${alias}${prefix}_start, ${alias}${prefix}_end, '[)')`;
+          return this.opts.dialect.interval(`${alias}${prefix}_start`, `${alias}${prefix}_end`, '[)');
         }
         return ops[0] ? this.exprToSqlInline(ops[0], context) : 'NULL';
       }
@@ -746,32 +1698,113 @@ export class ElmToSqlTranspiler {
         }
         return 'NULL';
       default:
-        this.warn(`Unsupported FunctionRef: ${fn}`);
-        return `NULL /* FunctionRef:${fn} */`;
+        return null;
+    }
+  }
+
+  /**
+   * Inline a CQL function: its body is transpiled in the declaring library's
+   * scope with each operand bound to the caller's argument. Row-valued
+   * arguments (a query alias) bind directly so `Encounter.period` reads that
+   * row's columns.
+   */
+  private userFunctionToSql(
+    fn: ElmExpressionDef,
+    args: ElmExpression[],
+    context: string,
+    scope: LibraryScope = this.scope,
+  ): string {
+    const operands = fn.operand ?? [];
+    const prev = new Map(this.operandBindings);
+    try {
+      operands.forEach((op, i) => {
+        const arg = args[i];
+        if (!arg) return;
+        const argType = (arg as { type: string }).type;
+        const alias =
+          argType === 'AliasRef'
+            ? (arg as unknown as { name: string }).name
+            : argType === 'OperandRef'
+            ? this.operandBindings.get((arg as ElmOperandRef).name)
+            : undefined;
+        this.operandBindings.set(op.name, alias ?? `(${this.exprToSqlInline(arg, context)})`);
+      });
+      const body = this.withScope(scope, () =>
+        this.atDefinition(fn, () => this.exprToSqlInline(fn.expression, context)),
+      );
+      return `(${body})`;
+    } finally {
+      this.operandBindings = prev;
     }
   }
 
+  private operandRefToSql(expr: ElmOperandRef): string {
+    const bound = this.operandBindings.get(expr.name);
+    if (bound) {
+      return bound;
+    }
+    this.warn(`Unbound OperandRef: ${expr.name}`, 'unresolved');
+    return `NULL /* OperandRef:${expr.name} */`;
+  }
+
+  private queryLetRefToSql(expr: ElmQueryLetRef): string {
+    const bound = this.queryLetBindings.get(expr.name);
+    if (bound) {
+      return bound;
+    }
+    this.warn(`Unbound QueryLetRef: ${expr.name}`, 'unresolved');
+    return `NULL /* QueryLetRef:${expr.name} */`;
+  }
+
+  private boundOperandAlias(source: ElmExpression | undefined): string | undefined {
+    return source?.type === 'OperandRef' ? this.operandBindings.get((source as ElmOperandRef).name) : undefined;
+  }
+
   // ─── Parameter references ──────────────────────────────────────────────────
 
   private parameterRefToSql(expr: ElmParameterRef): string {
-    const literal = parameterValueToSqlLiteral(expr.name, this.opts.parameterValues[expr.name]);
+    const literal = parameterValueToSqlLiteral(
+      expr.name,
+      this.opts.parameterValues[expr.name],
+      this.opts.dialect,
+    );
     if (literal) {
       return literal;
     }
     if (expr.name === 'Measurement Period') {
-      return `tstzrange('${this.opts.measurementPeriodStart}', '${this.opts.measurementPeriodEnd}', '[)')`;
+      const { measurementPeriodStart: start, measurementPeriodEnd: end } = this.opts;
+      return this.opts.dialect.interval(`'${start}'`, `'${end}'`, '[)');
     }
-    this.warn(`Unresolved ParameterRef: ${expr.name}`);
+    this.warn(`Unresolved ParameterRef: ${expr.name}`, 'unresolved');
     return `NULL /* ParameterRef:${expr.name} */`;
   }
 
   // ─── ValueSet references ──────────────────────────────────────────────────
 
   private valueSetRefToSql(expr: ElmValueSetRef): string {
-    const oid = this.valueSets.get(expr.name);
+    const oid = this.valueSetId(expr);
     return oid ? `'${oid}'` : `'${expr.name}'`;
   }
 
+  /**
+   * OID/URL of a value set of this library or, with `libraryName`, of an
+   * included one. Undefined, with an `unresolved` warning, when neither the
+   * value set nor its library can be found.
+   */
+  private valueSetId(ref: ElmValueSetRef): string | undefined {
+    const scope = ref.libraryName ? this.includedLibrary(ref.libraryName).scope : this.scope;
+    const vs = scope?.valueSets.get(ref.name);
+    if (!vs) {
+      const name = ref.libraryName ? `${ref.libraryName}.${ref.name}` : ref.name;
+      this.warnOnce(`Unresolved ValueSetRef: ${name}`, 'unresolved');
+      return undefined;
+    }
+    if (scope?.ctePrefix != null && !this.includedValueSets.some(v => v.url === vs.id)) {
+      this.includedValueSets.push({ name: vs.name, url: vs.id, ...(vs.version ? { version: vs.version } : {}) });
+    }
+    return vs.id;
+  }
+
   // ─── Property access ──────────────────────────────────────────────────────
 
   private propertyToSql(expr: ElmProperty): string {
@@ -786,7 +1819,9 @@ export class ElmToSqlTranspiler {
     if (expr.scope) return `${expr.scope}.${path}`;
     if (expr.source) {
       const src = expr.source;
-      if (src.type === 'ExpressionRef') return `${toSqlIdentifier((src as ElmExpressionRef).name)}.${path}`;
+      const operandAlias = this.boundOperandAlias(src);
+      if (operandAlias) return `${operandAlias}.${path}`;
+      if (src.type === 'ExpressionRef') return `${this.cteFor(src as ElmExpressionRef)}.${path}`;
       if (src.type === 'Property') return `${this.propertyToSql(src as ElmProperty)}_${path}`;
     }
     return path;
@@ -822,6 +1857,8 @@ export class ElmToSqlTranspiler {
       effectiveDateTime: 'effective_datetime',
       'value.value': 'value_quantity',
       authoredOn: 'authored_on',
+      occurrence: 'occurrence_datetime',
+      occurrenceDateTime: 'occurrence_datetime',
       'period.start': 'period_start',
       'period.end': 'period_end',
     };
@@ -849,7 +1886,7 @@ export class ElmToSqlTranspiler {
     const hi = expr.high ? this.exprToSqlInline(expr.high, 'Patient') : 'NULL';
     const lBracket = expr.lowClosed !== false ? '[' : '(';
     const rBracket = expr.highClosed !== false ? ']' : ')';
-    return `tstzrange(${lo}, ${hi}, '${lBracket}${rBracket}')`;
+    return this.opts.dialect.interval(lo, hi, `${lBracket}${rBracket}` as IntervalBounds);
   }
 
   // ─── Boolean operators ────────────────────────────────────────────────────
@@ -888,24 +1925,35 @@ export class ElmToSqlTranspiler {
 
   private inToSql(expr: ElmBinaryOp, context: string): string {
     const [left, right] = expr.operand;
+    // Coded element in a value set or a list of codes: match any of its codings
+    const codingColumn = this.codingColumnOf(left);
+    if (codingColumn && right.type === 'ValueSetRef') {
+      const oid = this.valueSetId(right as ElmValueSetRef);
+      if (oid) return this.codingsInValueSetSql(codingColumn, oid);
+    }
+    // `"Code" in O.category` as well as `O.code in { "A", "B" }`
+    const codeMatch = this.codeMatchToSql(left, right) ?? this.codeMatchToSql(right, left);
+    if (codeMatch) return codeMatch;
+
     const l = this.exprToSqlInline(left, context);
     const r = this.exprToSqlInline(right, context);
 
-    // Interval-in-interval (e.g. `E.period during MeasurementPeriod`) uses the
-    // `<@` range-containment operator instead of `@>` against a point.
+    // Interval-in-interval (e.g. `E.period during MeasurementPeriod`) tests
+    // range inclusion instead of containment of a point.
     if (right.type === 'ParameterRef' || right.type === 'Interval') {
-      if (/^ts(tz)?range\b/i.test(l.trim())) {
-        return `${l} <@ ${r}`;
+      const dialect = this.opts.dialect;
+      if (dialect.isInterval(l)) {
+        return dialect.intervalIncludedIn(l, r);
       }
-      return `${r} @> ${l}::timestamptz`;
+      return dialect.intervalContains(r, `${l}::timestamptz`);
     }
     // ValueSet membership
     if (right.type === 'ValueSetRef') {
       const vs = right as ElmValueSetRef;
-      const oid = this.valueSets.get(vs.name);
+      const oid = this.valueSetId(vs);
       return oid
         ? `${l} IN (SELECT code FROM value_set_expansion WHERE value_set_id = '${oid}')`
-        : `TRUE -- in value set: ${vs.name}`;
+        : `FALSE /* value set: ${vs.name} */`;
     }
     // List membership
     if (right.type === 'List') {
@@ -919,6 +1967,8 @@ export class ElmToSqlTranspiler {
   private containsToSql(expr: ElmBinaryOp, context: string): string {
     // Reverse of In
     const [left, right] = expr.operand;
+    const codeMatch = this.codeMatchToSql(left, right);
+    if (codeMatch) return codeMatch;
     const l = this.exprToSqlInline(left, context);
     const r = this.exprToSqlInline(right, context);
     return `${l} @> ARRAY[${r}]`;
@@ -927,9 +1977,9 @@ export class ElmToSqlTranspiler {
   // ─── Temporal comparisons (Before / After / SameOrBefore / SameOrAfter) ───
   //
   // CQL's `before`/`after` compare points and/or intervals. When an operand
-  // renders as a Postgres range expression we reduce it to the relevant
-  // endpoint: `X before I` compares against lower(I); `I before X` compares
-  // upper(I). Point-vs-point falls through to a plain operator.
+  // renders as an interval we reduce it to the relevant endpoint: `X before I`
+  // compares against start of I; `I before X` compares end of I. Point-vs-point
+  // falls through to a plain operator.
 
   private temporalCompareToSql(expr: ElmBinaryOp, kind: string, context: string): string {
     const [left, right] = expr.operand;
@@ -938,12 +1988,11 @@ export class ElmToSqlTranspiler {
     const op = kind === 'Before' ? '<' : kind === 'SameOrBefore' ? '<=' : kind === 'After' ? '>' : '>=';
     const beforeish = op === '<' || op === '<=';
 
-    const lIsRange = /^ts(tz)?range\b/i.test(l.trim());
-    const rIsRange = /^ts(tz)?range\b/i.test(r.trim());
+    const dialect = this.opts.dialect;
     // `I before X` → the whole interval ends before X.
-    if (lIsRange) l = `${beforeish ? 'upper' : 'lower'}(${l})`;
+    if (dialect.isInterval(l)) l = beforeish ? dialect.intervalEnd(l) : dialect.intervalStart(l);
     // `X before I` → X is before the interval starts.
-    if (rIsRange) r = `${beforeish ? 'lower' : 'upper'}(${r})`;
+    if (dialect.isInterval(r)) r = beforeish ? dialect.intervalStart(r) : dialect.intervalEnd(r);
 
     return `${l} ${op} ${r}`;
   }
@@ -952,14 +2001,76 @@ export class ElmToSqlTranspiler {
     const [left, right] = expr.operand;
     const l = this.exprToSqlInline(left, context);
     const r = this.exprToSqlInline(right, context);
-    return `${l} && ${r}`;
+    return this.opts.dialect.intervalOverlaps(l, r);
+  }
+
+  // ─── Interval operators (Width / Meets / Starts / Ends / ProperIncludes) ──
+
+  private widthToSql(expr: ElmUnaryOp, context: string): string {
+    const r = this.exprToSqlInline(expr.operand, context);
+    return `(${this.opts.dialect.intervalEnd(r)} - ${this.opts.dialect.intervalStart(r)})`;
+  }
+
+  /**
+   * Meets is range adjacency, so it follows the bounds of the ranges: a closed
+   * `[a, b]` meets `(b, c]` but not `[b, c]`. MeetsBefore / MeetsAfter also fix
+   * which side comes first.
+   */
+  private meetsToSql(expr: ElmBinaryOp, context: string): string {
+    const [left, right] = expr.operand;
+    const l = this.exprToSqlInline(left, context);
+    const r = this.exprToSqlInline(right, context);
+    const { intervalMeets, intervalBefore, intervalAfter } = this.opts.dialect;
+    if (expr.type === 'MeetsBefore') return `(${intervalMeets(l, r)} AND ${intervalBefore(l, r)})`;
+    if (expr.type === 'MeetsAfter') return `(${intervalMeets(l, r)} AND ${intervalAfter(l, r)})`;
+    return `(${intervalMeets(l, r)})`;
+  }
+
+  /**
+   * Starts / Ends compare bounds together with their closedness: `[a, b)` does
+   * not start `(a, c]`, and `[a, b]` ends within `[x, b]` but not `[x, b)`.
+   */
+  private startsEndsToSql(expr: ElmBinaryOp, context: string): string {
+    const [left, right] = expr.operand;
+    const l = this.exprToSqlInline(left, context);
+    const r = this.exprToSqlInline(right, context);
+    const {
+      intervalStart: start,
+      intervalEnd: end,
+      intervalStartClosed: startClosed,
+      intervalEndClosed: endClosed,
+    } = this.opts.dialect;
+    if (expr.type === 'Starts') {
+      const sameStart = `${start(l)} = ${start(r)} AND ${startClosed(l)} = ${startClosed(r)}`;
+      const endsWithin = `(${end(l)} < ${end(r)} OR (${end(l)} = ${end(r)} AND (${endClosed(r)} OR NOT ${endClosed(l)})))`;
+      return `(${sameStart} AND ${endsWithin})`;
+    }
+    const sameEnd = `${end(l)} = ${end(r)} AND ${endClosed(l)} = ${endClosed(r)}`;
+    const startsWithin = `(${start(l)} > ${start(r)} OR (${start(l)} = ${start(r)} AND (${startClosed(r)} OR NOT ${startClosed(l)})))`;
+    return `(${sameEnd} AND ${startsWithin})`;
+  }
+
+  /**
+   * Intervals: inclusion without equality. Lists (row sets): every row of the
+   * right side is on the left, and the left has at least one row the right lacks.
+   */
+  private properIncludesToSql(expr: ElmBinaryOp, context: string): string {
+    const [left, right] = expr.operand;
+    const l = this.exprToSqlInline(left, context);
+    const r = this.exprToSqlInline(right, context);
+    const dialect = this.opts.dialect;
+    if (dialect.isInterval(l) || dialect.isInterval(r)) {
+      return `(${dialect.intervalIncludes(l, r)} AND ${l} <> ${r})`;
+    }
+    const except = (a: string, b: string) => `SELECT * FROM (${a}) _pa EXCEPT SELECT * FROM (${b}) _pb`;
+    return `(NOT EXISTS (${except(r, l)}) AND EXISTS (${except(l, r)}))`;
   }
 
   // ─── Quantity literals ─────────────────────────────────────────────────────
   //
-  // Temporal units render as Postgres INTERVAL literals so date arithmetic
+  // Temporal units render as INTERVAL literals so date arithmetic
   // (`end of "Measurement Period" - 10 years`) becomes `upper(...) - INTERVAL
-  // '10 years'`. Non-temporal (UCUM) units render as the bare numeric value —
+  // '10 years'` in PostgreSQL. Non-temporal (UCUM) units render as the bare numeric value —
   // the flat schema stores magnitudes without units, so `HbA1c > 9 '%'`
   // compares value_quantity > 9.
 
@@ -982,14 +2093,18 @@ export class ElmToSqlTranspiler {
     const keyCol = patientAlias ? this.existsKeyColumnFor(operand) : null;
 
     if (operand.type === 'ExpressionRef' && patientAlias && keyCol) {
-      const cte = toSqlIdentifier((operand as ElmExpressionRef).name);
+      const cte = this.cteFor(operand as ElmExpressionRef);
       return `EXISTS (SELECT 1 FROM ${cte} _e WHERE _e.${keyCol} = ${patientAlias}.id)`;
     }
-    const inner = this.exprToSqlInline(operand, context);
-    const correlation = patientAlias && keyCol ? ` WHERE _e.${keyCol} = ${patientAlias}.id` : '';
-    if (/^\s*SELECT\b/i.test(inner)) {
-      return `EXISTS (SELECT 1 FROM (${inner}) _e${correlation})`;
+    const inner = this.exprToSql(operand, context);
+    // A single value or interval (not a row set) exists when it is non-null;
+    // an interval must also be non-empty.
+    if (!startsWithSqlStatement(inner)) {
+      return this.opts.dialect.isInterval(inner)
+        ? `(${inner} IS NOT NULL AND NOT ${this.opts.dialect.intervalEmpty(inner)})`
+        : `(${inner} IS NOT NULL)`;
     }
+    const correlation = patientAlias && keyCol ? ` WHERE _e.${keyCol} = ${patientAlias}.id` : '';
     return `EXISTS (SELECT 1 FROM (${inner}) _e${correlation})`;
   }
 
@@ -1000,7 +2115,7 @@ export class ElmToSqlTranspiler {
    */
   private existsKeyColumnFor(operand: ElmExpression): string | null {
     if (operand.type === 'ExpressionRef') {
-      const ref = toSqlIdentifier((operand as ElmExpressionRef).name);
+      const ref = this.cteFor(operand as ElmExpressionRef);
       return this.defineKeyColumn.get(ref) ?? null;
     }
     const resource = rootRetrieveResource(operand);
@@ -1073,10 +2188,13 @@ export class ElmToSqlTranspiler {
 
   // ─── Aggregates ───────────────────────────────────────────────────────────
 
-  private aggregateToSql(expr: ElmAggregate, fn: string, context: string): string {
+  private aggregateToSql(expr: ElmAggregate, context: string): string {
     const src = this.exprToSqlInline(expr.source, context);
-    const col = expr.path ? expr.path : '*';
-    return `(SELECT ${fn}(${col}) FROM (${src}) _agg)`;
+    // Without a path the aggregate runs over the list's (first) column.
+    if (expr.path) {
+      return `(SELECT ${elmAggregateSql(expr.type, expr.path)} FROM (${src}) _agg)`;
+    }
+    return `(SELECT ${elmAggregateSql(expr.type, '_agg.v')} FROM (${src}) _agg(v))`;
   }
 
   // ─── DurationBetween ──────────────────────────────────────────────────────
@@ -1109,6 +2227,136 @@ export class ElmToSqlTranspiler {
     return `VALUES ${vals}`;
   }
 
+  // ─── List operators ───────────────────────────────────────────────────────
+  //
+  // Lists are row sets whose first column is the element, so these alias the
+  // source as `_x(v)` and return one `v` column.
+
+  /** Merges overlapping and adjacent intervals (`range_agg` in PostgreSQL). */
+  private collapseToSql(expr: ElmCollapse, context: string): string {
+    const [source, per] = expr.operand;
+    const collapsed = this.opts.dialect.collapseIntervals(this.exprToSqlInline(source, context));
+    if (collapsed === null) {
+      this.warn(`Collapse is not supported in ${this.opts.dialect.label}`, 'unsupported');
+      return 'SELECT NULL AS v LIMIT 0 /* unsupported: Collapse */';
+    }
+    if (per && per.type !== 'Null') {
+      this.warn(
+        'Collapse "per" quantity is not supported — collapsing by range adjacency only',
+        'unsupported',
+      );
+    }
+    return collapsed;
+  }
+
+  /**
+   * A list of intervals expands to unit intervals `[g, g + per)`; a single
+   * interval expands to its points. `per` defaults to one day.
+   */
+  private expandToSql(expr: ElmExpand, context: string): string {
+    const [source, per] = expr.operand;
+    const step = per && per.type !== 'Null' ? this.exprToSqlInline(per, context) : `INTERVAL '1 day'`;
+    const src = this.exprToSqlInline(source, context);
+    const { interval, intervalStart: start, intervalEnd: end, intervalEndClosed: endClosed, series } =
+      this.opts.dialect;
+    if (this.opts.dialect.isInterval(src)) {
+      return [
+        `SELECT _g AS v FROM ${series(start(src), end(src), step, '_g')}`,
+        `WHERE _g < ${end(src)} OR ${endClosed(src)}`,
+      ].join('\n');
+    }
+    return [
+      `SELECT ${interval('_g', `_g + ${step}`, '[)')} AS v`,
+      `FROM (${src}) _x(v)`,
+      `CROSS JOIN LATERAL ${series(start('_x.v'), end('_x.v'), step, '_g')}`,
+      `WHERE _g < ${end('_x.v')} OR ${endClosed('_x.v')}`,
+    ].join('\n');
+  }
+
+  private sortToSql(expr: ElmSort, context: string): string {
+    const src = this.exprToSqlInline(expr.source, context);
+    const by: ElmSortByItem[] = expr.by?.length ? expr.by : [{ type: 'ByDirection' }];
+    return `SELECT * FROM (${src}) _so ${this.orderByToSql(by, context)}`;
+  }
+
+  /**
+   * 0-based position of the first matching element; -1 when it is absent.
+   * Positions are the ordinality of the list collected into an array, which
+   * keeps the list's own order.
+   */
+  private indexOfToSql(expr: ElmIndexOf, context: string): string {
+    const src = this.exprToSqlInline(expr.source, context);
+    const element = this.exprToSqlInline(expr.element, context);
+    const numbered = `unnest(ARRAY(SELECT _iv.v FROM (${src}) _iv(v))) WITH ORDINALITY AS _ix(v, n)`;
+    return `COALESCE((SELECT _ix.n - 1 FROM ${numbered} WHERE _ix.v = ${element} ORDER BY _ix.n LIMIT 1), -1)`;
+  }
+
+  /** Skip / Take / Tail: 0-based `[startIndex, endIndex)`; a null end runs to the end of the list. */
+  private sliceToSql(expr: ElmSlice, context: string): string {
+    const src = this.exprToSqlInline(expr.source, context);
+    const start =
+      expr.startIndex && expr.startIndex.type !== 'Null' ? this.exprToSqlInline(expr.startIndex, context) : '0';
+    const parts = [`SELECT * FROM (${src}) _sl`];
+    if (expr.endIndex && expr.endIndex.type !== 'Null') {
+      parts.push(`LIMIT GREATEST((${this.exprToSqlInline(expr.endIndex, context)}) - (${start}), 0)`);
+    }
+    parts.push(`OFFSET ${start}`);
+    return parts.join(' ');
+  }
+
+  /** COALESCE over the arguments; a single list argument yields its first non-null element. */
+  private coalesceToSql(operands: ElmExpression[], context: string): string {
+    if (operands.length === 1) {
+      const src = this.exprToSql(operands[0], context);
+      if (startsWithSqlStatement(src)) {
+        return `(SELECT _co.v FROM (${src}) _co(v) WHERE _co.v IS NOT NULL LIMIT 1)`;
+      }
+    }
+    return `COALESCE(${operands.map(o => this.exprToSqlInline(o, context)).join(', ')})`;
+  }
+
+  /**
+   * Trace and Warning messages only log, so their source passes through. SQL
+   * cannot raise an Error message, so that is a warning and the value becomes
+   * NULL (no rows for a list) whenever the message's condition holds.
+   */
+  private messageToSql(expr: ElmMessage, context: string): string {
+    const src = this.exprToSql(expr.source, context);
+    const severity = expr.severity?.type === 'Literal' ? (expr.severity as ElmLiteral).value : undefined;
+    if (severity !== undefined && severity.toLowerCase() !== 'error') return src;
+
+    const text = expr.message?.type === 'Literal' ? `: ${(expr.message as ElmLiteral).value}` : '';
+    this.warn(`Error messages cannot be raised in SQL${text}`, 'unsupported');
+    const condition = expr.condition ? this.exprToSqlInline(expr.condition, context) : 'TRUE';
+    const raised = severity === undefined && expr.severity
+      ? `COALESCE(${condition} AND ${this.exprToSqlInline(expr.severity, context)} = 'Error', FALSE)`
+      : `COALESCE(${condition}, FALSE)`;
+    if (/^\s*SELECT\b/i.test(src)) return `SELECT * FROM (${src}) _msg WHERE NOT ${raised}`;
+    return `CASE WHEN ${raised} THEN NULL ELSE ${src} END`;
+  }
+
+  // ─── String operators ─────────────────────────────────────────────────────
+
+  private matchesToSql(expr: ElmBinaryOp, context: string): string {
+    const [str, pattern] = expr.operand;
+    const s = this.exprToSqlInline(str, context);
+    const p = this.exprToSqlInline(pattern, context);
+    // CQL matches the whole string; POSIX `~` matches anywhere, so anchor it.
+    return `(${s} ~ ('^(?:' || ${p} || ')$'))`;
+  }
+
+  private splitToSql(expr: ElmSplit, context: string): string {
+    const s = this.exprToSqlInline(expr.stringToSplit, context);
+    const sep = this.exprToSqlInline(expr.separator, context);
+    return `SELECT unnest(string_to_array(${s}, ${sep})) AS v`;
+  }
+
+  private combineToSql(expr: ElmCombine, context: string): string {
+    const src = this.exprToSqlInline(expr.source, context);
+    const sep = expr.separator ? this.exprToSqlInline(expr.separator, context) : "''";
+    return `(SELECT string_agg(_cb.v, ${sep}) FROM (${src}) _cb(v))`;
+  }
+
   // ─── Final SELECT ─────────────────────────────────────────────────────────
 
   private generateFinalSelect(populations: string[]): string {
@@ -1131,10 +2379,364 @@ export class ElmToSqlTranspiler {
     return `SELECT\n${cols.join(',\n')}`;
   }
 
+  // ─── Stratifiers / supplemental data ──────────────────────────────────────
+
+  private stratifiedExpressionNames(): string[] {
+    const names = [
+      ...this.opts.stratifiers.flatMap(s => s.expressions),
+      ...this.opts.supplementalData.map(s => s.expression),
+    ];
+    return [...new Set(names)];
+  }
+
+  private valueCteName(defineName: string): string {
+    return `${toSqlIdentifier(defineName)}_value`;
+  }
+
+  /**
+   * Stratifier expressions that are bare Patient-context values (e.g. an age
+   * band or a gender code) referenced by no other define. Their usual CTE wraps
+   * the value as a boolean filter over Patient, which fails for non-boolean
+   * results, so only the `_value` CTE is emitted for them.
+   */
+  private valueOnlyDefines(defs: ElmExpressionDef[]): Set<string> {
+    const wanted = new Set(this.stratifiedExpressionNames());
+    if (wanted.size === 0) return new Set();
+    const nameSet = new Set(defs.map(d => d.name));
+    const referenced = new Set(defs.flatMap(d => this.collectRefs(d.expression, nameSet)));
+    return new Set(
+      defs
+        .filter(d => wanted.has(d.name) && !referenced.has(d.name) && !this.isPopulation(d.name))
+        .filter(d => (d.context ?? 'Patient') === 'Patient' && !isStatementShapedExpr(d.expression))
+        .map(d => d.name),
+    );
+  }
+
+  /**
+   * `<define>_value (patient_id, value)`: the define evaluated once per patient.
+   * Bare expressions are computed against the patient row; query-shaped defines
+   * (and value defines that also filter elsewhere) report membership — whether
+   * the patient has rows in the define's CTE.
+   */
+  private generateValueCte(def: ElmExpressionDef, bareValue: boolean): string {
+    const cteName = this.valueCteName(def.name);
+    let value: string;
+    if (bareValue) {
+      const prevAlias = this.currentPatientAlias;
+      this.currentPatientAlias = 'Patient';
+      try {
+        value = this.atDefinition(def, () => this.exprToSqlInline(def.expression, def.context ?? 'Patient'));
+      } catch (e) {
+        if (this.opts.strict) throw e;
+        const msg = e instanceof Error ? e.message : String(e);
+        this.atDefinition(def, () =>
+          this.warn(`Could not transpile stratifier expression "${def.name}": ${msg}`, 'unsupported'),
+        );
+        value = 'NULL';
+      } finally {
+        this.currentPatientAlias = prevAlias;
+      }
+    } else {
+      const source = toSqlIdentifier(def.name);
+      const keyCol = this.defineKeyColumn.get(source) ?? 'subject_id';
+      value = `EXISTS (SELECT 1 FROM ${source} _m WHERE _m.${keyCol} = Patient.id)`;
+    }
+    const comment = this.opts.includeComments ? `  -- per-patient value of "${def.name}"\n` : '';
+    const body = `SELECT Patient.id AS patient_id, (${value}) AS value\nFROM Patient`;
+    this.traceCte(cteName, 'value', def, 'patient_id');
+    return `${cteName} AS (\n${comment}${this.indent(body)}\n)`;
+  }
+
+  /**
+   * GROUP BY the stratum values, counting each population's patients within
+   * the stratum. Populations are matched by patient key rather than joined so
+   * resource-shaped population CTEs cannot multiply rows.
+   */
+  private generateStratifiedSelect(
+    id: string,
+    expressions: string[],
+    populations: string[],
+    group: MeasureGroupDefinition | undefined,
+  ): string {
+    const strata = expressions.map((_, i) => `stratum_${i}`);
+    const values = expressions.map(
+      (e, i) => `(SELECT v.value::text FROM ${this.valueCteName(e)} v WHERE v.patient_id = Patient.id) AS stratum_${i}`,
+    );
+    // Group populations are named by code so the stratum rows read like the
+    // ungrouped query (`numerator_count` → "Numerator").
+    const columns = uniqueColumns();
+    const targets = group
+      ? this.countedPopulations(group).map(p => ({
+          define: p.expression,
+          column: columns(`${codeIdentifier(p.code)}_count`),
+          episodic: isEpisodeBasis(group),
+        }))
+      : populations.map(p => ({ define: p, column: `${toSqlIdentifier(p)}_count`, episodic: false }));
+    const counts = targets.map(({ define, column, episodic }) => {
+      const cte = toSqlIdentifier(define);
+      const keyCol = this.defineKeyColumn.get(cte);
+      if (!keyCol) {
+        this.warn(
+          `Population "${define}" has no patient key; stratifier "${id}" reports NULL for it`,
+          'measure',
+        );
+        return `  NULL AS ${column}`;
+      }
+      if (episodic && keyCol === 'subject_id') {
+        return `  SUM((SELECT COUNT(DISTINCT _p.id) FROM ${cte} _p WHERE _p.subject_id = s.patient_id)) AS ${column}`;
+      }
+      return (
+        `  COUNT(DISTINCT s.patient_id) FILTER (WHERE EXISTS ` +
+        `(SELECT 1 FROM ${cte} _p WHERE _p.${keyCol} = s.patient_id)) AS ${column}`
+      );
+    });
+    return [
+      `SELECT`,
+      [...strata.map(c => `  s.${c}`), ...counts].join(',\n'),
+      `FROM (`,
+      `  SELECT Patient.id AS patient_id,`,
+      values.map(v => `    ${v}`).join(',\n'),
+      `  FROM Patient`,
+      `) s`,
+      `GROUP BY ${strata.map(c => `s.${c}`).join(', ')}`,
+      `ORDER BY ${strata.map(c => `s.${c} NULLS LAST`).join(', ')}`,
+    ].join('\n');
+  }
+
+  // ─── Measure groups ───────────────────────────────────────────────────────
+
+  /** Populations a group counts — all but its measure observations. */
+  private countedPopulations(group: MeasureGroupDefinition): MeasurePopulationDefinition[] {
+    return group.populations.filter(p => p.code !== 'measure-observation');
+  }
+
+  /**
+   * Lay out a group's result columns (`g<n>_<population code>_count`) and
+   * append one `g<n>_observation_<m> (subject_key, patient_id, value)` CTE per measure
+   * observation to `ctes`.
+   */
+  private groupQuery(group: MeasureGroupDefinition, index: number, ctes: string[]): GroupQuery {
+    const prefix = `g${index + 1}`;
+    const columns = uniqueColumns();
+    const populations = this.countedPopulations(group).map(p => ({
+      ...(p.id ? { id: p.id } : {}),
+      code: p.code,
+      expression: p.expression,
+      column: columns(`${prefix}_${codeIdentifier(p.code)}_count`),
+    }));
+
+    const observations: GroupQuery['observations'] = [];
+    group.populations
+      .filter(p => p.code === 'measure-observation')
+      .forEach((obs, i) => {
+        const target = this.observationTarget(group, obs);
+        if (!target) {
+          this.warn(
+            `Measure observation "${obs.expression}" in group "${group.id}" has no criteria population`,
+            'measure',
+          );
+          return;
+        }
+        const cteName = `${prefix}_observation_${i + 1}`;
+        const cte = this.generateObservationCte(cteName, group, obs, target);
+        if (!cte) return;
+        this.addCte(ctes, cte);
+        const aggregateMethod = obs.aggregateMethod ?? 'sum';
+        const column = columns(`${cteName}_${aggregateMethod}`);
+        this.observationCtes.set(column, cteName);
+        observations.push({
+          ...(obs.id ? { id: obs.id } : {}),
+          criteriaReference: target.code,
+          aggregateMethod,
+          column,
+          countColumn: columns(`${cteName}_count`),
+        });
+      });
+
+    return { id: group.id, scoring: group.scoring, populations, observations };
+  }
+
+  /**
+   * The population a measure observation applies to: its criteriaReference
+   * (population id, then code), else the measure population for
+   * continuous-variable scoring.
+   */
+  private observationTarget(
+    group: MeasureGroupDefinition,
+    obs: MeasurePopulationDefinition,
+  ): MeasurePopulationDefinition | undefined {
+    const counted = this.countedPopulations(group);
+    const ref = obs.criteriaReference ?? (group.scoring === 'continuous-variable' ? 'measure-population' : undefined);
+    if (!ref) return undefined;
+    return counted.find(p => p.id === ref) ?? counted.find(p => p.code === ref);
+  }
+
+  /**
+   * Apply the observation function to every row of its criteria population,
+   * minus the rows of the matching exclusion population. The function's first
+   * operand is bound to the row (an Encounter for episode-based measures).
+   */
+  private generateObservationCte(
+    cteName: string,
+    group: MeasureGroupDefinition,
+    obs: MeasurePopulationDefinition,
+    target: MeasurePopulationDefinition,
+  ): string | null {
+    const fn = this.scope.functions.get(obs.expression);
+    if (!fn) {
+      this.warn(
+        `Measure observation "${obs.expression}" is not a CQL function in this library`,
+        'measure',
+      );
+      return null;
+    }
+    const source = toSqlIdentifier(target.expression);
+    const keyCol = this.defineKeyColumn.get(source);
+    if (!keyCol) {
+      this.warn(
+        `Measure observation "${obs.expression}": population "${target.expression}" is not defined`,
+        'measure',
+      );
+      return null;
+    }
+    const episodic = isEpisodeBasis(group);
+    const rowKey = episodic && keyCol === 'subject_id' ? 'id' : keyCol;
+
+    let value: string;
+    const prevAlias = this.currentPatientAlias;
+    const prevBindings = this.operandBindings;
+    this.currentPatientAlias = keyCol === 'id' ? '_obs' : null;
+    this.operandBindings = new Map((fn.operand ?? []).slice(0, 1).map(op => [op.name, '_obs']));
+    try {
+      value = this.atDefinition(fn, () => this.exprToSqlInline(fn.expression, fn.context ?? 'Patient'));
+    } catch (e) {
+      if (this.opts.strict) throw e;
+      const msg = e instanceof Error ? e.message : String(e);
+      this.atDefinition(fn, () =>
+        this.warn(`Could not transpile measure observation "${obs.expression}": ${msg}`, 'unsupported'),
+      );
+      value = 'NULL';
+    } finally {
+      this.currentPatientAlias = prevAlias;
+      this.operandBindings = prevBindings;
+    }
+
+    const lines = [
+      `SELECT _obs.${rowKey} AS subject_key, _obs.${keyCol} AS patient_id, (${value}) AS value`,
+      `FROM ${source} AS _obs`,
+    ];
+    const exclusionCode = OBSERVATION_EXCLUSION_CODES[target.code];
+    const exclusion = exclusionCode
+      ? this.countedPopulations(group).find(p => p.code === exclusionCode)
+      : undefined;
+    if (exclusion) {
+      const xCte = toSqlIdentifier(exclusion.expression);
+      const xKey = this.defineKeyColumn.get(xCte);
+      if (xKey) {
+        const xRowKey = episodic && xKey === 'subject_id' ? 'id' : xKey;
+        lines.push(`WHERE NOT EXISTS (SELECT 1 FROM ${xCte} _x WHERE _x.${xRowKey} = _obs.${rowKey})`);
+      }
+    }
+    const comment = this.opts.includeComments
+      ? `  -- measure observation "${obs.expression}" over "${target.expression}"\n`
+      : '';
+    this.traceCte(cteName, 'observation', fn, 'patient_id');
+    return `${cteName} AS (\n${comment}${this.indent(lines.join('\n'))}\n)`;
+  }
+
+  /** One result row: every group's population counts and aggregated observations. */
+  private generateGroupSelect(groups: GroupQuery[]): string {
+    const cols = groups.flatMap((g, i) => {
+      const episodic = isEpisodeBasis(this.opts.groups[i]);
+      const populations = g.populations.map(p => {
+        const cte = toSqlIdentifier(p.expression);
+        const keyCol = this.defineKeyColumn.get(cte);
+        if (!keyCol) {
+          this.warn(`Population "${p.expression}" of group "${g.id}" is not defined`, 'measure');
+          return `  NULL AS ${p.column}`;
+        }
+        const counted = episodic && keyCol === 'subject_id' ? 'id' : keyCol;
+        return `  (SELECT COUNT(DISTINCT ${counted}) FROM ${cte}) AS ${p.column}`;
+      });
+      const observations = g.observations.flatMap(o => {
+        const cte = this.observationCtes.get(o.column);
+        return [
+          `  (SELECT ${observationAggregateSql(o.aggregateMethod)} FROM ${cte}) AS ${o.column}`,
+          `  (SELECT COUNT(value) FROM ${cte}) AS ${o.countColumn}`,
+        ];
+      });
+      return [...populations, ...observations];
+    });
+    return `SELECT\n${cols.join(',\n')}`;
+  }
+
+  // ─── Per-patient results ──────────────────────────────────────────────────
+
+  /**
+   * The final SELECT evaluated per patient, with the same column names. A
+   * patient's population count is 0 or 1, or their number of episodes for
+   * episode-based groups; observations aggregate only that patient's rows.
+   */
+  private generateSubjectSelect(populations: string[], groups: GroupQuery[]): string {
+    const count = (define: string, column: string, episodic: boolean): string => {
+      const cte = toSqlIdentifier(define);
+      const keyCol = this.defineKeyColumn.get(cte);
+      if (!keyCol) {
+        return `  NULL AS ${column}`;
+      }
+      const counted = episodic && keyCol === 'subject_id' ? '_p.id' : `_p.${keyCol}`;
+      const mine = `FROM ${cte} _p WHERE _p.${keyCol} = Patient.id`;
+      return `  (SELECT COUNT(DISTINCT ${counted}) ${mine}) AS ${column}`;
+    };
+    const cols =
+      groups.length > 0
+        ? groups.flatMap((g, i) => {
+            const episodic = isEpisodeBasis(this.opts.groups[i]);
+            return [
+              ...g.populations.map(p => count(p.expression, p.column, episodic)),
+              ...g.observations.flatMap(o => {
+                const cte = this.observationCtes.get(o.column);
+                const mine = `FROM ${cte} _o WHERE _o.patient_id = Patient.id`;
+                return [
+                  `  (SELECT ${observationAggregateSql(o.aggregateMethod)} ${mine}) AS ${o.column}`,
+                  `  (SELECT COUNT(value) ${mine}) AS ${o.countColumn}`,
+                ];
+              }),
+            ];
+          })
+        : populations.map(p => count(p, `${toSqlIdentifier(p)}_count`, false));
+    return [
+      `SELECT`,
+      ['  Patient.id AS patient_id', ...cols].join(',\n'),
+      `FROM Patient`,
+      `ORDER BY Patient.id`,
+    ].join('\n');
+  }
+
   // ─── Helpers ──────────────────────────────────────────────────────────────
 
   private isPopulation(name: string): boolean {
-    return MEASURE_POPULATION_NAMES.some(p => p.toLowerCase() === name.toLowerCase());
+    return this.populationNames.has(name.toLowerCase());
+  }
+
+  /**
+   * Population defines come from the Measure groups when given; otherwise
+   * they are the defines carrying a standard eCQM population name.
+   */
+  private indexPopulations(): void {
+    this.populationNames.clear();
+    this.episodePopulations.clear();
+    if (this.opts.groups.length > 0) {
+      for (const group of this.opts.groups) {
+        const episodic = (group.populationBasis ?? 'boolean') !== 'boolean';
+        for (const pop of this.countedPopulations(group)) {
+          this.populationNames.add(pop.expression.toLowerCase());
+          if (episodic) this.episodePopulations.add(pop.expression);
+        }
+      }
+      return;
+    }
+    for (const name of MEASURE_POPULATION_NAMES) this.populationNames.add(name.toLowerCase());
   }
 
   private patientBirthdateRef(): string {
@@ -1159,6 +2761,10 @@ export class ElmToSqlTranspiler {
     if ((def.context ?? 'Patient') !== 'Patient' || !this.isPopulation(def.name)) {
       return false;
     }
+    if (this.episodePopulations.has(def.name)) {
+      // Episode-based populations keep their resource rows so each is counted.
+      return false;
+    }
     if (def.expression.type !== 'Query' || def.expression.source.length === 0) {
       return false;
     }
@@ -1206,11 +2812,12 @@ WHERE EXISTS (
     if (expr.name === 'Patient') {
       return false;
     }
-    const def = this.defines.get(expr.name);
-    if (!def) {
+    const scope = expr.libraryName ? this.includedLibrary(expr.libraryName).scope : this.scope;
+    const def = scope?.defines.get(expr.name);
+    if (!scope || !def) {
       return true;
     }
-    return this.expressionUsesNonPatientResource(def.expression);
+    return this.withScope(scope, () => this.expressionUsesNonPatientResource(def.expression));
   }
 
   private expressionUsesNonPatientResource(expr: ElmExpression): boolean {
@@ -1222,8 +2829,12 @@ WHERE EXISTS (
           this.expressionUsesNonPatientResource(s.expression),
         );
       case 'ExpressionRef': {
-        const def = this.defines.get((expr as ElmExpressionRef).name);
-        return def ? this.expressionUsesNonPatientResource(def.expression) : false;
+        const ref = expr as ElmExpressionRef;
+        const scope = ref.libraryName ? this.includedLibrary(ref.libraryName).scope : this.scope;
+        const def = scope?.defines.get(ref.name);
+        return scope && def
+          ? this.withScope(scope, () => this.expressionUsesNonPatientResource(def.expression))
+          : false;
       }
       case 'Union':
       case 'Except':
@@ -1267,7 +2878,7 @@ WHERE EXISTS (
     const refs: string[] = [];
     const walk = (e: ElmExpression) => {
       if (!e || typeof e !== 'object') return;
-      if (e.type === 'ExpressionRef') {
+      if (e.type === 'ExpressionRef' && !(e as ElmExpressionRef).libraryName) {
         const ref = (e as ElmExpressionRef).name;
         if (nameSet.has(ref)) refs.push(ref);
       }
@@ -1285,7 +2896,52 @@ WHERE EXISTS (
     return sql.split('\n').map(l => `${pad}${l}`).join('\n');
   }
 
-  private warn(msg: string): void {
-    this.warnings.push(msg);
+  /** Translate part of `def` with warnings pointing at it (or at a located element within it). */
+  private atDefinition<T>(def: ElmExpressionDef, fn: () => T): T {
+    const prev = this.location;
+    this.location = { define: def.name, localId: def.localId, locator: def.locator };
+    try {
+      return fn();
+    } finally {
+      this.location = prev;
+    }
+  }
+
+  /** Record which definition the CTE `name` was generated from, for tracing results back to CQL. */
+  private traceCte(
+    name: string,
+    kind: TranspiledCte['kind'],
+    def: ElmExpressionDef,
+    patientColumn: string | null,
+  ): void {
+    this.cteTrace.set(name, {
+      name,
+      kind,
+      define: def.name,
+      ...(this.scope.library !== null ? { library: this.scope.library } : {}),
+      ...(def.localId ? { localId: def.localId } : {}),
+      ...(def.locator ? { locator: def.locator } : {}),
+      patientColumn,
+    });
+  }
+
+  /** Record a warning at the current location; in strict mode, throw unsupported/unresolved ones. */
+  private warn(message: string, code: TranspileWarningCode): void {
+    const warning: TranspileWarning = { message, code };
+    const { define, localId, locator } = this.location;
+    if (define) warning.define = define;
+    if (this.scope.library !== null) warning.library = this.scope.library;
+    if (localId) warning.localId = localId;
+    if (locator) warning.locator = locator;
+    if (this.opts.strict && code !== 'measure') {
+      const at = define ? ` (define "${define}"${locator ? ` at ${locator}` : ''})` : '';
+      throw new Error(`${message}${at}`, { cause: warning });
+    }
+    this.warnings.push(warning);
+  }
+
+  private warnOnce(message: string, code: TranspileWarningCode): void {
+    if (!this.warnings.some(w => w.message === message)) this.warn(message, code);
   }
 }
+
@@ -0,0 +1,153 @@
+/**
+ * SQL dialects for the ELM-to-SQL transpiler.
+ *
+ * The transpiler writes the SQL subset PostgreSQL and DuckDB share (CTEs,
+ * correlated subqueries, `::` casts, INTERVAL literals, `FILTER`, ordered-set
+ * aggregates, `generate_series`). A dialect supplies what differs: CQL
+ * intervals, which PostgreSQL holds as `tstzrange` values and DuckDB — having
+ * no range types — as `{low, high, low_closed, high_closed}` structs — and
+ * the unnesting of the JSON Coding arrays that code filters match against.
+ */
+
+// ─── Public types ────────────────────────────────────────────────────────────
+
+export type SqlDialectName = 'postgresql' | 'duckdb';
+
+/** Interval bounds in range-literal notation: `[` / `]` closed, `(` / `)` open. */
+export type IntervalBounds = '[]' | '[)' | '(]' | '()';
+
+export interface SqlDialect {
+  /** Identifier, e.g. `postgresql`; used in file names. */
+  readonly name: string;
+  /** Display name, e.g. `PostgreSQL`. */
+  readonly label: string;
+
+  /** A DateTime interval; a NULL bound is unbounded. */
+  interval(low: string, high: string, bounds: IntervalBounds): string;
+  /** True when transpiled SQL is an interval value built by `interval`. */
+  isInterval(sql: string): boolean;
+  /** Low bound (`start of`); NULL when unbounded. */
+  intervalStart(interval: string): string;
+  /** High bound (`end of`); NULL when unbounded. */
+  intervalEnd(interval: string): string;
+  /** True when the low bound is closed. */
+  intervalStartClosed(interval: string): string;
+  /** True when the high bound is closed. */
+  intervalEndClosed(interval: string): string;
+  /** The interval contains the point. */
+  intervalContains(interval: string, point: string): string;
+  /** `outer` includes every point of `inner`. */
+  intervalIncludes(outer: string, inner: string): string;
+  /** Every point of `inner` is in `outer`. */
+  intervalIncludedIn(inner: string, outer: string): string;
+  intervalOverlaps(a: string, b: string): string;
+  /** `a` ends before `b` starts. */
+  intervalBefore(a: string, b: string): string;
+  /** `a` starts after `b` ends. */
+  intervalAfter(a: string, b: string): string;
+  /** The intervals are adjacent: one ends where the other starts, with no gap or overlap. */
+  intervalMeets(a: string, b: string): string;
+  intervalEmpty(interval: string): string;
+  /**
+   * Statement merging the overlapping and adjacent intervals of a one-column
+   * row set into rows `v`; null when the dialect cannot express it.
+   */
+  collapseIntervals(rows: string): string | null;
+  /** FROM item of a `generate_series` whose values are the column `alias`. */
+  series(start: string, stop: string, step: string, alias: string): string;
+  /** FROM item with one row per Coding of a JSON array column, as `alias.system` / `alias.code`. */
+  codings(column: string, alias: string): string;
+}
+
+// ─── PostgreSQL ──────────────────────────────────────────────────────────────
+
+export const POSTGRESQL_DIALECT: SqlDialect = {
+  name: 'postgresql',
+  label: 'PostgreSQL',
+  interval: (low, high, bounds) => `tstzrange(${low}, ${high}, '${bounds}')`,
+  isInterval: sql => /^ts(tz)?range\b/i.test(sql.trim()),
+  intervalStart: r => `lower(${r})`,
+  intervalEnd: r => `upper(${r})`,
+  intervalStartClosed: r => `lower_inc(${r})`,
+  intervalEndClosed: r => `upper_inc(${r})`,
+  intervalContains: (r, point) => `${r} @> ${point}`,
+  intervalIncludes: (outer, inner) => `${outer} @> ${inner}`,
+  intervalIncludedIn: (inner, outer) => `${inner} <@ ${outer}`,
+  intervalOverlaps: (a, b) => `${a} && ${b}`,
+  intervalBefore: (a, b) => `${a} << ${b}`,
+  intervalAfter: (a, b) => `${a} >> ${b}`,
+  intervalMeets: (a, b) => `${a} -|- ${b}`,
+  intervalEmpty: r => `isempty(${r})`,
+  collapseIntervals: rows => `SELECT unnest(range_agg(_c.v)) AS v FROM (${rows}) _c(v)`,
+  series: (start, stop, step, alias) => `generate_series(${start}, ${stop}, ${step}) ${alias}`,
+  codings: (column, alias) => `jsonb_to_recordset(${column}) AS ${alias}(system TEXT, code TEXT)`,
+};
+
+// ─── DuckDB ──────────────────────────────────────────────────────────────────
+//
+// Bounds are compared with NULL read as ∓infinity, so an unbounded side
+// behaves as it does for a PostgreSQL range.
+
+const field = (r: string, name: string) => `struct_extract(${r}, '${name}')`;
+const low = (r: string) => `COALESCE(${field(r, 'low')}, '-infinity'::timestamptz)`;
+const high = (r: string) => `COALESCE(${field(r, 'high')}, 'infinity'::timestamptz)`;
+const lowClosed = (r: string) => field(r, 'low_closed');
+const highClosed = (r: string) => field(r, 'high_closed');
+
+/** `a` ends before `b` starts (PostgreSQL `<<`). */
+const duckBefore = (a: string, b: string) =>
+  `(${high(a)} < ${low(b)} OR ` +
+  `(${high(a)} = ${low(b)} AND NOT (${highClosed(a)} AND ${lowClosed(b)})))`;
+
+/** Every point of `inner` is in `outer` (PostgreSQL `@>`). */
+const duckIncludes = (outer: string, inner: string) => {
+  const startsWithin =
+    `(${low(inner)} > ${low(outer)} OR ` +
+    `(${low(inner)} = ${low(outer)} AND (${lowClosed(outer)} OR NOT ${lowClosed(inner)})))`;
+  const endsWithin =
+    `(${high(inner)} < ${high(outer)} OR ` +
+    `(${high(inner)} = ${high(outer)} AND (${highClosed(outer)} OR NOT ${highClosed(inner)})))`;
+  return `(${startsWithin} AND ${endsWithin})`;
+};
+
+export const DUCKDB_DIALECT: SqlDialect = {
+  name: 'duckdb',
+  label: 'DuckDB',
+  interval: (lo, hi, bounds) =>
+    `struct_pack(low := (${lo})::timestamptz, high := (${hi})::timestamptz, ` +
+    `low_closed := ${bounds[0] === '['}, high_closed := ${bounds[1] === ']'})`,
+  isInterval: sql => /^struct_pack\(low :=/i.test(sql.trim()),
+  intervalStart: r => field(r, 'low'),
+  intervalEnd: r => field(r, 'high'),
+  intervalStartClosed: lowClosed,
+  intervalEndClosed: highClosed,
+  intervalContains: (r, point) =>
+    `((${point} > ${low(r)} OR (${point} = ${low(r)} AND ${lowClosed(r)})) AND ` +
+    `(${point} < ${high(r)} OR (${point} = ${high(r)} AND ${highClosed(r)})))`,
+  intervalIncludes: duckIncludes,
+  intervalIncludedIn: (inner, outer) => duckIncludes(outer, inner),
+  intervalOverlaps: (a, b) => `(NOT ${duckBefore(a, b)} AND NOT ${duckBefore(b, a)})`,
+  intervalBefore: duckBefore,
+  intervalAfter: (a, b) => duckBefore(b, a),
+  intervalMeets: (a, b) =>
+    `((${high(a)} = ${low(b)} AND ${highClosed(a)} <> ${lowClosed(b)}) OR ` +
+    `(${high(b)} = ${low(a)} AND ${highClosed(b)} <> ${lowClosed(a)}))`,
+  intervalEmpty: r =>
+    `(${low(r)} > ${high(r)} OR ` +
+    `(${low(r)} = ${high(r)} AND NOT (${lowClosed(r)} AND ${highClosed(r)})))`,
+  collapseIntervals: () => null,
+  series: (start, stop, step, alias) =>
+    `generate_series(${start}, ${stop}, ${step}) _series(${alias})`,
+  codings: (column, alias) =>
+    `(SELECT unnest(from_json(${column}, '[{"system":"VARCHAR","code":"VARCHAR"}]'), ` +
+    `recursive := true)) AS ${alias}`,
+};
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+/** Built-in dialects, PostgreSQL first. */
+export const SQL_DIALECTS: readonly SqlDialect[] = [POSTGRESQL_DIALECT, DUCKDB_DIALECT];
+
+export function sqlDialect(name: SqlDialectName): SqlDialect {
+  return name === 'duckdb' ? DUCKDB_DIALECT : POSTGRESQL_DIALECT;
+}
@@ -89,12 +89,29 @@ export interface ElmConceptDef {
   accessLevel?: 'Public' | 'Private';
 }
 
-export interface ElmExpressionDef {
+// Source location the translator attaches to definitions and expressions
+// (with annotations / locators enabled)
+export interface ElmElement {
+  localId?: string;
+  // CQL source span, `startLine:startColumn-endLine:endColumn`
+  locator?: string;
+}
+
+export interface ElmExpressionDef extends ElmElement {
+  /** `FunctionDef` for CQL functions; absent or `ExpressionDef` for defines. */
+  type?: 'ExpressionDef' | 'FunctionDef';
   name: string;
   context?: string;
   accessLevel?: 'Public' | 'Private';
   expression: ElmExpression;
   annotation?: ElmAnnotation[];
+  /** Function parameters (FunctionDef only). */
+  operand?: ElmOperandDef[];
+}
+
+export interface ElmOperandDef {
+  name: string;
+  operandTypeSpecifier?: ElmTypeSpecifier;
 }
 
 // ─── Type Specifiers ─────────────────────────────────────────────────────────
@@ -142,9 +159,16 @@ export type ElmExpression =
   | ElmQuery
   | ElmExpressionRef
   | ElmFunctionRef
+  | ElmOperandRef
+  | ElmQueryLetRef
   | ElmParameterRef
   | ElmValueSetRef
   | ElmCodeSystemRef
+  | ElmCodeRef
+  | ElmConceptRef
+  | ElmCode
+  | ElmConcept
+  | ElmInValueSet
   | ElmBinaryOp
   | ElmUnaryOp
   | ElmNaryOp
@@ -176,9 +200,11 @@ export type ElmExpression =
   | ElmFlatte
   | ElmFirst
   | ElmLast
+  | ElmSort
   | ElmIndexOf
   | ElmSlice
   | ElmSplit
+  | ElmCombine
   | ElmConcatenate
   | ElmMessage;
 
@@ -285,6 +311,17 @@ export interface ElmFunctionRef {
   resultTypeName?: string;
 }
 
+export interface ElmOperandRef {
+  type: 'OperandRef';
+  name: string;
+}
+
+// Query `let` identifier, or the accumulator of an `aggregate` clause
+export interface ElmQueryLetRef {
+  type: 'QueryLetRef';
+  name: string;
+}
+
 export interface ElmParameterRef {
   type: 'ParameterRef';
   name: string;
@@ -304,6 +341,41 @@ export interface ElmCodeSystemRef {
   libraryName?: string;
 }
 
+// Direct-reference codes (`code "X": '123' from "LOINC"`) and concepts
+export interface ElmCodeRef {
+  type: 'CodeRef';
+  name: string;
+  libraryName?: string;
+}
+
+export interface ElmConceptRef {
+  type: 'ConceptRef';
+  name: string;
+  libraryName?: string;
+}
+
+// Code selector, e.g. `Code '123' from "LOINC"`
+export interface ElmCode {
+  type: 'Code';
+  code: string;
+  system: ElmCodeSystemRef;
+  display?: string;
+}
+
+export interface ElmConcept {
+  type: 'Concept';
+  code: ElmCode[];
+  display?: string;
+}
+
+// `X in "Value Set"` on codes (`AnyInValueSet` when X is a list)
+export interface ElmInValueSet {
+  type: 'InValueSet' | 'AnyInValueSet';
+  code?: ElmExpression;
+  codes?: ElmExpression;
+  valueset?: ElmValueSetRef;
+}
+
 // Binary operators
 export type ElmBinaryOpType =
   | 'And' | 'Or' | 'Xor' | 'Implies'
@@ -350,7 +422,7 @@ export interface ElmUnaryOp {
 
 // N-ary operators
 export interface ElmNaryOp {
-  type: 'Coalesce' | 'Concatenate' | 'Combine' | 'Greatest' | 'Least';
+  type: 'Coalesce' | 'Concatenate' | 'Greatest' | 'Least';
   operand: ElmExpression[];
   resultTypeName?: string;
 }
@@ -428,7 +500,9 @@ export interface ElmConvert {
 
 // Aggregates (used standalone, not as unary ops)
 export interface ElmAggregate {
-  type: 'Count' | 'Sum' | 'Min' | 'Max' | 'Avg' | 'Median' | 'Mode';
+  type:
+    | 'Count' | 'Sum' | 'Min' | 'Max' | 'Avg' | 'Median' | 'Mode'
+    | 'StdDev' | 'Variance' | 'PopulationStdDev' | 'PopulationVariance';
   source: ElmExpression;
   path?: string;
   resultTypeName?: string;
@@ -540,6 +614,12 @@ export interface ElmLast {
   orderBy?: string;
 }
 
+export interface ElmSort {
+  type: 'Sort';
+  source: ElmExpression;
+  by: ElmSortByItem[];
+}
+
 export interface ElmIndexOf {
   type: 'IndexOf';
   source: ElmExpression;
@@ -559,6 +639,12 @@ export interface ElmSplit {
   separator: ElmExpression;
 }
 
+export interface ElmCombine {
+  type: 'Combine';
+  source: ElmExpression;
+  separator?: ElmExpression;
+}
+
 export interface ElmConcatenate {
   type: 'Concatenate';
   operand: ElmExpression[];
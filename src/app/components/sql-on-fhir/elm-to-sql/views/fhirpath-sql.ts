@@ -0,0 +1,277 @@
+/**
+ * FHIRPath → PostgreSQL SQL/JSON path compiler.
+ *
+ * Translates the navigational subset of FHIRPath used by ViewDefinition
+ * columns into `jsonb_path_query_first(...)` expressions over a JSONB
+ * resource column. Anything outside that subset compiles to a commented
+ * `NULL` so the generated DDL still parses and the gap is visible.
+ *
+ * Supported: member navigation, choice types via `ofType(T)`, `first()`,
+ * `last()`, `[n]`, `where(...)` with comparisons / `and` / `or` / `exists()` /
+ * `empty()` / `not()`, `extension(url)`, `getResourceKey()`,
+ * `getReferenceKey()` / `getId()` (terminal only), `|` unions (coalesced
+ * in order), literals and `%constants`.
+ */
+
+import { parseFhirPath, type FhirPathNode } from './fhirpath';
+
+export interface FhirPathSqlOptions {
+  /** PostgreSQL type to cast the extracted text to; `TEXT` or omitted leaves it uncast. */
+  sqlType?: string;
+  /** Return a JSONB array of every match instead of the first value. */
+  collection?: boolean;
+  /** ViewDefinition constants available as `%name`. */
+  constants?: Record<string, unknown>;
+}
+
+/** Compiled navigation: alternative JSON paths (one per `|` branch) relative to the focus. */
+interface CompiledPath {
+  paths: string[];
+  /** Path ends in `getReferenceKey()` — strip everything up to the last `/`. */
+  referenceKey: boolean;
+}
+
+/**
+ * Compile a FHIRPath column expression to a SQL expression evaluated against
+ * `focusSql`, a JSONB expression (e.g. `r.resource` or a `forEach` alias).
+ */
+export function fhirPathToSql(path: string, focusSql: string, options: FhirPathSqlOptions = {}): string {
+  const constants = options.constants ?? {};
+  let node: FhirPathNode;
+  try {
+    node = parseFhirPath(path);
+  } catch {
+    return unsupported(path);
+  }
+
+  if (node.kind === 'literal' || node.kind === 'constant') {
+    const value = node.kind === 'literal' ? node.value : constants[node.name];
+    return castSql(sqlLiteral(value), options.sqlType);
+  }
+
+  const compiled = compileNavigation(node, constants);
+  if (!compiled) return unsupported(path);
+
+  if (options.collection) {
+    return compiled.paths
+      .map(p => `jsonb_path_query_array(${focusSql}, ${jsonPathLiteral(p)})`)
+      .join(' || ');
+  }
+
+  const firsts = compiled.paths.map(p => `jsonb_path_query_first(${focusSql}, ${jsonPathLiteral(p)})`);
+  const json = firsts.length > 1 ? `COALESCE(${firsts.join(', ')})` : firsts[0];
+  let text = `(${json} #>> '{}')`;
+  if (compiled.referenceKey) text = `regexp_replace(${text}, '^.*/', '')`;
+  return castSql(text, options.sqlType);
+}
+
+/**
+ * Compile a FHIRPath iteration expression (`forEach` / `forEachOrNull`) to a
+ * single SQL/JSON path that yields one item per element, or `null` when the
+ * expression is outside the supported subset.
+ */
+export function fhirPathToJsonPath(path: string, constants: Record<string, unknown> = {}): string | null {
+  let node: FhirPathNode;
+  try {
+    node = parseFhirPath(path);
+  } catch {
+    return null;
+  }
+  const compiled = compileNavigation(node, constants);
+  if (!compiled || compiled.paths.length !== 1 || compiled.referenceKey) return null;
+  return `$${compiled.paths[0]}[*]`;
+}
+
+/**
+ * Compile a FHIRPath boolean expression (ViewDefinition `where`) to a SQL
+ * predicate over `focusSql`, or `null` when unsupported.
+ */
+export function fhirPathToSqlPredicate(
+  path: string,
+  focusSql: string,
+  constants: Record<string, unknown> = {},
+): string | null {
+  let node: FhirPathNode;
+  try {
+    node = parseFhirPath(path);
+  } catch {
+    return null;
+  }
+  const predicate = compilePredicate(node, constants);
+  return predicate ? `jsonb_path_exists(${focusSql}, ${jsonPathLiteral(`$ ? (${predicate})`)})` : null;
+}
+
+// ─── Navigation ───────────────────────────────────────────────────────────────
+
+function compileNavigation(node: FhirPathNode, constants: Record<string, unknown>): CompiledPath | null {
+  switch (node.kind) {
+    case 'this':
+      return { paths: [''], referenceKey: false };
+    case 'member': {
+      const source = node.source ? compileNavigation(node.source, constants) : { paths: [''], referenceKey: false };
+      if (!source || source.referenceKey) return null;
+      return { paths: source.paths.map(p => `${p}.${jsonKey(node.name)}`), referenceKey: false };
+    }
+    case 'index': {
+      const source = compileNavigation(node.source, constants);
+      if (!source || source.referenceKey) return null;
+      const index = node.index.kind === 'literal' ? node.index.value : null;
+      if (typeof index !== 'number') return null;
+      return { paths: source.paths.map(p => `${p}[${index}]`), referenceKey: false };
+    }
+    case 'binary': {
+      if (node.op !== '|') return null;
+      const left = compileNavigation(node.left, constants);
+      const right = compileNavigation(node.right, constants);
+      if (!left || !right || left.referenceKey !== right.referenceKey) return null;
+      return { paths: [...left.paths, ...right.paths], referenceKey: left.referenceKey };
+    }
+    case 'call':
+      return compileCall(node, constants);
+    default:
+      return null;
+  }
+}
+
+function compileCall(
+  node: Extract<FhirPathNode, { kind: 'call' }>,
+  constants: Record<string, unknown>,
+): CompiledPath | null {
+  // ofType() rewrites the preceding member name, so handle it before compiling the source
+  if (node.name === 'ofType') {
+    const typeArg = node.args[0];
+    if (!node.source || node.source.kind !== 'member' || typeArg?.kind !== 'member' || typeArg.source) {
+      return null;
+    }
+    const typeName = typeArg.name;
+    const choice: FhirPathNode = {
+      kind: 'member',
+      source: node.source.source,
+      name: node.source.name + typeName.charAt(0).toUpperCase() + typeName.slice(1),
+    };
+    return compileNavigation(choice, constants);
+  }
+
+  const source = node.source ? compileNavigation(node.source, constants) : { paths: [''], referenceKey: false };
+  if (!source || source.referenceKey) return null;
+  const append = (suffix: string): CompiledPath => ({
+    paths: source.paths.map(p => p + suffix),
+    referenceKey: false,
+  });
+
+  switch (node.name) {
+    case 'first':
+      return append('[0]');
+    case 'last':
+      return append('[last]');
+    case 'where': {
+      const predicate = node.args[0] ? compilePredicate(node.args[0], constants) : null;
+      return predicate ? append(` ? (${predicate})`) : null;
+    }
+    case 'extension': {
+      const url = literalValue(node.args[0], constants);
+      return typeof url === 'string' ? append(`.extension ? (@.url == ${jsonLiteral(url)})`) : null;
+    }
+    case 'getResourceKey':
+      return append('.id');
+    case 'getId':
+    case 'getReferenceKey':
+      return node.args.length ? null : { paths: source.paths.map(p => `${p}.reference`), referenceKey: true };
+    default:
+      return null;
+  }
+}
+
+// ─── Predicates (inside `? (...)` filters, relative to `@`) ──────────────────
+
+const COMPARISON_OPS: Record<string, string> = {
+  '=': '==',
+  '!=': '!=',
+  '<': '<',
+  '>': '>',
+  '<=': '<=',
+  '>=': '>=',
+};
+
+function compilePredicate(node: FhirPathNode, constants: Record<string, unknown>): string | null {
+  if (node.kind === 'binary') {
+    if (node.op === 'and' || node.op === 'or') {
+      const left = compilePredicate(node.left, constants);
+      const right = compilePredicate(node.right, constants);
+      return left && right ? `(${left} ${node.op === 'and' ? '&&' : '||'} ${right})` : null;
+    }
+    const op = COMPARISON_OPS[node.op];
+    if (!op) return null;
+    const path = relativePath(node.left, constants);
+    const value = literalValue(node.right, constants);
+    if (path === null || value === undefined) return null;
+    return `@${path} ${op} ${jsonLiteral(value)}`;
+  }
+  if (node.kind === 'call') {
+    if (node.name === 'not' && node.source) {
+      const inner = compilePredicate(node.source, constants);
+      return inner ? `!(${inner})` : null;
+    }
+    if (node.name === 'exists' || node.name === 'empty') {
+      const path = node.source ? relativePath(node.source, constants) : '';
+      if (path === null) return null;
+      let target = `@${path}`;
+      if (node.name === 'exists' && node.args[0]) {
+        const criteria = compilePredicate(node.args[0], constants);
+        if (!criteria) return null;
+        target += ` ? (${criteria})`;
+      }
+      return node.name === 'exists' ? `exists(${target})` : `!exists(${target})`;
+    }
+  }
+  // Bare boolean element, e.g. `where(active)`
+  const path = relativePath(node, constants);
+  return path === null ? null : `@${path} == true`;
+}
+
+function relativePath(node: FhirPathNode, constants: Record<string, unknown>): string | null {
+  const compiled = compileNavigation(node, constants);
+  if (!compiled || compiled.referenceKey || compiled.paths.length !== 1) return null;
+  return compiled.paths[0];
+}
+
+function literalValue(node: FhirPathNode | undefined, constants: Record<string, unknown>): unknown {
+  if (!node) return undefined;
+  if (node.kind === 'literal') return node.value;
+  if (node.kind === 'constant') return constants[node.name];
+  if (node.kind === 'negate' && node.operand.kind === 'literal' && typeof node.operand.value === 'number') {
+    return -node.operand.value;
+  }
+  return undefined;
+}
+
+// ─── Quoting ──────────────────────────────────────────────────────────────────
+
+function jsonKey(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function jsonLiteral(value: unknown): string {
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value === null || value === undefined) return 'null';
+  return JSON.stringify(String(value));
+}
+
+function jsonPathLiteral(suffix: string): string {
+  const path = suffix.startsWith('$') ? suffix : `$${suffix}`;
+  return `'${path.replace(/'/g, "''")}'`;
+}
+
+function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+function castSql(expr: string, sqlType: string | undefined): string {
+  return !sqlType || sqlType === 'TEXT' ? expr : `(${expr})::${sqlType}`;
+}
+
+function unsupported(path: string): string {
+  return `NULL /* unsupported FHIRPath: ${path.replace(/\*\//g, '* /')} */`;
+}
@@ -0,0 +1,702 @@
+/**
+ * Minimal FHIRPath engine for SQL-on-FHIR ViewDefinitions.
+ *
+ * Implements the FHIRPath subset that the SQL-on-FHIR v2 spec requires of a
+ * view runner (the "shareable" profile): member navigation with choice-type
+ * resolution, indexers, `where`/`select`/`exists`/`first`/`ofType`/`join`/
+ * `extension`/`getResourceKey`/`getReferenceKey`, boolean logic, equality,
+ * comparison, union, and `%constant` references.
+ *
+ * Pure TypeScript — no FHIR model info. Choice elements (`value[x]`) are
+ * resolved from the JSON property suffix, so `value.ofType(Quantity)` reads
+ * `valueQuantity`.
+ *
+ * Spec: https://hl7.org/fhirpath/N1/
+ */
+
+// ─── AST ──────────────────────────────────────────────────────────────────────
+
+export type FhirPathNode =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'constant'; name: string }
+  | { kind: 'this' }
+  | { kind: 'member'; source: FhirPathNode | null; name: string }
+  | { kind: 'call'; source: FhirPathNode | null; name: string; args: FhirPathNode[] }
+  | { kind: 'index'; source: FhirPathNode; index: FhirPathNode }
+  | { kind: 'binary'; op: string; left: FhirPathNode; right: FhirPathNode }
+  | { kind: 'negate'; operand: FhirPathNode };
+
+/** Evaluation context: `%name` constants available to the expression. */
+export interface FhirPathContext {
+  constants?: Record<string, unknown>;
+}
+
+// ─── Tokenizer ────────────────────────────────────────────────────────────────
+
+type TokenKind = 'ident' | 'string' | 'number' | 'date' | 'constant' | 'special' | 'op' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  pos: number;
+}
+
+const MULTI_CHAR_OPS = ['<=', '>=', '!=', '!~'];
+const SINGLE_CHAR_OPS = '=~<>|&+-*/.()[],{}';
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (src.startsWith('//', i)) {
+      const end = src.indexOf('\n', i);
+      i = end < 0 ? src.length : end;
+      continue;
+    }
+    if (src.startsWith('/*', i)) {
+      const end = src.indexOf('*/', i + 2);
+      if (end < 0) throw new Error(`Unterminated comment in FHIRPath: ${src}`);
+      i = end + 2;
+      continue;
+    }
+    const start = i;
+    if (ch === "'" || ch === '`') {
+      const { text, next } = readQuoted(src, i, ch);
+      tokens.push({ kind: ch === "'" ? 'string' : 'ident', text, pos: start });
+      i = next;
+      continue;
+    }
+    if (ch === '%') {
+      i++;
+      if (src[i] === "'" || src[i] === '`') {
+        const { text, next } = readQuoted(src, i, src[i]);
+        tokens.push({ kind: 'constant', text, pos: start });
+        i = next;
+      } else {
+        const m = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i));
+        if (!m) throw new Error(`Invalid constant reference at ${start} in FHIRPath: ${src}`);
+        tokens.push({ kind: 'constant', text: m[0], pos: start });
+        i += m[0].length;
+      }
+      continue;
+    }
+    if (ch === '@') {
+      const m = /^@[0-9T:\-.+Z]*/.exec(src.slice(i));
+      tokens.push({ kind: 'date', text: m![0].slice(1), pos: start });
+      i += m![0].length;
+      continue;
+    }
+    if (ch === '$') {
+      const m = /^\$[A-Za-z]+/.exec(src.slice(i));
+      if (!m) throw new Error(`Invalid special variable at ${start} in FHIRPath: ${src}`);
+      tokens.push({ kind: 'special', text: m[0], pos: start });
+      i += m[0].length;
+      continue;
+    }
+    const num = /^\d+(\.\d+)?/.exec(src.slice(i));
+    if (num) {
+      tokens.push({ kind: 'number', text: num[0], pos: start });
+      i += num[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i));
+    if (ident) {
+      tokens.push({ kind: 'ident', text: ident[0], pos: start });
+      i += ident[0].length;
+      continue;
+    }
+    const multi = MULTI_CHAR_OPS.find(op => src.startsWith(op, i));
+    if (multi) {
+      tokens.push({ kind: 'op', text: multi, pos: start });
+      i += multi.length;
+      continue;
+    }
+    if (SINGLE_CHAR_OPS.includes(ch)) {
+      tokens.push({ kind: 'op', text: ch, pos: start });
+      i++;
+      continue;
+    }
+    throw new Error(`Unexpected character '${ch}' at ${i} in FHIRPath: ${src}`);
+  }
+  tokens.push({ kind: 'eof', text: '', pos: src.length });
+  return tokens;
+}
+
+function readQuoted(src: string, start: number, quote: string): { text: string; next: number } {
+  let out = '';
+  let i = start + 1;
+  while (i < src.length && src[i] !== quote) {
+    if (src[i] === '\\') {
+      const esc = src[i + 1];
+      if (esc === 'u') {
+        out += String.fromCharCode(parseInt(src.slice(i + 2, i + 6), 16));
+        i += 6;
+        continue;
+      }
+      out += ({ n: '\n', r: '\r', t: '\t', f: '\f' } as Record<string, string>)[esc] ?? esc;
+      i += 2;
+      continue;
+    }
+    out += src[i++];
+  }
+  if (i >= src.length) throw new Error(`Unterminated string in FHIRPath: ${src}`);
+  return { text: out, next: i + 1 };
+}
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+/** Binary operator precedence levels, lowest first (FHIRPath §"Operator precedence"). */
+const PRECEDENCE: string[][] = [
+  ['implies'],
+  ['or', 'xor'],
+  ['and'],
+  ['in', 'contains'],
+  ['=', '~', '!=', '!~'],
+  ['<', '>', '<=', '>='],
+  ['|'],
+  ['is', 'as'],
+  ['+', '-', '&'],
+  ['*', '/', 'div', 'mod'],
+];
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly src: string,
+  ) {}
+
+  parse(): FhirPathNode {
+    const node = this.parseLevel(0);
+    if (this.peek().kind !== 'eof') this.fail(`Unexpected '${this.peek().text}'`);
+    return node;
+  }
+
+  private parseLevel(level: number): FhirPathNode {
+    if (level >= PRECEDENCE.length) return this.parseUnary();
+    let left = this.parseLevel(level + 1);
+    for (;;) {
+      const t = this.peek();
+      const isOp = (t.kind === 'op' || t.kind === 'ident') && PRECEDENCE[level].includes(t.text);
+      if (!isOp) return left;
+      this.pos++;
+      // `is` / `as` take a type specifier, not an expression
+      const right =
+        t.text === 'is' || t.text === 'as'
+          ? ({ kind: 'literal', value: this.parseTypeSpecifier() } as FhirPathNode)
+          : this.parseLevel(level + 1);
+      left = { kind: 'binary', op: t.text, left, right };
+    }
+  }
+
+  private parseUnary(): FhirPathNode {
+    const t = this.peek();
+    if (t.kind === 'op' && (t.text === '-' || t.text === '+')) {
+      this.pos++;
+      const operand = this.parseUnary();
+      return t.text === '-' ? { kind: 'negate', operand } : operand;
+    }
+    return this.parsePostfix(this.parseTerm());
+  }
+
+  private parsePostfix(node: FhirPathNode): FhirPathNode {
+    for (;;) {
+      const t = this.peek();
+      if (t.kind === 'op' && t.text === '.') {
+        this.pos++;
+        node = this.parseInvocation(node);
+      } else if (t.kind === 'op' && t.text === '[') {
+        this.pos++;
+        const index = this.parseLevel(0);
+        this.expect(']');
+        node = { kind: 'index', source: node, index };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseTerm(): FhirPathNode {
+    const t = this.next();
+    switch (t.kind) {
+      case 'string':
+      case 'date':
+        return { kind: 'literal', value: t.text };
+      case 'number':
+        return { kind: 'literal', value: Number(t.text) };
+      case 'constant':
+        return { kind: 'constant', name: t.text };
+      case 'special':
+        if (t.text === '$this') return { kind: 'this' };
+        return this.fail(`Unsupported special variable ${t.text}`);
+      case 'ident':
+        if (t.text === 'true' || t.text === 'false') return { kind: 'literal', value: t.text === 'true' };
+        this.pos--;
+        return this.parseInvocation(null);
+      case 'op':
+        if (t.text === '(') {
+          const inner = this.parseLevel(0);
+          this.expect(')');
+          return inner;
+        }
+        if (t.text === '{') {
+          this.expect('}');
+          return { kind: 'literal', value: null };
+        }
+        return this.fail(`Unexpected '${t.text}'`);
+      default:
+        return this.fail('Unexpected end of expression');
+    }
+  }
+
+  private parseInvocation(source: FhirPathNode | null): FhirPathNode {
+    const t = this.next();
+    if (t.kind === 'special' && t.text === '$this') return { kind: 'this' };
+    if (t.kind !== 'ident') return this.fail(`Expected identifier, got '${t.text}'`);
+    if (this.peek().kind === 'op' && this.peek().text === '(') {
+      this.pos++;
+      const args: FhirPathNode[] = [];
+      if (!(this.peek().kind === 'op' && this.peek().text === ')')) {
+        args.push(this.parseLevel(0));
+        while (this.peek().kind === 'op' && this.peek().text === ',') {
+          this.pos++;
+          args.push(this.parseLevel(0));
+        }
+      }
+      this.expect(')');
+      return { kind: 'call', source, name: t.text, args };
+    }
+    return { kind: 'member', source, name: t.text };
+  }
+
+  private parseTypeSpecifier(): string {
+    let name = this.next().text;
+    while (this.peek().kind === 'op' && this.peek().text === '.') {
+      this.pos++;
+      name += '.' + this.next().text;
+    }
+    return name;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private expect(text: string): void {
+    const t = this.next();
+    if (t.text !== text) this.fail(`Expected '${text}', got '${t.text}'`);
+  }
+
+  private fail(message: string): never {
+    const pos = this.tokens[Math.max(0, this.pos - 1)]?.pos ?? 0;
+    throw new Error(`${message} at ${pos} in FHIRPath: ${this.src}`);
+  }
+}
+
+const parseCache = new Map<string, FhirPathNode>();
+
+/** Parse a FHIRPath expression. Results are cached per expression string. */
+export function parseFhirPath(expression: string): FhirPathNode {
+  let node = parseCache.get(expression);
+  if (!node) {
+    node = new Parser(tokenize(expression), expression).parse();
+    parseCache.set(expression, node);
+  }
+  return node;
+}
+
+// ─── Evaluator ────────────────────────────────────────────────────────────────
+
+/** A collection item; `type` carries the choice-type suffix when known (e.g. `Quantity`). */
+interface Item {
+  value: unknown;
+  type?: string;
+}
+
+interface EvalScope {
+  root: Item;
+  constants: Record<string, unknown>;
+}
+
+/**
+ * Evaluate a FHIRPath expression against a resource (or any JSON element)
+ * and return the resulting collection as plain JSON values.
+ */
+export function evaluateFhirPath(
+  expression: string | FhirPathNode,
+  input: unknown,
+  context: FhirPathContext = {},
+): unknown[] {
+  const node = typeof expression === 'string' ? parseFhirPath(expression) : expression;
+  const root: Item = { value: input };
+  const scope: EvalScope = { root, constants: context.constants ?? {} };
+  return evaluate(node, input === undefined || input === null ? [] : [root], scope).map(i => i.value);
+}
+
+/** Singleton evaluation of a collection to a boolean, per FHIRPath §4.5. `null` = empty. */
+export function fhirPathTruthy(result: unknown[]): boolean | null {
+  if (result.length === 0) return null;
+  if (result.length > 1) throw new Error('Expected a single boolean, got a collection');
+  return typeof result[0] === 'boolean' ? result[0] : true;
+}
+
+function evaluate(node: FhirPathNode, focus: Item[], scope: EvalScope): Item[] {
+  switch (node.kind) {
+    case 'literal':
+      return node.value === null ? [] : [{ value: node.value }];
+    case 'constant':
+      return constantItems(node.name, scope);
+    case 'this':
+      return focus;
+    case 'member': {
+      const input = node.source ? evaluate(node.source, focus, scope) : focus;
+      // A leading type name (`Patient.name`) selects the resource itself
+      if (!node.source && /^[A-Z]/.test(node.name)) {
+        const matches = input.filter(i => resourceTypeOfValue(i.value) === node.name);
+        if (matches.length > 0) return matches;
+      }
+      return input.flatMap(i => navigate(i, node.name));
+    }
+    case 'index': {
+      const items = evaluate(node.source, focus, scope);
+      const idx = evaluate(node.index, focus, scope)[0]?.value;
+      if (typeof idx !== 'number') return [];
+      return idx >= 0 && idx < items.length ? [items[idx]] : [];
+    }
+    case 'negate':
+      return evaluate(node.operand, focus, scope).map(i => ({ value: -(i.value as number) }));
+    case 'binary':
+      return evaluateBinary(node.op, node.left, node.right, focus, scope);
+    case 'call': {
+      const input = node.source ? evaluate(node.source, focus, scope) : focus;
+      return callFunction(node.name, node.args, input, scope);
+    }
+  }
+}
+
+function constantItems(name: string, scope: EvalScope): Item[] {
+  if (name === 'resource' || name === 'rootResource') return [scope.root];
+  if (!(name in scope.constants)) throw new Error(`Undefined FHIRPath constant %${name}`);
+  const value = scope.constants[name];
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value.map(v => ({ value: v })) : [{ value }];
+}
+
+function navigate(item: Item, name: string): Item[] {
+  const obj = item.value;
+  if (obj === null || typeof obj !== 'object' || Array.isArray(obj)) return [];
+  const record = obj as Record<string, unknown>;
+  if (name in record) return toItems(record[name]);
+  // Choice element: `value` → `valueQuantity`, `valueString`, ...
+  for (const key of Object.keys(record)) {
+    if (key.length > name.length && key.startsWith(name) && /[A-Z]/.test(key[name.length])) {
+      return toItems(record[key], key.slice(name.length));
+    }
+  }
+  return [];
+}
+
+function toItems(value: unknown, type?: string): Item[] {
+  if (value === undefined || value === null) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter(v => v !== null && v !== undefined).map(v => ({ value: v, type }));
+}
+
+function resourceTypeOfValue(value: unknown): string | undefined {
+  if (value && typeof value === 'object' && 'resourceType' in value) {
+    const rt = (value as { resourceType?: unknown }).resourceType;
+    return typeof rt === 'string' ? rt : undefined;
+  }
+  return undefined;
+}
+
+function normalizeTypeName(name: string): string {
+  return name.replace(/^(FHIR|System)\./, '').toLowerCase();
+}
+
+function itemIsType(item: Item, typeName: string): boolean {
+  const wanted = normalizeTypeName(typeName);
+  if (item.type) return item.type.toLowerCase() === wanted;
+  const v = item.value;
+  const resourceType = resourceTypeOfValue(v);
+  if (resourceType) return resourceType.toLowerCase() === wanted;
+  if (typeof v === 'boolean') return wanted === 'boolean';
+  if (typeof v === 'number') {
+    return wanted === 'decimal' || (Number.isInteger(v) && wanted === 'integer');
+  }
+  if (typeof v === 'string') return wanted === 'string';
+  return false;
+}
+
+function typeArgName(node: FhirPathNode | undefined): string {
+  if (!node) throw new Error('ofType() requires a type argument');
+  if (node.kind === 'member') {
+    return node.source ? `${typeArgName(node.source)}.${node.name}` : node.name;
+  }
+  if (node.kind === 'literal' && typeof node.value === 'string') return node.value;
+  throw new Error('ofType() argument must be a type name');
+}
+
+// ─── Operators ────────────────────────────────────────────────────────────────
+
+function evaluateBinary(
+  op: string,
+  leftNode: FhirPathNode,
+  rightNode: FhirPathNode,
+  focus: Item[],
+  scope: EvalScope,
+): Item[] {
+  const left = evaluate(leftNode, focus, scope);
+  if (op === 'is' || op === 'as') {
+    const typeName = String((rightNode as { value: unknown }).value);
+    if (left.length === 0) return [];
+    const match = left.length === 1 && itemIsType(left[0], typeName);
+    return op === 'is' ? [{ value: match }] : match ? left : [];
+  }
+  const right = evaluate(rightNode, focus, scope);
+  switch (op) {
+    case 'and':
+    case 'or':
+    case 'xor':
+    case 'implies':
+      return boolItems(logical(op, fhirPathTruthy(values(left)), fhirPathTruthy(values(right))));
+    case '|':
+      return distinct([...left, ...right]);
+    case '=':
+    case '!=': {
+      if (left.length === 0 || right.length === 0) return [];
+      const eq = left.length === right.length && left.every((l, i) => valuesEqual(l.value, right[i].value));
+      return [{ value: op === '=' ? eq : !eq }];
+    }
+    case '~':
+    case '!~': {
+      const eq =
+        left.length === right.length &&
+        left.every((l, i) => valuesEquivalent(l.value, right[i].value));
+      return [{ value: op === '~' ? eq : !eq }];
+    }
+    case '<':
+    case '>':
+    case '<=':
+    case '>=': {
+      if (left.length === 0 || right.length === 0) return [];
+      const cmp = compare(single(left), single(right));
+      if (cmp === null) return [];
+      const result = op === '<' ? cmp < 0 : op === '>' ? cmp > 0 : op === '<=' ? cmp <= 0 : cmp >= 0;
+      return [{ value: result }];
+    }
+    case 'in':
+    case 'contains': {
+      const [needle, haystack] = op === 'in' ? [left, right] : [right, left];
+      if (needle.length === 0) return [];
+      return [{ value: haystack.some(h => valuesEqual(h.value, single(needle))) }];
+    }
+    case '&':
+      return [{ value: `${left.length ? String(single(left)) : ''}${right.length ? String(single(right)) : ''}` }];
+    default:
+      return arithmetic(op, left, right);
+  }
+}
+
+function arithmetic(op: string, left: Item[], right: Item[]): Item[] {
+  if (left.length === 0 || right.length === 0) return [];
+  const a = single(left);
+  const b = single(right);
+  if (op === '+' && typeof a === 'string' && typeof b === 'string') return [{ value: a + b }];
+  if (typeof a !== 'number' || typeof b !== 'number') {
+    throw new Error(`Operator '${op}' requires numeric operands`);
+  }
+  switch (op) {
+    case '+':
+      return [{ value: a + b }];
+    case '-':
+      return [{ value: a - b }];
+    case '*':
+      return [{ value: a * b }];
+    case '/':
+      return b === 0 ? [] : [{ value: a / b }];
+    case 'div':
+      return b === 0 ? [] : [{ value: Math.trunc(a / b) }];
+    case 'mod':
+      return b === 0 ? [] : [{ value: a % b }];
+    default:
+      throw new Error(`Unsupported FHIRPath operator '${op}'`);
+  }
+}
+
+function logical(op: string, a: boolean | null, b: boolean | null): boolean | null {
+  switch (op) {
+    case 'and':
+      if (a === false || b === false) return false;
+      return a === null || b === null ? null : true;
+    case 'or':
+      if (a === true || b === true) return true;
+      return a === null || b === null ? null : false;
+    case 'xor':
+      return a === null || b === null ? null : a !== b;
+    default:
+      // implies
+      if (a === false || b === true) return true;
+      return a === null || b === null ? null : false;
+  }
+}
+
+function boolItems(b: boolean | null): Item[] {
+  return b === null ? [] : [{ value: b }];
+}
+
+function values(items: Item[]): unknown[] {
+  return items.map(i => i.value);
+}
+
+function single(items: Item[]): unknown {
+  if (items.length > 1) throw new Error('Expected a single value, got a collection');
+  return items[0]?.value;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return a === b;
+}
+
+function valuesEquivalent(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.trim().toLowerCase().replace(/\s+/g, ' ') === b.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+  return valuesEqual(a, b);
+}
+
+function compare(a: unknown, b: unknown): number | null {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  return null;
+}
+
+function distinct(items: Item[]): Item[] {
+  const seen = new Set<string>();
+  return items.filter(i => {
+    const key = JSON.stringify(i.value);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// ─── Functions ────────────────────────────────────────────────────────────────
+
+function callFunction(name: string, args: FhirPathNode[], input: Item[], scope: EvalScope): Item[] {
+  const arg = (i: number): Item[] => (args[i] ? evaluate(args[i], input, scope) : []);
+  const perItem = (i: number, item: Item): Item[] => evaluate(args[i], [item], scope);
+
+  switch (name) {
+    case 'where':
+      return input.filter(item => fhirPathTruthy(values(perItem(0, item))) === true);
+    case 'select':
+      return input.flatMap(item => perItem(0, item));
+    case 'exists':
+      return [{ value: args.length ? input.some(item => fhirPathTruthy(values(perItem(0, item))) === true) : input.length > 0 }];
+    case 'all':
+      return [{ value: input.every(item => fhirPathTruthy(values(perItem(0, item))) === true) }];
+    case 'empty':
+      return [{ value: input.length === 0 }];
+    case 'not': {
+      const b = fhirPathTruthy(values(input));
+      return b === null ? [] : [{ value: !b }];
+    }
+    case 'count':
+      return [{ value: input.length }];
+    case 'first':
+      return input.slice(0, 1);
+    case 'last':
+      return input.slice(-1);
+    case 'tail':
+      return input.slice(1);
+    case 'single':
+      if (input.length > 1) throw new Error('single() called on a collection with more than one item');
+      return input;
+    case 'distinct':
+      return distinct(input);
+    case 'hasValue':
+      return [{ value: input.length === 1 && typeof input[0].value !== 'object' }];
+    case 'ofType': {
+      const typeName = typeArgName(args[0]);
+      return input.filter(item => itemIsType(item, typeName));
+    }
+    case 'iif': {
+      const cond = fhirPathTruthy(values(arg(0)));
+      return cond === true ? arg(1) : arg(2);
+    }
+    case 'join': {
+      const sep = args.length ? String(single(arg(0)) ?? '') : '';
+      return input.length ? [{ value: input.map(i => String(i.value)).join(sep) }] : [];
+    }
+    case 'extension': {
+      const url = single(arg(0));
+      return input.flatMap(item => navigate(item, 'extension')).filter(ext => {
+        return (ext.value as { url?: unknown }).url === url;
+      });
+    }
+    case 'getResourceKey':
+      return input.flatMap(item => {
+        const id = (item.value as { id?: unknown } | null)?.id;
+        return typeof id === 'string' ? [{ value: id }] : [];
+      });
+    case 'getId':
+    case 'getReferenceKey': {
+      const wantedType = args.length ? typeArgName(args[0]) : null;
+      return input.flatMap(item => referenceKey(item.value, wantedType));
+    }
+    case 'lower':
+    case 'upper':
+      return input.map(i => ({
+        value: name === 'lower' ? String(i.value).toLowerCase() : String(i.value).toUpperCase(),
+      }));
+    case 'startsWith':
+    case 'endsWith':
+    case 'contains': {
+      if (input.length === 0) return [];
+      const s = String(single(input));
+      const needle = String(single(arg(0)) ?? '');
+      const result =
+        name === 'startsWith' ? s.startsWith(needle) : name === 'endsWith' ? s.endsWith(needle) : s.includes(needle);
+      return [{ value: result }];
+    }
+    case 'toString':
+      return input.map(i => ({ value: String(i.value) }));
+    default:
+      throw new Error(`Unsupported FHIRPath function: ${name}()`);
+  }
+}
+
+/**
+ * `getReferenceKey()` — the id segment of a Reference (`Patient/123` → `123`).
+ * Applied to a resource it returns the resource's own id. When a type is given,
+ * references to other resource types are dropped.
+ */
+function referenceKey(value: unknown, wantedType: string | null): Item[] {
+  if (value === null || typeof value !== 'object') return [];
+  const resourceType = resourceTypeOfValue(value);
+  if (resourceType) {
+    const id = (value as { id?: unknown }).id;
+    if (wantedType && normalizeTypeName(wantedType) !== resourceType.toLowerCase()) return [];
+    return typeof id === 'string' ? [{ value: id }] : [];
+  }
+  const ref = (value as { reference?: unknown }).reference;
+  if (typeof ref !== 'string' || !ref) return [];
+  const parts = ref.replace(/\/_history\/[^/]+$/, '').split('/');
+  const id = parts[parts.length - 1];
+  if (wantedType && parts.length > 1 && normalizeTypeName(wantedType) !== parts[parts.length - 2].toLowerCase()) {
+    return [];
+  }
+  return [{ value: id }];
+}
@@ -11,20 +11,40 @@
  * Spec: https://build.fhir.org/ig/FHIR/sql-on-fhir-v2/
  */
 
+import { fhirPathToJsonPath, fhirPathToSql, fhirPathToSqlPredicate } from './fhirpath-sql';
+import { viewDefinitionColumns, viewDefinitionConstants, viewSelectColumns } from './view-runner';
+
 // ─── FHIR ViewDefinition types (SQL-on-FHIR v2) ──────────────────────────────
 
 export interface ViewDefinition {
   resourceType: 'ViewDefinition';
+  /** Server-assigned id when the view is stored on a FHIR server. */
+  id?: string;
   url?: string;
   name: string;
   title?: string;
   status: 'active' | 'draft' | 'retired';
   description?: string;
   resource: string;
+  constant?: ViewDefinitionConstant[];
   select: ViewDefinitionSelect[];
   where?: ViewDefinitionWhere[];
 }
 
+/** Named value referenced from paths as `%name`. Exactly one `value[x]` is set. */
+export interface ViewDefinitionConstant {
+  name: string;
+  valueBoolean?: boolean;
+  valueCode?: string;
+  valueDate?: string;
+  valueDateTime?: string;
+  valueDecimal?: number;
+  valueId?: string;
+  valueInteger?: number;
+  valueString?: string;
+  valueUri?: string;
+}
+
 export interface ViewDefinitionSelect {
   column?: ViewDefinitionColumn[];
   select?: ViewDefinitionSelect[];
@@ -76,6 +96,9 @@ export const STANDARD_VIEW_DEFINITIONS: ViewDefinition[] = [
   allergyIntoleranceViewDefinition(),
   immunizationViewDefinition(),
   serviceRequestViewDefinition(),
+  deviceRequestViewDefinition(),
+  communicationRequestViewDefinition(),
+  claimViewDefinition(),
 ];
 
 // ─── ViewDefinition factories ─────────────────────────────────────────────────
@@ -94,8 +117,8 @@ function patientViewDefinition(): ViewDefinition {
         { name: 'gender',       path: 'gender',       type: 'code' },
         { name: 'birthdate',    path: 'birthDate',    type: 'date' },
         { name: 'active',       path: 'active',       type: 'boolean' },
-        { name: 'name_family',  path: "name.where(use='official').family",  type: 'string' },
-        { name: 'name_given',   path: "name.where(use='official').given.first()", type: 'string' },
+        { name: 'name_family',  path: "(name.where(use='official') | name).first().family", type: 'string' },
+        { name: 'name_given',   path: "(name.where(use='official') | name).first().given.first()", type: 'string' },
         { name: 'deceased',     path: 'deceased.ofType(boolean)', type: 'boolean' },
         { name: 'deceased_datetime', path: 'deceased.ofType(dateTime)', type: 'dateTime' },
         { name: 'race_code',    path: "extension.where(url='http://hl7.org/fhir/us/core/StructureDefinition/us-core-race').extension.where(url='ombCategory').value.ofType(Coding).code", type: 'code' },
@@ -122,15 +145,18 @@ function observationViewDefinition(): ViewDefinition {
         { name: 'code_system',          path: 'code.coding.first().system',   type: 'uri' },
         { name: 'code_display',         path: 'code.coding.first().display',  type: 'string' },
         { name: 'code_text',            path: 'code.text',                    type: 'string' },
+        { name: 'code_coding',          path: 'code.coding',                  type: 'Coding', collection: true },
         { name: 'effective_datetime',   path: 'effective.ofType(dateTime)',   type: 'dateTime' },
         { name: 'effective_start',      path: 'effective.ofType(Period).start', type: 'dateTime' },
         { name: 'effective_end',        path: 'effective.ofType(Period).end',   type: 'dateTime' },
         { name: 'value_quantity',       path: 'value.ofType(Quantity).value', type: 'decimal' },
         { name: 'value_unit',           path: 'value.ofType(Quantity).unit',  type: 'string' },
         { name: 'value_code',           path: 'value.ofType(CodeableConcept).coding.first().code', type: 'code' },
+        { name: 'value_coding',         path: 'value.ofType(CodeableConcept).coding',              type: 'Coding', collection: true },
         { name: 'value_string',         path: 'value.ofType(string)',         type: 'string' },
         { name: 'encounter_id',         path: 'encounter.getId()',            type: 'id' },
         { name: 'category_code',        path: 'category.first().coding.first().code', type: 'code' },
+        { name: 'category_coding',      path: 'category.coding',                      type: 'Coding', collection: true },
       ]
     }]
   };
@@ -152,6 +178,7 @@ function conditionViewDefinition(): ViewDefinition {
         { name: 'code_system',          path: 'code.coding.first().system',           type: 'uri' },
         { name: 'code_display',         path: 'code.coding.first().display',          type: 'string' },
         { name: 'code_text',            path: 'code.text',                            type: 'string' },
+        { name: 'code_coding',          path: 'code.coding',                          type: 'Coding', collection: true },
         { name: 'clinical_status',      path: 'clinicalStatus.coding.first().code',   type: 'code' },
         { name: 'verification_status',  path: 'verificationStatus.coding.first().code', type: 'code' },
         { name: 'onset_datetime',       path: 'onset.ofType(dateTime)',               type: 'dateTime' },
@@ -160,6 +187,7 @@ function conditionViewDefinition(): ViewDefinition {
         { name: 'recorded_date',        path: 'recordedDate',                         type: 'dateTime' },
         { name: 'encounter_id',         path: 'encounter.getId()',                    type: 'id' },
         { name: 'category_code',        path: 'category.first().coding.first().code', type: 'code' },
+        { name: 'category_coding',      path: 'category.coding',                      type: 'Coding', collection: true },
       ]
     }]
   };
@@ -182,11 +210,13 @@ function procedureViewDefinition(): ViewDefinition {
         { name: 'code_system',          path: 'code.coding.first().system',           type: 'uri' },
         { name: 'code_display',         path: 'code.coding.first().display',          type: 'string' },
         { name: 'code_text',            path: 'code.text',                            type: 'string' },
+        { name: 'code_coding',          path: 'code.coding',                          type: 'Coding', collection: true },
         { name: 'performed_datetime',   path: 'performed.ofType(dateTime)',           type: 'dateTime' },
         { name: 'performed_start',      path: 'performed.ofType(Period).start',       type: 'dateTime' },
         { name: 'performed_end',        path: 'performed.ofType(Period).end',         type: 'dateTime' },
         { name: 'encounter_id',         path: 'encounter.getId()',                    type: 'id' },
         { name: 'category_code',        path: 'category.coding.first().code',         type: 'code' },
+        { name: 'category_coding',      path: 'category.coding',                      type: 'Coding', collection: true },
       ]
     }]
   };
@@ -209,6 +239,7 @@ function encounterViewDefinition(): ViewDefinition {
         { name: 'type_code',            path: 'type.first().coding.first().code',     type: 'code' },
         { name: 'type_system',          path: 'type.first().coding.first().system',   type: 'uri' },
         { name: 'type_display',         path: 'type.first().coding.first().display',  type: 'string' },
+        { name: 'type_coding',          path: 'type.coding',                          type: 'Coding', collection: true },
         { name: 'period_start',         path: 'period.start',                         type: 'dateTime' },
         { name: 'period_end',           path: 'period.end',                           type: 'dateTime' },
         { name: 'service_provider_id',  path: 'serviceProvider.getId()',              type: 'id' },
@@ -234,6 +265,7 @@ function medicationRequestViewDefinition(): ViewDefinition {
         { name: 'medication_code',      path: 'medication.ofType(CodeableConcept).coding.first().code', type: 'code' },
         { name: 'medication_system',    path: 'medication.ofType(CodeableConcept).coding.first().system', type: 'uri' },
         { name: 'medication_display',   path: 'medication.ofType(CodeableConcept).coding.first().display', type: 'string' },
+        { name: 'medication_coding',    path: 'medication.ofType(CodeableConcept).coding',                 type: 'Coding', collection: true },
         { name: 'authored_on',          path: 'authoredOn',                                   type: 'dateTime' },
         { name: 'encounter_id',         path: 'encounter.getId()',                            type: 'id' },
         { name: 'requester_id',         path: 'requester.getId()',                            type: 'id' },
@@ -257,10 +289,12 @@ function diagnosticReportViewDefinition(): ViewDefinition {
         { name: 'status',               path: 'status',                               type: 'code' },
         { name: 'code',                 path: 'code.coding.first().code',             type: 'code' },
         { name: 'code_system',          path: 'code.coding.first().system',           type: 'uri' },
+        { name: 'code_coding',          path: 'code.coding',                          type: 'Coding', collection: true },
         { name: 'effective_datetime',   path: 'effective.ofType(dateTime)',           type: 'dateTime' },
         { name: 'issued',               path: 'issued',                               type: 'dateTime' },
         { name: 'encounter_id',         path: 'encounter.getId()',                    type: 'id' },
         { name: 'category_code',        path: 'category.first().coding.first().code', type: 'code' },
+        { name: 'category_coding',      path: 'category.coding',                      type: 'Coding', collection: true },
       ]
     }]
   };
@@ -278,8 +312,10 @@ function coverageViewDefinition(): ViewDefinition {
       column: [
         { name: 'id',                   path: 'id',                                   type: 'id' },
         { name: 'beneficiary_id',       path: 'beneficiary.getId()',                  type: 'id' },
+        { name: 'subject_id',           path: 'beneficiary.getId()',                  type: 'id', description: 'Alias of beneficiary_id for patient correlation' },
         { name: 'status',               path: 'status',                               type: 'code' },
         { name: 'type_code',            path: 'type.coding.first().code',             type: 'code' },
+        { name: 'type_coding',          path: 'type.coding',                          type: 'Coding', collection: true },
         { name: 'payer_id',             path: 'payor.first().getId()',                type: 'id' },
         { name: 'period_start',         path: 'period.start',                         type: 'dateTime' },
         { name: 'period_end',           path: 'period.end',                           type: 'dateTime' },
@@ -300,10 +336,12 @@ function allergyIntoleranceViewDefinition(): ViewDefinition {
       column: [
         { name: 'id',                   path: 'id',                                   type: 'id' },
         { name: 'patient_id',           path: 'patient.getId()',                      type: 'id' },
+        { name: 'subject_id',           path: 'patient.getId()',                      type: 'id', description: 'Alias of patient_id for patient correlation' },
         { name: 'clinical_status',      path: 'clinicalStatus.coding.first().code',   type: 'code' },
         { name: 'verification_status',  path: 'verificationStatus.coding.first().code', type: 'code' },
         { name: 'code',                 path: 'code.coding.first().code',             type: 'code' },
         { name: 'code_system',          path: 'code.coding.first().system',           type: 'uri' },
+        { name: 'code_coding',          path: 'code.coding',                          type: 'Coding', collection: true },
         { name: 'onset_datetime',       path: 'onset.ofType(dateTime)',               type: 'dateTime' },
         { name: 'recorded_date',        path: 'recordedDate',                         type: 'dateTime' },
       ]
@@ -323,9 +361,11 @@ function immunizationViewDefinition(): ViewDefinition {
       column: [
         { name: 'id',                   path: 'id',                                   type: 'id' },
         { name: 'patient_id',           path: 'patient.getId()',                      type: 'id' },
+        { name: 'subject_id',           path: 'patient.getId()',                      type: 'id', description: 'Alias of patient_id for patient correlation' },
         { name: 'status',               path: 'status',                               type: 'code' },
         { name: 'vaccine_code',         path: 'vaccineCode.coding.first().code',      type: 'code' },
         { name: 'vaccine_system',       path: 'vaccineCode.coding.first().system',    type: 'uri' },
+        { name: 'vaccine_coding',       path: 'vaccineCode.coding',                   type: 'Coding', collection: true },
         { name: 'occurrence_datetime',  path: 'occurrence.ofType(dateTime)',          type: 'dateTime' },
         { name: 'primary_source',       path: 'primarySource',                        type: 'boolean' },
         { name: 'encounter_id',         path: 'encounter.getId()',                    type: 'id' },
@@ -350,10 +390,12 @@ function serviceRequestViewDefinition(): ViewDefinition {
         { name: 'intent',             path: 'intent',                                       type: 'code' },
         { name: 'category_code',      path: 'category.first().coding.first().code',         type: 'code' },
         { name: 'category_system',    path: 'category.first().coding.first().system',       type: 'uri' },
+        { name: 'category_coding',    path: 'category.coding',                              type: 'Coding', collection: true },
         { name: 'code',               path: 'code.coding.first().code',                     type: 'code' },
         { name: 'code_system',        path: 'code.coding.first().system',                   type: 'uri' },
         { name: 'code_display',       path: 'code.coding.first().display',                  type: 'string' },
         { name: 'code_text',          path: 'code.text',                                    type: 'string' },
+        { name: 'code_coding',        path: 'code.coding',                                  type: 'Coding', collection: true },
         { name: 'occurrence_datetime', path: 'occurrence.ofType(dateTime)',                 type: 'dateTime' },
         { name: 'occurrence_start',   path: 'occurrence.ofType(Period).start',              type: 'dateTime' },
         { name: 'occurrence_end',     path: 'occurrence.ofType(Period).end',                type: 'dateTime' },
@@ -370,46 +412,214 @@ function serviceRequestViewDefinition(): ViewDefinition {
   };
 }
 
+function deviceRequestViewDefinition(): ViewDefinition {
+  return {
+    resourceType: 'ViewDefinition',
+    name: 'device_request_view',
+    title: 'DeviceRequest view',
+    status: 'active',
+    description: 'Flattened DeviceRequest — orders for devices and equipment.',
+    resource: 'DeviceRequest',
+    select: [{
+      column: [
+        { name: 'id',                   path: 'id',                                           type: 'id' },
+        { name: 'subject_id',           path: 'subject.getId()',                              type: 'id' },
+        { name: 'status',               path: 'status',                                       type: 'code' },
+        { name: 'intent',               path: 'intent',                                       type: 'code' },
+        { name: 'code',                 path: 'code.ofType(CodeableConcept).coding.first().code', type: 'code' },
+        { name: 'code_system',          path: 'code.ofType(CodeableConcept).coding.first().system', type: 'uri' },
+        { name: 'code_display',         path: 'code.ofType(CodeableConcept).coding.first().display', type: 'string' },
+        { name: 'code_coding',          path: 'code.ofType(CodeableConcept).coding',                 type: 'Coding', collection: true },
+        { name: 'authored_on',          path: 'authoredOn',                                   type: 'dateTime' },
+        { name: 'occurrence_datetime',  path: 'occurrence.ofType(dateTime)',                  type: 'dateTime' },
+        { name: 'occurrence_start',     path: 'occurrence.ofType(Period).start',              type: 'dateTime' },
+        { name: 'occurrence_end',       path: 'occurrence.ofType(Period).end',                type: 'dateTime' },
+        { name: 'encounter_id',         path: 'encounter.getId()',                            type: 'id' },
+        { name: 'requester_id',         path: 'requester.getId()',                            type: 'id' },
+      ]
+    }]
+  };
+}
+
+function communicationRequestViewDefinition(): ViewDefinition {
+  return {
+    resourceType: 'ViewDefinition',
+    name: 'communication_request_view',
+    title: 'CommunicationRequest view',
+    status: 'active',
+    description: 'Flattened CommunicationRequest — requested notifications and referrals.',
+    resource: 'CommunicationRequest',
+    select: [{
+      column: [
+        { name: 'id',                   path: 'id',                                           type: 'id' },
+        { name: 'subject_id',           path: 'subject.getId()',                              type: 'id' },
+        { name: 'status',               path: 'status',                                       type: 'code' },
+        { name: 'category_code',        path: 'category.first().coding.first().code',         type: 'code' },
+        { name: 'category_system',      path: 'category.first().coding.first().system',       type: 'uri' },
+        { name: 'category_coding',      path: 'category.coding',                              type: 'Coding', collection: true },
+        { name: 'priority',             path: 'priority',                                     type: 'code' },
+        { name: 'authored_on',          path: 'authoredOn',                                   type: 'dateTime' },
+        { name: 'occurrence_datetime',  path: 'occurrence.ofType(dateTime)',                  type: 'dateTime' },
+        { name: 'occurrence_start',     path: 'occurrence.ofType(Period).start',              type: 'dateTime' },
+        { name: 'occurrence_end',       path: 'occurrence.ofType(Period).end',                type: 'dateTime' },
+        { name: 'reason_code',          path: 'reasonCode.first().coding.first().code',       type: 'code' },
+        { name: 'do_not_perform',       path: 'doNotPerform',                                 type: 'boolean' },
+        { name: 'encounter_id',         path: 'encounter.getId()',                            type: 'id' },
+        { name: 'requester_id',         path: 'requester.getId()',                            type: 'id' },
+      ]
+    }]
+  };
+}
+
+function claimViewDefinition(): ViewDefinition {
+  return {
+    resourceType: 'ViewDefinition',
+    name: 'claim_view',
+    title: 'Claim view',
+    status: 'active',
+    description: 'Flattened Claim — billed services, used by claims-based measure logic.',
+    resource: 'Claim',
+    select: [{
+      column: [
+        { name: 'id',                   path: 'id',                                           type: 'id' },
+        { name: 'subject_id',           path: 'patient.getId()',                              type: 'id' },
+        { name: 'status',               path: 'status',                                       type: 'code' },
+        { name: 'use',                  path: 'use',                                          type: 'code' },
+        { name: 'type_code',            path: 'type.coding.first().code',                     type: 'code' },
+        { name: 'type_system',          path: 'type.coding.first().system',                   type: 'uri' },
+        { name: 'type_coding',          path: 'type.coding',                                  type: 'Coding', collection: true },
+        { name: 'created',              path: 'created',                                      type: 'dateTime' },
+        { name: 'billable_period_start', path: 'billablePeriod.start',                        type: 'dateTime' },
+        { name: 'billable_period_end',  path: 'billablePeriod.end',                           type: 'dateTime' },
+        { name: 'provider_id',          path: 'provider.getId()',                             type: 'id' },
+        { name: 'insurer_id',           path: 'insurer.getId()',                              type: 'id' },
+        { name: 'diagnosis_code',       path: 'diagnosis.first().diagnosis.ofType(CodeableConcept).coding.first().code', type: 'code' },
+        { name: 'item_code',            path: 'item.first().productOrService.coding.first().code', type: 'code' },
+      ]
+    }]
+  };
+}
+
 // ─── SQL DDL generator ────────────────────────────────────────────────────────
 
+/** FHIR primitive type → PostgreSQL column type. Unlisted types map to TEXT. */
+const FHIR_TYPE_TO_SQL: Record<string, string> = {
+  boolean: 'BOOLEAN',
+  date: 'DATE',
+  dateTime: 'TIMESTAMPTZ',
+  instant: 'TIMESTAMPTZ',
+  time: 'TIME',
+  decimal: 'NUMERIC',
+  integer: 'INTEGER',
+  positiveInt: 'INTEGER',
+  unsignedInt: 'INTEGER',
+  integer64: 'BIGINT',
+};
+
+/** PostgreSQL type for a ViewDefinition column. Collection columns are JSONB arrays. */
+export function viewColumnSqlType(col: ViewDefinitionColumn): string {
+  if (col.collection) return 'JSONB';
+  return (col.type && FHIR_TYPE_TO_SQL[col.type]) || 'TEXT';
+}
+
 /**
  * Generate PostgreSQL CREATE OR REPLACE VIEW statements from ViewDefinitions.
- * These target a FHIR-sourced flat table (e.g. produced by a FHIR-to-parquet ETL
- * or the HAPI FHIR JPA views from Issue #21).
+ * The source is one table per resource type, `fhir_<resource>`, holding the
+ * resource JSON in a `resource JSONB` column (the shape produced by most
+ * FHIR-to-Postgres loaders). FHIRPath is compiled to SQL/JSON path queries;
+ * paths outside the supported subset become commented NULLs.
  */
 export function viewDefinitionToSql(vd: ViewDefinition): SqlViewDefinition {
-  const cols = extractColumns(vd.select);
-  const sourcePaths = cols.map(c => `  ${pathToSqlExpr(c.path, vd.resource.toLowerCase())} AS ${c.name}`).join(',\n');
+  const constants = viewDefinitionConstants(vd);
+  const ctx: SelectCompileContext = { constants, joins: [], aliasCounter: 0 };
+  const columns = compileSelects(vd.select, 'r.resource', ctx);
+  const where = (vd.where ?? []).map(
+    w => fhirPathToSqlPredicate(w.path, 'r.resource', constants) ?? `TRUE /* unsupported FHIRPath: ${w.path} */`,
+  );
 
   const sql =
     `-- ViewDefinition: ${vd.name}\n` +
     `-- Resource: ${vd.resource}\n` +
     (vd.description ? `-- ${vd.description}\n` : '') +
-    `CREATE OR REPLACE VIEW ${vd.name} AS\nSELECT\n${sourcePaths}\nFROM fhir_${vd.resource.toLowerCase()};`;
+    `CREATE OR REPLACE VIEW ${vd.name} AS\nSELECT\n${columns.map(c => `  ${c}`).join(',\n')}\n` +
+    `FROM fhir_${vd.resource.toLowerCase()} AS r` +
+    ctx.joins.map(j => `\n${j}`).join('') +
+    (where.length ? `\nWHERE ${where.join('\n  AND ')}` : '') +
+    ';';
 
   return { viewName: vd.name, sql, description: vd.description ?? vd.title ?? vd.name };
 }
 
-function extractColumns(selects: ViewDefinitionSelect[]): ViewDefinitionColumn[] {
-  const cols: ViewDefinitionColumn[] = [];
-  for (const sel of selects) {
-    if (sel.column) cols.push(...sel.column);
-    if (sel.select) cols.push(...extractColumns(sel.select));
-  }
-  return cols;
+/**
+ * Generate `CREATE TABLE IF NOT EXISTS` DDL for materialising a ViewDefinition
+ * as a plain table (what the in-browser PGlite database seeds from the view
+ * runner's rows). A top-level `id` column becomes the primary key when the
+ * view emits at most one row per resource.
+ */
+export function viewDefinitionToTableDdl(vd: ViewDefinition): string {
+  const cols = viewDefinitionColumns(vd);
+  const oneRowPerResource = !hasRepeatingSelect(vd.select);
+  const lines = cols.map(c => {
+    const pk = oneRowPerResource && c.name === 'id' ? ' PRIMARY KEY' : '';
+    return `  ${c.name} ${viewColumnSqlType(c)}${pk}`;
+  });
+  return `CREATE TABLE IF NOT EXISTS ${vd.name} (\n${lines.join(',\n')}\n);`;
+}
+
+function hasRepeatingSelect(selects: ViewDefinitionSelect[]): boolean {
+  return selects.some(
+    s => !!s.forEach || !!s.forEachOrNull || !!s.unionAll?.length || hasRepeatingSelect(s.select ?? []),
+  );
 }
 
-/** Converts a FHIRPath expression to a rough SQL expression for the DDL. */
-function pathToSqlExpr(path: string, _resource: string): string {
-  // Simple cases — delegate complex FHIRPath to the runtime (e.g. pg_fhirpath)
-  if (!path.includes('.') && !path.includes('(')) return path;
-  // Use jsonb extraction for structured paths — implementation depends on storage
-  const jsonPath = path
-    .replace(/\.getId\(\)/, " ->> 'reference'")
-    .replace(/\.first\(\)/, '[0]')
-    .replace(/\.ofType\(\w+\)/, '')
-    .replace(/\.\w+\(\)/g, '');
-  return `fhir_extract('${jsonPath}')`;
+interface SelectCompileContext {
+  constants: Record<string, unknown>;
+  /** Lateral joins accumulated for the current FROM clause. */
+  joins: string[];
+  aliasCounter: number;
+}
+
+/** Compile selects against `focus`, pushing lateral joins into ctx; returns `expr AS name` items. */
+function compileSelects(selects: ViewDefinitionSelect[], focus: string, ctx: SelectCompileContext): string[] {
+  const out: string[] = [];
+  for (const sel of selects) {
+    let selFocus = focus;
+    const iterate = sel.forEach ?? sel.forEachOrNull;
+    if (iterate) {
+      const alias = `fe${++ctx.aliasCounter}`;
+      const jsonPath = fhirPathToJsonPath(iterate, ctx.constants);
+      const source = jsonPath
+        ? `jsonb_path_query(${focus}, '${jsonPath.replace(/'/g, "''")}')`
+        : `(SELECT NULL::jsonb WHERE FALSE) /* unsupported FHIRPath: ${iterate} */`;
+      ctx.joins.push(
+        sel.forEachOrNull
+          ? `LEFT JOIN LATERAL ${source} AS ${alias}(value) ON TRUE`
+          : `CROSS JOIN LATERAL ${source} AS ${alias}(value)`,
+      );
+      selFocus = `${alias}.value`;
+    }
+    for (const col of sel.column ?? []) {
+      const expr = fhirPathToSql(col.path, selFocus, {
+        sqlType: viewColumnSqlType(col),
+        collection: col.collection,
+        constants: ctx.constants,
+      });
+      out.push(`${expr} AS ${col.name}`);
+    }
+    if (sel.select) out.push(...compileSelects(sel.select, selFocus, ctx));
+    if (sel.unionAll?.length) {
+      const alias = `u${++ctx.aliasCounter}`;
+      const branches = sel.unionAll.map(branch => {
+        const branchCtx: SelectCompileContext = { constants: ctx.constants, joins: [], aliasCounter: ctx.aliasCounter };
+        const cols = compileSelects([branch], selFocus, branchCtx);
+        ctx.aliasCounter = branchCtx.aliasCounter;
+        return `SELECT ${cols.join(', ')} FROM (VALUES (1)) AS ${alias}_base(one)${branchCtx.joins.map(j => ` ${j}`).join('')}`;
+      });
+      ctx.joins.push(`CROSS JOIN LATERAL (\n  ${branches.join('\n  UNION ALL\n  ')}\n) AS ${alias}`);
+      out.push(...viewSelectColumns([sel.unionAll[0]]).map(c => `${alias}.${c.name} AS ${c.name}`));
+    }
+  }
+  return out;
 }
 
 /**
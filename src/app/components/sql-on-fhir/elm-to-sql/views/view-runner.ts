@@ -0,0 +1,158 @@
+/**
+ * SQL-on-FHIR v2 ViewDefinition runner.
+ *
+ * Evaluates a ViewDefinition against in-memory FHIR resources and returns one
+ * plain row per output tuple. Supports `column`, nested `select`, `forEach`,
+ * `forEachOrNull`, `unionAll`, `where` and `constant` as described in
+ * https://build.fhir.org/ig/FHIR/sql-on-fhir-v2/StructureDefinition-ViewDefinition.html
+ *
+ * Deviation from the spec: a non-collection column whose path yields more than
+ * one value takes the first value instead of failing the whole view. Real-world
+ * data routinely carries repeated elements the standard views read as scalars.
+ * Likewise a resource whose evaluation fails (an unsupported function, a
+ * `where` that yields a collection) is skipped and reported rather than
+ * failing the view for every other resource.
+ */
+
+import { evaluateFhirPath, fhirPathTruthy, parseFhirPath } from './fhirpath';
+import type {
+  ViewDefinition,
+  ViewDefinitionColumn,
+  ViewDefinitionSelect,
+} from './view-definitions';
+
+/** One output row keyed by column name. Collection columns hold arrays. */
+export type ViewRow = Record<string, unknown>;
+
+/** A resource left out of a view's rows because evaluating the view over it failed. */
+export interface ViewResourceError {
+  resource: unknown;
+  message: string;
+}
+
+/**
+ * Run a ViewDefinition over a set of resources. Resources whose `resourceType`
+ * differs from `vd.resource` are ignored, so a whole Bundle's resources can be
+ * passed as-is. Errors in the definition itself still throw; a resource that
+ * fails to evaluate contributes no rows and is passed to `onError`.
+ */
+export function runViewDefinition(
+  vd: ViewDefinition,
+  resources: readonly unknown[],
+  onError?: (error: ViewResourceError) => void,
+): ViewRow[] {
+  const constants = viewDefinitionConstants(vd);
+  viewDefinitionColumns(vd); // validates column names up front
+  validateSelects(vd);
+  const rows: ViewRow[] = [];
+  for (const resource of resources) {
+    if ((resource as { resourceType?: unknown } | null)?.resourceType !== vd.resource) continue;
+    try {
+      const included = (vd.where ?? []).every(
+        w => fhirPathTruthy(evaluateFhirPath(w.path, resource, { constants })) === true,
+      );
+      if (!included) continue;
+      rows.push(...selectAll(vd.select, resource, constants));
+    } catch (err) {
+      onError?.({ resource, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return rows;
+}
+
+/**
+ * The ordered output columns of a ViewDefinition. `unionAll` branches must
+ * agree on column names; only the first branch is reported.
+ */
+export function viewDefinitionColumns(vd: ViewDefinition): ViewDefinitionColumn[] {
+  const cols = viewSelectColumns(vd.select);
+  const seen = new Set<string>();
+  for (const col of cols) {
+    if (seen.has(col.name)) throw new Error(`ViewDefinition ${vd.name}: duplicate column '${col.name}'`);
+    seen.add(col.name);
+  }
+  return cols;
+}
+
+/** Columns declared by a list of selects, in output order. */
+export function viewSelectColumns(selects: ViewDefinitionSelect[]): ViewDefinitionColumn[] {
+  const cols: ViewDefinitionColumn[] = [];
+  for (const sel of selects) {
+    if (sel.column) cols.push(...sel.column);
+    if (sel.select) cols.push(...viewSelectColumns(sel.select));
+    if (sel.unionAll?.length) cols.push(...viewSelectColumns([sel.unionAll[0]]));
+  }
+  return cols;
+}
+
+/** `%name` → value for each of the view's `constant` entries. */
+export function viewDefinitionConstants(vd: ViewDefinition): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const c of vd.constant ?? []) {
+    const key = Object.keys(c).find(k => k.startsWith('value'));
+    if (!key) throw new Error(`ViewDefinition ${vd.name}: constant '${c.name}' has no value[x]`);
+    out[c.name] = (c as unknown as Record<string, unknown>)[key];
+  }
+  return out;
+}
+
+/** Parse every path and check each select, so definition errors fail the view before any resource. */
+function validateSelects(vd: ViewDefinition): void {
+  for (const w of vd.where ?? []) parseFhirPath(w.path);
+  const visit = (sel: ViewDefinitionSelect): void => {
+    if (sel.forEach && sel.forEachOrNull) {
+      throw new Error('A select may not declare both forEach and forEachOrNull');
+    }
+    const iteratePath = sel.forEach ?? sel.forEachOrNull;
+    if (iteratePath) parseFhirPath(iteratePath);
+    for (const col of sel.column ?? []) parseFhirPath(col.path);
+    for (const nested of [...(sel.select ?? []), ...(sel.unionAll ?? [])]) visit(nested);
+  };
+  vd.select.forEach(visit);
+}
+
+function selectAll(selects: ViewDefinitionSelect[], node: unknown, constants: Record<string, unknown>): ViewRow[] {
+  return product(selects.map(s => selectRows(s, node, constants)));
+}
+
+function selectRows(sel: ViewDefinitionSelect, node: unknown, constants: Record<string, unknown>): ViewRow[] {
+  const iteratePath = sel.forEach ?? sel.forEachOrNull;
+  const foci = iteratePath ? evaluateFhirPath(iteratePath, node, { constants }) : [node];
+
+  if (foci.length === 0) {
+    return sel.forEachOrNull ? [nullRow(sel)] : [];
+  }
+
+  return foci.flatMap(focus => {
+    const parts: ViewRow[][] = [];
+    if (sel.column) parts.push([columnRow(sel.column, focus, constants)]);
+    for (const nested of sel.select ?? []) parts.push(selectRows(nested, focus, constants));
+    if (sel.unionAll?.length) {
+      parts.push(sel.unionAll.flatMap(branch => selectRows(branch, focus, constants)));
+    }
+    return product(parts);
+  });
+}
+
+function columnRow(columns: ViewDefinitionColumn[], focus: unknown, constants: Record<string, unknown>): ViewRow {
+  const row: ViewRow = {};
+  for (const col of columns) {
+    const result = evaluateFhirPath(col.path, focus, { constants });
+    row[col.name] = col.collection ? result : (result[0] ?? null);
+  }
+  return row;
+}
+
+function nullRow(sel: ViewDefinitionSelect): ViewRow {
+  const row: ViewRow = {};
+  for (const col of viewSelectColumns([sel])) row[col.name] = null;
+  return row;
+}
+
+/** Cartesian product of row sets, merging the columns of each combination. */
+function product(parts: ViewRow[][]): ViewRow[] {
+  return parts.reduce<ViewRow[]>(
+    (acc, rows) => acc.flatMap(a => rows.map(r => ({ ...a, ...r }))),
+    [{}],
+  );
+}
@@ -0,0 +1,143 @@
+// Author: Preston Lee
+
+import {
+  ChangeDetectionStrategy,
+  Component,
+  effect,
+  inject,
+  input,
+  output,
+  signal,
+} from '@angular/core';
+import type { TranspiledCte } from '../elm-to-sql';
+import { SqlOnFhirExplainService } from '../../../services/sql-on-fhir/sql-on-fhir-explain.service';
+import {
+  CTE_PATIENT_LIMIT,
+  type CteTrace,
+} from '../../../services/sql-on-fhir/sql-on-fhir-explain.lib';
+
+/**
+ * Explain view for the executed SQL: each CTE with the CQL define it came
+ * from, its row count and time on the loaded data, the patients it matched,
+ * and the `EXPLAIN ANALYZE` plan of the whole query.
+ */
+@Component({
+  selector: 'app-sql-explain-view',
+  templateUrl: './sql-explain-view.component.html',
+  styleUrl: './sql-explain-view.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SqlExplainViewComponent {
+  private readonly explain = inject(SqlOnFhirExplainService);
+
+  /** CTEs of the PostgreSQL build, in `WITH` order. */
+  readonly ctes = input<TranspiledCte[]>([]);
+  /** The PostgreSQL population query. */
+  readonly sql = input('');
+  /** True once the query has run on the data now in PGlite. */
+  readonly canTrace = input(false);
+  /** Emitted to highlight a CTE's define in the CQL step. */
+  readonly showInCql = output<TranspiledCte>();
+
+  protected readonly patientLimit = CTE_PATIENT_LIMIT;
+
+  protected readonly traces = signal<CteTrace[]>([]);
+  protected readonly isTracing = signal(false);
+  protected readonly traceError = signal<string | null>(null);
+
+  protected readonly selected = signal<CteTrace | null>(null);
+  protected readonly patients = signal<string[]>([]);
+  protected readonly isLoadingPatients = signal(false);
+  protected readonly patientsError = signal<string | null>(null);
+
+  protected readonly plan = signal<string | null>(null);
+  protected readonly isExplaining = signal(false);
+  protected readonly planError = signal<string | null>(null);
+
+  /** Bumped whenever the query changes so late results of an older trace are dropped. */
+  private runId = 0;
+
+  constructor() {
+    effect(() => {
+      this.ctes();
+      this.runId++;
+      this.traces.set([]);
+      this.traceError.set(null);
+      this.selected.set(null);
+      this.patients.set([]);
+      this.plan.set(null);
+      this.planError.set(null);
+    });
+  }
+
+  protected async trace(): Promise<void> {
+    const runId = ++this.runId;
+    this.isTracing.set(true);
+    this.traceError.set(null);
+    this.selected.set(null);
+    try {
+      const traces = await this.explain.traceCtes(this.ctes());
+      if (runId === this.runId) {
+        this.traces.set(traces);
+      }
+    } catch (err) {
+      if (runId === this.runId) {
+        this.traceError.set(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      this.isTracing.set(false);
+    }
+  }
+
+  protected async selectCte(trace: CteTrace): Promise<void> {
+    const runId = this.runId;
+    this.selected.set(trace);
+    this.patients.set([]);
+    this.patientsError.set(null);
+    if (!trace.cte.patientColumn || trace.error) {
+      return;
+    }
+    this.isLoadingPatients.set(true);
+    try {
+      const patients = await this.explain.ctePatients(this.ctes(), trace.cte.name);
+      if (runId === this.runId && this.selected() === trace) {
+        this.patients.set(patients);
+      }
+    } catch (err) {
+      if (runId === this.runId && this.selected() === trace) {
+        this.patientsError.set(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      this.isLoadingPatients.set(false);
+    }
+  }
+
+  protected async explainQuery(): Promise<void> {
+    const runId = this.runId;
+    this.isExplaining.set(true);
+    this.planError.set(null);
+    try {
+      const plan = await this.explain.explainQuery(this.sql());
+      if (runId === this.runId) {
+        this.plan.set(plan);
+      }
+    } catch (err) {
+      if (runId === this.runId) {
+        this.planError.set(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      this.isExplaining.set(false);
+    }
+  }
+
+  protected kindLabel(cte: TranspiledCte): string {
+    switch (cte.kind) {
+      case 'value':
+        return 'value';
+      case 'observation':
+        return 'measure observation';
+      default:
+        return cte.patientColumn ? 'per patient' : 'unfiltered';
+    }
+  }
+}
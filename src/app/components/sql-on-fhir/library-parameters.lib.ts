@@ -1,6 +1,7 @@
 // Author: Preston Lee
 
 import type { Library } from 'fhir/r4';
+import { POSTGRESQL_DIALECT, type SqlDialect } from './elm-to-sql/transpiler/sql-dialect';
 import type { ElmLibrary, ElmLibraryWrapper, ElmParameterDef } from './elm-to-sql/types/elm';
 
 export type ParameterValueKind =
@@ -298,16 +299,17 @@ export function measurementPeriodFromValues(values: LibraryParameterValues): { s
   return defaultCalendarYearPeriod();
 }
 
-export function parameterValueToSqlLiteral(name: string, value: ParameterValue | undefined): string | null {
+export function parameterValueToSqlLiteral(
+  name: string,
+  value: ParameterValue | undefined,
+  dialect: SqlDialect = POSTGRESQL_DIALECT,
+): string | null {
   if (!value) {
     return null;
   }
   switch (value.kind) {
     case 'period':
-      if (name === 'Measurement Period') {
-        return `tstzrange('${value.start}', '${value.end}', '[)')`;
-      }
-      return `tstzrange('${value.start}', '${value.end}', '[)')`;
+      return dialect.interval(`'${value.start}'`, `'${value.end}'`, '[)');
     case 'dateTime':
       return `'${value.value}'::timestamptz`;
     case 'string':
@@ -1,6 +1,7 @@
 // Author: Preston Lee
 
 import type { Library } from 'fhir/r4';
+import type { TranspileWarning } from './elm-to-sql';
 import type { ElmLibrary, ElmLibraryWrapper } from './elm-to-sql/types/elm';
 import {
   buildLibraryParameterSpecs,
@@ -13,7 +14,7 @@ import { isStandardPopulationName, MEASURE_POPULATION_NAMES } from './measure-po
 
 export interface GenerateSqlResultSummary {
   populations: string[];
-  warnings: string[];
+  warnings: TranspileWarning[];
 }
 
 export interface MeasureCompatibilityInput {
@@ -140,7 +141,7 @@ export function assessMeasureLibraryCompatibility(input: MeasureCompatibilityInp
 
   const warnings = input.generateSqlResult?.warnings ?? [];
   for (const w of warnings) {
-    const paramMatch = w.match(/Unresolved ParameterRef:\s*(.+)/i);
+    const paramMatch = w.message.match(/Unresolved ParameterRef:\s*(.+)/i);
     if (paramMatch) {
       issues.push({
         severity: 'blocking',
@@ -149,19 +150,19 @@ export function assessMeasureLibraryCompatibility(input: MeasureCompatibilityInp
       });
       continue;
     }
-    const defineMatch = w.match(/define "([^"]+)"/i);
+    const defineMatch = w.message.match(/define "([^"]+)"/i);
     if (defineMatch && populations.some(p => p === defineMatch[1])) {
       issues.push({
         severity: 'blocking',
         code: 'population-transpile-warning',
-        message: `Define "${defineMatch[1]}" uses unsupported ELM: ${w}`,
+        message: `Define "${defineMatch[1]}" uses unsupported ELM: ${w.message}`,
       });
       continue;
     }
     issues.push({
       severity: 'warning',
       code: 'transpiler-warning',
-      message: w,
+      message: w.message,
     });
   }
 
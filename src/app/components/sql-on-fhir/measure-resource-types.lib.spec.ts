@@ -53,7 +53,7 @@ describe('measure-resource-types.lib', () => {
               name: 'Test',
               expression: {
                 type: 'Retrieve',
-                dataType: '{http://hl7.org/fhir}MedicationRequest',
+                dataType: '{http://hl7.org/fhir}Goal',
               },
             },
           ],
@@ -64,7 +64,24 @@ describe('measure-resource-types.lib', () => {
       elmJson: JSON.stringify(elm),
       library: null,
     });
-    expect(result.unsupportedTypes).toEqual(['MedicationRequest']);
+    expect(result.unsupportedTypes).toEqual(['Goal']);
     expect(result.derivedTypes).toEqual(['Patient']);
   });
+
+  test('types backed by custom ViewDefinitions are supported', () => {
+    const elm = {
+      library: {
+        statements: {
+          def: [{ name: 'Test', expression: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Goal' } }],
+        },
+      },
+    };
+    const result = resolveExecutionResourceTypes({
+      elmJson: JSON.stringify(elm),
+      library: null,
+      customViewResourceTypes: ['Goal'],
+    });
+    expect(result.unsupportedTypes).toEqual([]);
+    expect(result.derivedTypes).toEqual(['Goal', 'Patient']);
+  });
 });
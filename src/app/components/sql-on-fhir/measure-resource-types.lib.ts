@@ -10,6 +10,15 @@ export const FLATTENABLE_RESOURCE_TYPES = [
   'Observation',
   'Procedure',
   'Condition',
+  'MedicationRequest',
+  'DiagnosticReport',
+  'Coverage',
+  'AllergyIntolerance',
+  'Immunization',
+  'ServiceRequest',
+  'DeviceRequest',
+  'CommunicationRequest',
+  'Claim',
 ] as const;
 
 export type FlattenableResourceType = (typeof FLATTENABLE_RESOURCE_TYPES)[number];
@@ -87,7 +96,10 @@ function unionSorted(...lists: string[][]): string[] {
 export function resolveExecutionResourceTypes(input: {
   elmJson: string | null | undefined;
   library: Library | null | undefined;
+  /** Resource types backed by registered user-defined ViewDefinitions. */
+  customViewResourceTypes?: readonly string[];
 }): ExecutionResourceTypesResult {
+  const custom = new Set(input.customViewResourceTypes ?? []);
   const fromElm = extractRetrieveTypesFromElm(input.elmJson);
   const fromLibrary = extractTypesFromLibrary(input.library);
   const referenced = unionSorted(fromElm, fromLibrary);
@@ -95,7 +107,7 @@ export function resolveExecutionResourceTypes(input: {
   const derivedTypes: string[] = [];
   const unsupportedTypes: string[] = [];
   for (const type of referenced) {
-    if (FLATTENABLE_SET.has(type)) {
+    if (FLATTENABLE_SET.has(type) || custom.has(type)) {
       derivedTypes.push(type);
     } else {
       unsupportedTypes.push(type);
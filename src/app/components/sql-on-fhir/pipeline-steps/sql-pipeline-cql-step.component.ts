@@ -1,9 +1,11 @@
 // Author: Preston Lee
 // Editable authoring mode: Eugene Vestel
 
-import { ChangeDetectionStrategy, Component, effect, input, output, signal } from '@angular/core';
+import { ChangeDetectionStrategy, Component, computed, effect, input, output, signal } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { SyntaxHighlighterComponent } from '../../shared/syntax-highlighter/syntax-highlighter.component';
+import { parseLocator } from '../../../services/elm-locator.lib';
+import type { TranspileWarning } from '../elm-to-sql';
 
 @Component({
   selector: 'app-sql-pipeline-cql-step',
@@ -15,8 +17,20 @@ import { SyntaxHighlighterComponent } from '../../shared/syntax-highlighter/synt
 })
 export class SqlPipelineCqlStepComponent {
   readonly cqlPreview = input('');
+  /** SQL diagnostic or traced CTE whose source lines are highlighted in the preview. */
+  readonly highlightedWarning = input<Pick<TranspileWarning, 'message' | 'locator'> | null>(null);
   /** Emitted when the user applies edits; parent re-runs translation + SQL generation. */
   readonly cqlChanged = output<string>();
+  readonly dismissHighlight = output<void>();
+
+  /** Prism line-highlight range for the highlighted diagnostic, e.g. "12-14". */
+  protected readonly highlightLines = computed(() => {
+    const span = parseLocator(this.highlightedWarning()?.locator);
+    if (!span) {
+      return '';
+    }
+    return span.endLine > span.startLine ? `${span.startLine}-${span.endLine}` : `${span.startLine}`;
+  });
 
   protected readonly isEditing = signal(false);
   protected readonly draft = signal('');
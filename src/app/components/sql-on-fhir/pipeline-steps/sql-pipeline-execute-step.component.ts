@@ -1,6 +1,6 @@
 // Author: Preston Lee
 
-import { Component, input, output } from '@angular/core';
+import { Component, input, output, signal } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { RouterLink } from '@angular/router';
 import { Patient } from 'fhir/r4';
@@ -8,6 +8,16 @@ import { SyntaxHighlighterComponent } from '../../shared/syntax-highlighter/synt
 import type { LibraryParameterSpec, LibraryParameterValues, ParameterValue } from '../library-parameters.lib';
 import type { CompatibilityIssue } from '../measure-library-compatibility.lib';
 import type { BundleResourceSummary } from '../../../services/sql-on-fhir/sql-on-fhir-execution-data.service';
+import type { SqlMeasureReportType } from '../../../services/sql-on-fhir/sql-on-fhir-pipeline.service';
+import type { BulkExportProgress } from '../../../services/sql-on-fhir/sql-on-fhir-bulk-export.lib';
+import {
+  NDJSON_IMPORT_ACCEPT,
+  type NdjsonImportProgress,
+} from '../../../services/sql-on-fhir/sql-on-fhir-ndjson-import.lib';
+import type {
+  EngineComparison,
+  PopulationComparison,
+} from '../../../services/sql-on-fhir/sql-on-fhir-engine-comparison.lib';
 
 @Component({
   selector: 'app-sql-pipeline-execute-step',
@@ -21,6 +31,10 @@ export class SqlPipelineExecuteStepComponent {
   readonly measureReportJson = input('');
   readonly sqlExecutionStatus = input<string | null>(null);
   readonly measureReportStatus = input<string | null>(null);
+  readonly measureReportType = input<SqlMeasureReportType>('summary');
+  /** Patient ids with an individual report, when `measureReportType` is `individual`. */
+  readonly reportSubjects = input<string[]>([]);
+  readonly selectedReportSubject = input<string | null>(null);
   readonly hasMeasureReport = input(false);
   readonly persistedMeasureReportId = input<string | null>(null);
   readonly isExecutingSql = input(false);
@@ -35,20 +49,39 @@ export class SqlPipelineExecuteStepComponent {
   readonly isLoadingPatients = input(false);
   readonly patientSearchError = input<string | null>(null);
   readonly hasExecutionBundle = input(false);
+  /** Persisted dataset holding seeded data that runs stand in for a bundle; null when none. */
+  readonly storedDataset = input<string | null>(null);
   readonly showResourceTypeSelection = input(false);
   readonly derivedResourceTypes = input<string[]>([]);
   readonly unsupportedResourceTypes = input<string[]>([]);
   readonly executionResourceTypes = input<string[]>(['Patient']);
   readonly isLoadingPatientData = input(false);
+  /** Patients whose compartments have loaded so far, while `isLoadingPatientData`. */
+  readonly patientDataProgress = input<{ done: number; total: number } | null>(null);
+  readonly isExportingGroup = input(false);
+  readonly groupExportProgress = input<BulkExportProgress | null>(null);
+  readonly isImportingNdjson = input(false);
+  readonly ndjsonImportProgress = input<NdjsonImportProgress | null>(null);
+  /** The flat tables hold the last NDJSON import, which runs use in place of a bundle. */
+  readonly hasImportedData = input(false);
   readonly usingCms125Preset = input(false);
   readonly executionBundleSummary = input<BundleResourceSummary>({
     patientIds: [],
     countsByType: {},
     totalResources: 0,
   });
+  /** Also run the Measure through the CQL engine after each execution and compare. */
+  readonly compareWithEngine = input(false);
+  /** Why the engine comparison cannot run (no Measure, or data not on the server); null when it can. */
+  readonly compareWithEngineUnavailable = input<string | null>(null);
+  readonly engineComparison = input<EngineComparison | null>(null);
+  readonly isComparingWithEngine = input(false);
+  readonly engineComparisonStatus = input<string | null>(null);
 
   readonly executeSql = output<void>();
   readonly generateMeasureReport = output<void>();
+  readonly measureReportTypeChange = output<SqlMeasureReportType>();
+  readonly reportSubjectChange = output<string>();
   readonly saveMeasureReport = output<void>();
   readonly patientSearchNow = output<void>();
   readonly patientSearchTermChange = output<string>();
@@ -63,6 +96,14 @@ export class SqlPipelineExecuteStepComponent {
   }>();
   readonly toggleExecutionResourceType = output<{ type: string; checked: boolean }>();
   readonly selectAllExecutionResourceTypes = output<boolean>();
+  readonly compareWithEngineChange = output<boolean>();
+  readonly exportGroup = output<string>();
+  readonly cancelGroupExport = output<void>();
+  readonly importNdjson = output<File[]>();
+  readonly cancelNdjsonImport = output<void>();
+
+  protected readonly groupExportId = signal('');
+  protected readonly ndjsonAccept = NDJSON_IMPORT_ACCEPT;
 
   protected blockingIssues(): CompatibilityIssue[] {
     return this.compatibilityIssues().filter(i => i.severity === 'blocking');
@@ -72,6 +113,63 @@ export class SqlPipelineExecuteStepComponent {
     return this.compatibilityIssues().filter(i => i.severity === 'warning');
   }
 
+  /** Populations whose SQL and engine totals differ. */
+  protected engineMismatchCount(comparison: EngineComparison): number {
+    return comparison.populations.filter(p => p.sql !== p.engine).length;
+  }
+
+  protected groupExportStatus(progress: BulkExportProgress): string {
+    switch (progress.phase) {
+      case 'kickoff':
+        return 'Starting bulk export…';
+      case 'waiting':
+        return progress.serverProgress
+          ? `Server is preparing the export (${progress.serverProgress})…`
+          : 'Server is preparing the export…';
+      case 'downloading':
+        return (
+          `Downloading files ${progress.filesDone}/${progress.filesTotal} — ` +
+          `${progress.resourceCount} resources so far…`
+        );
+    }
+  }
+
+  protected onNdjsonFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files ?? []);
+    // Clear so picking the same files again re-imports them.
+    input.value = '';
+    if (files.length) {
+      this.importNdjson.emit(files);
+    }
+  }
+
+  protected ndjsonImportStatus(progress: NdjsonImportProgress): string {
+    const megabytes = (bytes: number) => (bytes / 1_048_576).toFixed(1);
+    const files = `${progress.filesDone}/${progress.filesTotal} files`;
+    if (!progress.file) {
+      return `${progress.resourceCount} resources from ${files}.`;
+    }
+    const read = `${megabytes(progress.bytesRead)} of ${megabytes(progress.bytesTotal)} MB`;
+    return (
+      `Reading ${progress.file} (${files} done, ${read}) — ` +
+      `${progress.resourceCount} resources so far…`
+    );
+  }
+
+  /** `{ name, count }` pairs sorted by name, for the import count tables. */
+  protected sortedCounts(counts: Record<string, number>): { name: string; count: number }[] {
+    return Object.keys(counts)
+      .sort()
+      .map(name => ({ name, count: counts[name] }));
+  }
+
+  /** SQL minus engine, e.g. `+2`; empty when they agree. */
+  protected signedDifference(row: PopulationComparison): string {
+    const diff = row.sql - row.engine;
+    return diff === 0 ? '' : diff > 0 ? `+${diff}` : String(diff);
+  }
+
   protected periodStart(name: string): string {
     const v = this.parameterValues()[name];
     if (v?.kind !== 'period') {
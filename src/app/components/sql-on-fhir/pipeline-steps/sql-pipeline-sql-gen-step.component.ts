@@ -1,15 +1,70 @@
 // Author: Preston Lee
 
-import { Component, input } from '@angular/core';
+import { Component, input, output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
 import { SyntaxHighlighterComponent } from '../../shared/syntax-highlighter/syntax-highlighter.component';
+import {
+  SQL_DIALECTS,
+  type IncludedLibraryUsage,
+  type SqlDialectName,
+  type StratifiedQuery,
+  type TranspileWarning,
+} from '../elm-to-sql';
 
 @Component({
   selector: 'app-sql-pipeline-sql-gen-step',
-  imports: [SyntaxHighlighterComponent],
+  imports: [FormsModule, SyntaxHighlighterComponent],
   templateUrl: './sql-pipeline-sql-gen-step.component.html',
   styleUrl: './sql-pipeline-sql-gen-step.component.scss',
 
 })
 export class SqlPipelineSqlGenStepComponent {
   readonly sqlText = input('');
+  /** Stratifier and supplemental data GROUP BY queries run after the population query. */
+  readonly stratifiedQueries = input<StratifiedQuery[]>([]);
+  /** Included libraries the SQL draws on, and which of their functions became built-in SQL. */
+  readonly includedLibraries = input<IncludedLibraryUsage[]>([]);
+  /** Constructs the transpiler could not translate, each located in the primary or an included library. */
+  readonly warnings = input<TranspileWarning[]>([]);
+  readonly error = input<string | null>(null);
+  /** The diagnostic a strict-mode generation stopped on. */
+  readonly failure = input<TranspileWarning | null>(null);
+  readonly strict = input(false);
+  /** Dialect of `sqlText` and `stratifiedQueries`. */
+  readonly dialect = input<SqlDialectName>('postgresql');
+  /** Download file name without extension, e.g. the library name. */
+  readonly fileName = input('library');
+  /** The PostgreSQL build exists, so a deployment package can be exported. */
+  readonly canExportPackage = input(false);
+  readonly isExportingPackage = input(false);
+
+  readonly strictChange = output<boolean>();
+  readonly dialectChange = output<SqlDialectName>();
+  /** Emitted to highlight a diagnostic's source lines in the CQL step. */
+  readonly showInCql = output<TranspileWarning>();
+  /** Emitted to download the PostgreSQL script, ViewDefinitions and SQL Library as a zip. */
+  readonly exportPackage = output<void>();
+
+  protected readonly dialects = SQL_DIALECTS;
+
+  /** Only primary-library locators point into the CQL the CQL step shows. */
+  protected canShowInCql(warning: TranspileWarning): boolean {
+    return !!warning.locator && !warning.library;
+  }
+
+  /** Saves the population query and its stratifier queries as one `.sql` script. */
+  protected downloadSql(): void {
+    const script = [this.sqlText(), ...this.stratifiedQueries().map(q => q.sql)]
+      .map(sql => sql.trim().replace(/;$/, '') + ';')
+      .join('\n\n');
+    const blob = new Blob([script + '\n'], { type: 'application/sql' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.fileName().replace(/[^a-zA-Z0-9_-]/g, '_')}.${this.dialect()}.sql`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
 }
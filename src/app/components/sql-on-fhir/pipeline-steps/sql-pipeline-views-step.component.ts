@@ -0,0 +1,78 @@
+// Author: Preston Lee
+
+import { ChangeDetectionStrategy, Component, input, output, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { STANDARD_VIEW_DEFINITIONS, type ViewDefinition } from '../elm-to-sql';
+import type { CustomViewRegistration } from '../../../services/sql-on-fhir/sql-on-fhir-custom-views.lib';
+import type { ViewPreviewResult } from '../../../services/sql-on-fhir/sql-on-fhir-pipeline.service';
+
+@Component({
+  selector: 'app-sql-pipeline-views-step',
+  imports: [FormsModule],
+  templateUrl: './sql-pipeline-views-step.component.html',
+  styleUrl: './sql-pipeline-views-step.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SqlPipelineViewsStepComponent {
+  readonly viewDefinitionJson = input('');
+  readonly viewDefinitionError = input<string | null>(null);
+  readonly registrations = input<CustomViewRegistration[]>([]);
+  readonly serverViewDefinitions = input<ViewDefinition[]>([]);
+  readonly isLoadingServerViews = input(false);
+  readonly serverViewsError = input<string | null>(null);
+  readonly viewPreview = input<ViewPreviewResult | null>(null);
+  readonly viewPreviewStatus = input<string | null>(null);
+  readonly isPreviewingView = input(false);
+  readonly isSavingView = input(false);
+  readonly hasExecutionBundle = input(false);
+
+  readonly viewDefinitionJsonChange = output<string>();
+  readonly searchServerViews = output<string>();
+  readonly openServerView = output<ViewDefinition>();
+  readonly importViewFile = output<File>();
+  readonly previewView = output<void>();
+  readonly saveView = output<void>();
+  readonly registerView = output<{ mapRetrieves: boolean; codeColumn: string }>();
+  readonly unregisterView = output<string>();
+  readonly editRegisteredView = output<string>();
+
+  /** Standard views offered as starting points for a site-specific variant. */
+  protected readonly templates = STANDARD_VIEW_DEFINITIONS;
+
+  protected readonly serverSearchTerm = signal('');
+  protected readonly mapRetrieves = signal(true);
+  protected readonly codeColumn = signal('');
+
+  protected startFromTemplate(name: string): void {
+    const template = this.templates.find(vd => vd.name === name);
+    if (!template) {
+      return;
+    }
+    const copy: ViewDefinition = {
+      ...structuredClone(template),
+      name: `${template.name.replace(/_view$/, '')}_site_view`,
+      status: 'draft',
+    };
+    this.viewDefinitionJsonChange.emit(JSON.stringify(copy, null, 2));
+  }
+
+  protected onFileSelected(event: Event): void {
+    const target = event.target as HTMLInputElement;
+    const file = target.files?.[0];
+    if (file) {
+      this.importViewFile.emit(file);
+    }
+    target.value = '';
+  }
+
+  protected register(): void {
+    this.registerView.emit({ mapRetrieves: this.mapRetrieves(), codeColumn: this.codeColumn().trim() });
+  }
+
+  protected previewCell(value: unknown): string {
+    if (value == null) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
@@ -1,29 +1,69 @@
 // Author: Preston Lee
 // Demo wiring contributions: Eugene Vestel
 
-import { Component, OnInit, inject, signal, computed, effect } from '@angular/core';
+import {
+  Component,
+  DestroyRef,
+  OnInit,
+  inject,
+  signal,
+  computed,
+  effect,
+  untracked,
+} from '@angular/core';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
-import { Subject, firstValueFrom, of } from 'rxjs';
+import { Subject, Subscription, firstValueFrom, of } from 'rxjs';
 import { catchError, debounceTime, distinctUntilChanged, switchMap } from 'rxjs/operators';
 import { FormsModule } from '@angular/forms';
-import { Bundle, Library, MeasureReport, Patient, ValueSet } from 'fhir/r4';
-import type { PopulationCounts } from './elm-to-sql';
+import { Bundle, Library, Measure, MeasureReport, Patient, ValueSet } from 'fhir/r4';
+import type {
+  PopulationCounts,
+  SqlDialectName,
+  TranspiledCte,
+  TranspileWarning,
+  ViewDefinition,
+} from './elm-to-sql';
 import { extractValueSets } from './elm-to-sql';
 import { LibraryService } from '../../services/library.service';
-import { SqlOnFhirPipelineService, type GenerateSqlResult } from '../../services/sql-on-fhir/sql-on-fhir-pipeline.service';
+import {
+  EMPTY_MEASURE_COUNTS,
+  SqlOnFhirPipelineService,
+  transpileWarningOf,
+  type GenerateSqlResult,
+  type MeasureCounts,
+  type SqlMeasureReportType,
+  type ViewPreviewResult,
+} from '../../services/sql-on-fhir/sql-on-fhir-pipeline.service';
+import { SqlOnFhirViewDefinitionService } from '../../services/sql-on-fhir/sql-on-fhir-view-definition.service';
+import { parseViewDefinitionJson } from '../../services/sql-on-fhir/sql-on-fhir-custom-views.lib';
 import { SqlOnFhirDemoService, decodeLibraryCql, CMS125_DATA_KEY } from '../../services/sql-on-fhir/sql-on-fhir-demo.service';
 import {
   SqlOnFhirExecutionDataService,
   bundleHasClinicalResources,
   resourceTypesInBundle,
   summarizeBundleResources,
+  type ExecutionSeedData,
 } from '../../services/sql-on-fhir/sql-on-fhir-execution-data.service';
+import { SqlOnFhirPgliteService } from '../../services/sql-on-fhir/sql-on-fhir-pglite.service';
+import { SqlOnFhirPatientLoaderService } from '../../services/sql-on-fhir/sql-on-fhir-patient-loader.service';
+import type { BulkExportProgress } from '../../services/sql-on-fhir/sql-on-fhir-bulk-export.lib';
+import { SqlOnFhirNdjsonImportService } from '../../services/sql-on-fhir/sql-on-fhir-ndjson-import.service';
+import type { NdjsonImportProgress } from '../../services/sql-on-fhir/sql-on-fhir-ndjson-import.lib';
+import {
+  buildDeployPackage,
+  zipDeployPackage,
+} from '../../services/sql-on-fhir/sql-on-fhir-deploy-package.lib';
+import {
+  compareWithEngine,
+  type EngineComparison,
+} from '../../services/sql-on-fhir/sql-on-fhir-engine-comparison.lib';
 import {
   bundledValueSetsForServerPublish,
   expandValueSetsForServerPublish,
 } from '../../services/sql-on-fhir/sql-on-fhir-value-set-publish.lib';
 import { PatientService } from '../../services/patient.service';
 import { TranslationService } from '../../services/translation.service';
+import { SettingsService } from '../../services/settings.service';
 import { ToastService } from '../../services/toast.service';
 import { isResourceType } from '../../services/fhir-resource-type.lib';
 import { formatElmXml } from './format-elm-xml';
@@ -43,10 +83,20 @@ import { SqlPipelineElmStepComponent } from './pipeline-steps/sql-pipeline-elm-s
 import { SqlPipelineExecuteStepComponent } from './pipeline-steps/sql-pipeline-execute-step.component';
 import { SqlPipelineLibraryStepComponent } from './pipeline-steps/sql-pipeline-library-step.component';
 import { SqlPipelineSqlGenStepComponent } from './pipeline-steps/sql-pipeline-sql-gen-step.component';
+import { SqlPipelineViewsStepComponent } from './pipeline-steps/sql-pipeline-views-step.component';
+import { SqlDataExplorerComponent } from './data-explorer/sql-data-explorer.component';
+import { SqlExplainViewComponent } from './explain-view/sql-explain-view.component';
 
-export type SqlWorkflowStep = 'library' | 'cql' | 'elm' | 'sqlGen' | 'execute';
+export type SqlWorkflowStep = 'library' | 'cql' | 'elm' | 'views' | 'sqlGen' | 'execute';
 
-const SQL_WORKFLOW_ORDER: SqlWorkflowStep[] = ['library', 'cql', 'elm', 'sqlGen', 'execute'];
+const SQL_WORKFLOW_ORDER: SqlWorkflowStep[] = ['library', 'cql', 'elm', 'views', 'sqlGen', 'execute'];
+
+/** SQL generated for a dialect other than the PostgreSQL that PGlite executes. */
+interface DialectSqlOutput {
+  result: GenerateSqlResult | null;
+  error: string | null;
+  failure: TranspileWarning | null;
+}
 
 @Component({
   selector: 'app-sql-on-fhir',
@@ -55,8 +105,11 @@ const SQL_WORKFLOW_ORDER: SqlWorkflowStep[] = ['library', 'cql', 'elm', 'sqlGen'
     SqlPipelineLibraryStepComponent,
     SqlPipelineCqlStepComponent,
     SqlPipelineElmStepComponent,
+    SqlPipelineViewsStepComponent,
     SqlPipelineSqlGenStepComponent,
-    SqlPipelineExecuteStepComponent
+    SqlPipelineExecuteStepComponent,
+    SqlDataExplorerComponent,
+    SqlExplainViewComponent
   ],
   templateUrl: './sql-on-fhir.component.html',
 
@@ -66,16 +119,27 @@ export class SqlOnFhirComponent implements OnInit {
   private readonly libraryService = inject(LibraryService);
   private readonly pipeline = inject(SqlOnFhirPipelineService);
   private readonly translationService = inject(TranslationService);
+  private readonly settingsService = inject(SettingsService);
   private readonly demoService = inject(SqlOnFhirDemoService);
   private readonly executionDataService = inject(SqlOnFhirExecutionDataService);
   private readonly patientService = inject(PatientService);
   private readonly toastService = inject(ToastService);
+  private readonly viewDefinitions = inject(SqlOnFhirViewDefinitionService);
+  protected readonly pglite = inject(SqlOnFhirPgliteService);
+  private readonly patientLoader = inject(SqlOnFhirPatientLoaderService);
+  private readonly ndjsonImporter = inject(SqlOnFhirNdjsonImportService);
+  private readonly destroyRef = inject(DestroyRef);
 
   /** Parsed population counts from the most recent executeSql, fed into MeasureReport generation. */
   private latestPopulationCounts: PopulationCounts | null = null;
+  /** Measure group, stratifier, supplemental data and per-patient results from the same executeSql run. */
+  private latestMeasureCounts: MeasureCounts | null = null;
 
   private elmRunId = 0;
   private sqlRunId = 0;
+  private dialectSqlRunId = 0;
+  private measureLookupRunId = 0;
+  private engineComparisonRunId = 0;
   /** Bumps when selection is cleared or a new library load starts; stale HTTP callbacks no-op. */
   private libraryLoadGeneration = 0;
   /** Library id for which executionParameters defaults were last applied. */
@@ -100,12 +164,15 @@ export class SqlOnFhirComponent implements OnInit {
   protected readonly listError = signal<string | null>(null);
 
   protected readonly selectedLibrary = signal<Library | null>(null);
+  /** Measure on the evaluation endpoint for the selected library; supplies stratifiers and SDEs. */
+  protected readonly selectedMeasure = signal<Measure | null>(null);
   protected readonly selectedLibraryJson = signal('');
   protected readonly cqlPreview = signal('');
   protected readonly elmXmlRaw = signal<string | null>(null);
   protected readonly elmJsonRaw = signal<string | null>(null);
   protected readonly isLoadingDemo = signal(false);
   protected readonly demoLoadError = signal<string | null>(null);
+  protected readonly showDataExplorer = signal(false);
   protected readonly isExecutingSql = signal(false);
   protected readonly isTranslatingElm = signal(false);
   protected readonly elmTranslationErrors = signal<string[]>([]);
@@ -123,8 +190,37 @@ export class SqlOnFhirComponent implements OnInit {
   protected readonly sqlExecuteFailed = signal(false);
   protected readonly generateSqlResult = signal<GenerateSqlResult | null>(null);
   protected readonly generateSqlError = signal<string | null>(null);
+  /** Fail SQL generation on the first unsupported or unresolved ELM node instead of emitting NULL. */
+  protected readonly strictSql = signal(false);
+  /** The diagnostic a strict-mode generation stopped on. */
+  protected readonly generateSqlFailure = signal<TranspileWarning | null>(null);
+  /** Transpiler diagnostic or traced CTE whose CQL source lines the CQL step highlights. */
+  protected readonly highlightedSqlWarning = signal<Pick<
+    TranspileWarning,
+    'message' | 'locator'
+  > | null>(null);
+  /** Dialect the SQL step shows and downloads; execution always uses the PostgreSQL build. */
+  protected readonly sqlDialect = signal<SqlDialectName>('postgresql');
+  /** Output for `sqlDialect` when it is not PostgreSQL. */
+  private readonly dialectSql = signal<DialectSqlOutput | null>(null);
+  /** What the SQL step shows: the picked dialect's output, else the PostgreSQL build. */
+  protected readonly displayedSql = computed((): DialectSqlOutput => {
+    return (
+      this.dialectSql() ?? {
+        result: this.generateSqlResult(),
+        error: this.generateSqlError(),
+        failure: this.generateSqlFailure(),
+      }
+    );
+  });
+  protected readonly stratifiedQueries = computed(() => {
+    const result = this.displayedSql().result;
+    return result ? [...result.stratifiers, ...result.supplementalData] : [];
+  });
   protected readonly executionParameters = signal<LibraryParameterValues>({});
   protected readonly executionBundle = signal<Bundle | null>(null);
+  /** The execution bundle as last read from, or published to, the FHIR server. */
+  private readonly serverExecutionBundle = signal<Bundle | null>(null);
   protected readonly executionDataKey = signal<string>('');
   protected readonly usingCms125Preset = signal(false);
   protected readonly bundledValueSets = signal<ValueSet[]>([]);
@@ -134,13 +230,45 @@ export class SqlOnFhirComponent implements OnInit {
   protected readonly patientSearchResults = signal<Patient[]>([]);
   protected readonly isLoadingPatients = signal(false);
   protected readonly isLoadingPatientData = signal(false);
+  protected readonly patientDataProgress = signal<{ done: number; total: number } | null>(null);
+  protected readonly isExportingGroup = signal(false);
+  protected readonly groupExportProgress = signal<BulkExportProgress | null>(null);
+  private groupExportSubscription: Subscription | null = null;
+  protected readonly isImportingNdjson = signal(false);
+  protected readonly ndjsonImportProgress = signal<NdjsonImportProgress | null>(null);
+  /** Key the last completed NDJSON import was recorded under. */
+  private readonly ndjsonImportKey = signal<string | null>(null);
+  private ndjsonImportSubscription: Subscription | null = null;
   protected readonly patientSearchError = signal<string | null>(null);
   protected readonly executionResourceTypes = signal<string[]>(['Patient']);
   protected readonly measureReport = signal<MeasureReport | null>(null);
+  protected readonly measureReportType = signal<SqlMeasureReportType>('summary');
+  /** Every patient's `individual` report; `measureReport` shows the selected one. */
+  private readonly individualMeasureReports = signal<MeasureReport[]>([]);
+  protected readonly selectedReportSubject = signal<string | null>(null);
+  protected readonly reportSubjects = computed(() =>
+    this.individualMeasureReports().map(r => r.subject?.reference?.replace(/^Patient\//, '') ?? ''),
+  );
+  protected readonly customViewRegistrations = this.viewDefinitions.registrations;
+  protected readonly viewDefinitionJson = signal('');
+  protected readonly viewDefinitionError = signal<string | null>(null);
+  protected readonly serverViewDefinitions = signal<ViewDefinition[]>([]);
+  protected readonly isLoadingServerViews = signal(false);
+  protected readonly serverViewsError = signal<string | null>(null);
+  protected readonly viewPreview = signal<ViewPreviewResult | null>(null);
+  protected readonly viewPreviewStatus = signal<string | null>(null);
+  protected readonly isPreviewingView = signal(false);
+  protected readonly isSavingView = signal(false);
   protected readonly persistedMeasureReportId = signal<string | null>(null);
   private readonly persistedMeasureReportMeta = signal<MeasureReport['meta'] | null>(null);
   protected readonly sqlExecutionStatus = signal<string | null>(null);
   protected readonly measureReportStatus = signal<string | null>(null);
+  /** After each execution, also evaluate the Measure with the CQL engine and compare. */
+  protected readonly compareWithEngineEnabled = signal(false);
+  protected readonly engineComparison = signal<EngineComparison | null>(null);
+  protected readonly isComparingWithEngine = signal(false);
+  protected readonly isExportingPackage = signal(false);
+  protected readonly engineComparisonStatus = signal<string | null>(null);
 
   protected readonly activeStep = signal<SqlWorkflowStep>('library');
   protected readonly workflowSteps = SQL_WORKFLOW_ORDER;
@@ -167,6 +295,7 @@ export class SqlOnFhirComponent implements OnInit {
     resolveExecutionResourceTypes({
       elmJson: this.elmJsonRaw(),
       library: this.selectedLibrary(),
+      customViewResourceTypes: this.viewDefinitions.mappedResourceTypes(),
     }),
   );
 
@@ -205,12 +334,43 @@ export class SqlOnFhirComponent implements OnInit {
     }),
   );
 
+  /** Active dataset, when it holds seeded data that can be queried without a bundle. */
+  protected readonly storedDataset = computed(() =>
+    this.pglite.seededDataKey() ? this.pglite.activeDataset() : null,
+  );
+
+  /** The flat tables still hold the last NDJSON import, which runs use in place of a bundle. */
+  protected readonly hasImportedData = computed(
+    () => !!this.ndjsonImportKey() && this.pglite.seededDataKey() === this.ndjsonImportKey(),
+  );
+
+  /**
+   * Why the engine comparison cannot run, or null when it can. `$evaluate-measure`
+   * reads the server's data, so the SQL side must run on the same resources.
+   */
+  protected readonly engineComparisonUnavailable = computed(() => {
+    if (!this.selectedMeasure()?.id) {
+      return 'Needs a Measure for this library on the evaluation server.';
+    }
+    const bundle = this.executionBundle();
+    if (!bundle || bundle !== this.serverExecutionBundle()) {
+      return (
+        'The execution data is not on the FHIR server (an NDJSON import, stored data, or a demo ' +
+        'bundle that failed to upload), so the engine would evaluate different data. Load ' +
+        'patients or a Group export from the server to compare.'
+      );
+    }
+    return null;
+  });
+
   protected readonly canExecuteSql = computed(
     () =>
       !hasBlockingCompatibilityIssues(this.compatibilityIssues()) &&
       this.sqlText().trim().length > 0 &&
       !this.isExecutingSql() &&
-      !this.isLoadingPatientData(),
+      !this.isLoadingPatientData() &&
+      !this.isExportingGroup() &&
+      !this.isImportingNdjson(),
   );
 
   protected readonly compatibilityReady = computed(
@@ -251,7 +411,7 @@ export class SqlOnFhirComponent implements OnInit {
       this.elmTranslationMessages.set([]);
 
       void this.translationService
-        .translateCqlToElmAsync(cql)
+        .translateCqlToElmAsync(cql, { translatorProfile: this.settingsService.sqlOnFhirTranslatorProfile() })
         .then(result => {
           if (runId !== this.elmRunId) {
             return;
@@ -307,6 +467,7 @@ export class SqlOnFhirComponent implements OnInit {
       const { derivedTypes } = resolveExecutionResourceTypes({
         elmJson,
         library: lib,
+        customViewResourceTypes: untracked(this.viewDefinitions.mappedResourceTypes),
       });
       this.executionResourceTypes.set(derivedTypes.length > 0 ? derivedTypes : ['Patient']);
       this.resourceTypesDefaultsLibraryId = lib.id;
@@ -321,19 +482,37 @@ export class SqlOnFhirComponent implements OnInit {
       void this.refreshExecutionBundleFromPatients(patients, resourceTypes);
     });
 
+    effect(() => {
+      const lib = this.selectedLibrary();
+      const runId = ++this.measureLookupRunId;
+      this.selectedMeasure.set(null);
+      if (!lib?.id) {
+        return;
+      }
+      this.pipeline.findMeasureForLibrary(lib).subscribe(measure => {
+        if (runId === this.measureLookupRunId) {
+          this.selectedMeasure.set(measure);
+        }
+      });
+    });
+
     effect(() => {
       const lib = this.selectedLibrary();
       const elmJson = this.elmJsonRaw();
       const params = this.executionParameters();
+      const resourceViews = this.viewDefinitions.resourceViews();
+      const measure = this.selectedMeasure();
+      const strict = this.strictSql();
       if (!lib?.id || elmJson == null || elmJson.trim() === '') {
         this.sqlRunId++;
         this.sqlText.set('');
         this.generateSqlResult.set(null);
         this.generateSqlError.set(null);
+        this.generateSqlFailure.set(null);
         return;
       }
       const runId = ++this.sqlRunId;
-      this.pipeline.generateSql(elmJson, lib, params).subscribe({
+      this.pipeline.generateSql(elmJson, lib, params, resourceViews, measure, { strict }).subscribe({
         next: result => {
           if (runId !== this.sqlRunId) {
             return;
@@ -341,6 +520,7 @@ export class SqlOnFhirComponent implements OnInit {
           this.sqlText.set(result.sql);
           this.generateSqlResult.set(result);
           this.generateSqlError.set(null);
+          this.generateSqlFailure.set(null);
         },
         error: (err: unknown) => {
           if (runId !== this.sqlRunId) {
@@ -350,10 +530,41 @@ export class SqlOnFhirComponent implements OnInit {
           this.generateSqlResult.set(null);
           const msg = err instanceof Error ? err.message : String(err);
           this.generateSqlError.set(msg);
+          this.generateSqlFailure.set(transpileWarningOf(err));
         },
       });
     });
 
+    effect(() => {
+      const lib = this.selectedLibrary();
+      const elmJson = this.elmJsonRaw();
+      const params = this.executionParameters();
+      const resourceViews = this.viewDefinitions.resourceViews();
+      const measure = this.selectedMeasure();
+      const strict = this.strictSql();
+      const dialect = this.sqlDialect();
+      const runId = ++this.dialectSqlRunId;
+      this.dialectSql.set(null);
+      if (dialect === 'postgresql' || !lib?.id || elmJson == null || elmJson.trim() === '') {
+        return;
+      }
+      this.pipeline
+        .generateSql(elmJson, lib, params, resourceViews, measure, { strict, dialect })
+        .subscribe({
+          next: result => {
+            if (runId === this.dialectSqlRunId) {
+              this.dialectSql.set({ result, error: null, failure: null });
+            }
+          },
+          error: (err: unknown) => {
+            if (runId === this.dialectSqlRunId) {
+              const error = err instanceof Error ? err.message : String(err);
+              this.dialectSql.set({ result: null, error, failure: transpileWarningOf(err) });
+            }
+          },
+        });
+    });
+
     effect(() => {
       if (!this.selectedLibrary()) {
         return;
@@ -625,6 +836,7 @@ export class SqlOnFhirComponent implements OnInit {
   private clearPipelineOutputs(clearExecution = true): void {
     this.elmRunId++;
     this.sqlRunId++;
+    this.dialectSqlRunId++;
     this.activeStep.set('library');
     this.sqlExecuteFailed.set(false);
     this.elmXmlRaw.set(null);
@@ -636,12 +848,18 @@ export class SqlOnFhirComponent implements OnInit {
     this.sqlText.set('');
     this.sqlResultsRaw.set('');
     this.measureReport.set(null);
+    this.individualMeasureReports.set([]);
     this.persistedMeasureReportId.set(null);
     this.persistedMeasureReportMeta.set(null);
     this.cqlPreview.set('');
     this.latestPopulationCounts = null;
+    this.latestMeasureCounts = null;
     this.generateSqlResult.set(null);
     this.generateSqlError.set(null);
+    this.generateSqlFailure.set(null);
+    this.dialectSql.set(null);
+    this.clearEngineComparison();
+    this.highlightedSqlWarning.set(null);
     this.executionParameters.set({});
     this.parameterDefaultsLibraryId = null;
     this.resourceTypesDefaultsLibraryId = null;
@@ -677,6 +895,8 @@ export class SqlOnFhirComponent implements OnInit {
     this.sqlExecutionStatus.set(null);
     this.measureReportStatus.set(null);
     this.measureReport.set(null);
+    this.individualMeasureReports.set([]);
+    this.clearEngineComparison();
     this.sqlExecuteFailed.set(false);
     this.isExecutingSql.set(true);
 
@@ -686,14 +906,30 @@ export class SqlOnFhirComponent implements OnInit {
           this.isExecutingSql.set(false);
           return;
         }
-        this.pipeline.executeSql(this.sqlText(), seedData).subscribe({
+        const generated = this.generateSqlResult();
+        const measureQueries = {
+          groups: generated?.groups ?? [],
+          stratifiers: generated?.stratifiers ?? [],
+          supplementalData: generated?.supplementalData ?? [],
+          subjectSql: generated?.subjectSql ?? null,
+        };
+        this.pipeline.executeSql(this.sqlText(), seedData, this.customViewRegistrations(), measureQueries).subscribe({
           next: result => {
             this.isExecutingSql.set(false);
             this.sqlResultsRaw.set(result.raw);
             this.latestPopulationCounts = result.counts;
+            this.latestMeasureCounts = {
+              groups: result.groups,
+              stratifiers: result.stratifiers,
+              supplementalData: result.supplementalData,
+              subjects: result.subjects,
+            };
             this.sqlExecuteFailed.set(false);
             this.toastService.showSuccess(`SQL executed in ${result.durationMs.toFixed(0)} ms.`, 'Execute SQL');
             this.generateMeasureReport();
+            if (this.compareWithEngineEnabled()) {
+              void this.runEngineComparison();
+            }
           },
           error: (err: unknown) => {
             this.isExecutingSql.set(false);
@@ -711,9 +947,11 @@ export class SqlOnFhirComponent implements OnInit {
       });
   }
 
-  private async prepareExecutionSeedData(elmJson: string) {
+  private async prepareExecutionSeedData(elmJson: string): Promise<ExecutionSeedData | null> {
     const bundle = this.executionBundle();
-    if (!bundle || !bundleHasClinicalResources(bundle)) {
+    const clinicalBundle = bundle && bundleHasClinicalResources(bundle) ? bundle : null;
+    const storedKey = clinicalBundle ? null : await this.storedDataKey();
+    if (!clinicalBundle && !storedKey) {
       this.sqlExecutionStatus.set(
         'No clinical data selected — choose patients from the FHIR server or load the CMS125 preset bundle.',
       );
@@ -732,22 +970,49 @@ export class SqlOnFhirComponent implements OnInit {
         return null;
       }
     }
-    const { rows, errors } = await this.executionDataService.prepareValueSetRows(elmJson, bundledForRows);
+    const { rows, errors } = await this.executionDataService.prepareValueSetRows(
+      elmJson,
+      bundledForRows,
+      this.generateSqlResult()?.includedValueSets ?? [],
+    );
     if (errors.length) {
       this.sqlExecutionStatus.set(`Value set loading failed: ${errors.join('; ')}`);
       this.sqlExecuteFailed.set(true);
       return null;
     }
-    const bundleKey = this.executionDataService.buildDataKeyFromBundle(bundle);
+    if (!clinicalBundle) {
+      return {
+        dataKey: storedKey ?? '',
+        bundle: { resourceType: 'Bundle', type: 'collection' },
+        valueSetRows: rows,
+        useStoredData: true,
+      };
+    }
+    const bundleKey = this.executionDataService.buildDataKeyFromBundle(clinicalBundle);
     const patientKey = this.executionDataKey();
     const dataKey = patientKey ? `${patientKey}|${bundleKey}` : bundleKey;
     return {
       dataKey,
-      bundle,
+      bundle: clinicalBundle,
       valueSetRows: rows,
     };
   }
 
+  /**
+   * Key of the data already in the flat tables — seeded into the active
+   * dataset (booting it to read the key) or imported from NDJSON; null otherwise.
+   */
+  private async storedDataKey(): Promise<string | null> {
+    if (this.hasImportedData()) {
+      return this.ndjsonImportKey();
+    }
+    if (!this.pglite.activeDataset()) {
+      return null;
+    }
+    await this.pglite.ensureBooted();
+    return this.pglite.seededDataKey();
+  }
+
   /**
    * User edited the CQL in the pipeline's CQL step. Setting cqlPreview re-fires
    * the translation effect, which cascades into SQL regeneration; downstream
@@ -759,10 +1024,29 @@ export class SqlOnFhirComponent implements OnInit {
     this.sqlResultsRaw.set('');
     this.sqlExecuteFailed.set(false);
     this.measureReport.set(null);
+    this.individualMeasureReports.set([]);
     this.latestPopulationCounts = null;
+    this.latestMeasureCounts = null;
+    this.clearEngineComparison();
+    this.highlightedSqlWarning.set(null);
     this.cqlPreview.set(newCql);
   }
 
+  /** Jump from a transpiler diagnostic to the CQL it was raised for. */
+  protected showSqlWarningInCql(warning: TranspileWarning): void {
+    this.highlightedSqlWarning.set(warning);
+    this.selectWorkflowStep('cql');
+  }
+
+  /** Jump from a CTE in the explain view to the define it was generated from. */
+  protected showCteInCql(cte: TranspiledCte): void {
+    this.highlightedSqlWarning.set({
+      message: `define "${cte.define}" (CTE ${cte.name})`,
+      locator: cte.locator,
+    });
+    this.selectWorkflowStep('cql');
+  }
+
   protected loadCms125Demo(): void {
     this.isLoadingDemo.set(true);
     this.demoLoadError.set(null);
@@ -823,6 +1107,9 @@ export class SqlOnFhirComponent implements OnInit {
         return this.cqlStepComplete();
       case 'elm':
         return this.elmStepComplete();
+      case 'views':
+        // Optional: standard views serve every retrieve until custom ones are registered.
+        return this.elmStepComplete();
       case 'sqlGen':
         return this.sqlGenStepComplete();
       case 'execute':
@@ -875,6 +1162,7 @@ export class SqlOnFhirComponent implements OnInit {
       library: 'FHIR Library',
       cql: 'Decoded CQL',
       elm: 'ELM Translation',
+      views: 'Custom Views',
       sqlGen: 'Generated SQL',
       execute: 'Execute SQL'
     };
@@ -901,6 +1189,8 @@ export class SqlOnFhirComponent implements OnInit {
           return this.cqlPreview().trim() ? 'warn' : 'warn';
         }
         return this.hasElmTranslationWarnings() ? 'warn' : 'ok';
+      case 'views':
+        return 'ok';
       case 'sqlGen':
         return this.sqlText().trim() ? 'ok' : 'warn';
       case 'execute':
@@ -931,6 +1221,150 @@ export class SqlOnFhirComponent implements OnInit {
     }
   }
 
+  protected onViewDefinitionJsonChange(json: string): void {
+    this.viewDefinitionJson.set(json);
+    this.viewDefinitionError.set(null);
+  }
+
+  protected searchServerViewDefinitions(term: string): void {
+    this.isLoadingServerViews.set(true);
+    this.serverViewsError.set(null);
+    this.viewDefinitions.search(term).subscribe({
+      next: views => {
+        this.isLoadingServerViews.set(false);
+        this.serverViewDefinitions.set(views);
+        if (views.length === 0) {
+          this.serverViewsError.set('No ViewDefinitions found on the content server.');
+        }
+      },
+      error: (err: unknown) => {
+        this.isLoadingServerViews.set(false);
+        this.serverViewDefinitions.set([]);
+        this.serverViewsError.set(`ViewDefinition search failed: ${this.errorMessage(err)}`);
+      }
+    });
+  }
+
+  protected openViewDefinition(vd: ViewDefinition): void {
+    this.onViewDefinitionJsonChange(JSON.stringify(vd, null, 2));
+    this.viewPreview.set(null);
+    this.viewPreviewStatus.set(null);
+  }
+
+  protected importViewDefinitionFile(file: File): void {
+    this.viewDefinitions
+      .readFile(file)
+      .then(vd => this.openViewDefinition(vd))
+      .catch((err: unknown) => {
+        this.viewDefinitionError.set(`${file.name}: ${this.errorMessage(err)}`);
+      });
+  }
+
+  protected editRegisteredViewDefinition(name: string): void {
+    const reg = this.customViewRegistrations().find(r => r.viewDefinition.name === name);
+    if (reg) {
+      this.openViewDefinition(reg.viewDefinition);
+    }
+  }
+
+  protected previewViewDefinition(): void {
+    const vd = this.parseEditedViewDefinition();
+    if (!vd) {
+      return;
+    }
+    const bundle = this.executionBundle();
+    const clinicalBundle = bundle && bundleHasClinicalResources(bundle) ? bundle : null;
+    this.isPreviewingView.set(true);
+    this.viewPreviewStatus.set(null);
+    void (clinicalBundle ? Promise.resolve(null) : this.storedDataKey()).then(storedKey => {
+      if (!clinicalBundle && !storedKey) {
+        this.isPreviewingView.set(false);
+        this.viewPreview.set(null);
+        this.viewPreviewStatus.set(
+          'No clinical data loaded — load the CMS125 demo or select patients in Execute SQL first.',
+        );
+        return;
+      }
+      const seedData: Omit<ExecutionSeedData, 'valueSetRows'> = clinicalBundle
+        ? {
+            bundle: clinicalBundle,
+            dataKey: this.executionDataService.buildDataKeyFromBundle(clinicalBundle),
+          }
+        : {
+            bundle: { resourceType: 'Bundle', type: 'collection' },
+            dataKey: storedKey ?? '',
+            useStoredData: true,
+          };
+      this.pipeline.previewView(vd, seedData).subscribe({
+        next: preview => {
+          this.isPreviewingView.set(false);
+          this.viewPreview.set(preview);
+          if (preview.totalRows === 0) {
+            this.viewPreviewStatus.set(`No ${vd.resource} resources in the loaded data matched this view.`);
+          }
+        },
+        error: (err: unknown) => {
+          this.isPreviewingView.set(false);
+          this.viewPreview.set(null);
+          this.viewPreviewStatus.set(`Preview failed: ${this.errorMessage(err)}`);
+        }
+      });
+    });
+  }
+
+  protected saveViewDefinition(): void {
+    const vd = this.parseEditedViewDefinition();
+    if (!vd) {
+      return;
+    }
+    this.isSavingView.set(true);
+    this.viewDefinitions.save(vd).subscribe({
+      next: saved => {
+        this.isSavingView.set(false);
+        this.viewDefinitionJson.set(JSON.stringify(saved, null, 2));
+        // Keep a registered copy in step with the server id / meta the save returned.
+        const existing = this.customViewRegistrations().find(r => r.viewDefinition.name === saved.name);
+        if (existing) {
+          this.viewDefinitions.register({ ...existing, viewDefinition: saved });
+        }
+        this.toastService.showSuccess(`Saved ViewDefinition ${saved.name}.`, 'Custom Views');
+      },
+      error: (err: unknown) => {
+        this.isSavingView.set(false);
+        this.viewDefinitionError.set(`Save failed: ${this.errorMessage(err)}`);
+      }
+    });
+  }
+
+  protected registerEditedViewDefinition(options: { mapRetrieves: boolean; codeColumn: string }): void {
+    const vd = this.parseEditedViewDefinition();
+    if (!vd) {
+      return;
+    }
+    try {
+      this.viewDefinitions.register({ viewDefinition: vd, ...options });
+      this.toastService.showSuccess(`Registered ${vd.name} as a SQL table.`, 'Custom Views');
+    } catch (err: unknown) {
+      this.viewDefinitionError.set(this.errorMessage(err));
+    }
+  }
+
+  protected unregisterViewDefinition(name: string): void {
+    this.viewDefinitions.unregister(name);
+  }
+
+  /** Parse the editor contents, surfacing validation problems under the editor. */
+  private parseEditedViewDefinition(): ViewDefinition | null {
+    try {
+      const vd = parseViewDefinitionJson(this.viewDefinitionJson());
+      this.viewDefinitionError.set(null);
+      return vd;
+    } catch (err: unknown) {
+      this.viewDefinitionError.set(this.errorMessage(err));
+      return null;
+    }
+  }
+
   protected generateMeasureReport(): void {
     const lib = this.selectedLibrary();
     const counts = this.latestPopulationCounts;
@@ -939,15 +1373,124 @@ export class SqlOnFhirComponent implements OnInit {
       return;
     }
     this.measureReportStatus.set(null);
-    this.pipeline.generateMeasureReport(counts, lib, this.executionParameters()).subscribe({
+    const measureCounts = this.latestMeasureCounts ?? EMPTY_MEASURE_COUNTS;
+    const onError = (err: unknown) => {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.measureReportStatus.set(`MeasureReport generation failed: ${msg}`);
+    };
+    const type = this.measureReportType();
+    const params = this.executionParameters();
+    if (type === 'individual') {
+      this.pipeline.generateIndividualMeasureReports(lib, params, measureCounts).subscribe({
+        next: reports => {
+          this.individualMeasureReports.set(reports);
+          const subjects = this.reportSubjects();
+          const selected = this.selectedReportSubject();
+          this.selectReportSubject(
+            selected && subjects.includes(selected) ? selected : (subjects[0] ?? null),
+          );
+          if (reports.length === 0) {
+            this.measureReportStatus.set('The last execution returned no per-patient results.');
+          }
+        },
+        error: onError,
+      });
+      return;
+    }
+    this.individualMeasureReports.set([]);
+    this.pipeline.generateMeasureReport(counts, lib, params, measureCounts, type).subscribe({
       next: r => {
         this.measureReport.set(r);
       },
-      error: (err: unknown) => {
+      error: onError,
+    });
+  }
+
+  protected onCompareWithEngineChange(enabled: boolean): void {
+    this.compareWithEngineEnabled.set(enabled);
+    if (!enabled) {
+      this.clearEngineComparison();
+    } else if (this.latestMeasureCounts) {
+      void this.runEngineComparison();
+    }
+  }
+
+  /**
+   * Evaluates the Measure with the CQL engine for every patient in the execution
+   * bundle and compares each patient's populations with the last SQL execution.
+   */
+  protected async runEngineComparison(): Promise<void> {
+    const measure = this.selectedMeasure();
+    const measureCounts = this.latestMeasureCounts;
+    if (!measure?.id) {
+      this.engineComparisonStatus.set(
+        'No Measure for this library was found on the evaluation server, so there is nothing to compare against.',
+      );
+      return;
+    }
+    const unavailable = this.engineComparisonUnavailable();
+    if (unavailable) {
+      this.clearEngineComparison();
+      this.engineComparisonStatus.set(unavailable);
+      return;
+    }
+    if (!measureCounts) {
+      this.engineComparisonStatus.set('Run "Execute SQL" first — there are no SQL results to compare yet.');
+      return;
+    }
+    const patientIds = this.executionBundleSummary().patientIds;
+    const params = this.executionParameters();
+    const runId = ++this.engineComparisonRunId;
+    this.engineComparison.set(null);
+    this.engineComparisonStatus.set(null);
+    this.isComparingWithEngine.set(true);
+    try {
+      const [sqlReports, engineResults] = await Promise.all([
+        firstValueFrom(
+          this.pipeline.generateIndividualMeasureReports(this.selectedLibrary(), params, measureCounts),
+        ),
+        firstValueFrom(this.pipeline.evaluateWithEngine(measure.id, patientIds, params)),
+      ]);
+      if (runId === this.engineComparisonRunId) {
+        this.engineComparison.set(compareWithEngine(sqlReports, engineResults));
+      }
+    } catch (err: unknown) {
+      if (runId === this.engineComparisonRunId) {
         const msg = err instanceof Error ? err.message : String(err);
-        this.measureReportStatus.set(`MeasureReport generation failed: ${msg}`);
+        this.engineComparisonStatus.set(`Engine comparison failed: ${msg}`);
       }
-    });
+    } finally {
+      if (runId === this.engineComparisonRunId) {
+        this.isComparingWithEngine.set(false);
+      }
+    }
+  }
+
+  private clearEngineComparison(): void {
+    this.engineComparisonRunId++;
+    this.engineComparison.set(null);
+    this.engineComparisonStatus.set(null);
+    this.isComparingWithEngine.set(false);
+  }
+
+  /** Switching report type replaces the report, so it is no longer the persisted one. */
+  protected onMeasureReportTypeChange(type: SqlMeasureReportType): void {
+    this.measureReportType.set(type);
+    this.persistedMeasureReportId.set(null);
+    this.persistedMeasureReportMeta.set(null);
+    if (this.latestPopulationCounts) {
+      this.generateMeasureReport();
+    }
+  }
+
+  protected selectReportSubject(subject: string | null): void {
+    const index = subject === null ? -1 : this.reportSubjects().indexOf(subject);
+    if (subject !== this.selectedReportSubject()) {
+      this.persistedMeasureReportId.set(null);
+      this.persistedMeasureReportMeta.set(null);
+    }
+    this.selectedReportSubject.set(subject);
+    this.measureReport.set(this.individualMeasureReports()[index] ?? null);
   }
 
   protected saveMeasureReport(): void {
@@ -1152,14 +1695,21 @@ export class SqlOnFhirComponent implements OnInit {
       return;
     }
     this.isLoadingPatientData.set(true);
+    this.patientDataProgress.set({ done: 0, total: patients.length });
     try {
       const bundle = await this.executionDataService.buildBundleFromPatients(patients, {
         resourceTypes,
+        onProgress: (done, total) => {
+          if (generation === this.patientDataFetchGeneration) {
+            this.patientDataProgress.set({ done, total });
+          }
+        },
       });
       if (generation !== this.patientDataFetchGeneration) {
         return;
       }
       this.executionBundle.set(bundle);
+      this.serverExecutionBundle.set(bundle);
       this.executionDataKey.set(
         this.executionDataService.buildDataKeyFromPatients(patients, resourceTypes),
       );
@@ -1174,7 +1724,164 @@ export class SqlOnFhirComponent implements OnInit {
     } finally {
       if (generation === this.patientDataFetchGeneration) {
         this.isLoadingPatientData.set(false);
+        this.patientDataProgress.set(null);
+      }
+    }
+  }
+
+  /**
+   * Replace the execution data with a Group's bulk `$export`. Patient selection
+   * and the CMS125 preset are dropped so their loaders don't overwrite it.
+   */
+  protected exportGroup(groupId: string): void {
+    this.groupExportSubscription?.unsubscribe();
+    this.clearExecuteStepStatus();
+    this.patientDataFetchGeneration++;
+    this.usingCms125Preset.set(false);
+    this.bundledValueSets.set([]);
+    this.selectedPatients.set([]);
+    this.isExportingGroup.set(true);
+    this.groupExportProgress.set(null);
+    this.groupExportSubscription = this.patientLoader
+      .exportGroup(groupId, this.executionResourceTypes())
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: event => {
+          if (event.kind === 'progress') {
+            this.groupExportProgress.set(event.progress);
+            return;
+          }
+          const { load } = event;
+          this.executionBundle.set(load.bundle);
+          this.serverExecutionBundle.set(load.bundle);
+          this.executionDataKey.set(load.dataKey);
+          if (load.errors.length) {
+            this.sqlExecutionStatus.set(`Bulk export reported errors: ${load.errors.join('; ')}`);
+          }
+          this.toastService.showSuccess(
+            `Loaded ${load.resourceCount} resources from Group/${groupId}.`,
+            'Bulk export',
+          );
+        },
+        error: (err: unknown) => {
+          this.isExportingGroup.set(false);
+          const msg = err instanceof Error ? err.message : String(err);
+          this.sqlExecutionStatus.set(`Bulk export failed: ${msg}`);
+        },
+        complete: () => this.isExportingGroup.set(false),
+      });
+  }
+
+  protected cancelGroupExport(): void {
+    this.groupExportSubscription?.unsubscribe();
+    this.groupExportSubscription = null;
+    this.isExportingGroup.set(false);
+    this.groupExportProgress.set(null);
+    this.sqlExecutionStatus.set('Bulk export cancelled.');
+  }
+
+  /**
+   * Stream NDJSON files (Bulk Data or Synthea output, optionally `.gz` or
+   * zipped) straight into the flat tables. Like a group export, this replaces
+   * the patient selection and the CMS125 preset; runs then use the imported
+   * data until another source is loaded.
+   */
+  protected importNdjson(files: File[]): void {
+    if (!files.length) {
+      return;
+    }
+    this.ndjsonImportSubscription?.unsubscribe();
+    this.clearExecuteStepStatus();
+    this.patientDataFetchGeneration++;
+    this.usingCms125Preset.set(false);
+    this.bundledValueSets.set([]);
+    this.selectedPatients.set([]);
+    this.executionBundle.set(null);
+    this.executionDataKey.set('');
+    this.ndjsonImportKey.set(null);
+    this.isImportingNdjson.set(true);
+    this.ndjsonImportProgress.set(null);
+    this.ndjsonImportSubscription = this.ndjsonImporter
+      .importFiles(files)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: event => {
+          this.ndjsonImportProgress.set(event.progress);
+          if (event.kind === 'complete') {
+            this.ndjsonImportKey.set(event.dataKey);
+            this.toastService.showSuccess(
+              `Imported ${event.progress.resourceCount} resources from ${files.length} ` +
+                `file${files.length === 1 ? '' : 's'}.`,
+              'NDJSON import',
+            );
+          }
+        },
+        error: (err: unknown) => {
+          this.isImportingNdjson.set(false);
+          const msg = err instanceof Error ? err.message : String(err);
+          this.sqlExecutionStatus.set(`NDJSON import failed: ${msg}`);
+        },
+        complete: () => this.isImportingNdjson.set(false),
+      });
+  }
+
+  protected cancelNdjsonImport(): void {
+    this.ndjsonImportSubscription?.unsubscribe();
+    this.ndjsonImportSubscription = null;
+    this.isImportingNdjson.set(false);
+    this.sqlExecutionStatus.set('NDJSON import cancelled; the tables hold a partial import.');
+  }
+
+  /**
+   * Download the PostgreSQL build as a deployable zip: a script creating the
+   * source tables, value sets, views and measure queries, and a Bundle with
+   * the ViewDefinitions and a `text/x-sql` Library. Value sets that cannot be
+   * expanded are noted in the script rather than blocking the export.
+   */
+  protected async exportDeployPackage(): Promise<void> {
+    const result = this.generateSqlResult();
+    const elmJson = this.elmJsonRaw();
+    if (!result || !elmJson || this.isExportingPackage()) {
+      return;
+    }
+    this.isExportingPackage.set(true);
+    try {
+      const valueSets = await this.executionDataService.prepareValueSetRows(
+        elmJson,
+        this.bundledValueSets(),
+        result.includedValueSets,
+      );
+      const pkg = buildDeployPackage({
+        library: this.selectedLibrary(),
+        sql: result.sql,
+        stratifiedQueries: [...result.stratifiers, ...result.supplementalData],
+        valueSetRows: valueSets.rows,
+        valueSetErrors: valueSets.errors,
+        customViews: this.customViewRegistrations().map(r => r.viewDefinition),
+        generatedAt: new Date().toISOString(),
+      });
+      const blob = new Blob([zipDeployPackage(pkg) as BlobPart], { type: 'application/zip' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = pkg.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      if (valueSets.errors.length) {
+        this.toastService.showWarning(
+          `Exported ${pkg.fileName}; ${valueSets.errors.length} value set(s) could not be expanded.`,
+          'Export package',
+        );
+      } else {
+        this.toastService.showSuccess(`Exported ${pkg.fileName}.`, 'Export package');
       }
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.toastService.showError(`Package export failed: ${msg}`, 'Export package');
+    } finally {
+      this.isExportingPackage.set(false);
     }
   }
 
@@ -1288,6 +1995,7 @@ export class SqlOnFhirComponent implements OnInit {
       const toPublish = bundledValueSetsForServerPublish(bundled);
       await this.executionDataService.publishValueSetsToServer(toPublish);
       await this.executionDataService.publishBundleToServer(bundle);
+      this.serverExecutionBundle.set(bundle);
       this.cms125ValueSetsOnServer.set(true);
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -1,6 +1,11 @@
 // Author: Preston Lee
 
 import { CqlEnvironment } from './environment.model';
+import {
+    DEFAULT_TRANSLATOR_PROFILE_ID,
+    SQL_ON_FHIR_TRANSLATOR_PROFILE_ID,
+    TranslatorOptionsProfile
+} from './translator-options.model';
 
 export enum ThemeType {
     AUTOMATIC = 'automatic',
@@ -27,6 +32,13 @@ export class Settings {
     public vsacFhirBaseUrl: string = '';
     public vsacApiUsername: string = 'apikey';
     public vsacApiPassword: string = '';
+
+    /** User-defined CQL-to-ELM translator option profiles; built-in profiles are not stored. */
+    public translatorProfiles: TranslatorOptionsProfile[] = [];
+    /** Profile used by the IDE, including ELM saved with libraries. */
+    public activeTranslatorProfileId: string = DEFAULT_TRANSLATOR_PROFILE_ID;
+    /** Profile used when translating CQL for the SQL on FHIR transpiler. */
+    public sqlOnFhirTranslatorProfileId: string = SQL_ON_FHIR_TRANSLATOR_PROFILE_ID;
     
     // AI Settings
     public ollamaBaseUrl: string = '';
@@ -0,0 +1,29 @@
+// Author: Preston Lee
+
+/** CQL-to-ELM translator switches, named as in `CqlCompilerOptions.Options` and CQF `cqlOptions`. */
+export type TranslatorOption =
+  | 'EnableAnnotations'
+  | 'EnableLocators'
+  | 'EnableResultTypes'
+  | 'EnableDetailedErrors'
+  | 'DisableListDemotion'
+  | 'DisableListPromotion'
+  | 'EnableDateRangeOptimization';
+
+export type TranslatorSignatureLevel = 'None' | 'Differing' | 'Overloads' | 'All';
+
+export interface TranslatorOptions {
+  options: TranslatorOption[];
+  signatureLevel: TranslatorSignatureLevel;
+  compatibilityLevel: string;
+}
+
+/** Named set of translator options selectable in Settings. */
+export interface TranslatorOptionsProfile extends TranslatorOptions {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_TRANSLATOR_PROFILE_ID = 'default';
+export const SQL_ON_FHIR_TRANSLATOR_PROFILE_ID = 'sql-on-fhir';
@@ -10,10 +10,19 @@ import {
 import { Extension, StateEffect, StateField } from '@codemirror/state';
 import { CqlDefinitionIndex, CqlReferenceMatch } from './elm-locator.lib';
 
+/** An extra entry for the editor's right-click menu. */
+export interface EditorContextMenuItem {
+  id: string;
+  label: string;
+  run: () => void;
+}
+
 export interface GoToDefinitionHandlers {
   findReferenceAt: (line: number, column: number) => CqlReferenceMatch | null;
   isResolvableSync: (match: CqlReferenceMatch) => boolean;
   goToDefinitionAt: (line: number, column: number) => void | Promise<void>;
+  /** Further menu entries for a position, listed after Go to Definition. */
+  contextMenuItemsAt?: (line: number, column: number) => EditorContextMenuItem[];
 }
 
 export const setDefinitionIndexEffect = StateEffect.define<CqlDefinitionIndex | null>();
@@ -60,7 +69,7 @@ class ContextMenuWidget extends WidgetType {
   constructor(
     private readonly x: number,
     private readonly y: number,
-    private readonly onGo: () => void,
+    private readonly items: EditorContextMenuItem[],
     private readonly onDismiss: () => void
   ) {
     super();
@@ -78,17 +87,20 @@ class ContextMenuWidget extends WidgetType {
     menu.style.top = `${this.y}px`;
     menu.style.zIndex = '1050';
 
-    const item = document.createElement('button');
-    item.type = 'button';
-    item.className = 'dropdown-item';
-    item.id = 'cql-go-to-definition-menu-item';
-    item.textContent = 'Go to Definition';
-    item.addEventListener('click', (event) => {
-      event.preventDefault();
-      event.stopPropagation();
-      this.onGo();
-    });
-    menu.appendChild(item);
+    for (const entry of this.items) {
+      const item = document.createElement('button');
+      item.type = 'button';
+      item.className = 'dropdown-item';
+      item.id = entry.id;
+      item.textContent = entry.label;
+      item.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        document.getElementById('cql-go-to-definition-menu')?.remove();
+        entry.run();
+      });
+      menu.appendChild(item);
+    }
 
     const dismiss = (event: MouseEvent): void => {
       const target = event.target as Node | null;
@@ -112,7 +124,7 @@ function isModifierPressed(event: MouseEvent): boolean {
   return event.metaKey || event.ctrlKey;
 }
 
-function posToLineColumn(view: EditorView, pos: number): { line: number; column: number } {
+export function posToLineColumn(view: EditorView, pos: number): { line: number; column: number } {
   const lineInfo = view.state.doc.lineAt(pos);
   return {
     line: lineInfo.number,
@@ -208,7 +220,16 @@ export function createGoToDefinitionExtension(
 
         const { line, column } = posToLineColumn(view, pos);
         const match = handlers.findReferenceAt(line, column);
-        if (!match || !handlers.isResolvableSync(match)) {
+        const items: EditorContextMenuItem[] = [];
+        if (match && handlers.isResolvableSync(match)) {
+          items.push({
+            id: 'cql-go-to-definition-menu-item',
+            label: 'Go to Definition',
+            run: () => void handlers.goToDefinitionAt(line, column)
+          });
+        }
+        items.push(...(handlers.contextMenuItemsAt?.(line, column) ?? []));
+        if (items.length === 0) {
           return false;
         }
 
@@ -219,10 +240,7 @@ export function createGoToDefinitionExtension(
         const widget = new ContextMenuWidget(
           event.clientX,
           event.clientY,
-          () => {
-            document.getElementById('cql-go-to-definition-menu')?.remove();
-            void handlers.goToDefinitionAt(line, column);
-          },
+          items,
           () => {
             document.getElementById('cql-go-to-definition-menu')?.remove();
           }
@@ -0,0 +1,115 @@
+// Author: Preston Lee
+
+import { EditorView, hoverTooltip, keymap } from '@codemirror/view';
+import { Extension } from '@codemirror/state';
+import { posToLineColumn } from './cql-codemirror-go-to-definition.lib';
+
+/** What the hover tooltip shows for a position. */
+export interface CqlHoverInfo {
+  /** Heading, e.g. `define "Qualifying Encounters"`. */
+  title: string | null;
+  /** ELM result type of the innermost expression, e.g. `List<FHIR.Encounter>`. */
+  resultType: string | null;
+  /** ELM node type of that expression, e.g. `ExpressionRef`. */
+  elmType: string | null;
+  /** Source of the referenced definition, or where it lives when it is in another library. */
+  definition: string | null;
+}
+
+export interface CqlReferencesHandlers {
+  hoverAt: (line: number, column: number) => CqlHoverInfo | null;
+  /** Returns false when there is no define or function at the position. */
+  findReferencesAt: (line: number, column: number) => boolean;
+  renameAt: (line: number, column: number) => boolean;
+}
+
+const MAX_DEFINITION_LINES = 12;
+
+function buildHoverDom(info: CqlHoverInfo): HTMLElement {
+  const dom = document.createElement('div');
+  dom.className = 'cm-cql-hover';
+
+  if (info.title) {
+    const title = document.createElement('div');
+    title.className = 'cm-cql-hover-title';
+    title.textContent = info.title;
+    dom.appendChild(title);
+  }
+
+  if (info.resultType) {
+    const type = document.createElement('div');
+    type.className = 'cm-cql-hover-type';
+    type.textContent = info.elmType ? `${info.elmType}: ${info.resultType}` : info.resultType;
+    dom.appendChild(type);
+  }
+
+  if (info.definition) {
+    const lines = info.definition.split('\n');
+    const definition = document.createElement('pre');
+    definition.className = 'cm-cql-hover-definition';
+    definition.textContent =
+      lines.length > MAX_DEFINITION_LINES
+        ? [...lines.slice(0, MAX_DEFINITION_LINES), '…'].join('\n')
+        : info.definition;
+    dom.appendChild(definition);
+  }
+
+  return dom;
+}
+
+function atCursor(view: EditorView, run: (line: number, column: number) => boolean): boolean {
+  const { line, column } = posToLineColumn(view, view.state.selection.main.head);
+  return run(line, column);
+}
+
+/**
+ * Hover tooltip with ELM result types and definitions, plus Shift-F12 (find
+ * all references) and F2 (rename symbol), all backed by the definition index.
+ */
+export function createReferencesExtension(handlers: CqlReferencesHandlers): Extension[] {
+  return [
+    hoverTooltip((view, pos) => {
+      const { line, column } = posToLineColumn(view, pos);
+      const info = handlers.hoverAt(line, column);
+      if (!info) {
+        return null;
+      }
+      return {
+        pos,
+        above: true,
+        create: () => ({ dom: buildHoverDom(info) })
+      };
+    }, { hoverTime: 400 }),
+    keymap.of([
+      {
+        key: 'Shift-F12',
+        run: view => atCursor(view, handlers.findReferencesAt)
+      },
+      {
+        key: 'F2',
+        run: view => atCursor(view, handlers.renameAt)
+      }
+    ]),
+    EditorView.theme({
+      '.cm-cql-hover': {
+        padding: '6px 8px',
+        maxWidth: '40rem',
+        fontSize: '0.85rem'
+      },
+      '.cm-cql-hover-title': {
+        fontWeight: '600'
+      },
+      '.cm-cql-hover-type': {
+        fontFamily: "'Courier New', Courier, monospace",
+        color: '#4ec9b0'
+      },
+      '.cm-cql-hover-definition': {
+        margin: '6px 0 0',
+        padding: '4px 0 0',
+        borderTop: '1px solid #3a3a3a',
+        color: '#cfcfcf',
+        whiteSpace: 'pre-wrap'
+      }
+    })
+  ];
+}
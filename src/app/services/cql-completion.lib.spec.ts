@@ -0,0 +1,140 @@
+// Author: Preston Lee
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  CqlCompletionSources,
+  CqlDeclaration,
+  cqlCompletions,
+  declaredNames,
+  modelElements,
+  parseModelInfo
+} from './cql-completion.lib';
+import { CqlDefinitionIndex } from './elm-locator.lib';
+
+const fhirModel = parseModelInfo(readFileSync(join(process.cwd(), 'public/cql/fhir-modelinfo-4.0.1.xml'), 'utf8'))!;
+
+const library = `library Screening version '1.0.0'
+
+using FHIR version '4.0.1'
+
+include FHIRHelpers version '4.0.1' called FHIRHelpers
+include Common called C
+
+codesystem "LOINC": 'http://loinc.org'
+valueset "Office Visit": 'http://cts.nlm.nih.gov/fhir/ValueSet/2.16.840.1.113883.3.464.1003.101.12.1001'
+code "Height": '8302-2' from "LOINC"
+parameter "Measurement Period" Interval<DateTime>
+
+context Patient
+
+define "Qualifying Encounters":
+  [Encounter: "Office Visit"] E
+    where E.status = 'finished'
+
+define private function "To Years"(value Integer): value
+`;
+
+function sources(index: CqlDefinitionIndex | null = null): CqlCompletionSources {
+  const common: CqlDeclaration[] = [
+    { name: 'Low Numbers', kind: 'define', detail: null },
+    { name: 'Double', kind: 'function', detail: null }
+  ];
+  return {
+    index,
+    includedDeclarations: new Map([['C', common]]),
+    models: new Map([[fhirModel.name, fhirModel]])
+  };
+}
+
+function complete(text: string, index: CqlDefinitionIndex | null = null) {
+  const pos = text.indexOf('|');
+  return cqlCompletions(text.replace('|', ''), pos, sources(index));
+}
+
+function labels(text: string, index: CqlDefinitionIndex | null = null): string[] {
+  return complete(text, index)?.options.map(o => o.label) ?? [];
+}
+
+describe('cql-completion.lib', () => {
+  it('reads types and inherited elements from model info', () => {
+    expect(fhirModel.name).toBe('FHIR');
+    expect(fhirModel.types.get('FHIR.Encounter')?.retrievable).toBe(true);
+    const elements = modelElements(fhirModel, 'FHIR.Encounter');
+    expect(elements.find(e => e.name === 'period')?.type).toBe('FHIR.Period');
+    expect(elements.find(e => e.name === 'type')?.type).toBe('List<FHIR.CodeableConcept>');
+    expect(elements.some(e => e.name === 'id')).toBe(true);
+  });
+
+  it('lists what a library declares', () => {
+    expect(declaredNames(library).map(d => `${d.kind} ${d.name}`)).toEqual([
+      'function To Years',
+      'define Qualifying Encounters',
+      'parameter Measurement Period',
+      'valueset Office Visit',
+      'codesystem LOINC',
+      'code Height',
+      'include FHIRHelpers',
+      'include C'
+    ]);
+  });
+
+  it("offers the library's own names and keywords in general position", () => {
+    const result = complete(`${library}\ndefine Later: Qual|`);
+    expect(result?.keywords).toBe(true);
+    expect(result?.from).toBe(library.length + 15);
+    const options = result!.options;
+    expect(options.find(o => o.label === 'Qualifying Encounters')?.apply).toBe('"Qualifying Encounters"');
+    expect(options.map(o => o.label)).toEqual(expect.arrayContaining(['Measurement Period', 'Height', 'C']));
+  });
+
+  it('offers included library members after the alias', () => {
+    expect(labels(`${library}\ndefine Later: C.|`)).toEqual(['Low Numbers', 'Double']);
+    expect(complete(`${library}\ndefine Later: C."Low|`)?.from).toBe(library.length + 17);
+  });
+
+  it('offers retrievable resource types and terminology inside retrieves', () => {
+    const types = labels(`${library}\ndefine Later: [Obs|`);
+    expect(types).toContain('Observation');
+    expect(types).not.toContain('Period');
+    expect(labels(`${library}\ndefine Later: [Observation: |`)).toEqual(['Office Visit', 'Height']);
+  });
+
+  it('offers element paths after retrieve and named query aliases', () => {
+    const encounter = labels(`${library}\ndefine Later: [Encounter] Enc where Enc.|`);
+    expect(encounter).toEqual(expect.arrayContaining(['status', 'period', 'class']));
+    expect(labels(`${library}\ndefine Later: [Encounter] Enc where Enc.period.|`)).toEqual(
+      expect.arrayContaining(['start', 'end'])
+    );
+    expect(labels(`${library}\ndefine Later: [Encounter] Enc where Enc.type.cod|`)).toContain('coding');
+
+    const index: CqlDefinitionIndex = {
+      libraryName: 'Screening',
+      definitions: new Map([
+        [
+          'Qualifying Encounters',
+          [
+            {
+              name: 'Qualifying Encounters',
+              kind: 'expression',
+              span: { startLine: 15, startColumn: 1, endLine: 17, endColumn: 31 },
+              resultType: 'List<FHIR.Encounter>'
+            }
+          ]
+        ]
+      ]),
+      references: [],
+      includeStatements: [],
+      includes: new Map(),
+      libraryHeaderSpan: null,
+      expressions: []
+    };
+    expect(labels(`${library}\ndefine Later: "Qualifying Encounters" QE where QE.|`, index)).toContain('period');
+  });
+
+  it('stays quiet inside comments and strings', () => {
+    expect(complete(`${library}\n// C.|`)).toBeNull();
+    expect(complete(`${library}\ndefine Later: 'C.|`)).toBeNull();
+  });
+});
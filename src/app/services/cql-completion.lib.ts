@@ -0,0 +1,436 @@
+// Author: Preston Lee
+
+import { CqlDefinitionIndex } from './elm-locator.lib';
+
+/** An element of a model type, e.g. `period` on `FHIR.Encounter`. */
+export interface CqlModelElement {
+  name: string;
+  /** Qualified element type, e.g. `FHIR.Period` or `List<FHIR.Identifier>`. */
+  type: string | null;
+  description: string | null;
+}
+
+export interface CqlModelType {
+  /** Qualified name, e.g. `FHIR.Encounter`. */
+  name: string;
+  baseType: string | null;
+  retrievable: boolean;
+  label: string | null;
+  elements: CqlModelElement[];
+}
+
+/** The parts of a model info document that completion needs. */
+export interface CqlModelInfo {
+  name: string;
+  version: string | null;
+  /** Namespace URL of the model's types, e.g. `http://hl7.org/fhir`. */
+  url: string | null;
+  types: Map<string, CqlModelType>;
+}
+
+export type CqlDeclarationKind =
+  | 'define'
+  | 'function'
+  | 'parameter'
+  | 'valueset'
+  | 'codesystem'
+  | 'code'
+  | 'concept'
+  | 'include';
+
+/** A name a library declares, read from its source. */
+export interface CqlDeclaration {
+  name: string;
+  kind: CqlDeclarationKind;
+  /** For includes, the included library's name. */
+  detail: string | null;
+}
+
+/** Shape-compatible with CodeMirror's `Completion`. */
+export interface CqlCompletionOption {
+  label: string;
+  type: string;
+  detail?: string;
+  info?: string;
+  apply?: string;
+  boost?: number;
+}
+
+export interface CqlCompletionResult {
+  from: number;
+  options: CqlCompletionOption[];
+  /** Lets the editor keep filtering these options while the typed text matches. */
+  validFor?: RegExp;
+  /** True where CQL keywords, system functions and types also fit. */
+  keywords?: boolean;
+}
+
+/** Everything completion knows about the library being edited. */
+export interface CqlCompletionSources {
+  /** Definition index of the library's last successful translation, if any. */
+  index: CqlDefinitionIndex | null;
+  /** Declarations of included libraries, keyed by include alias. */
+  includedDeclarations: Map<string, CqlDeclaration[]>;
+  /** Model infos keyed by model name, e.g. `FHIR`. */
+  models: Map<string, CqlModelInfo>;
+}
+
+const IDENTIFIER = '[A-Za-z_][A-Za-z0-9_]*';
+const NAME = `(?:"([^"\\n]+)"|(${IDENTIFIER}))`;
+const IDENTIFIER_PATTERN = new RegExp(`^${IDENTIFIER}$`);
+const DECLARATION_KIND_TYPES: Record<CqlDeclarationKind, string> = {
+  define: 'variable',
+  function: 'function',
+  parameter: 'variable',
+  valueset: 'constant',
+  codesystem: 'constant',
+  code: 'constant',
+  concept: 'constant',
+  include: 'namespace'
+};
+
+// Words that can follow a query source but are not its alias.
+const NOT_ALIASES = new Set([
+  'where', 'return', 'with', 'without', 'such', 'that', 'sort', 'let', 'and', 'or',
+  'union', 'intersect', 'except', 'in', 'during', 'included', 'before', 'after'
+]);
+
+function elementChildren(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+function specifierType(specifier: Element): string | null {
+  const kind = specifier.getAttributeNS('http://www.w3.org/2001/XMLSchema-instance', 'type') ?? '';
+  if (kind.endsWith('ListTypeSpecifier')) {
+    const elementType = specifier.getAttribute('elementType');
+    const inner = elementType ?? elementChildren(specifier, 'elementTypeSpecifier').map(specifierType)[0];
+    return inner ? `List<${inner}>` : null;
+  }
+  if (kind.endsWith('IntervalTypeSpecifier')) {
+    const pointType = specifier.getAttribute('pointType');
+    return pointType ? `Interval<${pointType}>` : 'Interval';
+  }
+  if (kind.endsWith('ChoiceTypeSpecifier')) {
+    const choices = [...elementChildren(specifier, 'choice'), ...elementChildren(specifier, 'type')]
+      .map(specifierType)
+      .filter((type): type is string => !!type);
+    return `Choice<${choices.join(', ')}>`;
+  }
+  const name = specifier.getAttribute('name');
+  const namespace = specifier.getAttribute('namespace') ?? specifier.getAttribute('modelName');
+  return name ? (namespace ? `${namespace}.${name}` : name) : null;
+}
+
+/** Read the class types and their elements from a model info XML document. */
+export function parseModelInfo(xml: string): CqlModelInfo | null {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'modelInfo') {
+    return null;
+  }
+  const modelName = root.getAttribute('name') ?? '';
+  const types = new Map<string, CqlModelType>();
+  for (const typeInfo of elementChildren(root, 'typeInfo')) {
+    const name = typeInfo.getAttribute('name');
+    if (!name) {
+      continue;
+    }
+    const namespace = typeInfo.getAttribute('namespace') ?? modelName;
+    const qualified = name.includes('.') && name.startsWith(`${namespace}.`) ? name : `${namespace}.${name}`;
+    types.set(qualified, {
+      name: qualified,
+      baseType: typeInfo.getAttribute('baseType'),
+      retrievable: typeInfo.getAttribute('retrievable') === 'true',
+      label: typeInfo.getAttribute('label'),
+      elements: elementChildren(typeInfo, 'element').map(element => {
+        const specifier = elementChildren(element, 'elementTypeSpecifier')[0];
+        return {
+          name: element.getAttribute('name') ?? '',
+          type: element.getAttribute('elementType') ?? (specifier ? specifierType(specifier) : null),
+          description: element.getAttribute('description')
+        };
+      })
+    });
+  }
+  return { name: modelName, version: root.getAttribute('version'), url: root.getAttribute('url'), types };
+}
+
+/** Elements of a type, including those inherited from its base types. */
+export function modelElements(model: CqlModelInfo, typeName: string): CqlModelElement[] {
+  const elements: CqlModelElement[] = [];
+  const seen = new Set<string>();
+  let type = model.types.get(typeName);
+  while (type && !seen.has(type.name)) {
+    seen.add(type.name);
+    for (const element of type.elements) {
+      if (!elements.some(e => e.name === element.name)) {
+        elements.push(element);
+      }
+    }
+    type = type.baseType ? model.types.get(type.baseType) : undefined;
+  }
+  return elements;
+}
+
+/** Types that can appear in a retrieve, e.g. `[Encounter]`. */
+export function retrievableTypes(model: CqlModelInfo): CqlModelType[] {
+  return [...model.types.values()].filter(type => type.retrievable);
+}
+
+const COMMENT_OR_STRING = /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)|'(?:[^'\\]|\\.)*(?:'|$)/g;
+
+/** Source with comments and string literals blanked out, so offsets are unchanged. */
+function blankCommentsAndStrings(text: string): string {
+  return text.replace(COMMENT_OR_STRING, match => match.replace(/[^\n]/g, ' '));
+}
+
+/** True when the end of `prefix` is inside a comment or an unterminated string. */
+function endsInCommentOrString(prefix: string): boolean {
+  let inside = false;
+  for (const match of prefix.matchAll(COMMENT_OR_STRING)) {
+    const text = match[0];
+    inside =
+      match.index + text.length === prefix.length &&
+      (text.startsWith('//') ||
+        (text.startsWith('/*') && !text.endsWith('*/')) ||
+        (text.startsWith("'") && (text.length === 1 || !text.endsWith("'"))));
+  }
+  return inside;
+}
+
+/** Names the library declares: defines, functions, parameters, terminology and includes. */
+export function declaredNames(text: string): CqlDeclaration[] {
+  const source = blankCommentsAndStrings(text);
+  const declarations: CqlDeclaration[] = [];
+  const add = (name: string, kind: CqlDeclarationKind, detail: string | null = null): void => {
+    if (!declarations.some(d => d.name === name && d.kind === kind)) {
+      declarations.push({ name, kind, detail });
+    }
+  };
+  const access = '(?:(?:public|private)\\s+)?';
+  const patterns: Array<[RegExp, CqlDeclarationKind]> = [
+    [new RegExp(`\\bdefine\\s+${access}(?:fluent\\s+)?function\\s+${NAME}\\s*\\(`, 'g'), 'function'],
+    [new RegExp(`\\bdefine\\s+${access}${NAME}\\s*:`, 'g'), 'define'],
+    [new RegExp(`\\bparameter\\s+${access}${NAME}`, 'g'), 'parameter'],
+    [new RegExp(`\\bvalueset\\s+${access}${NAME}\\s*:`, 'g'), 'valueset'],
+    [new RegExp(`\\bcodesystem\\s+${access}${NAME}\\s*:`, 'g'), 'codesystem'],
+    [new RegExp(`\\bcode\\s+${access}${NAME}\\s*:`, 'g'), 'code'],
+    [new RegExp(`\\bconcept\\s+${access}${NAME}\\s*:`, 'g'), 'concept']
+  ];
+  for (const [pattern, kind] of patterns) {
+    for (const match of source.matchAll(pattern)) {
+      add(match[1] ?? match[2], kind);
+    }
+  }
+  const include = new RegExp(
+    `\\binclude\\s+(?:"([^"]+)"|(${IDENTIFIER}(?:\\.${IDENTIFIER})*))(?:\\s+version)?(?:\\s+called\\s+${NAME})?`,
+    'g'
+  );
+  for (const match of source.matchAll(include)) {
+    const path = match[1] ?? match[2];
+    add(match[3] ?? match[4] ?? path, 'include', path);
+  }
+  return declarations;
+}
+
+/**
+ * Query aliases and the type of one item of their source, e.g. `E` →
+ * `FHIR.Encounter` for `[Encounter] E` or `"Qualifying Encounters" E`.
+ * Retrieves resolve through the model; named sources through the result types
+ * of the last translation.
+ */
+export function queryAliasTypes(
+  text: string,
+  index: CqlDefinitionIndex | null,
+  models: Map<string, CqlModelInfo>
+): Map<string, string> {
+  const source = blankCommentsAndStrings(text);
+  const aliases = new Map<string, string>();
+
+  const retrieve = new RegExp(
+    `\\[\\s*(?:(${IDENTIFIER})\\.)?(${IDENTIFIER})\\s*(?::[^\\]]*)?\\]\\s*(${IDENTIFIER})`,
+    'g'
+  );
+  for (const match of source.matchAll(retrieve)) {
+    const [, modelName, typeName, alias] = match;
+    if (NOT_ALIASES.has(alias)) {
+      continue;
+    }
+    const type = resolveModelType(models, typeName, modelName);
+    if (type) {
+      aliases.set(alias, type);
+    }
+  }
+
+  if (index) {
+    const named = new RegExp(`(?:"([^"\\n]+)"|(${IDENTIFIER}))\\s+(${IDENTIFIER})(?=\\s)`, 'g');
+    for (const match of source.matchAll(named)) {
+      const alias = match[3];
+      if (NOT_ALIASES.has(alias) || aliases.has(alias)) {
+        continue;
+      }
+      const resultType = index.definitions.get(match[1] ?? match[2])?.find(d => d.kind === 'expression')?.resultType;
+      const itemType = resultType ? listItemType(resultType) : null;
+      if (itemType && findModelType(models, itemType)) {
+        aliases.set(alias, itemType);
+      }
+    }
+  }
+  return aliases;
+}
+
+function listItemType(type: string): string {
+  const list = /^List<(.+)>$/.exec(type);
+  return list ? list[1] : type;
+}
+
+function findModelType(models: Map<string, CqlModelInfo>, qualifiedName: string): CqlModelInfo | null {
+  const modelName = qualifiedName.split('.')[0];
+  const model = models.get(modelName);
+  return model?.types.has(qualifiedName) ? model : null;
+}
+
+function resolveModelType(
+  models: Map<string, CqlModelInfo>,
+  typeName: string,
+  modelName: string | undefined
+): string | null {
+  const candidates = modelName ? [models.get(modelName)] : [...models.values()];
+  for (const model of candidates) {
+    if (model?.types.has(`${model.name}.${typeName}`)) {
+      return `${model.name}.${typeName}`;
+    }
+  }
+  return null;
+}
+
+function quoteIfNeeded(name: string): string {
+  return IDENTIFIER_PATTERN.test(name) ? name : `"${name}"`;
+}
+
+function declarationOptions(declarations: CqlDeclaration[], library: string | null): CqlCompletionOption[] {
+  return declarations
+    .filter(d => d.kind !== 'include' || !library)
+    .map(d => ({
+      label: d.name,
+      type: DECLARATION_KIND_TYPES[d.kind],
+      detail: d.kind === 'include' ? `include ${d.detail}` : library ? `${d.kind} (${library})` : d.kind,
+      apply: quoteIfNeeded(d.name),
+      boost: 20
+    }));
+}
+
+function elementOptions(model: CqlModelInfo, typeName: string): CqlCompletionOption[] {
+  return modelElements(model, typeName).map(element => ({
+    label: element.name,
+    type: 'property',
+    detail: element.type ?? undefined,
+    info: element.description ?? undefined,
+    apply: quoteIfNeeded(element.name)
+  }));
+}
+
+/** The type a path such as `E.period` evaluates to, stepping through list elements. */
+function pathType(models: Map<string, CqlModelInfo>, rootType: string, segments: string[]): string | null {
+  let type: string | null = rootType;
+  for (const segment of segments) {
+    const model: CqlModelInfo | null = type ? findModelType(models, type) : null;
+    if (!model || !type) {
+      return null;
+    }
+    const element: CqlModelElement | undefined = modelElements(model, type).find(e => e.name === segment);
+    type = element?.type ? listItemType(element.type) : null;
+  }
+  return type;
+}
+
+/**
+ * Completions for the position `pos` of a CQL document. Returns null inside
+ * comments and strings; otherwise the options that fit where the cursor is:
+ * members after `Alias.`, model types inside `[ ]`, terminology after `[Type:`,
+ * element paths after a query alias, and the library's own names elsewhere.
+ * Callers add keywords and system functions to the general case.
+ */
+export function cqlCompletions(text: string, pos: number, sources: CqlCompletionSources): CqlCompletionResult | null {
+  if (endsInCommentOrString(text.slice(0, pos))) {
+    return null;
+  }
+  const before = blankCommentsAndStrings(text.slice(0, pos));
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const line = before.slice(lineStart);
+  const declarations = declaredNames(text);
+
+  const member = new RegExp(`${NAME}((?:\\s*\\.\\s*${NAME})*)\\s*\\.\\s*("[^"\\n]*|${IDENTIFIER})?$`).exec(line);
+  if (member) {
+    const head = member[1] ?? member[2];
+    const segments = [...member[3].matchAll(new RegExp(`\\.\\s*${NAME}`, 'g'))].map(m => m[1] ?? m[2]);
+    const from = pos - (member[6]?.length ?? 0);
+
+    const included = sources.includedDeclarations.get(head);
+    if (included && !segments.length) {
+      return { from, options: declarationOptions(included, head) };
+    }
+
+    const model = sources.models.get(head);
+    if (model && !segments.length) {
+      return {
+        from,
+        options: [...model.types.values()]
+          .filter(type => !type.name.slice(model.name.length + 1).includes('.'))
+          .map(type => ({ label: type.name.slice(model.name.length + 1), type: 'type', detail: model.name }))
+      };
+    }
+
+    const aliasType = queryAliasTypes(text, sources.index, sources.models).get(head);
+    const type = aliasType ? pathType(sources.models, aliasType, segments) : null;
+    const typeModel = type ? findModelType(sources.models, type) : null;
+    if (type && typeModel) {
+      return { from, options: elementOptions(typeModel, type), validFor: new RegExp(`^${IDENTIFIER}?$`) };
+    }
+    return null;
+  }
+
+  const terminology = new RegExp(
+    `\\[\\s*(?:${IDENTIFIER}\\.)?${IDENTIFIER}\\s*:\\s*(?:${IDENTIFIER}\\s+in\\s+)?("[^"\\n]*|${IDENTIFIER})?$`
+  ).exec(line);
+  if (terminology) {
+    return {
+      from: pos - (terminology[1]?.length ?? 0),
+      options: declarationOptions(
+        declarations.filter(d => d.kind === 'valueset' || d.kind === 'code' || d.kind === 'concept'),
+        null
+      )
+    };
+  }
+
+  const retrieve = new RegExp(`\\[\\s*(?:(${IDENTIFIER})\\.)?(${IDENTIFIER})?$`).exec(line);
+  if (retrieve) {
+    const models = retrieve[1] ? [sources.models.get(retrieve[1])] : [...sources.models.values()];
+    return {
+      from: pos - (retrieve[2]?.length ?? 0),
+      options: models.flatMap(model =>
+        model
+          ? retrievableTypes(model).map(type => ({
+              label: type.name.slice(model.name.length + 1),
+              type: 'type',
+              detail: model.name,
+              info: type.label ?? undefined
+            }))
+          : []
+      )
+    };
+  }
+
+  const word = new RegExp(`("[^"\\n]*|${IDENTIFIER})$`).exec(line);
+  const aliases = [...queryAliasTypes(text, sources.index, sources.models)].map(([alias, type]) => ({
+    label: alias,
+    type: 'variable',
+    detail: type,
+    boost: 25
+  }));
+  return {
+    from: pos - (word?.[1].length ?? 0),
+    options: [...aliases, ...declarationOptions(declarations, null)],
+    keywords: true
+  };
+}
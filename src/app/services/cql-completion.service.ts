@@ -0,0 +1,84 @@
+// Author: Preston Lee
+
+import { Injectable, inject } from '@angular/core';
+import {
+  CqlCompletionResult,
+  CqlDeclaration,
+  CqlModelInfo,
+  cqlCompletions,
+  declaredNames,
+  parseModelInfo
+} from './cql-completion.lib';
+import { CqlDefinitionIndexService } from './cql-definition-index.service';
+import { CqlLibrarySourceService } from './cql-library-source.service';
+import { CqlDefinitionIndex } from './elm-locator.lib';
+import { ElmIncludeRef } from './elm-include.lib';
+import { ModelInfoRegistryService } from './model-info-registry.service';
+import { TranslationService } from './translation.service';
+
+/**
+ * Context-aware CQL completion: the edited library's own names, included
+ * library members, and model types and elements from the model info the
+ * translator loads.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CqlCompletionService {
+  private readonly definitionIndexService = inject(CqlDefinitionIndexService);
+  private readonly librarySourceService = inject(CqlLibrarySourceService);
+  private readonly translationService = inject(TranslationService);
+  private readonly modelInfoRegistry = inject(ModelInfoRegistryService);
+
+  private models = new Map<string, CqlModelInfo>();
+  /** Registry revision the models were parsed at; the system model info is loaded before any completion. */
+  private parsedModelRevision: number | null = null;
+
+  async complete(text: string, pos: number, index: CqlDefinitionIndex | null): Promise<CqlCompletionResult | null> {
+    await this.translationService.ensureTranslationAssetsLoaded();
+    const includedDeclarations = new Map<string, CqlDeclaration[]>();
+    for (const [alias, ref] of index?.includes ?? []) {
+      includedDeclarations.set(alias, await this.includedDeclarations(ref));
+    }
+    return cqlCompletions(text, pos, { index, includedDeclarations, models: this.loadedModels() });
+  }
+
+  private loadedModels(): Map<string, CqlModelInfo> {
+    const revision = this.modelInfoRegistry.revision();
+    if (revision !== this.parsedModelRevision) {
+      this.models = new Map();
+      for (const xml of this.translationService.getLoadedModelInfoXml()) {
+        const model = parseModelInfo(xml);
+        if (model) {
+          this.models.set(model.name, model);
+        }
+      }
+      this.parsedModelRevision = revision;
+    }
+    return this.models;
+  }
+
+  /**
+   * Names an included library declares. Its cached source is read on each
+   * request so edits to open libraries show up; otherwise the defines and
+   * functions of its (cached) ELM index are used.
+   */
+  private async includedDeclarations(ref: ElmIncludeRef): Promise<CqlDeclaration[]> {
+    const cql =
+      this.translationService.getBundledLibrarySource(ref.path, ref.version) ??
+      this.librarySourceService.getCachedCql(ref.path, ref.system, ref.version);
+    if (cql) {
+      return declaredNames(cql).filter(d => d.kind !== 'include');
+    }
+
+    const declarations: CqlDeclaration[] = [];
+    const index = await this.definitionIndexService.getIncludedLibraryIndex(ref);
+    for (const [name, defs] of index?.definitions ?? []) {
+      const def = defs.find(d => d.kind !== 'context');
+      if (def) {
+        declarations.push({ name, kind: def.kind === 'function' ? 'function' : 'define', detail: null });
+      }
+    }
+    return declarations;
+  }
+}
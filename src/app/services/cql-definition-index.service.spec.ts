@@ -59,10 +59,15 @@ describe('CqlDefinitionIndexService', () => {
     librarySourceService.elmCache = new Map([[cacheKey('HelloCommon', '0.0.0'), helloCommonElm]]);
     librarySourceService.elmIncludeParser = new ElmIncludeParser();
 
-    const translationService = Object.create(TranslationService.prototype) as TranslationService & {
-      translateCqlToElmRaw: (cql: string) => { elmXml: string | null };
-    };
-    translationService.translateCqlToElmRaw = () => ({ elmXml: helloCommonElm });
+    const translationService = Object.create(TranslationService.prototype) as TranslationService;
+    translationService.translateCqlToElmRaw = () => ({
+      elmXml: helloCommonElm,
+      elmJson: null,
+      errors: [],
+      warnings: [],
+      messages: [],
+      hasErrors: false
+    });
 
     service = Object.create(CqlDefinitionIndexService.prototype) as CqlDefinitionIndexService & {
       includeParser: ElmIncludeParser;
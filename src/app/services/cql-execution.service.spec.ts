@@ -1,31 +1,49 @@
 // Author: Preston Lee
 
-import { describe, expect, it, vi } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TestBed } from '@angular/core/testing';
+import { HttpClient } from '@angular/common/http';
 import { of } from 'rxjs';
 import { CqlExecutionService } from './cql-execution.service';
+import { CqlLocalExecutionService } from './cql-local-execution.service';
+import { SettingsService } from './settings.service';
 import { IdeExecutionSubject } from '../models/ide-context.model';
 
-function createCqlExecutionService() {
-  const service = Object.create(CqlExecutionService.prototype) as CqlExecutionService;
-  service.settingsService = {
-    getEffectiveEvaluationServerUrl: () => 'http://localhost/fhir',
-    getEndpointHttpContext: () => ({ address: 'http://localhost/fhir', headers: {} }),
-    getActiveEnvironment: () => ({
-      evaluationServer: { address: 'http://localhost/fhir' },
-      dataEndpoint: { address: '' },
-      terminologyEndpoint: { address: '' },
-      contentEndpoint: { address: '' }
-    })
-  };
-  service.http = {
-    post: vi.fn(() => of({ resourceType: 'Parameters', parameter: [] }))
-  };
-  return service;
-}
+const settings: Pick<
+  SettingsService,
+  'getEffectiveEvaluationServerUrl' | 'getEndpointHttpContext' | 'getActiveEnvironment'
+> = {
+  getEffectiveEvaluationServerUrl: () => 'http://localhost/fhir',
+  getEndpointHttpContext: () => ({ address: 'http://localhost/fhir', headers: {} }),
+  getActiveEnvironment: () => ({
+    id: 'test',
+    name: 'Test',
+    evaluationServer: { address: 'http://localhost/fhir' },
+    dataEndpoint: { address: '' },
+    terminologyEndpoint: { address: '' },
+    contentEndpoint: { address: '' }
+  })
+};
 
 describe('CqlExecutionService', () => {
+  let service: CqlExecutionService;
+  let post: ReturnType<typeof vi.fn>;
+  let localExecution: Pick<CqlLocalExecutionService, 'executeLibrary'>;
+
+  beforeEach(() => {
+    post = vi.fn(() => of({ resourceType: 'Parameters', parameter: [] }));
+    localExecution = { executeLibrary: vi.fn(() => of([])) };
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: HttpClient, useValue: { post } },
+        { provide: SettingsService, useValue: settings },
+        { provide: CqlLocalExecutionService, useValue: localExecution }
+      ]
+    });
+    service = TestBed.inject(CqlExecutionService);
+  });
+
   it('posts Group subject reference to Library/$evaluate', () => {
-    const service = createCqlExecutionService();
     const subjects: IdeExecutionSubject[] = [{
       reference: 'Group/g1',
       id: 'g1',
@@ -34,21 +52,19 @@ describe('CqlExecutionService', () => {
 
     service.executeLibrary('lib1', subjects, { libraryName: 'Lib' }).subscribe();
 
-    expect(service.http.post).toHaveBeenCalledTimes(1);
-    const [, body] = (service.http.post as ReturnType<typeof vi.fn>).mock.calls[0];
+    expect(post).toHaveBeenCalledTimes(1);
+    const [, body] = post.mock.calls[0];
     const subjectParam = body.parameter.find((p: { name: string }) => p.name === 'subject');
     expect(subjectParam.valueString).toBe('Group/g1');
   });
 
   it('omits subject when no subjects are provided', () => {
-    const service = createCqlExecutionService();
     service.executeLibrary('lib1').subscribe();
-    const [, body] = (service.http.post as ReturnType<typeof vi.fn>).mock.calls[0];
+    const [, body] = post.mock.calls[0];
     expect(body.parameter.some((p: { name: string }) => p.name === 'subject')).toBe(false);
   });
 
   it('fans out one request per subject', () => {
-    const service = createCqlExecutionService();
     const subjects: IdeExecutionSubject[] = [
       { reference: 'Patient/p1', id: 'p1', display: 'Pat 1' },
       { reference: 'Patient/p2', id: 'p2', display: 'Pat 2' }
@@ -58,6 +74,16 @@ describe('CqlExecutionService', () => {
       expect(results).toHaveLength(2);
     });
 
-    expect(service.http.post).toHaveBeenCalledTimes(2);
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs local executions in the browser instead of posting', () => {
+    const subjects: IdeExecutionSubject[] = [{ reference: 'Patient/p1', id: 'p1', display: 'Pat 1' }];
+    const options = { engine: 'local' as const, elmJson: '{}' };
+
+    service.executeLibrary('lib1', subjects, options).subscribe();
+
+    expect(localExecution.executeLibrary).toHaveBeenCalledWith('lib1', subjects, options);
+    expect(post).not.toHaveBeenCalled();
   });
 });
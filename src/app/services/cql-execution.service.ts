@@ -6,14 +6,19 @@ import { Observable, forkJoin, of, defer } from 'rxjs';
 import { map, catchError } from 'rxjs/operators';
 import { HttpHeaders } from '@angular/common/http';
 import { SettingsService } from './settings.service';
-import { Parameters, Library } from 'fhir/r4';
+import { Parameters, Library, Bundle } from 'fhir/r4';
 import { LibraryResource } from '../components/cql-ide/shared/ide-types';
 import { IdeExecutionSubject } from '../models/ide-context.model';
+import { TranslatorOptionsProfile } from '../models/translator-options.model';
 import { buildHttpHeaders } from './endpoint-config.lib';
 import { appendEvaluateEndpointParameters } from './cql-evaluate-parameters.lib';
+import { CqlLocalExecutionService } from './cql-local-execution.service';
 
 export type CqlOperationType = '$evaluate' | '$cql';
 
+/** Where libraries run: the evaluation server, or the browser. */
+export type CqlExecutionEngine = 'server' | 'local';
+
 export interface CqlExecutionResult {
   result?: any;
   error?: any;
@@ -32,10 +37,18 @@ export interface CqlExecutionResult {
 
 export interface CqlExecutionOptions {
   operation?: CqlOperationType;
+  /** Defaults to `server`. */
+  engine?: CqlExecutionEngine;
   functionName?: string;
   cqlExpression?: string;
   cqlContent?: string;
   elmXml?: string;
+  /** ELM JSON the local engine runs. */
+  elmJson?: string;
+  /** Translator options `elmJson` was produced with; the local engine translates includes with them too. */
+  translatorProfile?: TranslatorOptionsProfile;
+  /** Patient data for the local engine, used instead of the FHIR server. */
+  bundle?: Bundle;
   libraryResource?: LibraryResource;
   libraryName?: string;
   libraryTitle?: string;
@@ -51,8 +64,12 @@ export interface CqlExecutionOptions {
 export class CqlExecutionService extends BaseService {
 
   protected settingsService = inject(SettingsService);
+  protected localExecutionService = inject(CqlLocalExecutionService);
 
   executeLibrary(libraryId: string, subjects?: IdeExecutionSubject[], options?: CqlExecutionOptions): Observable<CqlExecutionResult[]> {
+    if (options?.engine === 'local') {
+      return this.localExecutionService.executeLibrary(libraryId, subjects, options);
+    }
     const operation = options?.operation || '$evaluate';
     
     if (operation === '$cql') {
@@ -3,10 +3,17 @@
 import { LanguageSupport } from '@codemirror/language';
 import { syntaxHighlighting, HighlightStyle } from '@codemirror/language';
 import { tags } from '@lezer/highlight';
-import { completeFromList, autocompletion } from '@codemirror/autocomplete';
+import {
+  completeFromList,
+  autocompletion,
+  Completion,
+  CompletionContext,
+  CompletionSource
+} from '@codemirror/autocomplete';
 import { Extension } from '@codemirror/state';
-import { StreamLanguage } from '@codemirror/language';
 import { indentOnInput } from '@codemirror/language';
+import { CqlCompletionResult } from './cql-completion.lib';
+import { cqlLanguage } from './cql-language.lib';
 
 // Fixed CQL version
 export type CqlVersion = '1.5.3';
@@ -80,34 +87,11 @@ const CQL_GRAMMAR: CqlGrammarDefinition = {
   }
 };
 
-function alternationPattern(words: string[]): RegExp {
-  const sorted = [...words].sort((a, b) => b.length - a.length);
-  const escaped = sorted.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-  return new RegExp(`^(?:${escaped.join('|')})\\b`);
-}
-
-const COMPILED_PATTERNS = {
-  keyword: alternationPattern(CQL_GRAMMAR.keywords),
-  function: alternationPattern(CQL_GRAMMAR.functions),
-  typeName: alternationPattern(CQL_GRAMMAR.dataTypes),
-  operator: /^[+\-*/=<>!&|]+/,
-  bracket: /^[{}[\]()]/,
-  punctuation: /^[;,.:]/,
-  blockCommentEnd: /^\*\//,
-};
-
-const TOKEN_TABLE = {
-  keyword: tags.keyword,
-  string: tags.string,
-  comment: tags.comment,
-  number: tags.number,
-  function: tags.function(tags.variableName),
-  typeName: tags.typeName,
-  operator: tags.operator,
-  bracket: tags.bracket,
-  punctuation: tags.punctuation,
-  variableName: tags.variableName,
-};
+/** Context-aware completions for a document position; see CqlCompletionService. */
+export type CqlContextCompletionSource = (
+  text: string,
+  pos: number
+) => Promise<CqlCompletionResult | null>;
 
 // Grammar Manager Service
 export class CqlGrammarManager {
@@ -125,10 +109,15 @@ export class CqlGrammarManager {
     return this.currentGrammar;
   }
 
-  createLanguageSupport(): LanguageSupport {
+  /**
+   * CQL language support. With a context source, completion also offers what
+   * the library declares and includes and what its models define; without one
+   * it offers the static keyword, function and type lists.
+   */
+  createLanguageSupport(contextSource?: CqlContextCompletionSource): LanguageSupport {
     const grammar = this.currentGrammar;
 
-    const completions = [
+    const completions: Completion[] = [
       ...grammar.keywords.map(keyword => ({
         label: keyword,
         type: 'keyword',
@@ -152,104 +141,59 @@ export class CqlGrammarManager {
       }))
     ];
 
-    const language = StreamLanguage.define({
-      name: `cql-${grammar.version}`,
-      tokenTable: TOKEN_TABLE,
-      token: (stream) => {
-        if (stream.eatSpace()) {
-          return null;
-        }
-
-        if (stream.match('//')) {
-          stream.skipToEnd();
-          return 'comment';
-        }
-
-        if (stream.match('/*')) {
-          while (!stream.eol()) {
-            if (stream.match(COMPILED_PATTERNS.blockCommentEnd)) {
-              break;
-            }
-            stream.next();
-          }
-          return 'comment';
-        }
-
-        if (stream.match(grammar.patterns.string)) {
-          return 'string';
-        }
-
-        if (stream.match(grammar.patterns.number)) {
-          return 'number';
-        }
-
-        if (stream.match(grammar.patterns.datetime)) {
-          return 'string';
-        }
-
-        if (stream.match(COMPILED_PATTERNS.keyword)) {
-          return 'keyword';
-        }
-
-        if (stream.match(COMPILED_PATTERNS.function)) {
-          return 'function';
-        }
-
-        if (stream.match(COMPILED_PATTERNS.typeName)) {
-          return 'typeName';
-        }
-
-        if (stream.match(COMPILED_PATTERNS.operator)) {
-          return 'operator';
-        }
-
-        if (stream.match(COMPILED_PATTERNS.bracket)) {
-          return 'bracket';
-        }
-
-        if (stream.match(COMPILED_PATTERNS.punctuation)) {
-          return 'punctuation';
-        }
-
-        if (stream.match(grammar.patterns.identifier)) {
-          return 'variableName';
-        }
-
-        stream.next();
-        return null;
-      }
-    });
-
     const cqlHighlightStyle = HighlightStyle.define([
       { tag: tags.keyword, color: '#7bb3f0', fontWeight: 'bold' },
-      { tag: tags.function(tags.variableName), color: '#f0e68c' },
+      { tag: [tags.function(tags.variableName), tags.function(tags.propertyName)], color: '#f0e68c' },
+      { tag: tags.definition(tags.variableName), color: '#ffd59e' },
       { tag: tags.typeName, color: '#6dd5ed' },
+      { tag: tags.namespace, color: '#c3a6ff' },
       { tag: tags.operator, color: '#e0e0e0' },
       { tag: tags.number, color: '#a8d8a8' },
+      { tag: [tags.bool, tags.null, tags.unit], color: '#7bb3f0' },
       { tag: tags.string, color: '#f4a261' },
       { tag: tags.variableName, color: '#b3d9ff' },
+      { tag: tags.propertyName, color: '#d0e4ff' },
       { tag: tags.comment, color: '#8fbc8f', fontStyle: 'italic' },
       { tag: tags.bracket, color: '#e0e0e0' },
       { tag: tags.punctuation, color: '#e0e0e0' }
     ]);
 
-    return new LanguageSupport(language, [
+    return new LanguageSupport(cqlLanguage, [
       indentOnInput(),
       syntaxHighlighting(cqlHighlightStyle),
       autocompletion({
         override: [
-          completeFromList(completions.map(completion => ({
-            label: completion.label,
-            type: completion.type,
-            info: completion.info,
-            detail: completion.detail
-          })))
+          contextSource
+            ? this.contextCompletionSource(contextSource, completions)
+            : completeFromList(completions.map(completion => ({
+              label: completion.label,
+              type: completion.type,
+              info: completion.info,
+              detail: completion.detail
+            })))
         ]
       })
     ]);
   }
 
-  createExtensions(): Extension[] {
-    return [this.createLanguageSupport()];
+  createExtensions(contextSource?: CqlContextCompletionSource): Extension[] {
+    return [this.createLanguageSupport(contextSource)];
+  }
+
+  private contextCompletionSource(contextSource: CqlContextCompletionSource, keywords: Completion[]): CompletionSource {
+    return async (context: CompletionContext) => {
+      const result = await contextSource(context.state.doc.toString(), context.pos);
+      if (!result || context.aborted) {
+        return null;
+      }
+      if (result.keywords) {
+        // Like completeFromList, only open on a typed word unless asked explicitly.
+        if (result.from === context.pos && !context.explicit) {
+          return null;
+        }
+        return { from: result.from, options: [...result.options, ...keywords] };
+      }
+      return { from: result.from, options: result.options, validFor: result.validFor };
+    };
   }
 }
@@ -0,0 +1,62 @@
+// Author: Preston Lee
+
+import { styleTags, tags as t } from '@lezer/highlight';
+
+// Node names of the keywords in cql.grammar, grouped by how they are highlighted.
+const KEYWORDS =
+  'library using include version called codesystem codesystems valueset code concept display parameter ' +
+  'default context define function fluent returns external public private if then else case when end ' +
+  'cast convert to minimum maximum start of width successor predecessor singleton point from date time ' +
+  'timezoneoffset duration difference distinct flatten collapse expand per exists starts ends occurs same ' +
+  'or before after includes included during properly within meets overlaps on less more than let with ' +
+  'without such that where return all aggregate starting sort by asc ascending desc descending';
+
+const OPERATOR_KEYWORDS = 'and xor implies not in contains union intersect except is as between div mod';
+
+const PRECISIONS =
+  'year month week day hour minute second millisecond years months weeks days hours minutes seconds milliseconds';
+
+const PROPERTY_KEYWORDS = 'code display version date time start end Code Concept';
+
+function under(parent: string, names: string): string {
+  return names
+    .split(' ')
+    .map(name => `${parent}/${name}`)
+    .join(' ');
+}
+
+const IDENTIFIERS = 'Identifier QuotedIdentifier DelimitedIdentifier';
+
+export const cqlHighlighting = styleTags({
+  [KEYWORDS]: t.keyword,
+  [OPERATOR_KEYWORDS]: t.operatorKeyword,
+  [PRECISIONS]: t.unit,
+  'true false': t.bool,
+  null: t.null,
+  String: t.string,
+  Number: t.number,
+  Temporal: t.special(t.string),
+  LineComment: t.lineComment,
+  BlockComment: t.blockComment,
+  [IDENTIFIERS]: t.variableName,
+  [under('DefinitionName', IDENTIFIERS)]: t.definition(t.variableName),
+  [under('FunctionDefinition/DefinitionName', IDENTIFIERS)]: t.function(t.definition(t.variableName)),
+  [under('CallExpression', IDENTIFIERS)]: t.function(t.variableName),
+  [under('PropertyName', `${IDENTIFIERS} ${PROPERTY_KEYWORDS}`)]: t.propertyName,
+  [under('CallExpression/MemberExpression/PropertyName', IDENTIFIERS)]: t.function(t.propertyName),
+  [under('TypeName', IDENTIFIERS)]: t.typeName,
+  'List Interval Tuple Choice Code Concept': t.typeName,
+  [under('Alias', IDENTIFIERS)]: t.local(t.variableName),
+  [under('LibraryDefinition/QualifiedIdentifier', IDENTIFIERS)]: t.namespace,
+  [under('UsingDefinition/QualifiedIdentifier', IDENTIFIERS)]: t.namespace,
+  [under('IncludeDefinition/QualifiedIdentifier', IDENTIFIERS)]: t.namespace,
+  [under('CalledClause/Alias', IDENTIFIERS)]: t.namespace,
+  '"+" "-" "*" "/" "^" "&"': t.arithmeticOperator,
+  '"<" "<=" ">" ">=" "=" "!=" "~" "!~"': t.compareOperator,
+  '"|" "->"': t.operator,
+  '"."': t.derefOperator,
+  '"," ":"': t.separator,
+  '"(" ")"': t.paren,
+  '"[" "]"': t.squareBracket,
+  '"{" "}"': t.brace
+});
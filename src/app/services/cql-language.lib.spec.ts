@@ -0,0 +1,122 @@
+// Author: Preston Lee
+
+import { ensureSyntaxTree, foldable, syntaxTree } from '@codemirror/language';
+import { EditorState } from '@codemirror/state';
+import { highlightTree, tagHighlighter, tags } from '@lezer/highlight';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { cqlLanguage, cqlOutline } from './cql-language.lib';
+import { parser } from './cql-parser';
+
+const library = `library Screening version '1.0.0'
+
+using FHIR version '4.0.1'
+
+include FHIRHelpers version '4.0.1' called FHIRHelpers
+
+codesystem "LOINC": 'http://loinc.org'
+valueset "Office Visit": 'http://cts.nlm.nih.gov/fhir/ValueSet/2.16.840.1.113883.3.464.1003.101.12.1001'
+code "Height": '8302-2' from "LOINC" display 'Body height'
+concept "Body Size": { "Height" } display 'Body size'
+parameter "Measurement Period" Interval<DateTime>
+
+context Patient
+
+/* Encounters in the
+   measurement period */
+define "Qualifying Encounters":
+  [Encounter: "Office Visit"] E
+    where E.status = 'finished'
+      and E.period during "Measurement Period"
+
+define function "To Years"(concept Integer): concept
+`;
+
+function errorCount(text: string): number {
+  let errors = 0;
+  parser.parse(text).iterate({
+    enter: node => {
+      if (node.type.isError) {
+        errors++;
+      }
+    }
+  });
+  return errors;
+}
+
+describe('cql-language.lib', () => {
+  it('parses the bundled libraries without errors', () => {
+    for (const path of ['public/cql/FHIRHelpers-4.0.1.cql', 'public/fhir/sql-on-fhir/cms125.cql']) {
+      expect(errorCount(readFileSync(join(process.cwd(), path), 'utf8')), path).toBe(0);
+    }
+    expect(errorCount(library)).toBe(0);
+  });
+
+  it('builds the outline from the syntax tree', () => {
+    expect(cqlOutline(library).map(item => `${item.line} ${item.type} ${item.name}`)).toEqual([
+      "1 library library Screening version '1.0.0'",
+      '5 include FHIRHelpers',
+      '7 codesystem "LOINC"',
+      '8 valueset "Office Visit"',
+      '9 code "Height"',
+      '10 concept "Body Size"',
+      '11 parameter "Measurement Period"',
+      '17 define "Qualifying Encounters"',
+      '22 function "To Years"'
+    ]);
+  });
+
+  it('builds the outline from an editor state tree that was reparsed after an edit', () => {
+    const start = EditorState.create({ doc: library, extensions: [cqlLanguage] });
+    ensureSyntaxTree(start, start.doc.length);
+    const at = library.indexOf('define function');
+    const state = start.update({ changes: { from: at, insert: 'define "Added": true\n\n' } }).state;
+    ensureSyntaxTree(state, state.doc.length);
+    const text = state.doc.toString();
+    const outline = cqlOutline(text, syntaxTree(state));
+    expect(outline).toEqual(cqlOutline(text));
+    expect(outline.map(item => `${item.line} ${item.name}`).slice(-2)).toEqual([
+      '22 "Added"',
+      '24 "To Years"'
+    ]);
+  });
+
+  it('folds definition bodies and block comments', () => {
+    const state = EditorState.create({ doc: library, extensions: [cqlLanguage] });
+    ensureSyntaxTree(state, state.doc.length);
+    const fold = (lineNumber: number) => {
+      const line = state.doc.line(lineNumber);
+      const range = foldable(state, line.from, line.to);
+      return range && state.doc.lineAt(range.to).number;
+    };
+    expect(fold(15)).toBe(16);
+    expect(fold(17)).toBe(20);
+    expect(fold(22)).toBeNull();
+  });
+
+  it('highlights definitions, types and aliases differently from references', () => {
+    const highlighter = tagHighlighter([
+      { tag: tags.definition(tags.variableName), class: 'definition' },
+      { tag: tags.function(tags.definition(tags.variableName)), class: 'function-definition' },
+      { tag: tags.typeName, class: 'type' },
+      { tag: tags.local(tags.variableName), class: 'alias' },
+      { tag: tags.propertyName, class: 'property' },
+      { tag: tags.namespace, class: 'namespace' },
+      { tag: tags.variableName, class: 'variable' }
+    ]);
+    const classes = new Map<string, string[]>();
+    highlightTree(parser.parse(library), highlighter, (from, to, cls) => {
+      const text = library.slice(from, to);
+      classes.set(text, [...(classes.get(text) ?? []), cls]);
+    });
+    expect(classes.get('"Qualifying Encounters"')).toEqual(['definition']);
+    expect(classes.get('"To Years"')).toEqual(['function-definition']);
+    expect(classes.get('Encounter')).toEqual(['type']);
+    expect(classes.get('DateTime')).toEqual(['type']);
+    expect(classes.get('E')).toEqual(['alias', 'variable', 'variable']);
+    expect(classes.get('status')).toEqual(['property']);
+    expect(classes.get('FHIRHelpers')).toEqual(['namespace', 'namespace']);
+    expect(classes.get('"Measurement Period"')).toEqual(['definition', 'variable']);
+  });
+});
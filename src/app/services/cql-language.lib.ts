@@ -0,0 +1,113 @@
+// Author: Preston Lee
+
+import {
+  continuedIndent,
+  delimitedIndent,
+  foldInside,
+  foldNodeProp,
+  indentNodeProp,
+  LRLanguage
+} from '@codemirror/language';
+import { EditorState } from '@codemirror/state';
+import { SyntaxNode, Tree } from '@lezer/common';
+import type { OutlineItem } from '../components/cql-ide/shared/ide-types';
+import { parser } from './cql-parser';
+
+/** Fold a definition from the end of its first line to the end of its body. */
+function foldDefinitionBody(node: SyntaxNode, state: EditorState): { from: number; to: number } | null {
+  const headerEnd = state.doc.lineAt(node.from).to;
+  return node.to > headerEnd ? { from: headerEnd, to: node.to } : null;
+}
+
+/**
+ * CQL 1.5.3 language backed by the Lezer grammar in `cql.grammar`. The parser is
+ * incremental, so edits only reparse the definitions around the change.
+ */
+export const cqlLanguage = LRLanguage.define({
+  name: 'cql',
+  parser: parser.configure({
+    props: [
+      indentNodeProp.add({
+        'ExpressionDefinition FunctionDefinition ParameterDefinition': context =>
+          context.baseIndent + context.unit,
+        'ParenthesizedExpression ArgList ParamList': delimitedIndent({ closing: ')' }),
+        'ListSelector TupleSelector InstanceSelector ConceptSelector': delimitedIndent({ closing: '}' }),
+        'Retrieve IndexExpression': delimitedIndent({ closing: ']' }),
+        CaseExpression: continuedIndent({ except: /^\s*end\b/ })
+      }),
+      foldNodeProp.add({
+        'ExpressionDefinition FunctionDefinition ParameterDefinition': foldDefinitionBody,
+        'ListSelector TupleSelector InstanceSelector ConceptSelector ArgList ParenthesizedExpression CaseExpression':
+          foldInside,
+        BlockComment: node => ({ from: node.from + 2, to: node.to - 2 })
+      })
+    ]
+  }),
+  languageData: {
+    commentTokens: { line: '//', block: { open: '/*', close: '*/' } },
+    closeBrackets: { brackets: ['(', '[', '{', "'", '"'] },
+    indentOnInput: /^\s*(?:[)\]}]|end)$/
+  }
+});
+
+const OUTLINE_TYPES: Record<string, string> = {
+  LibraryDefinition: 'library',
+  IncludeDefinition: 'include',
+  CodeSystemDefinition: 'codesystem',
+  ValueSetDefinition: 'valueset',
+  CodeDefinition: 'code',
+  ConceptDefinition: 'concept',
+  ParameterDefinition: 'parameter',
+  ExpressionDefinition: 'define',
+  FunctionDefinition: 'function'
+};
+
+function lineNumberAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low + 1;
+}
+
+/**
+ * Top-level declarations of a CQL library, read from its syntax tree. Pass the
+ * editor's tree when there is one; otherwise the text is parsed.
+ */
+export function cqlOutline(text: string, tree: Tree = parser.parse(text)): OutlineItem[] {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const items: OutlineItem[] = [];
+  for (let node = tree.topNode.firstChild; node; node = node.nextSibling) {
+    const type = OUTLINE_TYPES[node.name];
+    if (!type) {
+      continue;
+    }
+    const nameNode =
+      type === 'library'
+        ? node
+        : type === 'include'
+          ? node.getChild('QualifiedIdentifier')
+          : node.getChild('DefinitionName');
+    if (!nameNode) {
+      continue;
+    }
+    items.push({
+      name: text.slice(nameNode.from, nameNode.to).trim(),
+      type,
+      line: lineNumberAt(lineStarts, node.from)
+    });
+  }
+  return items;
+}
@@ -8,10 +8,16 @@ import {
   ElmIncludeParser,
   ElmIncludeRef
 } from './elm-include.lib';
+import type { ModelInfoSelection } from './model-info-registry.lib';
+import type { TranslatorOptionsProfile } from '../models/translator-options.model';
 
 export interface LibraryTranslationContext {
   fhirLibraryId?: string | null;
   isDirty?: boolean;
+  /** Registry entry the library loads for each model; the registry's default when absent. */
+  modelInfo?: ModelInfoSelection;
+  /** Translator options; the active profile in Settings when absent. */
+  translatorProfile?: TranslatorOptionsProfile;
 }
 
 @Injectable({
@@ -28,6 +34,11 @@ export class CqlLibrarySourceService {
     return this.cqlCache.get(key) ?? null;
   }
 
+  /** Every cached CQL source, keyed by {@link ElmIncludeParser.cacheKey}. */
+  cachedCqlSources(): ReadonlyMap<string, string> {
+    return this.cqlCache;
+  }
+
   hasCachedCql(path: string, system: string | null | undefined, version: string | null | undefined): boolean {
     return this.cqlCache.has(this.elmIncludeParser.cacheKey(path, system, version));
   }
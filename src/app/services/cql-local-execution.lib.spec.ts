@@ -0,0 +1,220 @@
+// Author: Preston Lee
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Bundle } from 'fhir/r4';
+import { describe, expect, it } from 'vitest';
+import { parseModelInfo } from './cql-completion.lib';
+import {
+  FhirRecord,
+  evaluationParameters,
+  executeElmLocally,
+  splitBundleByPatient,
+  valueSetDictionary
+} from './cql-local-execution.lib';
+
+const fhirModel = parseModelInfo(readFileSync(join(process.cwd(), 'public/cql/fhir-modelinfo-4.0.1.xml'), 'utf8'))!;
+
+const OFFICE_VISIT = 'http://cts.nlm.nih.gov/fhir/ValueSet/2.16.840.1.113883.3.464.1003.101.12.1001';
+const STRING = '{urn:hl7-org:elm-types:r1}String';
+
+function retrieve(type: string, extra: object = {}) {
+  return {
+    type: 'Retrieve',
+    dataType: `{http://hl7.org/fhir}${type}`,
+    templateId: `http://hl7.org/fhir/StructureDefinition/${type}`,
+    ...extra
+  };
+}
+
+function define(name: string, expression: object) {
+  return { name, context: 'Patient', accessLevel: 'Public', expression };
+}
+
+// ELM for:
+//   define "Office Visits": [Encounter: "Office Visit"] E where E.status.value = 'finished'
+//   define "Has Office Visit": exists "Office Visits"
+//   define "Birth Date": Patient.birthDate.value
+//   define "Is Resource": Patient is DomainResource
+const elm = {
+  library: {
+    identifier: { id: 'Screening', version: '1.0.0' },
+    schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+    usings: {
+      def: [
+        { localIdentifier: 'System', uri: 'urn:hl7-org:elm-types:r1' },
+        { localIdentifier: 'FHIR', uri: 'http://hl7.org/fhir', version: '4.0.1' }
+      ]
+    },
+    valueSets: { def: [{ name: 'Office Visit', id: OFFICE_VISIT, accessLevel: 'Public' }] },
+    contexts: { def: [{ name: 'Patient' }] },
+    statements: {
+      def: [
+        define('Patient', { type: 'SingletonFrom', operand: retrieve('Patient') }),
+        define('Office Visits', {
+          type: 'Query',
+          source: [
+            {
+              alias: 'E',
+              expression: retrieve('Encounter', {
+                codeProperty: 'type',
+                codeComparator: 'in',
+                codes: { type: 'ValueSetRef', name: 'Office Visit' }
+              })
+            }
+          ],
+          relationship: [],
+          where: {
+            type: 'Equal',
+            operand: [
+              { type: 'Property', path: 'value', source: { type: 'Property', path: 'status', scope: 'E' } },
+              { type: 'Literal', valueType: STRING, value: 'finished' }
+            ]
+          }
+        }),
+        define('Has Office Visit', { type: 'Exists', operand: { type: 'ExpressionRef', name: 'Office Visits' } }),
+        define('Birth Date', {
+          type: 'Property',
+          path: 'value',
+          source: { type: 'Property', path: 'birthDate', source: { type: 'ExpressionRef', name: 'Patient' } }
+        }),
+        define('Is Resource', {
+          type: 'Is',
+          operand: { type: 'ExpressionRef', name: 'Patient' },
+          isTypeSpecifier: { type: 'NamedTypeSpecifier', name: '{http://hl7.org/fhir}DomainResource' }
+        })
+      ]
+    }
+  }
+};
+
+function encounter(id: string, patient: string, status: string, code: string) {
+  return {
+    fullUrl: `urn:uuid:${id}`,
+    resource: {
+      resourceType: 'Encounter',
+      id,
+      status,
+      class: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'AMB' },
+      type: [{ coding: [{ system: 'http://www.ama-assn.org/go/cpt', code }] }],
+      subject: { reference: patient }
+    }
+  };
+}
+
+const bundle: Bundle = {
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: [
+    { fullUrl: 'urn:uuid:p1', resource: { resourceType: 'Patient', id: 'p1', birthDate: '1970-04-12' } },
+    { fullUrl: 'urn:uuid:p2', resource: { resourceType: 'Patient', id: 'p2', birthDate: '1985-09-30' } },
+    encounter('e1', 'Patient/p1', 'finished', '99213'),
+    encounter('e2', 'Patient/p1', 'planned', '99213'),
+    encounter('e3', 'urn:uuid:p1', 'finished', '12345'),
+    encounter('e4', 'Patient/p2', 'cancelled', '99213'),
+    { resource: { resourceType: 'Practitioner', id: 'dr' } }
+  ] as Bundle['entry']
+};
+
+const valueSets = valueSetDictionary([
+  { url: OFFICE_VISIT, codes: [{ code: '99213', system: 'http://www.ama-assn.org/go/cpt' }] }
+]);
+
+describe('cql-local-execution.lib', () => {
+  it('reads FHIR JSON through the model info', () => {
+    const observation = new FhirRecord(
+      {
+        resourceType: 'Observation',
+        id: 'o1',
+        status: 'final',
+        code: { coding: [{ system: 'http://loinc.org', code: '8302-2', display: 'Body height' }] },
+        valueQuantity: { value: 172, unit: 'cm' },
+        effectiveDateTime: '2024-03-01T10:00:00Z',
+        _effectiveDateTime: { id: 'when' }
+      },
+      'FHIR.Observation',
+      fhirModel
+    );
+
+    expect(observation.getId()).toBe('o1');
+    expect((observation.get('value') as FhirRecord).fhirType()).toBe('Quantity');
+    const effective = observation.get('effective') as FhirRecord;
+    expect(effective.fhirType()).toBe('dateTime');
+    expect(effective.get('id')).toBe('when');
+    expect(String(observation.getDate('effective'))).toBe('2024-03-01T10:00:00+00:00');
+    expect(observation.getCode('code')).toEqual([expect.objectContaining({ code: '8302-2', system: 'http://loinc.org' })]);
+    expect(observation._is({ type: 'NamedTypeSpecifier', name: '{http://hl7.org/fhir}DomainResource' })).toBe(true);
+    expect(observation._is({ type: 'NamedTypeSpecifier', name: '{http://hl7.org/fhir}Encounter' })).toBe(false);
+    expect(observation.toJSON()['valueQuantity']).toEqual({ value: 172, unit: 'cm' });
+  });
+
+  it('splits a bundle into patient compartments', () => {
+    const patients = splitBundleByPatient(bundle);
+    expect([...patients.keys()]).toEqual(['p1', 'p2']);
+    expect(patients.get('p1')!.map(r => r.id)).toEqual(['p1', 'e1', 'e2', 'e3', 'dr']);
+    expect(patients.get('p2')!.map(r => r.id)).toEqual(['p2', 'e4', 'dr']);
+  });
+
+  it('runs a library against one patient', async () => {
+    const results = await executeElmLocally({
+      library: elm,
+      includes: [],
+      model: fhirModel,
+      resources: splitBundleByPatient(bundle).get('p1')!,
+      valueSets
+    });
+
+    expect((results['Office Visits'] as FhirRecord[]).map(e => e.getId())).toEqual(['e1']);
+    expect(results['Has Office Visit']).toBe(true);
+    expect(String(results['Birth Date'])).toBe('1970-04-12');
+    expect(results['Is Resource']).toBe(true);
+  });
+
+  it('runs without a patient', async () => {
+    const results = await executeElmLocally({
+      library: elm,
+      includes: [],
+      model: fhirModel,
+      resources: [],
+      valueSets
+    });
+
+    expect(results['Patient']).toBeNull();
+    expect(results['Has Office Visit']).toBe(false);
+  });
+
+  it('reports results as $evaluate parameters', () => {
+    const patient = new FhirRecord({ resourceType: 'Patient', id: 'p1' }, 'FHIR.Patient', fhirModel);
+    const parameters = evaluationParameters({
+      Patient: patient,
+      Count: 2,
+      Ratio: 0.5,
+      Flag: true,
+      Nothing: null,
+      None: [],
+      Names: ['a', 'b'],
+      Pair: { left: 1, right: 'x' }
+    });
+
+    expect(parameters.parameter).toEqual([
+      { name: 'Patient', resource: { resourceType: 'Patient', id: 'p1' } },
+      { name: 'Count', valueInteger: 2 },
+      { name: 'Ratio', valueDecimal: 0.5 },
+      { name: 'Flag', valueBoolean: true },
+      {
+        name: 'Nothing',
+        extension: [{ url: 'http://hl7.org/fhir/StructureDefinition/data-absent-reason', valueCode: 'unknown' }]
+      },
+      { name: 'None', extension: [{ url: 'http://hl7.org/fhir/StructureDefinition/cqf-isEmptyList', valueBoolean: true }] },
+      { name: 'Names', valueString: 'a' },
+      { name: 'Names', valueString: 'b' },
+      {
+        name: 'Pair',
+        part: [
+          { name: 'left', valueInteger: 1 },
+          { name: 'right', valueString: 'x' }
+        ]
+      }
+    ]);
+  });
+});
@@ -0,0 +1,482 @@
+// Author: Preston Lee
+
+import type { Bundle, FhirResource, Parameters, ParametersParameter } from 'fhir/r4';
+import {
+  Code,
+  CodeService,
+  Date as CqlDate,
+  DateTime,
+  Executor,
+  Interval,
+  Library,
+  Repository
+} from 'cql-execution';
+import type {
+  AnyTypeSpecifier,
+  DataProvider,
+  PatientObject,
+  RecordObject,
+  RetrieveDetails,
+  ValueSetDictionary
+} from 'cql-execution';
+import { CqlModelElement, CqlModelInfo, modelElements } from './cql-completion.lib';
+
+const SYSTEM_ANY = '{urn:hl7-org:elm-types:r1}Any';
+const DATA_ABSENT_REASON = 'http://hl7.org/fhir/StructureDefinition/data-absent-reason';
+const EMPTY_LIST = 'http://hl7.org/fhir/StructureDefinition/cqf-isEmptyList';
+
+const elementCache = new WeakMap<CqlModelInfo, Map<string, CqlModelElement[]>>();
+
+function elementsOf(model: CqlModelInfo, type: string): CqlModelElement[] {
+  let byType = elementCache.get(model);
+  if (!byType) {
+    byType = new Map();
+    elementCache.set(model, byType);
+  }
+  let elements = byType.get(type);
+  if (!elements) {
+    elements = modelElements(model, type);
+    byType.set(type, elements);
+  }
+  return elements;
+}
+
+function localName(model: CqlModelInfo, type: string): string {
+  return type.startsWith(`${model.name}.`) ? type.slice(model.name.length + 1) : type;
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/** A FHIR primitive or code enum: a model type whose only element is a System-typed `value`. */
+function isPrimitiveType(model: CqlModelInfo, type: string): boolean {
+  const elements = model.types.get(type)?.elements ?? [];
+  return elements.length === 1 && elements[0].name === 'value' && !!elements[0].type?.startsWith('System.');
+}
+
+function toSystemValue(raw: unknown, type: string): unknown {
+  switch (type) {
+    case 'System.DateTime':
+      return DateTime.parse(String(raw).replace(/Z$/, '+00:00'));
+    case 'System.Date':
+      return CqlDate.parse(String(raw));
+    case 'System.Time':
+      return DateTime.parse(`0000-01-01T${raw}`)?.getTime() ?? null;
+    case 'System.Integer':
+    case 'System.Decimal':
+      return typeof raw === 'number' ? raw : Number(raw);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Engine value of a JSON property of the given model type. `extra` is the
+ * primitive's `_name` sibling (its id and extensions).
+ */
+function convert(raw: unknown, extra: unknown, type: string, model: CqlModelInfo): unknown {
+  if (raw == null && extra == null) {
+    return null;
+  }
+  if (type.startsWith('List<')) {
+    const itemType = type.slice(5, -1);
+    const items = Array.isArray(raw) ? raw : [];
+    const extras = Array.isArray(extra) ? extra : [];
+    return Array.from({ length: Math.max(items.length, extras.length) }, (_, i) =>
+      convert(items[i], extras[i], itemType, model)
+    );
+  }
+  if (type.startsWith('System.')) {
+    return raw == null ? null : toSystemValue(raw, type);
+  }
+  if (isPrimitiveType(model, type)) {
+    const json = typeof extra === 'object' && extra ? { ...extra } : {};
+    return new FhirRecord({ ...json, value: raw }, type, model);
+  }
+  if (typeof raw !== 'object' || raw == null) {
+    return null;
+  }
+  const resourceType = (raw as { resourceType?: unknown }).resourceType;
+  const specific = typeof resourceType === 'string' ? `${model.name}.${resourceType}` : null;
+  return new FhirRecord(raw as Record<string, unknown>, specific && model.types.has(specific) ? specific : type, model);
+}
+
+/** Value of an element, following `value[x]` style choices to the property that is present. */
+function readElement(json: Record<string, unknown>, element: CqlModelElement, model: CqlModelInfo): unknown {
+  const type = element.type;
+  if (!type) {
+    return null;
+  }
+  if (!type.startsWith('Choice<')) {
+    return convert(json[element.name], json[`_${element.name}`], type, model);
+  }
+  for (const choice of type.slice(7, -1).split(', ')) {
+    const suffix = localName(model, choice) === 'SimpleQuantity' ? 'Quantity' : capitalize(localName(model, choice));
+    const property = `${element.name}${suffix}`;
+    if (json[property] !== undefined || json[`_${property}`] !== undefined) {
+      return convert(json[property], json[`_${property}`], choice, model);
+    }
+  }
+  return null;
+}
+
+function toCodes(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => toCodes(item) ?? []);
+  }
+  if (!(value instanceof FhirRecord)) {
+    return value ?? null;
+  }
+  const primitive = (name: string) => ((value.get(name) as FhirRecord | null)?.get('value') ?? undefined) as string | undefined;
+  switch (value.fhirType()) {
+    case 'CodeableConcept':
+      return toCodes(value.get('coding') ?? []);
+    case 'Coding':
+      return new Code(primitive('code') as string, primitive('system'), primitive('version'), primitive('display'));
+    default:
+      return value.get('value') ?? null;
+  }
+}
+
+/**
+ * A FHIR resource or element as the CQL engine sees it. Elements present in
+ * the JSON become properties holding engine values (FHIR primitives wrap a
+ * System `value`), so the engine's property access, equality and `is` checks
+ * follow the model info. This reads the model infos in the registry rather
+ * than using cql-exec-fhir, which ships its own four FHIR model infos (about
+ * 5 MB) and cannot follow one a library selects or a user uploads.
+ */
+export class FhirRecord implements RecordObject {
+  [element: string]: unknown;
+
+  readonly #json: Record<string, unknown>;
+  readonly #type: string;
+  readonly #model: CqlModelInfo;
+
+  constructor(json: Record<string, unknown>, type: string, model: CqlModelInfo) {
+    this.#json = json;
+    this.#type = type;
+    this.#model = model;
+    for (const element of elementsOf(model, type)) {
+      const value = readElement(json, element, model);
+      if (value != null) {
+        this[element.name] = value;
+      }
+    }
+  }
+
+  /** Model type without its namespace, e.g. `Encounter` or `dateTime`. */
+  fhirType(): string {
+    return localName(this.#model, this.#type);
+  }
+
+  get(field: string): unknown {
+    return this[field] ?? null;
+  }
+
+  getId(): string {
+    return typeof this.#json['id'] === 'string' ? this.#json['id'] : '';
+  }
+
+  getCode(field: string): unknown {
+    return toCodes(this.get(field));
+  }
+
+  getDate(field: string): unknown {
+    const value = this.get(field);
+    return value instanceof FhirRecord ? value.get('value') : value;
+  }
+
+  getDateOrInterval(field: string): unknown {
+    const value = this.get(field);
+    if (value instanceof FhirRecord && value.fhirType() === 'Period') {
+      return new Interval(value.getDate('start'), value.getDate('end'), true, true);
+    }
+    return this.getDate(field);
+  }
+
+  _typeHierarchy(): AnyTypeSpecifier[] {
+    const names: string[] = [];
+    let type = this.#model.types.get(this.#type);
+    while (type) {
+      const name = `{${this.#model.url}}${localName(this.#model, type.name)}`;
+      if (names.includes(name)) {
+        break;
+      }
+      names.push(name);
+      type = type.baseType ? this.#model.types.get(type.baseType) : undefined;
+    }
+    return [...names, SYSTEM_ANY].map(name => ({ type: 'NamedTypeSpecifier', name }));
+  }
+
+  _is(typeSpecifier: AnyTypeSpecifier): boolean {
+    return (
+      typeSpecifier.type === 'NamedTypeSpecifier' &&
+      this._typeHierarchy().some(type => type.type === 'NamedTypeSpecifier' && type.name === typeSpecifier.name)
+    );
+  }
+
+  toJSON(): Record<string, unknown> {
+    return this.#json;
+  }
+}
+
+/** A patient and the resources in its compartment, answering the engine's retrieves. */
+export class FhirPatient extends FhirRecord implements PatientObject {
+  readonly #resources: FhirResource[];
+  readonly #model: CqlModelInfo;
+  readonly #records = new Map<string, FhirRecord[]>();
+
+  /** `resources` may lack a Patient; the library then runs with `Patient` null. */
+  constructor(resources: FhirResource[], model: CqlModelInfo) {
+    const patient = resources.find(r => r.resourceType === 'Patient');
+    super((patient ?? {}) as Record<string, unknown>, `${model.name}.Patient`, model);
+    this.#resources = resources;
+    this.#model = model;
+  }
+
+  findRecords(profile: string | null, retrieveDetails?: RetrieveDetails): FhirRecord[] {
+    const datatype = retrieveDetails?.datatype ?? profile ?? '';
+    const resourceType = datatype.replace(/^\{[^}]*\}/, '').split('/').pop() ?? '';
+    let records = this.#records.get(resourceType);
+    if (!records) {
+      records = this.#resources
+        .filter(r => r.resourceType === resourceType)
+        .map(r => new FhirRecord(r as unknown as Record<string, unknown>, `${this.#model.name}.${resourceType}`, this.#model));
+      this.#records.set(resourceType, records);
+    }
+    return records;
+  }
+}
+
+/** Hands the engine one patient per resource list, in order. */
+export class FhirBundlePatientSource implements DataProvider {
+  private index = 0;
+  private current: FhirPatient | undefined;
+
+  constructor(
+    private readonly patients: FhirResource[][],
+    private readonly model: CqlModelInfo
+  ) {
+    this.current = this.load();
+  }
+
+  currentPatient(): FhirPatient | undefined {
+    return this.current;
+  }
+
+  nextPatient(): FhirPatient | undefined {
+    this.index++;
+    this.current = this.load();
+    return this.current;
+  }
+
+  private load(): FhirPatient | undefined {
+    const resources = this.patients[this.index];
+    return resources ? new FhirPatient(resources, this.model) : undefined;
+  }
+}
+
+function collectReferences(value: unknown, found: (reference: string) => void): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, found));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'reference' && typeof child === 'string') {
+        found(child);
+      } else {
+        collectReferences(child, found);
+      }
+    }
+  }
+}
+
+/**
+ * Each Patient in a bundle with the resources that reference it, keyed by
+ * patient id. Resources that reference no patient (practitioners,
+ * medications, ...) go to every patient.
+ */
+export function splitBundleByPatient(bundle: Bundle): Map<string, FhirResource[]> {
+  const entries = (bundle.entry ?? []).filter(entry => entry.resource);
+  const patientIds = new Map<string, string>();
+  const owned = new Map<string, FhirResource[]>();
+  for (const entry of entries) {
+    const resource = entry.resource as FhirResource;
+    if (resource.resourceType === 'Patient' && resource.id) {
+      patientIds.set(`Patient/${resource.id}`, resource.id);
+      if (entry.fullUrl) {
+        patientIds.set(entry.fullUrl, resource.id);
+      }
+      owned.set(resource.id, [resource]);
+    }
+  }
+
+  const shared: FhirResource[] = [];
+  for (const entry of entries) {
+    const resource = entry.resource as FhirResource;
+    if (resource.resourceType === 'Patient') {
+      continue;
+    }
+    const owners = new Set<string>();
+    collectReferences(resource, reference => {
+      const id = patientIds.get(reference) ?? patientIds.get(reference.replace(/^.*\/(Patient\/[^/]+)$/, '$1'));
+      if (id) {
+        owners.add(id);
+      }
+    });
+    if (owners.size === 0) {
+      shared.push(resource);
+    }
+    owners.forEach(id => owned.get(id)!.push(resource));
+  }
+  return new Map([...owned].map(([id, resources]) => [id, [...resources, ...shared]]));
+}
+
+/** Codes of one value set expansion, as the engine's code service takes them. */
+export interface LocalValueSetExpansion {
+  url: string;
+  /** Version the library declares for the value set, if any. */
+  version?: string;
+  codes: Array<{ code: string; system: string; version?: string; display?: string }>;
+}
+
+export function valueSetDictionary(expansions: LocalValueSetExpansion[]): ValueSetDictionary {
+  const dictionary: ValueSetDictionary = {};
+  for (const expansion of expansions) {
+    dictionary[expansion.url] ??= {};
+    dictionary[expansion.url][expansion.version ?? ''] = expansion.codes;
+  }
+  return dictionary;
+}
+
+/** `path`/`version` of the libraries an ELM JSON library includes. */
+export function elmIncludes(elm: unknown): Array<{ path: string; version: string | null }> {
+  const defs = (elm as { library?: { includes?: { def?: Array<{ path?: string; version?: string }> } } })?.library
+    ?.includes?.def;
+  return (defs ?? [])
+    .filter(def => !!def.path)
+    .map(def => ({ path: def.path!, version: def.version ?? null }));
+}
+
+function intervalParameter(name: string, value: Interval): ParametersParameter {
+  const low = value.low as { isDateTime?: boolean; isDate?: boolean; isQuantity?: boolean } | null;
+  const high = value.high as typeof low;
+  const point = low ?? high;
+  if (point?.isDateTime || point?.isDate) {
+    return { name, valuePeriod: { start: low?.toString(), end: high?.toString() } };
+  }
+  if (point?.isQuantity) {
+    return { name, valueRange: { low: quantity(low), high: quantity(high) } };
+  }
+  return { name, valueString: value.toString() };
+}
+
+function quantity(value: unknown): { value?: number; unit?: string; system?: string; code?: string } | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const { value: amount, unit } = value as { value: number; unit?: string };
+  return { value: amount, unit, system: 'http://unitsofmeasure.org', code: unit };
+}
+
+function coding(code: Code) {
+  return { system: code.system, code: code.code, version: code.version, display: code.display };
+}
+
+function toParameters(name: string, value: unknown): ParametersParameter[] {
+  if (value == null) {
+    return [{ name, extension: [{ url: DATA_ABSENT_REASON, valueCode: 'unknown' }] }];
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? [{ name, extension: [{ url: EMPTY_LIST, valueBoolean: true }] }]
+      : value.flatMap(item => toParameters(name, item));
+  }
+  switch (typeof value) {
+    case 'boolean':
+      return [{ name, valueBoolean: value }];
+    case 'number':
+      return [Number.isInteger(value) ? { name, valueInteger: value } : { name, valueDecimal: value }];
+    case 'string':
+      return [{ name, valueString: value }];
+  }
+  if (value instanceof FhirRecord) {
+    const json = value.toJSON();
+    if (typeof json['resourceType'] === 'string') {
+      return [{ name, resource: json as unknown as FhirResource }];
+    }
+    const type = value.fhirType();
+    const primitive = /^[a-z]/.test(type);
+    return [{ name, [`value${capitalize(type)}`]: primitive ? json['value'] : json } as ParametersParameter];
+  }
+  const typed = value as {
+    isDateTime?: boolean;
+    isDate?: boolean;
+    isTime?: () => boolean;
+    isQuantity?: boolean;
+    isRatio?: boolean;
+    isCode?: boolean;
+    isConcept?: boolean;
+    isInterval?: boolean;
+  };
+  if (typed.isDateTime) {
+    return [typeof typed.isTime === 'function' && typed.isTime()
+      ? { name, valueTime: String(value).slice('0000-01-01T'.length) }
+      : { name, valueDateTime: String(value) }];
+  }
+  if (typed.isDate) {
+    return [{ name, valueDate: String(value) }];
+  }
+  if (typed.isQuantity) {
+    return [{ name, valueQuantity: quantity(value) }];
+  }
+  if (typed.isRatio) {
+    const ratio = value as { numerator: unknown; denominator: unknown };
+    return [{ name, valueRatio: { numerator: quantity(ratio.numerator), denominator: quantity(ratio.denominator) } }];
+  }
+  if (typed.isCode) {
+    return [{ name, valueCoding: coding(value as Code) }];
+  }
+  if (typed.isConcept) {
+    const concept = value as { codes: Code[]; display?: string };
+    return [{ name, valueCodeableConcept: { coding: concept.codes.map(coding), text: concept.display } }];
+  }
+  if (typed.isInterval) {
+    return [intervalParameter(name, value as Interval)];
+  }
+  if (Object.getPrototypeOf(value) === Object.prototype) {
+    return [{ name, part: Object.entries(value).flatMap(([key, item]) => toParameters(key, item)) }];
+  }
+  return [{ name, valueString: String(value) }];
+}
+
+/** Expression results as the `Parameters` resource `Library/$evaluate` returns. */
+export function evaluationParameters(results: Record<string, unknown>): Parameters {
+  return {
+    resourceType: 'Parameters',
+    parameter: Object.entries(results).flatMap(([name, value]) => toParameters(name, value))
+  };
+}
+
+export interface LocalExecutionInput {
+  /** ELM JSON of the library to run. */
+  library: object;
+  /** ELM JSON of the libraries it includes, directly or not. */
+  includes: object[];
+  model: CqlModelInfo;
+  /** One patient's resources (see `splitBundleByPatient`); empty runs without a patient. */
+  resources: FhirResource[];
+  valueSets: ValueSetDictionary;
+  /** Values for the library's parameters, keyed by name. */
+  parameters?: Record<string, unknown>;
+}
+
+/** Run a library's expressions in the browser for one patient. */
+export async function executeElmLocally(input: LocalExecutionInput): Promise<Record<string, unknown>> {
+  const repository = new Repository(Object.fromEntries(input.includes.map((elm, i) => [String(i), elm])));
+  const executor = new Executor(new Library(input.library, repository), new CodeService(input.valueSets), input.parameters);
+  const results = await executor.exec(new FhirBundlePatientSource([input.resources], input.model));
+  const [patientResults] = Object.values((results.patientResults ?? {}) as Record<string, Record<string, unknown>>);
+  return { ...(results.unfilteredResults ?? {}), ...(patientResults ?? {}) };
+}
@@ -0,0 +1,306 @@
+// Author: Preston Lee
+
+import { Injectable, inject } from '@angular/core';
+import { Observable, defer, firstValueFrom } from 'rxjs';
+import type { Bundle, FhirResource, Patient, ValueSet } from 'fhir/r4';
+import { extractRetrieveTypesFromElm } from '../components/sql-on-fhir/measure-resource-types.lib';
+import { extractUsedValueSets, type ValueSetReference } from '../components/sql-on-fhir/elm-to-sql';
+import { IdeExecutionSubject } from '../models/ide-context.model';
+import { CqlModelInfo, parseModelInfo } from './cql-completion.lib';
+import type { CqlExecutionOptions, CqlExecutionResult } from './cql-execution.service';
+import { CqlLibrarySourceService } from './cql-library-source.service';
+import {
+  LocalValueSetExpansion,
+  elmIncludes,
+  evaluationParameters,
+  executeElmLocally,
+  splitBundleByPatient,
+  valueSetDictionary
+} from './cql-local-execution.lib';
+import type { LibraryTranslationContext } from './cql-library-source.service';
+import { ModelInfoRegistryService } from './model-info-registry.service';
+import { modelInfoSelectionKey } from './model-info-registry.lib';
+import { PatientService } from './patient.service';
+import { flattenValueSets } from './sql-on-fhir/sql-on-fhir-bundle-flattener.lib';
+import { SqlOnFhirExecutionDataService } from './sql-on-fhir/sql-on-fhir-execution-data.service';
+import { indexBundledValueSets, lookupBundledValueSet } from './sql-on-fhir/sql-on-fhir-execution-data.lib';
+import { SqlOnFhirPatientLoaderService } from './sql-on-fhir/sql-on-fhir-patient-loader.service';
+import { TranslationService } from './translation.service';
+
+interface PreparedLibrary {
+  library: object;
+  includes: object[];
+  model: CqlModelInfo;
+}
+
+interface LocalPatient {
+  subject?: IdeExecutionSubject;
+  resources: FhirResource[];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs translated libraries in the browser with the cql-execution engine, so
+ * CQL can be iterated on without an evaluation server. Patient data comes from
+ * an uploaded bundle or the FHIR server; value sets from the bundle, an
+ * in-memory cache, or the terminology endpoint.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CqlLocalExecutionService {
+  private readonly translationService = inject(TranslationService);
+  private readonly librarySourceService = inject(CqlLibrarySourceService);
+  private readonly patientService = inject(PatientService);
+  private readonly patientLoader = inject(SqlOnFhirPatientLoaderService);
+  private readonly executionData = inject(SqlOnFhirExecutionDataService);
+  private readonly modelInfoRegistry = inject(ModelInfoRegistryService);
+
+  /** Parsed model infos keyed by registry entry id. */
+  private models = new Map<string, CqlModelInfo>();
+  /** Translated includes keyed by `path|version`, kept while their source and translation options are unchanged. */
+  private includeCache = new Map<string, { cql: string; options: string; elm: object }>();
+  /** Expansions fetched from the terminology endpoint, keyed by `url|version`. */
+  private valueSetCache = new Map<string, LocalValueSetExpansion>();
+
+  /**
+   * Run a library for each subject (or each patient in `options.bundle`), one
+   * result per patient in the shape of the server's `$evaluate` results. With
+   * no subjects and no bundle the library runs once without a patient.
+   */
+  executeLibrary(
+    libraryId: string,
+    subjects: IdeExecutionSubject[] = [],
+    options: CqlExecutionOptions = {}
+  ): Observable<CqlExecutionResult[]> {
+    return defer(() => this.execute(libraryId, subjects, options));
+  }
+
+  private async execute(
+    libraryId: string,
+    subjects: IdeExecutionSubject[],
+    options: CqlExecutionOptions
+  ): Promise<CqlExecutionResult[]> {
+    const libraryName = options.libraryName || libraryId;
+    const startTime = Date.now();
+    let prepared: PreparedLibrary;
+    let patients: LocalPatient[];
+    let valueSets: LocalValueSetExpansion[];
+    try {
+      prepared = await this.prepareLibrary(options.elmJson, {
+        modelInfo: options.libraryResource?.modelInfo,
+        translatorProfile: options.translatorProfile
+      });
+      patients = await this.loadPatients(subjects, options.bundle, prepared);
+      valueSets = await this.loadValueSets(prepared, options.bundle);
+    } catch (error) {
+      return [{ error: errorMessage(error), libraryId, libraryName, executionTime: Date.now() - startTime }];
+    }
+
+    const results: CqlExecutionResult[] = [];
+    for (const patient of patients) {
+      const patientStart = Date.now();
+      const metadata: Partial<CqlExecutionResult> = {
+        libraryId,
+        libraryName,
+        subjectReference: patient.subject?.reference,
+        subjectId: patient.subject?.id,
+        subjectDisplay: patient.subject?.display,
+        patientId: patient.subject?.id,
+        patientName: patient.subject?.display
+      };
+      try {
+        const values = await executeElmLocally({
+          ...prepared,
+          resources: patient.resources,
+          valueSets: valueSetDictionary(valueSets)
+        });
+        results.push({ result: evaluationParameters(values), ...metadata, executionTime: Date.now() - patientStart } as CqlExecutionResult);
+      } catch (error) {
+        results.push({ error: errorMessage(error), ...metadata, executionTime: Date.now() - patientStart } as CqlExecutionResult);
+      }
+    }
+    return results;
+  }
+
+  /** Parse the library's ELM and translate its includes with the model infos and options `context` selects. */
+  private async prepareLibrary(
+    elmJson: string | undefined,
+    context: LibraryTranslationContext
+  ): Promise<PreparedLibrary> {
+    if (!elmJson) {
+      throw new Error('The library did not translate to ELM, so it cannot run locally.');
+    }
+    await this.translationService.ensureTranslationAssetsLoaded();
+    const library = JSON.parse(elmJson) as object;
+    const includes = new Map<string, object>();
+    await this.collectIncludes(library, includes, context);
+    return { library, includes: [...includes.values()], model: this.modelFor(library, context) };
+  }
+
+  /** Translate every library `elm` includes, directly or not, into `found`. */
+  private async collectIncludes(
+    elm: object,
+    found: Map<string, object>,
+    context: LibraryTranslationContext
+  ): Promise<void> {
+    const options = [
+      modelInfoSelectionKey(context.modelInfo),
+      JSON.stringify(context.translatorProfile ?? null)
+    ].join('|');
+    for (const { path, version } of elmIncludes(elm)) {
+      const key = `${path}|${version ?? ''}`;
+      if (found.has(key)) {
+        continue;
+      }
+      const cql =
+        this.translationService.getBundledLibrarySource(path, version) ??
+        this.librarySourceService.getCachedCql(path, null, version);
+      if (!cql) {
+        throw new Error(`Included library ${path}${version ? ` version '${version}'` : ''} is not loaded.`);
+      }
+      let cached = this.includeCache.get(key);
+      if (cached?.cql !== cql || cached.options !== options) {
+        const translation = await this.translationService.translateCqlToElmAsync(cql, context);
+        if (!translation.elmJson || translation.hasErrors) {
+          throw new Error(`Included library ${path} did not translate: ${translation.errors[0] ?? 'no ELM produced'}`);
+        }
+        cached = { cql, options, elm: JSON.parse(translation.elmJson) as object };
+        this.includeCache.set(key, cached);
+      }
+      found.set(key, cached.elm);
+      await this.collectIncludes(cached.elm, found, context);
+    }
+  }
+
+  /** The model info of the library's data model, e.g. FHIR 4.0.1, as registered for translation. */
+  private modelFor(library: object, context: LibraryTranslationContext): CqlModelInfo {
+    const usings = (library as { library?: { usings?: { def?: Array<{ localIdentifier?: string; version?: string }> } } })
+      .library?.usings?.def;
+    const using = usings?.find(u => u.localIdentifier && u.localIdentifier !== 'System');
+    const name = using?.localIdentifier ?? 'FHIR';
+    const entry = this.modelInfoRegistry.resolve(name, using?.version, context.modelInfo);
+    let model = entry ? this.models.get(entry.id) : undefined;
+    if (entry && !model) {
+      model = parseModelInfo(entry.xml) ?? undefined;
+      if (model) {
+        this.models.set(entry.id, model);
+      }
+    }
+    if (!model) {
+      throw new Error(`Local execution has no model info for ${name}.`);
+    }
+    return model;
+  }
+
+  private async loadPatients(
+    subjects: IdeExecutionSubject[],
+    bundle: Bundle | undefined,
+    prepared: PreparedLibrary
+  ): Promise<LocalPatient[]> {
+    if (bundle) {
+      const byPatient = splitBundleByPatient(bundle);
+      if (byPatient.size === 0) {
+        return [{ resources: [] }];
+      }
+      return [...byPatient].map(([id, resources]) => ({
+        subject: {
+          reference: `Patient/${id}`,
+          id,
+          display: this.patientService.getDisplayName(resources[0] as Patient)
+        },
+        resources
+      }));
+    }
+    if (subjects.length === 0) {
+      return [{ resources: [] }];
+    }
+    if (subjects.some(subject => !subject.reference.startsWith('Patient/'))) {
+      throw new Error('Local execution runs Patient subjects. Select patients or upload a bundle to run a Group.');
+    }
+
+    const patients = subjects.map(
+      subject =>
+        this.patientService.selectedPatients.find(p => p.id === subject.id) ??
+        ({ resourceType: 'Patient', id: subject.id } as Patient)
+    );
+    const resourceTypes = [prepared.library, ...prepared.includes].flatMap(elm =>
+      extractRetrieveTypesFromElm(JSON.stringify(elm))
+    );
+    const load = await firstValueFrom(
+      this.patientLoader.loadPatients(patients, { resourceTypes: [...new Set(resourceTypes)] })
+    );
+    if (load.errors.length) {
+      throw new Error(load.errors.join('; '));
+    }
+    const byPatient = splitBundleByPatient(load.bundle);
+    return subjects.map(subject => ({ subject, resources: byPatient.get(subject.id) ?? [] }));
+  }
+
+  /** Expansions of the value sets the library and its includes use. */
+  private async loadValueSets(prepared: PreparedLibrary, bundle: Bundle | undefined): Promise<LocalValueSetExpansion[]> {
+    const refs = new Map<string, ValueSetReference>();
+    for (const elm of [prepared.library, ...prepared.includes]) {
+      for (const ref of extractUsedValueSets(elm as Parameters<typeof extractUsedValueSets>[0])) {
+        refs.set(`${ref.url}|${ref.version ?? ''}`, ref);
+      }
+    }
+
+    const bundled = indexBundledValueSets(
+      (bundle?.entry ?? []).map(e => e.resource).filter((r): r is ValueSet => r?.resourceType === 'ValueSet')
+    );
+    const expansions: LocalValueSetExpansion[] = [];
+    const toFetch: ValueSetReference[] = [];
+    for (const [key, ref] of refs) {
+      const local = lookupBundledValueSet(ref, bundled);
+      const cached = this.valueSetCache.get(key);
+      if (local) {
+        expansions.push(this.expansion(ref, flattenValueSets([local])));
+      } else if (cached) {
+        expansions.push(cached);
+      } else {
+        toFetch.push(ref);
+      }
+    }
+    if (toFetch.length === 0) {
+      return expansions;
+    }
+
+    const loaded = await this.executionData.fetchValueSetExpansions(toFetch);
+    const errors: string[] = [];
+    loaded.forEach((result, i) => {
+      if (result.error) {
+        errors.push(`${result.name}: ${result.error}`);
+        return;
+      }
+      const expansion = this.expansion(toFetch[i], result.rows);
+      this.valueSetCache.set(`${toFetch[i].url}|${toFetch[i].version ?? ''}`, expansion);
+      expansions.push(expansion);
+    });
+    if (errors.length) {
+      throw new Error(`Value sets could not be expanded: ${errors.join('; ')}`);
+    }
+    return expansions;
+  }
+
+  private expansion(
+    ref: ValueSetReference,
+    rows: Array<{ code?: unknown; system?: unknown; version?: unknown; display?: unknown }>
+  ): LocalValueSetExpansion {
+    return {
+      url: ref.url,
+      version: ref.version,
+      codes: rows
+        .filter(row => row.code && row.system)
+        .map(row => ({
+          code: String(row.code),
+          system: String(row.system),
+          version: row.version ? String(row.version) : undefined,
+          display: row.display ? String(row.display) : undefined
+        }))
+    };
+  }
+}
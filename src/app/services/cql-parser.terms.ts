@@ -0,0 +1,206 @@
+// This file was generated by lezer-generator. You probably shouldn't edit it.
+export const
+  LineComment = 1,
+  BlockComment = 2,
+  Library = 3,
+  LibraryDefinition = 4,
+  Identifier = 5,
+  library = 6,
+  QualifiedIdentifier = 7,
+  QuotedIdentifier = 8,
+  DelimitedIdentifier = 9,
+  VersionClause = 11,
+  version = 12,
+  String = 13,
+  UsingDefinition = 14,
+  using = 15,
+  CalledClause = 16,
+  called = 17,
+  Alias = 18,
+  IncludeDefinition = 19,
+  include = 20,
+  CodeSystemDefinition = 21,
+  AccessModifier = 22,
+  _public = 23,
+  _private = 24,
+  codesystem = 25,
+  DefinitionName = 26,
+  is = 27,
+  as = 28,
+  ValueSetDefinition = 30,
+  valueset = 31,
+  codesystems = 32,
+  CodeDefinition = 36,
+  code = 37,
+  from = 38,
+  DisplayClause = 39,
+  display = 40,
+  ConceptDefinition = 41,
+  concept = 42,
+  ParameterDefinition = 43,
+  parameter = 44,
+  TypeSpecifier = 45,
+  NamedType = 46,
+  TypeName = 47,
+  Code = 48,
+  Concept = 49,
+  List = 50,
+  Interval = 53,
+  Choice = 54,
+  Tuple = 55,
+  TupleElementDefinition = 56,
+  _default = 57,
+  _true = 59,
+  _false = 60,
+  _null = 62,
+  Temporal = 63,
+  Quantity = 64,
+  Number = 65,
+  DateTimePrecision = 66,
+  year = 67,
+  month = 68,
+  week = 69,
+  day = 70,
+  hour = 71,
+  minute = 72,
+  second = 73,
+  millisecond = 74,
+  years = 75,
+  months = 76,
+  weeks = 77,
+  days = 78,
+  hours = 79,
+  minutes = 80,
+  seconds = 81,
+  milliseconds = 82,
+  Retrieve = 86,
+  CodePath = 88,
+  CodeComparator = 89,
+  _in = 90,
+  Terminology = 93,
+  ParenthesizedExpression = 96,
+  MemberExpression = 97,
+  PropertyName = 98,
+  start = 99,
+  end = 100,
+  CallExpression = 101,
+  ArgList = 102,
+  IndexExpression = 103,
+  InstanceSelector = 104,
+  TupleElement = 105,
+  IntervalSelector = 106,
+  ListSelector = 107,
+  TupleSelector = 108,
+  CodeSelector = 109,
+  ConceptSelector = 110,
+  ExtractorExpression = 111,
+  width = 112,
+  successor = 113,
+  predecessor = 114,
+  of = 115,
+  singleton = 116,
+  point = 117,
+  date = 118,
+  time = 119,
+  timezoneoffset = 120,
+  duration = 121,
+  difference = 122,
+  between = 123,
+  and = 124,
+  minimum = 125,
+  maximum = 126,
+  convert = 127,
+  to = 128,
+  cast = 129,
+  CaseExpression = 130,
+  _case = 131,
+  CaseItem = 132,
+  when = 133,
+  then = 134,
+  _else = 135,
+  Query = 136,
+  AliasedSource = 137,
+  QueryClause = 138,
+  _let = 139,
+  LetItem = 140,
+  _with = 141,
+  without = 142,
+  such = 143,
+  that = 144,
+  where = 145,
+  _return = 146,
+  all = 147,
+  aggregate = 148,
+  starting = 149,
+  sort = 150,
+  SortDirection = 151,
+  asc = 152,
+  ascending = 153,
+  desc = 154,
+  descending = 155,
+  by = 156,
+  SortItem = 157,
+  ArithmeticExpression = 158,
+  div = 162,
+  mod = 163,
+  UnaryExpression = 167,
+  ListExpression = 168,
+  distinct = 169,
+  flatten = 170,
+  collapse = 171,
+  expand = 172,
+  per = 173,
+  TypeExpression = 174,
+  BooleanTest = 175,
+  not = 176,
+  NotExpression = 177,
+  exists = 178,
+  BetweenExpression = 179,
+  properly = 180,
+  ComparisonExpression = 181,
+  CompareOp = 182,
+  TimingExpression = 185,
+  TimingOperator = 186,
+  starts = 187,
+  ends = 188,
+  occurs = 189,
+  same = 190,
+  or = 191,
+  before = 192,
+  after = 193,
+  includes = 194,
+  PrecisionOf = 195,
+  during = 196,
+  included = 197,
+  QuantityOffset = 198,
+  less = 199,
+  more = 200,
+  than = 201,
+  on = 202,
+  within = 203,
+  meets = 204,
+  overlaps = 205,
+  EqualityExpression = 206,
+  EqualOp = 207,
+  MembershipExpression = 210,
+  contains = 211,
+  LogicalExpression = 212,
+  xor = 213,
+  implies = 214,
+  SetExpression = 215,
+  union = 217,
+  intersect = 218,
+  except = 219,
+  IfExpression = 220,
+  _if = 221,
+  ContextDefinition = 222,
+  context = 223,
+  ExpressionDefinition = 224,
+  define = 225,
+  FunctionDefinition = 226,
+  fluent = 227,
+  _function = 228,
+  ParamList = 229,
+  OperandDefinition = 230,
+  returns = 231,
+  external = 232
@@ -0,0 +1,25 @@
+// This file was generated by lezer-generator. You probably shouldn't edit it.
+import {LRParser} from "@lezer/lr"
+import {cqlHighlighting} from "./cql-highlight"
+const spec_Identifier = {__proto__:null,library:12, version:25, using:30, called:35, include:40, public:46, private:48, codesystem:51, is:54, as:56, valueset:62, codesystems:65, code:75, from:76, display:81, concept:85, parameter:88, Code:96, Concept:98, List:100, Interval:106, Choice:108, Tuple:110, default:115, true:118, false:120, null:124, year:134, month:136, week:138, day:140, hour:142, minute:144, second:146, millisecond:148, years:150, months:152, weeks:154, days:156, hours:158, minutes:160, seconds:162, milliseconds:164, in:180, start:198, end:200, width:224, successor:226, predecessor:228, of:230, singleton:232, point:234, date:237, time:239, timezoneoffset:240, duration:242, difference:244, between:246, and:248, minimum:250, maximum:252, convert:254, to:256, cast:258, case:262, when:266, then:268, else:270, let:278, with:282, without:284, such:286, that:288, where:290, return:292, all:294, aggregate:296, starting:298, sort:300, asc:305, ascending:307, desc:309, descending:311, by:313, div:324, mod:326, distinct:338, flatten:340, collapse:342, expand:344, per:346, not:352, exists:356, properly:360, starts:374, ends:376, occurs:378, same:380, or:382, before:384, after:386, includes:388, during:392, included:394, less:398, more:400, than:402, on:404, within:406, meets:408, overlaps:410, contains:422, xor:426, implies:428, union:434, intersect:436, except:438, if:442, context:447, define:450, fluent:454, function:456, returns:462, external:464}
+export const parser = LRParser.deserialize({
+  version: 14,
+  states: "!EpQ!QQPOOOOQO'#Hq'#HqOOQO'#H`'#H`Q]QPOOQ]QPOOO!XQPO'#C`O!XQPO'#CjO!XQPO'#CoOOQO'#Cr'#CrO!dQPO'#CqO!uQPO'#DXO!dQPO'#CzO!dQPO'#DQO!dQPO'#DVO!dQPO'#DXO!XQPO'#HSO#WQPO'#HUOOQO-E;^-E;^OOQO'#Hp'#HpO#hQPO'#CcO)aQPO,58zO*[QPO,59UO+YQPO,59ZOOQO'#Cv'#CvO,WQPO,59]O!dQPO,59]O!dQPO,59fO!dQPO,59lO!dQPO,59qO!dQPO,59sO,]QPO,59fO,bQPO,59lO,gQPO,59qO-ZQPO,59sO.WQPO,5=nO/RQPO,5=pO/WQPO,5=pO!dQPO,5=rO/bQPO,5=rO!XQPO'#H_O/gQPO,58}O5`QPO'#CgOOQO1G.f1G.fO!XQPO'#ClOOQO1G.p1G.pO5eQPO1G.pOOQO1G.u1G.uO6`QPO1G.uO7ZQPO1G.wO7`QPO1G.wO7eQPO1G/QO7jQPO1G/WO7oQPO1G/]O7tQPO1G/_O8qQPO1G/QO8vQPO1G/WO8{QPO1G/]OOQO'#D]'#D]O9QQPO'#D[OOQO'#DZ'#DZO>vQPO'#DZO>{QPO'#DZO?QQPO'#DZO?VQPO1G/_OBkQPO1G/_O!XQPO1G3YO?VQPO1G3[OCfQPO1G3[O!dQPO1G3^OCkQPO1G3^OCpQPO1G3^OOQO,5=y,5=yOOQO-E;]-E;]OOQO,59R,59ROOQO'#Cn'#CnOOQO,59W,59WOOQO7+$[7+$[OOQO7+$a7+$aOCuQPO7+$cODpQPO7+$cODuQPO7+$lODzQPO7+$rOEPQPO7+$wO?VQPO7+$yOE|QPO7+$yOFTQPO7+$lOGRQPO7+$rO!XQPO7+$wOGWQPO'#HbOGiQPO,59vO,lQPO,59uO,lQPO,59uO!XQPO,59uONcQPO'#DnO!&^QPO'#HwOOQO'#Hw'#HwOGWQPO'#EUO?VQPO'#E`O!,hQPO'#HuO!1dQPO'#EkOOQO'#Hv'#HvOOQO'#FY'#FYO!1nQPO7+$yO?VQPO'#FyOOQO'#Hu'#HuOOQO'#Dh'#DhOOQO'#Dk'#DkOOQO'#Dp'#DpO!5XQPO'#EjO!5aQPO'#EkO!5iQPO'#ElO!5nQPO'#EmO!5sQPO'#EnO!5xQPO'#EoO!5}QPO'#EoO!6SQPO'#EoOGWQPO'#EoO!6XQPO'#EoO!6XQPO'#EoO!8}QPO'#FSO!6XQPO'#FYO?VQPO'#FzO!9UQPO'#FzO?VQPO'#GTO!9xQPO'#HQOOQO7+(t7+(tO!>TQPO7+(vO?VQPO7+(vOCpQPO7+(xO!dQPO7+(xO!>}QPO'#HZO!?]QPO7+(xOOQO<<G}<<G}O!?eQPO<<G}O!AZQPO<<HWO!AbQPO<<H^O!XQPO<<HcO!AgQPO<<HeO?VQPO<<HeO!BaQPO<<HWO!@`QPO<<HWO!XQPO<<H^O!BfQPO'#HrO!BnQPO<<HcOOQO,5=|,5=|OOQO-E;`-E;`O!BsQPO1G/aO!BxQPO'#HsO,lQPO'#DfO!CQQPO'#HtO!CYQPO1G/aOOQO,5:Y,5:YOOQO'#Hx'#HxO!C_QPO,5:mO!CdQQO,5:pO!CrQPO,5:pO!G`QPO,5:zO!GjQPO,5:{O!HRQPO'#EfOOQO,5;P,5;PO!9xQPO,5;RO!XQPO,5;SOOQO,5;u,5;uO!LaQPO'#HzO!LkQPO'#HvO#!rQPO'#H{O#!zQPO,5;VO##PQPO,5;WO?VQPO,5<[O?VQPO,5<[O?VQPO,5<[OOQO'#GY'#GYO?VQPO,5<sO##UQPO'#GjOOQO'#G^'#G^O?VQPO,5<wOOQO'#Gs'#GsO?VQPO,5=^O?VQPO,5=gO!XQPO,5;vO!6XQPO,5;vO?VQPO,5;vO##dQPO,5;vO##kQPO,5;vO##yQPO,5;vO#$[QPO,5<lO,lQPO,5<lO!6XQPO,5<qO#$lQPO,5<qO#$zQPO'#GjO#%kQPO'#H}O#%uQPO'#H}O#(sQPO'#H}O#(xQPO'#H}O#+yQPO'#H}O#,OQPO'#H}O!C_QPO'#H}O#,ZQPO'#H}O#0YQPO'#G^O?VQPO,5=bO?VQPO,5=dO?VQPO,5=dO?VQPO,5=dOOQO,5<e,5<eO!9xQPO,5;UO!1gQPO,5;VO,lQPO,5;VO#0aQPO,5;WO#0oQPO,5;XO#0tQPO,5;YO!6XQPO,5;ZOM_QPO,5;ZOOQO,5;Z,5;ZO#0yQPO,5;ZO#1[QPO,5;ZOOQO'#Hh'#HhO#1mQPO,5;nO#1uQPO,5;nO!9xQPO'#FUO!,PQPO'#FZO#1|QPO,5;tO#;TQPO,5<fO#;qQPO,5<fO#@oQPO,5<oO#A]QPO,5=lO#DQQPO<<LbO#DzQPO<<LdOCpQPO<<LdO,lQPO'#H[O#ESQPO'#IOO#E[QPO,5=uO#EaQPO<<LdO,lQPO<<LdOOQOAN=iAN=iO#EhQPOAN=rO#EmQPOAN=rO!XQPOAN=xO#FhQPOAN=}O#FmQPOAN>PO!XQPOAN=rO#GgQPOAN=xO!XQPO'#HaO#HbQPO,5>^O#HjQPOAN=}OOQO7+${7+${O,lQPO'#HcO#IeQPO,5>_OOQO,5:Q,5:QO!XQPO'#HdO#ImQPO,5>`OOQO1G0X1G0XOGWQPO1G0[OOQO1G0[1G0[O!XQPO1G0[OOQO1G0f1G0fOOQO'#Eb'#EbOOQO1G0g1G0gOOQO'#Hy'#HyO#IuQPO,5;QO#IzQPO1G0mO#LoQPO'#EiO#LtQPO1G0nO?VQPO'#HeO#LyQPO,5>fO?VQPO,5;TO!XQPO'#HfO#MRQPO,5>gOOQO1G0q1G0qOOQO1G0r1G0rOOQO1G1v1G1vO$#}QPO1G1vO$(lQPO1G1vO$-^QPO1G2_O$-zQPO,5=UO$2aQPO1G2cO$2}QPO1G2xO$6}QPO1G3RO$:}QPO'#F^O$?sQPO1G1bO$?zQPO1G1bO$@PQPO1G1bO?VQPO1G1bO$DPQPO1G1bO!XQPO1G1bOOQO'#Fi'#FiOOQO1G1b1G1bO!6XQPO1G1bOOQO1G2W1G2WOOQO1G2X1G2XO$DXQPO1G2XO$DdQPO1G2]O!6XQPO1G2]O$DuQPO,5>iO$GsQPO,5>iO!C_QPO,5=UOOQO,5>i,5>iO$GxQPO,5>iO$HQQPO,5>iO$HYQPO'#GgO$H_QPO,5>iO$HdQPO,5>iO$HlQPO,5>iO$KmQPO,5>iO$KrQPO,5>iO#$oQPO'#H}OOQO,5<x,5<xO$KwQPO1G2|O% wQPO'#GgO?VQPO1G2|O%!PQPO1G3OO%&PQPO1G3OO%*PQPO1G3OO%.PQPO1G0pO%0tQPO1G0qO%0yQPO1G0qO%1OQPO1G0rO!XQPO1G0sO%1TQPO'#H|O%1]QPO1G0tO%1bQPO1G0uO%7QQPO1G0uO%7YQPO1G0uO,lQPO1G0uOOQO-E;f-E;fO?VQPO1G1YO%7aQPO1G1YO%7iQPO,5;pO!6XQPO'#HiO%:^QPO1G1`O%?WQPO1G2QO?VQPO1G3WO%?_QPOANBOO,lQPOANBOO%?fQPOANBOOOQO,5=v,5=vO!XQPO'#HlO%?nQPO,5>jOOQO1G3a1G3aO%?vQPOANBOOOQOANBOANBOO%@pQPOANBOO!XQPOG23^O%@uQPOG23^O%@zQPOG23dO%AuQPOG23iO%BpQPOG23^O%BuQPO'#DTOOQOG23dG23dOOQO,5={,5={OOQO-E;_-E;_OOQOG23iG23iOOQO,5=},5=}OOQO-E;a-E;aOOQO,5>O,5>OOOQO-E;b-E;bO%BzQPO7+%vO%CSQPO'#EWO%B}QPO7+%vO%CbQPO7+%vOOQO1G0l1G0lOOQO7+&X7+&XOOQO7+&Y7+&YO%CmQPO,5>POOQO-E;c-E;cO%CwQPO1G0oOOQO,5>Q,5>QOOQO-E;d-E;dOOQO1G2p1G2pO?VQPO,5;xO!XQPO'#HjO%HrQPO7+&|O%HyQPO7+&|O%IOQPO7+&|O?VQPO7+&|O%MOQPO7+&|O%MZQPO7+&|O%McQPO'#FoO&$uQPO7+&|OOQO7+'s7+'sO!6XQPO7+'wO&%PQPO7+'wOOQO1G4T1G4TO&%bQPO1G4TO&(`QPO1G4TOOQO,5=R,5=RO&(hQPO1G4TO&+iQPO1G4TO&+nQPO1G4TO&+vQPO7+(hO?VQPO7+&[OOQO7+&]7+&]O&/vQPO7+&]OOQO7+&^7+&^O&/{QPO7+&_O#0tQPO'#HgO&5nQPO,5>hO&5vQPO7+&`O!6XQPO7+&aO!6XQPO7+&aOOQO7+&a7+&aO&;iQPO7+&tO?VQPO7+&tO?VQPO1G1[OOQO,5>T,5>TOOQO-E;g-E;gOOQO7+'l7+'lO&;pQPO7+(rO&;wQPOG27jOOQOG27jG27jO&<qQPOG27jO&<vQPOG27jO,lQPOG27jOOQO,5>W,5>WOOQO-E;j-E;jO&<}QPOLD(xO!XQPOLD(xOOQOLD)OLD)OOOQOLD)TLD)TOOQOLD(xLD(xOOQO,59o,59oOOQO<<Ib<<IbO!XQPO<<IbOOQO'#EX'#EXO!XQPO<<IbOOQO7+&|7+&|O&=SQPO1G1dOOQO,5>U,5>UOOQO-E;h-E;hO?VQPO<<JhO&>fQPO<<JhO&BfQPO<<JhO&BkQPO<<JhOOQO,5<Z,5<ZO!6XQPO'#HkO&DjQPO<<JhO&GqQPO<<KcO!6XQPO<<KcOOQO7+)o7+)oO&LwQPO7+)oO&L|QPO7+)oO' zQPO7+)oO'${QPO<<IvO!1gQPO<<IwOOQO<<Iy<<IyOOQO,5>R,5>ROOQO-E;e-E;eOOQO<<Iz<<IzO'%VQPO<<I{O'*uQPO<<I{OOQO<<J`<<J`O'+WQPO<<J`O'+_QPO7+&vO?VQPO<<L^O'+iQPOLD-UO'+pQPOLD-UOOQOLD-ULD-UO',jQPOLD-UOOQO!$'Ld!$'LdO',oQPO!$'LdO',tQPOAN>|O%CbQPOAN>|OOQO'#E]'#E]POQO<<Jh<<JhO',yQPOAN@SO?VQPOAN@SO'0yQPOAN@SOOQO,5>V,5>VOOQO-E;i-E;iO'1OQPOAN@}O'6UQPO<<MZOOQO<<MZ<<MZO'9SQPO<<MZOOQOAN?bAN?bO'9XQPOAN?cO!6XQPOAN?gOOQOAN?zAN?zO'=kQPOANAxO'>XQPO!$(!pOOQO!$(!p!$(!pO'?RQPO!$(!pOOQO!)9BO!)9BOOOQOG24hG24hO!XQPOG24hO'?YQPOG25nO?VQPOG25nOOQOANBuANBuO'CYQPOANBuOOQOG24}G24}O'FWQPOG25RO'KvQPO!)9F[OOQO!)9F[!)9F[O'LpQPOLD*SO'LuQPOLD+YOOQOG28aG28aOOQO!$'Mn!$'MnO!XQPO,5;vO(!uQPO,5<fO!6XQPO1G1bO!9UQPO'#FzO!9UQPO'#GTO!9xQPO'#GTO!9UQPO,5<[O!9xQPO,5<[O!9UQPO,5<[O!9xQPO,5<[O!9UQPO,5<[O!9xQPO,5<[P!9UQPO,5<sO!9xQPO,5<sP!9UQPO,5<wO!9xQPO,5<wP!9UQPO,5=^O!9xQPO,5=^P!9UQPO,5=gO!9xQPO,5=gP!9UQPO,5;vO!9xQPO,5;vP(#fQPO,5;vO($]QPO,5;vO(%SQPO,5;vP!9UQPO,5=bO!9xQPO,5=bP!9UQPO,5=dO!9xQPO,5=dP!9UQPO,5=dO!9xQPO,5=dP!9UQPO,5=dO!9xQPO,5=dO(&PQPO,5<fO()^QPO,5<oO()}QPO,5<oO!9xQPO'#HeO(-[QPO,5>fO(-dQPO1G1vO(1VQPO1G1vO(1gQPO1G1vO(1}QPO1G1vP(2_QPO1G2_O(3XQPO1G2_P(6fQPO1G2cO(7lQPO1G2cP(:yQPO1G2xO(=RQPO1G2xP(@PQPO1G3RO(BwQPO1G3RP(EuQPO1G1bO(HyQPO1G1bP!9UQPO1G1bO!9xQPO1G1bP(KwQPO1G2|O(N]QPO1G2|P!9UQPO1G2|O!9xQPO1G2|P)#ZQPO1G3OO)%uQPO1G3OP)(sQPO1G3OO)+bQPO1G3OP).`QPO1G3OO)1WQPO1G3OO)4UQPO,5>PO!9xQPO,5;xP!9UQPO,5;xP)6|QPO7+&|O):QQPO7+&|P!9UQPO7+&|O!9xQPO7+&|P)=OQPO7+(hO)?dQPO7+(hO)BbQPO1G1dP)EYQPO1G1dP!9UQPO<<JhO!9xQPO<<JhP)HsQPO<<JhO)KwQPO<<JhO!9UQPO<<L^O!9xQPO<<L^P)NuQPOAN@SO*#yQPOAN@SP!9UQPOAN@SO!9xQPOAN@SO*&wQPOANAxO*'hQPOANAxP**uQPOG25nO*-yQPOG25nP!9UQPOG25nO!9xQPOG25nP*0wQPOLD+YO*3{QPOLD+YO!9UQPO'#FyO!9xQPO'#FyO!9xQPO'#FzO*6yQPO'#HzO*9qQPO'#F^P*9vQPO'#F^P*9{QPO1G1bO*:TQPO1G1bO!XQPO'#HjP!XQPO'#HjO*=wQPO7+&|P*>OQPO7+&|P*>VQPO7+&|O*>[QPO7+&|P*>aQPO7+&|O*>iQPO7+&|O*>qQPO7+(rO*>xQPO7+(rP*?PQPO<<JhO*?UQPO<<JhP*?ZQPOAN@SO*?`QPOAN@SP!XQPO,5;vO!XQPO,5;vO!XQPO,5;vP!XQPO,5;vP*?eQPO,5;vO*?sQPO,5;vO*CmQPO1G1bP*CtQPO1G1bP*C{QPO1G1bO*DQQPO1G1bP!XQPO1G1bO!XQPO1G1bO?VQPO1G3WO?VQPO1G3WP*DVQPO7+&|O*DbQPO7+&|P*DmQPO<<JhO*DxQPO<<JhP!6XQPO,5;vO!6XQPO,5;vO*ETQPO,5=lO*GxQPO,5=lO!9xQPO'#HQO!9xQPO'#HQ",
+  stateData: "*Jq~O&cOSPOSQOS~O_UOdVOgWOhWOiXOoZOu[Oz]O|^O%w_O%y`O~OUTO~P]OTbOWbOXbO~OTbOWbOXbOkgOlgO~OiiOojOukOzlO|mO~OgWOhWO%{vO%|uO~P!dOYwO[VX_VXdVXgVXhVXiVXoVXuVXzVX|VX%wVX%yVX&aVXaVXrVXsVXxVX!vVX!|VX!}VX#OVXTVXWVXXVXkVXlVXqVX!TVX!UVX!cVX!wVX#RVX#oVX#pVX$PVX$RVX$SVX$VVX$WVX$YVX$[VX$eVX$fVX$gVX$hVX$iVX$jVX$kVX$lVX$zVX$}VX%OVX%RVX%SVX%TVX%UVX%VVX%WVX%XVX%YVX%[VX%]VX%_VX%`VX%bVX%cVX%dVX%eVX%hVX%iVX%kVX%mVX%nVX%pVX%qVX%rVX%sVX#QVX#tVX#yVX$sVX#zVX$^VX$_VX$`VX$aVX#WVX#{VX~O[yO_SadSagSahSaiSaoSauSazSa|Sa%wSa%ySa&aSa~O[yOa{O_^ad^ag^ah^ai^ao^au^az^a|^a%w^a%y^a&a^a~O[yOa{O_cadcagcahcaicaocaucazca|ca%wca%yca&aca~Om!QO~Om!WO~Om!XO~Om!YO~OTbOWbOXbO!Q!ZO!R!ZO!S!^O!V!^O!W!_O!X!`O~O!Z!aO_{ad{ag{ah{ai{ao{au{az{a|{a%w{a%y{a&a{a~P,lOY!cO_%vad%vag%vah%vai%vao%vau%vaz%va|%va%w%va%y%va&a%va~Om!dO~O%{!gO%|!fO~P!dO%|!fO~OYwO[Va_VadVagVahVaiVaoVauVazVa|Va%wVa%yVa&aVaaVarVasVaxVa!vVa!|Va!}Va#OVaTVaWVaXVakValVaqVa!TVa!UVa!cVa!wVa#RVa#oVa#pVa$PVa$RVa$SVa$VVa$WVa$YVa$[Va$eVa$fVa$gVa$hVa$iVa$jVa$kVa$lVa$zVa$}Va%OVa%RVa%SVa%TVa%UVa%VVa%WVa%XVa%YVa%[Va%]Va%_Va%`Va%bVa%cVa%dVa%eVa%hVa%iVa%kVa%mVa%nVa%pVa%qVa%rVa%sVa#QVa#tVa#yVa$sVa#zVa$^Va$_Va$`Va$aVa#WVa#{Va~O]!kO~Oa{O_^id^ig^ih^ii^io^iu^iz^i|^i%w^i%y^i&a^i~Oa{O_cidcigcihciiciociucizci|ci%wci%yci&aci~O]!pO~Om!qO~Om!rO~Om!sO~Om!tO~O!Z!uO_{id{ig{ih{ii{io{iu{iz{i|{i%w{i%y{i&a{i~P,lO]!wO~O]!xO~Oq!yO~OY!zO_!OXd!OXg!OXh!OXi!OXo!OXu!OXz!OX|!OX!Z!OX%w!OX%y!OX&a!OX!U!OXr!OXm!OX!v!OXT!OXW!OXX!OXk!OXl!OXq!OX!T!OX!c!OX!w!OX!|!OX!}!OX#O!OX#R!OX#o!OX#p!OX$P!OX$R!OX$S!OX$V!OX$W!OX$Y!OX$[!OX$e!OX$f!OX$g!OX$h!OX$i!OX$j!OX$k!OX$l!OX$z!OX$}!OX%O!OX%R!OX%S!OX%T!OX%U!OX%V!OX%W!OX%X!OX%Y!OX%[!OX%]!OX%_!OX%`!OX%b!OX%c!OX%d!OX%e!OX%h!OX%i!OX%k!OX%m!OX%n!OX%p!OX%q!OX%r!OX%s!OXs!OX#Q!OX#t!OX#y!OX$s!OX#z!OX$^!OX$_!OX$`!OX$a!OX#W!OX#{!OX~O!T!|O~O!T!}O~Oq#OO~OTbOWbOXbO]#ROq#VOv#lO!Q#cO!R#dO!S#aO!V#`O!X#bO!]#]O!^#]O!`#^O!a#RO!c#PO!e#_O!f#_O!g#_O!h#_O!i#_O!j#_O!k#_O!l#_O!w#SO#R#TO#V#eO#W#eO#d#eO#e#eO#f#eO#h#fO#i#fO#j#fO#k#fO#l#fO#m#gO#n#gO#q#hO#r#hO#s#iO#u#jO#w#kO$j#ZO$k#ZO$o#mO$p#mO$q#nO$r#nO$v#oO$x#oO%u#pO~O!Z!uO_{id{ig{ih{ii{io{iu{iz{i|{i%w{i%y{i&a{i~Om#sO~O%|#uO~O#R#vO~O[yO_eqdeqgeqheqieqoequeqzeq|eq%weq%yeq&aeq~O]#yO~O]#zO~O]#{O~Oq#|O~O_{qd{qg{qh{qi{qo{qu{qz{q|{q%w{q%y{q&a{q~O!Z$OO~PEUO[yOp$PO_nqdnqgnqhnqinqonqunqznq|nq%wnq%ynq&anq~Ov$RO~OTbOWbOXbO!Q!ZO!R!ZO~OY!zO_!Oad!Oag!Oah!Oai!Oao!Oau!Oaz!Oa|!Oa!Z!Oa%w!Oa%y!Oa&a!Oa!U!Oar!Oam!Oa!v!OaT!OaW!OaX!Oak!Oal!Oaq!Oa!T!Oa!c!Oa!w!Oa!|!Oa!}!Oa#O!Oa#R!Oa#o!Oa#p!Oa$P!Oa$R!Oa$S!Oa$V!Oa$W!Oa$Y!Oa$[!Oa$e!Oa$f!Oa$g!Oa$h!Oa$i!Oa$j!Oa$k!Oa$l!Oa$z!Oa$}!Oa%O!Oa%R!Oa%S!Oa%T!Oa%U!Oa%V!Oa%W!Oa%X!Oa%Y!Oa%[!Oa%]!Oa%_!Oa%`!Oa%b!Oa%c!Oa%d!Oa%e!Oa%h!Oa%i!Oa%k!Oa%m!Oa%n!Oa%p!Oa%q!Oa%r!Oa%s!Oas!Oa#Q!Oa#t!Oa#y!Oa$s!Oa#z!Oa$^!Oa$_!Oa$`!Oa$a!Oa#W!Oa#{!Oa~O!e#_O!f#_O!g#_O!h#_O!i#_O!j#_O!k#_O!l#_O!m$^O!n$^O!o$^O!p$^O!q$^O!r$^O!s$^O!t$^O~O]$]OT!bXW!bXX!bXY!bX_!bXd!bXg!bXh!bXi!bXk!bXl!bXm!bXo!bXq!bXu!bXz!bX|!bX!T!bX!U!bX!c!bX!w!bX!|!bX!}!bX#O!bX#R!bX#o!bX#p!bX$P!bX$R!bX$S!bX$V!bX$W!bX$Y!bX$[!bX$e!bX$f!bX$g!bX$h!bX$i!bX$j!bX$k!bX$l!bX$z!bX$}!bX%O!bX%R!bX%S!bX%T!bX%U!bX%V!bX%W!bX%X!bX%Y!bX%[!bX%]!bX%_!bX%`!bX%b!bX%c!bX%d!bX%e!bX%h!bX%i!bX%k!bX%m!bX%n!bX%p!bX%q!bX%r!bX%s!bX%w!bX%y!bX&a!bX#Q!bXr!bXs!bX#t!bX#y!bX$s!bX#z!bX!v!bX#g!bX$^!bX$_!bX$`!bX$a!bX#W!bX#{!bX~PM_Om$_OT&kXW&kXX&kXY&kX_&kXd&kXg&kXh&kXi&kXk&kXl&kXo&kXq&kXu&kXz&kX|&kX!T&kX!U&kX!c&kX!w&kX!|&kX!}&kX#O&kX#R&kX#o&kX#p&kX$P&kX$R&kX$S&kX$V&kX$W&kX$Y&kX$[&kX$e&kX$f&kX$g&kX$h&kX$i&kX$j&kX$k&kX$l&kX$z&kX$}&kX%O&kX%R&kX%S&kX%T&kX%U&kX%V&kX%W&kX%X&kX%Y&kX%[&kX%]&kX%_&kX%`&kX%b&kX%c&kX%d&kX%e&kX%h&kX%i&kX%k&kX%m&kX%n&kX%p&kX%q&kX%r&kX%s&kX%w&kX%y&kX&a&kX#Q&kXr&kXs&kX#t&kX#y&kX$s&kX#z&kX!v&kX$^&kX$_&kX$`&kX$a&kX#W&kX#{&kX~OTbOWbOXbOY$cOq$gO!w$fO#R$dO~O_&iXd&iXg&iXh&iXi&iXk&iXl&iXo&iXu&iXz&iX|&iX!T&iX!U&iX!c&iX!|&iX!}&iX#O&iX#o&iX#p&iX$P&iX$R&iX$S&iX$V&iX$W&iX$Y&iX$[&iX$e&iX$f&iX$g&iX$h&iX$i&iX$j&iX$k&iX$l&iX$z&iX$}&iX%O&iX%R&iX%S&iX%T&iX%U&iX%V&iX%W&iX%X&iX%Y&iX%[&iX%]&iX%_&iX%`&iX%b&iX%c&iX%d&iX%e&iX%h&iX%i&iX%k&iX%m&iX%n&iX%p&iX%q&iX%r&iX%s&iX%w&iX%y&iX&a&iX#Q&iXr&iXs&iX#y&iX$s&iX#z&iX!v&iX#W&iX#{&iX~P!,POm$mOs&nP~P?VOk%POl%QO!T$qO!U$qO!c#PO!|%_O!}$vO#O$vO#o%RO#p%`O$P$yO$R$zO$S$zO$V${O$W$|O$Y$}O$[%OO$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V%aO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO~PEUO!w%dO#R%dO~Oq%eO!T%fO~Oq%gO~O]%hO~Oq%iO~O#g%jO~Ov%jO~O!|%kO~OTbOWbOXbO]#ROq#VO!Q#cO!R#dO!S#aO!V#`O!X#bO!]#]O!^#]O!`#^O!a#RO!c#PO!e#_O!f#_O!g#_O!h#_O!i#_O!j#_O!k#_O!l#_O!w#SO#R#TO#V#eO#W#eO#d#eO#e#eO#f#eO#h#fO#i#fO#j#fO#k#fO#l#fO#m#gO#n#gO#q#hO#r#hO#s#iO#u#jO#w#kO~O#y%rO~P?VOv#lO$j-tO$k-tO$o+vO$p+vO$q+vO$r+vO$v+wO$x+wO%u.rO~P!6XOv#lO$j-uO$k-uO$o-vO$p-vO$q#nO$r#nO$v+xO$x+xO%u.sO~P!6XOk%POl%QO!T$qO!U$qO!c#PO!|%_O!}$vO#O$vO#o%RO#p%`O$P$yO$R$zO$S$zO$V${O$W$|O$Y$}O$[%OO$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V%aO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO~O_%xqd%xqg%xqh%xqi%xqo%xqu%xqz%xq|%xq%w%xq%y%xq&a%xq~P!:lOTbOWbOXbO#Q&rP~Om&PO&P&QO~O[yO_eydeygeyheyieyoeyueyzey|ey%wey%yey&aey~Op&SO_nydnygnyhnyinyonyunyzny|ny%wny%yny&any~O[yO~P!@`Ov&UO~O_{yd{yg{yh{yi{yo{yu{yz{y|{y%w{y%y{y&a{y~P!:lOq&XO~Or&ZOs&fX~Os&]O~O!U&^O~Or&_O!U&gX~Or&bOs&hX~Os&^O~O!c#PO~O!y&eOY!PXm!PX!v!PX~Om&gO!v&fO~Ok%POl%QO!T$qO!U$qO!c#PO!|%_O!}$vO#O$vO#o%RO#p%`O$R$zO$S$zO$V${O$W$|O$Y$}O$[%OO$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V%aO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO~O#Q&hO$P.^O~P!CzOTbOWbOXbO!Q&kO!R&kO#V&kO#W&kO~Ov#lO$j-uO$k-uO$o-vO$p-vO$q#nO$r#nO$v+xO$x+xO%u.sO#Q&nP~P!6XOk%POl%QO!T$qO!U$qO!c#PO!|%_O!}$vO#O$vO#o%RO#p%`O$P+sO$R$zO$S$zO$V${O$W$|O$Y$}O$[,]O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V%aO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO~Or&pOs&nX~P!HxOm&rOT&jXW&jXX&jXY&jXk&jXl&jXq&jXr&jXs&jX!T&jX!U&jX!c&jX!w&jX!|&jX!}&jX#O&jX#R&jX#o&jX#p&jX$P&jX$R&jX$S&jX$V&jX$W&jX$Y&jX$[&jX$e&jX$f&jX$g&jX$h&jX$i&jX$j&jX$k&jX$l&jX$z&jX$}&jX%O&jX%R&jX%S&jX%T&jX%U&jX%V&jX%W&jX%X&jX%Y&jX%[&jX%]&jX%_&jX%`&jX%b&jX%c&jX%d&jX%e&jX%h&jX%i&jX%k&jX%m&jX%n&jX%p&jX%q&jX%r&jX%s&jX~Or&sOs&oX~Os&uO~Os&vO~O%V&{O%W%^X%X%^X%b%^X~O$X'TO~P?VOTbOWbOXbO$X'VO~O$^'WO$_'WO$`'WO$a'WO$b'YO~O!]'[O!^'[O!`'[O$v']O~P,lO#o'_O%Y'`O%['`O%]'aO~O%a'bO~O!e#_O!f#_O!g#_O!h#_O!i#_O!j#_O!k#_O!l#_O~Ol'cO%V'dO~P#%POT&qXW&qXX&qX]&qXq&qXv&qX!Q&qX!R&qX!S&qX!V&qX!X&qX!]&qX!^&qX!`&qX!a&qX!c&qX!w&qX#R&qX#V&qX#W&qX#d&qX#e&qX#f&qX#h&qX#i&qX#j&qX#k&qX#l&qX#m&qX#n&qX#q&qX#r&qX#s&qX#u&qX#w&qX$j&qX$k&qX$o&qX$p&qX$q&qX$r&qX$v&qX$x&qX%u&qX~P#%PO!|'`O~O%V'gOT&qXW&qXX&qX]&qXq&qXv&qX!Q&qX!R&qX!S&qX!V&qX!X&qX!]&qX!^&qX!`&qX!a&qX!c&qX!w&qX#R&qX#V&qX#W&qX#d&qX#e&qX#f&qX#h&qX#i&qX#j&qX#k&qX#l&qX#m&qX#n&qX#q&qX#r&qX#s&qX#u&qX#w&qX$j&qX$k&qX$o&qX$p&qX$q&qX$r&qX$v&qX$x&qX%u&qX~P#%PO%V'hO~O%W'iO%X'iO%b'jO~O%W'`O%X'`OT&qXW&qXX&qX]&qXq&qXv&qX!Q&qX!R&qX!S&qX!V&qX!X&qX!]&qX!^&qX!`&qX!a&qX!c&qX!w&qX#R&qX#V&qX#W&qX#d&qX#e&qX#f&qX#h&qX#i&qX#j&qX#k&qX#l&qX#m&qX#n&qX#q&qX#r&qX#s&qX#u&qX#w&qX$j&qX$k&qX$o&qX$p&qX$q&qX$r&qX$v&qX$x&qX%u&qX~P#%PO!c#PO%U%UO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O~O$z'lO~P#/_OTbOWbOXbOm'wO~Ov'xO~O!Q#cO~OY$cOq$gO!w$fO#R$dO#t'}O~OY$cOl(OOq$gO!w$fO#R$dO~O#y%rO#{(QO~O#y%rO~P!:lOr(TO_#|ad#|ag#|ah#|ai#|ak#|al#|ao#|au#|az#|a|#|a!T#|a!U#|a!c#|a!|#|a!}#|a#O#|a#o#|a#p#|a$P#|a$R#|a$S#|a$V#|a$W#|a$Y#|a$[#|a$e#|a$f#|a$g#|a$h#|a$i#|a$j#|a$k#|a$l#|a$z#|a$}#|a%O#|a%R#|a%S#|a%T#|a%U#|a%V#|a%W#|a%X#|a%Y#|a%[#|a%]#|a%_#|a%`#|a%b#|a%c#|a%d#|a%e#|a%h#|a%i#|a%k#|a%m#|a%n#|a%p#|a%q#|a%r#|a%s#|a%w#|a%y#|a&a#|a#Q#|as#|a#y#|a$s#|a#z#|a!v#|a#W#|a#{#|a~O_$nad$nag$nah$nai$nak$nal$nao$nau$naz$na|$na!T$na!U$na!c$na!|$na!}$na#O$na#o$na#p$na$P$na$R$na$S$na$V$na$W$na$Y$na$[$na$z$na$}$na%O$na%R$na%S$na%T$na%U$na%V$na%W$na%X$na%Y$na%[$na%]$na%_$na%`$na%b$na%c$na%d$na%e$na%h$na%i$na%k$na%m$na%n$na%p$na%q$na%r$na%s$na%w$na%y$na&a$na#Q$nar$nas$na#y$na#W$na#{$na!v$na#z$na~O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO~P#6vO$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$s(VO~P#6vOk%POl%QO_$wad$wag$wah$wai$wao$wau$waz$wa|$wa!T$wa!U$wa!c$wa!|$wa!}$wa#O$wa#o$wa#p$wa$P$wa$R$wa$S$wa$V$wa$W$wa$Y$wa$[$wa$z$wa$}$wa%O$wa%R$wa%S$wa%T$wa%U$wa%V$wa%W$wa%X$wa%Y$wa%[$wa%]$wa%_$wa%`$wa%b$wa%c$wa%d$wa%e$wa%h$wa%i$wa%k$wa%m$wa%n$wa%p$wa%q$wa%r$wa%s$wa%w$wa%y$wa&a$wa#Q$war$was$wa#y$wa#W$wa#{$wa!v$wa#z$wa~O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO~P#<bOk%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO#z(WO$P$yO$R.oO$S.oO$V,YO$W,[O$Y.aO$[%OO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO~P#/_O_%xyd%xyg%xyh%xyi%xyo%xyu%xyz%xy|%xy%w%xy%y%xy&a%xy~P!:lOm(XO&P(YO~Or(]O#Q&rX~O#Q(_O~O&Q(aO~P?VOq(cO~Op(dO_n!Rdn!Rgn!Rhn!Rin!Ron!Run!Rzn!R|n!R%wn!R%yn!R&an!R~Os(fO~O_{!Rd{!Rg{!Rh{!Ri{!Ro{!Ru{!Rz{!R|{!R%w{!R%y{!R&a{!R~P!:lOx(hO_t!Rdt!Rgt!Rht!Rit!Rot!Rut!Rzt!R|t!R%wt!R%yt!R&at!R~Or&ZOs&fa~Ox(hO_y!Rdy!Rgy!Rhy!Riy!Roy!Ruy!Rzy!R|y!R%wy!R%yy!R&ay!R~Or&_O!U&ga~Or&bOs&ha~O#Q(uO~Ok%POl%QO!T$qO!U$qO!v(vO!|,_O!}$vO#O$vO#o%RO#p,aO$P$yO$R.oO$S.oO$V,YO$W,[O$Y.aO$[%OO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO~P#/_Om&rO~Os(wO~Or&pOs&na~Or&sOs&oa~O_$did$dig$dih$dii$dik$dil$dio$diu$diz$di|$di!T$di!U$di!c$di!|$di!}$di#O$di#o$di#p$di$P$di$R$di$S$di$V$di$W$di$Y$di$[$di$f$di$g$di$h$di$i$di$j$di$k$di$l$di$z$di$}$di%O$di%R$di%S$di%T$di%U$di%V$di%W$di%X$di%Y$di%[$di%]$di%_$di%`$di%b$di%c$di%d$di%e$di%h$di%i$di%k$di%m$di%n$di%p$di%q$di%r$di%s$di%w$di%y$di&a$di#Q$dir$dis$di#y$di#W$di#{$di!v$di#z$di~O$e$nO~P#MZO_$did$dig$dih$dii$dik$dil$dio$diu$diz$di|$di!T$di!U$di!c$di!|$di!}$di#O$di#o$di#p$di$P$di$R$di$S$di$V$di$W$di$Y$di$[$di$j$di$k$di$l$di$z$di$}$di%O$di%R$di%S$di%T$di%U$di%V$di%W$di%X$di%Y$di%[$di%]$di%_$di%`$di%b$di%c$di%d$di%e$di%h$di%i$di%k$di%m$di%n$di%p$di%q$di%r$di%s$di%w$di%y$di&a$di#Q$dir$dis$di#y$di#W$di#{$di!v$di#z$di~O$e$nO$f$oO$g$oO$h$oO$i$oO~P$$UOk%POl%QO#o%RO$z%SO_${id${ig${ih${ii${io${iu${iz${i|${i!T${i!U${i!c${i!|${i!}${i#O${i#p${i$P${i$R${i$S${i$V${i$W${i$Y${i$[${i$}${i%O${i%R${i%S${i%T${i%U${i%V${i%W${i%X${i%Y${i%[${i%]${i%_${i%`${i%b${i%c${i%d${i%e${i%h${i%i${i%k${i%m${i%n${i%p${i%q${i%r${i%s${i%w${i%y${i&a${i#Q${ir${is${i#y${i#W${i#{${i!v${i#z${i~O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO~P$)PO%_(}O%`(}O~Ok%POl%QO!T$qO!U$qO#o%RO$z%SO$}$qO%O$qO_%Pid%Pig%Pih%Pii%Pio%Piu%Piz%Pi|%Pi!c%Pi!|%Pi!}%Pi#O%Pi#p%Pi$P%Pi$R%Pi$S%Pi$V%Pi$W%Pi$Y%Pi$[%Pi%R%Pi%S%Pi%T%Pi%U%Pi%V%Pi%W%Pi%X%Pi%Y%Pi%[%Pi%]%Pi%_%Pi%`%Pi%b%Pi%c%Pi%d%Pi%e%Pi%h%Pi%i%Pi%k%Pi%m%Pi%n%Pi%p%Pi%q%Pi%r%Pi%s%Pi%w%Pi%y%Pi&a%Pi#Q%Pir%Pis%Pi#y%Pi#W%Pi#{%Pi!v%Pi#z%Pi~O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO~P$.SOk%POl%QO!T$qO!U$qO#o%RO$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O_%fid%fig%fih%fii%fio%fiu%fiz%fi|%fi!|%fi!}%fi#O%fi#p%fi$P%fi$R%fi$S%fi$V%fi$W%fi$Y%fi$[%fi%V%fi%h%fi%i%fi%k%fi%m%fi%n%fi%p%fi%q%fi%r%fi%s%fi%w%fi%y%fi&a%fi#Q%fir%fis%fi#y%fi#W%fi#{%fi!v%fi#z%fi~P#/_Ok%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO#p%`O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V%aO%h$vO%i$vO%k%_O%m%aO%n%bO_%oid%oig%oih%oii%oio%oiu%oiz%oi|%oi$P%oi$R%oi$S%oi$V%oi$W%oi$Y%oi$[%oi%p%oi%q%oi%r%oi%s%oi%w%oi%y%oi&a%oi#Q%oir%ois%oi#y%oi#W%oi#{%oi!v%oi#z%oi~P#/_Om)OO~O_$Oid$Oig$Oih$Oii$Oik$Oil$Oio$Oiu$Oiz$Oi|$Oi!T$Oi!U$Oi!c$Oi!|$Oi!}$Oi#O$Oi#o$Oi#p$Oi$P$Oi$R$Oi$S$Oi$V$Oi$W$Oi$Y$Oi$[$Oi$e$Oi$f$Oi$g$Oi$h$Oi$i$Oi$j$Oi$k$Oi$l$Oi$z$Oi$}$Oi%O$Oi%R$Oi%S$Oi%T$Oi%U$Oi%V$Oi%W$Oi%X$Oi%Y$Oi%[$Oi%]$Oi%_$Oi%`$Oi%b$Oi%c$Oi%d$Oi%e$Oi%h$Oi%i$Oi%k$Oi%m$Oi%n$Oi%p$Oi%q$Oi%r$Oi%s$Oi%w$Oi%y$Oi&a$Oi#y$Oi#z$Oi!v$Oi#W$Oi#{$Oi#Q$Oi~Or)PO~P$;SO$T)RO~Ok%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO#p%`O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V%aO%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO_$Oid$Oig$Oih$Oii$Oio$Oiu$Oiz$Oi|$Oi$P$Oi$R$Oi$S$Oi$V$Oi$W$Oi$Y$Oi$[$Oi%w$Oi%y$Oi&a$Oi#Q$Oir$Ois$Oi#y$Oi#W$Oi#{$Oi!v$Oi#z$Oi~P#/_Om)TO$Z)UO~O!])YO!^)YO!`)YO~OY$cOq$gO!w$fO#R$dO#p)ZO~OT&qaW&qaX&qa]&qaq&qav&qa!Q&qa!R&qa!S&qa!V&qa!X&qa!]&qa!^&qa!`&qa!a&qa!c&qa!w&qa#R&qa#V&qa#W&qa#d&qa#e&qa#f&qa#h&qa#i&qa#j&qa#k&qa#l&qa#m&qa#n&qa#q&qa#r&qa#s&qa#u&qa#w&qa$j&qa$k&qa$o&qa$p&qa$q&qa$r&qa$v&qa$x&qa%u&qa~P#%PO!|)^O~O%W)]O%X)]O~Ol)]O%V)_O~O#g)`O~O%b)^O~O%W)aO%X)aO~O%V)bOT&qaW&qaX&qa]&qaq&qav&qa!Q&qa!R&qa!S&qa!V&qa!X&qa!]&qa!^&qa!`&qa!a&qa!c&qa!w&qa#R&qa#V&qa#W&qa#d&qa#e&qa#f&qa#h&qa#i&qa#j&qa#k&qa#l&qa#m&qa#n&qa#q&qa#r&qa#s&qa#u&qa#w&qa$j&qa$k&qa$o&qa$p&qa$q&qa$r&qa$v&qa$x&qa%u&qa~P#%PO%V)cO~O#g)]O~Ok%POl%QO!T$qO!U$qO!}$vO#O$vO#o%RO$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%h$vO%i$vO_%jid%jig%jih%jii%jio%jiu%jiz%ji|%ji!|%ji#p%ji$P%ji$R%ji$S%ji$V%ji$W%ji$Y%ji$[%ji%V%ji%k%ji%m%ji%n%ji%p%ji%q%ji%r%ji%s%ji%w%ji%y%ji&a%ji#Q%jir%jis%ji#y%ji#W%ji#{%ji!v%ji#z%ji~P#/_Ov%jO#g)`O~Ok%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%h$vO%i$vO%k%_O_%lid%lig%lih%lii%lio%liu%liz%li|%li#p%li$P%li$R%li$S%li$V%li$W%li$Y%li$[%li%V%li%m%li%n%li%p%li%q%li%r%li%s%li%w%li%y%li&a%li#Q%lir%lis%li#y%li#W%li#{%li!v%li#z%li~P#/_Ok%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO#p%`O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%h$vO%i$vO%k%_O_%lid%lig%lih%lii%lio%liu%liz%li|%li$P%li$R%li$S%li$V%li$W%li$Y%li$[%li%V%li%m%li%n%li%p%li%q%li%r%li%s%li%w%li%y%li&a%li#Q%lir%lis%li#y%li#W%li#{%li!v%li#z%li~P#/_Ok%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO#p%`O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V%aO%h$vO%i$vO%k%_O%m%aO%n%bO_%lid%lig%lih%lii%lio%liu%liz%li|%li$P%li$R%li$S%li$V%li$W%li$Y%li$[%li%p%li%q%li%r%li%s%li%w%li%y%li&a%li#Q%lir%lis%li#y%li#W%li#{%li!v%li#z%li~P#/_Ok%POl%QOr)eO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$P.]O$R.oO$S.oO$V,YO$W,[O$Y.aO$[,]O$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO~P#/_Os)fO~O!U)gO~Os)hO~Or)jOs&pX~Os)lO~OY$cOq$gO!w$fO#R$dOT#ciW#ciX#ci_#cid#cig#cih#cii#cik#cil#cio#ciu#ciz#ci|#ci!T#ci!U#ci!c#ci!|#ci!}#ci#O#ci#o#ci#p#ci$P#ci$R#ci$S#ci$V#ci$W#ci$Y#ci$[#ci$e#ci$f#ci$g#ci$h#ci$i#ci$j#ci$k#ci$l#ci$z#ci$}#ci%O#ci%R#ci%S#ci%T#ci%U#ci%V#ci%W#ci%X#ci%Y#ci%[#ci%]#ci%_#ci%`#ci%b#ci%c#ci%d#ci%e#ci%h#ci%i#ci%k#ci%m#ci%n#ci%p#ci%q#ci%r#ci%s#ci%w#ci%y#ci&a#ci#Q#cir#cis#ci#t#ci#y#ci$s#ci#z#ci!v#ci$^#ci$_#ci$`#ci$a#ci#W#ci#{#ci~O#g)mO#o)nO~O])oO~P,lO#y%rO#{)qO~Ok%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO#z)rO$P$yO$R.oO$S.oO$V,YO$W,[O$Y.aO$[%OO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO~P#/_Or(TO_#|id#|ig#|ih#|ii#|ik#|il#|io#|iu#|iz#|i|#|i!T#|i!U#|i!c#|i!|#|i!}#|i#O#|i#o#|i#p#|i$P#|i$R#|i$S#|i$V#|i$W#|i$Y#|i$[#|i$e#|i$f#|i$g#|i$h#|i$i#|i$j#|i$k#|i$l#|i$z#|i$}#|i%O#|i%R#|i%S#|i%T#|i%U#|i%V#|i%W#|i%X#|i%Y#|i%[#|i%]#|i%_#|i%`#|i%b#|i%c#|i%d#|i%e#|i%h#|i%i#|i%k#|i%m#|i%n#|i%p#|i%q#|i%r#|i%s#|i%w#|i%y#|i&a#|i#Q#|is#|i#y#|i$s#|i#z#|i!v#|i#W#|i#{#|i~O!c#PO~P#%PO&Q)xO~P?VOm)zO&P){O~Or(]O#Q&ra~O_%z!Rd%z!Rg%z!Rh%z!Ri%z!Ro%z!Ru%z!Rz%z!R|%z!R%w%z!R%y%z!R&a%z!R~P!:lOm)zO~Oq*PO~Ox(hO_t!Zdt!Zgt!Zht!Zit!Zot!Zut!Zzt!Z|t!Z%wt!Z%yt!Z&at!Z~Ox(hO_y!Zdy!Zgy!Zhy!Ziy!Zoy!Zuy!Zzy!Z|y!Z%wy!Z%yy!Z&ay!Z~Os*SO~O]*TO~Om*VO!v*UO~O!v#PX!|!zX!}!zX#O!zX~O!|*WO!}*WO#O*WO~Or&Xas&Xa~P!HxOr#]is#]i~P!HxO_$Oqd$Oqg$Oqh$Oqi$Oqk$Oql$Oqo$Oqu$Oqz$Oq|$Oq!T$Oq!U$Oq!c$Oq!|$Oq!}$Oq#O$Oq#o$Oq#p$Oq$P$Oq$R$Oq$S$Oq$V$Oq$W$Oq$Y$Oq$[$Oq$e$Oq$f$Oq$g$Oq$h$Oq$i$Oq$j$Oq$k$Oq$l$Oq$z$Oq$}$Oq%O$Oq%R$Oq%S$Oq%T$Oq%U$Oq%V$Oq%W$Oq%X$Oq%Y$Oq%[$Oq%]$Oq%_$Oq%`$Oq%b$Oq%c$Oq%d$Oq%e$Oq%h$Oq%i$Oq%k$Oq%m$Oq%n$Oq%p$Oq%q$Oq%r$Oq%s$Oq%w$Oq%y$Oq&a$Oq#y$Oq#z$Oq!v$Oq#W$Oq#{$Oq#Q$Oq~Or)PO~P%DRO$U*^O~Ok%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO#p%`O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V%aO%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO_$Oqd$Oqg$Oqh$Oqi$Oqo$Oqu$Oqz$Oq|$Oq$P$Oq$R$Oq$S$Oq$V$Oq$W$Oq$Y$Oq$[$Oq%w$Oq%y$Oq&a$Oq#Q$Oqr$Oqs$Oq#y$Oq#W$Oq#{$Oq!v$Oq#z$Oq~P#/_O]*`O!c#PO#R#TO~Om*^O$Z*aO~OY$cOq$gO!w$fO#R$dO$^'WO$_'WO$`'WO$a'WO_$cXd$cXg$cXh$cXi$cXk$cXl$cXo$cXr$cXu$cXz$cX|$cX!T$cX!U$cX!c$cX!|$cX!}$cX#O$cX#o$cX#p$cX$P$cX$R$cX$S$cX$V$cX$W$cX$Y$cX$[$cX$e$cX$f$cX$g$cX$h$cX$i$cX$j$cX$k$cX$l$cX$z$cX$}$cX%O$cX%R$cX%S$cX%T$cX%U$cX%V$cX%W$cX%X$cX%Y$cX%[$cX%]$cX%_$cX%`$cX%b$cX%c$cX%d$cX%e$cX%h$cX%i$cX%k$cX%m$cX%n$cX%p$cX%q$cX%r$cX%s$cX%w$cX%y$cX&a$cX#Q$cXs$cX#y$cX$s$cX#z$cX!v$cX#W$cX#{$cX~Or*cO$s$Oq~P%DROY$cOq$gO!w$fO#R$dO#p*fO~OT&qiW&qiX&qi]&qiq&qiv&qi!Q&qi!R&qi!S&qi!V&qi!X&qi!]&qi!^&qi!`&qi!a&qi!c&qi!w&qi#R&qi#V&qi#W&qi#d&qi#e&qi#f&qi#h&qi#i&qi#j&qi#k&qi#l&qi#m&qi#n&qi#q&qi#r&qi#s&qi#u&qi#w&qi$j&qi$k&qi$o&qi$p&qi$q&qi$r&qi$v&qi$x&qi%u&qi~P#%PO%W*gO%X*gO~O%V*hOT&qiW&qiX&qi]&qiq&qiv&qi!Q&qi!R&qi!S&qi!V&qi!X&qi!]&qi!^&qi!`&qi!a&qi!c&qi!w&qi#R&qi#V&qi#W&qi#d&qi#e&qi#f&qi#h&qi#i&qi#j&qi#k&qi#l&qi#m&qi#n&qi#q&qi#r&qi#s&qi#u&qi#w&qi$j&qi$k&qi$o&qi$p&qi$q&qi$r&qi$v&qi$x&qi%u&qi~P#%PO%b*iO~O%W*jO%X*jO~Ok%POl%QO!T$qO!U$qO!}$vO#O$vO#o%RO$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%h$vO%i$vO_%jqd%jqg%jqh%jqi%jqo%jqu%jqz%jq|%jq!|%jq#p%jq$P%jq$R%jq$S%jq$V%jq$W%jq$Y%jq$[%jq%V%jq%k%jq%m%jq%n%jq%p%jq%q%jq%r%jq%s%jq%w%jq%y%jq&a%jq#Q%jqr%jqs%jq#y%jq#W%jq#{%jq!v%jq#z%jq~P#/_Oq*lO~Ox(hOT#aqW#aqX#aqY#aq_#aqd#aqg#aqh#aqi#aqk#aql#aqo#aqq#aqu#aqz#aq|#aq!T#aq!U#aq!c#aq!w#aq!|#aq!}#aq#O#aq#R#aq#o#aq#p#aq$P#aq$R#aq$S#aq$V#aq$W#aq$Y#aq$[#aq$e#aq$f#aq$g#aq$h#aq$i#aq$j#aq$k#aq$l#aq$z#aq$}#aq%O#aq%R#aq%S#aq%T#aq%U#aq%V#aq%W#aq%X#aq%Y#aq%[#aq%]#aq%_#aq%`#aq%b#aq%c#aq%d#aq%e#aq%h#aq%i#aq%k#aq%m#aq%n#aq%p#aq%q#aq%r#aq%s#aq%w#aq%y#aq&a#aq#Q#aqr#aqs#aq#t#aq#y#aq$s#aq#z#aq!v#aq$^#aq$_#aq$`#aq$a#aq#W#aq#{#aq~Or)jOs&pa~Ox(hOT#bqW#bqX#bqY#bq_#bqd#bqg#bqh#bqi#bqk#bql#bqo#bqq#bqu#bqz#bq|#bq!T#bq!U#bq!c#bq!w#bq!|#bq!}#bq#O#bq#R#bq#o#bq#p#bq$P#bq$R#bq$S#bq$V#bq$W#bq$Y#bq$[#bq$e#bq$f#bq$g#bq$h#bq$i#bq$j#bq$k#bq$l#bq$z#bq$}#bq%O#bq%R#bq%S#bq%T#bq%U#bq%V#bq%W#bq%X#bq%Y#bq%[#bq%]#bq%_#bq%`#bq%b#bq%c#bq%d#bq%e#bq%h#bq%i#bq%k#bq%m#bq%n#bq%p#bq%q#bq%r#bq%s#bq%w#bq%y#bq&a#bq#Q#bqr#bqs#bq#t#bq#y#bq$s#bq#z#bq!v#bq$^#bq$_#bq$`#bq$a#bq#W#bq#{#bq~O#W*sO~P!:lO#{*vO~P!:lO_%z!Zd%z!Zg%z!Zh%z!Zi%z!Zo%z!Zu%z!Zz%z!Z|%z!Z%w%z!Z%y%z!Z&a%z!Z~P!:lOm*wO~O&Q*yO~P?VOs*{O~O_$Qid$Qig$Qih$Qii$Qio$Qir$Qiu$Qiz$Qi|$Qi%w$Qi%y$Qi&a$Qis$Qi#y$Qi#z$Qi!v$Qi#W$Qi#{$Qi#Q$Qi~P!HxOk%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO#p%`O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V%aO%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO_$Oyd$Oyg$Oyh$Oyi$Oyo$Oyu$Oyz$Oy|$Oy$P$Oy$R$Oy$S$Oy$V$Oy$W$Oy$Y$Oy$[$Oy%w$Oy%y$Oy&a$Oy#Q$Oyr$Oys$Oy#y$Oy#W$Oy#{$Oy!v$Oy#z$Oy~P#/_Om+SO~O]+TO!c#PO#R#TO~O_$Oyd$Oyg$Oyh$Oyi$Oyo$Oyu$Oyz$Oy|$Oy$P$Oy$R$Oy$S$Oy$V$Oy$W$Oy$Y$Oy$[$Oy%w$Oy%y$Oy&a$Oy#Q$Oy#y$Oy$s$Oy#z$Oy!v$Oy#W$Oy#{$Oy~Or*cOk$Oyl$Oy!T$Oy!U$Oy!c$Oy!|$Oy!}$Oy#O$Oy#o$Oy#p$Oy$e$Oy$f$Oy$g$Oy$h$Oy$i$Oy$j$Oy$k$Oy$l$Oy$z$Oy$}$Oy%O$Oy%R$Oy%S$Oy%T$Oy%U$Oy%V$Oy%W$Oy%X$Oy%Y$Oy%[$Oy%]$Oy%_$Oy%`$Oy%b$Oy%c$Oy%d$Oy%e$Oy%h$Oy%i$Oy%k$Oy%m$Oy%n$Oy%p$Oy%q$Oy%r$Oy%s$Oy~P&BvOY$cOq$gO!w$fO#R$dO_$yyd$yyg$yyh$yyi$yyk$yyl$yyo$yyu$yyz$yy|$yy!T$yy!U$yy!c$yy!|$yy!}$yy#O$yy#o$yy#p$yy$P$yy$R$yy$S$yy$V$yy$W$yy$Y$yy$[$yy$e$yy$f$yy$g$yy$h$yy$i$yy$j$yy$k$yy$l$yy$z$yy$}$yy%O$yy%R$yy%S$yy%T$yy%U$yy%V$yy%W$yy%X$yy%Y$yy%[$yy%]$yy%_$yy%`$yy%b$yy%c$yy%d$yy%e$yy%h$yy%i$yy%k$yy%m$yy%n$yy%p$yy%q$yy%r$yy%s$yy%w$yy%y$yy&a$yy#Q$yyr$yys$yy#y$yy$s$yy#z$yy!v$yy#W$yy#{$yy~O%b+XO~OT&qqW&qqX&qq]&qqq&qqv&qq!Q&qq!R&qq!S&qq!V&qq!X&qq!]&qq!^&qq!`&qq!a&qq!c&qq!w&qq#R&qq#V&qq#W&qq#d&qq#e&qq#f&qq#h&qq#i&qq#j&qq#k&qq#l&qq#m&qq#n&qq#q&qq#r&qq#s&qq#u&qq#w&qq$j&qq$k&qq$o&qq$p&qq$q&qq$r&qq$v&qq$x&qq%u&qq~P#%PO%V+ZOT&qqW&qqX&qq]&qqq&qqv&qq!Q&qq!R&qq!S&qq!V&qq!X&qq!]&qq!^&qq!`&qq!a&qq!c&qq!w&qq#R&qq#V&qq#W&qq#d&qq#e&qq#f&qq#h&qq#i&qq#j&qq#k&qq#l&qq#m&qq#n&qq#q&qq#r&qq#s&qq#u&qq#w&qq$j&qq$k&qq$o&qq$p&qq$q&qq$r&qq$v&qq$x&qq%u&qq~P#%PO!v+[O#Q+[O~P!:lOY$cOq$gO!w$fO#R$dOT#cyW#cyX#cy_#cyd#cyg#cyh#cyi#cyk#cyl#cyo#cyu#cyz#cy|#cy!T#cy!U#cy!c#cy!|#cy!}#cy#O#cy#o#cy#p#cy$P#cy$R#cy$S#cy$V#cy$W#cy$Y#cy$[#cy$e#cy$f#cy$g#cy$h#cy$i#cy$j#cy$k#cy$l#cy$z#cy$}#cy%O#cy%R#cy%S#cy%T#cy%U#cy%V#cy%W#cy%X#cy%Y#cy%[#cy%]#cy%_#cy%`#cy%b#cy%c#cy%d#cy%e#cy%h#cy%i#cy%k#cy%m#cy%n#cy%p#cy%q#cy%r#cy%s#cy%w#cy%y#cy&a#cy#Q#cyr#cys#cy#t#cy#y#cy$s#cy#z#cy!v#cy$^#cy$_#cy$`#cy$a#cy#W#cy#{#cy~OY$cOq$gO!w$fO#R$dO#p+^O~O#W+_O~P!:lO#y#xq#{#xq~P!:lO&Q+bO~P?VO_%z!cd%z!cg%z!ch%z!ci%z!co%z!cu%z!cz%z!c|%z!c%w%z!c%y%z!c&a%z!c~P!:lOm+cO~Os+dO~O!v+eO~Ok%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO#p%`O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V%aO%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO_$O!Rd$O!Rg$O!Rh$O!Ri$O!Ro$O!Ru$O!Rz$O!R|$O!R$P$O!R$R$O!R$S$O!R$V$O!R$W$O!R$Y$O!R$[$O!R%w$O!R%y$O!R&a$O!R#Q$O!Rr$O!Rs$O!R#y$O!R#W$O!R#{$O!R!v$O!R#z$O!R~P#/_Om+hO~OY$cOq$gO!w$fO#R$dO_$y!Rd$y!Rg$y!Rh$y!Ri$y!Rk$y!Rl$y!Ro$y!Ru$y!Rz$y!R|$y!R!T$y!R!U$y!R!c$y!R!|$y!R!}$y!R#O$y!R#o$y!R#p$y!R$P$y!R$R$y!R$S$y!R$V$y!R$W$y!R$Y$y!R$[$y!R$e$y!R$f$y!R$g$y!R$h$y!R$i$y!R$j$y!R$k$y!R$l$y!R$z$y!R$}$y!R%O$y!R%R$y!R%S$y!R%T$y!R%U$y!R%V$y!R%W$y!R%X$y!R%Y$y!R%[$y!R%]$y!R%_$y!R%`$y!R%b$y!R%c$y!R%d$y!R%e$y!R%h$y!R%i$y!R%k$y!R%m$y!R%n$y!R%p$y!R%q$y!R%r$y!R%s$y!R%w$y!R%y$y!R&a$y!R#Q$y!Rr$y!Rs$y!R#y$y!R$s$y!R#z$y!R!v$y!R#W$y!R#{$y!R~OT&qyW&qyX&qy]&qyq&qyv&qy!Q&qy!R&qy!S&qy!V&qy!X&qy!]&qy!^&qy!`&qy!a&qy!c&qy!w&qy#R&qy#V&qy#W&qy#d&qy#e&qy#f&qy#h&qy#i&qy#j&qy#k&qy#l&qy#m&qy#n&qy#q&qy#r&qy#s&qy#u&qy#w&qy$j&qy$k&qy$o&qy$p&qy$q&qy$r&qy$v&qy$x&qy%u&qy~P#%PO%b+jO~Os+kO~O_%t!Rd%t!Rg%t!Rh%t!Ri%t!Rk%t!Rl%t!Ro%t!Ru%t!Rz%t!R|%t!R!T%t!R!U%t!R!c%t!R!|%t!R!}%t!R#O%t!R#o%t!R#p%t!R$P%t!R$R%t!R$S%t!R$V%t!R$W%t!R$Y%t!R$[%t!R$z%t!R$}%t!R%O%t!R%R%t!R%S%t!R%T%t!R%U%t!R%V%t!R%W%t!R%X%t!R%Y%t!R%[%t!R%]%t!R%_%t!R%`%t!R%b%t!R%c%t!R%d%t!R%e%t!R%h%t!R%i%t!R%k%t!R%m%t!R%n%t!R%p%t!R%q%t!R%r%t!R%s%t!R%w%t!R%y%t!R&a%t!R#Q%t!Rr%t!Rs%t!R#y%t!R#W%t!R#{%t!R!v%t!R#z%t!R~O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO~P'9^O_%z!kd%z!kg%z!kh%z!ki%z!ko%z!ku%z!kz%z!k|%z!k%w%z!k%y%z!k&a%z!k~P!:lO&Q+nO~P?VOk%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO#p%`O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V%aO%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO_$O!Zd$O!Zg$O!Zh$O!Zi$O!Zo$O!Zu$O!Zz$O!Z|$O!Z$P$O!Z$R$O!Z$S$O!Z$V$O!Z$W$O!Z$Y$O!Z$[$O!Z%w$O!Z%y$O!Z&a$O!Z#Q$O!Zr$O!Zs$O!Z#y$O!Z#W$O!Z#{$O!Z!v$O!Z#z$O!Z~P#/_OT&q!RW&q!RX&q!R]&q!Rq&q!Rv&q!R!Q&q!R!R&q!R!S&q!R!V&q!R!X&q!R!]&q!R!^&q!R!`&q!R!a&q!R!c&q!R!w&q!R#R&q!R#V&q!R#W&q!R#d&q!R#e&q!R#f&q!R#h&q!R#i&q!R#j&q!R#k&q!R#l&q!R#m&q!R#n&q!R#q&q!R#r&q!R#s&q!R#u&q!R#w&q!R$j&q!R$k&q!R$o&q!R$p&q!R$q&q!R$r&q!R$v&q!R$x&q!R%u&q!R~P#%POY$cOq$gO!w$fO#R$dOT#c!ZW#c!ZX#c!Z_#c!Zd#c!Zg#c!Zh#c!Zi#c!Zk#c!Zl#c!Zo#c!Zu#c!Zz#c!Z|#c!Z!T#c!Z!U#c!Z!c#c!Z!|#c!Z!}#c!Z#O#c!Z#o#c!Z#p#c!Z$P#c!Z$R#c!Z$S#c!Z$V#c!Z$W#c!Z$Y#c!Z$[#c!Z$e#c!Z$f#c!Z$g#c!Z$h#c!Z$i#c!Z$j#c!Z$k#c!Z$l#c!Z$z#c!Z$}#c!Z%O#c!Z%R#c!Z%S#c!Z%T#c!Z%U#c!Z%V#c!Z%W#c!Z%X#c!Z%Y#c!Z%[#c!Z%]#c!Z%_#c!Z%`#c!Z%b#c!Z%c#c!Z%d#c!Z%e#c!Z%h#c!Z%i#c!Z%k#c!Z%m#c!Z%n#c!Z%p#c!Z%q#c!Z%r#c!Z%s#c!Z%w#c!Z%y#c!Z&a#c!Z#Q#c!Zr#c!Zs#c!Z#t#c!Z#y#c!Z$s#c!Z#z#c!Z!v#c!Z$^#c!Z$_#c!Z$`#c!Z$a#c!Z#W#c!Z#{#c!Z~O_%z!sd%z!sg%z!sh%z!si%z!so%z!su%z!sz%z!s|%z!s%w%z!s%y%z!s&a%z!s~P!:lO!v+rO~Ok%POl%QO!T$qO!U$qO!|%_O!}$vO#O$vO#o%RO#p%`O$e$nO$f$oO$g$oO$h$oO$i$oO$j$pO$k$pO$l$pO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V%aO%h$vO%i$vO%k%_O%m%aO%n%bO%p$xO%q$xO%r$xO%s$xO_$O!cd$O!cg$O!ch$O!ci$O!co$O!cu$O!cz$O!c|$O!c$P$O!c$R$O!c$S$O!c$V$O!c$W$O!c$Y$O!c$[$O!c%w$O!c%y$O!c&a$O!c#Q$O!cr$O!cs$O!c#y$O!c#W$O!c#{$O!c!v$O!c#z$O!c~P#/_O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$s$na~P#6vOv#lO$X,yO$j-tO$k-tO$o+vO$p+vO$q+vO$r+vO$v+wO$x+wO%u.rO~P!6XOv#lO$X,zO$j-uO$k-uO$o-vO$p-vO$q#nO$r#nO$v+xO$x+xO%u.sO~P!6XO$^'WO$_'WO$`'WO$a'WO$b+uO~O$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO~Ok$nal$na!T$na!U$na!c$na!|$na!}$na#O$na#o$na#p$na#z$na$P$na$R$na$S$na$V$na$W$na$Y$na$[$na$z$na$}$na%O$na%R$na%S$na%T$na%U$na%V$na%W$na%X$na%Y$na%[$na%]$na%_$na%`$na%b$na%c$na%d$na%e$na%h$na%i$na%k$na%m$na%n$na%p$na%q$na%r$na%s$nar$na#Q$na!v$na~P(%eO$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$s$wa~P#<bOk%POl%QO!T$wa!U$wa!c$wa!|$wa!}$wa#O$wa#o$wa#p$wa#z$wa$P$wa$R$wa$S$wa$V$wa$W$wa$Y$wa$[$wa$z$wa$}$wa%O$wa%R$wa%S$wa%T$wa%U$wa%V$wa%W$wa%X$wa%Y$wa%[$wa%]$wa%_$wa%`$wa%b$wa%c$wa%d$wa%e$wa%h$wa%i$wa%k$wa%m$wa%n$wa%p$wa%q$wa%r$wa%s$war$wa#Q$wa!v$wa~P(%eOr,iO#Q&na~O$e+yO$s$di~P#MZO$e+zOk$dil$di!T$di!U$di!c$di!|$di!}$di#O$di#o$di#p$di#z$di$P$di$R$di$S$di$V$di$W$di$Y$di$[$di$j$di$k$di$l$di$z$di$}$di%O$di%R$di%S$di%T$di%U$di%V$di%W$di%X$di%Y$di%[$di%]$di%_$di%`$di%b$di%c$di%d$di%e$di%h$di%i$di%k$di%m$di%n$di%p$di%q$di%r$di%s$dir$di#Q$di!v$di~O$f$di$g$di$h$di$i$di~P(-nO$e+yO$f+{O$g+{O$h+{O$i+{O$s$di~P$$UO$f+|O$g+|O$h+|O$i+|O~P(-nOk%POl%QO#o%RO$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO~Q${ik%POl%QO#o%RO$z%SO!T${i!U${i!c${i!|${i!}${i#O${i#p${i#z${i$P${i$R${i$S${i$V${i$W${i$Y${i$[${i$}${i%O${i%R${i%S${i%T${i%U${i%V${i%W${i%X${i%Y${i%[${i%]${i%_${i%`${i%b${i%c${i%d${i%e${i%h${i%i${i%k${i%m${i%n${i%p${i%q${i%r${i%s${ir${i#Q${i!v${i~P(%eOk%POl%QO!T$qO!U$qO#o%RO$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO~Q%Pik%POl%QO!T$qO!U$qO#o%RO$z%SO$}$qO%O$qO!c%Pi!|%Pi!}%Pi#O%Pi#p%Pi#z%Pi$P%Pi$R%Pi$S%Pi$V%Pi$W%Pi$Y%Pi$[%Pi%R%Pi%S%Pi%T%Pi%U%Pi%V%Pi%W%Pi%X%Pi%Y%Pi%[%Pi%]%Pi%_%Pi%`%Pi%b%Pi%c%Pi%d%Pi%e%Pi%h%Pi%i%Pi%k%Pi%m%Pi%n%Pi%p%Pi%q%Pi%r%Pi%s%Pir%Pi#Q%Pi!v%Pi~P(%eOk%POl%QO!T$qO!U$qO!c#PO#o%RO$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O~Q%fik%POl%QO!T$qO!U$qO#o%RO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O!|%fi!}%fi#O%fi#p%fi#z%fi$P%fi$R%fi$S%fi$V%fi$W%fi$Y%fi$[%fi%V%fi%h%fi%i%fi%k%fi%m%fi%n%fi%p%fi%q%fi%r%fi%s%fir%fi#Q%fi!v%fi~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V,bO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O%m,bO%n,dO~Q%oik%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO#z%oi$P%oi$R%oi$S%oi$V%oi$W%oi$Y%oi$[%oi%p%oi%q%oi%r%oi%s%oir%oi#Q%oi!v%oi~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V,bO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O%m,bO%n,dO%p,VO%q,VO%r,VO%s,VO~Q$Oik%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO#z$Oi$P$Oi$R$Oi$S$Oi$V$Oi$W$Oi$Y$Oi$[$Oir$Oi#Q$Oi!v$Oi~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!}$vO#O$vO#o%RO$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO~Q%jik%POl%QO!T$qO!U$qO!}$vO#O$vO#o%RO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%h$vO%i$vO!|%ji#p%ji#z%ji$P%ji$R%ji$S%ji$V%ji$W%ji$Y%ji$[%ji%V%ji%k%ji%m%ji%n%ji%p%ji%q%ji%r%ji%s%jir%ji#Q%ji!v%ji~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O~Q%lik%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%h$vO%i$vO%k,_O#p%li#z%li$P%li$R%li$S%li$V%li$W%li$Y%li$[%li%V%li%m%li%n%li%p%li%q%li%r%li%s%lir%li#Q%li!v%li~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O~Q%lik%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%h$vO%i$vO%k,_O#z%li$P%li$R%li$S%li$V%li$W%li$Y%li$[%li%V%li%m%li%n%li%p%li%q%li%r%li%s%lir%li#Q%li!v%li~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V,bO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O%m,bO%n,dO~Q%lik%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO#z%li$P%li$R%li$S%li$V%li$W%li$Y%li$[%li%p%li%q%li%r%li%s%lir%li#Q%li!v%li~P#/_Ok%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$P.]O$R.oO$S.oO$V,YO$W,[O$Y.aO$[,]O$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WOr&Xa#Q&Xa~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V,bO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O%m,bO%n,dO%p,VO%q,VO%r,VO%s,VO~Q$Oqk%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO#z$Oq$P$Oq$R$Oq$S$Oq$V$Oq$W$Oq$Y$Oq$[$Oqr$Oq#Q$Oq!v$Oq~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!}$vO#O$vO#o%RO$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO~Q%jqk%POl%QO!T$qO!U$qO!}$vO#O$vO#o%RO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%h$vO%i$vO!|%jq#p%jq#z%jq$P%jq$R%jq$S%jq$V%jq$W%jq$Y%jq$[%jq%V%jq%k%jq%m%jq%n%jq%p%jq%q%jq%r%jq%s%jqr%jq#Q%jq!v%jq~P#/_Ok%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$P.]O$R.oO$S.oO$V,YO$W,[O$Y.aO$[,]O$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WOr$Qi#Q$Qi~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$P.[O$R.nO$S.nO$V,XO$W,ZO$Y.`O$[,]O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V,bO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O%m,bO%n,dO%p,VO%q,VO%r,VO%s,VO~Q$Qik%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V,bO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O%m,bO%n,dO%p,VO%q,VO%r,VO%s,VO~Q$Oyk%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO#z$Oy$P$Oy$R$Oy$S$Oy$V$Oy$W$Oy$Y$Oy$[$Oyr$Oy#Q$Oy!v$Oy~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V,bO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O%m,bO%n,dO%p,VO%q,VO%r,VO%s,VO~Q$O!Rk%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO#z$O!R$P$O!R$R$O!R$S$O!R$V$O!R$W$O!R$Y$O!R$[$O!Rr$O!R#Q$O!R!v$O!R~P#/_O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$s%t!R~P'9^Ok%t!Rl%t!R!T%t!R!U%t!R!c%t!R!|%t!R!}%t!R#O%t!R#o%t!R#p%t!R#z%t!R$P%t!R$R%t!R$S%t!R$V%t!R$W%t!R$Y%t!R$[%t!R$z%t!R$}%t!R%O%t!R%R%t!R%S%t!R%T%t!R%U%t!R%V%t!R%W%t!R%X%t!R%Y%t!R%[%t!R%]%t!R%_%t!R%`%t!R%b%t!R%c%t!R%d%t!R%e%t!R%h%t!R%i%t!R%k%t!R%m%t!R%n%t!R%p%t!R%q%t!R%r%t!R%s%t!Rr%t!R#Q%t!R!v%t!R~P(%eOk%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V,bO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O%m,bO%n,dO%p,VO%q,VO%r,VO%s,VO~Q$O!Zk%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO#z$O!Z$P$O!Z$R$O!Z$S$O!Z$V$O!Z$W$O!Z$Y$O!Z$[$O!Zr$O!Z#Q$O!Z!v$O!Z~P#/_Ok%POl%QO!T$qO!U$qO!c#PO!|,^O!}$vO#O$vO#o%RO#p,`O$e+yO$f+{O$g+{O$h+{O$i+{O$j+}O$k+}O$l+}O$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%U%UO%V,bO%W%XO%X%XO%Y%VO%[%VO%]%WO%_%TO%`%TO%b%YO%c%[O%d%]O%e%]O%h$vO%i$vO%k,^O%m,bO%n,dO%p,VO%q,VO%r,VO%s,VO~Q$O!ck%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO#z$O!c$P$O!c$R$O!c$S$O!c$V$O!c$W$O!c$Y$O!c$[$O!cr$O!c#Q$O!c!v$O!c~P#/_Ok%POl%QOr,iO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO$P.]O$R.oO$S.oO$V,YO$W,[O$Y.aO$[,]O$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO#Q&nX~P#/_Om-WO~Om-XO~Om-[O$Z.jO~Om-]O$Z.kO~Ok$Oql$Oq!T$Oq!U$Oq!c$Oq!|$Oq!}$Oq#O$Oq#Q$Oq#o$Oq#p$Oq$P$Oq$R$Oq$S$Oq$V$Oq$W$Oq$Y$Oq$[$Oq$e$Oq$f$Oq$g$Oq$h$Oq$i$Oq$j$Oq$k$Oq$l$Oq$z$Oq$}$Oq%O$Oq%R$Oq%S$Oq%T$Oq%U$Oq%V$Oq%W$Oq%X$Oq%Y$Oq%[$Oq%]$Oq%_$Oq%`$Oq%b$Oq%c$Oq%d$Oq%e$Oq%h$Oq%i$Oq%k$Oq%m$Oq%n$Oq%p$Oq%q$Oq%r$Oq%s$Oq~Or-|O~P*:]Or-}O~Q$Oq$U-bO~O$U-cO~Om-bO$Z.lO~Om-cO$Z.mO~O#{-fO~P!:lO#{-gO~P!:lOm-jO~Om-kO~Om-pO~Om-qO~OTbOWbOXbO$X.fO~OTbOWbOXbO$X.gO~Ok$Oil$Oi!T$Oi!U$Oi!c$Oi!|$Oi!}$Oi#O$Oi#Q$Oi#o$Oi#p$Oi$P$Oi$R$Oi$S$Oi$V$Oi$W$Oi$Y$Oi$[$Oi$e$Oi$f$Oi$g$Oi$h$Oi$i$Oi$j$Oi$k$Oi$l$Oi$z$Oi$}$Oi%O$Oi%R$Oi%S$Oi%T$Oi%U$Oi%V$Oi%W$Oi%X$Oi%Y$Oi%[$Oi%]$Oi%_$Oi%`$Oi%b$Oi%c$Oi%d$Oi%e$Oi%h$Oi%i$Oi%k$Oi%m$Oi%n$Oi%p$Oi%q$Oi%r$Oi%s$Oi~Or-|O~P*@ROr-}O~Q$Oi$T.QO~O$T.RO~O].WO!c#PO#R#TO~O].XO!c#PO#R#TO~O].YO!c#PO#R#TO~O].ZO!c#PO#R#TO~Ok%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO#z.hO$P$yO$R.oO$S.oO$V,YO$W,[O$Y.aO$[%OO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO~P#/_Ok%POl%QO!T$qO!U$qO!|,_O!}$vO#O$vO#o%RO#p,aO#z.iO$P$yO$R.oO$S.oO$V,YO$W,[O$Y.aO$[%OO$e+zO$f+|O$g+|O$h+|O$i+|O$j,OO$k,OO$l,OO$z%SO$}$qO%O$qO%R%^O%S%^O%T%^O%V,cO%h$vO%i$vO%k,_O%m,cO%n,eO%p,WO%q,WO%r,WO%s,WO~P#/_OQP$g~",
+  goto: "!5V&sPPPP&tPP&wPPP'mPP(SP(XP(e(SP(S(lPPP(tPPP(SPPPPP(SPP)sP(SP(SP*V+Q+lPPPPPPPP,TP,ZPP,ZPP.|P3|PPPPPPPPPPPPPPPP,ZPP7[P9}:TPPP:ZPP:e7[=jPP7[=m7[7[=|7[7[7[>U7[7[PPPPPPPPPPPPPPPPPP7[P@}PPPATCdATPFSPPPPPPPPPPFgPPPPPFnATPPPPPPPPATATPPPPPATATPATPATPATFwPPATHlPPPPPPPPJdPPKUPPPPPPPATLsPPATPATPPATPPPPATP(SP(SP(SPPNbNkPPNqNw! O! U! [! b! h! r! x!!O!!Y!!`!!n!!tPPP!!z!(^!(c!(r!(u!(x!/_7[!2j!2p!2s!3P!3Y!3]!5SRSOQdTQeUQfVY$S!y#|&X(c*PQ&Y$RQ(e&UQ(j&ZS(r&g*VQ)i'xT+P*X+fQzdQ}eQ!PfQ#x!pQ$Q!wQ&R#yR&T#zVPORSQ|eQ!OfQ!n}R!o!PQ!m{T$h#U%sUYORSRt`QhXQnZQo[Qp]Qq^Qs`Q!RiQ!SjQ!TkQ!UlQ!VmQ!etQ!huQ#t!fR%{#uQ(i&YQ(l&]Q*Q(eQ*R(fQ*m)iR*p)lQ!bqQ!v!VQ$W!|Q$X!}Q&a$YS'Z%P%QQ'v%fQ([%|Q(b&QQ(m&_S)o'}(OQ)y(YR*z){n!]q!V!|!}$Y%P%Q%f%|&Q&_'}(O(Y){Q$a#SQ%l#hR(q&et![q!V!|!}#S#h$Y%P%Q%f%|&Q&_&e'}(O(Y){R$U!zQ$Z#OR(o&b&a#R!a!d!u#T#V#Z#i#j#k#l#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x$z${$|%R%_%`%a%b%d%e%j%r&P&p&r'T'Y'_'p(Q(T(W(X)O)T)Z)e)m)n)q)r)z*^*c*f*l*v*w+S+^+c+h+u+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,^,_,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.n.o.r.s&`#Q!a!d!u#T#V#Z#i#j#k#l#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x$z${$|%R%_%`%a%b%d%e%j%r&P&p&r'T'Y'_'p(Q(T(W(X)O)T)Z)e)m)n)q)r)z*^*c*f*l*v*w+S+^+c+h+u+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,^,_,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.n.o.r.s$W$s#Y#r#}$b$i%^%q%x%y&W&m&}'O'S'n'q'r's't(S(`(x(z)S)d)p)v)w*Z*_*k*t*u*x+R+a+g+m+p,s,t,u,v,w,x,{,|-P-Q-R-S-T-U-V-Y-Z-^-_-`-a-d-e-h-i-n-o-r-s-w.U.V.p.qQ&d$_Q'k%[Q(}'bQ)u(VQ*`)UQ+T*aQ.W.jQ.X.kQ.Y.lR.Z.m&Y#f!a!d!u#T#V#Z#i#j#k#l#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x$z${$|%R%`%a%b%d%e%j%r&P&p&r'T'Y'_'p(Q(T(W(X)O)T)Z)e)m)n)q)r)z*^*c*f*l*v*w+S+^+c+h+u+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.n.o.r.sQ$]#PQ'e%Uf'f%V%X%]'`'i)^)a*i*j+X+jU'o%_,^,_Q'|%kR)u(V&a#W!a!d!u#T#V#Z#i#j#k#l#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x$z${$|%R%_%`%a%b%d%e%j%r&P&p&r'T'Y'_'p(Q(T(W(X)O)T)Z)e)m)n)q)r)z*^*c*f*l*v*w+S+^+c+h+u+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,^,_,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.n.o.r.sQ(t&gR+O*VQ*X(tR+f+OQ(s&gS*}*V*XR+o+f&`#W!a!d!u#T#V#Z#i#j#k#l#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x$z${$|%R%_%`%a%b%d%e%j%r&P&p&r'T'Y'_'p(Q(T(W(X)O)T)Z)e)m)n)q)r)z*^*c*f*l*v*w+S+^+c+h+u+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,^,_,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.n.o.r.sQ*`)UQ+T*aQ.W.jQ.X.kQ.Y.lR.Z.mR&j$ck$e#U%m%n%s'^'{)W)[*e*q*r+W+lU$k#V$g%gR({&s&`#W!a!d!u#T#V#Z#i#j#k#l#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x$z${$|%R%_%`%a%b%d%e%j%r&P&p&r'T'Y'_'p(Q(T(W(X)O)T)Z)e)m)n)q)r)z*^*c*f*l*v*w+S+^+c+h+u+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,^,_,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.n.o.r.sQ'y%iR*n)jX%o#k%p%q(R%k#[!a!d!u#T#V#Z#k#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x${$|%_%`%a%b%d%e%r&P&p&r'T'p(Q(W(X)O)T)e)q)r)z*^*l*v*w+S+c+h+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,^,_,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.r.s%j#X!a!d!u#T#V#Z#k#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x${$|%_%`%a%b%d%e%r&P&p&r'T'p(Q(W(X)O)T)e)q)r)z*^*l*v*w+S+c+h+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,^,_,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.r.sQ%t#lQ'R$zQ)s(TQ.d.nR.e.oQ'Q$yU'X+s.[.]U*[)P-|-}Q.b.^R.c._S'X%O,]R*b)WQ)X'YQ*Y+uR+U*c!l$r#Y#r#}$b$i%q%y&W&|&}'O'S'n'q'r's(`(x(z)S)d)p)v)w*Z*_*k*t*u*x+R+a+g+m+p.U.Vn,P,q,s,u,w,{-P-R-T-Y-^-a-d-h-n-r!P,Q%x&m't(S,r,t,v,x,|-Q-S-U-V-Z-_-`-e-i-o-s-w.p.q!n$u#Y#r#}$b$i%q%y&W&z&|&}'O'S'n'q'r's(`(x(z)S)d)p)v)w*Z*_*k*t*u*x+R+a+g+m+p.U.Vp,R,o,q,s,u,w,{-P-R-T-Y-^-a-d-h-n-r!R,S%x&m't(S,p,r,t,v,x,|-Q-S-U-V-Z-_-`-e-i-o-s-w.p.qU'c%V%X%]Q'p%_S)]'`'iS*g)^)aS+Y*i*jQ+i+XQ+q+jQ,},^R-O,_$X%Z#Y#r#}$b$i%^%q%x%y&W&m&}'O'S'n'q'r's't(S(`(x(z)S)d)p)v)w*Z*_*k*t*u*x+R+a+g+m+p,s,t,u,v,w,x,{,|-P-Q-R-S-T-U-V-Y-Z-^-_-`-a-d-e-h-i-n-o-r-s-w.U.V.p.q!h$w#Y#r#}$b$i%q%y&W'O'S'n'q'r's(`(x(z)S)d)p)v)w*Z*_*k*t*u*x+R+a+g+m+p.U.Vj,T,u,w,{-P-R-T-Y-^-a-d-h-n-r{,U%x&m't(S,v,x,|-Q-S-U-V-Z-_-`-e-i-o-s-w.p.qQ#w!hQ%z#tR(Z%{Q%}#vR)|(]QxcR!jxSROSRaRQ&[$SR(k&[Q!{![R$V!{Q&`$XR(n&`Q&c$ZR(p&cQ&q$iS(y&q,jR,j-wQ&t$kR(|&tQ)k'yR*o)kQ%p#kS(P%p(RR(R%qQ(U%tR)t(UQ)Q'QU*])Q.O.PQ.O.bR.P.cQ*d)XR+V*dQ(^%}R)}(^pcTUV!y#|$R&U&X&Z&g'x(c*P*V*X+fngXZ[]^`ijklmtu!f#uQr_t!Zq!V!z!|!}#h$Y%P%Q%f%|&Q&_&e'}(O(Y){Q!iwU!l{#U%s&^#W!a!d!u#T#Z#i#j#k#l#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x$z${$|%R%_%`%a%b%d%e%j%r&P&p&r'T'Y'_'p(Q(T(W(X)O)T)Z)e)m)n)q)r)z*^*c*f*l*v*w+S+^+c+h+u+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,^,_,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.n.o.r.sQ#q!cS$Y#O&bQ$`#SQ$j#VS%|#v(]Q&i$cU&n$g%g&sU'P$y)P+sQ'U$}Q)V'VU-x-|.].^U-y-}.[._Q-z.`Q-{.aQ.S.fR.T.gVQORSQ$T!yQ&V#|Q(g&XQ*O(cR*|*PR$W!}R$[#OQ#Y!aQ#r!dQ#}!uQ$b#TU$i#V%e*lU%c#Z-t-uQ%q#kQ%u#mQ%v#nQ%w#oQ%x#pQ%y#sQ&W$OQ&m$fU&w$n+y+zQ&x$oQ&y$pQ&z$rQ&|$uQ&}$wQ'O$xS'S${$|Q'n%_Q'q%`Q'r%aQ's%bQ't%dQ(S%rQ(`&PQ(x&pQ(z&rQ)S'TQ)d'pQ)p(QQ)v(WQ)w(XQ*Z)OQ*_)TQ*k)eQ*t)qQ*u)rQ*x)zQ+R*^Q+`*vQ+a*wQ+g+SQ+m+cQ+p+hQ+t+vQ,f-vQ,g+wQ,h+xQ,k+{Q,l+|Q,m+}Q,n,OQ,o,PQ,p,QQ,q,RQ,r,SQ,s,TQ,t,UQ,u,VQ,v,WS,w,X,ZS,x,Y,[Q,{,^Q,|,_Q-P,`Q-Q,aQ-R,bQ-S,cQ-T,dQ-U,eQ-V,iQ-Y,yQ-Z,zQ-^,}Q-_-OQ-`-WQ-a-XQ-d-[Q-e-]Q-h-bQ-i-cQ-l-fQ-m-gQ-n-jQ-o-kQ-r-pQ-s-qQ-w$dQ.U.hQ.V.iQ.p.rR.q.s%j#U!a!d!u#T#V#Z#k#m#n#o#p#s$O$d$f$n$o$p$r$u$w$x${$|%_%`%a%b%d%e%r&P&p&r'T'p(Q(W(X)O)T)e)q)r)z*^*l*v*w+S+c+h+v+w+x+y+z+{+|+},O,P,Q,R,S,T,U,V,W,X,Y,Z,[,^,_,`,a,b,c,d,e,i,y,z,}-O-W-X-[-]-b-c-f-g-j-k-p-q-t-u-v.h.i.r.sQ%m#iQ%n#jY%s#l$z(T.n.oQ'^%RQ'{%jU)W'Y*c+uQ)['_Q*e)ZQ*q)mQ*r)nQ+W*fR+l+^Q$]#PR'|%kR&i$cQ$l#VQ&l$dQ'u%eR+]*lQ$m#VQ&o$gR'w%gR'z%i$b$t#Y#r#}$b$i%q%x%y&W&m&z&|&}'O'S'n'q'r's't(S(`(x(z)S)d)p)v)w*Z*_*k*t*u*x+R+a+g+m+p,o,p,q,r,s,t,u,v,w,x,{,|-P-Q-R-S-T-U-V-Y-Z-^-_-`-a-d-e-h-i-n-o-r-s-w.U.V.p.qR'm%^R&O#v",
+  nodeNames: "⚠ LineComment BlockComment Library LibraryDefinition Identifier library QualifiedIdentifier QuotedIdentifier DelimitedIdentifier . VersionClause version String UsingDefinition using CalledClause called Alias IncludeDefinition include CodeSystemDefinition AccessModifier public private codesystem DefinitionName is as : ValueSetDefinition valueset codesystems { , } CodeDefinition code from DisplayClause display ConceptDefinition concept ParameterDefinition parameter TypeSpecifier NamedType TypeName Code Concept List < > Interval Choice Tuple TupleElementDefinition default Boolean true false Null null Temporal Quantity Number DateTimePrecision year month week day hour minute second millisecond years months weeks days hours minutes seconds milliseconds Ratio ] [ Retrieve -> CodePath CodeComparator in = ~ Terminology ) ( ParenthesizedExpression MemberExpression PropertyName start end CallExpression ArgList IndexExpression InstanceSelector TupleElement IntervalSelector ListSelector TupleSelector CodeSelector ConceptSelector ExtractorExpression width successor predecessor of singleton point date time timezoneoffset duration difference between and minimum maximum convert to cast CaseExpression case CaseItem when then else Query AliasedSource QueryClause let LetItem with without such that where return all aggregate starting sort SortDirection asc ascending desc descending by SortItem ArithmeticExpression ^ * / div mod + - & UnaryExpression ListExpression distinct flatten collapse expand per TypeExpression BooleanTest not NotExpression exists BetweenExpression properly ComparisonExpression CompareOp <= >= TimingExpression TimingOperator starts ends occurs same or before after includes PrecisionOf during included QuantityOffset less more than on within meets overlaps EqualityExpression EqualOp != !~ MembershipExpression contains LogicalExpression xor implies SetExpression | union intersect except IfExpression if ContextDefinition context ExpressionDefinition define FunctionDefinition fluent function ParamList OperandDefinition returns external",
+  maxTerm: 264,
+  nodeProps: [
+    ["group", -38,5,8,9,13,58,61,63,64,83,86,96,97,101,103,104,106,107,108,109,110,111,130,136,138,158,167,168,174,175,177,179,181,185,206,210,212,215,220,"Expression"],
+    ["openedBy", 84,"[",94,"("],
+    ["closedBy", 85,"]",95,")"]
+  ],
+  propSources: [cqlHighlighting],
+  skippedNodes: [0,1,2],
+  repeatNodeCount: 14,
+  tokenData: "/f~RqXY#YYZ#Y]^#Ypq#Yqr#krs$Ovw%rwx%wxy'eyz'jz{'o{|'t|}'y}!O(O!O!P(]!P!Q(b!Q![*]![!]+R!^!_+W!_!`+e!`!a+j!b!c+w!c!},l!}#O,}#P#Q-S#Q#R-X#R#S,l#S#T-^#T#o,l#o#p/Q#p#q/V#q#r/[#r#s/a~#_S&c~XY#YYZ#Y]^#Ypq#Y~#nQ!_!`#t#r#s#y~#yO%h~~$OO%i~~$RWOY$OZr$Ors$ks#O$O#O#P$p#P;'S$O;'S;=`%l<%lO$O~$pOW~~$sRO;'S$O;'S;=`$|;=`O$O~%PXOY$OZr$Ors$ks#O$O#O#P$p#P;'S$O;'S;=`%l;=`<%l$O<%lO$O~%oP;=`<%l$O~%wO$l~~%zVOw%wwx&ax#O%w#O#P&f#P;'S%w;'S;=`'_<%lO%w~&fO]~~&iRO;'S%w;'S;=`&r;=`O%w~&uWOw%wwx&ax#O%w#O#P&f#P;'S%w;'S;=`'_;=`<%l%w<%lO%w~'bP;=`<%l%w~'jO#R~~'oO#Q~~'tO$f~~'yO$j~~(OOr~R(TP$kP!`!a(WQ(]O!yQ~(bOY~~(gQ$g~z{(m!P!Q)t~(pTOz(mz{)P{;'S(m;'S;=`)n<%lO(m~)SVOz(mz{)P{!P(m!P!Q)i!Q;'S(m;'S;=`)n<%lO(m~)nOQ~~)qP;=`<%l(m~)ySP~OY)tZ;'S)t;'S;=`*V<%lO)t~*YP;=`<%l)t~*bR!c~!O!P*k!Q![*]!n!o*|~*nP!Q![*q~*vQ!c~!Q![*q!n!o*|~+RO!c~~+WOm~~+]P!T~!_!`+`~+eO$}~~+jO!}~~+oP!U~!_!`+r~+wO%O~~+zQ!Q![,Q!v!w,Q~,VV!a~{|,Q}!O,Q!O!P,Q!Q![,Q![!],Q!v!w,Q!|!},Q~,qST~!Q![,l!c!},l#R#S,l#T#o,l~-SO!w~~-XO!v~~-^O$e~~-aWOY-^Z#O-^#O#P-y#P#S-^#S#T.u#T;'S-^;'S;=`.z<%lO-^~-|RO;'S-^;'S;=`.V;=`O-^~.YXOY-^Z#O-^#O#P-y#P#S-^#S#T.u#T;'S-^;'S;=`.z;=`<%l-^<%lO-^~.zOX~~.}P;=`<%l-^~/VOq~~/[O%p~~/aOs~~/fO#O~",
+  tokenizers: [0, 1],
+  topRules: {"Library":[0,3]},
+  specialized: [{term: 5, get: (value: keyof typeof spec_Identifier) => spec_Identifier[value] || -1}],
+  tokenPrec: 20959
+})
@@ -0,0 +1,103 @@
+// Author: Preston Lee
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  CqlCompilerOptions,
+  CqlTranslator,
+  LibraryManager,
+  ModelManager,
+  createModelInfoProvider,
+  stringAsSource
+} from '@cqframework/cql/cql-to-elm';
+import { ElmIncludeParser } from './elm-include.lib';
+import { buildDefinitionIndex, findExpressionAt, findReferences, findSymbolAt } from './elm-locator.lib';
+import {
+  applyTextEdits,
+  formatCqlIdentifier,
+  includeAliases,
+  includedReferenceLocations,
+  renameEdits,
+  symbolLocations
+} from './cql-references.lib';
+
+const systemModelInfo = readFileSync(join(process.cwd(), 'public/cql/system-modelinfo.xml'), 'utf8');
+
+const common = `library Common version '1.0.0'
+
+define "Low Numbers": {1, 2, 3}
+define Total: Sum("Low Numbers")
+define function Double(x Integer): x * 2
+define Four: Double(2) + Double(0)
+// "Low Numbers" in a comment is not a reference
+define Label: 'Low Numbers'`;
+
+function translate(cql: string): string {
+  const modelManager = new ModelManager(undefined, true);
+  modelManager.modelInfoLoader.registerModelInfoProvider(
+    createModelInfoProvider((id, system, version) =>
+      id === 'System' && !system && !version ? stringAsSource(systemModelInfo) : null
+    ),
+    true
+  );
+  const options = CqlCompilerOptions.defaultOptions().withOptions([CqlCompilerOptions.Options.EnableResultTypes]);
+  return CqlTranslator.fromText(cql, new LibraryManager(modelManager, options)).toXml();
+}
+
+describe('cql-references.lib', () => {
+  const index = buildDefinitionIndex(translate(common), new ElmIncludeParser())!;
+
+  it('indexes result types and single-token references', () => {
+    expect(index.libraryName).toBe('Common');
+    expect(index.definitions.get('Low Numbers')?.[0].resultType).toBe('List<System.Integer>');
+    expect(findExpressionAt(index, 4, 15)?.resultType).toBe('System.Integer');
+
+    const symbol = findSymbolAt(index, 6, 15);
+    expect(symbol).toEqual({ name: 'Double', kind: 'function', libraryName: null });
+    expect(findReferences(index, symbol!)).toHaveLength(2);
+  });
+
+  it('finds a define from its header line and every quoted reference', () => {
+    const symbol = findSymbolAt(index, 3, 10)!;
+    expect(symbol.name).toBe('Low Numbers');
+    const locations = symbolLocations(common, index, symbol);
+    expect(locations.map(l => [l.line, l.column, l.quoted, l.isDefinition])).toEqual([
+      [3, 7, true, true],
+      [4, 18, true, false]
+    ]);
+    expect(locations[1].preview).toBe('define Total: Sum("Low Numbers")');
+  });
+
+  it('renames definitions and references, keeping quoting', () => {
+    const symbol = findSymbolAt(index, 6, 15)!;
+    const renamed = applyTextEdits(common, renameEdits(symbolLocations(common, index, symbol), 'Twice'));
+    expect(renamed).toContain('define function Twice(x Integer): x * 2');
+    expect(renamed).toContain('define Four: Twice(2) + Twice(0)');
+
+    const low = findSymbolAt(index, 3, 10)!;
+    const spaced = applyTextEdits(common, renameEdits(symbolLocations(common, index, low), 'Small'));
+    expect(spaced).toContain('define "Small": {1, 2, 3}');
+    expect(spaced).toContain("define Label: 'Low Numbers'");
+    expect(formatCqlIdentifier('Has Space', false)).toBe('"Has Space"');
+  });
+
+  it('finds qualified references in libraries that include this one', () => {
+    const consumer = `library Consumer version '1.0.0'
+include Common version '1.0.0' called C
+define A: C."Low Numbers"
+define B: C.Double(C.Four)
+define Note: 'C.Four'
+/* C.Four */`;
+    expect(includeAliases(consumer, 'Common')).toEqual(['C']);
+    const four = includedReferenceLocations(consumer, 'Common', 'Four');
+    expect(four.map(l => [l.line, l.column])).toEqual([[4, 21]]);
+
+    const renamed = applyTextEdits(
+      consumer,
+      renameEdits(includedReferenceLocations(consumer, 'Common', 'Low Numbers'), 'Small')
+    );
+    expect(renamed).toContain('define A: C."Small"');
+    expect(includedReferenceLocations(consumer, 'Other', 'Four')).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+// Author: Preston Lee
+
+import {
+  CqlDefinitionIndex,
+  CqlSourceSpan,
+  CqlSymbol,
+  findReferences
+} from './elm-locator.lib';
+
+/** A replacement of `[from, to)` in a CQL document. */
+export interface CqlTextEdit {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+/** Where a symbol's name appears in a CQL document. */
+export interface CqlSymbolLocation {
+  line: number;
+  /** 0-based, like CodeMirror columns. */
+  column: number;
+  from: number;
+  to: number;
+  /** True when the name was written as a quoted identifier. */
+  quoted: boolean;
+  isDefinition: boolean;
+  /** The trimmed source line, for result lists. */
+  preview: string;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function isCqlIdentifier(name: string): boolean {
+  return IDENTIFIER_PATTERN.test(name);
+}
+
+/** Write a name as CQL source, quoting it when it was quoted before or needs quotes. */
+export function formatCqlIdentifier(name: string, quoted: boolean): string {
+  return quoted || !isCqlIdentifier(name) ? `"${name.replace(/"/g, '\\"')}"` : name;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function toLocation(
+  text: string,
+  starts: number[],
+  from: number,
+  to: number,
+  quoted: boolean,
+  isDefinition: boolean
+): CqlSymbolLocation {
+  let line = starts.length;
+  while (line > 1 && starts[line - 1] > from) {
+    line--;
+  }
+  const lineEnd = text.indexOf('\n', starts[line - 1]);
+  return {
+    line,
+    column: from - starts[line - 1],
+    from,
+    to,
+    quoted,
+    isDefinition,
+    preview: text.slice(starts[line - 1], lineEnd < 0 ? text.length : lineEnd).trim()
+  };
+}
+
+/**
+ * Ranges of comments and string literals, where names are not references.
+ * Double-quoted and backtick text are identifiers in CQL, so they stay visible.
+ */
+function ignoredRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let i = 0;
+  while (i < text.length) {
+    if (text.startsWith('//', i)) {
+      const end = text.indexOf('\n', i);
+      ranges.push([i, end < 0 ? text.length : end]);
+      i = end < 0 ? text.length : end;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      ranges.push([i, end < 0 ? text.length : end + 2]);
+      i = end < 0 ? text.length : end + 2;
+    } else if (text[i] === "'") {
+      let end = i + 1;
+      while (end < text.length && text[end] !== "'") {
+        end += text[end] === '\\' ? 2 : 1;
+      }
+      ranges.push([i, end + 1]);
+      i = end + 1;
+    } else {
+      i++;
+    }
+  }
+  return ranges;
+}
+
+function isIgnored(ranges: Array<[number, number]>, offset: number): boolean {
+  return ranges.some(([from, to]) => offset >= from && offset < to);
+}
+
+/** The first occurrence of `name`, quoted or bare, inside `[from, to)`. */
+function findName(
+  text: string,
+  from: number,
+  to: number,
+  name: string
+): { from: number; to: number; quoted: boolean } | null {
+  const escaped = escapeRegExp(name);
+  const pattern = new RegExp(`"${escaped}"|(?<![A-Za-z0-9_"])${escaped}(?![A-Za-z0-9_"])`);
+  const match = pattern.exec(text.slice(from, to));
+  if (!match) {
+    return null;
+  }
+  const quoted = match[0].startsWith('"');
+  return { from: from + match.index, to: from + match.index + match[0].length, quoted };
+}
+
+function spanOffsets(starts: number[], span: CqlSourceSpan): { from: number; to: number } {
+  // ELM columns are 1-based and the end column is inclusive.
+  return {
+    from: (starts[span.startLine - 1] ?? 0) + span.startColumn - 1,
+    to: (starts[span.endLine - 1] ?? 0) + span.endColumn
+  };
+}
+
+/**
+ * Every place a symbol's name is written in the library its index was built
+ * from: its definitions (for local symbols) and the references the translator
+ * located.
+ */
+export function symbolLocations(text: string, index: CqlDefinitionIndex, symbol: CqlSymbol): CqlSymbolLocation[] {
+  const starts = lineStarts(text);
+  const locations: CqlSymbolLocation[] = [];
+  const add = (span: CqlSourceSpan, isDefinition: boolean): void => {
+    const range = spanOffsets(starts, span);
+    const name = findName(text, range.from, range.to, symbol.name);
+    if (name && !locations.some(l => l.from === name.from)) {
+      locations.push(toLocation(text, starts, name.from, name.to, name.quoted, isDefinition));
+    }
+  };
+
+  if (!symbol.libraryName) {
+    for (const def of index.definitions.get(symbol.name) ?? []) {
+      if (def.kind === symbol.kind) {
+        add(def.span, true);
+      }
+    }
+  }
+  for (const reference of findReferences(index, symbol)) {
+    add(reference.span, false);
+  }
+  return locations.sort((a, b) => a.from - b.from);
+}
+
+/** Aliases under which a CQL library includes `libraryName`. */
+export function includeAliases(text: string, libraryName: string): string[] {
+  const ignored = ignoredRanges(text);
+  const pattern =
+    /\binclude\s+(?:"([^"]+)"|([A-Za-z_][\w.]*))(?:\s+version\s+'[^']*')?(?:\s+called\s+(?:"([^"]+)"|([A-Za-z_]\w*)))?/g;
+  const aliases: string[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const path = match[1] ?? match[2];
+    if (isIgnored(ignored, match.index) || (path !== libraryName && !path.endsWith(`.${libraryName}`))) {
+      continue;
+    }
+    aliases.push(match[3] ?? match[4] ?? path);
+  }
+  return aliases;
+}
+
+/**
+ * Qualified references (`Alias.Name` or `Alias."Name"`) to a definition of
+ * `libraryName` from another library's source. Other open libraries may not
+ * translate on their own, so this reads their text rather than their ELM.
+ */
+export function includedReferenceLocations(text: string, libraryName: string, name: string): CqlSymbolLocation[] {
+  const starts = lineStarts(text);
+  const ignored = ignoredRanges(text);
+  const locations: CqlSymbolLocation[] = [];
+  for (const alias of includeAliases(text, libraryName)) {
+    const pattern = new RegExp(
+      `(?<![A-Za-z0-9_"])(?:"${escapeRegExp(alias)}"|${escapeRegExp(alias)})\\s*\\.\\s*` +
+        `("${escapeRegExp(name)}"|${escapeRegExp(name)}(?![A-Za-z0-9_"]))`,
+      'g'
+    );
+    for (const match of text.matchAll(pattern)) {
+      if (isIgnored(ignored, match.index)) {
+        continue;
+      }
+      const from = match.index + match[0].length - match[1].length;
+      const quoted = match[1].startsWith('"');
+      locations.push(toLocation(text, starts, from, from + match[1].length, quoted, false));
+    }
+  }
+  return locations.sort((a, b) => a.from - b.from);
+}
+
+/** Edits that write `newName` over each location, keeping quoted names quoted. */
+export function renameEdits(locations: CqlSymbolLocation[], newName: string): CqlTextEdit[] {
+  return locations.map(l => ({ from: l.from, to: l.to, insert: formatCqlIdentifier(newName, l.quoted) }));
+}
+
+export function applyTextEdits(text: string, edits: CqlTextEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.from - a.from)
+    .reduce((result, edit) => result.slice(0, edit.from) + edit.insert + result.slice(edit.to), text);
+}
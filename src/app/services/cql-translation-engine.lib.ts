@@ -0,0 +1,245 @@
+// Author: Preston Lee
+
+// @ts-expect-error No type definitions available for @lhncbc/ucum-lhc
+import * as ucum from '@lhncbc/ucum-lhc';
+import {
+  CqlCompilerException,
+  CqlCompilerOptions,
+  CqlTranslator,
+  LibraryBuilder,
+  LibraryManager,
+  ModelManager,
+  createLibrarySourceProvider,
+  createModelInfoProvider,
+  createUcumService,
+  stringAsSource
+} from '@cqframework/cql/cql-to-elm';
+import {
+  ModelInfoEntry,
+  ModelInfoSelection,
+  modelInfoSelectionKey,
+  resolveHelperLibrary,
+  resolveModelInfo
+} from './model-info-registry.lib';
+import type { TranslatorOptions } from '../models/translator-options.model';
+import { BUILT_IN_TRANSLATOR_PROFILES, translatorOptionsKey } from './translator-options.lib';
+
+/**
+ * `CqlTranslator.toJson()` exists at runtime and in the package's
+ * `kotlin/cql-to-elm.d.ts`, but the `@cqframework/cql/cql-to-elm` subpath export
+ * ships only `.mjs` with no paired `types` entry, so the method isn't visible
+ * to consumers under bundler module resolution. Until that's fixed upstream
+ * (https://github.com/cqframework/clinical_quality_language/issues/1768) we
+ * narrow the translator through this minimal interface rather than a bare cast.
+ */
+interface ElmJsonEmitter {
+  toJson(): string;
+}
+
+export interface RawTranslationResult {
+  elmXml: string | null;
+  elmJson: string | null;
+  errors: CqlCompilerException[];
+  warnings: CqlCompilerException[];
+  messages: CqlCompilerException[];
+  hasErrors: boolean;
+}
+
+/** Looks up the CQL of an included library that is not a registered helper. */
+export type LibrarySourceLookup = (
+  id: string,
+  system: string | null | undefined,
+  version: string | null | undefined
+) => string | null;
+
+/** Key of an included library in the CQL source caches. */
+export function librarySourceKey(
+  path: string,
+  system: string | null | undefined,
+  version: string | null | undefined
+): string {
+  return `${system ?? ''}|${path}|${version ?? ''}`;
+}
+
+function createCqlUcumService() {
+  // Same pattern as cql-to-elm-ui: validate units, never convert them
+  const ucumUtils = ucum.UcumLhcUtils.getInstance();
+  return createUcumService(
+    () => {
+      throw new Error('Unsupported operation');
+    },
+    (unit: string): string | null => {
+      const result = ucumUtils.validateUnitString(unit);
+      return result.status === 'valid' ? null : result.msg[0];
+    }
+  );
+}
+
+function presentExceptions(list: { asJsReadonlyArrayView(): ReadonlyArray<CqlCompilerException | null | undefined> } | null | undefined) {
+  return (list?.asJsReadonlyArrayView() ?? []).filter(
+    (e: CqlCompilerException | null | undefined): e is CqlCompilerException => e != null
+  );
+}
+
+/**
+ * Copy of a compiler exception that survives `postMessage`: the message and
+ * the numeric TrackBack fields the locator utilities read. Kotlin objects
+ * themselves cannot be structured-cloned.
+ */
+export function plainCompilerException(exception: CqlCompilerException): CqlCompilerException {
+  const locator: Record<string, number> = {};
+  for (const [key, value] of Object.entries(exception.locator ?? {})) {
+    if (typeof value === 'number') {
+      locator[key] = value;
+    }
+  }
+  return { message: exception.message, locator } as unknown as CqlCompilerException;
+}
+
+export function plainRawTranslationResult(result: RawTranslationResult): RawTranslationResult {
+  return {
+    ...result,
+    errors: result.errors.map(plainCompilerException),
+    warnings: result.warnings.map(plainCompilerException),
+    messages: result.messages.map(plainCompilerException)
+  };
+}
+
+/**
+ * The @cqframework/cql translator with its model and library managers. It runs
+ * the same way on the main thread and in the translation worker; managers stay
+ * warm between translations so FHIR model info and helper libraries load once.
+ */
+export class CqlTranslationEngine {
+  private systemModelInfoXml: string | null = null;
+  private modelInfo: ModelInfoEntry[] = [];
+  /** Translators keyed by model info selection and translator options. */
+  private libraryManagers = new Map<string, LibraryManager>();
+  private readonly ucumService = createCqlUcumService();
+
+  constructor(private readonly librarySource: LibrarySourceLookup) {}
+
+  setSystemModelInfo(xml: string): void {
+    this.systemModelInfoXml = xml;
+    this.resetLibraryManagers();
+  }
+
+  /** Replace the registered model infos. ModelManager caches loaded models, so every translator is rebuilt. */
+  setModelInfo(entries: ModelInfoEntry[]): void {
+    this.modelInfo = entries;
+    this.resetLibraryManagers();
+  }
+
+  /** Drop compiled ELM for included libraries, keeping the helper libraries registered with models. */
+  invalidateCompiledLibraries(): void {
+    const helperNames = new Set(this.modelInfo.flatMap(entry => entry.helpers.map(helper => helper.name)));
+    for (const libraryManager of this.libraryManagers.values()) {
+      const mapView = libraryManager.compiledLibraries?.asJsMapView?.();
+      if (!mapView) {
+        continue;
+      }
+      for (const key of [...mapView.keys()]) {
+        if (!helperNames.has(key.c8i_1)) {
+          mapView.delete(key);
+        }
+      }
+    }
+  }
+
+  /** Translate CQL, returning the compiler's exceptions as-is. Options default to the CQL Studio profile. */
+  translate(
+    cql: string,
+    selection?: ModelInfoSelection,
+    options: TranslatorOptions = BUILT_IN_TRANSLATOR_PROFILES[0]
+  ): RawTranslationResult {
+    try {
+      const translator = CqlTranslator.fromText(cql, this.libraryManagerFor(selection ?? {}, options));
+
+      const errors = presentExceptions(translator.errors);
+      const warnings = presentExceptions(translator.warnings);
+      const messages = presentExceptions(translator.messages);
+
+      let elmXml: string | null = null;
+      try {
+        elmXml = translator.toXml();
+      } catch (e) {
+        console.warn('Failed to generate ELM XML:', e);
+      }
+
+      let elmJson: string | null = null;
+      try {
+        // See ElmJsonEmitter above re: upstream type-export gap (#1768).
+        elmJson = (translator as unknown as ElmJsonEmitter).toJson();
+      } catch (e) {
+        console.warn('Failed to generate ELM JSON:', e);
+      }
+
+      return { elmXml, elmJson, errors, warnings, messages, hasErrors: errors.length > 0 };
+    } catch (error) {
+      // Handle unexpected errors during translation
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        elmXml: null,
+        elmJson: null,
+        errors: [{ message: `Translation failed: ${errorMessage}` } as CqlCompilerException],
+        warnings: [],
+        messages: [],
+        hasErrors: true
+      };
+    }
+  }
+
+  private resetLibraryManagers(): void {
+    this.libraryManagers.clear();
+  }
+
+  private libraryManagerFor(selection: ModelInfoSelection, options: TranslatorOptions): LibraryManager {
+    const key = `${modelInfoSelectionKey(selection)}#${translatorOptionsKey(options)}`;
+    let manager = this.libraryManagers.get(key);
+    if (!manager) {
+      manager = this.createLibraryManager(selection, options);
+      this.libraryManagers.set(key, manager);
+    }
+    return manager;
+  }
+
+  private createLibraryManager(selection: ModelInfoSelection, options: TranslatorOptions): LibraryManager {
+    // Create ModelManager with default model info loading enabled
+    const modelManager = new ModelManager(undefined, true);
+
+    // Serve System from the bundled asset and every other model from the registry
+    const modelInfoProvider = createModelInfoProvider(
+      (id: string, system: string | null | undefined, version: string | null | undefined) => {
+        if (id === 'System' && !system && !version) {
+          return this.systemModelInfoXml ? stringAsSource(this.systemModelInfoXml) : null;
+        }
+        const entry = resolveModelInfo(this.modelInfo, id, version, selection);
+        if (!entry) {
+          console.warn(`No model info is registered for ${id}${version ? ` version ${version}` : ''}.`);
+          return null;
+        }
+        return stringAsSource(entry.xml);
+      }
+    );
+    modelManager.modelInfoLoader.registerModelInfoProvider(modelInfoProvider, true);
+
+    const compilerOptions = new CqlCompilerOptions()
+      .withOptions(options.options.map(option => CqlCompilerOptions.Options[option]))
+      .withSignatureLevel(LibraryBuilder.SignatureLevel.valueOf(options.signatureLevel))
+      .withCompatibilityLevel(options.compatibilityLevel);
+    const libraryManager = new LibraryManager(modelManager, compilerOptions, undefined, this.ucumService);
+
+    // Helper libraries registered with a model (FHIRHelpers, QICoreCommon, ...) come first,
+    // then libraries cached from the FHIR server.
+    const librarySourceProvider = createLibrarySourceProvider(
+      (id: string, system: string | null | undefined, version: string | null | undefined) => {
+        const cql =
+          (!system ? resolveHelperLibrary(this.modelInfo, id, version, selection) : null) ??
+          this.librarySource(id, system, version);
+        return cql ? stringAsSource(cql) : null;
+      }
+    );
+    libraryManager.librarySourceLoader.registerProvider(librarySourceProvider);
+    return libraryManager;
+  }
+}
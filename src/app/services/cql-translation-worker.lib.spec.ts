@@ -0,0 +1,151 @@
+// Author: Preston Lee
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RawTranslationResult } from './cql-translation-engine.lib';
+import {
+  CqlTranslationWorkerClient,
+  CqlTranslationWorkerRequest,
+  TranslationCancelledError,
+  TranslationWorkerState
+} from './cql-translation-worker.lib';
+import type { ModelInfoEntry } from './model-info-registry.lib';
+import type { TranslatorOptions } from '../models/translator-options.model';
+
+const translatorOptions: TranslatorOptions = { options: ['EnableLocators'], signatureLevel: 'Overloads', compatibilityLevel: '1.5' };
+
+type TranslateRequest = Extract<CqlTranslationWorkerRequest, { type: 'translate' }>;
+
+function result(elmXml: string): RawTranslationResult {
+  return { elmXml, elmJson: null, errors: [], warnings: [], messages: [], hasErrors: false };
+}
+
+describe('CqlTranslationWorkerClient', () => {
+  let posted: CqlTranslationWorkerRequest[];
+  let state: TranslationWorkerState;
+  let sources: Map<string, string>;
+  let client: CqlTranslationWorkerClient;
+
+  const translateRequests = () => posted.filter((r): r is TranslateRequest => r.type === 'translate');
+  const lastRequest = () => translateRequests().at(-1)!;
+  const reply = (request: TranslateRequest, elmXml = request.cql) =>
+    client.handleResponse({ type: 'result', id: request.id, result: result(elmXml) });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    posted = [];
+    sources = new Map([['|Common|1.0.0', "library Common version '1.0.0'"]]);
+    state = {
+      modelInfoRevision: 1,
+      modelInfo: () => [{ id: 'bundled:/fhir.xml:FHIR|4.0.1' } as ModelInfoEntry],
+      librarySources: () => sources
+    };
+    client = new CqlTranslationWorkerClient(request => posted.push(request), () => state);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends one request at a time and resolves each with its own result', async () => {
+    const first = client.translate('library A', undefined, translatorOptions);
+    const second = client.translate('library B', undefined, translatorOptions);
+    expect(translateRequests().map(r => r.cql)).toEqual(['library A']);
+
+    reply(lastRequest());
+    await expect(first).resolves.toEqual(result('library A'));
+    expect(translateRequests().map(r => r.cql)).toEqual(['library A', 'library B']);
+
+    reply(lastRequest());
+    await expect(second).resolves.toEqual(result('library B'));
+  });
+
+  it('debounces requests and cancels queued ones superseded by the same key', async () => {
+    const first = client.translate('library A', undefined, translatorOptions, { key: 'lint:a', debounceMs: 250 });
+    vi.advanceTimersByTime(100);
+    const second = client.translate('library AB', undefined, translatorOptions, { key: 'lint:a', debounceMs: 250 });
+
+    await expect(first).rejects.toBeInstanceOf(TranslationCancelledError);
+    vi.advanceTimersByTime(249);
+    expect(translateRequests()).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(translateRequests().map(r => r.cql)).toEqual(['library AB']);
+
+    reply(lastRequest());
+    await expect(second).resolves.toEqual(result('library AB'));
+  });
+
+  it('discards the result of a superseded request already in the worker', async () => {
+    const first = client.translate('library A', undefined, translatorOptions, { key: 'lint:a' });
+    const running = lastRequest();
+    const second = client.translate('library AB', undefined, translatorOptions, { key: 'lint:a' });
+    const other = client.translate('library Other', undefined, translatorOptions, { key: 'lint:other' });
+
+    reply(running);
+    await expect(first).rejects.toBeInstanceOf(TranslationCancelledError);
+    reply(lastRequest());
+    await expect(second).resolves.toEqual(result('library AB'));
+    reply(lastRequest());
+    await expect(other).resolves.toEqual(result('library Other'));
+  });
+
+  it('rejects aborted requests', async () => {
+    const controller = new AbortController();
+    const pending = client.translate('library A', undefined, translatorOptions, { debounceMs: 250, signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(TranslationCancelledError);
+    await expect(client.translate('library B', undefined, translatorOptions, { signal: controller.signal })).rejects.toBeInstanceOf(
+      TranslationCancelledError
+    );
+    vi.advanceTimersByTime(250);
+    expect(translateRequests()).toEqual([]);
+  });
+
+  it('sends model info and library sources only when they change', async () => {
+    const first = client.translate('library A', { FHIR: 'bundled:/fhir.xml:FHIR|4.0.1' }, translatorOptions);
+    expect(lastRequest().selection).toEqual({ FHIR: 'bundled:/fhir.xml:FHIR|4.0.1' });
+    expect(lastRequest().translatorOptions).toEqual(translatorOptions);
+    expect(lastRequest().modelInfo).toHaveLength(1);
+    expect(lastRequest().librarySources).toEqual({
+      set: [['|Common|1.0.0', "library Common version '1.0.0'"]],
+      deleted: []
+    });
+    reply(lastRequest());
+    await first;
+
+    const second = client.translate('library B', undefined, translatorOptions);
+    expect(lastRequest().modelInfo).toBeUndefined();
+    expect(lastRequest().librarySources).toBeUndefined();
+    reply(lastRequest());
+    await second;
+
+    state = { ...state, modelInfoRevision: 2 };
+    sources = new Map([['|Other|2.0.0', "library Other version '2.0.0'"]]);
+    const third = client.translate('library C', undefined, translatorOptions);
+    expect(lastRequest().modelInfo).toHaveLength(1);
+    expect(lastRequest().librarySources).toEqual({
+      set: [['|Other|2.0.0', "library Other version '2.0.0'"]],
+      deleted: ['|Common|1.0.0']
+    });
+    reply(lastRequest());
+    await third;
+  });
+
+  it('fails every pending request and resends all state after the worker dies', async () => {
+    const running = client.translate('library A', undefined, translatorOptions);
+    const queued = client.translate('library B', undefined, translatorOptions, { debounceMs: 250 });
+    client.fail(new Error('Worker crashed'));
+    await expect(running).rejects.toThrow('Worker crashed');
+    await expect(queued).rejects.toThrow('Worker crashed');
+
+    client.translate('library C', undefined, translatorOptions);
+    expect(lastRequest().cql).toBe('library C');
+    expect(lastRequest().modelInfo).toHaveLength(1);
+    expect(lastRequest().librarySources?.set).toHaveLength(1);
+  });
+
+  it('rejects with the worker failure message', async () => {
+    const pending = client.translate('library A', undefined, translatorOptions);
+    client.handleResponse({ type: 'failure', id: lastRequest().id, message: 'Out of memory' });
+    await expect(pending).rejects.toThrow('Out of memory');
+  });
+});
@@ -0,0 +1,225 @@
+// Author: Preston Lee
+
+import type { RawTranslationResult } from './cql-translation-engine.lib';
+import type { ModelInfoEntry, ModelInfoSelection } from './model-info-registry.lib';
+import type { TranslatorOptions } from '../models/translator-options.model';
+
+/** Included-library CQL that changed since the previous request, keyed as in the source cache. */
+export interface LibrarySourceChanges {
+  set: Array<[string, string]>;
+  deleted: string[];
+}
+
+export type CqlTranslationWorkerRequest =
+  | { type: 'init'; systemModelInfoXml: string }
+  | {
+      type: 'translate';
+      id: number;
+      cql: string;
+      selection?: ModelInfoSelection;
+      translatorOptions: TranslatorOptions;
+      /** Present when the model info registry changed since the previous request. */
+      modelInfo?: ModelInfoEntry[];
+      librarySources?: LibrarySourceChanges;
+    };
+
+export type CqlTranslationWorkerResponse =
+  | { type: 'result'; id: number; result: RawTranslationResult }
+  | { type: 'failure'; id: number; message: string };
+
+/** How a translation request is scheduled against the other requests in flight. */
+export interface TranslationRequestOptions {
+  /**
+   * Requests sharing a key supersede each other: a newer request cancels an
+   * older one that is still waiting, and discards the result of one already
+   * running. Editor lint passes use one key per library.
+   */
+  key?: string;
+  /** Wait this long before sending, so a burst of keystrokes makes one request. */
+  debounceMs?: number;
+  signal?: AbortSignal;
+}
+
+/** Rejection for requests superseded by a newer one with the same key, or aborted. */
+export class TranslationCancelledError extends Error {
+  constructor(message = 'Translation was cancelled by a newer request.') {
+    super(message);
+    this.name = 'TranslationCancelledError';
+  }
+}
+
+/** What the worker needs to know about the main thread's caches when a request is sent. */
+export interface TranslationWorkerState {
+  modelInfoRevision: number;
+  modelInfo: () => ModelInfoEntry[];
+  librarySources: () => ReadonlyMap<string, string>;
+}
+
+interface PendingTranslation {
+  id: number;
+  cql: string;
+  selection: ModelInfoSelection | undefined;
+  translatorOptions: TranslatorOptions;
+  key: string | undefined;
+  ready: boolean;
+  stale: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+  resolve: (result: RawTranslationResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Main-thread side of the translation worker protocol. The worker translates
+ * one request at a time and holds no backlog, so requests wait here where
+ * stale ones can still be dropped. Model info and included library sources
+ * are sent only when they differ from what the worker last received.
+ */
+export class CqlTranslationWorkerClient {
+  private nextId = 1;
+  private queue: PendingTranslation[] = [];
+  private inFlight: PendingTranslation | null = null;
+  private sentModelInfoRevision = -1;
+  private sentLibrarySources = new Map<string, string>();
+
+  constructor(
+    private readonly post: (request: CqlTranslationWorkerRequest) => void,
+    private readonly state: () => TranslationWorkerState
+  ) {}
+
+  init(systemModelInfoXml: string): void {
+    this.post({ type: 'init', systemModelInfoXml });
+  }
+
+  translate(
+    cql: string,
+    selection: ModelInfoSelection | undefined,
+    translatorOptions: TranslatorOptions,
+    options: TranslationRequestOptions = {}
+  ): Promise<RawTranslationResult> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new TranslationCancelledError('Translation was aborted.'));
+    }
+    if (options.key) {
+      this.supersede(options.key);
+    }
+    return new Promise((resolve, reject) => {
+      const request: PendingTranslation = {
+        id: this.nextId++,
+        cql,
+        selection,
+        translatorOptions,
+        key: options.key,
+        ready: !options.debounceMs,
+        stale: false,
+        resolve,
+        reject
+      };
+      options.signal?.addEventListener('abort', () => this.cancel(request, 'Translation was aborted.'), { once: true });
+      if (options.debounceMs) {
+        request.timer = setTimeout(() => {
+          request.ready = true;
+          this.pump();
+        }, options.debounceMs);
+      }
+      this.queue.push(request);
+      this.pump();
+    });
+  }
+
+  handleResponse(response: CqlTranslationWorkerResponse): void {
+    const request = this.inFlight;
+    if (!request || request.id !== response.id) {
+      return;
+    }
+    this.inFlight = null;
+    if (request.stale) {
+      request.reject(new TranslationCancelledError());
+    } else if (response.type === 'result') {
+      request.resolve(response.result);
+    } else {
+      request.reject(new Error(response.message));
+    }
+    this.pump();
+  }
+
+  /** The worker died: fail everything and resend all state to its replacement. */
+  fail(error: Error): void {
+    const requests = [...(this.inFlight ? [this.inFlight] : []), ...this.queue];
+    this.inFlight = null;
+    this.queue = [];
+    this.sentModelInfoRevision = -1;
+    this.sentLibrarySources = new Map();
+    for (const request of requests) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+  }
+
+  private supersede(key: string): void {
+    for (const request of [...this.queue].filter(r => r.key === key)) {
+      this.cancel(request);
+    }
+    if (this.inFlight?.key === key) {
+      this.inFlight.stale = true;
+    }
+  }
+
+  private cancel(request: PendingTranslation, message?: string): void {
+    if (request === this.inFlight) {
+      request.stale = true;
+      return;
+    }
+    const index = this.queue.indexOf(request);
+    if (index < 0) {
+      return;
+    }
+    this.queue.splice(index, 1);
+    clearTimeout(request.timer);
+    request.reject(new TranslationCancelledError(message));
+  }
+
+  private pump(): void {
+    if (this.inFlight) {
+      return;
+    }
+    const request = this.queue.find(r => r.ready);
+    if (!request) {
+      return;
+    }
+    this.queue.splice(this.queue.indexOf(request), 1);
+    this.inFlight = request;
+
+    const state = this.state();
+    const message: CqlTranslationWorkerRequest = {
+      type: 'translate',
+      id: request.id,
+      cql: request.cql,
+      selection: request.selection,
+      translatorOptions: request.translatorOptions
+    };
+    if (state.modelInfoRevision !== this.sentModelInfoRevision) {
+      message.modelInfo = state.modelInfo();
+      this.sentModelInfoRevision = state.modelInfoRevision;
+    }
+    const changes = this.librarySourceChanges(state.librarySources());
+    if (changes) {
+      message.librarySources = changes;
+    }
+    this.post(message);
+  }
+
+  private librarySourceChanges(current: ReadonlyMap<string, string>): LibrarySourceChanges | null {
+    const set: Array<[string, string]> = [];
+    for (const [key, cql] of current) {
+      if (this.sentLibrarySources.get(key) !== cql) {
+        set.push([key, cql]);
+      }
+    }
+    const deleted = [...this.sentLibrarySources.keys()].filter(key => !current.has(key));
+    if (set.length === 0 && deleted.length === 0) {
+      return null;
+    }
+    this.sentLibrarySources = new Map(current);
+    return { set, deleted };
+  }
+}
@@ -0,0 +1,41 @@
+/// <reference lib="webworker" />
+// Author: Preston Lee
+
+import { CqlTranslationEngine, librarySourceKey, plainRawTranslationResult } from './cql-translation-engine.lib';
+import type { CqlTranslationWorkerRequest, CqlTranslationWorkerResponse } from './cql-translation-worker.lib';
+
+// Included-library CQL mirrored from the main thread's source cache.
+const librarySources = new Map<string, string>();
+const engine = new CqlTranslationEngine(
+  (id, system, version) => librarySources.get(librarySourceKey(id, system, version)) ?? null
+);
+
+function respond(response: CqlTranslationWorkerResponse): void {
+  postMessage(response);
+}
+
+addEventListener('message', ({ data }: MessageEvent<CqlTranslationWorkerRequest>) => {
+  if (data.type === 'init') {
+    engine.setSystemModelInfo(data.systemModelInfoXml);
+    return;
+  }
+
+  try {
+    if (data.modelInfo) {
+      engine.setModelInfo(data.modelInfo);
+    }
+    if (data.librarySources) {
+      for (const [key, cql] of data.librarySources.set) {
+        librarySources.set(key, cql);
+      }
+      for (const key of data.librarySources.deleted) {
+        librarySources.delete(key);
+      }
+      // Included libraries compiled from the old source would keep stale signatures
+      engine.invalidateCompiledLibraries();
+    }
+    respond({ type: 'result', id: data.id, result: plainRawTranslationResult(engine.translate(data.cql, data.selection, data.translatorOptions)) });
+  } catch (error) {
+    respond({ type: 'failure', id: data.id, message: error instanceof Error ? error.message : String(error) });
+  }
+});
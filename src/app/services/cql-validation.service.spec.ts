@@ -5,6 +5,7 @@ import { Injector } from '@angular/core';
 import { describe, expect, it } from 'vitest';
 import { CqlValidationService } from './cql-validation.service';
 import { CqlLocatorUtilsService } from './cql-locator-utils.service';
+import { ModelInfoRegistryService } from './model-info-registry.service';
 import { TranslationService } from './translation.service';
 
 describe('CqlValidationService', () => {
@@ -13,6 +14,7 @@ describe('CqlValidationService', () => {
       providers: [
         CqlValidationService,
         CqlLocatorUtilsService,
+        ModelInfoRegistryService,
         {
           provide: TranslationService,
           useValue: {
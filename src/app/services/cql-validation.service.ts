@@ -1,10 +1,12 @@
 // Author: Preston Lee
 
 import { Injectable, inject } from '@angular/core';
-import { TranslationService, RawTranslationResult, LibraryTranslationContext } from './translation.service';
+import { TranslationService, RawTranslationResult, LibraryTranslationContext, TranslationRequestOptions } from './translation.service';
 import { CqlCompilerException } from '@cqframework/cql/cql-to-elm';
 import { CqlLocatorUtilsService } from './cql-locator-utils.service';
 import type { CqlValidationDoc } from '../models/cql-validation-doc.model';
+import type { ModelInfoProblem } from './model-info-registry.lib';
+import { ModelInfoRegistryService } from './model-info-registry.service';
 
 export type { CqlValidationDoc } from '../models/cql-validation-doc.model';
 
@@ -61,6 +63,7 @@ const EMPTY_VALIDATION: ValidationResult = {
 export class CqlValidationService {
   private translationService = inject(TranslationService);
   private locatorUtils = inject(CqlLocatorUtilsService);
+  private modelInfoRegistry = inject(ModelInfoRegistryService);
 
   validate(cql: string, doc?: CqlValidationDoc): ValidationResult {
     return this.runFullValidation(cql, doc).validation;
@@ -72,19 +75,25 @@ export class CqlValidationService {
       return this.emptyFullValidation();
     }
     const raw = this.translationService.translateCqlToElmRaw(cql);
-    return this.buildFullValidation(raw, doc);
+    return this.buildFullValidation(raw, doc, this.modelInfoRegistry.problems(cql));
   }
 
+  /**
+   * Validate off the main thread in the translation worker. `options` debounce the
+   * request and let a newer one with the same key cancel it, in which case this
+   * rejects with TranslationCancelledError.
+   */
   async runFullValidationAsync(
     cql: string,
     doc?: CqlValidationDoc,
-    context?: LibraryTranslationContext
+    context?: LibraryTranslationContext,
+    options?: TranslationRequestOptions
   ): Promise<FullValidationResult> {
     if (!cql?.trim()) {
       return this.emptyFullValidation();
     }
-    const raw = await this.translationService.translateCqlToElmRawAsync(cql, context);
-    return this.buildFullValidation(raw, doc);
+    const raw = await this.translationService.translateCqlToElmRawAsync(cql, context, options);
+    return this.buildFullValidation(raw, doc, this.modelInfoRegistry.problems(cql, context?.modelInfo));
   }
 
   private emptyFullValidation(): FullValidationResult {
@@ -96,12 +105,53 @@ export class CqlValidationService {
     };
   }
 
-  private buildFullValidation(raw: RawTranslationResult, doc?: CqlValidationDoc): FullValidationResult {
+  /** Translator output plus model info registry problems (unregistered models, version mismatches). */
+  private buildFullValidation(
+    raw: RawTranslationResult,
+    doc?: CqlValidationDoc,
+    modelProblems: ModelInfoProblem[] = []
+  ): FullValidationResult {
+    const validation = this.validateFromRaw(raw, doc);
+    const modelErrors = this.modelProblemsToValidationErrors(modelProblems, doc);
+    const structured = modelProblems.map(problem => this.modelProblemToStructuredError(problem));
     return {
       raw,
-      validation: this.validateFromRaw(raw, doc),
-      structuredErrors: this.getStructuredErrorsFromRaw(raw),
-      structuredWarnings: this.getStructuredWarningsFromRaw(raw)
+      validation: {
+        ...validation,
+        errors: [...modelErrors.filter(e => e.severity === 'error'), ...validation.errors],
+        warnings: [...modelErrors.filter(e => e.severity === 'warning'), ...validation.warnings],
+        hasErrors: validation.hasErrors || modelProblems.some(p => p.severity === 'error')
+      },
+      structuredErrors: [...structured.filter(e => e.severity === 'error'), ...this.getStructuredErrorsFromRaw(raw)],
+      structuredWarnings: [...structured.filter(e => e.severity === 'warning'), ...this.getStructuredWarningsFromRaw(raw)]
+    };
+  }
+
+  private modelProblemsToValidationErrors(problems: ModelInfoProblem[], doc?: CqlValidationDoc): ValidationError[] {
+    return problems.map(problem => {
+      let from = 0;
+      let to = 0;
+      if (doc) {
+        try {
+          const line = doc.line(problem.line);
+          from = line.from;
+          to = line.to;
+        } catch (e) {
+          // Line out of range after an edit; fall back to the start of the document
+        }
+      }
+      return { message: problem.message, from, to, severity: problem.severity, line: problem.line, column: 0 };
+    });
+  }
+
+  private modelProblemToStructuredError(problem: ModelInfoProblem): StructuredError {
+    const locator = this.locatorUtils.formatLocator({ line: problem.line, column: 0 });
+    return {
+      message: problem.message,
+      line: problem.line,
+      column: 0,
+      severity: problem.severity,
+      formattedMessage: `${problem.message} ${locator}`
     };
   }
 
@@ -0,0 +1,55 @@
+// Author: Preston Lee
+
+import { describe, expect, it } from 'vitest';
+import { diffElm } from './elm-diff.lib';
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe('elm-diff.lib', () => {
+  it('pairs replaced lines and keeps unmatched ones on their own side', () => {
+    const diff = diffElm(['a', 'b', 'c', 'd'].join('\n'), ['a', 'B', 'c', 'd', 'e'].join('\n'), 10);
+    expect(diff).toMatchObject({ added: 2, removed: 1 });
+    expect(diff.rows).toEqual([
+      { kind: 'same', left: { number: 1, text: 'a' }, right: { number: 1, text: 'a' } },
+      { kind: 'changed', left: { number: 2, text: 'b' }, right: { number: 2, text: 'B' } },
+      { kind: 'same', left: { number: 3, text: 'c' }, right: { number: 3, text: 'c' } },
+      { kind: 'same', left: { number: 4, text: 'd' }, right: { number: 4, text: 'd' } },
+      { kind: 'added', left: null, right: { number: 5, text: 'e' } }
+    ]);
+  });
+
+  it('finds the shortest edit around moved and removed lines', () => {
+    const diff = diffElm('x\na\nb\nc\ny\n', 'x\nb\nc\na\ny\n', 10);
+    expect(diff).toMatchObject({ added: 1, removed: 1 });
+    expect(diff.rows.map(row => row.kind)).toEqual(['same', 'removed', 'same', 'same', 'added', 'same']);
+  });
+
+  it('folds long runs of unchanged lines outside the context', () => {
+    const before = lines(20);
+    const after = [...before];
+    after[9] = 'changed';
+    const diff = diffElm(before.join('\n'), after.join('\n'), 2);
+    expect(diff.rows.map(row => row.kind)).toEqual([
+      'folded', 'same', 'same', 'changed', 'same', 'same', 'folded'
+    ]);
+    expect(diff.rows[0]).toEqual({ kind: 'folded', count: 7 });
+    expect(diff.rows[6]).toEqual({ kind: 'folded', count: 8 });
+    expect(diffElm(before.join('\n'), before.join('\n'))).toEqual({ rows: [{ kind: 'folded', count: 20 }], added: 0, removed: 0 });
+  });
+
+  it('replaces a large changed block as a whole instead of tracing every edit', () => {
+    const before = ['header', ...lines(3000, 'old'), 'footer'];
+    const after = ['header', ...lines(3000, 'new'), 'footer'];
+    const started = performance.now();
+    const diff = diffElm(before.join('\n'), after.join('\n'), 1);
+    expect(performance.now() - started).toBeLessThan(2000);
+    expect(diff).toMatchObject({ added: 3000, removed: 3000 });
+    expect(diff.rows).toHaveLength(3002);
+    expect(diff.rows[1]).toEqual({
+      kind: 'changed',
+      left: { number: 2, text: 'old 1' },
+      right: { number: 2, text: 'new 1' }
+    });
+    expect(diff.rows.slice(1, -1).every(row => row.kind === 'changed')).toBe(true);
+  });
+});
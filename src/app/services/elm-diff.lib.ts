@@ -0,0 +1,216 @@
+// Author: Preston Lee
+
+export interface ElmDiffLine {
+  /** 1-based line number in its own document. */
+  number: number;
+  text: string;
+}
+
+export type ElmDiffRow =
+  | { kind: 'same' | 'removed' | 'added' | 'changed'; left: ElmDiffLine | null; right: ElmDiffLine | null }
+  | { kind: 'folded'; count: number };
+
+export interface ElmDiff {
+  rows: ElmDiffRow[];
+  added: number;
+  removed: number;
+}
+
+/**
+ * Edit distance past which the changed middle is shown as one removed block and one added block.
+ * The trace kept for backtracking grows with its square, so unrelated documents stay cheap.
+ */
+const MAX_EDIT_DISTANCE = 1000;
+
+type LineOp = { kind: 'same'; left: number; right: number } | { kind: 'removed'; left: number } | { kind: 'added'; right: number };
+
+/**
+ * Side-by-side line diff of two ELM documents, e.g. the ELM saved on a Library and a fresh translation.
+ * Runs of unchanged lines longer than twice `context` are folded into a single row.
+ */
+export function diffElm(before: string, after: string, context = 3): ElmDiff {
+  const left = splitLines(before);
+  const right = splitLines(after);
+  const ops = diffLines(left, right);
+
+  const rows: ElmDiffRow[] = [];
+  let added = 0;
+  let removed = 0;
+  let removedRun: number[] = [];
+  let addedRun: number[] = [];
+
+  const flushChanges = () => {
+    for (let i = 0; i < Math.max(removedRun.length, addedRun.length); i++) {
+      const l = removedRun[i];
+      const r = addedRun[i];
+      rows.push({
+        kind: l !== undefined && r !== undefined ? 'changed' : l !== undefined ? 'removed' : 'added',
+        left: l !== undefined ? { number: l + 1, text: left[l] } : null,
+        right: r !== undefined ? { number: r + 1, text: right[r] } : null
+      });
+    }
+    removedRun = [];
+    addedRun = [];
+  };
+
+  for (const op of ops) {
+    if (op.kind === 'removed') {
+      removed++;
+      removedRun.push(op.left);
+    } else if (op.kind === 'added') {
+      added++;
+      addedRun.push(op.right);
+    } else {
+      flushChanges();
+      rows.push({
+        kind: 'same',
+        left: { number: op.left + 1, text: left[op.left] },
+        right: { number: op.right + 1, text: right[op.right] }
+      });
+    }
+  }
+  flushChanges();
+
+  return { rows: foldUnchanged(rows, context), added, removed };
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function foldUnchanged(rows: ElmDiffRow[], context: number): ElmDiffRow[] {
+  const folded: ElmDiffRow[] = [];
+  let start = 0;
+  while (start < rows.length) {
+    if (rows[start].kind !== 'same') {
+      folded.push(rows[start++]);
+      continue;
+    }
+    let end = start;
+    while (end < rows.length && rows[end].kind === 'same') {
+      end++;
+    }
+    const keepBefore = start === 0 ? 0 : context;
+    const keepAfter = end === rows.length ? 0 : context;
+    if (end - start > keepBefore + keepAfter) {
+      folded.push(...rows.slice(start, start + keepBefore));
+      folded.push({ kind: 'folded', count: end - start - keepBefore - keepAfter });
+      folded.push(...rows.slice(end - keepAfter, end));
+    } else {
+      folded.push(...rows.slice(start, end));
+    }
+    start = end;
+  }
+  return folded;
+}
+
+/**
+ * Myers' O((N+M)D) shortest edit script, after trimming the common prefix and suffix.
+ * Falls back to replacing the whole middle once D exceeds {@link MAX_EDIT_DISTANCE}.
+ */
+function diffLines(a: string[], b: string[]): LineOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: LineOp[] = [];
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ kind: 'same', left: i, right: i });
+  }
+  for (const op of middleDiff(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix))) {
+    if (op.kind === 'same') {
+      ops.push({ kind: 'same', left: op.left + prefix, right: op.right + prefix });
+    } else if (op.kind === 'removed') {
+      ops.push({ kind: 'removed', left: op.left + prefix });
+    } else {
+      ops.push({ kind: 'added', right: op.right + prefix });
+    }
+  }
+  for (let i = suffix; i > 0; i--) {
+    ops.push({ kind: 'same', left: a.length - i, right: b.length - i });
+  }
+  return ops;
+}
+
+function middleDiff(a: string[], b: string[]): LineOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  if (max === 0) {
+    return [];
+  }
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x per diagonal k in [-d, d] before step d, indexed k + d.
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+  return replaceBlock(n, m);
+}
+
+function replaceBlock(n: number, m: number): LineOp[] {
+  const ops: LineOp[] = [];
+  for (let left = 0; left < n; left++) {
+    ops.push({ kind: 'removed', left });
+  }
+  for (let right = 0; right < m; right++) {
+    ops.push({ kind: 'added', right });
+  }
+  return ops;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): LineOp[] {
+  const ops: LineOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ kind: 'same', left: x, right: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ kind: 'added', right: prevY });
+      } else {
+        ops.push({ kind: 'removed', left: prevX });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
@@ -1,6 +1,7 @@
 // Author: Preston Lee
 
 import { Injectable } from '@angular/core';
+import { librarySourceKey } from './cql-translation-engine.lib';
 
 export interface ElmIncludeRef {
   path: string;
@@ -19,7 +20,7 @@ export class ElmIncludeParser {
   private static readonly bundledLibraryPaths = new Set(['FHIRHelpers']);
 
   cacheKey(path: string, system: string | null | undefined, version: string | null | undefined): string {
-    return `${system ?? ''}|${path}|${version ?? ''}`;
+    return librarySourceKey(path, system, version);
   }
 
   isBundledLibraryPath(path: string): boolean {
@@ -36,6 +36,11 @@ describe('elm-locator.lib', () => {
     });
   });
 
+  it('parseLocator reads single-position locators of one-token expressions', () => {
+    expect(parseLocator('3:11')).toEqual({ startLine: 3, startColumn: 11, endLine: 3, endColumn: 11 });
+    expect(parseLocator('3:11-')).toBeNull();
+  });
+
   it('elmColumnToCodeMirror converts 1-based ELM columns to 0-based CodeMirror columns', () => {
     expect(elmColumnToCodeMirror(15)).toBe(14);
     expect(elmColumnToCodeMirror(1)).toBe(0);
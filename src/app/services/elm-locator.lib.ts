@@ -15,6 +15,8 @@ export interface CqlDefinition {
   name: string;
   kind: CqlDefinitionKind;
   span: CqlSourceSpan;
+  /** ELM result type, e.g. `List<FHIR.Encounter>`; null unless the translator emitted result types. */
+  resultType?: string | null;
 }
 
 export type CqlReferenceKind = 'expressionRef' | 'functionRef' | 'includeStatement';
@@ -25,14 +27,34 @@ export interface CqlReference {
   libraryName: string | null;
   span: CqlSourceSpan;
   includeRef?: ElmIncludeRef;
+  resultType?: string | null;
+}
+
+/** A located ELM expression and the result type the translator inferred for it. */
+export interface CqlTypedExpression {
+  span: CqlSourceSpan;
+  elmType: string;
+  resultType: string;
+}
+
+/** A define or function that find-references and rename act on. */
+export interface CqlSymbol {
+  name: string;
+  kind: 'expression' | 'function';
+  /** Include alias when the symbol is defined in an included library; null when local. */
+  libraryName: string | null;
 }
 
 export interface CqlDefinitionIndex {
+  /** Name of the library the ELM was translated from. */
+  libraryName: string | null;
   definitions: Map<string, CqlDefinition[]>;
   references: CqlReference[];
   includeStatements: CqlReference[];
   includes: Map<string, ElmIncludeRef>;
   libraryHeaderSpan: CqlSourceSpan | null;
+  /** Every located expression that carries a result type, for hover. */
+  expressions: CqlTypedExpression[];
 }
 
 export interface CqlReferenceMatch {
@@ -55,7 +77,16 @@ export interface CqlValidationDoc {
   line: (lineNumber: number) => CqlValidationDocLine;
 }
 
-const LOCATOR_PATTERN = /^(\d+):(\d+)-(\d+):(\d+)$/;
+// Single-token expressions carry a bare `line:column` locator.
+const LOCATOR_PATTERN = /^(\d+):(\d+)(?:-(\d+):(\d+))?$/;
+
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+/** Model names shown for the type namespaces ELM uses. */
+const TYPE_NAMESPACE_MODELS: Record<string, string> = {
+  'urn:hl7-org:elm-types:r1': 'System',
+  'http://hl7.org/fhir': 'FHIR'
+};
 
 export function parseLocator(locator: string | null | undefined): CqlSourceSpan | null {
   if (!locator?.trim()) {
@@ -68,11 +99,64 @@ export function parseLocator(locator: string | null | undefined): CqlSourceSpan
   return {
     startLine: Number(match[1]),
     startColumn: Number(match[2]),
-    endLine: Number(match[3]),
-    endColumn: Number(match[4])
+    endLine: Number(match[3] ?? match[1]),
+    endColumn: Number(match[4] ?? match[2])
   };
 }
 
+export function xsiType(element: Element): string {
+  return element.getAttribute('xsi:type') ?? element.getAttributeNS(XSI_NAMESPACE, 'type') ?? '';
+}
+
+function childElements(element: Element, localName: string): Element[] {
+  return Array.from(element.children).filter(child => child.localName === localName);
+}
+
+function qualifiedTypeName(element: Element, name: string): string {
+  const separator = name.indexOf(':');
+  if (separator < 0) {
+    return name;
+  }
+  const prefix = name.slice(0, separator);
+  const uri = element.lookupNamespaceURI(prefix);
+  const model = (uri && TYPE_NAMESPACE_MODELS[uri]) ?? prefix;
+  return `${model}.${name.slice(separator + 1)}`;
+}
+
+function typeSpecifierText(specifier: Element | undefined): string {
+  if (!specifier) {
+    return 'Any';
+  }
+  const type = xsiType(specifier);
+  if (type.endsWith('ListTypeSpecifier')) {
+    return `List<${typeSpecifierText(childElements(specifier, 'elementType')[0])}>`;
+  }
+  if (type.endsWith('IntervalTypeSpecifier')) {
+    return `Interval<${typeSpecifierText(childElements(specifier, 'pointType')[0])}>`;
+  }
+  if (type.endsWith('TupleTypeSpecifier')) {
+    const elements = childElements(specifier, 'element').map(
+      e => `${e.getAttribute('name')} ${typeSpecifierText(childElements(e, 'elementType')[0])}`
+    );
+    return `Tuple { ${elements.join(', ')} }`;
+  }
+  if (type.endsWith('ChoiceTypeSpecifier')) {
+    const choices = [...childElements(specifier, 'choice'), ...childElements(specifier, 'type')];
+    return `Choice<${choices.map(c => typeSpecifierText(c)).join(', ')}>`;
+  }
+  return qualifiedTypeName(specifier, specifier.getAttribute('name') ?? 'Any');
+}
+
+/** Result type of an ELM element emitted with the translator's `EnableResultTypes` option. */
+export function elmResultType(element: Element): string | null {
+  const name = element.getAttribute('resultTypeName');
+  if (name) {
+    return qualifiedTypeName(element, name);
+  }
+  const specifier = childElements(element, 'resultTypeSpecifier')[0];
+  return specifier ? typeSpecifierText(specifier) : null;
+}
+
 export function spanSize(span: CqlSourceSpan): number {
   const lineSpan = span.endLine - span.startLine;
   const colSpan = span.endColumn - span.startColumn;
@@ -118,9 +202,16 @@ export function buildDefinitionIndex(elmXml: string, includeParser: ElmIncludePa
   const includeStatements: CqlReference[] = [];
   const includes = new Map<string, ElmIncludeRef>();
 
-  const addDefinition = (name: string, kind: CqlDefinitionKind, span: CqlSourceSpan): void => {
+  const expressions: CqlTypedExpression[] = [];
+
+  const addDefinition = (
+    name: string,
+    kind: CqlDefinitionKind,
+    span: CqlSourceSpan,
+    resultType: string | null = null
+  ): void => {
     const existing = definitions.get(name) ?? [];
-    existing.push({ name, kind, span });
+    existing.push({ name, kind, span, resultType });
     definitions.set(name, existing);
   };
 
@@ -131,12 +222,8 @@ export function buildDefinitionIndex(elmXml: string, includeParser: ElmIncludePa
     if (!name || !span) {
       continue;
     }
-    const typeAttr =
-      def.getAttribute('xsi:type') ??
-      def.getAttributeNS('http://www.w3.org/2001/XMLSchema-instance', 'type') ??
-      '';
-    const kind: CqlDefinitionKind = typeAttr.includes('FunctionDef') ? 'function' : 'expression';
-    addDefinition(name, kind, span);
+    const kind: CqlDefinitionKind = xsiType(def).includes('FunctionDef') ? 'function' : 'expression';
+    addDefinition(name, kind, span, elmResultType(def));
   }
 
   for (const def of doc.querySelectorAll('contexts > def')) {
@@ -156,17 +243,19 @@ export function buildDefinitionIndex(elmXml: string, includeParser: ElmIncludePa
       continue;
     }
 
-    const typeAttr =
-      element.getAttribute('xsi:type') ??
-      element.getAttributeNS('http://www.w3.org/2001/XMLSchema-instance', 'type') ??
-      '';
+    const typeAttr = xsiType(element);
+    const resultType = elmResultType(element);
+    if (resultType && element.localName !== 'def') {
+      expressions.push({ span, elmType: typeAttr, resultType });
+    }
 
     if (typeAttr.includes('ExpressionRef')) {
       references.push({
         kind: 'expressionRef',
         name: element.getAttribute('name'),
         libraryName: element.getAttribute('libraryName'),
-        span
+        span,
+        resultType
       });
       continue;
     }
@@ -176,7 +265,8 @@ export function buildDefinitionIndex(elmXml: string, includeParser: ElmIncludePa
         kind: 'functionRef',
         name: element.getAttribute('name'),
         libraryName: element.getAttribute('libraryName'),
-        span
+        span,
+        resultType
       });
     }
   }
@@ -214,10 +304,7 @@ export function buildDefinitionIndex(elmXml: string, includeParser: ElmIncludePa
 
   let libraryHeaderSpan: CqlSourceSpan | null = null;
   for (const annotation of doc.querySelectorAll('annotation')) {
-    const typeAttr =
-      annotation.getAttribute('xsi:type') ??
-      annotation.getAttributeNS('http://www.w3.org/2001/XMLSchema-instance', 'type') ??
-      '';
+    const typeAttr = xsiType(annotation);
     if (!typeAttr.endsWith(':Annotation') && typeAttr !== 'a:Annotation') {
       continue;
     }
@@ -228,12 +315,16 @@ export function buildDefinitionIndex(elmXml: string, includeParser: ElmIncludePa
     }
   }
 
+  const identifier = childElements(doc.documentElement, 'identifier')[0];
+
   return {
+    libraryName: identifier?.getAttribute('id') ?? null,
     definitions,
     references,
     includeStatements,
     includes,
-    libraryHeaderSpan
+    libraryHeaderSpan,
+    expressions
   };
 }
 
@@ -264,6 +355,55 @@ export function findReferenceAt(
   return { reference: candidates[0] };
 }
 
+/**
+ * The define or function at a position: a reference to one, or the header
+ * line of its definition.
+ */
+export function findSymbolAt(index: CqlDefinitionIndex, line: number, column: number): CqlSymbol | null {
+  const match = findReferenceAt(index, line, column);
+  if (match && match.reference.kind !== 'includeStatement' && match.reference.name) {
+    return {
+      name: match.reference.name,
+      kind: match.reference.kind === 'functionRef' ? 'function' : 'expression',
+      libraryName: match.reference.libraryName
+    };
+  }
+  for (const defs of index.definitions.values()) {
+    for (const def of defs) {
+      if (def.kind !== 'context' && def.span.startLine === line && positionContains(def.span, line, column)) {
+        return { name: def.name, kind: def.kind, libraryName: null };
+      }
+    }
+  }
+  return null;
+}
+
+/** References to a symbol in this library, in source order. */
+export function findReferences(index: CqlDefinitionIndex, symbol: CqlSymbol): CqlReference[] {
+  const kind: CqlReferenceKind = symbol.kind === 'function' ? 'functionRef' : 'expressionRef';
+  return index.references
+    .filter(r => r.kind === kind && r.name === symbol.name && (r.libraryName ?? null) === symbol.libraryName)
+    .sort((a, b) => a.span.startLine - b.span.startLine || a.span.startColumn - b.span.startColumn);
+}
+
+/** Innermost typed expression at a position. */
+export function findExpressionAt(
+  index: CqlDefinitionIndex,
+  line: number,
+  column: number
+): CqlTypedExpression | null {
+  let best: CqlTypedExpression | null = null;
+  for (const expression of index.expressions) {
+    if (!positionContains(expression.span, line, column)) {
+      continue;
+    }
+    if (!best || spanSize(expression.span) < spanSize(best.span)) {
+      best = expression;
+    }
+  }
+  return best;
+}
+
 export function findDefinition(
   index: CqlDefinitionIndex,
   name: string,
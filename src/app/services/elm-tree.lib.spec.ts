@@ -0,0 +1,59 @@
+// Author: Preston Lee
+
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { buildElmTree, elmTreeIdsToDepth } from './elm-tree.lib';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const helloWorldElm = readFileSync(join(fixturesDir, 'hello-world.elm.xml'), 'utf8');
+
+const typedElm = `<?xml version="1.0" encoding="UTF-8"?>
+<library xmlns="urn:hl7-org:elm:r1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:t="urn:hl7-org:elm-types:r1" xmlns:a="urn:hl7-org:cql-annotations:r1">
+  <annotation xsi:type="a:CqlToElmInfo" translatorOptions="EnableLocators,EnableResultTypes"/>
+  <statements>
+    <def localId="3" locator="3:1-3:27" name="Numbers" accessLevel="Public">
+      <resultTypeSpecifier xsi:type="ListTypeSpecifier"><elementType name="t:Integer" xsi:type="NamedTypeSpecifier"/></resultTypeSpecifier>
+      <expression localId="2" locator="3:19-3:27" xsi:type="List">
+        <element localId="1" locator="3:20" resultTypeName="t:Integer" valueType="t:Integer" value="1" xsi:type="Literal"/>
+      </expression>
+    </def>
+  </statements>
+</library>`;
+
+describe('elm-tree.lib', () => {
+  it('builds a tree of ELM elements annotated with result types and locators', () => {
+    const root = buildElmTree(typedElm)!;
+    expect(root.element).toBe('library');
+    expect(root.children.map(child => child.element)).toEqual(['statements']);
+
+    const def = root.children[0].children[0];
+    expect(def).toMatchObject({
+      id: '0.0.0',
+      element: 'def',
+      type: null,
+      name: 'Numbers',
+      localId: '3',
+      locator: '3:1-3:27',
+      resultType: 'List<System.Integer>'
+    });
+    expect(def.children.map(child => child.element)).toEqual(['expression']);
+
+    const literal = def.children[0].children[0];
+    expect(literal).toMatchObject({ type: 'Literal', resultType: 'System.Integer' });
+    expect(literal.span).toEqual({ startLine: 3, startColumn: 20, endLine: 3, endColumn: 20 });
+  });
+
+  it('names usings and includes by their local identifier', () => {
+    const root = buildElmTree(helloWorldElm)!;
+    const includes = root.children.find(child => child.element === 'includes')!;
+    expect(includes.children[0]).toMatchObject({ name: 'FHIRHelpers', locator: '10:1-10:35', resultType: null });
+    expect(elmTreeIdsToDepth(root, 2)).toEqual(['0', ...root.children.map(child => child.id)]);
+  });
+
+  it('returns null for empty or malformed ELM', () => {
+    expect(buildElmTree('')).toBeNull();
+    expect(buildElmTree('<library')).toBeNull();
+  });
+});
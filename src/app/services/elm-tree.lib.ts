@@ -0,0 +1,63 @@
+// Author: Preston Lee
+
+import { CqlSourceSpan, elmResultType, parseLocator, xsiType } from './elm-locator.lib';
+
+/** One ELM element in the tree view of a translated library. */
+export interface ElmTreeNode {
+  /** Path of child indexes from the root, e.g. `0.3.1`; stable across re-renders of the same ELM. */
+  id: string;
+  /** Element name, e.g. `def` or `operand`. */
+  element: string;
+  /** ELM type from `xsi:type` without its prefix, e.g. `Equal`. */
+  type: string | null;
+  /** `name` or `localIdentifier` of definitions, usings and includes. */
+  name: string | null;
+  localId: string | null;
+  locator: string | null;
+  span: CqlSourceSpan | null;
+  /** Null unless the translator emitted result types. */
+  resultType: string | null;
+  children: ElmTreeNode[];
+}
+
+/** Children shown elsewhere in a node: source narrative and the node's own result type. */
+const HIDDEN_ELEMENTS = new Set(['annotation', 'resultTypeSpecifier']);
+
+/** Tree of the ELM elements in a translated library, or null when the XML does not parse. */
+export function buildElmTree(elmXml: string): ElmTreeNode | null {
+  if (!elmXml?.trim()) {
+    return null;
+  }
+  const doc = new DOMParser().parseFromString(elmXml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || !doc.documentElement) {
+    return null;
+  }
+  return elmTreeNode(doc.documentElement, '0');
+}
+
+function elmTreeNode(element: Element, id: string): ElmTreeNode {
+  const type = xsiType(element);
+  const locator = element.getAttribute('locator');
+  const children = Array.from(element.children)
+    .filter(child => !HIDDEN_ELEMENTS.has(child.localName))
+    .map((child, index) => elmTreeNode(child, `${id}.${index}`));
+  return {
+    id,
+    element: element.localName,
+    type: type ? type.slice(type.indexOf(':') + 1) : null,
+    name: element.getAttribute('name') ?? element.getAttribute('localIdentifier'),
+    localId: element.getAttribute('localId'),
+    locator,
+    span: parseLocator(locator),
+    resultType: elmResultType(element),
+    children
+  };
+}
+
+/** Ids of the nodes down to the given depth, for the initially expanded view. */
+export function elmTreeIdsToDepth(root: ElmTreeNode, depth: number): string[] {
+  if (depth <= 0) {
+    return [];
+  }
+  return [root.id, ...root.children.flatMap(child => elmTreeIdsToDepth(child, depth - 1))];
+}
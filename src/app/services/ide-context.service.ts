@@ -1,6 +1,7 @@
 // Author: Preston Lee
 
 import { Injectable, inject, signal, computed } from '@angular/core';
+import { Bundle } from 'fhir/r4';
 import { IdeContextType, IdeExecutionSubject } from '../models/ide-context.model';
 import { PatientService } from './patient.service';
 import { GroupService } from './group.service';
@@ -14,9 +15,12 @@ export class IdeContextService {
 
 	private readonly _contextType = signal<IdeContextType>('Patient');
 	private readonly _selectionVersion = signal(0);
+	private readonly _localBundle = signal<Bundle | null>(null);
 
 	readonly contextType = this._contextType.asReadonly();
 	readonly selectionVersion = this._selectionVersion.asReadonly();
+	/** Uploaded patient data the in-browser engine runs against instead of the FHIR server. */
+	readonly localBundle = this._localBundle.asReadonly();
 
 	readonly selectedCount = computed(() => {
 		this._selectionVersion();
@@ -25,6 +29,10 @@ export class IdeContextService {
 
 	readonly hasSelection = computed(() => this.selectedCount() > 0);
 
+	setLocalBundle(bundle: Bundle | null): void {
+		this._localBundle.set(bundle);
+	}
+
 	notifySelectionChanged(): void {
 		this._selectionVersion.update(version => version + 1);
 	}
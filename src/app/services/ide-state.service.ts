@@ -2,8 +2,11 @@
 
 import { Injectable, signal, computed } from '@angular/core';
 import { IdePanel, IdePanelTab, IdePanelState } from '../components/cql-ide/panels/ide-panel-tab.interface';
-import { LibraryResource, EditorFile, ExecutionResult, OutputSection, OutputType } from '../components/cql-ide/shared/ide-types';
+import { LibraryResource, EditorFile, ExecutionResult, OutputSection, OutputType, ReferenceSearchResult } from '../components/cql-ide/shared/ide-types';
 import { Library, Patient, Parameters } from 'fhir/r4';
+import type { CqlExecutionEngine } from './cql-execution.service';
+import type { TranslatorOptionsProfile } from '../models/translator-options.model';
+import type { Tree } from '@lezer/common';
 
 /** Scopes for tab data invalidation. When data changes (e.g. library deleted from server), call invalidateTabData(scope) so tabs that display that data can refresh. Tabs subscribe via effect(() => tabDataInvalidation()[scope]). */
 export const TabDataScope = {
@@ -19,6 +22,12 @@ export interface EditorState {
   isValidSyntax: boolean;
 }
 
+/** A CQL editor's document and its incrementally maintained Lezer syntax tree. */
+export interface EditorSyntaxSnapshot {
+  text: string;
+  tree: Tree;
+}
+
 @Injectable({
   providedIn: 'root'
 })
@@ -68,6 +77,9 @@ export class IdeStateService {
     isValidSyntax: true
   });
 
+  // Syntax trees of the open CQL editors, by library id
+  private _editorSyntax = signal<Record<string, EditorSyntaxSnapshot>>({});
+
   // Library resources
   private _libraryResources = signal<LibraryResource[]>([]);
   private _activeLibraryId = signal<string | null>(null);
@@ -80,6 +92,7 @@ export class IdeStateService {
 
   // Execution state
   private _isExecuting = signal<boolean>(false);
+  private _executionEngine = signal<CqlExecutionEngine>('server');
   private _isEvaluating = signal<boolean>(false);
   private _isTranslating = signal<boolean>(false);
   private _executionResults = signal<any>(null);
@@ -93,9 +106,12 @@ export class IdeStateService {
   private _library = signal<Library | null>(null);
   private _evaluationResults = signal<Parameters | null>(null);
   private _elmTranslationResults = signal<string | null>(null);
+  private _elmTranslationProfile = signal<TranslatorOptionsProfile | null>(null);
+  private _elmTranslationJson = signal<string | null>(null);
   private _translationErrors = signal<string[]>([]);
   private _translationWarnings = signal<string[]>([]);
   private _translationMessages = signal<string[]>([]);
+  private _referenceResults = signal<ReferenceSearchResult | null>(null);
 
   // Drag and drop
   private _draggedTab = signal<IdePanelTab | null>(null);
@@ -116,12 +132,14 @@ export class IdeStateService {
   // Public computed signals
   public panelState = computed(() => this._panelState());
   public editorState = computed(() => this._editorState());
+  public editorSyntax = computed(() => this._editorSyntax());
   public libraryResources = computed(() => this._libraryResources());
   public activeLibraryId = computed(() => this._activeLibraryId());
   public reloadTrigger = computed(() => this._reloadTrigger());
   public editorFiles = computed(() => this._editorFiles());
   public activeFileId = computed(() => this._activeFileId());
   public isExecuting = computed(() => this._isExecuting());
+  public executionEngine = computed(() => this._executionEngine());
   public isEvaluating = computed(() => this._isEvaluating());
   public isTranslating = computed(() => this._isTranslating());
   public executionResults = computed(() => this._executionResults());
@@ -133,9 +151,13 @@ export class IdeStateService {
   public library = computed(() => this._library());
   public evaluationResults = computed(() => this._evaluationResults());
   public elmTranslationResults = computed(() => this._elmTranslationResults());
+  /** Translator options profile that produced the current ELM. */
+  public elmTranslationProfile = computed(() => this._elmTranslationProfile());
+  public elmTranslationJson = computed(() => this._elmTranslationJson());
   public translationErrors = computed(() => this._translationErrors());
   public translationWarnings = computed(() => this._translationWarnings());
   public translationMessages = computed(() => this._translationMessages());
+  public referenceResults = computed(() => this._referenceResults());
   public draggedTab = computed(() => this._draggedTab());
   public dragOverPanel = computed(() => this._dragOverPanel());
   public navigateToLineRequest = computed(() => this._navigateToLineRequest());
@@ -236,10 +258,22 @@ export class IdeStateService {
     this._editorState.update(state => ({ ...state, ...updates }));
   }
 
+  /** Record the editor's syntax tree for a library, or forget it with `null` when the editor closes. */
+  updateEditorSyntax(libraryId: string, snapshot: EditorSyntaxSnapshot | null): void {
+    this._editorSyntax.update(current => {
+      const { [libraryId]: _previous, ...rest } = current;
+      return snapshot ? { ...rest, [libraryId]: snapshot } : rest;
+    });
+  }
+
   setExecuting(executing: boolean): void {
     this._isExecuting.set(executing);
   }
 
+  setExecutionEngine(engine: CqlExecutionEngine): void {
+    this._executionEngine.set(engine);
+  }
+
   setEvaluating(evaluating: boolean): void {
     this._isEvaluating.set(evaluating);
   }
@@ -452,8 +486,14 @@ export class IdeStateService {
     this._evaluationResults.set(results);
   }
 
-  setElmTranslationResults(results: string | null): void {
+  setElmTranslationResults(
+    results: string | null,
+    profile: TranslatorOptionsProfile | null = null,
+    json: string | null = null
+  ): void {
     this._elmTranslationResults.set(results);
+    this._elmTranslationProfile.set(results ? profile : null);
+    this._elmTranslationJson.set(results ? json : null);
   }
 
   setTranslationErrors(errors: string[]): void {
@@ -470,11 +510,37 @@ export class IdeStateService {
 
   clearElmTranslationResults(): void {
     this._elmTranslationResults.set(null);
+    this._elmTranslationProfile.set(null);
+    this._elmTranslationJson.set(null);
     this._translationErrors.set([]);
     this._translationWarnings.set([]);
     this._translationMessages.set([]);
   }
 
+  /** Show find-all-references results in the bottom panel's References tab, re-adding the tab if it was closed. */
+  showReferenceResults(result: ReferenceSearchResult): void {
+    this._referenceResults.set(result);
+    const bottom = this.getPanel('bottom');
+    if (!bottom) {
+      return;
+    }
+    if (!bottom.tabs.some(tab => tab.id === 'references-tab')) {
+      this.addTabToPanel('bottom', {
+        id: 'references-tab',
+        title: 'References',
+        icon: 'bi-link-45deg',
+        type: 'references',
+        isActive: false,
+        isClosable: true,
+        component: null
+      });
+    }
+    this.setActiveTab('bottom', 'references-tab');
+    if (!bottom.isVisible) {
+      this.updatePanel('bottom', { isVisible: true });
+    }
+  }
+
   // Drag and drop management
   setDraggedTab(tab: IdePanelTab | null): void {
     this._draggedTab.set(tab);
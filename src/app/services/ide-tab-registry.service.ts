@@ -59,6 +59,14 @@ export class IdeTabRegistryService {
       defaultPanel: 'bottom'
     });
 
+    this.registerTabType({
+      type: 'references',
+      title: 'References',
+      component: null as any,
+      allowedPanels: ['bottom'],
+      defaultPanel: 'bottom'
+    });
+
     this.registerTabType({
       type: 'output',
       title: 'Console',
@@ -5,7 +5,8 @@ import { LibraryResource } from '../components/cql-ide/shared/ide-types';
 import { LibraryTranslationContext } from './cql-library-source.service';
 
 /**
- * Builds translation context from IDE library resources for include resolution.
+ * Builds translation context from IDE library resources for include resolution
+ * and model info selection.
  */
 @Injectable({
   providedIn: 'root'
@@ -17,7 +18,8 @@ export class LibraryTranslationContextBuilder {
     }
     return {
       fhirLibraryId: library.library?.id ?? library.id,
-      isDirty: library.isDirty
+      isDirty: library.isDirty,
+      modelInfo: library.modelInfo
     };
   }
 }
@@ -0,0 +1,178 @@
+// Author: Preston Lee
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Library } from 'fhir/r4';
+import { describe, expect, it } from 'vitest';
+import {
+  ModelInfoEntry,
+  createModelInfoEntry,
+  modelInfoArtifactsFromLibraries,
+  modelInfoProblems,
+  modelInfoSelectionKey,
+  readModelInfoHeader,
+  resolveHelperLibrary,
+  resolveModelInfo,
+  restoreModelInfoEntries
+} from './model-info-registry.lib';
+import { encodeUtf8Base64 } from './utf8-encoding.lib';
+
+const fhirModelInfo = readFileSync(join(process.cwd(), 'public/cql/fhir-modelinfo-4.0.1.xml'), 'utf8');
+
+function modelInfo(name: string, version: string, requires: string[] = []): string {
+  const required = requires
+    .map(r => {
+      const [n, v] = r.split(' ');
+      return `<ns4:requiredModelInfo name="${n}" version="${v}"/>`;
+    })
+    .join('');
+  return `<?xml version="1.0"?><ns4:modelInfo xmlns:ns4="urn:hl7-org:elm-modelinfo:r1" name="${name}" version="${version}" url="http://hl7.org/fhir/us/${name.toLowerCase()}">${required}</ns4:modelInfo>`;
+}
+
+function helper(name: string, version: string) {
+  return { name, version, cql: `library ${name} version '${version}'` };
+}
+
+const fhir = createModelInfoEntry(fhirModelInfo, 'bundled', '/cql/fhir-modelinfo-4.0.1.xml', [
+  helper('FHIRHelpers', '4.0.1')
+])!;
+const qicore411 = createModelInfoEntry(modelInfo('QICore', '4.1.1', ['System 1.0.0', 'FHIR 4.0.1']), 'package', 'hl7.fhir.us.qicore#4.1.1', [
+  helper('FHIRHelpers', '4.0.1'),
+  helper('QICoreCommon', '1.0.000')
+])!;
+const qicore600 = createModelInfoEntry(modelInfo('QICore', '6.0.0', ['FHIR 4.0.1']), 'upload', 'qicore-6.xml')!;
+const entries: ModelInfoEntry[] = [fhir, qicore411, qicore600];
+
+describe('model-info-registry.lib', () => {
+  it('reads the header of a model info document', () => {
+    expect(readModelInfoHeader(fhirModelInfo)).toEqual({
+      name: 'FHIR',
+      version: '4.0.1',
+      url: 'http://hl7.org/fhir',
+      requires: [{ name: 'System', version: '1.0.0' }]
+    });
+    expect(readModelInfoHeader(modelInfo('QICore', '4.1.1', ['FHIR 4.0.1']))?.requires).toEqual([
+      { name: 'FHIR', version: '4.0.1' }
+    ]);
+    expect(readModelInfoHeader('<library/>')).toBeNull();
+  });
+
+  it('extracts model info and helper libraries from package Library resources', () => {
+    const libraries: Library[] = [
+      {
+        resourceType: 'Library',
+        status: 'active',
+        type: {},
+        content: [{ contentType: 'application/xml', data: encodeUtf8Base64(modelInfo('USCore', '3.1.1')) }]
+      },
+      {
+        resourceType: 'Library',
+        status: 'active',
+        type: {},
+        content: [
+          { contentType: 'text/cql', data: encodeUtf8Base64("library USCoreCommon version '0.1.0'\nusing USCore version '3.1.1'") },
+          { contentType: 'application/elm+xml', data: encodeUtf8Base64('<library/>') }
+        ]
+      }
+    ];
+
+    const artifacts = modelInfoArtifactsFromLibraries(libraries);
+    expect(artifacts.modelInfoXml.map(xml => readModelInfoHeader(xml)?.name)).toEqual(['USCore']);
+    expect(artifacts.helpers.map(h => [h.name, h.version])).toEqual([['USCoreCommon', '0.1.0']]);
+  });
+
+  it('resolves entries by version and per-library selection', () => {
+    expect(resolveModelInfo(entries, 'QICore', '4.1.1')).toBe(qicore411);
+    expect(resolveModelInfo(entries, 'QICore', null)).toBe(qicore600);
+    expect(resolveModelInfo(entries, 'QICore', null, { QICore: qicore411.id })).toBe(qicore411);
+    expect(resolveModelInfo(entries, 'QICore', '4.1.1', { QICore: qicore600.id })).toBe(qicore411);
+    expect(resolveModelInfo(entries, 'QICore', '5.0.0')).toBeNull();
+    expect(resolveModelInfo(entries, 'USCore', '3.1.1')).toBeNull();
+
+    expect(resolveHelperLibrary(entries, 'QICoreCommon', '1.0.000')).toContain('QICoreCommon');
+    expect(resolveHelperLibrary(entries, 'FHIRHelpers', '4.0.1', { QICore: qicore411.id })).toBe(
+      qicore411.helpers[0].cql
+    );
+    expect(resolveHelperLibrary(entries, 'FHIRHelpers', '4.4.000')).toBeNull();
+
+    expect(modelInfoSelectionKey({ QICore: 'b', FHIR: 'a' })).toBe('FHIR=a;QICore=b');
+    expect(modelInfoSelectionKey(undefined)).toBe('');
+  });
+
+  it('reports unregistered models and version mismatches on their lines', () => {
+    const cql = [
+      "library Measure version '1.0.0'",
+      "using QICore version '5.0.0'",
+      "using USCore version '3.1.1'",
+      "include FHIRHelpers version '4.0.1'"
+    ].join('\n');
+
+    expect(modelInfoProblems(cql, entries)).toEqual([
+      {
+        message: "QICore version '5.0.0' is not registered. Registered versions: 4.1.1, 6.0.0.",
+        severity: 'error',
+        line: 2
+      },
+      {
+        message: 'No model info is registered for USCore. Import a package that contains it or upload the model info XML.',
+        severity: 'error',
+        line: 3
+      }
+    ]);
+  });
+
+  it('reports selections, required models and helpers that disagree with the library', () => {
+    const cql = [
+      "library Measure version '1.0.0'",
+      "using QICore version '4.1.1'",
+      "using FHIR version '4.3.0'",
+      "include FHIRHelpers version '4.4.000' called FHIRHelpers",
+      "include QICoreCommon version '1.0.000'"
+    ].join('\n');
+
+    expect(modelInfoProblems(cql, entries, { QICore: qicore600.id })).toEqual([
+      {
+        message: "The selected QICore model info is version '6.0.0', but the library uses version '4.1.1'.",
+        severity: 'warning',
+        line: 2
+      },
+      {
+        message: 'QICore 4.1.1 requires FHIR 4.0.1, but the library uses FHIR 4.3.0.',
+        severity: 'warning',
+        line: 3
+      },
+      {
+        message: "FHIR version '4.3.0' is not registered. Registered versions: 4.0.1.",
+        severity: 'error',
+        line: 3
+      },
+      {
+        message: "QICore 4.1.1 provides FHIRHelpers 4.0.1, but the library includes version '4.4.000'.",
+        severity: 'warning',
+        line: 4
+      }
+    ]);
+    expect(modelInfoProblems("using FHIR version '4.0.1'\ninclude FHIRHelpers version '4.0.1'", entries)).toEqual([]);
+  });
+
+  it('warns when the selected model info is no longer registered', () => {
+    expect(modelInfoProblems("using QICore version '6.0.0'", entries, { QICore: 'upload:gone.xml:QICore|6.0.0' })).toEqual([
+      {
+        message: 'The QICore model info selected for this library is no longer registered; QICore 6.0.0 is used instead.',
+        severity: 'warning',
+        line: 1
+      }
+    ]);
+  });
+
+  it('restores saved entries from their XML and skips bundled or malformed records', () => {
+    const saved = JSON.parse(
+      JSON.stringify(entries.map(({ source, origin, xml, helpers }) => ({ source, origin, xml, helpers })))
+    );
+    expect(restoreModelInfoEntries([...saved, null, { source: 'upload', origin: 'x.xml', xml: '<library/>' }])).toEqual([
+      qicore411,
+      qicore600
+    ]);
+    expect(restoreModelInfoEntries('not a list')).toEqual([]);
+  });
+});
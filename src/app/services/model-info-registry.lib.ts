@@ -0,0 +1,338 @@
+// Author: Preston Lee
+
+import type { Library } from 'fhir/r4';
+import { decodeUtf8Base64 } from './utf8-encoding.lib';
+
+/** Where a registered model info came from. */
+export type ModelInfoSource = 'bundled' | 'package' | 'upload';
+
+export interface ModelInfoRequirement {
+  name: string;
+  version: string | null;
+}
+
+export interface ModelInfoHeader {
+  name: string;
+  version: string;
+  url: string | null;
+  requires: ModelInfoRequirement[];
+}
+
+/** A helper library shipped with a model, such as FHIRHelpers or QICoreCommon. */
+export interface HelperLibrarySource {
+  name: string;
+  version: string | null;
+  cql: string;
+}
+
+export interface ModelInfoEntry extends ModelInfoHeader {
+  /** Unique within the registry: source, origin, name and version. */
+  id: string;
+  source: ModelInfoSource;
+  /** Asset path, `package@version`, or uploaded file name. */
+  origin: string;
+  xml: string;
+  helpers: HelperLibrarySource[];
+}
+
+/** Registry entry id chosen for each model name, for one library. */
+export type ModelInfoSelection = Record<string, string>;
+
+export interface ModelInfoArtifacts {
+  modelInfoXml: string[];
+  helpers: HelperLibrarySource[];
+}
+
+export interface ModelInfoProblem {
+  message: string;
+  severity: 'error' | 'warning';
+  /** 1-based line of the `using` or `include` the problem is about. */
+  line: number;
+}
+
+/** A `using` or `include` declaration in CQL source. */
+export interface CqlHeaderReference {
+  name: string;
+  version: string | null;
+  line: number;
+}
+
+const MODEL_INFO_ROOT = /<(?:[\w.-]+:)?modelInfo\b([^>]*)>/;
+const REQUIRED_MODEL_INFO = /<(?:[\w.-]+:)?requiredModelInfo\b([^>]*?)\/?>/g;
+const LIBRARY_HEADER = /^\s*library\s+(?:"([^"]+)"|([A-Za-z_][A-Za-z0-9_.]*))(?:\s+version\s+'([^']*)')?/m;
+const IDENTIFIER = `(?:"([^"]+)"|([A-Za-z_][A-Za-z0-9_.]*))`;
+const USING = new RegExp(`^\\s*using\\s+${IDENTIFIER}(?:\\s+version\\s+'([^']*)')?`);
+const INCLUDE = new RegExp(`^\\s*include\\s+${IDENTIFIER}(?:\\s+version\\s+'([^']*)')?`);
+
+function xmlAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`).exec(attributes);
+  return match ? match[1] : null;
+}
+
+/**
+ * Name, version, namespace URL and required models of a model info document.
+ * Reads only the root element, so it is cheap on multi-megabyte model infos.
+ */
+export function readModelInfoHeader(xml: string): ModelInfoHeader | null {
+  const root = MODEL_INFO_ROOT.exec(xml);
+  if (!root) {
+    return null;
+  }
+  const name = xmlAttribute(root[1], 'name');
+  const version = xmlAttribute(root[1], 'version');
+  if (!name || !version) {
+    return null;
+  }
+  const requires: ModelInfoRequirement[] = [];
+  for (const match of xml.matchAll(REQUIRED_MODEL_INFO)) {
+    const requiredName = xmlAttribute(match[1], 'name');
+    if (requiredName) {
+      requires.push({ name: requiredName, version: xmlAttribute(match[1], 'version') });
+    }
+  }
+  return { name, version, url: xmlAttribute(root[1], 'url'), requires };
+}
+
+/** Name and version from a CQL `library` declaration. */
+export function readLibraryHeader(cql: string): { name: string; version: string | null } | null {
+  const match = LIBRARY_HEADER.exec(cql);
+  return match ? { name: match[1] ?? match[2], version: match[3] ?? null } : null;
+}
+
+function headerReferences(cql: string, pattern: RegExp): CqlHeaderReference[] {
+  const references: CqlHeaderReference[] = [];
+  cql.split('\n').forEach((text, index) => {
+    const match = pattern.exec(text);
+    if (match) {
+      references.push({ name: match[1] ?? match[2], version: match[3] ?? null, line: index + 1 });
+    }
+  });
+  return references;
+}
+
+/** The models a library declares with `using`. */
+export function cqlUsings(cql: string): CqlHeaderReference[] {
+  return headerReferences(cql, USING);
+}
+
+/** The libraries a library declares with `include`. */
+export function cqlIncludes(cql: string): CqlHeaderReference[] {
+  return headerReferences(cql, INCLUDE);
+}
+
+export function createModelInfoEntry(
+  xml: string,
+  source: ModelInfoSource,
+  origin: string,
+  helpers: HelperLibrarySource[] = []
+): ModelInfoEntry | null {
+  const header = readModelInfoHeader(xml);
+  if (!header) {
+    return null;
+  }
+  return { ...header, id: `${source}:${origin}:${header.name}|${header.version}`, source, origin, xml, helpers };
+}
+
+/**
+ * Entries saved from the registry, rebuilt from their XML so ids and headers
+ * follow this build. Bundled entries are not saved; malformed records are skipped.
+ */
+export function restoreModelInfoEntries(records: unknown): ModelInfoEntry[] {
+  if (!Array.isArray(records)) {
+    return [];
+  }
+  return records.flatMap(record => {
+    const { xml, source, origin, helpers } = (record ?? {}) as Partial<ModelInfoEntry>;
+    const restorable = source === 'package' || source === 'upload';
+    if (typeof xml !== 'string' || typeof origin !== 'string' || !restorable) {
+      return [];
+    }
+    const validHelpers = (Array.isArray(helpers) ? helpers : []).filter(
+      helper => typeof helper?.name === 'string' && typeof helper.cql === 'string'
+    );
+    const entry = createModelInfoEntry(xml, source, origin, validHelpers);
+    return entry ? [entry] : [];
+  });
+}
+
+/**
+ * Model info XML and CQL carried by Library resources, as published in FHIR
+ * packages such as QI-Core (`Library/QICore-ModelInfo`, `Library/QICoreCommon`).
+ */
+export function modelInfoArtifactsFromLibraries(libraries: Library[]): ModelInfoArtifacts {
+  const artifacts: ModelInfoArtifacts = { modelInfoXml: [], helpers: [] };
+  for (const library of libraries) {
+    for (const content of library.content ?? []) {
+      if (!content.data) {
+        continue;
+      }
+      const type = content.contentType ?? '';
+      let text: string;
+      try {
+        text = decodeUtf8Base64(content.data);
+      } catch {
+        continue;
+      }
+      if (type.includes('xml') && readModelInfoHeader(text)) {
+        artifacts.modelInfoXml.push(text);
+      } else if (type === 'text/cql') {
+        const header = readLibraryHeader(text);
+        if (header) {
+          artifacts.helpers.push({ ...header, cql: text });
+        }
+      }
+    }
+  }
+  return artifacts;
+}
+
+/** One entry per model info in `artifacts`, each carrying every helper library alongside it. */
+export function modelInfoEntriesFromArtifacts(
+  artifacts: ModelInfoArtifacts,
+  source: ModelInfoSource,
+  origin: string
+): ModelInfoEntry[] {
+  return artifacts.modelInfoXml
+    .map(xml => createModelInfoEntry(xml, source, origin, artifacts.helpers))
+    .filter((entry): entry is ModelInfoEntry => entry !== null);
+}
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * The entry to load for `using name version 'version'`. A library's selection
+ * wins when its version fits; otherwise the most recently registered entry of
+ * that version, or the highest version when the `using` names none.
+ */
+export function resolveModelInfo(
+  entries: ModelInfoEntry[],
+  name: string,
+  version: string | null | undefined,
+  selection: ModelInfoSelection = {}
+): ModelInfoEntry | null {
+  const candidates = entries.filter(entry => entry.name === name);
+  const selected = candidates.find(entry => entry.id === selection[name]);
+  if (selected && (!version || selected.version === version)) {
+    return selected;
+  }
+  if (version) {
+    return candidates.filter(entry => entry.version === version).at(-1) ?? null;
+  }
+  return [...candidates].sort((a, b) => compareVersions(a.version, b.version)).at(-1) ?? null;
+}
+
+/**
+ * CQL of a helper library registered with a model. Helpers of the library's
+ * selected model infos are preferred over those of other entries.
+ */
+export function resolveHelperLibrary(
+  entries: ModelInfoEntry[],
+  name: string,
+  version: string | null | undefined,
+  selection: ModelInfoSelection = {}
+): string | null {
+  const selectedIds = new Set(Object.values(selection));
+  const ordered = [...entries.filter(entry => selectedIds.has(entry.id)), ...[...entries].reverse()];
+  for (const entry of ordered) {
+    const helper = entry.helpers.find(h => h.name === name && (!version || h.version === version));
+    if (helper) {
+      return helper.cql;
+    }
+  }
+  return null;
+}
+
+/** Stable key for a selection, so translators can be reused per distinct selection. */
+export function modelInfoSelectionKey(selection: ModelInfoSelection | undefined): string {
+  return Object.entries(selection ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, id]) => `${name}=${id}`)
+    .join(';');
+}
+
+function modelLabel(entry: { name: string; version: string | null }): string {
+  return entry.version ? `${entry.name} ${entry.version}` : entry.name;
+}
+
+/**
+ * Mismatches between a library's `using`/`include` declarations and the
+ * registry: models or versions that are not registered, a selection that
+ * disagrees with the declared version, required models at other versions,
+ * and helper libraries included at a version other than the model's.
+ */
+export function modelInfoProblems(
+  cql: string,
+  entries: ModelInfoEntry[],
+  selection: ModelInfoSelection = {}
+): ModelInfoProblem[] {
+  const problems: ModelInfoProblem[] = [];
+  const usings = cqlUsings(cql).filter(using => using.name !== 'System');
+  const resolved: ModelInfoEntry[] = [];
+
+  for (const using of usings) {
+    const registered = entries.filter(entry => entry.name === using.name);
+    const entry = resolveModelInfo(entries, using.name, using.version, selection);
+    const selected = registered.find(e => e.id === selection[using.name]);
+    if (selection[using.name] && !selected && entry) {
+      problems.push({
+        message: `The ${using.name} model info selected for this library is no longer registered; ${modelLabel(entry)} is used instead.`,
+        severity: 'warning',
+        line: using.line
+      });
+    }
+    if (selected && using.version && selected.version !== using.version) {
+      problems.push({
+        message: `The selected ${using.name} model info is version '${selected.version}', but the library uses version '${using.version}'.`,
+        severity: 'warning',
+        line: using.line
+      });
+    }
+    if (!entry) {
+      const available = [...new Set(registered.map(e => e.version))].sort(compareVersions);
+      problems.push({
+        message:
+          available.length > 0
+            ? `${using.name} version '${using.version}' is not registered. Registered versions: ${available.join(', ')}.`
+            : `No model info is registered for ${using.name}. Import a package that contains it or upload the model info XML.`,
+        severity: 'error',
+        line: using.line
+      });
+      continue;
+    }
+    resolved.push(entry);
+
+    for (const required of entry.requires.filter(r => r.name !== 'System')) {
+      const declared = usings.find(u => u.name === required.name);
+      if (declared?.version && required.version && declared.version !== required.version) {
+        problems.push({
+          message: `${modelLabel(entry)} requires ${modelLabel(required)}, but the library uses ${modelLabel(declared)}.`,
+          severity: 'warning',
+          line: declared.line
+        });
+      } else if (!resolveModelInfo(entries, required.name, required.version, selection)) {
+        problems.push({
+          message: `${modelLabel(entry)} requires ${modelLabel(required)}, which is not registered.`,
+          severity: 'error',
+          line: using.line
+        });
+      }
+    }
+  }
+
+  for (const include of cqlIncludes(cql)) {
+    for (const entry of resolved) {
+      const helpers = entry.helpers.filter(h => h.name === include.name);
+      const helper = helpers[0];
+      if (helper?.version && include.version && !helpers.some(h => h.version === include.version)) {
+        problems.push({
+          message: `${modelLabel(entry)} provides ${modelLabel(helper)}, but the library includes version '${include.version}'.`,
+          severity: 'warning',
+          line: include.line
+        });
+      }
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,191 @@
+// Author: Preston Lee
+
+import { Injectable, signal } from '@angular/core';
+import type { Bundle, Library } from 'fhir/r4';
+import {
+  HelperLibrarySource,
+  ModelInfoEntry,
+  ModelInfoProblem,
+  ModelInfoSelection,
+  ModelInfoSource,
+  createModelInfoEntry,
+  modelInfoArtifactsFromLibraries,
+  modelInfoEntriesFromArtifacts,
+  modelInfoProblems,
+  readLibraryHeader,
+  readModelInfoHeader,
+  resolveHelperLibrary,
+  resolveModelInfo,
+  restoreModelInfoEntries
+} from './model-info-registry.lib';
+
+/**
+ * Model info documents (FHIR, QI-Core, US Core, ...) and their helper
+ * libraries that the translator can load. Entries come from the bundled
+ * assets, from FHIR packages imported through the registry importer, and
+ * from files the user uploads. Libraries pick an entry per model through a
+ * {@link ModelInfoSelection}. Imported and uploaded entries are kept in local
+ * storage; bundled ones are registered again from the assets on each start.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ModelInfoRegistryService {
+  private static readonly STORAGE_KEY = 'cqlStudio.modelInfoRegistry';
+
+  private readonly _entries = signal<ModelInfoEntry[]>([]);
+  readonly entries = this._entries.asReadonly();
+
+  /** Incremented on every change, so translators built from an older registry can be dropped. */
+  private readonly _revision = signal(0);
+  readonly revision = this._revision.asReadonly();
+
+  constructor() {
+    this.loadFromStorage();
+  }
+
+  /**
+   * Add entries, replacing any already registered under the same id. Bundled
+   * entries stay ahead of the others, so an imported or uploaded model info
+   * wins a version tie whichever was registered first.
+   */
+  register(entries: ModelInfoEntry[]): void {
+    if (entries.length === 0) {
+      return;
+    }
+    const ids = new Set(entries.map(entry => entry.id));
+    this._entries.update(current => {
+      const next = [...current.filter(entry => !ids.has(entry.id)), ...entries];
+      const bundled = next.filter(entry => entry.source === 'bundled');
+      return [...bundled, ...next.filter(entry => entry.source !== 'bundled')];
+    });
+    this._revision.update(revision => revision + 1);
+    if (entries.some(entry => entry.source !== 'bundled')) {
+      this.saveToStorage();
+    }
+  }
+
+  registerModelInfo(
+    xml: string,
+    source: ModelInfoSource,
+    origin: string,
+    helpers: HelperLibrarySource[] = []
+  ): ModelInfoEntry | null {
+    const entry = createModelInfoEntry(xml, source, origin, helpers);
+    if (entry) {
+      this.register([entry]);
+    }
+    return entry;
+  }
+
+  /** Register the model infos carried by a package's Library resources. */
+  registerFromLibraries(libraries: Library[], origin: string): ModelInfoEntry[] {
+    const entries = modelInfoEntriesFromArtifacts(modelInfoArtifactsFromLibraries(libraries), 'package', origin);
+    this.register(entries);
+    return entries;
+  }
+
+  /**
+   * Register uploaded model info XML, helper CQL, and Library resources or
+   * bundles of them. Helper libraries are attached to every model info in the
+   * same upload.
+   */
+  async registerUpload(files: File[]): Promise<ModelInfoEntry[]> {
+    const modelInfoXml: Array<{ xml: string; origin: string }> = [];
+    const helpers: HelperLibrarySource[] = [];
+    for (const file of files) {
+      const text = await file.text();
+      if (readModelInfoHeader(text)) {
+        modelInfoXml.push({ xml: text, origin: file.name });
+        continue;
+      }
+      const header = readLibraryHeader(text);
+      if (file.name.endsWith('.cql') && header) {
+        helpers.push({ ...header, cql: text });
+        continue;
+      }
+      const artifacts = modelInfoArtifactsFromLibraries(this.librariesFromJson(text, file.name));
+      modelInfoXml.push(...artifacts.modelInfoXml.map(xml => ({ xml, origin: file.name })));
+      helpers.push(...artifacts.helpers);
+    }
+    if (modelInfoXml.length === 0) {
+      throw new Error('No model info XML was found in the uploaded files.');
+    }
+    const entries = modelInfoXml
+      .map(({ xml, origin }) => createModelInfoEntry(xml, 'upload', origin, helpers))
+      .filter((entry): entry is ModelInfoEntry => entry !== null);
+    this.register(entries);
+    return entries;
+  }
+
+  remove(id: string): void {
+    this._entries.update(entries => entries.filter(entry => entry.id !== id));
+    this._revision.update(revision => revision + 1);
+    this.saveToStorage();
+  }
+
+  resolve(name: string, version: string | null | undefined, selection?: ModelInfoSelection): ModelInfoEntry | null {
+    return resolveModelInfo(this._entries(), name, version, selection);
+  }
+
+  helperSource(name: string, version: string | null | undefined, selection?: ModelInfoSelection): string | null {
+    return resolveHelperLibrary(this._entries(), name, version, selection);
+  }
+
+  /** Names of every registered helper library, e.g. to keep their compiled ELM across invalidations. */
+  helperNames(): Set<string> {
+    return new Set(this._entries().flatMap(entry => entry.helpers.map(helper => helper.name)));
+  }
+
+  problems(cql: string, selection?: ModelInfoSelection): ModelInfoProblem[] {
+    return modelInfoProblems(cql, this._entries(), selection);
+  }
+
+  private loadFromStorage(): void {
+    if (typeof window === 'undefined' || typeof window.localStorage === 'undefined') {
+      return;
+    }
+    try {
+      const raw = window.localStorage.getItem(ModelInfoRegistryService.STORAGE_KEY);
+      if (raw) {
+        this.register(restoreModelInfoEntries(JSON.parse(raw)));
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to restore model infos from storage:', error);
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof window === 'undefined' || typeof window.localStorage === 'undefined') {
+      return;
+    }
+    try {
+      const saved = this._entries()
+        .filter(entry => entry.source !== 'bundled')
+        .map(({ source, origin, xml, helpers }) => ({ source, origin, xml, helpers }));
+      window.localStorage.setItem(ModelInfoRegistryService.STORAGE_KEY, JSON.stringify(saved));
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to save model infos to storage:', error);
+    }
+  }
+
+  private librariesFromJson(text: string, fileName: string): Library[] {
+    let resource: Library | Bundle;
+    try {
+      resource = JSON.parse(text) as Library | Bundle;
+    } catch {
+      throw new Error(`${fileName} is not model info XML, CQL, or a FHIR Library.`);
+    }
+    if (resource.resourceType === 'Library') {
+      return [resource];
+    }
+    if (resource.resourceType === 'Bundle') {
+      return (resource.entry ?? [])
+        .map(entry => entry.resource)
+        .filter((r): r is Library => r?.resourceType === 'Library');
+    }
+    return [];
+  }
+}
@@ -1,12 +1,14 @@
 // Author: Preston Lee
 
-import { Injectable, inject, signal } from '@angular/core';
+import { Injectable, computed, inject, signal } from '@angular/core';
 import { Endpoint } from 'fhir/r4';
 import { BUILT_IN_ENVIRONMENT_ID, CqlEnvironment, EndpointHttpContext, EndpointRole } from '../models/environment.model';
 import { Settings, ThemeType } from '../models/settings.model';
+import { TranslatorOptionsProfile } from '../models/translator-options.model';
 import { ExamplePaths } from '../constants/example-paths.constants';
 import { buildFhirEndpoint } from './endpoint-config.lib';
 import { EnvironmentService, LegacyEnvironmentFields } from './environment.service';
+import { resolveTranslatorProfile, translatorProfiles } from './translator-options.lib';
 
 interface LegacySettingsRecord extends Partial<Settings> {
   fhirBaseUrl?: string;
@@ -30,6 +32,15 @@ export class SettingsService {
   public force_reset = signal<boolean>(false);
   public theme_effective = signal<ThemeType>(ThemeType.LIGHT);
 
+  /** Built-in translator option profiles followed by the user's own. */
+  readonly translatorProfiles = computed(() => translatorProfiles(this.settings().translatorProfiles ?? []));
+  readonly activeTranslatorProfile = computed(() =>
+    resolveTranslatorProfile(this.translatorProfiles(), this.settings().activeTranslatorProfileId)
+  );
+  readonly sqlOnFhirTranslatorProfile = computed(() =>
+    resolveTranslatorProfile(this.translatorProfiles(), this.settings().sqlOnFhirTranslatorProfileId)
+  );
+
   constructor() {
     this.reload();
     window.matchMedia('(prefers-color-scheme: dark)')
@@ -334,6 +345,38 @@ export class SettingsService {
     this.saveSettings();
   }
 
+  /** Add or replace a user-defined translator profile. Built-in profiles cannot be changed. */
+  saveTranslatorProfile(profile: TranslatorOptionsProfile): void {
+    if (profile.builtIn) {
+      return;
+    }
+    const others = (this.settings().translatorProfiles ?? []).filter(p => p.id !== profile.id);
+    this.updateSettings({ translatorProfiles: [...others, { ...profile, options: [...profile.options] }] });
+  }
+
+  duplicateTranslatorProfile(id: string): TranslatorOptionsProfile | null {
+    const source = this.translatorProfiles().find(p => p.id === id);
+    if (!source) {
+      return null;
+    }
+    const copy: TranslatorOptionsProfile = {
+      ...source,
+      id: crypto.randomUUID(),
+      name: `${source.name} (copy)`,
+      builtIn: false,
+      options: [...source.options]
+    };
+    this.saveTranslatorProfile(copy);
+    return copy;
+  }
+
+  /** Remove a user-defined profile; settings that used it fall back to the default profile. */
+  deleteTranslatorProfile(id: string): void {
+    this.updateSettings({
+      translatorProfiles: (this.settings().translatorProfiles ?? []).filter(p => p.id !== id)
+    });
+  }
+
   static readonly EXPORT_FILENAME = 'settings.cql-studio.json';
 
   exportSettingsJson(): string {
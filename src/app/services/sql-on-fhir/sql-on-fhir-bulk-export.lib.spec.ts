@@ -0,0 +1,53 @@
+// Author: Preston Lee
+
+import { describe, expect, test } from 'vitest';
+import {
+  BULK_EXPORT_DEFAULT_POLL_MS,
+  BULK_EXPORT_MAX_POLL_MS,
+  groupExportUrl,
+  operationOutcomeMessages,
+  parseNdjson,
+  retryAfterMs,
+} from './sql-on-fhir-bulk-export.lib';
+
+describe('sql-on-fhir-bulk-export.lib', () => {
+  test('builds a Group kick-off URL with sorted, de-duplicated _type', () => {
+    expect(groupExportUrl('http://x/fhir/', 'g 1', ['Observation', 'Patient', 'Observation'])).toBe(
+      'http://x/fhir/Group/g%201/$export?_outputFormat=application%2Ffhir%2Bndjson' +
+        '&_type=Observation%2CPatient',
+    );
+    expect(groupExportUrl('http://x/fhir', 'g', [])).not.toContain('_type');
+  });
+
+  test('reads Retry-After as seconds or an HTTP date, within bounds', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(retryAfterMs('5', now)).toBe(5000);
+    expect(retryAfterMs('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10_000);
+    expect(retryAfterMs('3600', now)).toBe(BULK_EXPORT_MAX_POLL_MS);
+    expect(retryAfterMs(null, now)).toBe(BULK_EXPORT_DEFAULT_POLL_MS);
+    expect(retryAfterMs('soon', now)).toBe(BULK_EXPORT_DEFAULT_POLL_MS);
+  });
+
+  test('parses NDJSON and reports bad lines by number', () => {
+    const text = '{"resourceType":"Patient","id":"a"}\n\n{oops\n{"id":"x"}\r\n';
+    const { resources, errors } = parseNdjson(text);
+    expect(resources).toEqual([{ resourceType: 'Patient', id: 'a' }]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^line 3:/);
+    expect(errors[1]).toBe('line 4: not a FHIR resource');
+  });
+
+  test('collects diagnostics from export error files', () => {
+    expect(
+      operationOutcomeMessages([
+        {
+          resourceType: 'OperationOutcome',
+          issue: [
+            { severity: 'error', code: 'not-found', diagnostics: 'Observation/1 missing' },
+            { severity: 'error', code: 'processing' },
+          ],
+        },
+      ]),
+    ).toEqual(['Observation/1 missing', 'processing']);
+  });
+});
@@ -0,0 +1,105 @@
+// Author: Preston Lee
+
+import type { FhirResource, OperationOutcome } from 'fhir/r4';
+
+/**
+ * FHIR Bulk Data `$export` (https://hl7.org/fhir/uv/bulkdata/export.html):
+ * kick-off URL, status polling and NDJSON parsing. The HTTP exchange lives in
+ * SqlOnFhirPatientLoaderService.
+ */
+
+/** Poll interval when the server sends no usable `Retry-After`. */
+export const BULK_EXPORT_DEFAULT_POLL_MS = 2000;
+/** Upper bound on the poll interval, so a long `Retry-After` still shows progress. */
+export const BULK_EXPORT_MAX_POLL_MS = 30_000;
+
+/** Completion manifest returned by the status endpoint. */
+export interface BulkExportManifest {
+  transactionTime?: string;
+  requiresAccessToken?: boolean;
+  output: BulkExportFile[];
+  error?: BulkExportFile[];
+}
+
+export interface BulkExportFile {
+  type: string;
+  url: string;
+  count?: number;
+}
+
+export type BulkExportPhase = 'kickoff' | 'waiting' | 'downloading';
+
+export interface BulkExportProgress {
+  phase: BulkExportPhase;
+  /** The server's `X-Progress` header while waiting, e.g. `42% complete`. */
+  serverProgress: string | null;
+  filesDone: number;
+  filesTotal: number;
+  resourceCount: number;
+}
+
+/** `Group/<id>/$export` kick-off URL limited to `resourceTypes` (all types when empty). */
+export function groupExportUrl(baseUrl: string, groupId: string, resourceTypes: string[]): string {
+  const base = baseUrl.replace(/\/+$/, '');
+  const format = encodeURIComponent('application/fhir+ndjson');
+  const url = `${base}/Group/${encodeURIComponent(groupId)}/$export?_outputFormat=${format}`;
+  const types = [...new Set(resourceTypes.filter(t => t.trim()))].sort();
+  return types.length ? `${url}&_type=${encodeURIComponent(types.join(','))}` : url;
+}
+
+/**
+ * Milliseconds to wait before the next status poll: `Retry-After` as seconds
+ * or an HTTP date, clamped to `[0, BULK_EXPORT_MAX_POLL_MS]`.
+ */
+export function retryAfterMs(header: string | null, now = Date.now()): number {
+  const value = header?.trim();
+  if (!value) {
+    return BULK_EXPORT_DEFAULT_POLL_MS;
+  }
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - now;
+  if (Number.isNaN(ms)) {
+    return BULK_EXPORT_DEFAULT_POLL_MS;
+  }
+  return Math.min(Math.max(ms, 0), BULK_EXPORT_MAX_POLL_MS);
+}
+
+/** Resources from an NDJSON file; unparseable lines are reported by line number. */
+export function parseNdjson(text: string): { resources: FhirResource[]; errors: string[] } {
+  const resources: FhirResource[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) {
+      return;
+    }
+    const parsed = parseNdjsonLine(line);
+    if ('resource' in parsed) {
+      resources.push(parsed.resource);
+    } else {
+      errors.push(`line ${i + 1}: ${parsed.error}`);
+    }
+  });
+  return { resources, errors };
+}
+
+/** One NDJSON line as a FHIR resource, or why it is not one. */
+export function parseNdjsonLine(line: string): { resource: FhirResource } | { error: string } {
+  try {
+    const parsed = JSON.parse(line) as FhirResource;
+    if (parsed && typeof parsed === 'object' && typeof parsed.resourceType === 'string') {
+      return { resource: parsed };
+    }
+    return { error: 'not a FHIR resource' };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Diagnostics of the OperationOutcomes in an export error file. */
+export function operationOutcomeMessages(resources: FhirResource[]): string[] {
+  return resources
+    .filter((r): r is OperationOutcome => r.resourceType === 'OperationOutcome')
+    .flatMap(outcome => outcome.issue ?? [])
+    .map(issue => issue.diagnostics ?? issue.details?.text ?? issue.code)
+    .filter((m): m is string => !!m);
+}
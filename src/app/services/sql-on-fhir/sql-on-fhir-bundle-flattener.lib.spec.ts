@@ -1,6 +1,6 @@
 // Author: Eugene Vestel
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import type {
   Bundle,
   ValueSet,
@@ -10,8 +10,11 @@ import type {
   Procedure,
   Condition,
 } from 'fhir/r4';
+import type { ViewDefinition } from '../../components/sql-on-fhir/elm-to-sql';
 import {
+  bundleResources,
   flattenBundle,
+  flattenResources,
   flattenValueSetExpansion,
   emptyFlatTables,
 } from './sql-on-fhir-bundle-flattener.lib';
@@ -289,6 +292,34 @@ describe('flattenBundle', () => {
     expect(flattenValueSetExpansion(vs)).toHaveLength(1);
   });
 
+  it('keeps the other resources when a custom view cannot evaluate one', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const bundle: Bundle = {
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        { resource: { resourceType: 'Patient', id: 'ok-1', name: [{ given: ['Ann'] }] } as Patient },
+        { resource: { resourceType: 'Patient', id: 'two-given', name: [{ given: ['Bea', 'Lou'] }] } as Patient },
+        { resource: { resourceType: 'Patient', id: 'ok-2', name: [{ given: ['Cal'] }] } as Patient },
+      ],
+    };
+    const vd: ViewDefinition = {
+      resourceType: 'ViewDefinition',
+      name: 'given_names',
+      status: 'active',
+      resource: 'Patient',
+      select: [{ column: [{ name: 'id', path: 'id' }] }],
+      // The criterion yields one item per given name, which is an error for `two-given`.
+      where: [{ path: 'name.where(given).exists()' }],
+    };
+    const rows = flattenResources(vd, bundleResources(bundle));
+    expect(rows.map(row => row['id'])).toEqual(['ok-1', 'ok-2']);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringMatching(/^given_names: skipped 1 resource\(s\).*Patient\/two-given/),
+    );
+    warn.mockRestore();
+  });
+
   it('strips Resource/ prefix from references when extracting subject_id', () => {
     const bundle: Bundle = {
       resourceType: 'Bundle',
@@ -28,6 +28,11 @@ const VS = {
   mastectomy: 'http://cts.nlm.nih.gov/fhir/ValueSet/2.16.840.1.113883.3.464.1003.198.12.1005',
 };
 
+/** A Coding array column as the flattener stores it (JSON text). */
+function codings(system: string, code: string, display: string) {
+  return JSON.stringify([{ system, code, display }]);
+}
+
 function patient(id: string, gender: string, birthdate: string) {
   return {
     id, gender, birthdate, active: true,
@@ -40,6 +45,7 @@ function encounter(id: string, subjectId: string, start: string) {
   return {
     id, subject_id: subjectId, status: 'finished', class_code: 'AMB',
     type_code: '99213', type_system: 'http://www.ama-assn.org/go/cpt', type_display: 'Office visit',
+    type_coding: codings('http://www.ama-assn.org/go/cpt', '99213', 'Office visit'),
     period_start: start, period_end: start, service_provider_id: null,
   };
 }
@@ -48,6 +54,7 @@ function mammogram(id: string, subjectId: string, effective: string) {
   return {
     id, subject_id: subjectId, status: 'final',
     code: '24605-8', code_system: 'http://loinc.org', code_display: 'MG Breast Screening', code_text: null,
+    code_coding: codings('http://loinc.org', '24605-8', 'MG Breast Screening'),
     effective_datetime: effective, effective_start: null, effective_end: null,
     value_quantity: null, value_unit: null, value_code: null, value_string: null,
     encounter_id: null, category_code: null,
@@ -58,6 +65,7 @@ function mastectomy(id: string, subjectId: string) {
   return {
     id, subject_id: subjectId, status: 'completed',
     code: '173425001', code_system: 'http://snomed.info/sct', code_display: 'Bilateral mastectomy', code_text: null,
+    code_coding: codings('http://snomed.info/sct', '173425001', 'Bilateral mastectomy'),
     performed_datetime: '2018-08-14T08:00:00Z', performed_start: null, performed_end: null,
     encounter_id: null, category_code: null,
   };
@@ -0,0 +1,114 @@
+// Author: Preston Lee
+
+import { describe, expect, test } from 'vitest';
+import type { Bundle } from 'fhir/r4';
+import type { ViewDefinition } from '../../components/sql-on-fhir/elm-to-sql';
+import {
+  customViewMappingProblem,
+  customViewResourceMappings,
+  parseViewDefinitionJson,
+  validateViewDefinition,
+  viewDefinitionsFromBundle,
+} from './sql-on-fhir-custom-views.lib';
+
+const SITE_BP: ViewDefinition = {
+  resourceType: 'ViewDefinition',
+  name: 'site_bp_view',
+  status: 'active',
+  resource: 'Observation',
+  select: [
+    {
+      column: [
+        { name: 'id', path: 'getResourceKey()' },
+        { name: 'subject_id', path: 'subject.getReferenceKey(Patient)' },
+        { name: 'panel_code', path: 'code.coding.first().code' },
+        {
+          name: 'cuff_size',
+          path: "extension('http://example.org/fhir/StructureDefinition/cuff-size').value.ofType(string)",
+        },
+      ],
+    },
+  ],
+};
+
+describe('sql-on-fhir-custom-views.lib', () => {
+  test('parseViewDefinitionJson accepts a valid view and defaults status to draft', () => {
+    const { status: _status, ...withoutStatus } = SITE_BP;
+    const vd = parseViewDefinitionJson(JSON.stringify(withoutStatus));
+    expect(vd.name).toBe('site_bp_view');
+    expect(vd.status).toBe('draft');
+  });
+
+  test('parseViewDefinitionJson reports malformed JSON', () => {
+    expect(() => parseViewDefinitionJson('{ "resourceType": ')).toThrow(/not valid JSON/);
+  });
+
+  test('validateViewDefinition rejects the wrong resourceType', () => {
+    expect(() => validateViewDefinition({ ...SITE_BP, resourceType: 'Library' })).toThrow(/ViewDefinition/);
+  });
+
+  test('validateViewDefinition rejects names that are not SQL identifiers', () => {
+    expect(() => validateViewDefinition({ ...SITE_BP, name: 'site-bp' })).toThrow(/name/);
+  });
+
+  test('validateViewDefinition refuses to shadow a built-in table', () => {
+    expect(() => validateViewDefinition({ ...SITE_BP, name: 'observation_view' })).toThrow(/built-in/);
+    expect(() => validateViewDefinition({ ...SITE_BP, name: 'Value_Set_Expansion' })).toThrow(/built-in/);
+    expect(() => validateViewDefinition({ ...SITE_BP, name: 'sql_on_fhir_meta' })).toThrow(/built-in/);
+  });
+
+  test('validateViewDefinition rejects duplicate and unsafe column names', () => {
+    const dup = { ...SITE_BP, select: [{ column: [{ name: 'id', path: 'id' }, { name: 'id', path: 'id' }] }] };
+    expect(() => validateViewDefinition(dup)).toThrow(/duplicate column/);
+    const unsafe = { ...SITE_BP, select: [{ column: [{ name: 'id; DROP', path: 'id' }] }] };
+    expect(() => validateViewDefinition(unsafe)).toThrow(/Column name/);
+  });
+
+  test('customViewMappingProblem requires subject_id, or id for Patient', () => {
+    expect(customViewMappingProblem(SITE_BP)).toBeNull();
+    expect(customViewMappingProblem(SITE_BP, 'panel_code')).toBeNull();
+    expect(customViewMappingProblem(SITE_BP, 'missing_code')).toMatch(/missing_code/);
+
+    const noSubject = { ...SITE_BP, select: [{ column: [{ name: 'id', path: 'id' }] }] };
+    expect(customViewMappingProblem(noSubject)).toMatch(/subject_id/);
+    expect(customViewMappingProblem({ ...noSubject, resource: 'Patient' })).toBeNull();
+  });
+
+  test('customViewResourceMappings keeps mapped views only; later registrations win', () => {
+    const other = { ...SITE_BP, name: 'site_bp_v2' };
+    const mappings = customViewResourceMappings([
+      { viewDefinition: SITE_BP, mapRetrieves: true, codeColumn: 'panel_code' },
+      { viewDefinition: { ...SITE_BP, name: 'unmapped', resource: 'Goal' }, mapRetrieves: false },
+      { viewDefinition: other, mapRetrieves: true, codeColumn: '  ' },
+    ]);
+    expect(mappings).toEqual({ Observation: { view: 'site_bp_v2' } });
+  });
+
+  test('customViewResourceMappings passes a collection code column as the Coding array column', () => {
+    const coded: ViewDefinition = {
+      ...SITE_BP,
+      select: [
+        ...SITE_BP.select,
+        { column: [{ name: 'panel_coding', path: 'code.coding', collection: true }] },
+      ],
+    };
+    const mappings = customViewResourceMappings([
+      { viewDefinition: coded, mapRetrieves: true, codeColumn: 'panel_coding' },
+    ]);
+    expect(mappings).toEqual({ Observation: { view: 'site_bp_view', codingColumn: 'panel_coding' } });
+  });
+
+  test('viewDefinitionsFromBundle skips entries that fail validation', () => {
+    const bundle = {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      entry: [
+        { resource: { ...SITE_BP, id: 'vd-1' } },
+        { resource: { ...SITE_BP, name: 'bad name' } },
+        { resource: { resourceType: 'Library', status: 'active', content: [] } },
+      ],
+    } as unknown as Bundle;
+    const views = viewDefinitionsFromBundle(bundle);
+    expect(views.map(v => v.id)).toEqual(['vd-1']);
+  });
+});
@@ -0,0 +1,152 @@
+// Author: Preston Lee
+//
+// User-defined ViewDefinitions for the SQL on FHIR workspace. Views are
+// parsed from JSON (a file, the editor, or the content endpoint), validated
+// against the flat-table schema, and — once registered — materialised as
+// extra PGlite tables the transpiler can point retrieves at.
+//
+// Pure functions only; HTTP and the registry live in
+// sql-on-fhir-view-definition.service.ts.
+
+import type { Bundle } from 'fhir/r4';
+import {
+  viewDefinitionColumns,
+  type ResourceViewMapping,
+  type ViewDefinition,
+} from '../../components/sql-on-fhir/elm-to-sql';
+import { FLAT_VIEW_NAMES } from './sql-on-fhir-bundle-flattener.lib';
+
+/** A user-defined view registered with the workspace. */
+export interface CustomViewRegistration {
+  viewDefinition: ViewDefinition;
+  /** Route CQL retrieves of `viewDefinition.resource` to this table instead of the standard view. */
+  mapRetrieves: boolean;
+  /**
+   * Column holding the code used by value-set retrieves; blank keeps the
+   * standard column. A `collection` column of Codings matches on any coding.
+   */
+  codeColumn?: string;
+}
+
+/**
+ * Table names owned by the built-in flat schema, the dataset bookkeeping
+ * table (`PGLITE_META_TABLE`) and the stored source resources
+ * (`PGLITE_RESOURCE_TABLE`); custom views may not reuse them.
+ */
+export const RESERVED_VIEW_TABLE_NAMES: readonly string[] = [
+  ...FLAT_VIEW_NAMES,
+  'value_set_expansion',
+  'sql_on_fhir_meta',
+  'sql_on_fhir_resource',
+];
+
+/** SQL-on-FHIR v2 name rule for views and columns; also keeps them safe as unquoted SQL identifiers. */
+const VIEW_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** Parse editor or file text into a validated ViewDefinition. */
+export function parseViewDefinitionJson(json: string): ViewDefinition {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`ViewDefinition is not valid JSON: ${msg}`);
+  }
+  return validateViewDefinition(parsed);
+}
+
+/**
+ * Check the parts of a ViewDefinition the runner and table DDL depend on and
+ * return it typed. Throws with a user-facing message on the first problem.
+ */
+export function validateViewDefinition(value: unknown): ViewDefinition {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('ViewDefinition must be a JSON object.');
+  }
+  const vd = value as Partial<ViewDefinition> & { resourceType?: unknown };
+  if (vd.resourceType !== 'ViewDefinition') {
+    throw new Error(`Expected resourceType "ViewDefinition", found "${String(vd.resourceType ?? '')}".`);
+  }
+  if (typeof vd.name !== 'string' || !VIEW_NAME_PATTERN.test(vd.name)) {
+    throw new Error('ViewDefinition.name must start with a letter and contain only letters, digits and "_".');
+  }
+  if (RESERVED_VIEW_TABLE_NAMES.includes(vd.name.toLowerCase())) {
+    throw new Error(`ViewDefinition.name "${vd.name}" is a built-in table; choose another name.`);
+  }
+  if (typeof vd.resource !== 'string' || vd.resource.trim() === '') {
+    throw new Error('ViewDefinition.resource must name a FHIR resource type.');
+  }
+  if (!Array.isArray(vd.select) || vd.select.length === 0) {
+    throw new Error('ViewDefinition.select must contain at least one select.');
+  }
+  const typed = { ...vd, status: vd.status ?? 'draft' } as ViewDefinition;
+  const columns = viewDefinitionColumns(typed);
+  if (columns.length === 0) {
+    throw new Error('ViewDefinition declares no columns.');
+  }
+  for (const col of columns) {
+    if (typeof col.name !== 'string' || !VIEW_NAME_PATTERN.test(col.name)) {
+      throw new Error(`Column name "${String(col.name)}" must start with a letter and contain only letters, digits and "_".`);
+    }
+    if (typeof col.path !== 'string' || col.path.trim() === '') {
+      throw new Error(`Column "${col.name}" has no path.`);
+    }
+  }
+  return typed;
+}
+
+/**
+ * Why a view cannot back CQL retrieves, or null when it can. The transpiler
+ * correlates resource rows to patients on `subject_id` (Patient rows on `id`),
+ * and value-set filters need the code column to exist.
+ */
+export function customViewMappingProblem(vd: ViewDefinition, codeColumn?: string): string | null {
+  const names = new Set(viewDefinitionColumns(vd).map(c => c.name));
+  const key = vd.resource === 'Patient' ? 'id' : 'subject_id';
+  if (!names.has(key)) {
+    return `${vd.name} needs a "${key}" column to be used for ${vd.resource} retrieves.`;
+  }
+  const code = codeColumn?.trim();
+  if (code && !names.has(code)) {
+    return `${vd.name} has no column "${code}" to filter codes on.`;
+  }
+  return null;
+}
+
+/**
+ * Transpiler `resourceViews` for the registrations that map retrieves. When two
+ * views claim the same resource type the later registration wins. A code
+ * column declared as a collection is passed as the Coding array column.
+ */
+export function customViewResourceMappings(
+  registrations: readonly CustomViewRegistration[],
+): Record<string, ResourceViewMapping> {
+  const out: Record<string, ResourceViewMapping> = {};
+  for (const reg of registrations) {
+    if (!reg.mapRetrieves) continue;
+    const codeColumn = reg.codeColumn?.trim();
+    const collection = viewDefinitionColumns(reg.viewDefinition).some(
+      c => c.name === codeColumn && c.collection,
+    );
+    out[reg.viewDefinition.resource] = {
+      view: reg.viewDefinition.name,
+      ...(codeColumn ? (collection ? { codingColumn: codeColumn } : { codeColumn }) : {}),
+    };
+  }
+  return out;
+}
+
+/** ViewDefinition entries of a search Bundle; entries that fail validation are skipped. */
+export function viewDefinitionsFromBundle(bundle: Bundle): ViewDefinition[] {
+  const out: ViewDefinition[] = [];
+  for (const entry of bundle.entry ?? []) {
+    const resource = entry.resource as unknown as { resourceType?: string } | undefined;
+    if (resource?.resourceType !== 'ViewDefinition') continue;
+    try {
+      out.push(validateViewDefinition(resource));
+    } catch {
+      // not usable as a table; leave it out of the picker
+    }
+  }
+  return out;
+}
@@ -0,0 +1,45 @@
+// Author: Preston Lee
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TestBed } from '@angular/core/testing';
+import { SqlOnFhirDataExplorerService } from './sql-on-fhir-data-explorer.service';
+import { SqlOnFhirPgliteService } from './sql-on-fhir-pglite.service';
+import { QUERY_HISTORY_LIMIT } from './sql-on-fhir-datasets.lib';
+
+describe('SqlOnFhirDataExplorerService', () => {
+  let explorer: SqlOnFhirDataExplorerService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    TestBed.inject(SqlOnFhirPgliteService).reset();
+    explorer = TestBed.inject(SqlOnFhirDataExplorerService);
+  });
+
+  it('lists tables with row counts and pages through rows', async () => {
+    await explorer.runQuery('CREATE TABLE "Scratch Rows" (n int)');
+    await explorer.runQuery('INSERT INTO "Scratch Rows" SELECT generate_series(1, 5)');
+    const tables = await explorer.listTables();
+    expect(tables.find(t => t.name === 'Scratch Rows')).toEqual({
+      name: 'Scratch Rows',
+      rowCount: 5,
+      columns: ['n'],
+    });
+    expect(tables.some(t => t.name === 'patient_view')).toBe(true);
+    expect(tables.some(t => t.name === 'sql_on_fhir_meta')).toBe(false);
+
+    const page = await explorer.browseTable('Scratch Rows', 2, 2);
+    expect(page).toMatchObject({ columns: ['n'], rows: [{ n: 3 }, { n: 4 }], rowCount: 5 });
+  }, 60_000);
+
+  it('keeps failed queries and only the last results in history', async () => {
+    const failed = await explorer.runQuery('SELECT * FROM no_such_table');
+    expect(failed.error).toMatch(/no_such_table/);
+    for (let i = 0; i < QUERY_HISTORY_LIMIT; i++) {
+      await explorer.runQuery(`SELECT ${i} AS n`);
+    }
+    const history = explorer.history();
+    expect(history).toHaveLength(QUERY_HISTORY_LIMIT);
+    expect(history[0].rows).toEqual([{ n: QUERY_HISTORY_LIMIT - 1 }]);
+    expect(history.some(e => e.error)).toBe(false);
+  }, 60_000);
+});
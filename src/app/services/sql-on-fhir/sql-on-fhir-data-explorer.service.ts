@@ -0,0 +1,131 @@
+// Author: Preston Lee
+
+import { Injectable, inject, signal } from '@angular/core';
+import { PGLITE_META_TABLE, SqlOnFhirPgliteService } from './sql-on-fhir-pglite.service';
+import {
+  QUERY_RESULT_ROW_LIMIT,
+  pushQueryHistory,
+  quoteIdentifier,
+} from './sql-on-fhir-datasets.lib';
+
+export interface TableSummary {
+  name: string;
+  rowCount: number;
+  columns: string[];
+}
+
+/** One page of a table's rows. */
+export interface TablePage {
+  table: string;
+  columns: string[];
+  rows: Record<string, unknown>[];
+  offset: number;
+  rowCount: number;
+}
+
+/** An ad-hoc query and its result, as kept in the explorer history. */
+export interface QueryHistoryEntry {
+  sql: string;
+  columns: string[];
+  /** At most `QUERY_RESULT_ROW_LIMIT` rows. */
+  rows: Record<string, unknown>[];
+  /** Rows the query returned before truncation. */
+  rowCount: number;
+  affectedRows: number;
+  durationMs: number;
+  error: string | null;
+  ranAt: string;
+}
+
+/**
+ * Schema and data browsing over the SQL-on-FHIR PGlite database: the flat
+ * tables, custom view tables and anything created by ad-hoc SQL.
+ */
+@Injectable({ providedIn: 'root' })
+export class SqlOnFhirDataExplorerService {
+  private readonly pg = inject(SqlOnFhirPgliteService);
+
+  /** Ad-hoc query results, newest first. */
+  readonly history = signal<QueryHistoryEntry[]>([]);
+
+  /** Tables in the `public` schema with their columns and row counts. */
+  async listTables(): Promise<TableSummary[]> {
+    const { rows } = await this.pg.execute(
+      `SELECT t.table_name AS name,
+         array_agg(c.column_name::text ORDER BY c.ordinal_position) AS columns
+       FROM information_schema.tables t
+       JOIN information_schema.columns c
+         ON c.table_schema = t.table_schema AND c.table_name = t.table_name
+       WHERE t.table_schema = 'public' AND t.table_type = 'BASE TABLE'
+         AND t.table_name <> '${PGLITE_META_TABLE}'
+       GROUP BY t.table_name
+       ORDER BY t.table_name`,
+    );
+    const tables: TableSummary[] = [];
+    for (const row of rows) {
+      const name = String(row['name']);
+      tables.push({
+        name,
+        rowCount: await this.countRows(name),
+        columns: (row['columns'] as string[] | null) ?? [],
+      });
+    }
+    return tables;
+  }
+
+  async browseTable(table: string, offset = 0, limit = 50): Promise<TablePage> {
+    const result = await this.pg.execute(
+      `SELECT * FROM ${quoteIdentifier(table)} LIMIT ${limit} OFFSET ${offset}`,
+    );
+    return {
+      table,
+      columns: result.columns,
+      rows: result.rows,
+      offset,
+      rowCount: await this.countRows(table),
+    };
+  }
+
+  /** Run ad-hoc SQL and record the outcome, failed or not, in `history`. */
+  async runQuery(sql: string): Promise<QueryHistoryEntry> {
+    const ranAt = new Date().toISOString();
+    let entry: QueryHistoryEntry;
+    try {
+      const result = await this.pg.execute(sql);
+      entry = {
+        sql: result.sql,
+        columns: result.columns,
+        rows: result.rows.slice(0, QUERY_RESULT_ROW_LIMIT),
+        rowCount: result.rows.length,
+        affectedRows: result.affectedRows,
+        durationMs: result.durationMs,
+        error: null,
+        ranAt,
+      };
+    } catch (err) {
+      entry = {
+        sql: sql.trim(),
+        columns: [],
+        rows: [],
+        rowCount: 0,
+        affectedRows: 0,
+        durationMs: 0,
+        error: err instanceof Error ? err.message : String(err),
+        ranAt,
+      };
+    }
+    this.history.update(history => pushQueryHistory(history, entry));
+    return entry;
+  }
+
+  clearHistory(): void {
+    this.history.set([]);
+  }
+
+  private async countRows(table: string): Promise<number> {
+    const { rows } = await this.pg.execute(
+      `SELECT count(*)::int AS n FROM ${quoteIdentifier(table)}`,
+    );
+    return Number(rows[0]?.['n'] ?? 0);
+  }
+}
@@ -0,0 +1,29 @@
+// Author: Preston Lee
+
+import { describe, expect, test } from 'vitest';
+import {
+  datasetDataDir,
+  datasetIndexedDbName,
+  datasetNameProblem,
+  pushQueryHistory,
+  quoteIdentifier,
+} from './sql-on-fhir-datasets.lib';
+
+describe('sql-on-fhir-datasets.lib', () => {
+  test('stores a dataset under an idb:// directory derived from its name', () => {
+    expect(datasetDataDir('Synthea 5k')).toBe('idb://cql-studio-sql-synthea-5k');
+    expect(datasetIndexedDbName('Synthea 5k')).toBe('/pglite/cql-studio-sql-synthea-5k');
+  });
+
+  test('rejects unusable and duplicate dataset names', () => {
+    expect(datasetNameProblem('Synthea 5k')).toBeNull();
+    expect(datasetNameProblem('  ')).toMatch(/letters, digits/);
+    expect(datasetNameProblem('-leading')).toMatch(/letters, digits/);
+    expect(datasetNameProblem('synthea_5k', ['Synthea 5k'])).toMatch(/already exists/);
+  });
+
+  test('quotes identifiers and keeps the newest query results', () => {
+    expect(quoteIdentifier('my "view"')).toBe('"my ""view"""');
+    expect(pushQueryHistory([2, 1], 3, 2)).toEqual([3, 2]);
+  });
+});
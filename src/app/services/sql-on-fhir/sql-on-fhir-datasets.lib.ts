@@ -0,0 +1,100 @@
+// Author: Preston Lee
+
+/**
+ * Named PGlite datasets persisted in IndexedDB. PGlite's `idb://<dir>` storage
+ * keeps the database in an IndexedDB database named `/pglite/<dir>`; the list of
+ * datasets and the active one are remembered in localStorage.
+ */
+
+export const DATASET_STORAGE_KEY = 'cqlStudio.sqlOnFhir.datasets';
+
+/** Rows kept per ad-hoc query result in the explorer history. */
+export const QUERY_RESULT_ROW_LIMIT = 200;
+
+/** Ad-hoc query results the explorer keeps. */
+export const QUERY_HISTORY_LIMIT = 10;
+
+const DATA_DIR_PREFIX = 'cql-studio-sql-';
+const DATASET_NAME = /^[A-Za-z0-9][A-Za-z0-9 _-]{0,63}$/;
+
+export interface DatasetRegistry {
+  names: string[];
+  /** Dataset in use; null for the in-memory database. */
+  active: string | null;
+}
+
+/** Why `name` cannot name a dataset, or null when it can. */
+export function datasetNameProblem(name: string, existing: readonly string[] = []): string | null {
+  const trimmed = name.trim();
+  if (!DATASET_NAME.test(trimmed)) {
+    return (
+      'Use up to 64 letters, digits, spaces, hyphens or underscores, ' +
+      'starting with a letter or digit.'
+    );
+  }
+  const slug = datasetSlug(trimmed);
+  if (existing.some(n => datasetSlug(n) === slug)) {
+    return `A dataset named "${trimmed}" already exists.`;
+  }
+  return null;
+}
+
+/** `Synthea 5k` → `synthea-5k`. */
+export function datasetSlug(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/** PGlite `dataDir` for a dataset. */
+export function datasetDataDir(name: string): string {
+  return `idb://${DATA_DIR_PREFIX}${datasetSlug(name)}`;
+}
+
+/** IndexedDB database PGlite stores a dataset in; deleting it deletes the dataset. */
+export function datasetIndexedDbName(name: string): string {
+  return `/pglite/${DATA_DIR_PREFIX}${datasetSlug(name)}`;
+}
+
+export function loadDatasetRegistry(): DatasetRegistry {
+  const empty: DatasetRegistry = { names: [], active: null };
+  if (typeof window === 'undefined' || typeof window.localStorage === 'undefined') {
+    return empty;
+  }
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(DATASET_STORAGE_KEY) ?? 'null') as
+      | Partial<DatasetRegistry>
+      | null;
+    const names = Array.isArray(parsed?.names)
+      ? parsed.names.filter((n): n is string => typeof n === 'string' && !!n.trim())
+      : [];
+    const active =
+      typeof parsed?.active === 'string' && names.includes(parsed.active) ? parsed.active : null;
+    return { names, active };
+  } catch {
+    return empty;
+  }
+}
+
+export function saveDatasetRegistry(registry: DatasetRegistry): void {
+  if (typeof window === 'undefined' || typeof window.localStorage === 'undefined') {
+    return;
+  }
+  window.localStorage.setItem(DATASET_STORAGE_KEY, JSON.stringify(registry));
+}
+
+/** `name` as a double-quoted SQL identifier. */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/** `entry` first, then the newest `limit - 1` of `history`. */
+export function pushQueryHistory<T>(
+  history: readonly T[],
+  entry: T,
+  limit = QUERY_HISTORY_LIMIT,
+): T[] {
+  return [entry, ...history].slice(0, limit);
+}
@@ -0,0 +1,115 @@
+// Author: Preston Lee
+
+import { describe, expect, test } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import type { Bundle, Library } from 'fhir/r4';
+import type { ViewDefinition } from '../../components/sql-on-fhir/elm-to-sql';
+import { decodeUtf8Base64 } from '../utf8-encoding.lib';
+import {
+  SQL_CONTENT_TYPE,
+  buildDeployPackage,
+  zipDeployPackage,
+  type DeployPackageInput,
+} from './sql-on-fhir-deploy-package.lib';
+
+const customView: ViewDefinition = {
+  resourceType: 'ViewDefinition',
+  name: 'risk_flag',
+  url: 'http://example.org/ViewDefinition/risk_flag',
+  status: 'active',
+  resource: 'Flag',
+  select: [{ column: [{ name: 'id', path: 'id' }] }],
+};
+
+const input = (overrides: Partial<DeployPackageInput> = {}): DeployPackageInput => ({
+  library: {
+    id: 'cms125',
+    url: 'http://example.org/Library/CMS125',
+    name: 'CMS125',
+    version: '1.0.0',
+  },
+  sql: 'SELECT count(*) AS patients FROM patient_view;',
+  stratifiedQueries: [
+    {
+      kind: 'stratifier',
+      id: 'by-gender',
+      expressions: [],
+      sql: 'SELECT gender FROM patient_view GROUP BY gender',
+    },
+  ],
+  valueSetRows: [
+    { value_set_id: 'http://vs/1', code: 'a', system: 'http://cs', display: null, version: null },
+  ],
+  valueSetErrors: ['Mammography: terminology server unreachable'],
+  customViews: [customView],
+  generatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('sql-on-fhir-deploy-package.lib', () => {
+  test('zips a PostgreSQL script and a Bundle named after the library', () => {
+    const pkg = buildDeployPackage(input());
+    expect(pkg.fileName).toBe('cms125-sql-on-fhir.zip');
+    const unzipped = unzipSync(zipDeployPackage(pkg));
+    expect(Object.keys(unzipped).sort()).toEqual(['cms125.bundle.json', 'cms125.postgresql.sql']);
+    expect(strFromU8(unzipped['cms125.postgresql.sql'])).toBe(pkg.files['cms125.postgresql.sql']);
+  });
+
+  test('orders the script schema, value sets, views, then measure queries', () => {
+    const script = buildDeployPackage(input()).files['cms125.postgresql.sql'];
+    const order = [
+      'CREATE TABLE IF NOT EXISTS fhir_flag',
+      'NOT EXPANDED: Mammography',
+      'CREATE TABLE IF NOT EXISTS value_set_expansion',
+      "'http://vs/1'",
+      'CREATE OR REPLACE VIEW patient_view',
+      'CREATE OR REPLACE VIEW risk_flag',
+      'COMMIT;',
+      'SELECT count(*) AS patients FROM patient_view;',
+      '-- Stratifier by-gender\nSELECT gender FROM patient_view GROUP BY gender;',
+    ].map(fragment => script.indexOf(fragment));
+    expect(order.every(i => i >= 0)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+  });
+
+  test('bundles the ViewDefinitions and a text/x-sql Library as a transaction', () => {
+    const bundle = JSON.parse(buildDeployPackage(input()).files['cms125.bundle.json']) as Bundle;
+    expect(bundle.type).toBe('transaction');
+    const views = bundle
+      .entry!.map(e => e.resource as unknown as ViewDefinition)
+      .filter(r => r.resourceType === 'ViewDefinition');
+    expect(views.map(vd => vd.name)).toContain('risk_flag');
+    const libraryEntry = bundle.entry!.find(e => e.resource?.resourceType === 'Library')!;
+    expect(libraryEntry.request).toEqual({ method: 'PUT', url: 'Library/cms125-sql' });
+    const library = libraryEntry.resource as Library;
+    expect(library.url).toBe('http://example.org/Library/CMS125-sql');
+    expect(library.relatedArtifact?.[0]).toEqual({
+      type: 'derived-from',
+      resource: 'http://example.org/Library/CMS125|1.0.0',
+    });
+    expect(library.content?.map(c => c.contentType)).toEqual([SQL_CONTENT_TYPE, SQL_CONTENT_TYPE]);
+    expect(decodeUtf8Base64(library.content![0].data!)).toBe(
+      'SELECT count(*) AS patients FROM patient_view;',
+    );
+  });
+
+  test('runs end to end on PostgreSQL (PGlite)', async () => {
+    const { PGlite } = await import('@electric-sql/pglite');
+    const pg = new PGlite();
+    try {
+      const script = buildDeployPackage(input({ stratifiedQueries: [] })).files[
+        'cms125.postgresql.sql'
+      ];
+      const [setup] = script.split('-- 4. Measure queries');
+      await pg.exec(setup);
+      await pg.query('INSERT INTO fhir_patient (id, resource) VALUES ($1, $2)', [
+        'p1',
+        { resourceType: 'Patient', id: 'p1', gender: 'female', birthDate: '1960-01-01' },
+      ]);
+      const result = await pg.query<{ patients: number }>(input().sql);
+      expect(Number(result.rows[0].patients)).toBe(1);
+    } finally {
+      await pg.close();
+    }
+  }, 60_000);
+});
@@ -0,0 +1,199 @@
+// Author: Preston Lee
+
+import { strToU8, zipSync } from 'fflate';
+import type { Bundle, FhirResource, Library, RelatedArtifact } from 'fhir/r4';
+import {
+  STANDARD_VIEW_DEFINITIONS,
+  generateValueSetTableDdl,
+  generateValueSetUpsertSql,
+  viewDefinitionToSql,
+  type StratifiedQuery,
+  type ValueSetExpansionRow,
+  type ViewDefinition,
+} from '../../components/sql-on-fhir/elm-to-sql';
+import { collectionBundleToTransaction } from '../fhir-bundle-transaction.lib';
+import { encodeUtf8Base64 } from '../utf8-encoding.lib';
+import type { FlatRow } from './sql-on-fhir-bundle-flattener.lib';
+
+/**
+ * Deployable package of a measure's SQL-on-FHIR artifacts: one PostgreSQL
+ * script that builds everything in dependency order, and a transaction Bundle
+ * with the ViewDefinitions and a Library carrying the SQL as `text/x-sql`.
+ */
+
+export const SQL_CONTENT_TYPE = 'text/x-sql';
+
+export interface DeployPackageInput {
+  /** The CQL Library the SQL was generated from; names and identifies the package. */
+  library: Pick<Library, 'id' | 'url' | 'name' | 'title' | 'version'> | null;
+  /** PostgreSQL population query. */
+  sql: string;
+  /** Stratifier and supplemental data queries, run after the population query. */
+  stratifiedQueries: StratifiedQuery[];
+  /** `value_set_expansion` rows for the value sets the SQL references. */
+  valueSetRows: FlatRow[];
+  /** Value sets that could not be expanded; listed in the script so the gap is visible. */
+  valueSetErrors: string[];
+  /** User-defined ViewDefinitions the SQL reads from besides the standard views. */
+  customViews: ViewDefinition[];
+  generatedAt: string;
+}
+
+export interface DeployPackage {
+  /** Zip file name. */
+  fileName: string;
+  /** Zip entry name → text content. */
+  files: Record<string, string>;
+}
+
+export function buildDeployPackage(input: DeployPackageInput): DeployPackage {
+  const base = deployPackageBaseName(input.library);
+  return {
+    fileName: `${base}-sql-on-fhir.zip`,
+    files: {
+      [`${base}.postgresql.sql`]: deployPackageScript(input),
+      [`${base}.bundle.json`]: JSON.stringify(deployPackageBundle(input), null, 2) + '\n',
+    },
+  };
+}
+
+export function zipDeployPackage(pkg: DeployPackage): Uint8Array {
+  return zipSync(
+    Object.fromEntries(Object.entries(pkg.files).map(([name, text]) => [name, strToU8(text)])),
+  );
+}
+
+/**
+ * Runnable PostgreSQL script: source tables, value sets and views in one
+ * transaction, then the measure query and its stratifier queries.
+ */
+export function deployPackageScript(input: DeployPackageInput): string {
+  const views = [...STANDARD_VIEW_DEFINITIONS, ...input.customViews];
+  const resourceTypes = [...new Set(views.map(vd => vd.resource))].sort();
+  const sourceTables = resourceTypes.map(
+    type =>
+      `CREATE TABLE IF NOT EXISTS fhir_${type.toLowerCase()} (\n` +
+      `  id        TEXT PRIMARY KEY,\n` +
+      `  resource  JSONB NOT NULL\n` +
+      `);`,
+  );
+  const valueSetRows = input.valueSetRows.map(toValueSetExpansionRow);
+  const queries = [
+    `-- Measure population query\n${statement(input.sql)}`,
+    ...input.stratifiedQueries.map(q => `-- ${stratifiedQueryTitle(q)}\n${statement(q.sql)}`),
+  ];
+  const name = input.library?.name ?? 'library';
+  const version = input.library?.version ? ` ${input.library.version}` : '';
+  return [
+    `-- SQL-on-FHIR deployment script for ${name}${version}`,
+    `-- Generated by CQL Studio at ${input.generatedAt}`,
+    `-- Load FHIR resource JSON into the fhir_<type> tables, then run the queries at the end.`,
+    '',
+    'BEGIN;',
+    '',
+    '-- 1. Source tables: one row per resource, JSON in `resource`',
+    sourceTables.join('\n\n'),
+    '',
+    `-- 2. Value sets (${new Set(valueSetRows.map(r => r.value_set_id)).size} value sets, ` +
+      `${valueSetRows.length} codes)`,
+    ...input.valueSetErrors.map(e => `-- NOT EXPANDED: ${e.replace(/\s*\n\s*/g, ' ')}`),
+    generateValueSetTableDdl(),
+    ...(valueSetRows.length ? ['', generateValueSetUpsertSql(valueSetRows)] : []),
+    '',
+    '-- 3. SQL-on-FHIR views',
+    views.map(vd => viewDefinitionToSql(vd).sql).join('\n\n'),
+    '',
+    'COMMIT;',
+    '',
+    '-- 4. Measure queries',
+    queries.join('\n\n'),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Transaction Bundle for a FHIR server: every ViewDefinition the script
+ * builds, and a Library holding the measure queries as `text/x-sql`.
+ */
+export function deployPackageBundle(input: DeployPackageInput): Bundle {
+  const views = [...STANDARD_VIEW_DEFINITIONS, ...input.customViews];
+  return collectionBundleToTransaction({
+    resourceType: 'Bundle',
+    type: 'collection',
+    entry: [
+      ...views.map(vd => ({ resource: vd as unknown as FhirResource })),
+      { resource: deployPackageLibrary(input, views) },
+    ],
+  });
+}
+
+/** Library with the population query, then each stratifier query, as `text/x-sql` content. */
+export function deployPackageLibrary(input: DeployPackageInput, views: ViewDefinition[]): Library {
+  const source = input.library;
+  const name = source?.name ?? 'Library';
+  const related: RelatedArtifact[] = [];
+  if (source?.url) {
+    related.push({
+      type: 'derived-from',
+      resource: source.version ? `${source.url}|${source.version}` : source.url,
+    });
+  }
+  for (const vd of views) {
+    if (vd.url) {
+      related.push({ type: 'depends-on', display: vd.name, resource: vd.url });
+    }
+  }
+  return {
+    resourceType: 'Library',
+    id: `${deployPackageBaseName(source)}-sql`,
+    ...(source?.url ? { url: `${source.url}-sql` } : {}),
+    ...(source?.version ? { version: source.version } : {}),
+    name: `${name.replace(/[^A-Za-z0-9_]/g, '')}Sql`,
+    title: `${source?.title ?? name} (SQL on FHIR)`,
+    status: 'draft',
+    date: input.generatedAt,
+    type: {
+      coding: [
+        { system: 'http://terminology.hl7.org/CodeSystem/library-type', code: 'logic-library' },
+      ],
+    },
+    ...(related.length ? { relatedArtifact: related } : {}),
+    content: [
+      {
+        contentType: SQL_CONTENT_TYPE,
+        title: 'Population query',
+        data: encodeUtf8Base64(statement(input.sql)),
+      },
+      ...input.stratifiedQueries.map(q => ({
+        contentType: SQL_CONTENT_TYPE,
+        title: stratifiedQueryTitle(q),
+        data: encodeUtf8Base64(statement(q.sql)),
+      })),
+    ],
+  };
+}
+
+/** File-name-safe base name: the library id, else its name. */
+function deployPackageBaseName(library: DeployPackageInput['library']): string {
+  const raw = library?.id ?? library?.name ?? 'library';
+  return raw.replace(/[^A-Za-z0-9_-]/g, '_') || 'library';
+}
+
+function stratifiedQueryTitle(q: StratifiedQuery): string {
+  return `${q.kind === 'stratifier' ? 'Stratifier' : 'Supplemental data'} ${q.id}`;
+}
+
+function statement(sql: string): string {
+  return sql.trim().replace(/;$/, '') + ';';
+}
+
+function toValueSetExpansionRow(row: FlatRow): ValueSetExpansionRow {
+  const text = (v: FlatRow[string]) => (v == null ? undefined : String(v));
+  return {
+    value_set_id: String(row['value_set_id'] ?? ''),
+    code: String(row['code'] ?? ''),
+    system: String(row['system'] ?? ''),
+    display: text(row['display']),
+    version: text(row['version']),
+  };
+}
@@ -0,0 +1,166 @@
+// Author: Preston Lee
+//
+// The DuckDB dialect executed by a real DuckDB engine (@duckdb/node-api).
+// CQL Studio only downloads DuckDB SQL, so this is the check that the
+// generated script runs there and counts the same patients PGlite does.
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { DuckDBInstance, type DuckDBConnection } from '@duckdb/node-api';
+import {
+  DUCKDB_DIALECT,
+  ElmToSqlTranspiler,
+  generateValueSetTableDdl,
+  viewDefinitionToTableDdl,
+} from '../../components/sql-on-fhir/elm-to-sql';
+import type { ElmLibraryWrapper } from '../../components/sql-on-fhir/elm-to-sql';
+import { emptyFlatTables, flatViewDefinitions, type FlatRow, type FlatTables } from './sql-on-fhir-bundle-flattener.lib';
+
+const OFFICE_VISIT = 'http://cts.nlm.nih.gov/fhir/ValueSet/2.16.840.1.113883.3.464.1003.101.12.1001';
+const CPT = 'http://www.ama-assn.org/go/cpt';
+
+const int = (value: number) => ({ type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}Integer', value: String(value) });
+const str = (value: string) => ({ type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}String', value });
+const mp = { type: 'ParameterRef', name: 'Measurement Period' };
+const visits = {
+  type: 'Retrieve',
+  dataType: '{http://hl7.org/fhir}Encounter',
+  codes: { type: 'ValueSetRef', name: 'Office Visit' },
+};
+
+/** Women with an office visit in the period; the numerator also exercises list positions and interval bounds. */
+function library(): ElmLibraryWrapper {
+  return {
+    library: {
+      identifier: { id: 'DuckDbCheck', version: '0.0.1' },
+      schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+      valueSets: { def: [{ name: 'Office Visit', id: OFFICE_VISIT }] },
+      statements: {
+        def: [
+          {
+            name: 'Patient', context: 'Patient',
+            expression: { type: 'SingletonFrom', operand: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Patient' } },
+          },
+          {
+            name: 'Qualifying Encounters', context: 'Patient',
+            expression: {
+              type: 'Query',
+              source: [{ alias: 'E', expression: visits }],
+              where: { type: 'During', operand: [{ type: 'Property', path: 'period_start', scope: 'E' }, mp] },
+            },
+          },
+          {
+            name: 'Initial Population', context: 'Patient',
+            expression: {
+              type: 'And',
+              operand: [
+                { type: 'Equal', operand: [{ type: 'Property', path: 'gender', source: { type: 'ExpressionRef', name: 'Patient' } }, str('female')] },
+                { type: 'Exists', operand: { type: 'ExpressionRef', name: 'Qualifying Encounters' } },
+              ],
+            },
+          },
+          { name: 'Denominator', context: 'Patient', expression: { type: 'ExpressionRef', name: 'Initial Population' } },
+          {
+            name: 'Late Visits', context: 'Patient',
+            expression: {
+              type: 'Query',
+              source: [{ alias: 'E', expression: visits }],
+              where: { type: 'After', operand: [{ type: 'Property', path: 'period_start', scope: 'E' }, str('2024-06-01T00:00:00Z')] },
+            },
+          },
+          {
+            name: 'Numerator', context: 'Patient',
+            expression: {
+              type: 'And',
+              operand: [
+                { type: 'Exists', operand: { type: 'ExpressionRef', name: 'Late Visits' } },
+                {
+                  type: 'Equal',
+                  operand: [{ type: 'IndexOf', source: { type: 'List', element: [str('a'), str('b')] }, element: str('b') }, int(1)],
+                },
+                {
+                  type: 'Starts',
+                  operand: [{ type: 'Interval', low: str('2024-01-01'), high: str('2024-06-30') }, mp],
+                },
+              ],
+            },
+          },
+        ],
+      },
+    },
+  } as unknown as ElmLibraryWrapper;
+}
+
+function cohort(): FlatTables {
+  const t = emptyFlatTables();
+  const patient = (id: string, gender: string) => ({ id, gender, birthdate: '1960-01-01', active: true });
+  const visit = (id: string, subjectId: string, start: string) => ({
+    id, subject_id: subjectId, status: 'finished', type_code: '99213', type_system: CPT,
+    type_coding: JSON.stringify([{ system: 'urn:other', code: 'x' }, { system: CPT, code: '99213' }]),
+    period_start: start, period_end: start,
+  });
+  t.patient_view.push(patient('ann', 'female'), patient('bea', 'female'), patient('cal', 'male'), patient('dot', 'female'));
+  t.encounter_view.push(
+    visit('e-ann-1', 'ann', '2024-02-01T09:00:00Z'),
+    visit('e-ann-2', 'ann', '2024-08-01T09:00:00Z'),
+    visit('e-bea', 'bea', '2024-03-01T09:00:00Z'),
+    visit('e-cal', 'cal', '2024-03-01T09:00:00Z'),
+    visit('e-dot', 'dot', '2023-03-01T09:00:00Z'),
+  );
+  t.value_set_expansion.push({ value_set_id: OFFICE_VISIT, code: '99213', system: CPT, display: 'Office visit' });
+  return t;
+}
+
+function sqlValue(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+async function load(db: DuckDBConnection, tables: FlatTables): Promise<void> {
+  // DuckDB's JSON type stands in for PostgreSQL's JSONB in the view tables.
+  for (const vd of flatViewDefinitions()) {
+    await db.run(viewDefinitionToTableDdl(vd).replace(/\bJSONB\b/g, 'JSON'));
+  }
+  await db.run(generateValueSetTableDdl());
+  for (const [name, rows] of Object.entries(tables) as [string, FlatRow[]][]) {
+    for (const row of rows) {
+      const cols = Object.keys(row);
+      await db.run(`INSERT INTO ${name} (${cols.join(', ')}) VALUES (${cols.map(c => sqlValue(row[c])).join(', ')})`);
+    }
+  }
+}
+
+describe('DuckDB dialect on DuckDB', () => {
+  let instance: DuckDBInstance;
+  let db: DuckDBConnection;
+
+  beforeAll(async () => {
+    instance = await DuckDBInstance.create(':memory:');
+    db = await instance.connect();
+    await load(db, cohort());
+  });
+
+  afterAll(() => {
+    db?.closeSync();
+    instance?.closeSync();
+  });
+
+  it('runs the generated script and counts patients as PostgreSQL does', async () => {
+    const { sql, warnings } = new ElmToSqlTranspiler({
+      dialect: DUCKDB_DIALECT,
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+    }).transpile(library());
+    expect(warnings).toEqual([]);
+
+    const rows = (await db.runAndReadAll(sql)).getRowObjectsJS();
+    expect(rows).toHaveLength(1);
+    // DuckDB keeps the case of the CTE-derived column names that PostgreSQL folds.
+    const counts = Object.fromEntries(Object.entries(rows[0]).map(([k, v]) => [k.toLowerCase(), v]));
+    expect(counts).toMatchObject({
+      initial_population_count: 2n, // ann and bea; cal is male, dot's visit is before the period
+      denominator_count: 2n,
+      numerator_count: 1n, // only ann has a visit after June
+    });
+  });
+});
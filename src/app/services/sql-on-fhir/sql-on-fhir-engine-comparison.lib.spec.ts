@@ -0,0 +1,101 @@
+// Author: Preston Lee
+
+import { describe, expect, test } from 'vitest';
+import type { MeasureReport } from 'fhir/r4';
+import { compareWithEngine, subjectIdOf } from './sql-on-fhir-engine-comparison.lib';
+
+function report(subject: string, counts: Record<string, number>, groupId?: string): MeasureReport {
+  return {
+    resourceType: 'MeasureReport',
+    status: 'complete',
+    type: 'individual',
+    measure: 'http://example.org/Measure/Test',
+    subject: { reference: `Patient/${subject}` },
+    period: { start: '2024-01-01', end: '2024-12-31' },
+    group: [
+      {
+        ...(groupId ? { id: groupId } : {}),
+        population: Object.entries(counts).map(([code, count]) => ({
+          code: { coding: [{ code }] },
+          count,
+        })),
+      },
+    ],
+  };
+}
+
+const engine = (r: MeasureReport) => ({ patientId: subjectIdOf(r), report: r, error: null });
+
+describe('sql-on-fhir-engine-comparison.lib', () => {
+  test('sums populations over patients and reports no disagreement when both paths agree', () => {
+    const sql = [
+      report('a', { 'initial-population': 1, numerator: 1 }, 'group-1'),
+      report('b', { 'initial-population': 1, numerator: 0 }, 'group-1'),
+    ];
+    const result = compareWithEngine(sql, [
+      engine(report('a', { 'initial-population': 1, numerator: 1 })),
+      engine(report('b', { 'initial-population': 1, numerator: 0 })),
+    ]);
+    expect(result.populations).toEqual([
+      { groupId: 'group-1', code: 'initial-population', sql: 2, engine: 2 },
+      { groupId: 'group-1', code: 'numerator', sql: 1, engine: 1 },
+    ]);
+    expect(result.disagreements).toEqual([]);
+    expect(result.patientCount).toBe(2);
+  });
+
+  test('lists per patient only the populations that differ', () => {
+    const result = compareWithEngine(
+      [report('a', { 'initial-population': 1, numerator: 1 })],
+      [engine(report('a', { 'initial-population': 1, numerator: 0 }))],
+    );
+    expect(result.disagreements).toEqual([
+      {
+        patientId: 'a',
+        populations: [{ groupId: 'group-1', code: 'numerator', sql: 1, engine: 0 }],
+        error: null,
+      },
+    ]);
+  });
+
+  test('treats a patient without an SQL report as in no population', () => {
+    const result = compareWithEngine([], [engine(report('a', { 'initial-population': 1 }))]);
+    expect(result.populations).toEqual([
+      { groupId: 'group-1', code: 'initial-population', sql: 0, engine: 1 },
+    ]);
+    expect(result.disagreements[0].patientId).toBe('a');
+  });
+
+  test('keeps engine failures out of the totals', () => {
+    const result = compareWithEngine(
+      [report('a', { 'initial-population': 1 }), report('b', { 'initial-population': 1 })],
+      [
+        engine(report('a', { 'initial-population': 1 })),
+        { patientId: 'b', report: null, error: 'Patient/b not found' },
+      ],
+    );
+    expect(result.populations[0]).toMatchObject({ sql: 1, engine: 1 });
+    expect(result.disagreements).toEqual([
+      { patientId: 'b', populations: [], error: 'Patient/b not found' },
+    ]);
+  });
+
+  test('distinguishes repeated population codes within a group', () => {
+    const ratio = (a: number, b: number): MeasureReport => ({
+      ...report('a', {}),
+      group: [
+        {
+          population: [
+            { code: { coding: [{ code: 'measure-observation' }] }, count: a },
+            { code: { coding: [{ code: 'measure-observation' }] }, count: b },
+          ],
+        },
+      ],
+    });
+    const result = compareWithEngine([ratio(1, 2)], [engine(ratio(1, 3))]);
+    expect(result.populations.map(p => p.code)).toEqual(['measure-observation', 'measure-observation#2']);
+    expect(result.disagreements[0].populations).toEqual([
+      { groupId: 'group-1', code: 'measure-observation#2', sql: 2, engine: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+// Author: Preston Lee
+
+import type { MeasureReport } from 'fhir/r4';
+
+/** One population's count from the SQL path and from the CQL engine. */
+export interface PopulationComparison {
+  /** Measure group id, or `group-<n>` when the group has none. */
+  groupId: string;
+  /** Population code, e.g. `numerator`; a repeated code is suffixed `#2`, `#3`, … */
+  code: string;
+  sql: number;
+  engine: number;
+}
+
+/** The engine's `subject` report for one patient, or why it could not be produced. */
+export interface EnginePatientResult {
+  patientId: string;
+  report: MeasureReport | null;
+  error: string | null;
+}
+
+/** A patient the two paths disagree on: the populations whose counts differ, or the engine error. */
+export interface PatientDisagreement {
+  patientId: string;
+  populations: PopulationComparison[];
+  error: string | null;
+}
+
+export interface EngineComparison {
+  /** Every population, summed over the patients both paths evaluated. */
+  populations: PopulationComparison[];
+  /** Patients whose counts differ in at least one population, or whose engine run failed. */
+  disagreements: PatientDisagreement[];
+  /** Patients compared, including those the engine failed on. */
+  patientCount: number;
+}
+
+/**
+ * Compares the SQL path's `individual` MeasureReports with the engine's
+ * per-patient reports. Groups are matched by position, since the SQL path names
+ * unnamed Measure groups `group-<n>`. A patient without an SQL report counts
+ * as in no population; patients the engine failed on are left out of the
+ * population totals.
+ */
+export function compareWithEngine(
+  sqlReports: MeasureReport[],
+  engineResults: EnginePatientResult[],
+): EngineComparison {
+  const sqlBySubject = new Map(sqlReports.map(r => [subjectIdOf(r), r]));
+  const totals = new Map<string, PopulationComparison>();
+  const disagreements: PatientDisagreement[] = [];
+  for (const { patientId, report, error } of engineResults) {
+    if (!report) {
+      disagreements.push({ patientId, populations: [], error: error ?? 'No MeasureReport returned' });
+      continue;
+    }
+    const sqlReport = sqlBySubject.get(patientId);
+    const rows = mergeCounts(sqlReport ? populationCounts(sqlReport) : new Map(), populationCounts(report));
+    for (const [key, row] of rows) {
+      const total = totals.get(key) ?? { ...row, sql: 0, engine: 0 };
+      total.sql += row.sql;
+      total.engine += row.engine;
+      totals.set(key, total);
+    }
+    const differing = [...rows.values()].filter(row => row.sql !== row.engine);
+    if (differing.length) {
+      disagreements.push({ patientId, populations: differing, error: null });
+    }
+  }
+  return {
+    populations: [...totals.values()],
+    disagreements,
+    patientCount: engineResults.length,
+  };
+}
+
+/** `Patient/123` → `123`. */
+export function subjectIdOf(report: MeasureReport): string {
+  return report.subject?.reference?.replace(/^Patient\//, '') ?? '';
+}
+
+interface PopulationCount {
+  groupId: string;
+  code: string;
+  count: number;
+}
+
+/** Population counts keyed by group position and code occurrence. */
+function populationCounts(report: MeasureReport): Map<string, PopulationCount> {
+  const counts = new Map<string, PopulationCount>();
+  (report.group ?? []).forEach((group, gi) => {
+    const seen = new Map<string, number>();
+    for (const population of group.population ?? []) {
+      const code = population.code?.coding?.[0]?.code;
+      if (!code) {
+        continue;
+      }
+      const n = (seen.get(code) ?? 0) + 1;
+      seen.set(code, n);
+      counts.set(`${gi}|${code}|${n}`, {
+        groupId: group.id ?? `group-${gi + 1}`,
+        code: n > 1 ? `${code}#${n}` : code,
+        count: population.count ?? 0,
+      });
+    }
+  });
+  return counts;
+}
+
+/** Side-by-side rows, in SQL order then any populations only the engine reported. */
+function mergeCounts(
+  sql: Map<string, PopulationCount>,
+  engine: Map<string, PopulationCount>,
+): Map<string, PopulationComparison> {
+  const rows = new Map<string, PopulationComparison>();
+  for (const key of new Set([...sql.keys(), ...engine.keys()])) {
+    const s = sql.get(key);
+    const e = engine.get(key);
+    rows.set(key, {
+      groupId: (e ?? s)!.groupId,
+      code: (s ?? e)!.code,
+      sql: s?.count ?? 0,
+      engine: e?.count ?? 0,
+    });
+  }
+  return rows;
+}
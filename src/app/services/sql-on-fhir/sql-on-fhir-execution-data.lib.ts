@@ -103,12 +103,22 @@ export function resolveValueSetReferences(
   return extractValueSets(wrapper).filter(ref => lookupBundledValueSet(ref, indexes) != null);
 }
 
+/**
+ * Value set rows for the library's used value sets plus `additionalRefs`
+ * (e.g. value sets of included libraries the generated SQL reads).
+ */
 export async function prepareValueSetRowsForExecution(
   elmJson: string,
   bundledValueSets: ValueSet[] = [],
   fetchExpansions?: (refs: ValueSetReference[]) => Promise<ValueSetLoadResult[]>,
+  additionalRefs: ValueSetReference[] = [],
 ): Promise<PrepareValueSetRowsResult> {
   const refs = resolveValueSetReferences(elmJson, bundledValueSets);
+  for (const ref of additionalRefs) {
+    if (!refs.some(r => normalizeValueSetUrl(r.url) === normalizeValueSetUrl(ref.url))) {
+      refs.push(ref);
+    }
+  }
   if (refs.length === 0) {
     return { rows: [], errors: [], unresolvedRefs: [] };
   }
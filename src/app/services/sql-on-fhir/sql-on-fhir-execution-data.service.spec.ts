@@ -6,6 +6,7 @@ import { describe, expect, test, beforeEach, vi } from 'vitest';
 import { of, throwError } from 'rxjs';
 import type { Bundle } from 'fhir/r4';
 import { SqlOnFhirExecutionDataService } from './sql-on-fhir-execution-data.service';
+import { SqlOnFhirPatientLoaderService } from './sql-on-fhir-patient-loader.service';
 import { mergeBundles, bundleHasClinicalResources, summarizeBundleResources } from './sql-on-fhir-execution-data.lib';
 import cms125Bundle from '../../../../public/fhir/sql-on-fhir/cms125-bundle.json';
 
@@ -59,9 +60,7 @@ describe('sql-on-fhir-execution-data.service', () => {
       ]);
       const summary = summarizeBundleResources(merged);
       expect(summary.patientIds).toEqual(['p1', 'p2']);
-      expect(summary.countsByType.Patient).toBe(2);
-      expect(summary.countsByType.Encounter).toBe(1);
-      expect(summary.countsByType.Observation).toBe(1);
+      expect(summary.countsByType).toEqual({ Patient: 2, Encounter: 1, Observation: 1 });
       expect(summary.totalResources).toBe(4);
     });
   });
@@ -78,14 +77,16 @@ describe('sql-on-fhir-execution-data.service', () => {
     };
 
     function createService(): SqlOnFhirExecutionDataService {
-      const instance = Object.create(
-        SqlOnFhirExecutionDataService.prototype,
-      ) as SqlOnFhirExecutionDataService & {
+      const loader = Object.create(SqlOnFhirPatientLoaderService.prototype) as SqlOnFhirPatientLoaderService & {
         patientService: typeof patientService;
         fhirSearch: typeof fhirSearch;
       };
-      instance.patientService = patientService;
-      instance.fhirSearch = fhirSearch;
+      loader.patientService = patientService;
+      loader.fhirSearch = fhirSearch;
+      const instance = Object.create(
+        SqlOnFhirExecutionDataService.prototype,
+      ) as SqlOnFhirExecutionDataService & { patientLoader: SqlOnFhirPatientLoaderService };
+      instance.patientLoader = loader;
       return instance;
     }
 
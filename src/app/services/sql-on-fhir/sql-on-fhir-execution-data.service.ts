@@ -4,32 +4,26 @@ import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
 import { firstValueFrom, forkJoin } from 'rxjs';
 import type { Bundle, Patient, Resource, ValueSet } from 'fhir/r4';
-import { PatientService } from '../patient.service';
-import { FhirSearchService } from '../fhir-search.service';
 import { FhirClientService } from '../fhir-client.service';
 import { SettingsService } from '../settings.service';
 import { buildHttpHeaders } from '../endpoint-config.lib';
-import { fetchAllBundlePages } from '../fhir-bundle-fetch.lib';
-import { loadValueSetExpansions } from '../../components/sql-on-fhir/elm-to-sql';
+import {
+  loadValueSetExpansions,
+  type ValueSetLoadResult,
+  type ValueSetReference,
+} from '../../components/sql-on-fhir/elm-to-sql';
 import type { FlatRow } from './sql-on-fhir-bundle-flattener.lib';
 import { flattenValueSets } from './sql-on-fhir-bundle-flattener.lib';
-import {
-  mergeBundles,
-  prepareValueSetRowsForExecution,
-} from './sql-on-fhir-execution-data.lib';
+import { prepareValueSetRowsForExecution } from './sql-on-fhir-execution-data.lib';
 import { valueSetForServerPut } from './sql-on-fhir-value-set-publish.lib';
 import {
   buildTransactionBundleForServerPublish,
   resourcesFromExecutionBundle,
 } from './sql-on-fhir-bundle-publish.lib';
 import {
-  isEverythingOperationFailure,
-  mapWithConcurrency,
-  nonPatientResourceTypes,
-  PATIENT_COMPARTMENT_FETCH_CONCURRENCY,
-  PATIENT_COMPARTMENT_SEARCH_PAGE_SIZE,
-  patientReference,
-} from './sql-on-fhir-patient-fetch.lib';
+  SqlOnFhirPatientLoaderService,
+  type LoadPatientsOptions,
+} from './sql-on-fhir-patient-loader.service';
 
 export type { ExecutionSeedData } from './sql-on-fhir-execution-data.types';
 export {
@@ -43,32 +37,31 @@ export type { BundleResourceSummary } from './sql-on-fhir-execution-data.lib';
 
 export interface BuildBundleFromPatientsOptions {
   resourceTypes: string[];
+  onProgress?: LoadPatientsOptions['onProgress'];
 }
 
 @Injectable({ providedIn: 'root' })
 export class SqlOnFhirExecutionDataService {
   private readonly http = inject(HttpClient);
-  private readonly patientService = inject(PatientService);
-  private readonly fhirSearch = inject(FhirSearchService);
+  private readonly patientLoader = inject(SqlOnFhirPatientLoaderService);
   private readonly fhirClient = inject(FhirClientService);
   private readonly settingsService = inject(SettingsService);
 
+  /** Patients' compartments as one bundle; throws when any of them failed to load. */
   async buildBundleFromPatients(
     patients: Patient[],
     options: BuildBundleFromPatientsOptions,
   ): Promise<Bundle> {
-    const withIds = patients.filter(p => p.id?.trim());
-    if (withIds.length === 0) {
-      return { resourceType: 'Bundle', type: 'collection', entry: [] };
-    }
-    const resourceTypes = [...new Set(options.resourceTypes.filter(t => t.trim()))].sort();
-    const nonPatientTypes = nonPatientResourceTypes(resourceTypes);
-    const bundles = await mapWithConcurrency(
-      withIds,
-      PATIENT_COMPARTMENT_FETCH_CONCURRENCY,
-      p => this.fetchPatientCompartment(p.id!, resourceTypes, nonPatientTypes),
+    const load = await firstValueFrom(
+      this.patientLoader.loadPatients(patients, {
+        resourceTypes: options.resourceTypes,
+        onProgress: options.onProgress,
+      }),
     );
-    return mergeBundles(bundles);
+    if (load.errors.length) {
+      throw new Error(load.errors.join('; '));
+    }
+    return load.bundle;
   }
 
   buildDataKeyFromPatients(patients: Patient[], resourceTypes: string[] = []): string {
@@ -94,16 +87,23 @@ export class SqlOnFhirExecutionDataService {
   async prepareValueSetRows(
     elmJson: string,
     bundledValueSets: ValueSet[] = [],
+    additionalRefs: ValueSetReference[] = [],
   ): Promise<{ rows: FlatRow[]; errors: string[] }> {
     const baseUrl = this.getTerminologyBaseUrl();
     const result = await prepareValueSetRowsForExecution(
       elmJson,
       bundledValueSets,
       refs => loadValueSetExpansions(baseUrl, refs, this.buildAuthenticatedFetch()),
+      additionalRefs,
     );
     return { rows: result.rows, errors: result.errors };
   }
 
+  /** Expand value sets on the configured terminology (or data) endpoint. */
+  fetchValueSetExpansions(refs: ValueSetReference[]): Promise<ValueSetLoadResult[]> {
+    return loadValueSetExpansions(this.getTerminologyBaseUrl(), refs, this.buildAuthenticatedFetch());
+  }
+
   valueSetRowsFromBundled(valueSets: ValueSet[]): FlatRow[] {
     return flattenValueSets(valueSets);
   }
@@ -139,66 +139,6 @@ export class SqlOnFhirExecutionDataService {
     await firstValueFrom(this.fhirClient.postBundle(transaction));
   }
 
-  private async fetchPatientCompartment(
-    patientId: string,
-    resourceTypes: string[],
-    nonPatientTypes: string[],
-  ): Promise<Bundle> {
-    const patient = await firstValueFrom(this.patientService.get(patientId));
-    const bundles: Bundle[] = [
-      {
-        resourceType: 'Bundle',
-        type: 'collection',
-        entry: [{ resource: patient }],
-      },
-    ];
-    if (nonPatientTypes.length === 0) {
-      return mergeBundles(bundles);
-    }
-    try {
-      const everything = await firstValueFrom(
-        this.patientService.getEverything(patientId, { types: nonPatientTypes }),
-      );
-      bundles.push(everything);
-      return mergeBundles(bundles);
-    } catch (err: unknown) {
-      if (!isEverythingOperationFailure(err)) {
-        throw err;
-      }
-      return this.fetchPatientCompartmentViaSearch(patientId, resourceTypes, patient);
-    }
-  }
-
-  private async fetchPatientCompartmentViaSearch(
-    patientId: string,
-    resourceTypes: string[],
-    patient: Patient,
-  ): Promise<Bundle> {
-    const bundles: Bundle[] = [
-      {
-        resourceType: 'Bundle',
-        type: 'collection',
-        entry: [{ resource: patient }],
-      },
-    ];
-    const ref = patientReference(patientId);
-    const typesToSearch = nonPatientResourceTypes(resourceTypes);
-    for (const resourceType of typesToSearch) {
-      const initial = await firstValueFrom(
-        this.fhirSearch.search(
-          resourceType,
-          { patient: ref },
-          { count: PATIENT_COMPARTMENT_SEARCH_PAGE_SIZE },
-        ),
-      );
-      const full = await fetchAllBundlePages(initial, url =>
-        firstValueFrom(this.fhirSearch.fetchFromUrl(url)),
-      );
-      bundles.push(full);
-    }
-    return mergeBundles(bundles);
-  }
-
   private terminologyHeaders(): HttpHeaders {
     const ctx = this.settingsService.getEndpointHttpContext('terminology', {
       'Content-Type': 'application/fhir+json',
@@ -7,4 +7,11 @@ export interface ExecutionSeedData {
   dataKey: string;
   bundle: Bundle;
   valueSetRows: FlatRow[];
+  /**
+   * Query the clinical data already stored in the active PGlite dataset
+   * (`dataKey` is its seeded key): only value sets are re-seeded, custom
+   * views are derived from the stored source resources, and `bundle` is
+   * ignored.
+   */
+  useStoredData?: boolean;
 }
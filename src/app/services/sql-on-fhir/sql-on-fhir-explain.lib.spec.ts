@@ -0,0 +1,79 @@
+// Author: Preston Lee
+
+import { describe, expect, test } from 'vitest';
+import type { TranspiledCte } from '../../components/sql-on-fhir/elm-to-sql';
+import {
+  ctePatientsSql,
+  cteRowsSql,
+  explainAnalyzeSql,
+  locatorLines,
+  readExplainJson,
+} from './sql-on-fhir-explain.lib';
+
+const ctes: TranspiledCte[] = [
+  {
+    name: 'initial_population',
+    kind: 'define',
+    define: 'Initial Population',
+    locator: '12:1-14:30',
+    patientColumn: 'patient_id',
+    sql: 'initial_population AS (SELECT p.patient_id FROM patients p WHERE p.age >= 50)',
+  },
+  {
+    name: 'measurement_period',
+    kind: 'define',
+    define: 'Measurement Period',
+    patientColumn: null,
+    sql: "measurement_period AS (SELECT DATE '2024-01-01' AS start_date)",
+  },
+  {
+    name: 'denominator',
+    kind: 'define',
+    define: 'Denominator',
+    locator: '16:1-16:40',
+    patientColumn: 'patient_id',
+    sql: 'denominator AS (SELECT ip.patient_id FROM initial_population ip)',
+  },
+];
+
+describe('sql-on-fhir-explain.lib', () => {
+  test('probes a CTE with the CTEs before it', () => {
+    const sql = cteRowsSql(ctes, 2);
+    expect(sql.startsWith('WITH\ninitial_population AS (')).toBe(true);
+    expect(sql).toContain('measurement_period AS (');
+    expect(sql.endsWith('SELECT * FROM denominator')).toBe(true);
+    expect(cteRowsSql(ctes, 0)).not.toContain('denominator');
+  });
+
+  test('lists patients only for per-patient CTEs', () => {
+    expect(ctePatientsSql(ctes, 1)).toBeNull();
+    expect(ctePatientsSql(ctes, 2, 10)).toContain(
+      'SELECT DISTINCT denominator.patient_id AS patient_id FROM denominator ORDER BY 1 LIMIT 10',
+    );
+  });
+
+  test('formats define line ranges from locators', () => {
+    expect(locatorLines('12:1-14:30')).toBe('12-14');
+    expect(locatorLines('16:1-16:40')).toBe('16');
+    expect(locatorLines(undefined)).toBeNull();
+  });
+
+  test('reads row counts and timings from EXPLAIN ANALYZE on PostgreSQL (PGlite)', async () => {
+    const { PGlite } = await import('@electric-sql/pglite');
+    const pg = new PGlite();
+    await pg.exec(`
+      CREATE TABLE patients (patient_id TEXT, age INT);
+      INSERT INTO patients VALUES ('a', 40), ('b', 55), ('c', 70);
+    `);
+    const explained = await pg.query<Record<string, unknown>>(
+      explainAnalyzeSql(cteRowsSql(ctes, 2) + ';', 'json'),
+    );
+    const summary = readExplainJson(explained.rows);
+    expect(summary.rowCount).toBe(2);
+    expect(summary.executionMs).toBeGreaterThanOrEqual(0);
+
+    const patients = await pg.query<{ patient_id: string }>(ctePatientsSql(ctes, 2)!);
+    expect(patients.rows.map(r => r.patient_id)).toEqual(['b', 'c']);
+    await pg.close();
+  }, 60_000);
+});
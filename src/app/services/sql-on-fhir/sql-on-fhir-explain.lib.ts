@@ -0,0 +1,92 @@
+// Author: Preston Lee
+
+import type { TranspiledCte } from '../../components/sql-on-fhir/elm-to-sql';
+import { parseLocator } from '../elm-locator.lib';
+
+/**
+ * SQL for the explain view: each CTE of a transpiled `WITH` query is probed
+ * on its own, so row counts and timings can be read per CQL define.
+ */
+
+/** Most patients listed for one CTE. */
+export const CTE_PATIENT_LIMIT = 200;
+
+/** A CTE's row count and timing on the loaded data. */
+export interface CteTrace {
+  cte: TranspiledCte;
+  /** CQL lines of the define, e.g. `12-14`; null without a locator. */
+  lines: string | null;
+  rowCount: number | null;
+  /** `EXPLAIN ANALYZE` execution time, including the CTEs it reads from. */
+  executionMs: number | null;
+  error: string | null;
+}
+
+/** Totals from an `EXPLAIN (ANALYZE, FORMAT JSON)` result. */
+export interface ExplainSummary {
+  rowCount: number;
+  planningMs: number;
+  executionMs: number;
+}
+
+/** `WITH <ctes up to and including ctes[index]> <select>`; `select` reads the CTE as `_cte`. */
+export function cteProbeSql(ctes: TranspiledCte[], index: number, select: string): string {
+  const withClause = `WITH\n${ctes
+    .slice(0, index + 1)
+    .map(c => c.sql)
+    .join(',\n\n')}`;
+  return `${withClause}\n\n${select.replace(/\b_cte\b/g, ctes[index].name)}`;
+}
+
+/** Probe returning every row of `ctes[index]`, for `EXPLAIN ANALYZE`. */
+export function cteRowsSql(ctes: TranspiledCte[], index: number): string {
+  return cteProbeSql(ctes, index, 'SELECT * FROM _cte');
+}
+
+/** Distinct patients with rows in `ctes[index]`; null when its rows are not per patient. */
+export function ctePatientsSql(
+  ctes: TranspiledCte[],
+  index: number,
+  limit = CTE_PATIENT_LIMIT,
+): string | null {
+  const column = ctes[index].patientColumn;
+  if (!column) {
+    return null;
+  }
+  return cteProbeSql(
+    ctes,
+    index,
+    `SELECT DISTINCT _cte.${column} AS patient_id FROM _cte ORDER BY 1 LIMIT ${limit}`,
+  );
+}
+
+export function explainAnalyzeSql(sql: string, format: 'json' | 'text'): string {
+  const statement = sql.trim().replace(/;\s*$/, '');
+  return `EXPLAIN (ANALYZE, FORMAT ${format.toUpperCase()}) ${statement}`;
+}
+
+/** Read the root row count and timings from `EXPLAIN (ANALYZE, FORMAT JSON)` rows. */
+export function readExplainJson(rows: Record<string, unknown>[]): ExplainSummary {
+  const raw = rows[0]?.['QUERY PLAN'];
+  const parsed = (typeof raw === 'string' ? JSON.parse(raw) : raw) as
+    | Array<{ Plan?: Record<string, unknown>; 'Planning Time'?: number; 'Execution Time'?: number }>
+    | undefined;
+  const explain = parsed?.[0];
+  if (!explain?.Plan) {
+    throw new Error('EXPLAIN returned no plan');
+  }
+  return {
+    rowCount: Number(explain.Plan['Actual Rows'] ?? 0) * Number(explain.Plan['Actual Loops'] ?? 1),
+    planningMs: explain['Planning Time'] ?? 0,
+    executionMs: explain['Execution Time'] ?? 0,
+  };
+}
+
+/** `12-14`, or `12` for a one-line define; null without a usable locator. */
+export function locatorLines(locator: string | undefined): string | null {
+  const span = parseLocator(locator);
+  if (!span) {
+    return null;
+  }
+  return span.endLine > span.startLine ? `${span.startLine}-${span.endLine}` : `${span.startLine}`;
+}
@@ -0,0 +1,66 @@
+// Author: Preston Lee
+
+import { Injectable, inject } from '@angular/core';
+import type { TranspiledCte } from '../../components/sql-on-fhir/elm-to-sql';
+import { SqlOnFhirPgliteService } from './sql-on-fhir-pglite.service';
+import {
+  ctePatientsSql,
+  cteRowsSql,
+  explainAnalyzeSql,
+  locatorLines,
+  readExplainJson,
+  type CteTrace,
+} from './sql-on-fhir-explain.lib';
+
+/**
+ * Traces a transpiled query on the data in PGlite: per-CTE row counts and
+ * `EXPLAIN ANALYZE` timings, the patients a CTE matched, and the full plan.
+ */
+@Injectable({ providedIn: 'root' })
+export class SqlOnFhirExplainService {
+  private readonly pg = inject(SqlOnFhirPgliteService);
+
+  /**
+   * Run each CTE on its own under `EXPLAIN ANALYZE`, in `WITH` order. A CTE
+   * that fails is reported on its row; the others still run.
+   */
+  async traceCtes(ctes: TranspiledCte[]): Promise<CteTrace[]> {
+    const traces: CteTrace[] = [];
+    for (let i = 0; i < ctes.length; i++) {
+      const trace: CteTrace = {
+        cte: ctes[i],
+        lines: locatorLines(ctes[i].locator),
+        rowCount: null,
+        executionMs: null,
+        error: null,
+      };
+      try {
+        const { rows } = await this.pg.execute(explainAnalyzeSql(cteRowsSql(ctes, i), 'json'));
+        const summary = readExplainJson(rows);
+        trace.rowCount = summary.rowCount;
+        trace.executionMs = summary.executionMs;
+      } catch (err) {
+        trace.error = err instanceof Error ? err.message : String(err);
+      }
+      traces.push(trace);
+    }
+    return traces;
+  }
+
+  /** Ids of the patients with rows in the named CTE (at most `CTE_PATIENT_LIMIT`). */
+  async ctePatients(ctes: TranspiledCte[], name: string): Promise<string[]> {
+    const index = ctes.findIndex(c => c.name === name);
+    const sql = index < 0 ? null : ctePatientsSql(ctes, index);
+    if (!sql) {
+      throw new Error(`${name} does not have one row per patient.`);
+    }
+    const { rows } = await this.pg.execute(sql);
+    return rows.map(r => String(r['patient_id']));
+  }
+
+  /** The `EXPLAIN ANALYZE` text plan of a whole query. */
+  async explainQuery(sql: string): Promise<string> {
+    const { rows } = await this.pg.execute(explainAnalyzeSql(sql, 'text'));
+    return rows.map(r => String(r['QUERY PLAN'])).join('\n');
+  }
+}
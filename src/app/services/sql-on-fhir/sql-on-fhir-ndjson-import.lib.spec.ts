@@ -0,0 +1,76 @@
+// Author: Preston Lee
+
+import { describe, expect, test } from 'vitest';
+import { gzipSync, strToU8, zipSync } from 'fflate';
+import type { FhirResource } from 'fhir/r4';
+import {
+  flattenNdjsonResources,
+  ndjsonLineBatches,
+  type NdjsonLineBatch,
+} from './sql-on-fhir-ndjson-import.lib';
+
+/** `bytes` split into `size`-byte chunks, so lines and characters straddle chunk boundaries. */
+async function* chunked(bytes: Uint8Array, size: number): AsyncGenerator<Uint8Array> {
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.subarray(i, i + size);
+  }
+}
+
+async function collect(name: string, bytes: Uint8Array, size = 7): Promise<NdjsonLineBatch[]> {
+  const batches: NdjsonLineBatch[] = [];
+  for await (const batch of ndjsonLineBatches(name, chunked(bytes, size))) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+const linesOf = (batches: NdjsonLineBatch[], entry: string) =>
+  batches.filter(b => b.entry === entry).flatMap(b => b.lines);
+
+describe('sql-on-fhir-ndjson-import.lib', () => {
+  const patients = '{"resourceType":"Patient","id":"ä"}\n\n{"resourceType":"Patient","id":"b"}\n';
+
+  test('splits plain NDJSON into lines across chunk boundaries', async () => {
+    const batches = await collect('Patient.ndjson', strToU8(patients));
+    expect(linesOf(batches, 'Patient.ndjson')).toEqual([
+      '{"resourceType":"Patient","id":"ä"}',
+      '',
+      '{"resourceType":"Patient","id":"b"}',
+    ]);
+    const third = batches.find(b => b.lines.includes('{"resourceType":"Patient","id":"b"}'));
+    expect(third!.firstLine + third!.lines.indexOf('{"resourceType":"Patient","id":"b"}')).toBe(3);
+    expect(batches.at(-1)!.bytesRead).toBe(strToU8(patients).length);
+  });
+
+  test('gunzips .gz files and keeps a last line without a newline', async () => {
+    const batches = await collect('Patient.ndjson.gz', gzipSync(strToU8(patients.trimEnd())));
+    expect(linesOf(batches, 'Patient.ndjson')).toHaveLength(3);
+  });
+
+  test('reads every NDJSON entry of a zip and skips other entries', async () => {
+    const zip = zipSync({
+      'export/Patient.ndjson': strToU8(patients),
+      'export/Observation.ndjson': strToU8('{"resourceType":"Observation","id":"o"}'),
+      'export/README.txt': strToU8('not data'),
+    });
+    const batches = await collect('export.zip', zip, 64);
+    expect(linesOf(batches, 'export/Patient.ndjson')).toHaveLength(3);
+    expect(linesOf(batches, 'export/Observation.ndjson')).toEqual([
+      '{"resourceType":"Observation","id":"o"}',
+    ]);
+    expect(batches.some(b => b.entry.endsWith('README.txt'))).toBe(false);
+  });
+
+  test('flattens a mixed batch into rows per flat table', () => {
+    const resources = [
+      { resourceType: 'Patient', id: 'p1', gender: 'female' },
+      { resourceType: 'Encounter', id: 'e1', status: 'finished', class: {} },
+      { resourceType: 'Patient', id: 'p2' },
+      { resourceType: 'Basic', id: 'x', code: {} },
+    ] as FhirResource[];
+    const tables = flattenNdjsonResources(resources);
+    expect(tables.get('patient_view')).toHaveLength(2);
+    expect(tables.get('encounter_view')).toHaveLength(1);
+    expect([...tables.keys()].sort()).toEqual(['encounter_view', 'patient_view']);
+  });
+});
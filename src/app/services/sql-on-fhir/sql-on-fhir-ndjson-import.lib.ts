@@ -0,0 +1,157 @@
+// Author: Preston Lee
+
+import { Gunzip, Unzip, UnzipInflate } from 'fflate';
+import type { FhirResource } from 'fhir/r4';
+import {
+  flatViewDefinitions,
+  flattenResources,
+  type FlatRow,
+  type FlatViewName,
+} from './sql-on-fhir-bundle-flattener.lib';
+
+/**
+ * NDJSON ingestion: Bulk Data `$export` output and Synthea
+ * `--exporter.fhir.bulk_data` files, one resource per line, optionally gzipped
+ * or packed in a zip. Input is decoded chunk by chunk so files never have to
+ * fit in memory whole.
+ */
+
+/** Files the importer accepts. */
+export const NDJSON_IMPORT_ACCEPT = '.ndjson,.jsonl,.gz,.zip';
+
+const NDJSON_NAME = /\.(ndjson|jsonl)$/i;
+
+/** Lines decoded from one input chunk of an NDJSON file or zip entry. */
+export interface NdjsonLineBatch {
+  /** File name, or zip entry name. */
+  entry: string;
+  /** Number of the first line in `lines`, 1-based, counting blank lines. */
+  firstLine: number;
+  lines: string[];
+  /** Input bytes consumed so far (compressed bytes for `.gz` and `.zip`). */
+  bytesRead: number;
+}
+
+export interface NdjsonImportProgress {
+  /** File being read; null before the first and after the last. */
+  file: string | null;
+  filesDone: number;
+  filesTotal: number;
+  bytesRead: number;
+  bytesTotal: number;
+  resourceCount: number;
+  resourcesByType: Record<string, number>;
+  rowsByTable: Record<string, number>;
+  /** The first `NDJSON_IMPORT_ERROR_LIMIT` problems; `errorCount` has the total. */
+  errors: string[];
+  errorCount: number;
+}
+
+export const NDJSON_IMPORT_ERROR_LIMIT = 20;
+
+export function emptyNdjsonImportProgress(filesTotal: number, bytesTotal: number): NdjsonImportProgress {
+  return {
+    file: null,
+    filesDone: 0,
+    filesTotal,
+    bytesRead: 0,
+    bytesTotal,
+    resourceCount: 0,
+    resourcesByType: {},
+    rowsByTable: {},
+    errors: [],
+    errorCount: 0,
+  };
+}
+
+/**
+ * Decode `chunks` of the file `name` into batches of NDJSON lines, yielding
+ * after each chunk. `.gz` is gunzipped; a `.zip` yields the lines of every
+ * `.ndjson` / `.jsonl` entry and skips other entries.
+ */
+export async function* ndjsonLineBatches(
+  name: string,
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<NdjsonLineBatch> {
+  const pending: Omit<NdjsonLineBatch, 'bytesRead'>[] = [];
+  const decoders = new Map<string, LineDecoder>();
+  const decode = (entry: string, data: Uint8Array, final: boolean) => {
+    let decoder = decoders.get(entry);
+    if (!decoder) {
+      decoder = new LineDecoder();
+      decoders.set(entry, decoder);
+    }
+    const firstLine = decoder.nextLine;
+    const lines = decoder.push(data, final);
+    if (lines.length) {
+      pending.push({ entry, firstLine, lines });
+    }
+  };
+  let push: (chunk: Uint8Array, final: boolean) => void;
+  if (/\.zip$/i.test(name)) {
+    const unzip = new Unzip(file => {
+      if (!NDJSON_NAME.test(file.name)) {
+        return;
+      }
+      file.ondata = (err, data, final) => {
+        if (err) {
+          throw err;
+        }
+        decode(file.name, data, final);
+      };
+      file.start();
+    });
+    unzip.register(UnzipInflate);
+    push = (chunk, final) => unzip.push(chunk, final);
+  } else if (/\.gz$/i.test(name)) {
+    const entry = name.replace(/\.gz$/i, '');
+    const gunzip = new Gunzip((data, final) => decode(entry, data, final));
+    push = (chunk, final) => gunzip.push(chunk, final);
+  } else {
+    push = (chunk, final) => decode(name, chunk, final);
+  }
+  let bytesRead = 0;
+  for await (const chunk of chunks) {
+    bytesRead += chunk.byteLength;
+    push(chunk, false);
+    yield* pending.splice(0).map(batch => ({ ...batch, bytesRead }));
+  }
+  push(new Uint8Array(0), true);
+  yield* pending.splice(0).map(batch => ({ ...batch, bytesRead }));
+}
+
+/** Flat-table rows for a batch of resources of any mix of types, keyed by table. */
+export function flattenNdjsonResources(resources: FhirResource[]): Map<FlatViewName, FlatRow[]> {
+  const byType = new Map<string, FhirResource[]>();
+  for (const resource of resources) {
+    const list = byType.get(resource.resourceType) ?? [];
+    list.push(resource);
+    byType.set(resource.resourceType, list);
+  }
+  const tables = new Map<FlatViewName, FlatRow[]>();
+  for (const vd of flatViewDefinitions()) {
+    const ofType = byType.get(vd.resource);
+    if (ofType?.length) {
+      tables.set(vd.name as FlatViewName, flattenResources(vd, ofType));
+    }
+  }
+  return tables;
+}
+
+/** UTF-8 bytes → complete lines, carrying a partial last line to the next push. */
+class LineDecoder {
+  private readonly decoder = new TextDecoder();
+  private carry = '';
+  /** Number of the next line `push` returns, 1-based. */
+  nextLine = 1;
+
+  push(data: Uint8Array, final: boolean): string[] {
+    const lines = (this.carry + this.decoder.decode(data, { stream: !final })).split(/\r?\n/);
+    this.carry = final ? '' : (lines.pop() ?? '');
+    if (final && lines.at(-1) === '') {
+      lines.pop();
+    }
+    this.nextLine += lines.length;
+    return lines;
+  }
+}
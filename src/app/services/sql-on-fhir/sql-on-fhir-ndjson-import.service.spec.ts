@@ -0,0 +1,62 @@
+// Author: Preston Lee
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TestBed } from '@angular/core/testing';
+import { lastValueFrom, toArray } from 'rxjs';
+import { gzipSync, strToU8 } from 'fflate';
+import {
+  SqlOnFhirNdjsonImportService,
+  type NdjsonImportEvent,
+} from './sql-on-fhir-ndjson-import.service';
+import { SqlOnFhirPgliteService } from './sql-on-fhir-pglite.service';
+import { emptyFlatTables } from './sql-on-fhir-bundle-flattener.lib';
+
+describe('SqlOnFhirNdjsonImportService', () => {
+  let importer: SqlOnFhirNdjsonImportService;
+  let pg: SqlOnFhirPgliteService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    pg = TestBed.inject(SqlOnFhirPgliteService);
+    pg.reset();
+    importer = TestBed.inject(SqlOnFhirNdjsonImportService);
+  });
+
+  it('streams NDJSON files into the flat tables and reports counts', async () => {
+    await pg.seed('previous', { ...emptyFlatTables(), patient_view: [{ id: 'old' }] });
+    const patients = new File(
+      ['{"resourceType":"Patient","id":"p1"}\n{"resourceType":"Patient","id":"p2"}\n'],
+      'Patient.ndjson',
+    );
+    const observation = JSON.stringify({
+      resourceType: 'Observation',
+      id: 'o1',
+      subject: { reference: 'Patient/p1' },
+      status: 'final',
+      code: {},
+    });
+    const observations = new File(
+      [gzipSync(strToU8(`${observation}\nnot json\n`))],
+      'Observation.ndjson.gz',
+    );
+    const events = await lastValueFrom(
+      importer.importFiles([patients, observations]).pipe(toArray()),
+    );
+    const complete = events.at(-1) as Extract<NdjsonImportEvent, { kind: 'complete' }>;
+    expect(complete.kind).toBe('complete');
+    expect(complete.progress).toMatchObject({
+      filesDone: 2,
+      resourceCount: 3,
+      resourcesByType: { Patient: 2, Observation: 1 },
+      rowsByTable: { patient_view: 2, observation_view: 1 },
+      errorCount: 1,
+    });
+    expect(complete.progress.errors[0]).toMatch(/^Observation\.ndjson line 2:/);
+    expect(pg.seededDataKey()).toBe(complete.dataKey);
+
+    const { rows } = await pg.execute('SELECT id FROM patient_view ORDER BY id');
+    expect(rows.map(r => r['id'])).toEqual(['p1', 'p2']);
+    const stored = await pg.storedResources('Patient');
+    expect(stored.map(r => r.id)).toEqual(['p1', 'p2']);
+  }, 60_000);
+});
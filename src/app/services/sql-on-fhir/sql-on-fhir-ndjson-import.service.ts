@@ -0,0 +1,143 @@
+// Author: Preston Lee
+
+import { Injectable, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import type { FhirResource } from 'fhir/r4';
+import { SqlOnFhirPgliteService } from './sql-on-fhir-pglite.service';
+import { parseNdjsonLine } from './sql-on-fhir-bulk-export.lib';
+import {
+  NDJSON_IMPORT_ERROR_LIMIT,
+  emptyNdjsonImportProgress,
+  flattenNdjsonResources,
+  ndjsonLineBatches,
+  type NdjsonImportProgress,
+} from './sql-on-fhir-ndjson-import.lib';
+
+/** Resources flattened and inserted per PGlite transaction. */
+const NDJSON_IMPORT_BATCH_SIZE = 500;
+/** Bytes read from a file at a time. */
+const NDJSON_IMPORT_CHUNK_BYTES = 1 << 20;
+
+/** Progress while files are read, then the key the imported data was recorded under. */
+export type NdjsonImportEvent =
+  | { kind: 'progress'; progress: NdjsonImportProgress }
+  | { kind: 'complete'; progress: NdjsonImportProgress; dataKey: string };
+
+/**
+ * Loads NDJSON files (plain, `.gz`, or zipped, e.g. Bulk Data `$export` or
+ * Synthea bulk output) straight into the PGlite flat tables, a batch of
+ * resources at a time, so large exports never become one in-memory Bundle.
+ */
+@Injectable({ providedIn: 'root' })
+export class SqlOnFhirNdjsonImportService {
+  private readonly pg = inject(SqlOnFhirPgliteService);
+
+  /**
+   * Replace the clinical data in the flat tables with the resources in
+   * `files`, keeping the resources themselves so custom views can be derived
+   * from the import. Lines that are not FHIR resources are counted and
+   * reported, not fatal. Unsubscribing stops the import after the current
+   * batch; the tables then hold a partial load with no data key.
+   */
+  importFiles(files: readonly File[]): Observable<NdjsonImportEvent> {
+    return new Observable<NdjsonImportEvent>(subscriber => {
+      const controller = new AbortController();
+      this.runImport(
+        files,
+        progress => subscriber.next({ kind: 'progress', progress }),
+        controller.signal,
+      )
+        .then(({ progress, dataKey }) => {
+          if (controller.signal.aborted) return;
+          subscriber.next({ kind: 'complete', progress, dataKey });
+          subscriber.complete();
+        })
+        .catch((err: unknown) => {
+          if (!controller.signal.aborted) {
+            subscriber.error(err instanceof Error ? err : new Error(String(err)));
+          }
+        });
+      return () => controller.abort();
+    });
+  }
+
+  private async runImport(
+    files: readonly File[],
+    report: (progress: NdjsonImportProgress) => void,
+    signal: AbortSignal,
+  ): Promise<{ progress: NdjsonImportProgress; dataKey: string }> {
+    const progress = emptyNdjsonImportProgress(
+      files.length,
+      files.reduce((sum, f) => sum + f.size, 0),
+    );
+    const snapshot = (): NdjsonImportProgress => ({
+      ...progress,
+      resourcesByType: { ...progress.resourcesByType },
+      rowsByTable: { ...progress.rowsByTable },
+      errors: [...progress.errors],
+    });
+    report(snapshot());
+    await this.pg.clearClinicalData();
+
+    let batch: FhirResource[] = [];
+    const flush = async () => {
+      const tables = flattenNdjsonResources(batch);
+      await this.pg.appendResources(batch);
+      batch = [];
+      for (const [table, rows] of tables) {
+        await this.pg.appendRows(table, rows);
+        progress.rowsByTable[table] = (progress.rowsByTable[table] ?? 0) + rows.length;
+      }
+    };
+
+    let bytesBefore = 0;
+    for (const file of files) {
+      progress.file = file.name;
+      report(snapshot());
+      for await (const decoded of ndjsonLineBatches(file.name, readChunks(file, signal))) {
+        decoded.lines.forEach((line, i) => {
+          if (!line.trim()) return;
+          const parsed = parseNdjsonLine(line);
+          if ('error' in parsed) {
+            const lineNumber = decoded.firstLine + i;
+            if (progress.errors.length < NDJSON_IMPORT_ERROR_LIMIT) {
+              progress.errors.push(`${decoded.entry} line ${lineNumber}: ${parsed.error}`);
+            }
+            progress.errorCount++;
+            return;
+          }
+          const type = parsed.resource.resourceType;
+          progress.resourcesByType[type] = (progress.resourcesByType[type] ?? 0) + 1;
+          progress.resourceCount++;
+          batch.push(parsed.resource);
+        });
+        if (batch.length >= NDJSON_IMPORT_BATCH_SIZE) {
+          await flush();
+        }
+        progress.bytesRead = bytesBefore + decoded.bytesRead;
+        report(snapshot());
+      }
+      await flush();
+      bytesBefore += file.size;
+      progress.bytesRead = bytesBefore;
+      progress.filesDone++;
+      report(snapshot());
+    }
+    progress.file = null;
+
+    const dataKey = `ndjson:${files.map(f => `${f.name}:${f.size}:${f.lastModified}`).join('|')}`;
+    await this.pg.markSeeded(dataKey);
+    return { progress: snapshot(), dataKey };
+  }
+}
+
+/** The bytes of `file`, a slice at a time; stops reading once `signal` aborts. */
+async function* readChunks(file: Blob, signal: AbortSignal): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < file.size; offset += NDJSON_IMPORT_CHUNK_BYTES) {
+    if (signal.aborted) {
+      throw new Error('Import cancelled');
+    }
+    const slice = file.slice(offset, offset + NDJSON_IMPORT_CHUNK_BYTES);
+    yield new Uint8Array(await slice.arrayBuffer());
+  }
+}
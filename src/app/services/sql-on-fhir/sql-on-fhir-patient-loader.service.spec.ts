@@ -0,0 +1,161 @@
+// Author: Preston Lee
+
+import '@angular/compiler';
+import { HttpErrorResponse, HttpHeaders, HttpResponse } from '@angular/common/http';
+import { describe, expect, test, beforeEach, vi } from 'vitest';
+import { Observable, of, throwError, lastValueFrom, toArray } from 'rxjs';
+import type { Bundle, Patient } from 'fhir/r4';
+import {
+  SqlOnFhirPatientLoaderService,
+  type BulkExportEvent,
+} from './sql-on-fhir-patient-loader.service';
+import { PATIENT_COMPARTMENT_FETCH_CONCURRENCY } from './sql-on-fhir-patient-fetch.lib';
+
+describe('SqlOnFhirPatientLoaderService', () => {
+  const patientService = { getEverything: vi.fn() };
+  const fhirSearch = { search: vi.fn(), fetchFromUrl: vi.fn() };
+  const http = { get: vi.fn(), delete: vi.fn(() => of(null)) };
+  const settings = {
+    getEffectiveDataEndpointAddress: () => 'http://fhir.test/fhir',
+    getEndpointHttpContext: (_role: string, headers: Record<string, string>) => ({
+      address: 'http://fhir.test/fhir',
+      headers,
+    }),
+    getActiveEnvironment: () => ({ dataEndpoint: undefined }),
+  };
+  let loader: SqlOnFhirPatientLoaderService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    loader = Object.assign(Object.create(SqlOnFhirPatientLoaderService.prototype), {
+      patientService,
+      fhirSearch,
+      http,
+      settings,
+    }) as SqlOnFhirPatientLoaderService;
+  });
+
+  const searchset = (ids: string[], next?: string): Bundle => ({
+    resourceType: 'Bundle',
+    type: 'searchset',
+    entry: ids.map(id => ({ resource: { resourceType: 'Observation', id, status: 'final', code: {} } })),
+    ...(next ? { link: [{ relation: 'next', url: next }] } : {}),
+  });
+  const patients = (n: number): Patient[] =>
+    Array.from({ length: n }, (_, i) => ({ resourceType: 'Patient', id: `p${i}` }));
+
+  test('follows $everything next links with bounded concurrency', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    patientService.getEverything.mockImplementation((id: string) =>
+      new Observable<Bundle>(subscriber => {
+        peak = Math.max(peak, ++inFlight);
+        setTimeout(() => {
+          inFlight--;
+          subscriber.next(searchset([`${id}-o1`], `http://fhir.test/fhir?page=${id}`));
+          subscriber.complete();
+        }, 1);
+      }),
+    );
+    fhirSearch.fetchFromUrl.mockImplementation((url: string) =>
+      of(searchset([`${url.split('=')[1]}-o2`])),
+    );
+    const progress: number[] = [];
+    const load = await lastValueFrom(
+      loader.loadPatients(patients(12), {
+        resourceTypes: ['Patient', 'Observation'],
+        onProgress: done => progress.push(done),
+      }),
+    );
+    expect(peak).toBe(PATIENT_COMPARTMENT_FETCH_CONCURRENCY);
+    expect(fhirSearch.fetchFromUrl).toHaveBeenCalledTimes(12);
+    expect(load.resourceCount).toBe(24);
+    expect(load.bundle.entry).toHaveLength(36);
+    expect(progress).toEqual(Array.from({ length: 12 }, (_, i) => i + 1));
+  });
+
+  test('falls back to paged compartment searches and reports failing types', async () => {
+    patientService.getEverything.mockReturnValue(
+      throwError(() => new HttpErrorResponse({ status: 404 })),
+    );
+    fhirSearch.search.mockImplementation((type: string) =>
+      type === 'Observation'
+        ? of(searchset(['o1'], 'http://fhir.test/fhir?page=2'))
+        : throwError(() => new Error('timeout')),
+    );
+    fhirSearch.fetchFromUrl.mockReturnValue(of(searchset(['o2'])));
+    const load = await lastValueFrom(
+      loader.loadPatients(patients(1), { resourceTypes: ['Observation', 'Encounter'] }),
+    );
+    expect(load.resourceCount).toBe(2);
+    expect(load.errors).toEqual(['Encounter for Patient/p0: timeout']);
+  });
+
+  describe('exportGroup', () => {
+    const response = (status: number, headers: Record<string, string>, body: unknown = null) =>
+      of(new HttpResponse({ status, headers: new HttpHeaders(headers), body }));
+
+    test('polls until complete, downloads NDJSON and releases the export', async () => {
+      http.get.mockImplementation((url: string) => {
+        if (url.includes('$export')) {
+          return response(202, { 'Content-Location': 'http://fhir.test/status/1' });
+        }
+        if (url.endsWith('/status/1')) {
+          return http.get.mock.calls.filter(c => c[0] === url).length === 1
+            ? response(202, { 'X-Progress': '50%', 'Retry-After': '0' })
+            : response(200, {}, {
+                transactionTime: '2024-01-01T00:00:00Z',
+                output: [
+                  { type: 'Patient', url: 'http://files.test/patient.ndjson' },
+                  { type: 'Observation', url: 'http://files.test/obs.ndjson' },
+                ],
+                error: [{ type: 'OperationOutcome', url: 'http://files.test/err.ndjson' }],
+              });
+        }
+        const files: Record<string, string> = {
+          'http://files.test/patient.ndjson': '{"resourceType":"Patient","id":"a"}\n',
+          'http://files.test/obs.ndjson':
+            '{"resourceType":"Observation","id":"1"}\n{"resourceType":"Observation","id":"2"}\n',
+          'http://files.test/err.ndjson':
+            '{"resourceType":"OperationOutcome","issue":[{"severity":"error","code":"x","diagnostics":"gone"}]}',
+        };
+        return of(files[url]);
+      });
+
+      const events = await lastValueFrom(loader.exportGroup('g1', ['Observation']).pipe(toArray()));
+      const progress = events.flatMap(e => (e.kind === 'progress' ? [e.progress] : []));
+      expect(progress.map(p => p.phase)).toEqual([
+        'kickoff',
+        'waiting',
+        'downloading',
+        'downloading',
+        'downloading',
+        'downloading',
+      ]);
+      expect(progress[1].serverProgress).toBe('50%');
+      const complete = events.at(-1) as Extract<BulkExportEvent, { kind: 'complete' }>;
+      expect(complete.load.resourceCount).toBe(2);
+      expect(complete.load.bundle.entry).toHaveLength(3);
+      expect(complete.load.errors).toEqual(['gone']);
+      expect(complete.load.dataKey).toBe('group-g1-2024-01-01T00:00:00Z');
+      expect(http.delete).toHaveBeenCalledWith('http://fhir.test/status/1', expect.anything());
+    });
+
+    test('cancels the export on the server when unsubscribed', async () => {
+      http.get.mockImplementation((url: string) =>
+        url.includes('$export')
+          ? response(202, { 'Content-Location': '/status/2' })
+          : response(202, { 'Retry-After': '10' }),
+      );
+      const events: BulkExportEvent[] = [];
+      const subscription = loader.exportGroup('g2').subscribe(e => events.push(e));
+      const waiting = () => events.some(e => e.kind === 'progress' && e.progress.phase === 'waiting');
+      await vi.waitFor(() => expect(waiting()).toBe(true));
+      subscription.unsubscribe();
+      await vi.waitFor(() =>
+        expect(http.delete).toHaveBeenCalledWith('http://fhir.test/status/2', expect.anything()),
+      );
+      expect(events.some(e => e.kind === 'complete')).toBe(false);
+    });
+  });
+});
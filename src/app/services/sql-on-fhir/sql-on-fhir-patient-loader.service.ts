@@ -4,20 +4,42 @@
 // packages it as a collection Bundle for the SQL-on-FHIR pipeline's PGlite
 // seeding (Preston's "patient selection sidebar" starting point on #24).
 //
-// For each selected patient we pull the resource types the flat schema knows
-// about (Encounter, Observation, Procedure, Condition). The result plugs into
-// the same { dataKey, bundle, valueSets } seed contract the demo content uses.
+// Each patient's compartment comes from `Patient/{id}/$everything`, or from one
+// `?patient=` search per resource type when the server does not support the
+// operation; every page is followed via `Bundle.link[next]`, and at most
+// PATIENT_COMPARTMENT_FETCH_CONCURRENCY patients load at once. Whole Groups can
+// instead be pulled with FHIR Bulk Data `$export`. The result plugs into the
+// same { dataKey, bundle, valueSets } seed contract the demo content uses.
 
 import { Injectable, inject } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, forkJoin, of } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { Observable, defer, firstValueFrom, fromEvent, takeUntil, timer } from 'rxjs';
 import type { Bundle, BundleEntry, FhirResource, Patient } from 'fhir/r4';
 import { SettingsService } from '../settings.service';
+import { PatientService } from '../patient.service';
+import { FhirSearchService } from '../fhir-search.service';
+import { buildHttpHeaders } from '../endpoint-config.lib';
+import { fetchAllBundlePages } from '../fhir-bundle-fetch.lib';
+import { mergeBundles } from './sql-on-fhir-execution-data.lib';
+import {
+  isEverythingOperationFailure,
+  mapWithConcurrency,
+  nonPatientResourceTypes,
+  PATIENT_COMPARTMENT_FETCH_CONCURRENCY,
+  PATIENT_COMPARTMENT_SEARCH_PAGE_SIZE,
+  patientReference,
+} from './sql-on-fhir-patient-fetch.lib';
+import {
+  groupExportUrl,
+  operationOutcomeMessages,
+  parseNdjson,
+  retryAfterMs,
+  type BulkExportManifest,
+  type BulkExportProgress,
+} from './sql-on-fhir-bulk-export.lib';
 
-/** Per-patient resource types pulled for measure evaluation. */
+/** Per-patient resource types pulled for measure evaluation when none are given. */
 const RESOURCE_QUERIES = ['Encounter', 'Observation', 'Procedure', 'Condition'] as const;
-const PAGE_SIZE = 200;
 
 export interface PatientDataLoad {
   /** Collection bundle: the patients + all fetched clinical resources. */
@@ -30,65 +52,261 @@ export interface PatientDataLoad {
   errors: string[];
 }
 
+export interface LoadPatientsOptions {
+  /** Resource types to fetch; `Patient` is implied. */
+  resourceTypes?: readonly string[];
+  /** Called after each patient's compartment has loaded or failed. */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** A `$export` status update, then the loaded data once every file is downloaded. */
+export type BulkExportEvent =
+  | { kind: 'progress'; progress: BulkExportProgress }
+  | { kind: 'complete'; load: PatientDataLoad };
+
 @Injectable({ providedIn: 'root' })
 export class SqlOnFhirPatientLoaderService {
   private http = inject(HttpClient);
   private settings = inject(SettingsService);
+  private patientService = inject(PatientService);
+  private fhirSearch = inject(FhirSearchService);
 
   /**
    * Fetch the given patients' clinical resources from the configured FHIR
    * server. Individual query failures are collected in `errors` — one failing
-   * resource type doesn't abort the whole load.
+   * patient or resource type doesn't abort the whole load.
+   */
+  loadPatients(
+    patients: Patient[],
+    options: LoadPatientsOptions = {},
+  ): Observable<PatientDataLoad> {
+    return defer(async () => {
+      const withIds = patients.filter(p => p.id?.trim());
+      const ids = withIds.map(p => p.id!).sort();
+      const requested = nonPatientResourceTypes([...(options.resourceTypes ?? RESOURCE_QUERIES)]);
+      const types = [...new Set(requested)].sort();
+      let done = 0;
+      const results = await mapWithConcurrency(
+        withIds,
+        PATIENT_COMPARTMENT_FETCH_CONCURRENCY,
+        async p => {
+          const result = await this.fetchCompartment(p.id!, types);
+          options.onProgress?.(++done, withIds.length);
+          return result;
+        },
+      );
+      const patientEntries: BundleEntry[] = withIds.map(p => ({ resource: p as FhirResource }));
+      const bundle = mergeBundles([
+        { resourceType: 'Bundle', type: 'collection', entry: patientEntries },
+        ...results.flatMap(r => r.bundles),
+      ]);
+      return {
+        bundle,
+        dataKey: `patients-${ids.join('-')}`,
+        resourceCount: clinicalResourceCount(bundle),
+        errors: results.flatMap(r => r.errors),
+      } satisfies PatientDataLoad;
+    });
+  }
+
+  /**
+   * Export a Group's data with FHIR Bulk Data `$export`: kick off, poll the
+   * status endpoint (honouring `Retry-After`), then download the NDJSON files.
+   * Emits progress while running and `complete` with the data at the end.
+   * Unsubscribing cancels the export, including on the server.
    */
-  loadPatients(patients: Patient[]): Observable<PatientDataLoad> {
-    const baseUrl = this.settings.getEffectiveDataEndpointAddress().replace(/\/$/, '');
-    const ids = patients.map(p => p.id).filter((id): id is string => !!id).sort();
+  exportGroup(groupId: string, resourceTypes: readonly string[] = []): Observable<BulkExportEvent> {
+    return new Observable<BulkExportEvent>(subscriber => {
+      const controller = new AbortController();
+      this.runGroupExport(
+        groupId,
+        [...resourceTypes],
+        progress => subscriber.next({ kind: 'progress', progress }),
+        controller.signal,
+      )
+        .then(load => {
+          subscriber.next({ kind: 'complete', load });
+          subscriber.complete();
+        })
+        .catch((err: unknown) => {
+          if (!controller.signal.aborted) {
+            subscriber.error(err instanceof Error ? err : new Error(errorMessage(err)));
+          }
+        });
+      return () => controller.abort();
+    });
+  }
 
-    const queries: Observable<{ entries: BundleEntry[]; error?: string }>[] = [];
-    for (const id of ids) {
-      for (const type of RESOURCE_QUERIES) {
-        const url = `${baseUrl}/${type}?patient=${encodeURIComponent(id)}&_count=${PAGE_SIZE}`;
-        queries.push(
-          this.http.get<Bundle>(url).pipe(
-            map(b => ({ entries: (b.entry ?? []).filter(e => !!e.resource) })),
-            catchError((err: unknown) => {
-              const msg = err instanceof Error ? err.message : String(err);
-              return of({ entries: [] as BundleEntry[], error: `${type} for Patient/${id}: ${msg}` });
-            }),
+  private async fetchCompartment(
+    patientId: string,
+    types: string[],
+  ): Promise<{ bundles: Bundle[]; errors: string[] }> {
+    if (types.length === 0) {
+      return { bundles: [], errors: [] };
+    }
+    const fetchPage = (url: string) => firstValueFrom(this.fhirSearch.fetchFromUrl(url));
+    try {
+      const everything = await firstValueFrom(
+        this.patientService.getEverything(patientId, { types }),
+      );
+      return { bundles: [await fetchAllBundlePages(everything, fetchPage)], errors: [] };
+    } catch (err: unknown) {
+      if (!isEverythingOperationFailure(err)) {
+        return { bundles: [], errors: [`Patient/${patientId}: ${errorMessage(err)}`] };
+      }
+    }
+    const bundles: Bundle[] = [];
+    const errors: string[] = [];
+    for (const type of types) {
+      try {
+        const initial = await firstValueFrom(
+          this.fhirSearch.search(
+            type,
+            { patient: patientReference(patientId) },
+            { count: PATIENT_COMPARTMENT_SEARCH_PAGE_SIZE },
           ),
         );
+        bundles.push(await fetchAllBundlePages(initial, fetchPage));
+      } catch (err: unknown) {
+        errors.push(`${type} for Patient/${patientId}: ${errorMessage(err)}`);
       }
     }
+    return { bundles, errors };
+  }
 
-    const patientEntries: BundleEntry[] = patients.map(p => ({
-      fullUrl: `Patient/${p.id}`,
-      resource: p as FhirResource,
-    }));
+  private async runGroupExport(
+    groupId: string,
+    resourceTypes: string[],
+    report: (progress: BulkExportProgress) => void,
+    signal: AbortSignal,
+  ): Promise<PatientDataLoad> {
+    const baseUrl = this.settings.getEffectiveDataEndpointAddress().replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new Error('FHIR data endpoint is not configured');
+    }
+    const progress: BulkExportProgress = {
+      phase: 'kickoff',
+      serverProgress: null,
+      filesDone: 0,
+      filesTotal: 0,
+      resourceCount: 0,
+    };
+    report({ ...progress });
+    const kickoff = await untilAborted(
+      this.http.get(groupExportUrl(baseUrl, groupId, resourceTypes), {
+        headers: this.dataHeaders({ Accept: 'application/fhir+json', Prefer: 'respond-async' }),
+        observe: 'response',
+      }),
+      signal,
+    );
+    const location = kickoff.headers.get('Content-Location');
+    if (!location) {
+      throw new Error('The server did not return a Content-Location for the export status.');
+    }
+    const statusUrl = new URL(location, `${baseUrl}/`).href;
+    try {
+      progress.phase = 'waiting';
+      let manifest: BulkExportManifest | null = null;
+      while (!manifest) {
+        const status = await untilAborted(
+          this.http.get<BulkExportManifest>(statusUrl, {
+            headers: this.dataHeaders({ Accept: 'application/json' }),
+            observe: 'response',
+          }),
+          signal,
+        );
+        if (status.status === 202) {
+          progress.serverProgress = status.headers.get('X-Progress');
+          report({ ...progress });
+          await untilAborted(timer(retryAfterMs(status.headers.get('Retry-After'))), signal);
+        } else {
+          manifest = status.body ?? { output: [] };
+        }
+      }
+      return await this.downloadExport(groupId, manifest, progress, report, signal);
+    } finally {
+      // Cancels a running export, or lets the server release a finished one's files.
+      this.http
+        .delete(statusUrl, { headers: this.dataHeaders() })
+        .subscribe({ error: () => undefined });
+    }
+  }
 
-    if (queries.length === 0) {
-      return of({
-        bundle: { resourceType: 'Bundle', type: 'collection', entry: patientEntries },
-        dataKey: `patients-${ids.join('-')}`,
-        resourceCount: 0,
-        errors: [],
-      });
+  private async downloadExport(
+    groupId: string,
+    manifest: BulkExportManifest,
+    progress: BulkExportProgress,
+    report: (progress: BulkExportProgress) => void,
+    signal: AbortSignal,
+  ): Promise<PatientDataLoad> {
+    const files = [...manifest.output, ...(manifest.error ?? [])];
+    progress.phase = 'downloading';
+    progress.filesTotal = files.length;
+    report({ ...progress });
+    const headers = this.dataHeaders(
+      { Accept: 'application/fhir+ndjson' },
+      !!manifest.requiresAccessToken,
+    );
+    const download = (url: string) =>
+      untilAborted(this.http.get(url, { headers, responseType: 'text' }), signal);
+    const entries: BundleEntry[] = [];
+    const errors: string[] = [];
+    for (const file of manifest.output) {
+      const text = await download(file.url);
+      const parsed = parseNdjson(text);
+      entries.push(...parsed.resources.map(resource => ({ resource })));
+      errors.push(...parsed.errors.map(e => `${file.type} export ${e}`));
+      progress.filesDone++;
+      progress.resourceCount = entries.length;
+      report({ ...progress });
+    }
+    for (const file of manifest.error ?? []) {
+      const text = await download(file.url);
+      errors.push(...operationOutcomeMessages(parseNdjson(text).resources));
+      progress.filesDone++;
+      report({ ...progress });
     }
+    const bundle = mergeBundles([{ resourceType: 'Bundle', type: 'collection', entry: entries }]);
+    return {
+      bundle,
+      dataKey: `group-${groupId}-${manifest.transactionTime ?? Date.now()}`,
+      resourceCount: clinicalResourceCount(bundle),
+      errors,
+    };
+  }
 
-    return forkJoin(queries).pipe(
-      map(results => {
-        const clinical = results.flatMap(r => r.entries);
-        const errors = results.map(r => r.error).filter((e): e is string => !!e);
-        return {
-          bundle: {
-            resourceType: 'Bundle' as const,
-            type: 'collection' as const,
-            entry: [...patientEntries, ...clinical],
-          },
-          dataKey: `patients-${ids.join('-')}`,
-          resourceCount: clinical.length,
-          errors,
-        };
-      }),
+  /**
+   * Data endpoint headers. Export output files may live on another host; they
+   * only get the endpoint's credentials when the manifest requires a token.
+   */
+  private dataHeaders(base: Record<string, string> = {}, withCredentials = true): HttpHeaders {
+    if (!withCredentials) {
+      return new HttpHeaders(base);
+    }
+    const ctx = this.settings.getEndpointHttpContext('data', base);
+    return buildHttpHeaders(
+      { ...this.settings.getActiveEnvironment().dataEndpoint, address: ctx.address },
+      ctx.headers,
     );
   }
 }
+
+function clinicalResourceCount(bundle: Bundle): number {
+  return (bundle.entry ?? []).filter(e => e.resource?.resourceType !== 'Patient').length;
+}
+
+/** `Error` or `HttpErrorResponse` message. */
+function errorMessage(err: unknown): string {
+  if (err && typeof err === 'object' && 'message' in err) {
+    return String(err.message);
+  }
+  return String(err);
+}
+
+/** First value of `source`; rejects, unsubscribing, once `signal` aborts. */
+function untilAborted<T>(source: Observable<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(new Error('Export cancelled'));
+  }
+  return firstValueFrom(source.pipe(takeUntil(fromEvent(signal, 'abort'))));
+}
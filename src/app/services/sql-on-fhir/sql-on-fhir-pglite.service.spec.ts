@@ -2,8 +2,11 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { TestBed } from '@angular/core/testing';
-import { SqlOnFhirPgliteService } from './sql-on-fhir-pglite.service';
+import { PGLITE_META_TABLE, SqlOnFhirPgliteService } from './sql-on-fhir-pglite.service';
 import { emptyFlatTables } from './sql-on-fhir-bundle-flattener.lib';
+import { RESERVED_VIEW_TABLE_NAMES } from './sql-on-fhir-custom-views.lib';
+import type { Encounter, Patient } from 'fhir/r4';
+import type { ViewDefinition } from '../../components/sql-on-fhir/elm-to-sql';
 
 describe('SqlOnFhirPgliteService', () => {
   let service: SqlOnFhirPgliteService;
@@ -18,7 +21,7 @@ describe('SqlOnFhirPgliteService', () => {
     expect(service.isReady()).toBe(false);
     await service.ensureBooted();
     expect(service.isReady()).toBe(true);
-  });
+  }, 60_000);
 
   it('reuses the same instance across concurrent boot calls', async () => {
     const [a, b] = await Promise.all([service.ensureBooted(), service.ensureBooted()]);
@@ -34,11 +37,20 @@ describe('SqlOnFhirPgliteService', () => {
     `);
     const names = result.rows.map(r => r.table_name);
     expect(names).toEqual([
+      'allergy_intolerance_view',
+      'claim_view',
+      'communication_request_view',
       'condition_view',
+      'coverage_view',
+      'device_request_view',
+      'diagnostic_report_view',
       'encounter_view',
+      'immunization_view',
+      'medication_request_view',
       'observation_view',
       'patient_view',
       'procedure_view',
+      'service_request_view',
     ]);
   });
 
@@ -118,6 +130,116 @@ describe('SqlOnFhirPgliteService', () => {
     expect(result.rows[0]).toEqual({ n: 1 });
   });
 
+  it('reports the seeded key and replaces value sets without touching clinical data', async () => {
+    const tables = emptyFlatTables();
+    tables.patient_view.push({
+      id: 'pat-s', gender: 'female', birthdate: '1980-01-01', active: true,
+      name_family: 'S', name_given: 'S', deceased: null, deceased_datetime: null,
+      race_code: null, ethnicity_code: null,
+    });
+    tables.value_set_expansion.push({ value_set_id: 'vs-a', code: 'a', system: 's', display: null });
+    await service.seed('stored-key', tables);
+    expect(service.seededDataKey()).toBe('stored-key');
+
+    await service.seedValueSets([{ value_set_id: 'vs-b', code: 'b', system: 's', display: null }]);
+    const valueSets = await service.execute('SELECT value_set_id FROM value_set_expansion');
+    expect(valueSets.rows).toEqual([{ value_set_id: 'vs-b' }]);
+    const patients = await service.execute('SELECT id FROM patient_view');
+    expect(patients.rows).toEqual([{ id: 'pat-s' }]);
+    expect(service.seededDataKey()).toBe('stored-key');
+  });
+
+  it('returns column names even when a query yields no rows', async () => {
+    const result = await service.execute('SELECT id, gender FROM patient_view WHERE false');
+    expect(result.rows).toEqual([]);
+    expect(result.columns).toEqual(['id', 'gender']);
+  });
+
+  it('refuses to replace or drop the dataset bookkeeping table as a custom view', async () => {
+    expect(RESERVED_VIEW_TABLE_NAMES).toContain(PGLITE_META_TABLE);
+    await service.seed('meta-key', emptyFlatTables());
+    const vd: ViewDefinition = {
+      resourceType: 'ViewDefinition',
+      name: PGLITE_META_TABLE,
+      status: 'active',
+      resource: 'Patient',
+      select: [{ column: [{ name: 'id', path: 'getResourceKey()' }] }],
+    };
+    await expect(service.seedView('meta-key', vd, [])).rejects.toThrow(/built-in/);
+    await service.dropView(PGLITE_META_TABLE);
+    const stored = await service.execute(`SELECT value FROM ${PGLITE_META_TABLE} WHERE key = 'seeded_key'`);
+    expect(stored.rows).toEqual([{ value: 'meta-key' }]);
+  });
+
+  it('records the schema version and the key each custom view was seeded with', async () => {
+    const vd: ViewDefinition = {
+      resourceType: 'ViewDefinition',
+      name: 'patient_names',
+      status: 'active',
+      resource: 'Patient',
+      select: [{ column: [{ name: 'id', path: 'getResourceKey()' }] }],
+    };
+    await service.seedView('view-key', vd, [{ id: 'pat-v' }]);
+    expect(await service.isViewSeeded('patient_names', 'view-key')).toBe(true);
+    const meta = await service.execute(`SELECT key, value FROM ${PGLITE_META_TABLE} ORDER BY key`);
+    expect(meta.rows).toEqual([
+      { key: 'schema_version', value: expect.stringMatching(/^\d+$/) },
+      { key: 'view:patient_names', value: 'view-key' },
+    ]);
+
+    await service.dropView('patient_names');
+    expect(await service.isViewSeeded('patient_names', 'view-key')).toBe(false);
+    const after = await service.execute(`SELECT key FROM ${PGLITE_META_TABLE}`);
+    expect(after.rows).toEqual([{ key: 'schema_version' }]);
+  });
+
+  it('stores the source resources with the seeded data', async () => {
+    const patient: Patient = { resourceType: 'Patient', id: 'pat-r', gender: 'female' };
+    const encounter: Encounter = { resourceType: 'Encounter', id: 'enc-r', status: 'finished', class: { code: 'AMB' } };
+    await service.seed('resources-key', emptyFlatTables(), [patient, encounter]);
+    expect(await service.storedResources('Patient')).toEqual([patient]);
+    expect(await service.storedResources('Observation')).toEqual([]);
+
+    await service.seed('resources-key-2', emptyFlatTables());
+    expect(await service.storedResources('Patient')).toEqual([]);
+  });
+
+  it('drops custom views and stored resources when the clinical data is cleared', async () => {
+    const vd: ViewDefinition = {
+      resourceType: 'ViewDefinition',
+      name: 'patient_names',
+      status: 'active',
+      resource: 'Patient',
+      select: [{ column: [{ name: 'id', path: 'getResourceKey()' }] }],
+    };
+    await service.seed('clear-key', emptyFlatTables(), [{ resourceType: 'Patient', id: 'pat-c' }]);
+    await service.seedView('clear-key', vd, [{ id: 'pat-c' }]);
+    await service.clearClinicalData();
+
+    expect(await service.isViewSeeded('patient_names', 'clear-key')).toBe(false);
+    expect(await service.storedResources('Patient')).toEqual([]);
+    const tables = await service.execute(
+      `SELECT table_name FROM information_schema.tables WHERE table_name = 'patient_names'`,
+    );
+    expect(tables.rows).toEqual([]);
+    const meta = await service.execute(`SELECT key FROM ${PGLITE_META_TABLE}`);
+    expect(meta.rows).toEqual([{ key: 'schema_version' }]);
+
+    await service.appendResources([{ resourceType: 'Patient', id: 'pat-d' }]);
+    expect(await service.storedResources('Patient')).toEqual([{ resourceType: 'Patient', id: 'pat-d' }]);
+  });
+
+  it('registers named datasets and refuses duplicates', async () => {
+    await service.createDataset('Synthea 5k');
+    expect(service.datasets()).toContain('Synthea 5k');
+    expect(service.activeDataset()).toBe('Synthea 5k');
+    await expect(service.createDataset('synthea-5k')).rejects.toThrow(/already exists/);
+
+    await service.deleteDataset('Synthea 5k');
+    expect(service.datasets()).not.toContain('Synthea 5k');
+    expect(service.activeDataset()).toBeNull();
+  });
+
   it('supports Postgres-specific syntax used by the elm-to-sql library', async () => {
     const pg = await service.ensureBooted();
     const dateExpr = await pg.query<{ years: number }>(
@@ -3,12 +3,38 @@
 // Lazy-booted in-browser Postgres (pglite) for executing SQL emitted by the
 // elm-to-sql library against FHIR data flattened by sql-on-fhir-bundle-flattener.
 //
-// One DB instance per session, kept in memory. Schema is created once on first
-// boot; data is re-seeded whenever the demo content changes (keyed by `dataKey`).
+// One DB instance at a time: in memory by default, or a named dataset persisted
+// in IndexedDB (`idb://`). Schema is created once on first boot; data is
+// re-seeded whenever the demo content changes (keyed by `dataKey`). A dataset
+// records the key it was seeded with, so a reload with the same data skips the
+// seed and stored data can be queried without reloading it. The source
+// resources are stored alongside the flat tables, so custom views can be
+// derived from a stored dataset later. A dataset whose schema version differs
+// from this build's is rebuilt empty on boot.
 
-import { Injectable, signal } from '@angular/core';
-import type { PGlite } from '@electric-sql/pglite';
-import type { FlatRow, FlatTables } from './sql-on-fhir-bundle-flattener.lib';
+import { Injectable, computed, signal } from '@angular/core';
+import type { PGlite, Transaction } from '@electric-sql/pglite';
+import type { Resource } from 'fhir/r4';
+import {
+  viewDefinitionToTableDdl,
+  type ViewDefinition,
+} from '../../components/sql-on-fhir/elm-to-sql';
+import {
+  FLAT_VIEW_NAMES,
+  flatViewDefinitions,
+  type FlatRow,
+  type FlatTables,
+  type FlatViewName,
+} from './sql-on-fhir-bundle-flattener.lib';
+import { RESERVED_VIEW_TABLE_NAMES } from './sql-on-fhir-custom-views.lib';
+import {
+  datasetDataDir,
+  datasetIndexedDbName,
+  datasetNameProblem,
+  loadDatasetRegistry,
+  saveDatasetRegistry,
+  type DatasetRegistry,
+} from './sql-on-fhir-datasets.lib';
 
 export interface ExecuteResult {
   /** Rows returned by the query, raw column values. Empty array for non-SELECT statements. */
@@ -19,116 +45,71 @@ export interface ExecuteResult {
   sql: string;
   /** Wall-clock execution time in milliseconds (does not include first-call boot). */
   durationMs: number;
+  /** Result column names, in order; known even when no rows are returned. */
+  columns: string[];
 }
 
-const FLAT_TABLE_DDL = `
-CREATE TABLE IF NOT EXISTS patient_view (
-  id TEXT PRIMARY KEY,
-  gender TEXT,
-  birthdate DATE,
-  active BOOLEAN,
-  name_family TEXT,
-  name_given TEXT,
-  deceased BOOLEAN,
-  deceased_datetime TIMESTAMPTZ,
-  race_code TEXT,
-  ethnicity_code TEXT
-);
-
-CREATE TABLE IF NOT EXISTS encounter_view (
-  id TEXT PRIMARY KEY,
-  subject_id TEXT,
-  status TEXT,
-  class_code TEXT,
-  type_code TEXT,
-  type_system TEXT,
-  type_display TEXT,
-  period_start TIMESTAMPTZ,
-  period_end TIMESTAMPTZ,
-  service_provider_id TEXT
-);
-
-CREATE TABLE IF NOT EXISTS observation_view (
-  id TEXT PRIMARY KEY,
-  subject_id TEXT,
-  status TEXT,
-  code TEXT,
-  code_system TEXT,
-  code_display TEXT,
-  code_text TEXT,
-  effective_datetime TIMESTAMPTZ,
-  effective_start TIMESTAMPTZ,
-  effective_end TIMESTAMPTZ,
-  value_quantity NUMERIC,
-  value_unit TEXT,
-  value_code TEXT,
-  value_string TEXT,
-  encounter_id TEXT,
-  category_code TEXT
-);
-
-CREATE TABLE IF NOT EXISTS procedure_view (
-  id TEXT PRIMARY KEY,
-  subject_id TEXT,
-  status TEXT,
-  code TEXT,
-  code_system TEXT,
-  code_display TEXT,
-  code_text TEXT,
-  performed_datetime TIMESTAMPTZ,
-  performed_start TIMESTAMPTZ,
-  performed_end TIMESTAMPTZ,
-  encounter_id TEXT,
-  category_code TEXT
-);
-
-CREATE TABLE IF NOT EXISTS condition_view (
-  id TEXT PRIMARY KEY,
-  subject_id TEXT,
-  code TEXT,
-  code_system TEXT,
-  code_display TEXT,
-  code_text TEXT,
-  clinical_status TEXT,
-  verification_status TEXT,
-  onset_datetime TIMESTAMPTZ,
-  onset_start TIMESTAMPTZ,
-  abatement_datetime TIMESTAMPTZ,
-  recorded_date TIMESTAMPTZ,
-  encounter_id TEXT,
-  category_code TEXT
-);
-
-CREATE TABLE IF NOT EXISTS value_set_expansion (
+/** Bookkeeping table holding the schema version and seeded data keys; not shown as data. */
+export const PGLITE_META_TABLE = 'sql_on_fhir_meta';
+
+/** Source resources of the seeded data, one JSONB row per resource. */
+export const PGLITE_RESOURCE_TABLE = 'sql_on_fhir_resource';
+
+/**
+ * Version of the schema below. Bump it whenever a table or column changes:
+ * datasets stored with another version are rebuilt on boot.
+ */
+const SCHEMA_VERSION = '2';
+
+// Flat-table DDL is derived from the same ViewDefinitions the flattener runs,
+// so column names and types cannot drift from the seeded rows.
+const FLAT_TABLE_DDL = [
+  ...flatViewDefinitions().map(viewDefinitionToTableDdl),
+  `CREATE TABLE IF NOT EXISTS value_set_expansion (
   value_set_id TEXT,
   code TEXT,
   system TEXT,
   display TEXT,
   version TEXT,
   PRIMARY KEY (value_set_id, code)
-);
-`;
-
-const FLAT_TABLE_NAMES = [
-  'patient_view',
-  'encounter_view',
-  'observation_view',
-  'procedure_view',
-  'condition_view',
-  'value_set_expansion',
-] as const;
+);`,
+  `CREATE TABLE IF NOT EXISTS ${PGLITE_RESOURCE_TABLE} (
+  resource_type TEXT,
+  id TEXT,
+  resource JSONB,
+  PRIMARY KEY (resource_type, id)
+);`,
+].join('\n\n');
+
+const META_TABLE_DDL = `CREATE TABLE IF NOT EXISTS ${PGLITE_META_TABLE} (key TEXT PRIMARY KEY, value TEXT);`;
+
+const FLAT_TABLE_NAMES = [...FLAT_VIEW_NAMES, 'value_set_expansion'] as const;
 
 type FlatTableName = (typeof FLAT_TABLE_NAMES)[number];
 
+const SCHEMA_VERSION_KEY = 'schema_version';
+const SEEDED_KEY = 'seeded_key';
+/** Meta key prefix recording the data key each custom view table was seeded with. */
+const VIEW_KEY_PREFIX = 'view:';
+
 @Injectable({ providedIn: 'root' })
 export class SqlOnFhirPgliteService {
   /** Resolves to the running PGlite instance once boot has completed. */
   private pgPromise: Promise<PGlite> | null = null;
   /** Key identifying the most recently seeded data set; used to short-circuit re-seeding. */
-  private seededKey: string | null = null;
+  private readonly seededKey = signal<string | null>(null);
+  /** Custom view table name → key of the data it was last seeded with. */
+  private seededViewKeys = new Map<string, string>();
+  private readonly registry = signal(loadDatasetRegistry());
 
   readonly isReady = signal(false);
   readonly lastBootError = signal<string | null>(null);
+  /** Named datasets persisted in IndexedDB. */
+  readonly datasets = computed(() => this.registry().names);
+  /** Dataset the database is stored in; null while in memory. */
+  readonly activeDataset = computed(() => this.registry().active);
+  /** Key of the data currently in the flat tables, once booted; null when empty. */
+  readonly seededDataKey = this.seededKey.asReadonly();
 
   /**
    * Boot pglite (dynamic import — keeps the WASM out of the main app chunk)
@@ -144,9 +125,20 @@ export class SqlOnFhirPgliteService {
         // In the browser, the WASM is copied to /pglite/ via angular.json assets so
         // we fetch + compile here and hand the WebAssembly.Module to the constructor.
         const options = await loadBrowserWasmOptions();
-        const pg = new PGlite(options);
-        await pg.exec(FLAT_TABLE_DDL);
-        await pg.exec('ALTER TABLE value_set_expansion ADD COLUMN IF NOT EXISTS version TEXT');
+        const dataset = this.activeDataset();
+        const pg = new PGlite(dataset ? { ...options, dataDir: datasetDataDir(dataset) } : options);
+        await pg.exec(META_TABLE_DDL);
+        let meta = await readMeta(pg);
+        if (meta.get(SCHEMA_VERSION_KEY) !== SCHEMA_VERSION) {
+          await pg.transaction(tx => rebuildSchema(tx, meta));
+          meta = await readMeta(pg);
+        }
+        this.seededKey.set(meta.get(SEEDED_KEY) ?? null);
+        this.seededViewKeys = new Map(
+          [...meta]
+            .filter(([key]) => key.startsWith(VIEW_KEY_PREFIX))
+            .map(([key, value]) => [key.slice(VIEW_KEY_PREFIX.length), value]),
+        );
         this.isReady.set(true);
         return pg;
       } catch (err) {
@@ -159,27 +151,128 @@ export class SqlOnFhirPgliteService {
   }
 
   /**
-   * Replace the contents of all flat tables with the provided rows.
+   * Replace the contents of all flat tables with the provided rows, and the
+   * stored source resources with `resources`.
    * Idempotent for the same `dataKey` — no-ops if the data hasn't changed.
    */
-  async seed(dataKey: string, tables: FlatTables): Promise<void> {
-    if (this.seededKey === dataKey) return;
+  async seed(dataKey: string, tables: FlatTables, resources: readonly Resource[] = []): Promise<void> {
     const pg = await this.ensureBooted();
+    if (this.seededKey() === dataKey) return;
     await pg.transaction(async tx => {
       for (const name of FLAT_TABLE_NAMES) {
         await tx.exec(`TRUNCATE ${name}`);
-        const rows = tables[name] ?? [];
-        if (rows.length === 0) continue;
-        const columns = Object.keys(rows[0]);
-        const placeholders = columns.map((_, i) => `$${i + 1}`).join(', ');
-        const insertSql = `INSERT INTO ${name} (${columns.join(', ')}) VALUES (${placeholders})`;
-        for (const row of rows) {
-          const values = columns.map(c => normalizeValue(row[c]));
-          await tx.query(insertSql, values);
-        }
+        await insertRows(tx, name, tables[name] ?? []);
       }
+      await tx.exec(`TRUNCATE ${PGLITE_RESOURCE_TABLE}`);
+      await insertResources(tx, resources);
+      await writeSeededKey(tx, dataKey);
+    });
+    this.seededKey.set(dataKey);
+  }
+
+  /** Stored source resources of one type, e.g. to derive a custom view from a stored dataset. */
+  async storedResources(resourceType: string): Promise<Resource[]> {
+    const pg = await this.ensureBooted();
+    const { rows } = await pg.query<{ resource: Resource }>(
+      `SELECT resource FROM ${PGLITE_RESOURCE_TABLE} WHERE resource_type = $1 ORDER BY id`,
+      [resourceType],
+    );
+    return rows.map(r => r.resource);
+  }
+
+  /**
+   * Empty the clinical flat tables and stored source resources ahead of an
+   * incremental load with `appendRows` and `appendResources`. Custom view
+   * tables are dropped, to be derived again from the new resources. Value set
+   * expansions are kept; the data key is cleared until `markSeeded` records
+   * the new data.
+   */
+  async clearClinicalData(): Promise<void> {
+    const pg = await this.ensureBooted();
+    await pg.transaction(async tx => {
+      for (const name of FLAT_VIEW_NAMES) {
+        await tx.exec(`TRUNCATE ${name}`);
+      }
+      await tx.exec(`TRUNCATE ${PGLITE_RESOURCE_TABLE}`);
+      for (const name of this.seededViewKeys.keys()) {
+        await tx.exec(`DROP TABLE IF EXISTS ${name}`);
+      }
+      await tx.query(`DELETE FROM ${PGLITE_META_TABLE} WHERE key = $1 OR starts_with(key, $2)`, [
+        SEEDED_KEY,
+        VIEW_KEY_PREFIX,
+      ]);
+    });
+    this.seededKey.set(null);
+    this.seededViewKeys.clear();
+  }
+
+  /** Insert `rows` into a flat table without touching its existing rows. */
+  async appendRows(table: FlatViewName, rows: FlatRow[]): Promise<void> {
+    const pg = await this.ensureBooted();
+    await pg.transaction(tx => insertRows(tx, table, rows));
+  }
+
+  /** Store source resources alongside rows added with `appendRows`; a resource with a stored id replaces it. */
+  async appendResources(resources: readonly Resource[]): Promise<void> {
+    const pg = await this.ensureBooted();
+    await pg.transaction(tx => insertResources(tx, resources));
+  }
+
+  /** Record `dataKey` as the data in the flat tables once an incremental load completes. */
+  async markSeeded(dataKey: string): Promise<void> {
+    const pg = await this.ensureBooted();
+    await pg.transaction(tx => writeSeededKey(tx, dataKey));
+    this.seededKey.set(dataKey);
+  }
+
+  /**
+   * Replace only the value set expansions, leaving the stored clinical data in
+   * place. Used when executing against a dataset without reloading its patients.
+   */
+  async seedValueSets(rows: FlatRow[]): Promise<void> {
+    const pg = await this.ensureBooted();
+    await pg.transaction(async tx => {
+      await tx.exec('TRUNCATE value_set_expansion');
+      await insertRows(tx, 'value_set_expansion', rows);
+    });
+  }
+
+  /** True when the custom view table `name` was last seeded with `dataKey` (as recorded by `seedView`). */
+  async isViewSeeded(name: string, dataKey: string): Promise<boolean> {
+    await this.ensureBooted();
+    return this.seededViewKeys.get(name) === dataKey;
+  }
+
+  /**
+   * (Re)create the table for a user-defined ViewDefinition and fill it with
+   * `rows`. The table is dropped first so edited column lists take effect.
+   * No-ops when the same view was last seeded with the same `dataKey`; the
+   * key is stored with the dataset, so this holds across reloads.
+   */
+  async seedView(dataKey: string, vd: ViewDefinition, rows: FlatRow[]): Promise<void> {
+    if (RESERVED_VIEW_TABLE_NAMES.includes(vd.name.toLowerCase())) {
+      throw new Error(`${vd.name} is a built-in table and cannot be replaced.`);
+    }
+    const pg = await this.ensureBooted();
+    if (this.seededViewKeys.get(vd.name) === dataKey) return;
+    await pg.transaction(async tx => {
+      await tx.exec(`DROP TABLE IF EXISTS ${vd.name}`);
+      await tx.exec(viewDefinitionToTableDdl(vd));
+      await insertRows(tx, vd.name, rows);
+      await writeMeta(tx, VIEW_KEY_PREFIX + vd.name, dataKey);
+    });
+    this.seededViewKeys.set(vd.name, dataKey);
+  }
+
+  /** Drop a user-defined view table created by `seedView`. */
+  async dropView(name: string): Promise<void> {
+    if (RESERVED_VIEW_TABLE_NAMES.includes(name.toLowerCase())) return;
+    const pg = await this.ensureBooted();
+    await pg.transaction(async tx => {
+      await tx.exec(`DROP TABLE IF EXISTS ${name}`);
+      await tx.query(`DELETE FROM ${PGLITE_META_TABLE} WHERE key = $1`, [VIEW_KEY_PREFIX + name]);
     });
-    this.seededKey = dataKey;
+    this.seededViewKeys.delete(name);
   }
 
   /**
@@ -198,16 +291,129 @@ export class SqlOnFhirPgliteService {
       affectedRows: result.affectedRows ?? 0,
       sql: trimmed,
       durationMs,
+      columns: result.fields.map(f => f.name),
     };
   }
 
+  /**
+   * Switch to the named dataset (created in IndexedDB on first use), or back to
+   * an in-memory database with `null`. The current database is closed; the next
+   * call boots the new one.
+   */
+  async useDataset(name: string | null): Promise<void> {
+    if (name === this.activeDataset()) return;
+    if (name !== null && !this.datasets().includes(name)) {
+      throw new Error(`Unknown dataset "${name}".`);
+    }
+    await this.close();
+    this.updateRegistry({ ...this.registry(), active: name });
+  }
+
+  /** Register a new dataset and switch to it. */
+  async createDataset(name: string): Promise<void> {
+    const problem = datasetNameProblem(name, this.datasets());
+    if (problem) throw new Error(problem);
+    const trimmed = name.trim();
+    this.updateRegistry({ ...this.registry(), names: [...this.datasets(), trimmed] });
+    await this.useDataset(trimmed);
+  }
+
+  /** Delete a dataset's IndexedDB storage; switches to memory first if it is active. */
+  async deleteDataset(name: string): Promise<void> {
+    if (name === this.activeDataset()) {
+      await this.useDataset(null);
+    }
+    this.updateRegistry({ ...this.registry(), names: this.datasets().filter(n => n !== name) });
+    if (typeof indexedDB === 'undefined') return;
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(datasetIndexedDbName(name));
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error ?? new Error(`Could not delete ${name}.`));
+    });
+  }
+
+  /** Close the running database, flushing a persisted dataset to IndexedDB. */
+  async close(): Promise<void> {
+    const pending = this.pgPromise;
+    this.reset();
+    if (!pending) return;
+    try {
+      await (await pending).close();
+    } catch {
+      // A database that failed to boot has nothing to close.
+    }
+  }
+
   /** Test/utility: reset state so a fresh boot happens on the next call. */
   reset(): void {
     this.pgPromise = null;
-    this.seededKey = null;
+    this.seededKey.set(null);
+    this.seededViewKeys.clear();
     this.isReady.set(false);
     this.lastBootError.set(null);
   }
+
+  private updateRegistry(registry: DatasetRegistry): void {
+    this.registry.set(registry);
+    saveDatasetRegistry(registry);
+  }
+}
+
+async function insertRows(tx: Transaction, table: string, rows: FlatRow[]): Promise<void> {
+  if (rows.length === 0) return;
+  const columns = Object.keys(rows[0]);
+  const placeholders = columns.map((_, i) => `$${i + 1}`).join(', ');
+  const insertSql = `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`;
+  for (const row of rows) {
+    const values = columns.map(c => normalizeValue(row[c]));
+    await tx.query(insertSql, values);
+  }
+}
+
+async function insertResources(tx: Transaction, resources: readonly Resource[]): Promise<void> {
+  for (const resource of resources) {
+    if (!resource.id) continue;
+    await tx.query(
+      `INSERT INTO ${PGLITE_RESOURCE_TABLE} (resource_type, id, resource) VALUES ($1, $2, $3)
+       ON CONFLICT (resource_type, id) DO UPDATE SET resource = EXCLUDED.resource`,
+      [resource.resourceType, resource.id, resource],
+    );
+  }
+}
+
+async function writeSeededKey(tx: Transaction, dataKey: string): Promise<void> {
+  await writeMeta(tx, SEEDED_KEY, dataKey);
+}
+
+async function writeMeta(tx: Transaction, key: string, value: string): Promise<void> {
+  await tx.query(
+    `INSERT INTO ${PGLITE_META_TABLE} (key, value) VALUES ($1, $2)
+     ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value`,
+    [key, value],
+  );
+}
+
+async function readMeta(pg: PGlite): Promise<Map<string, string>> {
+  const { rows } = await pg.query<{ key: string; value: string }>(`SELECT key, value FROM ${PGLITE_META_TABLE}`);
+  return new Map(rows.map(r => [r.key, r.value]));
+}
+
+/**
+ * Drop the data tables of a dataset stored with another schema version (or
+ * none) and create this version's schema empty. Custom view tables recorded in
+ * `meta` go too; the next execution seeds everything again.
+ */
+async function rebuildSchema(tx: Transaction, meta: Map<string, string>): Promise<void> {
+  const customViews = [...meta.keys()]
+    .filter(key => key.startsWith(VIEW_KEY_PREFIX))
+    .map(key => key.slice(VIEW_KEY_PREFIX.length))
+    .filter(name => !RESERVED_VIEW_TABLE_NAMES.includes(name.toLowerCase()));
+  for (const name of [...FLAT_TABLE_NAMES, PGLITE_RESOURCE_TABLE, ...customViews]) {
+    await tx.exec(`DROP TABLE IF EXISTS ${name}`);
+  }
+  await tx.exec(`DELETE FROM ${PGLITE_META_TABLE}`);
+  await tx.exec(FLAT_TABLE_DDL);
+  await writeMeta(tx, SCHEMA_VERSION_KEY, SCHEMA_VERSION);
 }
 
 function normalizeValue(v: FlatRow[string]): unknown {
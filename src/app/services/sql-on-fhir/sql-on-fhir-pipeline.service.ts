@@ -1,104 +1,445 @@
 // Author: Preston Lee
 
 import { Injectable, inject } from '@angular/core';
-import { Observable, defer, of, throwError } from 'rxjs';
-import { catchError } from 'rxjs/operators';
-import type { Bundle, Library, MeasureReport } from 'fhir/r4';
+import { Observable, defer, firstValueFrom, of, throwError } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import type { Bundle, Library, Measure, MeasureReport, OperationOutcome } from 'fhir/r4';
 import {
   ElmToSqlTranspiler,
+  generateIndividualMeasureReports,
   generateMeasureReport as buildMeasureReport,
+  generateSubjectListMeasureReport,
   inferMeasureUrlFromLibrary,
+  measureGroups,
+  measureStratifiers,
+  measureSupplementalData,
   normalizeMeasureReportForServer,
   sqlRowToPopulationCounts,
+  sqlRowsToStrata,
+  sqlRowToGroupCounts,
+  sqlRowsToSubjects,
+  sqlDialect,
+  viewDefinitionColumns,
+  type ElmIncludeDef,
+  type ElmLibrary,
+  type ElmLibraryWrapper,
+  type GroupCounts,
+  type GroupQuery,
+  type IncludedLibraryUsage,
+  type LibraryResolver,
+  type MeasureReportOptions,
   type PopulationCounts,
+  type ResourceViewMapping,
+  type SqlDialectName,
+  type StratifiedQuery,
+  type TranspiledCte,
+  type StratifierCounts,
+  type SubjectCounts,
+  type TranspileWarning,
+  type ValueSetReference,
+  type ViewDefinition,
 } from '../../components/sql-on-fhir/elm-to-sql';
 import {
+  bundleResources,
   flattenBundle,
+  flattenResources,
   type FlatRow,
   type FlatTables,
 } from './sql-on-fhir-bundle-flattener.lib';
 import { SqlOnFhirPgliteService } from './sql-on-fhir-pglite.service';
+import type { CustomViewRegistration } from './sql-on-fhir-custom-views.lib';
 import { MeasureService } from '../measure.service';
+import { TranslationService } from '../translation.service';
+import { SettingsService } from '../settings.service';
+import { CqlLibrarySourceService } from '../cql-library-source.service';
+import { ElmIncludeParser } from '../elm-include.lib';
 import {
   measurementPeriodFromValues,
   type LibraryParameterValues,
 } from '../../components/sql-on-fhir/library-parameters.lib';
 import type { ExecutionSeedData } from './sql-on-fhir-execution-data.service';
+import type { EnginePatientResult } from './sql-on-fhir-engine-comparison.lib';
+import {
+  PATIENT_COMPARTMENT_FETCH_CONCURRENCY,
+  mapWithConcurrency,
+  patientReference,
+} from './sql-on-fhir-patient-fetch.lib';
 
 export interface GenerateSqlResult {
   sql: string;
   populations: string[];
-  warnings: string[];
+  warnings: TranspileWarning[];
+  /** GROUP BY queries for the Measure's stratifiers. */
+  stratifiers: StratifiedQuery[];
+  /** GROUP BY queries for the Measure's supplemental data elements. */
+  supplementalData: StratifiedQuery[];
+  /** Result-column layout of the Measure's groups (empty without a Measure). */
+  groups: GroupQuery[];
+  /** Per-patient variant of `sql`, backing individual and subject-list reports. */
+  subjectSql: string | null;
+  /** Included libraries the SQL draws on, with the functions given built-in SQL. */
+  includedLibraries: IncludedLibraryUsage[];
+  /** Value sets of included libraries to seed alongside the primary library's. */
+  includedValueSets: ValueSetReference[];
+  /** The `WITH` clause's CTEs, each traced to its define, for the explain view. */
+  ctes: TranspiledCte[];
+}
+
+export interface GenerateSqlOptions {
+  /** Fail on the first construct that cannot be translated faithfully. */
+  strict?: boolean;
+  /** SQL dialect to emit. Default: `postgresql`, the dialect PGlite executes. */
+  dialect?: SqlDialectName;
+}
+
+/** Measure-driven parts of the generated SQL, needed to read its results. */
+export type MeasureQueries = Pick<
+  GenerateSqlResult,
+  'groups' | 'stratifiers' | 'supplementalData' | 'subjectSql'
+>;
+
+/** Measure group, per-stratum and per-patient results for the MeasureReport. */
+export interface MeasureCounts {
+  groups: GroupCounts[];
+  stratifiers: StratifierCounts[];
+  supplementalData: StratifierCounts[];
+  subjects: SubjectCounts[];
 }
 
-export interface ExecuteSqlResult {
+/** MeasureReport.type values the SQL pipeline can produce. */
+export type SqlMeasureReportType = 'summary' | 'subject-list' | 'individual';
+
+export const EMPTY_MEASURE_QUERIES: MeasureQueries = {
+  groups: [],
+  stratifiers: [],
+  supplementalData: [],
+  subjectSql: null,
+};
+
+export const EMPTY_MEASURE_COUNTS: MeasureCounts = {
+  groups: [],
+  stratifiers: [],
+  supplementalData: [],
+  subjects: [],
+};
+
+export interface ExecuteSqlResult extends MeasureCounts {
   raw: string;
   counts: PopulationCounts;
   durationMs: number;
 }
 
+export interface ViewPreviewResult {
+  /** Column names in ViewDefinition order. */
+  columns: string[];
+  /** First rows of the materialised table, as returned by PGlite. */
+  rows: Record<string, unknown>[];
+  /** Rows the view produced over the whole bundle. */
+  totalRows: number;
+}
+
+/** The diagnostic a strict-mode transpile failed on (the error's `cause`), if any. */
+export function transpileWarningOf(err: unknown): TranspileWarning | null {
+  const cause = err instanceof Error ? err.cause : undefined;
+  return cause && typeof cause === 'object' && 'message' in cause && 'code' in cause
+    ? (cause as TranspileWarning)
+    : null;
+}
+
+/** Rows shown by previewView unless the caller asks for more. */
+const VIEW_PREVIEW_LIMIT = 50;
+
 @Injectable({ providedIn: 'root' })
 export class SqlOnFhirPipelineService {
   private readonly pg = inject(SqlOnFhirPgliteService);
   private readonly measureService = inject(MeasureService);
+  private readonly translationService = inject(TranslationService);
+  private readonly settingsService = inject(SettingsService);
+  private readonly librarySource = inject(CqlLibrarySourceService);
+  private readonly elmIncludeParser = inject(ElmIncludeParser);
+
+  /**
+   * The Measure whose canonical URL the library maps to, from the evaluation
+   * endpoint. Emits null when there is none or the lookup fails — SQL is then
+   * generated without stratifiers or supplemental data.
+   */
+  findMeasureForLibrary(library: Library): Observable<Measure | null> {
+    const url = inferMeasureUrlFromLibrary(library);
+    return this.measureService.searchMeasures({ url, _count: 1 }).pipe(
+      map(bundle => {
+        const resource = bundle.entry?.find(e => e.resource?.resourceType === 'Measure')?.resource;
+        return (resource as Measure | undefined) ?? null;
+      }),
+      catchError(() => of(null)),
+    );
+  }
 
   generateSql(
     elmJson: string,
     _library: Library | null,
     parameterValues: LibraryParameterValues = {},
+    resourceViews: Record<string, ResourceViewMapping> = {},
+    measure: Measure | null = null,
+    options: GenerateSqlOptions = {},
   ): Observable<GenerateSqlResult> {
-    return defer(() => {
+    return defer(async (): Promise<GenerateSqlResult> => {
       if (!elmJson || !elmJson.trim()) {
-        return throwError(() => new Error('ELM JSON is empty — translation did not produce output.'));
+        throw new Error('ELM JSON is empty — translation did not produce output.');
       }
       try {
-        const elm = JSON.parse(elmJson);
+        const elm = JSON.parse(elmJson) as ElmLibraryWrapper | ElmLibrary;
+        const libraryResolver = await this.includedLibraryResolver('library' in elm ? elm.library : elm);
         const period = measurementPeriodFromValues(parameterValues);
         const transpiler = new ElmToSqlTranspiler({
           measurementPeriodStart: period.start,
           measurementPeriodEnd: period.end,
           parameterValues,
+          resourceViews,
+          groups: measure ? measureGroups(measure) : [],
+          stratifiers: measure ? measureStratifiers(measure) : [],
+          supplementalData: measure ? measureSupplementalData(measure) : [],
+          subjectResults: true,
+          libraryResolver,
+          strict: options.strict ?? false,
+          dialect: sqlDialect(options.dialect ?? 'postgresql'),
         });
-        const { sql, populations, warnings } = transpiler.transpile(elm);
-        return of<GenerateSqlResult>({ sql, populations, warnings: warnings ?? [] });
+        const result = transpiler.transpile(elm);
+        return {
+          sql: result.sql,
+          populations: result.populations,
+          warnings: result.warnings ?? [],
+          stratifiers: result.stratifiers,
+          supplementalData: result.supplementalData,
+          groups: result.groups,
+          subjectSql: result.subjectSql,
+          includedLibraries: result.includedLibraries,
+          includedValueSets: result.includedValueSets,
+          ctes: result.ctes,
+        };
       } catch (err) {
         const msg = err instanceof Error ? err.message : String(err);
-        return throwError(() => new Error(`SQL generation failed: ${msg}`));
+        throw new Error(`SQL generation failed: ${msg}`, {
+          cause: transpileWarningOf(err) ?? undefined,
+        });
       }
     });
   }
 
-  executeSql(sql: string, seedData: ExecutionSeedData): Observable<ExecuteSqlResult> {
-    return defer(async () => {
-      const tables = mergeFlatTables(flattenBundle(seedData.bundle), {
-        value_set_expansion: seedData.valueSetRows,
+  /**
+   * ELM for every library `library` includes, transitively: CQL from the
+   * content server is translated once per library and version. FHIRHelpers
+   * ships with the translator and its conversions have built-in SQL, so it is
+   * not loaded; libraries that cannot be fetched or translated resolve to null.
+   */
+  private async includedLibraryResolver(library: ElmLibrary): Promise<LibraryResolver> {
+    const includeKey = (include: ElmIncludeDef) =>
+      this.elmIncludeParser.cacheKey(include.path, null, include.version);
+    const resolved = new Map<string, ElmLibrary | null>();
+    const visit = async (lib: ElmLibrary): Promise<void> => {
+      for (const include of lib.includes?.def ?? []) {
+        const key = includeKey(include);
+        if (resolved.has(key) || this.elmIncludeParser.isBundledLibraryPath(include.path)) {
+          continue;
+        }
+        resolved.set(key, null);
+        const included = await this.translateIncludedLibrary(include);
+        resolved.set(key, included);
+        if (included) {
+          await visit(included);
+        }
+      }
+    };
+    await visit(library);
+    return include => resolved.get(includeKey(include)) ?? null;
+  }
+
+  private async translateIncludedLibrary(include: ElmIncludeDef): Promise<ElmLibrary | null> {
+    const version = include.version ?? null;
+    try {
+      await this.librarySource.fetchMissingIncludes([
+        { path: include.path, version, localIdentifier: include.localIdentifier, system: null },
+      ]);
+      const cql = this.librarySource.getCachedCql(include.path, null, version);
+      if (!cql) {
+        return null;
+      }
+      const { elmJson } = await this.translationService.translateCqlToElmAsync(cql, {
+        translatorProfile: this.settingsService.sqlOnFhirTranslatorProfile()
       });
-      await this.pg.seed(seedData.dataKey, tables);
+      if (!elmJson) {
+        return null;
+      }
+      const elm = JSON.parse(elmJson) as ElmLibraryWrapper | ElmLibrary;
+      return 'library' in elm ? elm.library : elm;
+    } catch (err) {
+      console.warn(`Could not load included library ${include.path}:`, err);
+      return null;
+    }
+  }
+
+  executeSql(
+    sql: string,
+    seedData: ExecutionSeedData,
+    customViews: readonly CustomViewRegistration[] = [],
+    measureQueries: MeasureQueries = EMPTY_MEASURE_QUERIES,
+  ): Observable<ExecuteSqlResult> {
+    return defer(async () => {
+      if (seedData.useStoredData) {
+        await this.pg.seedValueSets(seedData.valueSetRows);
+      } else {
+        const tables = mergeFlatTables(flattenBundle(seedData.bundle), {
+          value_set_expansion: seedData.valueSetRows,
+        });
+        await this.pg.seed(seedData.dataKey, tables, bundleResources(seedData.bundle));
+      }
+      for (const { viewDefinition } of customViews) {
+        await this.seedCustomView(viewDefinition, seedData);
+      }
       const { rows, durationMs } = await this.pg.execute(sql);
       const firstRow = rows[0] ?? {};
       const counts = sqlRowToPopulationCounts(firstRow);
+      let totalMs = durationMs;
+      const runStrata = async (queries: StratifiedQuery[]) => {
+        const result: StratifierCounts[] = [];
+        for (const query of queries) {
+          const strata = await this.pg.execute(query.sql);
+          totalMs += strata.durationMs;
+          result.push(sqlRowsToStrata(query, strata.rows));
+        }
+        return result;
+      };
+      const stratifiers = await runStrata(measureQueries.stratifiers);
+      const supplementalData = await runStrata(measureQueries.supplementalData);
+      let subjects: SubjectCounts[] = [];
+      if (measureQueries.subjectSql) {
+        const perPatient = await this.pg.execute(measureQueries.subjectSql);
+        totalMs += perPatient.durationMs;
+        subjects = sqlRowsToSubjects(perPatient.rows, measureQueries.groups);
+      }
+      const raw =
+        stratifiers.length || supplementalData.length
+          ? { populations: firstRow, stratifiers, supplementalData }
+          : firstRow;
       return {
-        raw: JSON.stringify(firstRow, null, 2),
+        raw: JSON.stringify(raw, null, 2),
         counts,
-        durationMs,
+        durationMs: totalMs,
+        groups: sqlRowToGroupCounts(measureQueries.groups, firstRow),
+        stratifiers,
+        supplementalData,
+        subjects,
       } satisfies ExecuteSqlResult;
     }).pipe(catchError(err => throwError(() => mapPgliteError(err))));
   }
 
+  /**
+   * Materialise a user-defined ViewDefinition over the execution bundle, or
+   * the stored resources with `useStoredData`, and return its columns plus the
+   * first rows as PGlite stores them.
+   */
+  previewView(
+    vd: ViewDefinition,
+    seedData: Pick<ExecutionSeedData, 'bundle' | 'dataKey' | 'useStoredData'>,
+    limit = VIEW_PREVIEW_LIMIT,
+  ): Observable<ViewPreviewResult> {
+    return defer(async () => {
+      const totalRows = await this.seedCustomView(vd, seedData);
+      const { rows } = await this.pg.execute(`SELECT * FROM ${vd.name} LIMIT ${limit}`);
+      return {
+        columns: viewDefinitionColumns(vd).map(c => c.name),
+        rows,
+        totalRows,
+      } satisfies ViewPreviewResult;
+    }).pipe(catchError(err => throwError(() => mapPgliteError(err))));
+  }
+
+  /**
+   * Seed one custom view table unless it already holds this data; returns the
+   * number of rows in the view. Stored data derives the view from the stored
+   * source resources, so views registered after the data was loaded work too.
+   */
+  private async seedCustomView(
+    vd: ViewDefinition,
+    seedData: Pick<ExecutionSeedData, 'bundle' | 'dataKey' | 'useStoredData'>,
+  ): Promise<number> {
+    // The definition is part of the key so edits re-seed against the same data.
+    const viewKey = `${seedData.dataKey}|${JSON.stringify(vd)}`;
+    if (await this.pg.isViewSeeded(vd.name, viewKey)) {
+      const { rows } = await this.pg.execute(`SELECT COUNT(*)::int AS n FROM ${vd.name}`);
+      return Number(rows[0]?.['n'] ?? 0);
+    }
+    const resources = seedData.useStoredData
+      ? await this.pg.storedResources(vd.resource)
+      : bundleResources(seedData.bundle);
+    const rows = flattenResources(vd, resources);
+    await this.pg.seedView(viewKey, vd, rows);
+    return rows.length;
+  }
+
+  /**
+   * A `summary` report, or a `subject-list` report whose populations reference
+   * contained Lists of the patients counted in them.
+   */
   generateMeasureReport(
     counts: PopulationCounts,
     library: Library | null,
     parameterValues: LibraryParameterValues = {},
+    measureCounts: MeasureCounts = EMPTY_MEASURE_COUNTS,
+    type: Exclude<SqlMeasureReportType, 'individual'> = 'summary',
   ): Observable<MeasureReport> {
+    return defer(() => {
+      const options = reportOptions(library, parameterValues, measureCounts);
+      const report =
+        type === 'subject-list'
+          ? generateSubjectListMeasureReport(counts, measureCounts.subjects, options)
+          : buildMeasureReport(counts, { ...options, type: 'summary' });
+      return of(report);
+    });
+  }
+
+  /** One `individual` report per patient in the last execution, in patient id order. */
+  generateIndividualMeasureReports(
+    library: Library | null,
+    parameterValues: LibraryParameterValues = {},
+    measureCounts: MeasureCounts = EMPTY_MEASURE_COUNTS,
+  ): Observable<MeasureReport[]> {
+    return defer(() =>
+      of(
+        generateIndividualMeasureReports(
+          measureCounts.subjects,
+          reportOptions(library, parameterValues, measureCounts),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Evaluates the Measure with the CQL engine (`$evaluate-measure`), one
+   * `subject` report per patient over the execution's Measurement Period.
+   * A failed evaluation is reported per patient rather than failing the run.
+   */
+  evaluateWithEngine(
+    measureId: string,
+    patientIds: string[],
+    parameterValues: LibraryParameterValues = {},
+  ): Observable<EnginePatientResult[]> {
     return defer(() => {
       const period = measurementPeriodFromValues(parameterValues);
-      const report = buildMeasureReport(counts, {
-        measureUrl: inferMeasureUrlFromLibrary(library),
-        periodStart: isoDate(period.start),
-        periodEnd: isoDate(period.end),
-        type: 'summary',
+      const params = { periodStart: isoDate(period.start), periodEnd: isoDate(period.end) };
+      return mapWithConcurrency(patientIds, PATIENT_COMPARTMENT_FETCH_CONCURRENCY, async patientId => {
+        try {
+          const report = await firstValueFrom(
+            this.measureService.evaluateMeasure(measureId, {
+              ...params,
+              reportType: 'subject',
+              subject: patientReference(patientId),
+            }),
+          );
+          return { patientId, report, error: null };
+        } catch (err) {
+          return { patientId, report: null, error: engineErrorMessage(err) };
+        }
       });
-      return of(report);
     });
   }
 
@@ -116,21 +457,48 @@ export class SqlOnFhirPipelineService {
   }
 }
 
+function reportOptions(
+  library: Library | null,
+  parameterValues: LibraryParameterValues,
+  measureCounts: MeasureCounts,
+): MeasureReportOptions {
+  const period = measurementPeriodFromValues(parameterValues);
+  return {
+    measureUrl: inferMeasureUrlFromLibrary(library),
+    periodStart: isoDate(period.start),
+    periodEnd: isoDate(period.end),
+    groups: measureCounts.groups,
+    stratifiers: measureCounts.stratifiers,
+    supplementalData: measureCounts.supplementalData,
+  };
+}
+
 function isoDate(s: string): string {
   return s.length >= 10 ? s.slice(0, 10) : s;
 }
 
 function mergeFlatTables(a: FlatTables, b: Partial<FlatTables>): FlatTables {
   return {
-    patient_view: a.patient_view,
-    encounter_view: a.encounter_view,
-    observation_view: a.observation_view,
-    procedure_view: a.procedure_view,
-    condition_view: a.condition_view,
+    ...a,
     value_set_expansion: (b.value_set_expansion ?? []).concat(a.value_set_expansion),
   };
 }
 
+/** An `$evaluate-measure` failure: the OperationOutcome diagnostics when the server sent one. */
+function engineErrorMessage(err: unknown): string {
+  if (err && typeof err === 'object') {
+    const { error, message } = err as { error?: OperationOutcome; message?: unknown };
+    const diagnostics = error?.issue?.[0]?.diagnostics;
+    if (diagnostics) {
+      return diagnostics;
+    }
+    if (typeof message === 'string') {
+      return message;
+    }
+  }
+  return String(err);
+}
+
 function mapPgliteError(err: unknown): Error {
   if (err instanceof Error) {
     return err;
@@ -0,0 +1,697 @@
+// Author: Preston Lee
+//
+// One correctness test per non-core resource the transpiler can target:
+// raw FHIR resources go through flattenBundle (the ViewDefinition runner),
+// are seeded into PGlite, and `exists [Resource: "VS"]` must count exactly
+// the one patient whose resource carries the value-set code.
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { Bundle, FhirResource } from 'fhir/r4';
+import { SqlOnFhirPgliteService } from './sql-on-fhir-pglite.service';
+import { bundleResources, flattenBundle, flattenResources } from './sql-on-fhir-bundle-flattener.lib';
+import { parseViewDefinitionJson } from './sql-on-fhir-custom-views.lib';
+import {
+  ElmToSqlTranspiler,
+  generateMeasureReport,
+  generateSubjectListMeasureReport,
+  sqlRowToGroupCounts,
+  sqlRowToPopulationCounts,
+  sqlRowsToSubjects,
+} from '../../components/sql-on-fhir/elm-to-sql';
+import type { ElmLibraryWrapper, MeasureGroupDefinition } from '../../components/sql-on-fhir/elm-to-sql';
+import lengthOfStayElm from '../../components/sql-on-fhir/elm-to-sql/fixtures/encounter-length-of-stay.elm.json';
+
+const VS_URL = 'http://example.org/fhir/ValueSet/test-codes';
+const MATCH = 'match-1';
+const OTHER = 'other-9';
+
+const cc = (code: string) => ({ coding: [{ system: 'http://example.org/cs', code }] });
+
+interface ResourceCase {
+  resourceType: string;
+  view: string;
+  make: (id: string, patientId: string, code: string) => Record<string, unknown>;
+}
+
+const CASES: ResourceCase[] = [
+  {
+    resourceType: 'MedicationRequest',
+    view: 'medication_request_view',
+    make: (id, pid, code) => ({
+      id, status: 'active', intent: 'order', subject: { reference: `Patient/${pid}` },
+      medicationCodeableConcept: cc(code), authoredOn: '2024-03-01',
+    }),
+  },
+  {
+    resourceType: 'Coverage',
+    view: 'coverage_view',
+    make: (id, pid, code) => ({
+      id, status: 'active', beneficiary: { reference: `Patient/${pid}` },
+      type: cc(code), payor: [{ reference: 'Organization/payer-1' }], period: { start: '2024-01-01' },
+    }),
+  },
+  {
+    resourceType: 'Immunization',
+    view: 'immunization_view',
+    make: (id, pid, code) => ({
+      id, status: 'completed', patient: { reference: `Patient/${pid}` },
+      vaccineCode: cc(code), occurrenceDateTime: '2024-04-02', primarySource: true,
+    }),
+  },
+  {
+    resourceType: 'ServiceRequest',
+    view: 'service_request_view',
+    make: (id, pid, code) => ({
+      id, status: 'active', intent: 'order', subject: { reference: `Patient/${pid}` },
+      code: cc(code), authoredOn: '2024-05-05', doNotPerform: false,
+    }),
+  },
+  {
+    resourceType: 'AllergyIntolerance',
+    view: 'allergy_intolerance_view',
+    make: (id, pid, code) => ({
+      id, patient: { reference: `Patient/${pid}` }, code: cc(code),
+      clinicalStatus: cc('active'), recordedDate: '2024-02-02',
+    }),
+  },
+  {
+    resourceType: 'DiagnosticReport',
+    view: 'diagnostic_report_view',
+    make: (id, pid, code) => ({
+      id, status: 'final', subject: { reference: `Patient/${pid}` },
+      code: cc(code), effectiveDateTime: '2024-06-06T10:00:00Z',
+    }),
+  },
+  {
+    resourceType: 'DeviceRequest',
+    view: 'device_request_view',
+    make: (id, pid, code) => ({
+      id, status: 'active', intent: 'order', subject: { reference: `Patient/${pid}` },
+      codeCodeableConcept: cc(code), authoredOn: '2024-07-07',
+    }),
+  },
+  {
+    resourceType: 'CommunicationRequest',
+    view: 'communication_request_view',
+    make: (id, pid, code) => ({
+      id, status: 'active', subject: { reference: `Patient/${pid}` },
+      category: [cc(code)], authoredOn: '2024-08-08',
+    }),
+  },
+  {
+    resourceType: 'Claim',
+    view: 'claim_view',
+    make: (id, pid, code) => ({
+      id, status: 'active', use: 'claim', patient: { reference: `Patient/${pid}` },
+      type: cc(code), created: '2024-09-09', provider: { reference: 'Organization/prov-1' },
+      insurer: { reference: 'Organization/payer-1' }, priority: cc('normal'),
+    }),
+  },
+];
+
+function bundleFor(c: ResourceCase): Bundle {
+  const resources: Record<string, unknown>[] = [
+    { resourceType: 'Patient', id: 'has-match', gender: 'female', birthDate: '1970-01-01' },
+    { resourceType: 'Patient', id: 'has-other', gender: 'female', birthDate: '1971-01-01' },
+    { resourceType: 'Patient', id: 'has-none', gender: 'male', birthDate: '1972-01-01' },
+    { resourceType: c.resourceType, ...c.make('r-1', 'has-match', MATCH) },
+    { resourceType: c.resourceType, ...c.make('r-2', 'has-match', MATCH) },
+    { resourceType: c.resourceType, ...c.make('r-3', 'has-other', OTHER) },
+    {
+      resourceType: 'ValueSet', url: VS_URL, status: 'active',
+      expansion: { timestamp: '2024-01-01', contains: [{ system: 'http://example.org/cs', code: MATCH }] },
+    },
+  ];
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    entry: resources.map(resource => ({ resource: resource as unknown as FhirResource })),
+  };
+}
+
+function existsElm(resourceType: string): ElmLibraryWrapper {
+  return {
+    library: {
+      identifier: { id: `Exists${resourceType}`, version: '0.0.1' },
+      schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+      valueSets: { def: [{ name: 'Test Codes', id: VS_URL }] },
+      statements: {
+        def: [
+          {
+            name: 'Patient', context: 'Patient',
+            expression: { type: 'SingletonFrom', operand: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Patient' } },
+          },
+          {
+            name: 'Initial Population', context: 'Patient',
+            expression: {
+              type: 'Exists',
+              operand: {
+                type: 'Retrieve',
+                dataType: `{http://hl7.org/fhir}${resourceType}`,
+                codes: { type: 'ValueSetRef', name: 'Test Codes' },
+              },
+            },
+          },
+        ],
+      },
+    },
+  } as unknown as ElmLibraryWrapper;
+}
+
+describe('every transpiler-targeted view is seeded and queryable on PGlite', () => {
+  let pg: SqlOnFhirPgliteService;
+
+  beforeAll(async () => {
+    pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    await pg.ensureBooted();
+  }, 60_000);
+
+  for (const c of CASES) {
+    it(`${c.resourceType}: flattens into ${c.view} and counts the matching patient once`, async () => {
+      const tables = flattenBundle(bundleFor(c));
+      const rows = tables[c.view as keyof typeof tables];
+      expect(rows).toHaveLength(3);
+      expect(rows[0]).toMatchObject({ id: 'r-1', subject_id: 'has-match' });
+
+      await pg.seed(`resource-views-${c.resourceType}`, tables);
+      const sql = new ElmToSqlTranspiler({
+        measurementPeriodStart: '2024-01-01T00:00:00Z',
+        measurementPeriodEnd: '2024-12-31T23:59:59Z',
+      }).transpile(existsElm(c.resourceType)).sql;
+      const result = await pg.execute(sql);
+      expect(result.rows[0]).toMatchObject({ initial_population_count: 1 });
+    });
+  }
+});
+
+describe('user-defined ViewDefinitions back retrieves on PGlite', () => {
+  const SITE_CODE_URL = 'http://example.org/fhir/StructureDefinition/site-code';
+  const siteView = parseViewDefinitionJson(
+    JSON.stringify({
+      resourceType: 'ViewDefinition',
+      name: 'site_observation_view',
+      status: 'active',
+      resource: 'Observation',
+      select: [
+        {
+          column: [
+            { name: 'id', path: 'getResourceKey()' },
+            { name: 'subject_id', path: 'subject.getReferenceKey(Patient)' },
+            { name: 'site_code', path: `extension('${SITE_CODE_URL}').value.ofType(Coding).code` },
+          ],
+        },
+      ],
+    }),
+  );
+
+  // Every Observation carries the standard code OTHER; only the site extension differs.
+  const observation = (id: string, pid: string, siteCode: string) => ({
+    id, status: 'final', subject: { reference: `Patient/${pid}` }, code: cc(OTHER),
+    extension: [{ url: SITE_CODE_URL, valueCoding: { system: 'http://example.org/cs', code: siteCode } }],
+  });
+  const bundle = bundleFor({ resourceType: 'Observation', view: 'observation_view', make: observation });
+
+  it('materialises the view and counts patients by the extension code', async () => {
+    const pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    const rows = flattenResources(siteView, bundleResources(bundle));
+    expect(rows[0]).toEqual({ id: 'r-1', subject_id: 'has-match', site_code: MATCH });
+
+    await pg.seed('custom-view-observation', flattenBundle(bundle));
+    await pg.seedView('custom-view-observation', siteView, rows);
+    const options = {
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+    };
+    const standard = new ElmToSqlTranspiler(options).transpile(existsElm('Observation')).sql;
+    expect((await pg.execute(standard)).rows[0]).toMatchObject({ initial_population_count: 0 });
+
+    const custom = new ElmToSqlTranspiler({
+      ...options,
+      resourceViews: { Observation: { view: 'site_observation_view', codeColumn: 'site_code' } },
+    }).transpile(existsElm('Observation')).sql;
+    expect((await pg.execute(custom)).rows[0]).toMatchObject({ initial_population_count: 1 });
+  }, 60_000);
+});
+
+describe('direct-reference codes match any coding on PGlite', () => {
+  it('counts an Observation whose second coding carries the code', async () => {
+    const pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    const observation = (id: string, pid: string, ...codings: [string, string][]) => ({
+      resourceType: 'Observation', id, status: 'final', subject: { reference: `Patient/${pid}` },
+      code: { coding: codings.map(([system, code]) => ({ system, code })) },
+      effectiveDateTime: '2024-03-01T10:00:00Z',
+    });
+    const resources = [
+      { resourceType: 'Patient', id: 'has-second', gender: 'female', birthDate: '1970-01-01' },
+      { resourceType: 'Patient', id: 'wrong-system', gender: 'male', birthDate: '1971-01-01' },
+      observation('o-1', 'has-second', ['http://example.org/local', 'A1C'], ['http://loinc.org', '4548-4']),
+      observation('o-2', 'wrong-system', ['http://example.org/local', '4548-4']),
+    ];
+    const tables = flattenBundle({
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: resources.map(resource => ({ resource: resource as unknown as FhirResource })),
+    });
+    expect(tables.observation_view[0]).toMatchObject({ code: 'A1C' });
+    await pg.seed('direct-codes', tables);
+
+    const { sql, warnings } = new ElmToSqlTranspiler({
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+    }).transpile({
+      library: {
+        identifier: { id: 'DirectCodes', version: '0.0.1' },
+        schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+        codeSystems: { def: [{ name: 'LOINC', id: 'http://loinc.org' }] },
+        codes: { def: [{ name: 'HbA1c', id: '4548-4', codeSystem: { name: 'LOINC' } }] },
+        statements: {
+          def: [
+            {
+              name: 'Patient', context: 'Patient',
+              expression: { type: 'SingletonFrom', operand: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Patient' } },
+            },
+            {
+              name: 'Initial Population', context: 'Patient',
+              expression: {
+                type: 'Exists',
+                operand: {
+                  type: 'Retrieve',
+                  dataType: '{http://hl7.org/fhir}Observation',
+                  codes: { type: 'ToList', operand: { type: 'CodeRef', name: 'HbA1c' } },
+                },
+              },
+            },
+          ],
+        },
+      },
+    } as unknown as ElmLibraryWrapper);
+    expect(warnings).toEqual([]);
+    expect((await pg.execute(sql)).rows[0]).toMatchObject({ initial_population_count: 1 });
+  }, 60_000);
+});
+
+describe('value set membership on PGlite', () => {
+  const observation = (id: string, pid: string, system: string, code: string) => ({
+    resourceType: 'Observation', id, status: 'final', subject: { reference: `Patient/${pid}` },
+    code: { coding: [{ system, code }] }, effectiveDateTime: '2024-03-01T10:00:00Z',
+  });
+  const resources = [
+    { resourceType: 'Patient', id: 'has-match', gender: 'female', birthDate: '1970-01-01' },
+    { resourceType: 'Patient', id: 'wrong-system', gender: 'male', birthDate: '1971-01-01' },
+    observation('o-1', 'has-match', 'http://example.org/cs', MATCH),
+    observation('o-2', 'wrong-system', 'http://example.org/other', MATCH),
+    {
+      resourceType: 'ValueSet', url: VS_URL, status: 'active',
+      expansion: { timestamp: '2024-01-01', contains: [{ system: 'http://example.org/cs', code: MATCH }] },
+    },
+  ];
+  const tables = flattenBundle({
+    resourceType: 'Bundle',
+    type: 'collection',
+    entry: resources.map(resource => ({ resource: resource as unknown as FhirResource })),
+  });
+  const elm = (where: unknown): ElmLibraryWrapper =>
+    ({
+      library: {
+        identifier: { id: 'ValueSetMembership', version: '0.0.1' },
+        schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+        valueSets: { def: [{ name: 'Test Codes', id: VS_URL }] },
+        statements: {
+          def: [
+            {
+              name: 'Patient', context: 'Patient',
+              expression: { type: 'SingletonFrom', operand: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Patient' } },
+            },
+            {
+              name: 'Initial Population', context: 'Patient',
+              expression: {
+                type: 'Exists',
+                operand: {
+                  type: 'Query',
+                  source: [{ alias: 'O', expression: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Observation' } }],
+                  where,
+                },
+              },
+            },
+          ],
+        },
+      },
+    }) as unknown as ElmLibraryWrapper;
+  const transpile = (where: unknown) =>
+    new ElmToSqlTranspiler({
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+    }).transpile(elm(where));
+  const code = { type: 'Property', path: 'code', scope: 'O' };
+
+  it('matches codings on system as well as code', async () => {
+    const pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    await pg.seed('value-set-system', tables);
+    const { sql, warnings } = transpile({
+      type: 'InValueSet',
+      code,
+      valueset: { type: 'ValueSetRef', name: 'Test Codes' },
+    });
+    expect(warnings).toEqual([]);
+    expect((await pg.execute(sql)).rows[0]).toMatchObject({ initial_population_count: 1 });
+  }, 60_000);
+
+  it('runs, matching nothing, when a value set does not resolve', async () => {
+    const pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    await pg.seed('value-set-unresolved', tables);
+    const missing = { type: 'ValueSetRef', name: 'Missing Codes' };
+    const { sql, warnings } = transpile({
+      type: 'Or',
+      operand: [
+        { type: 'InValueSet', code, valueset: missing },
+        { type: 'In', operand: [{ type: 'Property', path: 'status', scope: 'O' }, missing] },
+      ],
+    });
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'unresolved', message: 'Unresolved ValueSetRef: Missing Codes' }),
+    ]);
+    expect((await pg.execute(sql)).rows[0]).toMatchObject({ initial_population_count: 0 });
+  }, 60_000);
+});
+
+describe('stratifier queries run on PGlite', () => {
+  it('groups population counts by a Patient value and by define membership', async () => {
+    const pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    const c = CASES[0];
+    await pg.seed('stratifiers', flattenBundle(bundleFor(c)));
+
+    const elm = existsElm(c.resourceType);
+    elm.library.statements!.def!.push({
+      name: 'SDE Sex',
+      context: 'Patient',
+      accessLevel: 'Public',
+      expression: { type: 'Property', path: 'gender', source: { type: 'ExpressionRef', name: 'Patient' } },
+    } as never);
+    const { stratifiers, supplementalData, warnings } = new ElmToSqlTranspiler({
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+      stratifiers: [{ id: 'in-ip', expressions: ['Initial Population'] }],
+      supplementalData: [{ id: 'sde-sex', expression: 'SDE Sex' }],
+    }).transpile(elm);
+    expect(warnings).toEqual([]);
+
+    const byMembership = await pg.execute(stratifiers[0].sql);
+    expect(byMembership.rows).toEqual([
+      { stratum_0: 'false', initial_population_count: 0 },
+      { stratum_0: 'true', initial_population_count: 1 },
+    ]);
+    const bySex = await pg.execute(supplementalData[0].sql);
+    expect(bySex.rows).toEqual([
+      { stratum_0: 'female', initial_population_count: 1 },
+      { stratum_0: 'male', initial_population_count: 0 },
+    ]);
+  }, 60_000);
+});
+
+describe('multi-group episode scoring runs on PGlite', () => {
+  it('counts encounters per group and aggregates the length-of-stay observation', async () => {
+    const pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    const encounter = (id: string, patient: string, status: string, start: string, end: string) => ({
+      resourceType: 'Encounter',
+      id,
+      status,
+      class: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'IMP' },
+      subject: { reference: `Patient/${patient}` },
+      period: { start, end },
+    });
+    const resources = [
+      { resourceType: 'Patient', id: 'p1', gender: 'female', birthDate: '1970-01-01' },
+      { resourceType: 'Patient', id: 'p2', gender: 'male', birthDate: '1980-01-01' },
+      encounter('enc-1', 'p1', 'finished', '2024-03-01T00:00:00Z', '2024-03-03T00:00:00Z'),
+      encounter('enc-2', 'p1', 'finished', '2024-05-01T00:00:00Z', '2024-05-05T00:00:00Z'),
+      encounter('enc-3', 'p2', 'finished', '2024-06-01T00:00:00Z', '2024-06-11T00:00:00Z'),
+      encounter('enc-4', 'p2', 'planned', '2024-09-01T00:00:00Z', '2024-09-02T00:00:00Z'),
+    ];
+    await pg.seed('length-of-stay', flattenBundle({
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: resources.map(resource => ({ resource: resource as unknown as FhirResource })),
+    }));
+
+    const groups: MeasureGroupDefinition[] = [
+      {
+        id: 'los',
+        scoring: 'continuous-variable',
+        populationBasis: 'Encounter',
+        populations: [
+          { code: 'initial-population', expression: 'Initial Population' },
+          { code: 'measure-population', expression: 'Measure Population' },
+          { code: 'measure-population-exclusion', expression: 'Measure Population Exclusion' },
+          { code: 'measure-observation', expression: 'Length of Stay', aggregateMethod: 'median' },
+        ],
+      },
+      {
+        id: 'excluded-share',
+        scoring: 'ratio',
+        populationBasis: 'Encounter',
+        populations: [
+          { code: 'initial-population', expression: 'Initial Population' },
+          { code: 'denominator', expression: 'Measure Population' },
+          { code: 'numerator', expression: 'Measure Population Exclusion' },
+        ],
+      },
+    ];
+    const result = new ElmToSqlTranspiler({ groups, subjectResults: true }).transpile(
+      lengthOfStayElm as unknown as ElmLibraryWrapper,
+    );
+    expect(result.warnings).toEqual([]);
+
+    const { rows } = await pg.execute(result.sql);
+    const counts = sqlRowToGroupCounts(result.groups, rows[0]);
+    expect(counts[0].populations.map(p => p.count)).toEqual([3, 3, 1]);
+    // enc-3 is excluded, leaving stays of 2 and 4 days.
+    expect(counts[0].observations[0]).toMatchObject({ value: 3, count: 2 });
+    expect(counts[1].populations.map(p => p.count)).toEqual([3, 3, 1]);
+
+    const report = generateMeasureReport({}, {
+      measureUrl: 'http://example.org/Measure/LengthOfStay',
+      periodStart: '2024-01-01',
+      periodEnd: '2024-12-31',
+      groups: counts,
+    });
+    expect(report.group?.map(g => g.measureScore?.value)).toEqual([3, 0.3333]);
+
+    const perPatient = await pg.execute(result.subjectSql!);
+    const subjects = sqlRowsToSubjects(perPatient.rows, result.groups);
+    expect(subjects.map(s => [s.subject, ...s.groups[0].populations.map(p => p.count)])).toEqual([
+      ['p1', 2, 2, 0],
+      ['p2', 1, 1, 1],
+    ]);
+    expect(subjects.map(s => s.groups[0].observations[0])).toMatchObject([
+      { value: 3, count: 2 },
+      { value: null, count: 0 },
+    ]);
+  }, 60_000);
+});
+
+describe('per-patient results run on PGlite', () => {
+  it('lists the patients counted in each population', async () => {
+    const pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    const c = CASES[0];
+    await pg.seed('subjects', flattenBundle(bundleFor(c)));
+
+    const { sql, subjectSql, warnings } = new ElmToSqlTranspiler({
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+      subjectResults: true,
+    }).transpile(existsElm(c.resourceType));
+    expect(warnings).toEqual([]);
+
+    const { rows } = await pg.execute(subjectSql!);
+    expect(rows).toEqual([
+      { patient_id: 'has-match', initial_population_count: 1 },
+      { patient_id: 'has-none', initial_population_count: 0 },
+      { patient_id: 'has-other', initial_population_count: 0 },
+    ]);
+
+    const summary = await pg.execute(sql);
+    const counts = sqlRowToPopulationCounts(summary.rows[0]);
+    const report = generateSubjectListMeasureReport(counts, sqlRowsToSubjects(rows), {
+      measureUrl: 'http://example.org/Measure/Exists',
+      periodStart: '2024-01-01',
+      periodEnd: '2024-12-31',
+    });
+    const [list] = report.contained ?? [];
+    expect(list).toMatchObject({
+      resourceType: 'List',
+      entry: [{ item: { reference: 'Patient/has-match' } }],
+    });
+  }, 60_000);
+});
+
+describe('list and interval operators run on PGlite', () => {
+  const int = (value: number) => ({
+    type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}Integer', value: String(value),
+  });
+  const str = (value: string) => ({ type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}String', value });
+  const interval = (low: string, high: string) => ({ type: 'Interval', low: str(low), high: str(high) });
+  const list = (...element: unknown[]) => ({ type: 'List', element });
+  const equal = (left: unknown, right: unknown) => ({ type: 'Equal', operand: [left, right] });
+
+  it('evaluates collapse, expand, index, median, aggregate and matches per patient', async () => {
+    const pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    await pg.seed('operators', flattenBundle(bundleFor(CASES[0])));
+
+    const checks = [
+      { type: 'Matches', operand: [{ type: 'Property', path: 'gender', scope: 'Patient' }, str('fem.*')] },
+      equal(
+        {
+          type: 'Count',
+          source: {
+            type: 'Collapse',
+            operand: [
+              list(interval('2024-01-01', '2024-01-05'), interval('2024-01-03', '2024-01-10'),
+                interval('2024-02-01', '2024-02-02')),
+              { type: 'Null' },
+            ],
+          },
+        },
+        int(2),
+      ),
+      equal(
+        {
+          type: 'Count',
+          source: { type: 'Expand', operand: [list(interval('2024-01-01', '2024-01-03')), { type: 'Null' }] },
+        },
+        int(3),
+      ),
+      equal(
+        {
+          type: 'IndexOf',
+          source: { type: 'Split', stringToSplit: str('a,b,c'), separator: str(',') },
+          element: str('c'),
+        },
+        int(2),
+      ),
+      equal({ type: 'Median', source: list(int(1), int(2), int(10)) }, int(2)),
+      equal(
+        {
+          type: 'Query',
+          source: [{ alias: 'P', expression: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Patient' } }],
+          aggregate: {
+            identifier: 'N',
+            starting: int(0),
+            expression: { type: 'Add', operand: [{ type: 'QueryLetRef', name: 'N' }, int(1)] },
+          },
+        },
+        int(3),
+      ),
+    ];
+    const library = {
+      library: {
+        identifier: { id: 'Operators', version: '0.0.1' },
+        schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+        statements: {
+          def: [
+            {
+              name: 'Patient', context: 'Patient',
+              expression: {
+                type: 'SingletonFrom',
+                operand: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Patient' },
+              },
+            },
+            { name: 'Initial Population', context: 'Patient', expression: { type: 'And', operand: checks } },
+          ],
+        },
+      },
+    } as unknown as ElmLibraryWrapper;
+
+    const { sql, warnings } = new ElmToSqlTranspiler({
+      measurementPeriodStart: '2024-01-01T00:00:00Z',
+      measurementPeriodEnd: '2024-12-31T23:59:59Z',
+    }).transpile(library);
+    expect(warnings).toEqual([]);
+
+    const { rows } = await pg.execute(sql);
+    expect(sqlRowToPopulationCounts(rows[0])['Initial Population']).toBe(2);
+  }, 60_000);
+});
+
+describe('included library defines run on PGlite', () => {
+  it('evaluates defines and value sets of an included library per patient', async () => {
+    const pg = new SqlOnFhirPgliteService();
+    pg.reset();
+    await pg.seed('included', flattenBundle(bundleFor(CASES[0])));
+
+    const common = {
+      library: {
+        identifier: { id: 'Common', version: '1.0.0' },
+        schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+        valueSets: { def: [{ name: 'Test Codes', id: VS_URL }] },
+        statements: {
+          def: [
+            {
+              name: 'Matching Requests', context: 'Patient',
+              expression: {
+                type: 'Retrieve',
+                dataType: '{http://hl7.org/fhir}MedicationRequest',
+                codes: { type: 'ValueSetRef', name: 'Test Codes' },
+              },
+            },
+            {
+              name: 'Is Female', context: 'Patient',
+              expression: {
+                type: 'Equal',
+                operand: [
+                  { type: 'Property', path: 'gender', scope: 'Patient' },
+                  { type: 'Literal', valueType: '{urn:hl7-org:elm-types:r1}String', value: 'female' },
+                ],
+              },
+            },
+          ],
+        },
+      },
+    } as unknown as ElmLibraryWrapper;
+    const library = {
+      library: {
+        identifier: { id: 'UsesCommon', version: '0.0.1' },
+        schemaIdentifier: { id: 'urn:hl7-org:elm', version: 'r1' },
+        includes: { def: [{ localIdentifier: 'C', path: 'Common', version: '1.0.0' }] },
+        statements: {
+          def: [
+            {
+              name: 'Patient', context: 'Patient',
+              expression: { type: 'SingletonFrom', operand: { type: 'Retrieve', dataType: '{http://hl7.org/fhir}Patient' } },
+            },
+            {
+              name: 'Initial Population', context: 'Patient',
+              expression: { type: 'ExpressionRef', libraryName: 'C', name: 'Is Female' },
+            },
+            {
+              name: 'Numerator', context: 'Patient',
+              expression: {
+                type: 'Exists',
+                operand: { type: 'ExpressionRef', libraryName: 'C', name: 'Matching Requests' },
+              },
+            },
+          ],
+        },
+      },
+    } as unknown as ElmLibraryWrapper;
+
+    const { sql, warnings, includedValueSets } = new ElmToSqlTranspiler({
+      libraryResolver: include => (include.path === 'Common' ? common : null),
+    }).transpile(library);
+    expect(warnings).toEqual([]);
+    expect(includedValueSets).toEqual([{ name: 'Test Codes', url: VS_URL }]);
+
+    const { rows } = await pg.execute(sql);
+    const counts = sqlRowToPopulationCounts(rows[0]);
+    expect(counts['Initial Population']).toBe(2);
+    expect(counts['Numerator']).toBe(1);
+  }, 60_000);
+});
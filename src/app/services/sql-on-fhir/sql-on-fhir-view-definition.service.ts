@@ -0,0 +1,116 @@
+// Author: Preston Lee
+//
+// User-defined ViewDefinitions for the SQL on FHIR workspace: load and save
+// them on the content endpoint, import them from files, and keep the session
+// registry of views materialised as extra PGlite tables.
+
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { HttpHeaders } from '@angular/common/http';
+import type { Bundle } from 'fhir/r4';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import type { ViewDefinition } from '../../components/sql-on-fhir/elm-to-sql';
+import { BaseService } from '../base.service';
+import { SettingsService } from '../settings.service';
+import { buildHttpHeaders } from '../endpoint-config.lib';
+import {
+  customViewMappingProblem,
+  customViewResourceMappings,
+  parseViewDefinitionJson,
+  validateViewDefinition,
+  viewDefinitionsFromBundle,
+  type CustomViewRegistration,
+} from './sql-on-fhir-custom-views.lib';
+
+@Injectable({ providedIn: 'root' })
+export class SqlOnFhirViewDefinitionService extends BaseService {
+  public static readonly VIEW_DEFINITION_PATH = '/ViewDefinition';
+
+  protected settingsService = inject(SettingsService);
+
+  private readonly registrationsState = signal<CustomViewRegistration[]>([]);
+
+  /** Views registered this session, in registration order. */
+  readonly registrations = this.registrationsState.asReadonly();
+
+  /** Transpiler `resourceViews` derived from the registrations that map retrieves. */
+  readonly resourceViews = computed(() => customViewResourceMappings(this.registrationsState()));
+
+  /** Resource types whose retrieves are served by a registered view. */
+  readonly mappedResourceTypes = computed(() => Object.keys(this.resourceViews()).sort());
+
+  private contentHeaders(): HttpHeaders {
+    const ctx = this.settingsService.getEndpointHttpContext('content', {
+      'Content-Type': 'application/fhir+json',
+      Accept: 'application/fhir+json',
+    });
+    return buildHttpHeaders(
+      { ...this.settingsService.getActiveEnvironment().contentEndpoint, address: ctx.address },
+      ctx.headers,
+    );
+  }
+
+  url(): string {
+    const base = this.settingsService.getEffectiveContentEndpointAddress();
+    return base + SqlOnFhirViewDefinitionService.VIEW_DEFINITION_PATH;
+  }
+
+  urlFor(id: string): string {
+    return `${this.url()}/${encodeURIComponent(id)}`;
+  }
+
+  /** ViewDefinitions on the content endpoint whose name contains `term` (all when blank). */
+  search(term: string): Observable<ViewDefinition[]> {
+    const params = new URLSearchParams();
+    params.set('_count', '50');
+    const trimmed = term.trim();
+    if (trimmed) {
+      params.set('name:contains', trimmed);
+    }
+    return this.http
+      .get<Bundle>(`${this.url()}?${params.toString()}`, { headers: this.contentHeaders() })
+      .pipe(map(bundle => viewDefinitionsFromBundle(bundle)));
+  }
+
+  get(id: string): Observable<ViewDefinition> {
+    return this.http
+      .get<unknown>(this.urlFor(id), { headers: this.contentHeaders() })
+      .pipe(map(resource => validateViewDefinition(resource)));
+  }
+
+  /** Update in place when the view carries a server id, otherwise create it. */
+  save(vd: ViewDefinition): Observable<ViewDefinition> {
+    const body = JSON.stringify(vd);
+    const request = vd.id
+      ? this.http.put<unknown>(this.urlFor(vd.id), body, { headers: this.contentHeaders() })
+      : this.http.post<unknown>(this.url(), body, { headers: this.contentHeaders() });
+    return request.pipe(map(resource => validateViewDefinition(resource)));
+  }
+
+  /** Read and validate a ViewDefinition JSON file chosen by the user. */
+  async readFile(file: File): Promise<ViewDefinition> {
+    return parseViewDefinitionJson(await file.text());
+  }
+
+  /**
+   * Add or replace (by name) a registered view. Throws when the view is asked
+   * to serve retrieves but lacks the columns the transpiler correlates on.
+   */
+  register(registration: CustomViewRegistration): void {
+    if (registration.mapRetrieves) {
+      const problem = customViewMappingProblem(registration.viewDefinition, registration.codeColumn);
+      if (problem) {
+        throw new Error(problem);
+      }
+    }
+    const name = registration.viewDefinition.name;
+    this.registrationsState.update(list => [
+      ...list.filter(r => r.viewDefinition.name !== name),
+      registration,
+    ]);
+  }
+
+  unregister(name: string): void {
+    this.registrationsState.update(list => list.filter(r => r.viewDefinition.name !== name));
+  }
+}
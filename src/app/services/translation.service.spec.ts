@@ -1,22 +1,13 @@
 // Author: Preston Lee
 
 import '@angular/compiler';
-// @ts-expect-error No type definitions available for @lhncbc/ucum-lhc
-import * as ucum from '@lhncbc/ucum-lhc';
 import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { describe, expect, it, beforeEach } from 'vitest';
-import {
-  ModelManager,
-  LibraryManager,
-  CqlTranslator,
-  createModelInfoProvider,
-  createLibrarySourceProvider,
-  createUcumService,
-  stringAsSource
-} from '@cqframework/cql/cql-to-elm';
 import { CqlLibrarySourceService } from './cql-library-source.service';
+import { CqlTranslationEngine } from './cql-translation-engine.lib';
 import { ElmIncludeParser } from './elm-include.lib';
+import { ModelInfoRegistryService } from './model-info-registry.service';
 import { TranslationService } from './translation.service';
 
 const cqlDir = join(process.cwd(), 'public/cql');
@@ -42,81 +33,52 @@ function cacheKey(path: string, version: string): string {
   return `|${path}|${version}`;
 }
 
-function translateErrors(libraryManager: LibraryManager, cql: string): string[] {
-  const translator = CqlTranslator.fromText(cql, libraryManager);
-  return (translator.errors?.asJsReadonlyArrayView() ?? [])
-    .filter((error): error is NonNullable<typeof error> => error != null)
-    .map(error => error.message ?? '');
+function translateErrors(engine: CqlTranslationEngine, cql: string): string[] {
+  return engine.translate(cql).errors.map(error => error.message ?? '');
 }
 
 describe('TranslationService included library cache invalidation', () => {
   let service: TranslationService;
-  let libraryManager: LibraryManager;
+  let engine: CqlTranslationEngine;
   let librarySourceService: CqlLibrarySourceService;
   let cqlCache: Map<string, string>;
 
   beforeEach(() => {
     cqlCache = new Map([[cacheKey('HelloCommon', '0.0.0'), helloCommonV1]]);
 
-    const modelManager = new ModelManager(undefined, true);
-    modelManager.modelInfoLoader.registerModelInfoProvider(
-      createModelInfoProvider((id, system, version) => {
-        if (id === 'System' && !system && !version) {
-          return stringAsSource(systemModelInfo);
-        }
-        if (id === 'FHIR' && !system && version === '4.0.1') {
-          return stringAsSource(fhirModelInfo);
-        }
-        return null;
-      }),
-      true
-    );
-
-    const ucumUtils = ucum.UcumLhcUtils.getInstance();
-    libraryManager = new LibraryManager(
-      modelManager,
-      undefined,
-      undefined,
-      createUcumService(
-        () => {
-          throw new Error('Unsupported operation');
-        },
-        unit => (ucumUtils.validateUnitString(unit).status === 'valid' ? null : unit)
-      )
-    );
-    libraryManager.librarySourceLoader.registerProvider(
-      createLibrarySourceProvider((id, system, version) => {
-        if (id === 'FHIRHelpers' && !system && version === '4.0.1') {
-          return stringAsSource(fhirHelpers);
-        }
-        const cached = cqlCache.get(cacheKey(id, version ?? ''));
-        return cached ? stringAsSource(cached) : null;
-      })
-    );
-
     librarySourceService = Object.create(CqlLibrarySourceService.prototype) as CqlLibrarySourceService & {
       cqlCache: Map<string, string>;
+      elmCache: Map<string, string>;
       elmIncludeParser: ElmIncludeParser;
     };
     librarySourceService.cqlCache = cqlCache;
+    librarySourceService.elmCache = new Map();
     librarySourceService.elmIncludeParser = new ElmIncludeParser();
 
+    const modelInfoRegistry = new ModelInfoRegistryService();
+    modelInfoRegistry.registerModelInfo(fhirModelInfo, 'bundled', '/cql/fhir-modelinfo-4.0.1.xml', [
+      { name: 'FHIRHelpers', version: '4.0.1', cql: fhirHelpers }
+    ]);
+    engine = new CqlTranslationEngine((id, system, version) => librarySourceService.getCachedCql(id, system, version));
+    engine.setSystemModelInfo(systemModelInfo);
+    engine.setModelInfo(modelInfoRegistry.entries());
+
     service = Object.create(TranslationService.prototype) as TranslationService & {
-      libraryManager: LibraryManager;
+      engine: CqlTranslationEngine;
       librarySourceService: CqlLibrarySourceService;
     };
-    service.libraryManager = libraryManager;
+    service.engine = engine;
     service.librarySourceService = librarySourceService;
   });
 
   it('recompiles included libraries after invalidateIncludedLibraryCache', () => {
-    expect(translateErrors(libraryManager, helloWorld)).toEqual([]);
+    expect(translateErrors(engine, helloWorld)).toEqual([]);
 
     cqlCache.set(cacheKey('HelloCommon', '0.0.0'), helloCommonV2);
-    expect(translateErrors(libraryManager, helloWorld)).toEqual([]);
+    expect(translateErrors(engine, helloWorld)).toEqual([]);
 
     service.invalidateIncludedLibraryCache('HelloCommon', '0.0.0', null, helloCommonV2);
-    expect(translateErrors(libraryManager, helloWorld)).toEqual([
+    expect(translateErrors(engine, helloWorld)).toEqual([
       'Could not resolve call to operator MagicNumber with signature ().'
     ]);
   });
@@ -125,4 +87,25 @@ describe('TranslationService included library cache invalidation', () => {
     service.invalidateIncludedLibraryCache('HelloCommon', '0.0.0', null, helloCommonV2);
     expect(librarySourceService.getCachedCql('HelloCommon', null, '0.0.0')).toBe(helloCommonV2);
   });
+
+  it('translates with the options of the requested profile', () => {
+    const cql = `library Arithmetic version '1.0.0'
+define Sum: 1 + 2`;
+    const annotated = engine.translate(cql, undefined, {
+      options: ['EnableAnnotations', 'EnableLocators'],
+      signatureLevel: 'Overloads',
+      compatibilityLevel: '1.5'
+    });
+    const bare = engine.translate(cql, undefined, {
+      options: [],
+      signatureLevel: 'None',
+      compatibilityLevel: '1.5'
+    });
+
+    expect(annotated.elmXml).toContain('translatorOptions="EnableAnnotations,EnableLocators" signatureLevel="Overloads"');
+    expect(annotated.elmXml).toContain('xsi:type="a:Annotation"');
+    expect(bare.errors).toEqual([]);
+    expect(bare.elmXml).toContain('translatorOptions="" signatureLevel="None"');
+    expect(bare.elmXml).not.toContain('xsi:type="a:Annotation"');
+  });
 });
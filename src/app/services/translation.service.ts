@@ -1,35 +1,25 @@
 // Author: Preston Lee
 
 import { Injectable, inject } from '@angular/core';
-// @ts-expect-error No type definitions available for @lhncbc/ucum-lhc
-import * as ucum from '@lhncbc/ucum-lhc';
-import { 
-  ModelManager, 
-  LibraryManager, 
-  CqlTranslator, 
-  CqlCompilerException,
-  createModelInfoProvider,
-  createLibrarySourceProvider,
-  createUcumService,
-  stringAsSource
-} from '@cqframework/cql/cql-to-elm';
+import { CqlCompilerException } from '@cqframework/cql/cql-to-elm';
 import { CqlLocatorUtilsService } from './cql-locator-utils.service';
 import { CqlLibrarySourceService, LibraryTranslationContext } from './cql-library-source.service';
+import { CqlTranslationEngine, RawTranslationResult } from './cql-translation-engine.lib';
+import {
+  CqlTranslationWorkerClient,
+  CqlTranslationWorkerResponse,
+  TranslationCancelledError,
+  TranslationRequestOptions
+} from './cql-translation-worker.lib';
 import { ElmIncludeParser } from './elm-include.lib';
+import { ModelInfoSelection, readLibraryHeader } from './model-info-registry.lib';
+import { ModelInfoRegistryService } from './model-info-registry.service';
+import { SettingsService } from './settings.service';
+import type { TranslatorOptions, TranslatorOptionsProfile } from '../models/translator-options.model';
 
 export type { LibraryTranslationContext } from './cql-library-source.service';
-
-/**
- * `CqlTranslator.toJson()` exists at runtime and in the package's
- * `kotlin/cql-to-elm.d.ts`, but the `@cqframework/cql/cql-to-elm` subpath export
- * ships only `.mjs` with no paired `types` entry, so the method isn't visible
- * to consumers under bundler module resolution. Until that's fixed upstream
- * (https://github.com/cqframework/clinical_quality_language/issues/1768) we
- * narrow the translator through this minimal interface rather than a bare cast.
- */
-interface ElmJsonEmitter {
-  toJson(): string;
-}
+export type { RawTranslationResult } from './cql-translation-engine.lib';
+export { TranslationCancelledError, type TranslationRequestOptions } from './cql-translation-worker.lib';
 
 export interface TranslationResult {
   elmXml: string | null;
@@ -38,36 +28,40 @@ export interface TranslationResult {
   warnings: string[];
   messages: string[];
   hasErrors: boolean;
+  /** Translator options profile the ELM was produced with. */
+  translatorProfile: TranslatorOptionsProfile;
 }
 
-export interface RawTranslationResult {
-  elmXml: string | null;
-  elmJson: string | null;
-  errors: CqlCompilerException[];
-  warnings: CqlCompilerException[];
-  messages: CqlCompilerException[];
-  hasErrors: boolean;
+/** One model info in the bundled asset manifest, with the helper libraries that ship with it. */
+interface BundledModelInfoAsset {
+  modelInfo: string;
+  helpers?: string[];
 }
 
 @Injectable({
   providedIn: 'root'
 })
 export class TranslationService {
-  private modelManager: ModelManager;
-  private libraryManager: LibraryManager;
   private locatorUtils = inject(CqlLocatorUtilsService);
   private librarySourceService = inject(CqlLibrarySourceService);
   private elmIncludeParser = inject(ElmIncludeParser);
+  private modelInfoRegistry = inject(ModelInfoRegistryService);
+  private settingsService = inject(SettingsService);
   
-  // Hardcoded FHIR version - not configurable
-  private readonly FHIR_VERSION = '4.0.1';
+  private readonly SYSTEM_MODEL_INFO_PATH = '/cql/system-modelinfo.xml';
+  private readonly BUNDLED_MODEL_INFO_MANIFEST = '/cql/model-info.json';
   private readonly MAX_INCLUDE_RESOLVE_ITERATIONS = 5;
 
-  private modelInfoCache = new Map<string, string>();
-  private librarySourceCache = new Map<string, string>();
+  private systemModelInfoXml: string | null = null;
   private translationAssetsLoaded = false;
   private translationAssetsLoadPromise: Promise<void> | null = null;
 
+  /** Main-thread translator for synchronous callers, and the fallback when workers are unavailable. */
+  private engine: CqlTranslationEngine | null = null;
+  private engineModelInfoRevision = -1;
+  private worker: Worker | null = null;
+  private workerClient: CqlTranslationWorkerClient | null = null;
+
   private async fetchTextResource(path: string): Promise<string> {
     const response = await fetch(path);
     if (!response.ok) {
@@ -78,148 +72,179 @@ export class TranslationService {
 
   /**
    * Preload translation assets asynchronously to avoid blocking the UI thread.
-   * Providers registered with @cqframework/cql are synchronous, so we cache the
-   * fetched text and serve from memory synchronously during translation.
+   * Providers registered with @cqframework/cql are synchronous, so the System
+   * model info is cached here and the bundled model infos listed in
+   * `/cql/model-info.json` are registered with the model info registry.
    */
   async ensureTranslationAssetsLoaded(): Promise<void> {
     if (this.translationAssetsLoaded) return;
     if (this.translationAssetsLoadPromise) return this.translationAssetsLoadPromise;
 
     this.translationAssetsLoadPromise = Promise.all([
-      this.fetchTextResource('/cql/system-modelinfo.xml').then(text => {
-        this.modelInfoCache.set('/cql/system-modelinfo.xml', text);
+      this.fetchTextResource(this.SYSTEM_MODEL_INFO_PATH).then(text => {
+        this.systemModelInfoXml = text;
       }),
-      this.fetchTextResource(`/cql/fhir-modelinfo-${this.FHIR_VERSION}.xml`).then(text => {
-        this.modelInfoCache.set(`/cql/fhir-modelinfo-${this.FHIR_VERSION}.xml`, text);
-      }),
-      this.fetchTextResource(`/cql/FHIRHelpers-${this.FHIR_VERSION}.cql`).then(text => {
-        this.librarySourceCache.set(`/cql/FHIRHelpers-${this.FHIR_VERSION}.cql`, text);
-      })
+      this.loadBundledModelInfo()
     ]).then(() => {
       this.translationAssetsLoaded = true;
+      this.startWorker();
     });
 
     return this.translationAssetsLoadPromise;
   }
 
-  constructor() {
-    // Create ModelManager with default model info loading enabled
-    this.modelManager = new ModelManager(undefined, true);
-    
-    // Create UCUM service for unit validation (same pattern as cql-to-elm-ui)
-    const ucumUtils = ucum.UcumLhcUtils.getInstance();
-    const validateUnit = (unit: string): string | null => {
-      const result = ucumUtils.validateUnitString(unit);
-      if (result.status === 'valid') {
-        return null;
-      } else {
-        return result.msg[0];
-      }
-    };
-    const ucumService = createUcumService(
-      () => {
-        throw new Error('Unsupported operation');
-      },
-      validateUnit
-    );
-    
-    // Register model info provider for System and FHIR models
-    const modelInfoProvider = createModelInfoProvider(
-      (id: string, system: string | null | undefined, version: string | null | undefined) => {
-        // System model
-        if (id === 'System' && !system && !version) {
-          const xml = this.modelInfoCache.get('/cql/system-modelinfo.xml');
-          return xml ? stringAsSource(xml) : null;
-        }
-        
-        // FHIR model - only support 4.0.1
-        if (id === 'FHIR' && !system && version === this.FHIR_VERSION) {
-          const xml = this.modelInfoCache.get(`/cql/fhir-modelinfo-${this.FHIR_VERSION}.xml`);
-          return xml ? stringAsSource(xml) : null;
-        }
-        
-        // Reject other FHIR versions
-        if (id === 'FHIR' && version !== this.FHIR_VERSION) {
-          console.warn(`FHIR version ${version} is not supported. Only ${this.FHIR_VERSION} is supported.`);
-          return null;
-        }
-        
-        return null;
-      }
-    );
-    
-    this.modelManager.modelInfoLoader.registerModelInfoProvider(modelInfoProvider, true);
-    
-    // Create LibraryManager with the ModelManager and UCUM service
-    this.libraryManager = new LibraryManager(this.modelManager, undefined, undefined, ucumService);
-    
-    // Register library source provider for common libraries like FHIRHelpers
-    const librarySourceProvider = createLibrarySourceProvider(
-      (id: string, system: string | null | undefined, version: string | null | undefined) => {
-        // FHIRHelpers library - only support 4.0.1
-        if (id === 'FHIRHelpers' && !system && version === this.FHIR_VERSION) {
-          const cql = this.librarySourceCache.get(`/cql/FHIRHelpers-${this.FHIR_VERSION}.cql`);
-          return cql ? stringAsSource(cql) : null;
-        }
-        
-        // Reject other FHIRHelpers versions
-        if (id === 'FHIRHelpers' && version !== this.FHIR_VERSION) {
-          console.warn(`FHIRHelpers version ${version} is not supported. Only ${this.FHIR_VERSION} is supported.`);
-          return null;
-        }
-
-        const cachedCql = this.librarySourceService.getCachedCql(id, system, version);
-        return cachedCql ? stringAsSource(cachedCql) : null;
-      }
+  private async loadBundledModelInfo(): Promise<void> {
+    const manifest = JSON.parse(await this.fetchTextResource(this.BUNDLED_MODEL_INFO_MANIFEST)) as BundledModelInfoAsset[];
+    await Promise.all(
+      manifest.map(async asset => {
+        const [xml, ...helperSources] = await Promise.all([
+          this.fetchTextResource(asset.modelInfo),
+          ...(asset.helpers ?? []).map(path => this.fetchTextResource(path))
+        ]);
+        const helpers = helperSources
+          .map(cql => {
+            const header = readLibraryHeader(cql);
+            return header ? { ...header, cql } : null;
+          })
+          .filter(helper => helper !== null);
+        this.modelInfoRegistry.registerModelInfo(xml, 'bundled', asset.modelInfo, helpers);
+      })
     );
-    
-    this.libraryManager.librarySourceLoader.registerProvider(librarySourceProvider);
+  }
 
+  constructor() {
     // Begin loading translation assets immediately to minimize latency.
     // Callers that need translation should still await ensureTranslationAssetsLoaded().
     void this.ensureTranslationAssetsLoaded();
   }
 
-  // Translation assets are loaded via ensureTranslationAssetsLoaded() and cached.
-
   /**
-   * Translate CQL to ELM, prefetching included libraries from the FHIR server first.
-   * Discovers dependencies from stored ELM and compiler output ELM (not CQL text).
+   * Start the translation worker, so lint passes and ELM generation don't block
+   * the editor, and warm it with the default model and its helper libraries.
+   * Without worker support everything translates on the main thread.
    */
-  async translateCqlToElmAsync(cql: string, context?: LibraryTranslationContext): Promise<TranslationResult> {
-    await this.ensureTranslationAssetsLoaded();
+  private startWorker(): void {
+    if (this.workerClient || typeof Worker === 'undefined' || !this.systemModelInfoXml) {
+      return;
+    }
+    try {
+      this.worker = new Worker(new URL('./cql-translation.worker', import.meta.url), { type: 'module' });
+    } catch (error) {
+      console.warn('Translation worker could not start; translating on the main thread.', error);
+      return;
+    }
+    const client = new CqlTranslationWorkerClient(
+      request => this.worker?.postMessage(request),
+      () => ({
+        modelInfoRevision: this.modelInfoRegistry.revision(),
+        modelInfo: () => this.modelInfoRegistry.entries(),
+        librarySources: () => this.librarySourceService.cachedCqlSources()
+      })
+    );
+    this.worker.onmessage = ({ data }: MessageEvent<CqlTranslationWorkerResponse>) => client.handleResponse(data);
+    this.worker.onerror = event => {
+      console.warn('Translation worker failed; translating on the main thread.', event.message);
+      event.preventDefault();
+      this.worker?.terminate();
+      this.worker = null;
+      this.workerClient = null;
+      client.fail(new Error(event.message || 'Translation worker failed.'));
+    };
+    client.init(this.systemModelInfoXml);
+    this.workerClient = client;
+
+    const warmup = this.modelInfoRegistry.entries().find(entry => entry.source === 'bundled');
+    if (warmup) {
+      const cql = [
+        'library TranslationWarmup',
+        `using ${warmup.name} version '${warmup.version}'`,
+        ...warmup.helpers.map(helper => `include ${helper.name}${helper.version ? ` version '${helper.version}'` : ''}`)
+      ].join('\n');
+      client.translate(cql, undefined, this.settingsService.activeTranslatorProfile(), { key: 'warmup' }).catch(() => undefined);
+    }
+  }
 
-    if (context?.fhirLibraryId && !context.isDirty) {
-      try {
-        await this.librarySourceService.prefetchFromStoredLibrary(context.fhirLibraryId);
-      } catch (error) {
-        console.warn('Failed to prefetch library includes from stored ELM:', error);
+  /** The main-thread translator, kept in step with the model info registry. */
+  private inProcessEngine(): CqlTranslationEngine {
+    if (!this.engine) {
+      this.engine = new CqlTranslationEngine((id, system, version) =>
+        this.librarySourceService.getCachedCql(id, system, version)
+      );
+      if (this.systemModelInfoXml) {
+        this.engine.setSystemModelInfo(this.systemModelInfoXml);
       }
     }
+    const revision = this.modelInfoRegistry.revision();
+    if (revision !== this.engineModelInfoRevision) {
+      this.engine.setModelInfo(this.modelInfoRegistry.entries());
+      this.engineModelInfoRevision = revision;
+    }
+    return this.engine;
+  }
 
-    let result = this.translateCqlToElm(cql);
-
-    for (let iteration = 0; iteration < this.MAX_INCLUDE_RESOLVE_ITERATIONS; iteration++) {
-      const missingRefs = this.getUncachedFhirIncludesFromElm(result.elmXml);
-      if (missingRefs.length === 0) {
-        break;
+  /**
+   * One translation off the main thread. Superseded and aborted requests
+   * reject with TranslationCancelledError; if the worker itself fails, the
+   * request is retried on the main thread.
+   */
+  private async translateRawInWorker(
+    cql: string,
+    selection: ModelInfoSelection | undefined,
+    translatorOptions: TranslatorOptions,
+    options: TranslationRequestOptions
+  ): Promise<RawTranslationResult> {
+    const client = this.workerClient;
+    if (!client) {
+      return this.translateCqlToElmRaw(cql, selection, translatorOptions);
+    }
+    try {
+      return await client.translate(cql, selection, translatorOptions, options);
+    } catch (error) {
+      if (error instanceof TranslationCancelledError) {
+        throw error;
       }
+      console.warn('Translation worker request failed; translating on the main thread.', error);
+      return this.translateCqlToElmRaw(cql, selection, translatorOptions);
+    }
+  }
 
-      const fetchedAny = await this.librarySourceService.fetchMissingIncludes(missingRefs);
-      if (!fetchedAny) {
-        break;
-      }
+  // Translation assets are loaded via ensureTranslationAssetsLoaded() and cached.
 
-      result = this.translateCqlToElm(cql);
-    }
+  /** Model info XML documents the translator can load (System and every registered model). */
+  getLoadedModelInfoXml(): string[] {
+    const registered = this.modelInfoRegistry.entries().map(entry => entry.xml);
+    return this.systemModelInfoXml ? [this.systemModelInfoXml, ...registered] : registered;
+  }
 
-    return result;
+  /** Source of a helper library registered with a model, such as FHIRHelpers, or null. */
+  getBundledLibrarySource(id: string, version: string | null | undefined): string | null {
+    return this.modelInfoRegistry.helperSource(id, version);
+  }
+
+  /**
+   * Translate CQL to ELM, prefetching included libraries from the FHIR server first.
+   * Discovers dependencies from stored ELM and compiler output ELM (not CQL text).
+   */
+  async translateCqlToElmAsync(
+    cql: string,
+    context?: LibraryTranslationContext,
+    options: TranslationRequestOptions = {}
+  ): Promise<TranslationResult> {
+    const translatorProfile = this.translatorProfileFor(context);
+    const raw = await this.translateCqlToElmRawAsync(cql, { ...context, translatorProfile }, options);
+    return this.formatRawResult(raw, translatorProfile);
   }
 
   /**
    * Translate CQL to ELM and return raw exceptions, prefetching FHIR library includes first.
+   * Translation runs in the worker; `options` debounce and supersede requests, and only the
+   * first pass is debounced when missing includes are fetched and the library retranslated.
    */
-  async translateCqlToElmRawAsync(cql: string, context?: LibraryTranslationContext): Promise<RawTranslationResult> {
+  async translateCqlToElmRawAsync(
+    cql: string,
+    context?: LibraryTranslationContext,
+    options: TranslationRequestOptions = {}
+  ): Promise<RawTranslationResult> {
     await this.ensureTranslationAssetsLoaded();
 
     if (context?.fhirLibraryId && !context.isDirty) {
@@ -230,7 +255,9 @@ export class TranslationService {
       }
     }
 
-    let result = this.translateCqlToElmRaw(cql);
+    const translatorProfile = this.translatorProfileFor(context);
+    let result = await this.translateRawInWorker(cql, context?.modelInfo, translatorProfile, options);
+    const retranslateOptions = { key: options.key, signal: options.signal };
 
     for (let iteration = 0; iteration < this.MAX_INCLUDE_RESOLVE_ITERATIONS; iteration++) {
       const missingRefs = this.getUncachedFhirIncludesFromElm(result.elmXml);
@@ -243,7 +270,7 @@ export class TranslationService {
         break;
       }
 
-      result = this.translateCqlToElmRaw(cql);
+      result = await this.translateRawInWorker(cql, context?.modelInfo, translatorProfile, retranslateOptions);
     }
 
     return result;
@@ -252,7 +279,8 @@ export class TranslationService {
   /**
    * Drop cached CQL and compiled ELM for included libraries saved on the FHIR server.
    * The CQL source cache and LibraryManager.compiledLibraries must both be cleared:
-   * refreshing CQL alone leaves stale function signatures in compiledLibraries.
+   * refreshing CQL alone leaves stale function signatures in compiledLibraries. The
+   * worker sees the changed sources with its next request and clears its own.
    */
   invalidateIncludedLibraryCache(
     path?: string,
@@ -264,20 +292,7 @@ export class TranslationService {
     if (path && cqlContent?.trim()) {
       this.librarySourceService.setCachedCql(path, system, version, cqlContent);
     }
-    this.invalidateCompiledUserLibraries();
-  }
-
-  private invalidateCompiledUserLibraries(): void {
-    const mapView = this.libraryManager.compiledLibraries?.asJsMapView?.();
-    if (!mapView) {
-      return;
-    }
-
-    for (const key of [...mapView.keys()]) {
-      if (key.c8i_1 !== 'FHIRHelpers') {
-        mapView.delete(key);
-      }
-    }
+    this.engine?.invalidateCompiledLibraries();
   }
 
   private getUncachedFhirIncludesFromElm(elmXml: string | null) {
@@ -290,142 +305,53 @@ export class TranslationService {
   }
 
   /**
-   * Translate CQL to ELM using the @cqframework/cql library.
-   * Requires included libraries to already be present in the FHIR library source cache.
+   * Translate CQL to ELM on the main thread, loading models per the library's model
+   * info selection (the registry's defaults when omitted) with the active translator
+   * profile. Prefer translateCqlToElmAsync, which runs in the worker. Requires included
+   * libraries to already be present in the FHIR library source cache.
    */
-  translateCqlToElm(cql: string): TranslationResult {
-    try {
-      if (!this.translationAssetsLoaded) {
-        return {
-          elmXml: null,
-          elmJson: null,
-          errors: ['Translation assets are still loading. Please try again in a moment.'],
-          warnings: [],
-          messages: [],
-          hasErrors: true
-        };
-      }
-
-      const translator = CqlTranslator.fromText(cql, this.libraryManager);
-
-      // Extract errors, warnings, and messages
-      const errors = translator.errors?.asJsReadonlyArrayView() || [];
-      const warnings = translator.warnings?.asJsReadonlyArrayView() || [];
-      const messages = translator.messages?.asJsReadonlyArrayView() || [];
-
-      // Format exception messages
-      const errorMessages = errors
-        .filter((e: CqlCompilerException | null | undefined): e is CqlCompilerException => e != null)
-        .map((e: CqlCompilerException) => this.formatException(e));
-      const warningMessages = warnings
-        .filter((e: CqlCompilerException | null | undefined): e is CqlCompilerException => e != null)
-        .map((e: CqlCompilerException) => this.formatException(e));
-      const infoMessages = messages
-        .filter((e: CqlCompilerException | null | undefined): e is CqlCompilerException => e != null)
-        .map((e: CqlCompilerException) => this.formatException(e));
-
-      let elmXml: string | null = null;
-      try {
-        elmXml = translator.toXml();
-      } catch (e) {
-        console.warn('Failed to generate ELM XML:', e);
-      }
-
-      let elmJson: string | null = null;
-      try {
-        // See ElmJsonEmitter above re: upstream type-export gap (#1768).
-        elmJson = (translator as unknown as ElmJsonEmitter).toJson();
-      } catch (e) {
-        console.warn('Failed to generate ELM JSON:', e);
-      }
-
-      return {
-        elmXml,
-        elmJson,
-        errors: errorMessages,
-        warnings: warningMessages,
-        messages: infoMessages,
-        hasErrors: errorMessages.length > 0
-      };
-    } catch (error) {
-      // Handle unexpected errors during translation
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        elmXml: null,
-        elmJson: null,
-        errors: [`Translation failed: ${errorMessage}`],
-        warnings: [],
-        messages: [],
-        hasErrors: true
-      };
-    }
+  translateCqlToElm(cql: string, selection?: ModelInfoSelection): TranslationResult {
+    const translatorProfile = this.settingsService.activeTranslatorProfile();
+    return this.formatRawResult(this.translateCqlToElmRaw(cql, selection, translatorProfile), translatorProfile);
   }
 
   /**
-   * Translate CQL to ELM and return raw exceptions (for validation use).
+   * Translate CQL to ELM on the main thread and return raw exceptions (for validation
+   * use). Models are loaded per the library's model info selection, as in translateCqlToElm.
    * Requires included libraries to already be present in the FHIR library source cache.
    */
-  translateCqlToElmRaw(cql: string): RawTranslationResult {
-    try {
-      if (!this.translationAssetsLoaded) {
-        return {
-          elmXml: null,
-          elmJson: null,
-          errors: [{ message: 'Translation assets are still loading. Please try again in a moment.' } as CqlCompilerException],
-          warnings: [],
-          messages: [],
-          hasErrors: true
-        };
-      }
-
-      const translator = CqlTranslator.fromText(cql, this.libraryManager);
-
-      const errors = translator.errors?.asJsReadonlyArrayView() || [];
-      const warnings = translator.warnings?.asJsReadonlyArrayView() || [];
-      const messages = translator.messages?.asJsReadonlyArrayView() || [];
-
-      const rawErrors = errors.filter((e: CqlCompilerException | null | undefined): e is CqlCompilerException => e != null);
-      const rawWarnings = warnings.filter((e: CqlCompilerException | null | undefined): e is CqlCompilerException => e != null);
-      const rawMessages = messages.filter((e: CqlCompilerException | null | undefined): e is CqlCompilerException => e != null);
-
-      let elmXml: string | null = null;
-      try {
-        elmXml = translator.toXml();
-      } catch (e) {
-        console.warn('Failed to generate ELM XML:', e);
-      }
-
-      let elmJson: string | null = null;
-      try {
-        // See ElmJsonEmitter above re: upstream type-export gap (#1768).
-        elmJson = (translator as unknown as ElmJsonEmitter).toJson();
-      } catch (e) {
-        console.warn('Failed to generate ELM JSON:', e);
-      }
-
-      return {
-        elmXml,
-        elmJson,
-        errors: rawErrors,
-        warnings: rawWarnings,
-        messages: rawMessages,
-        hasErrors: rawErrors.length > 0
-      };
-    } catch (error) {
-      // Handle unexpected errors during translation
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const errorException: CqlCompilerException = {
-        message: `Translation failed: ${errorMessage}`
-      };
+  translateCqlToElmRaw(
+    cql: string,
+    selection?: ModelInfoSelection,
+    translatorOptions: TranslatorOptions = this.settingsService.activeTranslatorProfile()
+  ): RawTranslationResult {
+    if (!this.translationAssetsLoaded) {
       return {
         elmXml: null,
         elmJson: null,
-        errors: [errorException],
+        errors: [{ message: 'Translation assets are still loading. Please try again in a moment.' } as CqlCompilerException],
         warnings: [],
         messages: [],
         hasErrors: true
       };
     }
+    return this.inProcessEngine().translate(cql, selection, translatorOptions);
+  }
+
+  private translatorProfileFor(context: LibraryTranslationContext | undefined): TranslatorOptionsProfile {
+    return context?.translatorProfile ?? this.settingsService.activeTranslatorProfile();
+  }
+
+  private formatRawResult(raw: RawTranslationResult, translatorProfile: TranslatorOptionsProfile): TranslationResult {
+    return {
+      elmXml: raw.elmXml,
+      elmJson: raw.elmJson,
+      errors: raw.errors.map(e => this.formatException(e)),
+      warnings: raw.warnings.map(e => this.formatException(e)),
+      messages: raw.messages.map(e => this.formatException(e)),
+      hasErrors: raw.hasErrors,
+      translatorProfile
+    };
   }
 
   /**
@@ -0,0 +1,72 @@
+// Author: Preston Lee
+
+import type { Library } from 'fhir/r4';
+import { describe, expect, it } from 'vitest';
+import type { TranslatorOptionsProfile } from '../models/translator-options.model';
+import {
+  BUILT_IN_TRANSLATOR_PROFILES,
+  CQL_OPTIONS_EXTENSION_URL,
+  cqlOptionsFromLibrary,
+  resolveTranslatorProfile,
+  translatorOptionsKey,
+  translatorProfiles,
+  withCqlOptions
+} from './translator-options.lib';
+
+const custom: TranslatorOptionsProfile = {
+  id: 'custom',
+  name: 'Detailed',
+  options: ['EnableDetailedErrors', 'EnableLocators'],
+  signatureLevel: 'Differing',
+  compatibilityLevel: '1.4'
+};
+
+describe('translator-options.lib', () => {
+  it('lists built-in profiles first and falls back to the default profile', () => {
+    const profiles = translatorProfiles([custom, { ...custom, id: 'default', name: 'Shadowed' }]);
+    expect(profiles.map(profile => profile.id)).toEqual(['default', 'publishing', 'sql-on-fhir', 'custom']);
+    expect(resolveTranslatorProfile(profiles, 'custom')).toBe(custom);
+    expect(resolveTranslatorProfile(profiles, 'deleted')).toBe(BUILT_IN_TRANSLATOR_PROFILES[0]);
+  });
+
+  it('keys option sets independently of option order', () => {
+    expect(translatorOptionsKey(custom)).toBe(
+      translatorOptionsKey({ ...custom, options: ['EnableLocators', 'EnableDetailedErrors'] })
+    );
+    expect(translatorOptionsKey(custom)).not.toBe(translatorOptionsKey({ ...custom, signatureLevel: 'All' }));
+  });
+
+  it('records options on a library as contained cqlOptions Parameters', () => {
+    const library: Library = {
+      resourceType: 'Library',
+      status: 'active',
+      type: {},
+      extension: [{ url: 'http://example.org/other', valueString: 'kept' }]
+    };
+
+    const saved = withCqlOptions(withCqlOptions(library, BUILT_IN_TRANSLATOR_PROFILES[0]), custom);
+    expect(saved.contained).toHaveLength(1);
+    expect(saved.extension).toEqual([
+      { url: 'http://example.org/other', valueString: 'kept' },
+      { url: CQL_OPTIONS_EXTENSION_URL, valueReference: { reference: '#options' } }
+    ]);
+    expect(saved.contained?.[0]).toMatchObject({
+      resourceType: 'Parameters',
+      id: 'options',
+      parameter: [
+        { name: 'option', valueString: 'EnableDetailedErrors' },
+        { name: 'option', valueString: 'EnableLocators' },
+        { name: 'format', valueString: 'XML' },
+        { name: 'validateUnits', valueBoolean: true },
+        { name: 'signatureLevel', valueString: 'Differing' },
+        { name: 'compatibilityLevel', valueString: '1.4' }
+      ]
+    });
+    expect(cqlOptionsFromLibrary(saved)).toEqual({
+      options: ['EnableDetailedErrors', 'EnableLocators'],
+      signatureLevel: 'Differing',
+      compatibilityLevel: '1.4'
+    });
+    expect(cqlOptionsFromLibrary(library)).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+// Author: Preston Lee
+
+import type { Library, Parameters, ParametersParameter } from 'fhir/r4';
+import {
+  DEFAULT_TRANSLATOR_PROFILE_ID,
+  SQL_ON_FHIR_TRANSLATOR_PROFILE_ID,
+  TranslatorOption,
+  TranslatorOptions,
+  TranslatorOptionsProfile,
+  TranslatorSignatureLevel
+} from '../models/translator-options.model';
+
+export const CQL_OPTIONS_EXTENSION_URL = 'http://hl7.org/fhir/StructureDefinition/cqf-cqlOptions';
+/** Id of the contained Parameters resource the cqlOptions extension points at. */
+export const CQL_OPTIONS_PARAMETERS_ID = 'options';
+
+export const TRANSLATOR_OPTION_DETAILS: ReadonlyArray<{ option: TranslatorOption; label: string; description: string }> = [
+  { option: 'EnableAnnotations', label: 'Annotations', description: 'Embed the CQL source of each definition in the ELM.' },
+  { option: 'EnableLocators', label: 'Locators', description: 'Record CQL line and column ranges. Go to definition and references need these.' },
+  { option: 'EnableResultTypes', label: 'Result types', description: 'Record the result type of each expression. Type hovers in the editor need these.' },
+  { option: 'EnableDetailedErrors', label: 'Detailed errors', description: 'Report the full error detail from the translator.' },
+  { option: 'DisableListDemotion', label: 'Disable list demotion', description: 'Do not implicitly convert single-item lists to their element.' },
+  { option: 'DisableListPromotion', label: 'Disable list promotion', description: 'Do not implicitly wrap values in a list.' },
+  { option: 'EnableDateRangeOptimization', label: 'Date range optimization', description: 'Move date range filters into retrieves.' }
+];
+
+export const TRANSLATOR_SIGNATURE_LEVELS: readonly TranslatorSignatureLevel[] = ['None', 'Differing', 'Overloads', 'All'];
+export const TRANSLATOR_COMPATIBILITY_LEVELS: readonly string[] = ['1.3', '1.4', '1.5'];
+
+export const BUILT_IN_TRANSLATOR_PROFILES: readonly TranslatorOptionsProfile[] = [
+  {
+    id: DEFAULT_TRANSLATOR_PROFILE_ID,
+    name: 'CQL Studio',
+    builtIn: true,
+    options: ['EnableAnnotations', 'EnableLocators', 'EnableResultTypes', 'DisableListDemotion', 'DisableListPromotion'],
+    signatureLevel: 'Overloads',
+    compatibilityLevel: '1.5'
+  },
+  {
+    id: 'publishing',
+    name: 'Publishing',
+    builtIn: true,
+    options: ['EnableAnnotations', 'EnableLocators', 'DisableListDemotion', 'DisableListPromotion'],
+    signatureLevel: 'All',
+    compatibilityLevel: '1.5'
+  },
+  {
+    id: SQL_ON_FHIR_TRANSLATOR_PROFILE_ID,
+    name: 'SQL on FHIR',
+    builtIn: true,
+    options: ['EnableLocators', 'EnableResultTypes', 'DisableListDemotion', 'DisableListPromotion'],
+    signatureLevel: 'All',
+    compatibilityLevel: '1.5'
+  }
+];
+
+/** Built-in profiles followed by the user's own. */
+export function translatorProfiles(custom: readonly TranslatorOptionsProfile[]): TranslatorOptionsProfile[] {
+  const builtInIds = new Set(BUILT_IN_TRANSLATOR_PROFILES.map(profile => profile.id));
+  return [...BUILT_IN_TRANSLATOR_PROFILES, ...custom.filter(profile => !builtInIds.has(profile.id))];
+}
+
+/** The profile with the given id, or the default profile when it no longer exists. */
+export function resolveTranslatorProfile(
+  profiles: readonly TranslatorOptionsProfile[],
+  id: string | null | undefined
+): TranslatorOptionsProfile {
+  return (
+    profiles.find(profile => profile.id === id) ??
+    profiles.find(profile => profile.id === DEFAULT_TRANSLATOR_PROFILE_ID) ??
+    BUILT_IN_TRANSLATOR_PROFILES[0]
+  );
+}
+
+/** Stable key for caching translators per option set. */
+export function translatorOptionsKey(options: TranslatorOptions): string {
+  return `${[...options.options].sort().join(',')};${options.signatureLevel};${options.compatibilityLevel}`;
+}
+
+/** One-line summary of an option set, e.g. for tooltips. */
+export function describeTranslatorOptions(options: TranslatorOptions): string {
+  const labels = TRANSLATOR_OPTION_DETAILS.filter(detail => options.options.includes(detail.option)).map(
+    detail => detail.label
+  );
+  return [
+    labels.length ? labels.join(', ') : 'No options',
+    `signature level ${options.signatureLevel}`,
+    `compatibility level ${options.compatibilityLevel}`
+  ].join('; ');
+}
+
+/** The options as the contained Parameters resource of the CQF `cqlOptions` convention. */
+export function cqlOptionsParameters(options: TranslatorOptions): Parameters {
+  const parameter: ParametersParameter[] = [
+    ...options.options.map(option => ({ name: 'option', valueString: option })),
+    { name: 'format', valueString: 'XML' },
+    { name: 'validateUnits', valueBoolean: true },
+    { name: 'signatureLevel', valueString: options.signatureLevel },
+    { name: 'compatibilityLevel', valueString: options.compatibilityLevel }
+  ];
+  return { resourceType: 'Parameters', id: CQL_OPTIONS_PARAMETERS_ID, parameter };
+}
+
+/** Copy of the library recording the translator options its ELM was produced with. */
+export function withCqlOptions(library: Library, options: TranslatorOptions): Library {
+  const contained = (library.contained ?? []).filter(
+    resource => !(resource.resourceType === 'Parameters' && resource.id === CQL_OPTIONS_PARAMETERS_ID)
+  );
+  const extension = (library.extension ?? []).filter(ext => ext.url !== CQL_OPTIONS_EXTENSION_URL);
+  return {
+    ...library,
+    contained: [...contained, cqlOptionsParameters(options)],
+    extension: [...extension, { url: CQL_OPTIONS_EXTENSION_URL, valueReference: { reference: `#${CQL_OPTIONS_PARAMETERS_ID}` } }]
+  };
+}
+
+/** Translator options recorded on a library through the cqlOptions extension, or null. */
+export function cqlOptionsFromLibrary(library: Library): TranslatorOptions | null {
+  const reference = library.extension?.find(ext => ext.url === CQL_OPTIONS_EXTENSION_URL)?.valueReference?.reference;
+  const parameters = library.contained?.find(
+    (resource): resource is Parameters => resource.resourceType === 'Parameters' && `#${resource.id}` === reference
+  );
+  if (!parameters) {
+    return null;
+  }
+  const values = (name: string) =>
+    (parameters.parameter ?? []).filter(p => p.name === name).map(p => p.valueString ?? '');
+  const known = new Set<string>(TRANSLATOR_OPTION_DETAILS.map(detail => detail.option));
+  const signatureLevel = values('signatureLevel')[0];
+  return {
+    options: values('option').filter((option): option is TranslatorOption => known.has(option)),
+    signatureLevel: TRANSLATOR_SIGNATURE_LEVELS.includes(signatureLevel as TranslatorSignatureLevel)
+      ? (signatureLevel as TranslatorSignatureLevel)
+      : 'Overloads',
+    compatibilityLevel: values('compatibilityLevel')[0] || '1.5'
+  };
+}